@@ -30,6 +30,7 @@ const AboutPage = lazy(() => import('@/pages/AboutPage'))
 const BusinessServices = lazy(() => import('@/pages/BusinessServices'))
 const AirCargoShipping = lazy(() => import('@/pages/AirCargoShipping'))
 const TrackingPage = lazy(() => import('@/pages/TrackingPage'))
+const PublicQuotePage = lazy(() => import('@/pages/PublicQuotePage'))
 const RatesPage = lazy(() => import('@/pages/RatesPage'))
 const SupportPage = lazy(() => import('@/pages/SupportPage'))
 const PrivacyPolicyPage = lazy(() => import('@/pages/PrivacyPolicyPage'))
@@ -45,6 +46,7 @@ const CustomerDashboard = lazy(() => import('@/pages/dashboard/CustomerDashboard
 const CreateShipmentPage = lazy(() => import('@/pages/dashboard/CreateShipmentPage'))
 const ShipmentDetailsPage = lazy(() => import('@/pages/dashboard/ShipmentDetailsPage'))
 const QuotesManagementPage = lazy(() => import('@/pages/dashboard/QuotesManagementPage'))
+const BillingPage = lazy(() => import('@/pages/dashboard/BillingPage'))
 const CustomerProfilePage = lazy(() => import('@/pages/customer/CustomerProfilePage'))
 const BookingPage = lazy(() => import('@/pages/BookingPage'))
 
@@ -65,8 +67,16 @@ const AdminBookingCalendar = lazy(() => import('@/pages/admin/AdminBookingCalend
 const AdminSettings = lazy(() => import('@/pages/admin/AdminSettings'))
 const AdminMailboxes = lazy(() => import('@/pages/admin/AdminMailboxes'))
 const AdminQuoteManagement = lazy(() => import('@/pages/admin/AdminQuoteManagement'))
+const AdminRateCards = lazy(() => import('@/pages/admin/AdminRateCards'))
+const AdminExchangeRates = lazy(() => import('@/pages/admin/AdminExchangeRates'))
+const AdminInvoices = lazy(() => import('@/pages/admin/AdminInvoices'))
 const AdminMonitoring = lazy(() => import('@/pages/admin/AdminMonitoring'))
 const AdminPackageReceiving = lazy(() => import('@/pages/admin/AdminPackageReceiving'))
+const AdminReceivingStation = lazy(() => import('@/pages/admin/AdminReceivingStation'))
+const AdminPackagePickup = lazy(() => import('@/pages/admin/AdminPackagePickup'))
+const AdminUnidentifiedPackages = lazy(() => import('@/pages/admin/AdminUnidentifiedPackages'))
+const AdminFacilities = lazy(() => import('@/pages/admin/AdminFacilities'))
+const AdminConsolidations = lazy(() => import('@/pages/admin/AdminConsolidations'))
 const AdminBlogEditor = lazy(() => import('@/pages/admin/AdminBlogEditor'))
 const ContentGenerationQueue = lazy(() => import('@/pages/admin/ContentGenerationQueue'))
 const ContentCalendar = lazy(() => import('@/pages/admin/ContentCalendar'))
@@ -98,6 +108,7 @@ function App() {
                 <Route path="/about" element={<AboutPage />} />
                 <Route path="/business-services" element={<BusinessServices />} />
                 <Route path="/tracking" element={<TrackingPage />} />
+                <Route path="/quote/view" element={<PublicQuotePage />} />
                 <Route path="/rates" element={<RatesPage />} />
                 <Route path="/services" element={<AirCargoShipping />} />
                 <Route path="/air-cargo-shipping" element={<AirCargoShipping />} />
@@ -154,6 +165,15 @@ function App() {
                     </ProtectedRoute>
                   </RouteErrorBoundary>
                 } />
+                <Route path="/dashboard/billing" element={
+                  <RouteErrorBoundary fallback={CustomerErrorFallback}>
+                    <ProtectedRoute>
+                      <AdminRedirect>
+                        <BillingPage />
+                      </AdminRedirect>
+                    </ProtectedRoute>
+                  </RouteErrorBoundary>
+                } />
                 <Route path="/customer/profile" element={
                   <RouteErrorBoundary fallback={CustomerErrorFallback}>
                     <ProtectedRoute>
@@ -188,12 +208,20 @@ function App() {
                   <Route path="bookings/:id" element={<BookingDetailsPage />} />
                   <Route path="bookings/:id/edit" element={<BookingEditPage />} />
                   <Route path="quotes" element={<AdminQuoteManagement />} />
+                  <Route path="rates" element={<AdminRateCards />} />
+                  <Route path="exchange-rates" element={<AdminExchangeRates />} />
+                  <Route path="invoices" element={<AdminInvoices />} />
                   <Route path="vehicles" element={<AdminVehicleManagement />} />
                   <Route path="vehicles/:id" element={<VehicleDetailsPage />} />
                   <Route path="vehicles/:id/edit" element={<VehicleEditPage />} />
                   <Route path="customers" element={<AdminCustomerInsights />} />
                   <Route path="mailboxes" element={<AdminMailboxes />} />
                   <Route path="package-receiving" element={<AdminPackageReceiving />} />
+                  <Route path="package-receiving/station" element={<AdminReceivingStation />} />
+                  <Route path="package-pickup" element={<AdminPackagePickup />} />
+                  <Route path="unidentified-packages" element={<AdminUnidentifiedPackages />} />
+                  <Route path="facilities" element={<AdminFacilities />} />
+                  <Route path="consolidations" element={<AdminConsolidations />} />
                   <Route path="blog/new" element={<AdminBlogEditor />} />
                   <Route path="blog/:id/edit" element={<AdminBlogEditor />} />
                   <Route path="blog/:id" element={<AdminBlogEditor />} />
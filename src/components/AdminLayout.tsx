@@ -16,7 +16,14 @@ import {
   ScanBarcode,
   FileText,
   Activity,
-  Search
+  Search,
+  DollarSign,
+  Coins,
+  Receipt,
+  Layers,
+  PackageCheck,
+  PackageSearch,
+  Warehouse
 } from 'lucide-react'
 
 const AdminLayout: React.FC = () => {
@@ -28,16 +35,28 @@ const AdminLayout: React.FC = () => {
   const navigation = [
     { name: 'Dashboard', href: '/admin', icon: LayoutDashboard, current: location.pathname === '/admin' },
     { name: 'Quotes', href: '/admin/quotes', icon: FileText, current: location.pathname.startsWith('/admin/quotes') },
+    { name: 'Rate Cards', href: '/admin/rates', icon: DollarSign, current: location.pathname.startsWith('/admin/rates') },
+    { name: 'Exchange Rates', href: '/admin/exchange-rates', icon: Coins, current: location.pathname.startsWith('/admin/exchange-rates') },
+    { name: 'Invoices', href: '/admin/invoices', icon: Receipt, current: location.pathname.startsWith('/admin/invoices') },
     { name: 'Bookings', href: '/admin/bookings', icon: Calendar, current: location.pathname.startsWith('/admin/bookings') },
     { name: 'Vehicles', href: '/admin/vehicles', icon: Truck, current: location.pathname.startsWith('/admin/vehicles') },
     { name: 'Customers', href: '/admin/customers', icon: Users, current: location.pathname.startsWith('/admin/customers') },
     { name: 'Mailboxes', href: '/admin/mailboxes', icon: Building2, current: location.pathname.startsWith('/admin/mailboxes') },
+    { name: 'Facilities', href: '/admin/facilities', icon: Warehouse, current: location.pathname.startsWith('/admin/facilities') },
     {
       name: 'Package Receiving',
       href: '/admin/package-receiving',
       icon: ScanBarcode,
       current: location.pathname.startsWith('/admin/package-receiving')
     },
+    { name: 'Counter Pickup', href: '/admin/package-pickup', icon: PackageCheck, current: location.pathname.startsWith('/admin/package-pickup') },
+    {
+      name: 'Unidentified Packages',
+      href: '/admin/unidentified-packages',
+      icon: PackageSearch,
+      current: location.pathname.startsWith('/admin/unidentified-packages')
+    },
+    { name: 'Consolidations', href: '/admin/consolidations', icon: Layers, current: location.pathname.startsWith('/admin/consolidations') },
     { name: 'Blog', href: '/admin/blog', icon: FileText, current: location.pathname.startsWith('/admin/blog') && !location.pathname.includes('/queue') && !location.pathname.includes('/calendar') && !location.pathname.includes('/analytics') },
     { name: 'Content Queue', href: '/admin/blog/queue', icon: FileText, current: location.pathname === '/admin/blog/queue' },
     { name: 'Content Calendar', href: '/admin/blog/calendar', icon: Calendar, current: location.pathname === '/admin/blog/calendar' },
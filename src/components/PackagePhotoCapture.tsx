@@ -0,0 +1,160 @@
+import React, { useEffect, useRef, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Card } from '@/components/ui/card'
+import { Camera, CameraOff, ImagePlus, X } from 'lucide-react'
+
+interface PackagePhotoCaptureProps {
+  isOpen: boolean
+  title: string
+  photoCount: number
+  maxPhotos: number
+  onCapture: (dataUrl: string) => void
+  onClose: () => void
+}
+
+// Longest side after downscaling; keeps a batch of photos well under the upload limit
+const MAX_DIMENSION = 1600
+const JPEG_QUALITY = 0.8
+
+const toJpegDataUrl = (source: CanvasImageSource, width: number, height: number) => {
+  const scale = Math.min(1, MAX_DIMENSION / Math.max(width, height))
+  const canvas = document.createElement('canvas')
+  canvas.width = Math.round(width * scale)
+  canvas.height = Math.round(height * scale)
+  canvas.getContext('2d')?.drawImage(source, 0, 0, canvas.width, canvas.height)
+  return canvas.toDataURL('image/jpeg', JPEG_QUALITY)
+}
+
+export const PackagePhotoCapture: React.FC<PackagePhotoCaptureProps> = ({
+  isOpen,
+  title,
+  photoCount,
+  maxPhotos,
+  onCapture,
+  onClose
+}) => {
+  const videoRef = useRef<HTMLVideoElement | null>(null)
+  const fileInputRef = useRef<HTMLInputElement | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [isReady, setIsReady] = useState(false)
+
+  useEffect(() => {
+    if (!isOpen) return
+
+    let stream: MediaStream | null = null
+    let cancelled = false
+    const startCamera = async () => {
+      try {
+        stream = await navigator.mediaDevices.getUserMedia({
+          video: { facingMode: 'environment', width: { ideal: 1920 }, height: { ideal: 1080 } }
+        })
+        if (cancelled) {
+          stream.getTracks().forEach(track => track.stop())
+          return
+        }
+        if (videoRef.current) {
+          videoRef.current.srcObject = stream
+          await videoRef.current.play()
+        }
+        setIsReady(true)
+        setError(null)
+      } catch (err) {
+        console.error('Camera permission error:', err)
+        setError('Camera unavailable. Allow camera access or choose a photo from the device instead.')
+      }
+    }
+    startCamera()
+
+    return () => {
+      cancelled = true
+      setIsReady(false)
+      stream?.getTracks().forEach(track => track.stop())
+    }
+  }, [isOpen])
+
+  const atLimit = photoCount >= maxPhotos
+
+  const handleCapture = () => {
+    const video = videoRef.current
+    if (!video || !video.videoWidth) return
+    onCapture(toJpegDataUrl(video, video.videoWidth, video.videoHeight))
+  }
+
+  const handleFiles = (files: FileList | null) => {
+    Array.from(files ?? [])
+      .slice(0, Math.max(0, maxPhotos - photoCount))
+      .forEach((file) => {
+        const url = URL.createObjectURL(file)
+        const image = new Image()
+        image.onload = () => {
+          onCapture(toJpegDataUrl(image, image.naturalWidth, image.naturalHeight))
+          URL.revokeObjectURL(url)
+        }
+        image.src = url
+      })
+    if (fileInputRef.current) fileInputRef.current.value = ''
+  }
+
+  if (!isOpen) return null
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/90 p-4">
+      <Card className="relative w-full max-w-2xl overflow-hidden">
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={onClose}
+          className="absolute right-2 top-2 z-10 bg-white/90 hover:bg-white"
+        >
+          <X className="h-5 w-5" />
+        </Button>
+
+        <div className="bg-slate-900 p-4 text-white">
+          <h2 className="text-xl font-bold">Package Photos</h2>
+          <p className="font-mono text-sm text-slate-300">{title}</p>
+        </div>
+
+        <div className="relative aspect-video w-full overflow-hidden bg-black">
+          {error ? (
+            <div className="flex h-full items-center justify-center p-6 text-center text-white">
+              <div>
+                <CameraOff className="mx-auto mb-4 h-12 w-12 text-rose-500" />
+                <p className="text-sm">{error}</p>
+              </div>
+            </div>
+          ) : (
+            <video ref={videoRef} playsInline muted className="h-full w-full object-cover" />
+          )}
+        </div>
+
+        <div className="flex flex-wrap items-center justify-between gap-3 p-4">
+          <span className="text-sm text-slate-600">
+            {photoCount} of {maxPhotos} photos
+          </span>
+          <div className="flex gap-2">
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="image/jpeg,image/png,image/webp"
+              capture="environment"
+              multiple
+              className="hidden"
+              onChange={(event) => handleFiles(event.target.files)}
+            />
+            <Button variant="outline" onClick={() => fileInputRef.current?.click()} disabled={atLimit} className="gap-2">
+              <ImagePlus className="h-4 w-4" />
+              From device
+            </Button>
+            <Button onClick={handleCapture} disabled={!isReady || atLimit} className="gap-2">
+              <Camera className="h-4 w-4" />
+              Take photo
+            </Button>
+            <Button variant="outline" onClick={onClose}>
+              Done
+            </Button>
+          </div>
+        </div>
+      </Card>
+    </div>
+  )
+}
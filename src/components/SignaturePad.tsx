@@ -0,0 +1,95 @@
+import React, { useEffect, useRef } from 'react'
+import { Button } from '@/components/ui/button'
+import { Eraser } from 'lucide-react'
+
+interface SignaturePadProps {
+  /** PNG data URL of the signature, or null once cleared */
+  onChange: (dataUrl: string | null) => void
+  disabled?: boolean
+}
+
+const WIDTH = 600
+const HEIGHT = 200
+
+// A white background keeps the PNG legible on dark viewers
+const paintBlank = (canvas: HTMLCanvasElement) => {
+  const context = canvas.getContext('2d')
+  if (!context) return
+  context.fillStyle = '#ffffff'
+  context.fillRect(0, 0, canvas.width, canvas.height)
+}
+
+/** Draw-to-sign canvas for mouse, pen and touch. */
+export const SignaturePad: React.FC<SignaturePadProps> = ({ onChange, disabled = false }) => {
+  const canvasRef = useRef<HTMLCanvasElement | null>(null)
+  const drawingRef = useRef(false)
+
+  const clear = () => {
+    if (canvasRef.current) paintBlank(canvasRef.current)
+    onChange(null)
+  }
+
+  useEffect(() => {
+    if (canvasRef.current) paintBlank(canvasRef.current)
+  }, [])
+
+  const pointFor = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect()
+    return {
+      x: ((event.clientX - rect.left) / rect.width) * WIDTH,
+      y: ((event.clientY - rect.top) / rect.height) * HEIGHT
+    }
+  }
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (disabled) return
+    const context = event.currentTarget.getContext('2d')
+    if (!context) return
+    event.currentTarget.setPointerCapture(event.pointerId)
+    drawingRef.current = true
+    const { x, y } = pointFor(event)
+    context.strokeStyle = '#0f172a'
+    context.lineWidth = 2.5
+    context.lineCap = 'round'
+    context.lineJoin = 'round'
+    context.beginPath()
+    context.moveTo(x, y)
+  }
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!drawingRef.current) return
+    const context = event.currentTarget.getContext('2d')
+    if (!context) return
+    const { x, y } = pointFor(event)
+    context.lineTo(x, y)
+    context.stroke()
+  }
+
+  const handlePointerUp = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!drawingRef.current) return
+    drawingRef.current = false
+    onChange(event.currentTarget.toDataURL('image/png'))
+  }
+
+  return (
+    <div className="space-y-2">
+      <canvas
+        ref={canvasRef}
+        width={WIDTH}
+        height={HEIGHT}
+        className="w-full touch-none rounded-md border border-slate-300 bg-white"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerLeave={handlePointerUp}
+        aria-label="Signature pad"
+      />
+      <div className="flex justify-end">
+        <Button type="button" variant="ghost" size="sm" onClick={clear} disabled={disabled}>
+          <Eraser className="mr-2 h-4 w-4" />
+          Clear signature
+        </Button>
+      </div>
+    </div>
+  )
+}
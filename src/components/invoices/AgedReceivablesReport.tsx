@@ -0,0 +1,111 @@
+import React, { useEffect, useState } from 'react'
+import { supabase } from '@/lib/supabase'
+import { AgedReceivablesReport as AgingReport, AgingBucket } from '@/lib/types'
+import { toast } from 'sonner'
+import { Loader2 } from 'lucide-react'
+import { AGING_BUCKET_LABELS, formatMoney } from '@/components/invoices/invoice-labels'
+
+const BUCKETS = Object.keys(AGING_BUCKET_LABELS) as AgingBucket[]
+
+const AgedReceivablesReport: React.FC = () => {
+  const [report, setReport] = useState<AgingReport | null>(null)
+  const [loading, setLoading] = useState(false)
+
+  useEffect(() => {
+    const loadReport = async () => {
+      try {
+        setLoading(true)
+        const { data, error } = await supabase.functions.invoke('admin-reports', {
+          body: { report_type: 'aged_receivables' }
+        })
+        if (error) throw new Error(error.message || 'Failed to load aged receivables')
+        if (data?.error) throw new Error(data.error.message || 'Failed to load aged receivables')
+        // Cached reports come back as the stored JSON string
+        const payload = typeof data?.data === 'string' ? JSON.parse(data.data) : data?.data
+        setReport((payload as AgingReport) ?? null)
+      } catch (err) {
+        console.error('Load aged receivables error:', err)
+        toast.error(err instanceof Error ? err.message : 'Unable to load aged receivables')
+      } finally {
+        setLoading(false)
+      }
+    }
+    loadReport()
+  }, [])
+
+  if (loading || !report) {
+    return (
+      <div className="flex items-center justify-center rounded-xl border border-slate-200 bg-white py-10 text-sm text-slate-500">
+        {loading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
+        {loading ? 'Loading aged receivables…' : 'No report available.'}
+      </div>
+    )
+  }
+
+  return (
+    <div className="rounded-xl border border-slate-200 bg-white">
+      <div className="flex flex-wrap items-end justify-between gap-3 border-b border-slate-200 px-4 py-3">
+        <div>
+          <h2 className="text-base font-semibold text-slate-900">Aged receivables</h2>
+          <p className="text-xs text-slate-500">
+            As of {new Date(report.as_of).toLocaleString('en-US', { dateStyle: 'medium', timeStyle: 'short' })}, by days past due
+          </p>
+        </div>
+        <div className="text-right text-sm">
+          <div className="font-semibold text-slate-900">{formatMoney(report.total_outstanding)} outstanding</div>
+          <div className="text-xs text-slate-500">{formatMoney(report.unapplied_credit)} unapplied customer credit</div>
+        </div>
+      </div>
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-slate-200 text-left text-sm">
+          <thead className="bg-slate-50">
+            <tr>
+              <th className="px-4 py-3 font-medium text-slate-600">Customer</th>
+              {BUCKETS.map((bucket) => (
+                <th key={bucket} className="px-4 py-3 text-right font-medium text-slate-600">{AGING_BUCKET_LABELS[bucket]}</th>
+              ))}
+              <th className="px-4 py-3 text-right font-medium text-slate-600">Total</th>
+            </tr>
+          </thead>
+          <tbody>
+            {report.customers.length === 0 ? (
+              <tr>
+                <td colSpan={BUCKETS.length + 2} className="px-4 py-8 text-center text-slate-500">
+                  Nothing outstanding.
+                </td>
+              </tr>
+            ) : (
+              report.customers.map((row) => (
+                <tr key={row.customer_id} className="odd:bg-white even:bg-slate-50">
+                  <td className="px-4 py-2">
+                    <div className="font-medium text-slate-900">{row.customer_name}</div>
+                    <div className="text-xs text-slate-500">
+                      {row.invoice_count} open{row.oldest_days_past_due > 0 ? ` · oldest ${row.oldest_days_past_due}d late` : ''}
+                    </div>
+                  </td>
+                  {BUCKETS.map((bucket) => (
+                    <td key={bucket} className="px-4 py-2 text-right">
+                      {row.buckets[bucket] ? formatMoney(row.buckets[bucket]) : '—'}
+                    </td>
+                  ))}
+                  <td className="px-4 py-2 text-right font-semibold">{formatMoney(row.total)}</td>
+                </tr>
+              ))
+            )}
+          </tbody>
+          <tfoot className="bg-slate-50 font-semibold">
+            <tr>
+              <td className="px-4 py-2">Total</td>
+              {BUCKETS.map((bucket) => (
+                <td key={bucket} className="px-4 py-2 text-right">{formatMoney(report.totals[bucket])}</td>
+              ))}
+              <td className="px-4 py-2 text-right">{formatMoney(report.total_outstanding)}</td>
+            </tr>
+          </tfoot>
+        </table>
+      </div>
+    </div>
+  )
+}
+
+export default AgedReceivablesReport
@@ -0,0 +1,183 @@
+import React, { useEffect, useState } from 'react'
+import { Invoice, InvoiceLineCategory } from '@/lib/types'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Loader2, Plus, Trash2 } from 'lucide-react'
+import { INVOICE_LINE_CATEGORY_LABELS, formatMoney } from '@/components/invoices/invoice-labels'
+
+export interface CreditLineInput {
+  description: string
+  category: InvoiceLineCategory
+  unit_price: number
+  quantity: number
+}
+
+interface CreditNoteDialogProps {
+  invoice: Invoice | null
+  /** What is left to credit after earlier credit notes */
+  creditableAmount: number
+  saving: boolean
+  onOpenChange: (open: boolean) => void
+  /** Lines are null for a full credit of the invoice */
+  onConfirm: (invoice: Invoice, reason: string, lines: CreditLineInput[] | null) => void
+}
+
+const emptyLine = (): { description: string; category: InvoiceLineCategory; amount: string } => ({
+  description: '',
+  category: 'shipping',
+  amount: ''
+})
+
+const CreditNoteDialog: React.FC<CreditNoteDialogProps> = ({
+  invoice,
+  creditableAmount,
+  saving,
+  onOpenChange,
+  onConfirm
+}) => {
+  const [reason, setReason] = useState('')
+  const [fullCredit, setFullCredit] = useState(true)
+  const [lines, setLines] = useState([emptyLine()])
+
+  const alreadyCredited = invoice ? Number(invoice.total_amount) - creditableAmount > 0.005 : false
+
+  useEffect(() => {
+    setReason('')
+    setFullCredit(!alreadyCredited)
+    setLines([emptyLine()])
+  }, [invoice, alreadyCredited])
+
+  const updateLine = (index: number, changes: Partial<ReturnType<typeof emptyLine>>) =>
+    setLines((current) => current.map((line, i) => (i === index ? { ...line, ...changes } : line)))
+
+  const parsedLines: CreditLineInput[] = lines.map((line) => ({
+    description: line.description.trim(),
+    category: line.category,
+    unit_price: Number(line.amount),
+    quantity: 1
+  }))
+  const linesValid = parsedLines.every((line) => line.description && Number.isFinite(line.unit_price) && line.unit_price > 0)
+  // Before tax; the server adds tax on taxable categories and checks the total again
+  const linesTotal = parsedLines.reduce((sum, line) => sum + (Number.isFinite(line.unit_price) ? line.unit_price : 0), 0)
+
+  return (
+    <Dialog open={Boolean(invoice)} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Credit note for {invoice?.invoice_number}</DialogTitle>
+          <DialogDescription>
+            {formatMoney(creditableAmount)} of {formatMoney(Number(invoice?.total_amount ?? 0))} can still be credited.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2 text-sm text-slate-700">
+          <label className="flex items-center gap-2">
+            <input
+              type="radio"
+              name="credit-type"
+              checked={fullCredit}
+              onChange={() => setFullCredit(true)}
+              disabled={alreadyCredited}
+              className="h-4 w-4 border-slate-300"
+            />
+            Full credit (reverses every line, tax included)
+          </label>
+          <label className="flex items-center gap-2">
+            <input
+              type="radio"
+              name="credit-type"
+              checked={!fullCredit}
+              onChange={() => setFullCredit(false)}
+              className="h-4 w-4 border-slate-300"
+            />
+            Partial credit
+          </label>
+        </div>
+
+        {!fullCredit && (
+          <div className="space-y-2">
+            {lines.map((line, index) => (
+              <div key={index} className="grid grid-cols-[1fr_140px_100px_auto] gap-2">
+                <Input
+                  value={line.description}
+                  onChange={(e) => updateLine(index, { description: e.target.value })}
+                  placeholder="Description"
+                  aria-label="Description"
+                />
+                <select
+                  value={line.category}
+                  onChange={(e) => updateLine(index, { category: e.target.value as InvoiceLineCategory })}
+                  className="h-10 rounded-md border border-slate-300 bg-white px-2 text-sm"
+                  aria-label="Category"
+                >
+                  {(Object.keys(INVOICE_LINE_CATEGORY_LABELS) as InvoiceLineCategory[]).map((value) => (
+                    <option key={value} value={value}>{INVOICE_LINE_CATEGORY_LABELS[value]}</option>
+                  ))}
+                </select>
+                <Input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={line.amount}
+                  onChange={(e) => updateLine(index, { amount: e.target.value })}
+                  placeholder="Amount"
+                  aria-label="Amount"
+                />
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => setLines((current) => current.filter((_, i) => i !== index))}
+                  disabled={lines.length === 1}
+                  aria-label="Remove line"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            <div className="flex items-center justify-between">
+              <Button variant="outline" size="sm" onClick={() => setLines((current) => [...current, emptyLine()])} className="gap-1">
+                <Plus className="h-4 w-4" /> Add line
+              </Button>
+              <span className="text-sm text-slate-600">{formatMoney(linesTotal)} before tax</span>
+            </div>
+          </div>
+        )}
+
+        <label className="text-xs font-medium text-slate-600">
+          Reason
+          <Input
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder="Damaged in transit, billing adjustment…"
+            maxLength={500}
+            className="mt-1"
+          />
+        </label>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => invoice && onConfirm(invoice, reason.trim(), fullCredit ? null : parsedLines)}
+            disabled={saving || !reason.trim() || creditableAmount <= 0 || (!fullCredit && !linesValid)}
+            className="gap-2"
+          >
+            {saving && <Loader2 className="h-4 w-4 animate-spin" />}
+            Issue credit note
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+export default CreditNoteDialog
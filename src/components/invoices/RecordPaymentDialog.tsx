@@ -0,0 +1,210 @@
+import React, { useEffect, useState } from 'react'
+import { supabase } from '@/lib/supabase'
+import { Invoice, InvoicePayment, PaymentMethod } from '@/lib/types'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { toast } from 'sonner'
+import { Loader2, Mail } from 'lucide-react'
+import { COUNTER_PAYMENT_METHODS, PAYMENT_METHOD_LABELS, formatMoney } from '@/components/invoices/invoice-labels'
+
+interface RecordPaymentDialogProps {
+  invoice: Invoice | null
+  onOpenChange: (open: boolean) => void
+  onRecorded: () => void
+}
+
+interface InvoiceDetail {
+  invoice: Invoice
+  payments: InvoicePayment[]
+  customer_credit_balance: number
+}
+
+const RecordPaymentDialog: React.FC<RecordPaymentDialogProps> = ({ invoice, onOpenChange, onRecorded }) => {
+  const [detail, setDetail] = useState<InvoiceDetail | null>(null)
+  const [amount, setAmount] = useState('')
+  const [method, setMethod] = useState<PaymentMethod>('cash')
+  const [reference, setReference] = useState('')
+  const [notes, setNotes] = useState('')
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    setDetail(null)
+    setMethod('cash')
+    setReference('')
+    setNotes('')
+    if (!invoice) return
+
+    const loadDetail = async () => {
+      const { data, error } = await supabase.functions.invoke<InvoiceDetail>('admin-invoices', {
+        body: { action: 'get', invoice_id: invoice.id }
+      })
+      if (error || !data) {
+        toast.error(error?.message || 'Unable to load invoice')
+        return
+      }
+      setDetail(data)
+      setAmount(String(data.invoice.balance_due ?? ''))
+    }
+    loadDetail()
+  }, [invoice])
+
+  const balance = Number(detail?.invoice.balance_due ?? 0)
+  const value = Number(amount)
+  const overpayment = Number.isFinite(value) ? Math.max(value - balance, 0) : 0
+  const needsReference = method === 'zelle' || method === 'card'
+  const creditShort = method === 'account_credit' && value > Number(detail?.customer_credit_balance ?? 0)
+
+  const handleSave = async () => {
+    if (!invoice) return
+    try {
+      setSaving(true)
+      const { data, error } = await supabase.functions.invoke<{ payment: InvoicePayment; receipt_sent: boolean }>(
+        'admin-invoices',
+        {
+          body: {
+            action: 'record_payment',
+            invoice_id: invoice.id,
+            payment: { amount: value, method, reference, notes }
+          }
+        }
+      )
+      if (error) throw error
+      toast.success(
+        `Payment ${data?.payment.receipt_number ?? ''} recorded${data?.receipt_sent ? ' and receipt emailed' : ''}`
+      )
+      onRecorded()
+      onOpenChange(false)
+    } catch (err) {
+      console.error('Failed to record payment:', err)
+      toast.error(err instanceof Error ? err.message : 'Unable to record payment.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const resendReceipt = async (payment: InvoicePayment) => {
+    if (!invoice) return
+    const { error } = await supabase.functions.invoke('admin-invoices', {
+      body: { action: 'resend_receipt', invoice_id: invoice.id, payment_id: payment.id }
+    })
+    if (error) {
+      toast.error(error.message || 'Unable to send receipt')
+    } else {
+      toast.success(`Receipt ${payment.receipt_number} sent`)
+    }
+  }
+
+  return (
+    <Dialog open={Boolean(invoice)} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Record payment on {invoice?.invoice_number}</DialogTitle>
+          <DialogDescription>
+            {detail
+              ? `${formatMoney(balance)} due of ${formatMoney(Number(detail.invoice.total_amount))}. Account credit: ${formatMoney(detail.customer_credit_balance)}.`
+              : 'Loading balance…'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {detail && detail.payments.length > 0 && (
+          <div className="rounded-lg border border-slate-200">
+            {detail.payments.map((payment) => (
+              <div key={payment.id} className="flex items-center justify-between gap-2 px-3 py-2 text-sm odd:bg-slate-50">
+                <div>
+                  <div className="font-medium text-slate-900">
+                    {formatMoney(Number(payment.amount))} · {PAYMENT_METHOD_LABELS[payment.method]}
+                    {payment.reference ? ` ${payment.reference}` : ''}
+                  </div>
+                  <div className="text-xs text-slate-500">
+                    {payment.receipt_number} · {new Date(payment.received_at).toLocaleDateString('en-US', { dateStyle: 'medium' })}
+                    {Number(payment.overpayment_amount) > 0 && ` · ${formatMoney(Number(payment.overpayment_amount))} to credit`}
+                  </div>
+                </div>
+                <Button size="sm" variant="ghost" onClick={() => resendReceipt(payment)} aria-label="Email receipt">
+                  <Mail className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="grid grid-cols-2 gap-3">
+          <label className="text-xs font-medium text-slate-600">
+            Amount received
+            <Input
+              type="number"
+              min="0"
+              step="0.01"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              className="mt-1"
+            />
+          </label>
+          <label className="text-xs font-medium text-slate-600">
+            Method
+            <select
+              value={method}
+              onChange={(e) => setMethod(e.target.value as PaymentMethod)}
+              className="mt-1 h-10 w-full rounded-md border border-slate-300 bg-white px-3 text-sm"
+            >
+              {COUNTER_PAYMENT_METHODS.map((value) => (
+                <option key={value} value={value}>{PAYMENT_METHOD_LABELS[value]}</option>
+              ))}
+            </select>
+          </label>
+        </div>
+        {method !== 'cash' && method !== 'account_credit' && (
+          <label className="text-xs font-medium text-slate-600">
+            {method === 'zelle' ? 'Zelle confirmation number' : 'Card authorization code'}
+            <Input value={reference} onChange={(e) => setReference(e.target.value)} maxLength={100} className="mt-1" />
+          </label>
+        )}
+        <label className="text-xs font-medium text-slate-600">
+          Notes (optional)
+          <Input value={notes} onChange={(e) => setNotes(e.target.value)} maxLength={500} className="mt-1" />
+        </label>
+
+        {overpayment > 0 && method !== 'account_credit' && (
+          <p className="rounded-md bg-amber-50 px-3 py-2 text-sm text-amber-800">
+            {formatMoney(overpayment)} more than the balance will be kept as credit on the customer's account.
+          </p>
+        )}
+        {method === 'account_credit' && (overpayment > 0 || creditShort) && (
+          <p className="rounded-md bg-red-50 px-3 py-2 text-sm text-red-700">
+            Account credit can cover at most the balance and the customer's available credit.
+          </p>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSave}
+            disabled={
+              saving ||
+              !detail ||
+              !(value > 0) ||
+              (needsReference && !reference.trim()) ||
+              (method === 'account_credit' && (overpayment > 0 || creditShort))
+            }
+            className="gap-2"
+          >
+            {saving && <Loader2 className="h-4 w-4 animate-spin" />}
+            Record payment
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+export default RecordPaymentDialog
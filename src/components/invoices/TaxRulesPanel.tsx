@@ -0,0 +1,117 @@
+import React, { useState } from 'react'
+import { InvoiceLineCategory, TaxRule } from '@/lib/types'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Save } from 'lucide-react'
+import { INVOICE_LINE_CATEGORY_LABELS } from '@/components/invoices/invoice-labels'
+
+interface TaxRulesPanelProps {
+  rules: TaxRule[]
+  saving: boolean
+  onSave: (rule: Partial<TaxRule>) => Promise<boolean>
+}
+
+const formatRate = (rate: number) => `${(Number(rate) * 100).toFixed(3).replace(/\.?0+$/, '')}%`
+
+const TaxRulesPanel: React.FC<TaxRulesPanelProps> = ({ rules, saving, onSave }) => {
+  const [name, setName] = useState('')
+  const [jurisdiction, setJurisdiction] = useState('NJ')
+  const [ratePercent, setRatePercent] = useState('')
+  const [category, setCategory] = useState<InvoiceLineCategory>('packaging_supplies')
+  const [effectiveFrom, setEffectiveFrom] = useState(() => new Date().toISOString().slice(0, 10))
+
+  const handleSave = async () => {
+    const saved = await onSave({
+      name: name.trim(),
+      jurisdiction: jurisdiction.trim(),
+      rate: Number(ratePercent) / 100,
+      applies_to_category: category,
+      effective_from: effectiveFrom
+    })
+    if (saved) {
+      setName('')
+      setRatePercent('')
+    }
+  }
+
+  return (
+    <div className="rounded-xl border border-slate-200 bg-white">
+      <div className="border-b border-slate-200 px-4 py-3">
+        <h2 className="text-base font-semibold text-slate-900">Tax rules</h2>
+        <p className="text-xs text-slate-500">
+          Each rule taxes one line category. Air freight to the Caribbean is not taxed.
+        </p>
+      </div>
+      <div className="divide-y divide-slate-100">
+        {rules.length === 0 && <p className="px-4 py-3 text-sm text-slate-500">No tax rules.</p>}
+        {rules.map((rule) => (
+          <div key={rule.id} className="flex items-center justify-between gap-3 px-4 py-2 text-sm">
+            <div>
+              <div className={`font-medium ${rule.is_active ? 'text-slate-900' : 'text-slate-400 line-through'}`}>
+                {rule.name} · {formatRate(rule.rate)}
+              </div>
+              <div className="text-xs text-slate-500">
+                {rule.jurisdiction} · {INVOICE_LINE_CATEGORY_LABELS[rule.applies_to_category] ?? rule.applies_to_category} · from{' '}
+                {rule.effective_from}
+              </div>
+            </div>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => onSave({ ...rule, is_active: !rule.is_active })}
+              disabled={saving}
+            >
+              {rule.is_active ? 'Disable' : 'Enable'}
+            </Button>
+          </div>
+        ))}
+      </div>
+      <div className="space-y-3 border-t border-slate-200 px-4 py-3">
+        <label className="block text-xs font-medium text-slate-600">
+          Name
+          <Input value={name} onChange={(e) => setName(e.target.value)} placeholder="NJ Sales Tax" className="mt-1" />
+        </label>
+        <div className="grid grid-cols-2 gap-3">
+          <label className="block text-xs font-medium text-slate-600">
+            Jurisdiction
+            <Input value={jurisdiction} onChange={(e) => setJurisdiction(e.target.value)} maxLength={10} className="mt-1" />
+          </label>
+          <label className="block text-xs font-medium text-slate-600">
+            Rate (%)
+            <Input
+              type="number"
+              min="0"
+              step="0.001"
+              value={ratePercent}
+              onChange={(e) => setRatePercent(e.target.value)}
+              placeholder="6.625"
+              className="mt-1"
+            />
+          </label>
+        </div>
+        <label className="block text-xs font-medium text-slate-600">
+          Applies to
+          <select
+            value={category}
+            onChange={(e) => setCategory(e.target.value as InvoiceLineCategory)}
+            className="mt-1 h-10 w-full rounded-md border border-slate-300 bg-white px-3 text-sm"
+          >
+            {(Object.keys(INVOICE_LINE_CATEGORY_LABELS) as InvoiceLineCategory[]).map((value) => (
+              <option key={value} value={value}>{INVOICE_LINE_CATEGORY_LABELS[value]}</option>
+            ))}
+          </select>
+        </label>
+        <label className="block text-xs font-medium text-slate-600">
+          Effective from
+          <Input type="date" value={effectiveFrom} onChange={(e) => setEffectiveFrom(e.target.value)} className="mt-1" />
+        </label>
+        <Button onClick={handleSave} disabled={saving || !name.trim() || !ratePercent} className="w-full gap-2">
+          <Save className="h-4 w-4" />
+          Add rule
+        </Button>
+      </div>
+    </div>
+  )
+}
+
+export default TaxRulesPanel
@@ -0,0 +1,69 @@
+import React, { useEffect, useState } from 'react'
+import { Invoice } from '@/lib/types'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Loader2 } from 'lucide-react'
+
+interface VoidInvoiceDialogProps {
+  invoice: Invoice | null
+  saving: boolean
+  onOpenChange: (open: boolean) => void
+  onConfirm: (invoice: Invoice, reason: string) => void
+}
+
+const VoidInvoiceDialog: React.FC<VoidInvoiceDialogProps> = ({ invoice, saving, onOpenChange, onConfirm }) => {
+  const [reason, setReason] = useState('')
+
+  useEffect(() => {
+    setReason('')
+  }, [invoice])
+
+  return (
+    <Dialog open={Boolean(invoice)} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Void {invoice?.invoice_number ?? 'draft invoice'}</DialogTitle>
+          <DialogDescription>
+            The number stays in the ledger marked void. To reduce a paid invoice, issue a credit note instead.
+          </DialogDescription>
+        </DialogHeader>
+
+        <label className="text-xs font-medium text-slate-600">
+          Reason
+          <Input
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder="Issued in error, duplicate…"
+            maxLength={500}
+            className="mt-1"
+          />
+        </label>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+            Cancel
+          </Button>
+          <Button
+            variant="destructive"
+            onClick={() => invoice && onConfirm(invoice, reason.trim())}
+            disabled={saving || !reason.trim()}
+            className="gap-2"
+          >
+            {saving && <Loader2 className="h-4 w-4 animate-spin" />}
+            Void invoice
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+export default VoidInvoiceDialog
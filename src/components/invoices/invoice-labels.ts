@@ -0,0 +1,49 @@
+import { AgingBucket, InvoiceLineCategory, InvoiceStatus, PaymentMethod } from '@/lib/types'
+
+export const INVOICE_STATUS_LABELS: Record<InvoiceStatus, string> = {
+  draft: 'Draft',
+  sent: 'Sent',
+  partially_paid: 'Partially paid',
+  paid: 'Paid',
+  void: 'Void'
+}
+
+export const INVOICE_STATUS_COLORS: Record<InvoiceStatus, string> = {
+  draft: 'bg-slate-100 text-slate-700',
+  sent: 'bg-amber-100 text-amber-800',
+  partially_paid: 'bg-orange-100 text-orange-800',
+  paid: 'bg-green-100 text-green-800',
+  void: 'bg-red-100 text-red-700'
+}
+
+export const INVOICE_LINE_CATEGORY_LABELS: Record<InvoiceLineCategory, string> = {
+  shipping: 'Shipping',
+  surcharge: 'Surcharge',
+  insurance: 'Insurance',
+  handling: 'Handling',
+  storage: 'Storage',
+  packaging_supplies: 'Packaging supplies',
+  other: 'Other'
+}
+
+export const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+  cash: 'Cash',
+  zelle: 'Zelle',
+  card: 'Card',
+  account_credit: 'Account credit',
+  online: 'Online'
+}
+
+/** Online payments are only recorded by the payment webhook */
+export const COUNTER_PAYMENT_METHODS: PaymentMethod[] = ['cash', 'zelle', 'card', 'account_credit']
+
+export const AGING_BUCKET_LABELS: Record<AgingBucket, string> = {
+  current: 'Current',
+  '1_30': '1–30 days',
+  '31_60': '31–60 days',
+  '61_90': '61–90 days',
+  '90_plus': '90+ days'
+}
+
+export const formatMoney = (amount: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(amount)
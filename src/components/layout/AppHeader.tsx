@@ -185,6 +185,13 @@ export function AppHeader({ back, onMenuToggle }: HeaderProps) {
                       >
                         Create Shipment
                       </Link>
+                      <Link
+                        to="/dashboard/billing"
+                        className="block px-4 py-2 text-slate-600 hover:bg-slate-100 hover:text-fuchsia-700"
+                        onClick={() => setIsUserMenuOpen(false)}
+                      >
+                        Billing
+                      </Link>
                       <button
                         onClick={handleSignOut}
                         className="w-full text-left px-4 py-2 text-slate-600 hover:bg-red-50 hover:text-red-600"
@@ -1,4 +1,4 @@
-import { Home, Package, CalendarDays, User } from "lucide-react";
+import { Home, Package, CalendarDays, Receipt, User } from "lucide-react";
 import { Link, useLocation } from "react-router-dom";
 
 export function DashboardTabBar() {
@@ -8,7 +8,7 @@ export function DashboardTabBar() {
 
   return (
     <nav className="md:hidden fixed bottom-0 inset-x-0 z-50 h-14 bg-white/95 backdrop-blur border-t">
-      <div className="grid grid-cols-4 h-full">
+      <div className="grid grid-cols-5 h-full">
         <Link 
           to="/dashboard" 
           className={`flex flex-col items-center justify-center gap-1 text-xs font-medium ${
@@ -36,6 +36,15 @@ export function DashboardTabBar() {
           <CalendarDays className="h-5 w-5" />
           <span>Bookings</span>
         </Link>
+        <Link 
+          to="/dashboard/billing" 
+          className={`flex flex-col items-center justify-center gap-1 text-xs font-medium ${
+            isActive('/dashboard/billing') ? 'text-shopify-pink' : 'text-slate-600'
+          }`}
+        >
+          <Receipt className="h-5 w-5" />
+          <span>Billing</span>
+        </Link>
         <Link 
           to="/customer/profile" 
           className={`flex flex-col items-center justify-center gap-1 text-xs font-medium ${
@@ -0,0 +1,160 @@
+import React, { useEffect, useMemo, useState } from 'react'
+import { supabase } from '@/lib/supabase'
+import { AgingInventory, StorageAgingBucket } from '@/lib/types'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { toast } from 'sonner'
+import { Loader2, RefreshCw } from 'lucide-react'
+
+const BUCKETS: { value: StorageAgingBucket; label: string; className: string }[] = [
+  { value: 'free', label: 'Free period', className: 'bg-emerald-100 text-emerald-800' },
+  { value: 'accruing', label: 'Accruing fees', className: 'bg-amber-100 text-amber-800' },
+  { value: 'abandonment_risk', label: 'Abandonment risk', className: 'bg-red-100 text-red-800' }
+]
+
+const formatDate = (value: string | null | undefined) => {
+  if (!value) return '—'
+  return new Date(value).toLocaleDateString('en-US', { dateStyle: 'medium' })
+}
+
+const formatMoney = (value: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(value)
+
+const AgingInventoryCard: React.FC = () => {
+  const [inventory, setInventory] = useState<AgingInventory | null>(null)
+  const [bucket, setBucket] = useState<StorageAgingBucket | 'all'>('all')
+  const [loading, setLoading] = useState(false)
+
+  useEffect(() => {
+    loadInventory()
+  }, [])
+
+  const loadInventory = async () => {
+    try {
+      setLoading(true)
+      const { data, error } = await supabase.functions.invoke<AgingInventory>('package-storage', {
+        body: { action: 'aging' }
+      })
+      if (error) throw error
+      setInventory(data)
+    } catch (err) {
+      console.error('Failed to load aging inventory:', err)
+      toast.error(err instanceof Error ? err.message : 'Unable to load aging inventory.')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const counts = useMemo(() => {
+    const totals: Record<StorageAgingBucket, number> = { free: 0, accruing: 0, abandonment_risk: 0 }
+    inventory?.packages.forEach((pkg) => {
+      totals[pkg.bucket] += 1
+    })
+    return totals
+  }, [inventory])
+
+  const visible = (inventory?.packages ?? []).filter((pkg) => bucket === 'all' || pkg.bucket === bucket)
+
+  return (
+    <Card className="max-w-5xl">
+      <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+        <div>
+          <CardTitle>Aging Inventory</CardTitle>
+          {inventory && (
+            <p className="mt-1 text-sm text-slate-600">
+              {inventory.free_days} days free, then {formatMoney(inventory.rate_per_lb_week)}/lb per week. Unclaimed
+              packages are disposed after {inventory.policy.abandonment_days} days with{' '}
+              {inventory.policy.abandonment_notice_days} days' final notice.
+            </p>
+          )}
+        </div>
+        <Button variant="outline" size="sm" onClick={loadInventory} disabled={loading} className="gap-2">
+          <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+          Refresh
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap gap-2">
+          <Button variant={bucket === 'all' ? 'default' : 'outline'} size="sm" onClick={() => setBucket('all')}>
+            All ({inventory?.packages.length ?? 0})
+          </Button>
+          {BUCKETS.map((option) => (
+            <Button
+              key={option.value}
+              variant={bucket === option.value ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => setBucket(option.value)}
+            >
+              {option.label} ({counts[option.value]})
+            </Button>
+          ))}
+        </div>
+
+        {loading && !inventory ? (
+          <div className="flex items-center gap-2 text-sm text-slate-500">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Loading inventory…
+          </div>
+        ) : visible.length === 0 ? (
+          <div className="rounded-lg border border-dashed border-slate-200 px-4 py-6 text-center text-sm text-slate-500">
+            No packages on the shelf in this group.
+          </div>
+        ) : (
+          <div className="overflow-x-auto rounded-lg border border-slate-200">
+            <table className="min-w-full divide-y divide-slate-200 text-sm">
+              <thead className="bg-slate-50 text-left text-xs font-medium uppercase tracking-wide text-slate-500">
+                <tr>
+                  <th className="px-3 py-2">Package</th>
+                  <th className="px-3 py-2">Customer</th>
+                  <th className="px-3 py-2 text-right">Days</th>
+                  <th className="px-3 py-2">Status</th>
+                  <th className="px-3 py-2 text-right">Storage</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {visible.map((pkg) => {
+                  const style = BUCKETS.find((option) => option.value === pkg.bucket)
+                  return (
+                    <tr key={pkg.id}>
+                      <td className="px-3 py-2">
+                        <div className="font-mono text-slate-900">{pkg.tracking_number}</div>
+                        <div className="text-xs text-slate-500">
+                          {pkg.carrier || 'Carrier TBD'} · {pkg.weight ? `${pkg.weight} lbs` : 'not weighed'} · received{' '}
+                          {formatDate(pkg.received_at)}
+                        </div>
+                      </td>
+                      <td className="px-3 py-2">
+                        <div className="text-slate-900">{pkg.customer_name || 'Customer'}</div>
+                        <div className="text-xs text-slate-500">{pkg.mailbox_number ?? '—'}</div>
+                      </td>
+                      <td className="px-3 py-2 text-right font-medium text-slate-900">{pkg.storage_days}</td>
+                      <td className="px-3 py-2">
+                        <Badge className={style?.className}>{style?.label}</Badge>
+                        <div className="mt-1 text-xs text-slate-500">
+                          {pkg.abandonment_notice_sent_at
+                            ? `Final notice ${formatDate(pkg.abandonment_notice_sent_at)} · disposal ${formatDate(pkg.disposal_due_at)}`
+                            : pkg.bucket === 'free'
+                              ? `Free until ${formatDate(pkg.free_until)}`
+                              : `Disposal after ${formatDate(pkg.disposal_due_at)}`}
+                        </div>
+                      </td>
+                      <td className="px-3 py-2 text-right">
+                        <div className="text-slate-900">{formatMoney(pkg.storage_charged)}</div>
+                        {pkg.storage_uninvoiced > 0 && (
+                          <div className="text-xs text-amber-700">{formatMoney(pkg.storage_uninvoiced)} not yet invoiced</div>
+                        )}
+                      </td>
+                    </tr>
+                  )
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+export default AgingInventoryCard
@@ -0,0 +1,224 @@
+import React, { useEffect, useState } from 'react'
+import { supabase } from '@/lib/supabase'
+import { logger } from '@/lib/logger'
+import { ConsolidationEstimate, ConsolidationPackage, Destination } from '@/lib/types'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { toast } from 'sonner'
+import { Loader2, PackageCheck } from 'lucide-react'
+
+interface ConsolidationDialogProps {
+  packages: ConsolidationPackage[]
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onRequested: () => void
+}
+
+const formatMoney = (value: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(value)
+
+const ConsolidationDialog: React.FC<ConsolidationDialogProps> = ({ packages, open, onOpenChange, onRequested }) => {
+  const [destinations, setDestinations] = useState<Destination[]>([])
+  const [destinationId, setDestinationId] = useState('')
+  const [serviceType, setServiceType] = useState<'standard' | 'express'>('standard')
+  const [declaredValue, setDeclaredValue] = useState('')
+  const [notes, setNotes] = useState('')
+  const [estimate, setEstimate] = useState<ConsolidationEstimate | null>(null)
+  const [estimating, setEstimating] = useState(false)
+  const [submitting, setSubmitting] = useState(false)
+
+  useEffect(() => {
+    if (!open || destinations.length > 0) return
+    const loadDestinations = async () => {
+      const { data, error } = await supabase
+        .from('destinations')
+        .select('*')
+        .eq('is_active', true)
+        .order('country_name')
+      if (error) {
+        logger.error('Error loading destinations', error, {
+          component: 'ConsolidationDialog',
+          action: 'loadDestinations'
+        })
+        toast.error('Failed to load destination options')
+        return
+      }
+      setDestinations(data || [])
+    }
+    loadDestinations()
+  }, [open, destinations.length])
+
+  const requestBody = (action: 'estimate' | 'request') => ({
+    action,
+    package_ids: packages.map((pkg) => pkg.id),
+    destination_id: Number(destinationId),
+    service_type: serviceType,
+    declared_value: Number(declaredValue) || 0,
+    notes
+  })
+
+  useEffect(() => {
+    // Notes don't change the price, so typing them doesn't re-estimate
+    setEstimate(null)
+    if (!open || !destinationId) return
+
+    let cancelled = false
+    const loadEstimate = async () => {
+      setEstimating(true)
+      const { data, error } = await supabase.functions.invoke<{ estimate: ConsolidationEstimate }>(
+        'mailbox-consolidation',
+        { body: requestBody('estimate') }
+      )
+      if (cancelled) return
+      setEstimating(false)
+      if (error) {
+        toast.error(error.message || 'Unable to estimate the consolidation')
+        return
+      }
+      setEstimate(data?.estimate ?? null)
+    }
+    const timer = window.setTimeout(loadEstimate, 300)
+    return () => {
+      cancelled = true
+      window.clearTimeout(timer)
+    }
+  }, [open, destinationId, serviceType, declaredValue, packages])
+
+  const handleSubmit = async () => {
+    try {
+      setSubmitting(true)
+      const { data, error } = await supabase.functions.invoke<{ shipment: { tracking_number: string } }>(
+        'mailbox-consolidation',
+        { body: requestBody('request') }
+      )
+      if (error) throw error
+      toast.success(`Consolidation requested as shipment ${data?.shipment.tracking_number ?? ''}. We'll send a quote once the box is re-weighed.`)
+      setNotes('')
+      onRequested()
+      onOpenChange(false)
+    } catch (err: unknown) {
+      const error = err instanceof Error ? err : new Error(String(err))
+      logger.error('Consolidation request failed', error, {
+        component: 'ConsolidationDialog',
+        action: 'handleSubmit'
+      })
+      toast.error(error.message || 'Unable to request the consolidation.')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Consolidate {packages.length} packages</DialogTitle>
+          <DialogDescription>
+            We'll repack these into one box and ship them together. Your quote is based on the box's weight after repacking.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="max-h-40 overflow-y-auto rounded-lg border border-slate-200">
+          {packages.map((pkg) => (
+            <div key={pkg.id} className="flex items-center justify-between gap-2 px-3 py-2 text-sm odd:bg-slate-50">
+              <span className="font-mono text-slate-900">{pkg.tracking_number}</span>
+              <span className="text-xs text-slate-500">
+                {pkg.carrier || 'Carrier TBD'}
+                {pkg.weight ? ` · ${pkg.weight} lbs` : ''}
+              </span>
+            </div>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-2 gap-3">
+          <label className="col-span-2 text-xs font-medium text-slate-600">
+            Destination
+            <select
+              value={destinationId}
+              onChange={(e) => setDestinationId(e.target.value)}
+              className="mt-1 h-10 w-full rounded-md border border-slate-300 bg-white px-3 text-sm"
+            >
+              <option value="">Select a destination</option>
+              {destinations.map((destination) => (
+                <option key={destination.id} value={destination.id}>
+                  {destination.city_name ? `${destination.city_name}, ` : ''}{destination.country_name}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="text-xs font-medium text-slate-600">
+            Service
+            <select
+              value={serviceType}
+              onChange={(e) => setServiceType(e.target.value as 'standard' | 'express')}
+              className="mt-1 h-10 w-full rounded-md border border-slate-300 bg-white px-3 text-sm"
+            >
+              <option value="standard">Standard</option>
+              <option value="express">Express</option>
+            </select>
+          </label>
+          <label className="text-xs font-medium text-slate-600">
+            Declared value (USD)
+            <Input
+              type="number"
+              min="0"
+              step="0.01"
+              value={declaredValue}
+              onChange={(e) => setDeclaredValue(e.target.value)}
+              className="mt-1"
+            />
+          </label>
+        </div>
+        <label className="text-xs font-medium text-slate-600">
+          Packing notes (optional)
+          <Input value={notes} onChange={(e) => setNotes(e.target.value)} maxLength={500} className="mt-1" />
+        </label>
+
+        {destinationId && (
+          <div className="rounded-md bg-slate-50 px-3 py-2 text-sm text-slate-700">
+            {estimating ? (
+              <span className="flex items-center gap-2">
+                <Loader2 className="h-4 w-4 animate-spin" />
+                Estimating…
+              </span>
+            ) : estimate?.total_cost != null ? (
+              <>
+                <div className="font-medium text-slate-900">
+                  Estimated {formatMoney(estimate.total_cost)} for {estimate.weight_lbs} lbs
+                  {estimate.transit ? ` · ${estimate.transit.min}-${estimate.transit.max} business days` : ''}
+                </div>
+                {estimate.unweighed_packages.length > 0 && (
+                  <p className="text-xs text-amber-700">
+                    {estimate.unweighed_packages.length} package(s) haven't been weighed yet and aren't included.
+                  </p>
+                )}
+              </>
+            ) : (
+              <span>None of these packages have been weighed yet; we'll quote once the box is re-weighed.</span>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={submitting}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={submitting || !destinationId || packages.length < 2} className="gap-2">
+            {submitting ? <Loader2 className="h-4 w-4 animate-spin" /> : <PackageCheck className="h-4 w-4" />}
+            Request consolidation
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+export default ConsolidationDialog
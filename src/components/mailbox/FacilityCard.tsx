@@ -0,0 +1,143 @@
+import React, { useEffect, useState } from 'react'
+import { supabase } from '@/lib/supabase'
+import { logger } from '@/lib/logger'
+import type { VirtualAddress } from '@/hooks/useVirtualAddress'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Label } from '@/components/ui/label'
+import { toast } from 'sonner'
+import { Loader2, Warehouse } from 'lucide-react'
+
+type ActiveFacility = {
+  id: number
+  name: string
+  city: string
+  state: string
+}
+
+interface FacilityCardProps {
+  address: VirtualAddress | null
+  onTransferred: () => void
+}
+
+/** Lets customers move their mailbox to another warehouse once more than one is open. */
+const FacilityCard: React.FC<FacilityCardProps> = ({ address, onTransferred }) => {
+  const [facilities, setFacilities] = useState<ActiveFacility[]>([])
+  const [selectedId, setSelectedId] = useState<number | null>(null)
+  const [confirming, setConfirming] = useState(false)
+  const [transferring, setTransferring] = useState(false)
+
+  useEffect(() => {
+    const loadFacilities = async () => {
+      const { data, error } = await supabase
+        .from('facilities')
+        .select('id,name,city,state')
+        .eq('is_active', true)
+        .order('id')
+      if (error) {
+        logger.error('Error loading facilities', error, { component: 'FacilityCard', action: 'loadFacilities' })
+        return
+      }
+      setFacilities(data || [])
+    }
+    loadFacilities()
+  }, [])
+
+  if (!address || facilities.length < 2) {
+    return null
+  }
+
+  const otherFacilities = facilities.filter((facility) => facility.id !== address.facility_id)
+  const selected = otherFacilities.find((facility) => facility.id === selectedId) ?? null
+
+  const handleTransfer = async () => {
+    if (!selected) return
+    try {
+      setTransferring(true)
+      const { data, error } = await supabase.rpc('transfer_virtual_mailbox', { p_facility_id: selected.id })
+      if (error) throw error
+      const mailboxNumber = Array.isArray(data) ? data[0]?.mailbox_number : null
+      toast.success(
+        mailboxNumber
+          ? `Your mailbox moved to ${selected.name}. Your new mailbox number is ${mailboxNumber}.`
+          : `Your mailbox moved to ${selected.name}.`
+      )
+      setConfirming(false)
+      setSelectedId(null)
+      onTransferred()
+    } catch (err) {
+      logger.error('Error transferring mailbox', err, { component: 'FacilityCard', action: 'handleTransfer' })
+      toast.error(err instanceof Error ? err.message : 'Unable to change your facility.')
+    } finally {
+      setTransferring(false)
+    }
+  }
+
+  return (
+    <div className="mt-3 rounded-2xl border border-slate-200 p-4">
+      <div className="flex flex-col gap-3 md:flex-row md:items-end md:justify-between">
+        <div className="flex items-start gap-2">
+          <Warehouse className="mt-0.5 h-4 w-4 text-slate-500" />
+          <div>
+            <p className="text-sm font-medium text-slate-900">{address.facility_name}</p>
+            <p className="text-xs text-slate-500">Your packages are received and held at this warehouse.</p>
+          </div>
+        </div>
+        <div className="flex items-end gap-2">
+          <div className="space-y-1">
+            <Label htmlFor="facilityChoice" className="text-xs text-slate-500">
+              Move to
+            </Label>
+            <select
+              id="facilityChoice"
+              className="rounded-md border border-slate-300 px-3 py-2 text-sm"
+              value={selectedId ?? ''}
+              onChange={(event) => setSelectedId(event.target.value ? Number(event.target.value) : null)}
+            >
+              <option value="">Choose a facility</option>
+              {otherFacilities.map((facility) => (
+                <option key={facility.id} value={facility.id}>
+                  {facility.name} ({facility.city}, {facility.state})
+                </option>
+              ))}
+            </select>
+          </div>
+          <Button size="sm" variant="outline" disabled={!selected} onClick={() => setConfirming(true)}>
+            Change facility
+          </Button>
+        </div>
+      </div>
+
+      <Dialog open={confirming} onOpenChange={setConfirming}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Move your mailbox to {selected?.name}?</DialogTitle>
+            <DialogDescription>
+              You will get a new mailbox number and shipping address at {selected?.city}, {selected?.state}. Update
+              the address with the stores you order from. Packages still waiting in your current mailbox must be
+              collected or forwarded first.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setConfirming(false)} disabled={transferring}>
+              Cancel
+            </Button>
+            <Button onClick={handleTransfer} disabled={transferring}>
+              {transferring && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Move mailbox
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
+
+export default FacilityCard
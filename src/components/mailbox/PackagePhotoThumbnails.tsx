@@ -0,0 +1,56 @@
+import React, { useEffect, useState } from 'react'
+import { supabase } from '@/lib/supabase'
+import { logger } from '@/lib/logger'
+
+interface PackagePhotoThumbnailsProps {
+  paths: string[]
+  trackingNumber: string
+}
+
+const PHOTO_BUCKET = 'package-photos'
+// Photos are private; links stay valid long enough to browse the dashboard
+const SIGNED_URL_SECONDS = 60 * 60
+
+const PackagePhotoThumbnails: React.FC<PackagePhotoThumbnailsProps> = ({ paths, trackingNumber }) => {
+  const [urls, setUrls] = useState<string[]>([])
+  const pathKey = paths.join('|')
+
+  useEffect(() => {
+    let cancelled = false
+    const signPhotos = async () => {
+      const { data, error } = await supabase.storage.from(PHOTO_BUCKET).createSignedUrls(paths, SIGNED_URL_SECONDS)
+      if (cancelled) return
+      if (error) {
+        logger.error('Error signing package photos', error, {
+          component: 'PackagePhotoThumbnails',
+          action: 'signPhotos'
+        })
+        return
+      }
+      setUrls((data || []).map((entry) => entry.signedUrl).filter((url): url is string => Boolean(url)))
+    }
+    signPhotos()
+    return () => {
+      cancelled = true
+    }
+  }, [pathKey])
+
+  if (urls.length === 0) return null
+
+  return (
+    <div className="mt-2 flex flex-wrap gap-1.5">
+      {urls.map((url, index) => (
+        <a key={url} href={url} target="_blank" rel="noopener noreferrer">
+          <img
+            src={url}
+            alt={`Package ${trackingNumber} on arrival, photo ${index + 1}`}
+            className="h-12 w-12 rounded-md border border-slate-200 object-cover hover:opacity-80"
+            loading="lazy"
+          />
+        </a>
+      ))}
+    </div>
+  )
+}
+
+export default PackagePhotoThumbnails
@@ -0,0 +1,291 @@
+import React, { useEffect, useState } from 'react'
+import { supabase } from '@/lib/supabase'
+import { logger } from '@/lib/logger'
+import { useAuth } from '@/contexts/AuthContext'
+import { identifyCarrier } from '@/lib/receiving'
+import { PackagePreAlert, PreAlertStatus } from '@/lib/types'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { toast } from 'sonner'
+import { BellPlus, FileText, Loader2, X } from 'lucide-react'
+
+const INVOICE_BUCKET = 'pre-alert-invoices'
+const MAX_INVOICE_BYTES = 10 * 1024 * 1024
+const INVOICE_TYPES: Record<string, string> = {
+  'application/pdf': 'pdf',
+  'image/jpeg': 'jpg',
+  'image/png': 'png'
+}
+
+const STATUS_BADGES: Record<PreAlertStatus, { label: string; className: string }> = {
+  pending: { label: 'Expected', className: 'text-amber-700 border-amber-200 bg-amber-50' },
+  received: { label: 'Arrived as expected', className: 'text-green-700 border-green-200 bg-green-50' },
+  cancelled: { label: 'Cancelled', className: 'text-slate-600 border-slate-300 bg-slate-50' }
+}
+
+const formatMoney = (value: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(value)
+
+const normalizeTracking = (value: string) => value.replace(/[\s-]/g, '').toUpperCase()
+
+const emptyForm = { retailer: '', trackingNumber: '', contents: '', declaredValue: '' }
+
+/** Customer pre-alerts for packages on their way to the mailbox. */
+const PreAlertsCard: React.FC = () => {
+  const { user } = useAuth()
+  const [preAlerts, setPreAlerts] = useState<PackagePreAlert[]>([])
+  const [open, setOpen] = useState(false)
+  const [form, setForm] = useState(emptyForm)
+  const [invoice, setInvoice] = useState<File | null>(null)
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    if (user) loadPreAlerts()
+  }, [user])
+
+  const loadPreAlerts = async () => {
+    const { data, error } = await supabase
+      .from('package_pre_alerts')
+      .select('*')
+      .neq('status', 'cancelled')
+      .order('created_at', { ascending: false })
+      .limit(20)
+    if (error) {
+      logger.error('Error loading pre-alerts', error, { component: 'PreAlertsCard', action: 'loadPreAlerts' })
+      return
+    }
+    setPreAlerts((data || []).map((row: any) => ({ ...row, declared_value: Number(row.declared_value) })))
+  }
+
+  const handleInvoiceChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0] ?? null
+    if (file && !INVOICE_TYPES[file.type]) {
+      toast.error('Invoices must be a PDF, JPEG or PNG file.')
+      event.target.value = ''
+      return
+    }
+    if (file && file.size > MAX_INVOICE_BYTES) {
+      toast.error('Invoices must be 10MB or smaller.')
+      event.target.value = ''
+      return
+    }
+    setInvoice(file)
+  }
+
+  const handleSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+    if (!user) return
+
+    const trackingNumber = normalizeTracking(form.trackingNumber)
+    const declaredValue = Number(form.declaredValue)
+    if (!/^[A-Z0-9]{8,40}$/.test(trackingNumber)) {
+      toast.error('Enter the tracking number from your order confirmation.')
+      return
+    }
+    if (!Number.isFinite(declaredValue) || declaredValue < 0) {
+      toast.error('Enter the value you paid for the contents.')
+      return
+    }
+
+    try {
+      setSaving(true)
+      let invoicePath: string | null = null
+      if (invoice) {
+        invoicePath = `${user.id}/${crypto.randomUUID()}.${INVOICE_TYPES[invoice.type]}`
+        const { error: uploadError } = await supabase.storage
+          .from(INVOICE_BUCKET)
+          .upload(invoicePath, invoice, { contentType: invoice.type })
+        if (uploadError) throw uploadError
+      }
+
+      const carrier = identifyCarrier(trackingNumber)
+      const { error } = await supabase.from('package_pre_alerts').insert({
+        retailer: form.retailer.trim(),
+        tracking_number: trackingNumber,
+        carrier: carrier === 'Generic' ? null : carrier,
+        contents: form.contents.trim(),
+        declared_value: declaredValue,
+        invoice_path: invoicePath
+      })
+      if (error) {
+        if (error.code === '23505') {
+          toast.error('You already have a pre-alert for this tracking number.')
+          return
+        }
+        throw error
+      }
+
+      toast.success('Pre-alert saved. We will tell you when it arrives.')
+      setOpen(false)
+      setForm(emptyForm)
+      setInvoice(null)
+      loadPreAlerts()
+    } catch (err) {
+      logger.error('Error saving pre-alert', err, { component: 'PreAlertsCard', action: 'handleSubmit' })
+      toast.error('Unable to save the pre-alert. Please try again.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleCancel = async (preAlert: PackagePreAlert) => {
+    const { error } = await supabase.from('package_pre_alerts').update({ status: 'cancelled' }).eq('id', preAlert.id)
+    if (error) {
+      toast.error('Unable to cancel the pre-alert.')
+      return
+    }
+    setPreAlerts((prev) => prev.filter((item) => item.id !== preAlert.id))
+  }
+
+  const openInvoice = async (path: string) => {
+    const { data, error } = await supabase.storage.from(INVOICE_BUCKET).createSignedUrl(path, 300)
+    if (error || !data) {
+      toast.error('Unable to open the invoice.')
+      return
+    }
+    window.open(data.signedUrl, '_blank', 'noopener')
+  }
+
+  return (
+    <div className="space-y-3 mb-6">
+      <div className="flex justify-between items-center">
+        <h2 className="text-lg font-semibold text-slate-900">Pre-alerts</h2>
+        <Button size="sm" variant="outline" onClick={() => setOpen(true)} className="gap-1">
+          <BellPlus className="h-4 w-4" />
+          Pre-alert a package
+        </Button>
+      </div>
+      {preAlerts.length === 0 ? (
+        <p className="text-sm text-slate-600">
+          Ordered something online? Pre-alert it with the invoice so customs paperwork is ready when it arrives.
+        </p>
+      ) : (
+        <div className="space-y-2">
+          {preAlerts.map((preAlert) => (
+            <div key={preAlert.id} className="rounded-2xl border border-slate-200 p-4">
+              <div className="flex justify-between items-start gap-3">
+                <div>
+                  <p className="font-medium text-slate-900">{preAlert.retailer}</p>
+                  <p className="font-mono text-xs text-slate-600">
+                    {preAlert.tracking_number}
+                    {preAlert.carrier ? ` · ${preAlert.carrier}` : ''}
+                  </p>
+                  <p className="text-xs text-slate-500 mt-1">
+                    {preAlert.contents} · {formatMoney(preAlert.declared_value)}
+                  </p>
+                  {preAlert.invoice_path && (
+                    <button
+                      type="button"
+                      onClick={() => openInvoice(preAlert.invoice_path as string)}
+                      className="mt-1 inline-flex items-center gap-1 text-xs text-shopify-pink hover:text-shopify-maroon"
+                    >
+                      <FileText className="h-3 w-3" />
+                      Invoice
+                    </button>
+                  )}
+                </div>
+                <div className="flex items-center gap-2">
+                  <Badge variant="outline" className={STATUS_BADGES[preAlert.status].className}>
+                    {STATUS_BADGES[preAlert.status].label}
+                  </Badge>
+                  {preAlert.status === 'pending' && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => handleCancel(preAlert)}
+                      aria-label={`Cancel pre-alert ${preAlert.tracking_number}`}
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Pre-alert a package</DialogTitle>
+            <DialogDescription>
+              Tell us what is coming to your mailbox. We match it by tracking number when it arrives.
+            </DialogDescription>
+          </DialogHeader>
+          <form className="space-y-4" onSubmit={handleSubmit}>
+            <div className="space-y-1">
+              <Label htmlFor="preAlertRetailer">Retailer</Label>
+              <Input
+                id="preAlertRetailer"
+                value={form.retailer}
+                onChange={(event) => setForm({ ...form, retailer: event.target.value })}
+                placeholder="Amazon, Shein, Best Buy…"
+                maxLength={120}
+                required
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="preAlertTracking">Tracking number</Label>
+              <Input
+                id="preAlertTracking"
+                value={form.trackingNumber}
+                onChange={(event) => setForm({ ...form, trackingNumber: event.target.value })}
+                className="font-mono"
+                required
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="preAlertContents">Contents</Label>
+              <Input
+                id="preAlertContents"
+                value={form.contents}
+                onChange={(event) => setForm({ ...form, contents: event.target.value })}
+                placeholder="2 pairs of shoes, phone case"
+                maxLength={500}
+                required
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="preAlertValue">Declared value (USD)</Label>
+              <Input
+                id="preAlertValue"
+                type="number"
+                min="0"
+                step="0.01"
+                value={form.declaredValue}
+                onChange={(event) => setForm({ ...form, declaredValue: event.target.value })}
+                required
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="preAlertInvoice">Invoice (PDF, JPEG or PNG)</Label>
+              <Input id="preAlertInvoice" type="file" accept=".pdf,image/jpeg,image/png" onChange={handleInvoiceChange} />
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setOpen(false)} disabled={saving}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saving}>
+                {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Save pre-alert
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
+
+export default PreAlertsCard
@@ -0,0 +1,114 @@
+import React, { useEffect, useState } from 'react'
+import { supabase } from '@/lib/supabase'
+import { useAuth } from '@/contexts/AuthContext'
+import { UnmatchedArrival } from '@/lib/types'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { toast } from 'sonner'
+import { Check, RefreshCw } from 'lucide-react'
+
+const formatDate = (value: string) => new Date(value).toLocaleDateString('en-US', { dateStyle: 'medium' })
+
+/** Packages received without a customer pre-alert, until staff have chased the paperwork. */
+const UnmatchedArrivalsCard: React.FC = () => {
+  const { user } = useAuth()
+  const [arrivals, setArrivals] = useState<UnmatchedArrival[]>([])
+  const [loading, setLoading] = useState(false)
+
+  useEffect(() => {
+    loadArrivals()
+  }, [])
+
+  const loadArrivals = async () => {
+    try {
+      setLoading(true)
+      const { data, error } = await supabase
+        .from('received_packages')
+        .select('id, tracking_number, carrier, created_at, virtual_mailboxes(mailbox_number)')
+        .eq('pre_alert_match', 'unmatched')
+        .is('pre_alert_reviewed_at', null)
+        .order('created_at', { ascending: true })
+        .limit(100)
+      if (error) throw error
+      setArrivals(
+        (data || []).map((pkg: any) => ({
+          id: pkg.id,
+          tracking_number: pkg.tracking_number,
+          carrier: pkg.carrier,
+          created_at: pkg.created_at,
+          mailbox_number: pkg.virtual_mailboxes?.mailbox_number ?? null
+        }))
+      )
+    } catch (err) {
+      console.error('Failed to load unmatched arrivals:', err)
+      toast.error('Unable to load arrivals without a pre-alert.')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const markReviewed = async (id: string) => {
+    const { error } = await supabase
+      .from('received_packages')
+      .update({ pre_alert_reviewed_at: new Date().toISOString(), pre_alert_reviewed_by: user?.id ?? null })
+      .eq('id', id)
+    if (error) {
+      toast.error('Unable to update the package.')
+      return
+    }
+    setArrivals((prev) => prev.filter((pkg) => pkg.id !== id))
+  }
+
+  return (
+    <Card className="max-w-5xl">
+      <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+        <div>
+          <CardTitle>Arrivals Without Pre-alert ({arrivals.length})</CardTitle>
+          <p className="mt-1 text-sm text-slate-600">
+            Ask these customers for the retailer, contents, value and invoice before the package ships.
+          </p>
+        </div>
+        <Button variant="outline" size="sm" onClick={loadArrivals} disabled={loading} className="gap-2">
+          <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+          Refresh
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {arrivals.length === 0 ? (
+          <p className="text-sm text-slate-500">Every recent arrival matched a pre-alert.</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-slate-200 text-left text-xs uppercase text-slate-500">
+                <th className="py-2">Mailbox</th>
+                <th className="py-2">Tracking</th>
+                <th className="py-2">Received</th>
+                <th className="py-2" />
+              </tr>
+            </thead>
+            <tbody>
+              {arrivals.map((pkg) => (
+                <tr key={pkg.id} className="border-b border-slate-100">
+                  <td className="py-2 font-mono">{pkg.mailbox_number ?? '—'}</td>
+                  <td className="py-2">
+                    <span className="font-mono">{pkg.tracking_number}</span>
+                    {pkg.carrier && <span className="ml-2 text-xs uppercase text-slate-400">{pkg.carrier}</span>}
+                  </td>
+                  <td className="py-2 text-slate-500">{formatDate(pkg.created_at)}</td>
+                  <td className="py-2 text-right">
+                    <Button variant="ghost" size="sm" onClick={() => markReviewed(pkg.id)} className="gap-1">
+                      <Check className="h-4 w-4" />
+                      Reviewed
+                    </Button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+export default UnmatchedArrivalsCard
@@ -0,0 +1,316 @@
+import React, { useState } from 'react'
+import { supabase } from '@/lib/supabase'
+import { FollowUpCadence, FollowUpCadenceStep } from '@/lib/types'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Loader2, Plus, Trash2 } from 'lucide-react'
+import { toast } from 'sonner'
+import { FOLLOW_UP_CHANNEL_LABELS, FOLLOW_UP_TEMPLATE_LABELS } from '@/components/quotes/quote-labels'
+
+export interface CadenceDestination {
+  id: number
+  country_name: string
+  city_name: string | null
+}
+
+interface FollowUpCadenceManagerProps {
+  open: boolean
+  cadences: FollowUpCadence[]
+  destinations: CadenceDestination[]
+  onOpenChange: (open: boolean) => void
+  onSaved: () => void
+}
+
+interface CadenceForm {
+  id?: number
+  name: string
+  destinationId: string
+  minValue: string
+  maxValue: string
+  priority: string
+  isDefault: boolean
+  isActive: boolean
+  steps: FollowUpCadenceStep[]
+}
+
+const emptyForm: CadenceForm = {
+  name: '',
+  destinationId: '',
+  minValue: '',
+  maxValue: '',
+  priority: '0',
+  isDefault: false,
+  isActive: true,
+  steps: [{ day: 1, channel: 'email', template: 'reminder' }]
+}
+
+const toForm = (cadence: FollowUpCadence): CadenceForm => ({
+  id: cadence.id,
+  name: cadence.name,
+  destinationId: cadence.destination_id ? String(cadence.destination_id) : '',
+  minValue: cadence.min_quote_value !== null ? String(cadence.min_quote_value) : '',
+  maxValue: cadence.max_quote_value !== null ? String(cadence.max_quote_value) : '',
+  priority: String(cadence.priority),
+  isDefault: cadence.is_default,
+  isActive: cadence.is_active,
+  steps: cadence.steps
+})
+
+const selectClass = 'mt-1 h-10 w-full rounded-md border border-slate-300 bg-white px-3 text-sm'
+
+const FollowUpCadenceManager: React.FC<FollowUpCadenceManagerProps> = ({
+  open,
+  cadences,
+  destinations,
+  onOpenChange,
+  onSaved
+}) => {
+  const [form, setForm] = useState<CadenceForm | null>(null)
+  const [saving, setSaving] = useState(false)
+
+  const destinationLabel = (id: number | null) => {
+    const destination = destinations.find((item) => item.id === id)
+    return destination ? [destination.city_name, destination.country_name].filter(Boolean).join(', ') : 'All destinations'
+  }
+
+  const updateStep = (index: number, changes: Partial<FollowUpCadenceStep>) => {
+    setForm((current) =>
+      current && { ...current, steps: current.steps.map((step, i) => (i === index ? { ...step, ...changes } : step)) }
+    )
+  }
+
+  const handleSave = async () => {
+    if (!form) return
+    try {
+      setSaving(true)
+      const { data, error } = await supabase.functions.invoke('admin-quote-cadences', {
+        body: {
+          action: 'save_cadence',
+          cadence: {
+            id: form.id,
+            name: form.name,
+            destination_id: form.destinationId ? Number(form.destinationId) : null,
+            min_quote_value: form.minValue || null,
+            max_quote_value: form.maxValue || null,
+            priority: parseInt(form.priority, 10) || 0,
+            is_default: form.isDefault,
+            is_active: form.isActive,
+            steps: form.steps
+          }
+        }
+      })
+      if (error) throw new Error(error.message || 'Failed to save cadence')
+      if (data?.error) throw new Error(data.error.message || 'Failed to save cadence')
+      toast.success(`Saved ${form.name}.`)
+      setForm(null)
+      onSaved()
+    } catch (err) {
+      console.error('Save cadence error:', err)
+      toast.error(err instanceof Error ? err.message : 'Unable to save cadence')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        if (!next) setForm(null)
+        onOpenChange(next)
+      }}
+    >
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{form ? (form.id ? `Edit ${form.name}` : 'New cadence') : 'Follow-up cadences'}</DialogTitle>
+          <DialogDescription>
+            New quotes get the most specific active cadence: destination rules first, then the highest priority value
+            rule, then the default. Day offsets count from when the quote was issued.
+          </DialogDescription>
+        </DialogHeader>
+
+        {!form ? (
+          <>
+            <ul className="max-h-[50vh] space-y-2 overflow-y-auto">
+              {cadences.map((cadence) => (
+                <li key={cadence.id} className="flex items-start justify-between gap-3 rounded-xl border border-slate-200 p-3">
+                  <div className="text-sm">
+                    <p className="font-semibold text-slate-900">
+                      {cadence.name}
+                      {cadence.is_default && (
+                        <span className="ml-2 rounded-full bg-emerald-100 px-2 py-0.5 text-xs font-medium text-emerald-700">Default</span>
+                      )}
+                      {!cadence.is_active && (
+                        <span className="ml-2 rounded-full bg-slate-100 px-2 py-0.5 text-xs font-medium text-slate-500">Inactive</span>
+                      )}
+                    </p>
+                    <p className="text-xs text-slate-500">
+                      {destinationLabel(cadence.destination_id)}
+                      {cadence.min_quote_value !== null && ` · from $${cadence.min_quote_value}`}
+                      {cadence.max_quote_value !== null && ` · under $${cadence.max_quote_value}`}
+                      {` · priority ${cadence.priority}`}
+                    </p>
+                    <p className="mt-1 text-xs text-slate-600">
+                      {cadence.steps
+                        .map((step) => `Day ${step.day} ${FOLLOW_UP_CHANNEL_LABELS[step.channel]} (${FOLLOW_UP_TEMPLATE_LABELS[step.template]})`)
+                        .join(' → ')}
+                    </p>
+                  </div>
+                  <Button variant="outline" size="sm" onClick={() => setForm(toForm(cadence))}>
+                    Edit
+                  </Button>
+                </li>
+              ))}
+            </ul>
+            <DialogFooter>
+              <Button onClick={() => setForm(emptyForm)} className="gap-2">
+                <Plus className="h-4 w-4" /> New cadence
+              </Button>
+            </DialogFooter>
+          </>
+        ) : (
+          <>
+            <div className="grid gap-4 sm:grid-cols-2">
+              <label className="text-xs font-medium text-slate-600">
+                Name
+                <Input value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} className="mt-1" />
+              </label>
+              <label className="text-xs font-medium text-slate-600">
+                Destination
+                <select
+                  value={form.destinationId}
+                  onChange={(e) => setForm({ ...form, destinationId: e.target.value })}
+                  className={selectClass}
+                >
+                  <option value="">All destinations</option>
+                  {destinations.map((destination) => (
+                    <option key={destination.id} value={destination.id}>
+                      {destinationLabel(destination.id)}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="text-xs font-medium text-slate-600">
+                Min quote value (USD)
+                <Input type="number" min="0" value={form.minValue} onChange={(e) => setForm({ ...form, minValue: e.target.value })} className="mt-1" />
+              </label>
+              <label className="text-xs font-medium text-slate-600">
+                Max quote value (USD)
+                <Input type="number" min="0" value={form.maxValue} onChange={(e) => setForm({ ...form, maxValue: e.target.value })} className="mt-1" />
+              </label>
+              <label className="text-xs font-medium text-slate-600">
+                Priority
+                <Input type="number" value={form.priority} onChange={(e) => setForm({ ...form, priority: e.target.value })} className="mt-1" />
+              </label>
+              <div className="flex items-end gap-4 text-sm text-slate-700">
+                <label className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={form.isActive}
+                    onChange={(e) => setForm({ ...form, isActive: e.target.checked })}
+                    className="h-4 w-4 rounded border-slate-300"
+                  />
+                  Active
+                </label>
+                <label className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={form.isDefault}
+                    onChange={(e) => setForm({ ...form, isDefault: e.target.checked })}
+                    className="h-4 w-4 rounded border-slate-300"
+                  />
+                  Default
+                </label>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <p className="text-xs font-semibold uppercase tracking-wide text-slate-500">Steps</p>
+              {form.steps.map((step, index) => (
+                <div key={index} className="grid grid-cols-[90px_1fr_1fr_auto] items-end gap-2">
+                  <label className="text-xs font-medium text-slate-600">
+                    Day
+                    <Input
+                      type="number"
+                      min="0"
+                      value={step.day}
+                      onChange={(e) => updateStep(index, { day: parseInt(e.target.value, 10) || 0 })}
+                      className="mt-1"
+                    />
+                  </label>
+                  <label className="text-xs font-medium text-slate-600">
+                    Channel
+                    <select
+                      value={step.channel}
+                      onChange={(e) => updateStep(index, { channel: e.target.value as FollowUpCadenceStep['channel'] })}
+                      className={selectClass}
+                    >
+                      {Object.entries(FOLLOW_UP_CHANNEL_LABELS).map(([value, label]) => (
+                        <option key={value} value={value}>{label}</option>
+                      ))}
+                    </select>
+                  </label>
+                  <label className="text-xs font-medium text-slate-600">
+                    Message
+                    <select
+                      value={step.template}
+                      onChange={(e) => updateStep(index, { template: e.target.value as FollowUpCadenceStep['template'] })}
+                      className={selectClass}
+                    >
+                      {Object.entries(FOLLOW_UP_TEMPLATE_LABELS).map(([value, label]) => (
+                        <option key={value} value={value}>{label}</option>
+                      ))}
+                    </select>
+                  </label>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setForm({ ...form, steps: form.steps.filter((_, i) => i !== index) })}
+                    disabled={form.steps.length === 1}
+                    aria-label="Remove step"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() =>
+                  setForm({
+                    ...form,
+                    steps: [...form.steps, { day: (form.steps[form.steps.length - 1]?.day ?? 0) + 2, channel: 'email', template: 'reminder' }]
+                  })
+                }
+                className="gap-2"
+              >
+                <Plus className="h-4 w-4" /> Add step
+              </Button>
+              <p className="text-[11px] text-slate-500">Quotes are valid for 7 days; steps on or after day 7 never run.</p>
+            </div>
+
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setForm(null)} disabled={saving}>
+                Back
+              </Button>
+              <Button onClick={handleSave} disabled={saving || !form.name.trim()} className="gap-2">
+                {saving && <Loader2 className="h-4 w-4 animate-spin" />}
+                Save cadence
+              </Button>
+            </DialogFooter>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+export default FollowUpCadenceManager
@@ -0,0 +1,88 @@
+import React, { useEffect, useState } from 'react'
+import { LostReason, ShippingQuote } from '@/lib/types'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Loader2 } from 'lucide-react'
+import { LOST_REASON_LABELS } from '@/components/quotes/quote-labels'
+
+interface LostReasonDialogProps {
+  quote: ShippingQuote | null
+  saving: boolean
+  onOpenChange: (open: boolean) => void
+  onConfirm: (quote: ShippingQuote, reason: LostReason, detail: string) => void
+}
+
+const LostReasonDialog: React.FC<LostReasonDialogProps> = ({ quote, saving, onOpenChange, onConfirm }) => {
+  const [reason, setReason] = useState<LostReason | ''>('')
+  const [detail, setDetail] = useState('')
+
+  useEffect(() => {
+    setReason('')
+    setDetail('')
+  }, [quote])
+
+  const detailRequired = reason === 'other'
+
+  return (
+    <Dialog open={Boolean(quote)} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Close {quote?.quote_reference} as lost</DialogTitle>
+          <DialogDescription>The reason feeds the win/loss report, so pick the closest match.</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          {(Object.keys(LOST_REASON_LABELS) as LostReason[]).map((value) => (
+            <label key={value} className="flex items-center gap-2 text-sm text-slate-700">
+              <input
+                type="radio"
+                name="lost-reason"
+                value={value}
+                checked={reason === value}
+                onChange={() => setReason(value)}
+                className="h-4 w-4 border-slate-300"
+              />
+              {LOST_REASON_LABELS[value]}
+            </label>
+          ))}
+        </div>
+
+        <label className="text-xs font-medium text-slate-600">
+          Details{detailRequired ? '' : ' (optional)'}
+          <Input
+            value={detail}
+            onChange={(e) => setDetail(e.target.value)}
+            placeholder={reason === 'competitor' ? 'Which carrier and at what price?' : 'Anything worth remembering'}
+            maxLength={500}
+            className="mt-1"
+          />
+        </label>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+            Cancel
+          </Button>
+          <Button
+            variant="destructive"
+            onClick={() => quote && reason && onConfirm(quote, reason, detail.trim())}
+            disabled={saving || !reason || (detailRequired && !detail.trim())}
+            className="gap-2"
+          >
+            {saving && <Loader2 className="h-4 w-4 animate-spin" />}
+            Close as lost
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+export default LostReasonDialog
@@ -0,0 +1,191 @@
+import React, { useEffect, useState } from 'react'
+import { supabase } from '@/lib/supabase'
+import { LostReason, QuoteConversionGroup, QuoteConversionReport as ConversionReport, QuoteDecisionPercentiles } from '@/lib/types'
+import { Loader2 } from 'lucide-react'
+import { toast } from 'sonner'
+import { LOST_REASON_LABELS } from '@/components/quotes/quote-labels'
+
+const RANGES = [
+  { days: 30, label: 'Last 30 days' },
+  { days: 90, label: 'Last 90 days' },
+  { days: 365, label: 'Last 12 months' }
+]
+
+const DIMENSIONS: { key: keyof Omit<ConversionReport, 'summary' | 'time_to_decision_hours'>; label: string }[] = [
+  { key: 'by_destination', label: 'Destination' },
+  { key: 'by_service_type', label: 'Service' },
+  { key: 'by_weight_band', label: 'Weight band' },
+  { key: 'by_age', label: 'Quote age' },
+  { key: 'by_follow_up_step', label: 'Follow-up step' }
+]
+
+const formatHours = (hours: number | null) => {
+  if (hours === null) return '—'
+  return hours < 48 ? `${hours.toFixed(1)} h` : `${(hours / 24).toFixed(1)} d`
+}
+
+const formatRate = (rate: number | null) => (rate === null ? '—' : `${rate}%`)
+
+const topLostReason = (group: Pick<QuoteConversionGroup, 'lost_reasons'>) => {
+  const [reason, count] = (Object.entries(group.lost_reasons) as [LostReason, number][])
+    .sort(([, a], [, b]) => b - a)[0] ?? []
+  return reason && count ? `${LOST_REASON_LABELS[reason]} (${count})` : '—'
+}
+
+const PercentileRow: React.FC<{ label: string; values: QuoteDecisionPercentiles }> = ({ label, values }) => (
+  <tr className="border-t border-slate-100">
+    <td className="py-1.5">{label}</td>
+    <td className="py-1.5 text-right">{values.count}</td>
+    <td className="py-1.5 text-right">{formatHours(values.p50)}</td>
+    <td className="py-1.5 text-right">{formatHours(values.p75)}</td>
+    <td className="py-1.5 text-right">{formatHours(values.p90)}</td>
+  </tr>
+)
+
+const QuoteConversionReport: React.FC = () => {
+  const [rangeDays, setRangeDays] = useState(90)
+  const [dimension, setDimension] = useState<(typeof DIMENSIONS)[number]['key']>('by_destination')
+  const [report, setReport] = useState<ConversionReport | null>(null)
+  const [loading, setLoading] = useState(false)
+
+  useEffect(() => {
+    const loadReport = async () => {
+      try {
+        setLoading(true)
+        const end = new Date()
+        const start = new Date(end.getTime() - rangeDays * 24 * 60 * 60 * 1000)
+        const { data, error } = await supabase.functions.invoke('admin-reports', {
+          body: {
+            report_type: 'quote_conversion',
+            date_range: { start: start.toISOString().split('T')[0], end: end.toISOString() }
+          }
+        })
+        if (error) throw new Error(error.message || 'Failed to load conversion report')
+        if (data?.error) throw new Error(data.error.message || 'Failed to load conversion report')
+        // Cached reports come back as the stored JSON string
+        const payload = typeof data?.data === 'string' ? JSON.parse(data.data) : data?.data
+        setReport((payload as ConversionReport) ?? null)
+      } catch (err) {
+        console.error('Load conversion report error:', err)
+        toast.error(err instanceof Error ? err.message : 'Unable to load conversion report')
+      } finally {
+        setLoading(false)
+      }
+    }
+    loadReport()
+  }, [rangeDays])
+
+  const groups = report?.[dimension] ?? []
+
+  return (
+    <div className="rounded-3xl border border-slate-200 bg-white p-4 shadow-sm">
+      <div className="mb-4 flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <h2 className="text-lg font-semibold text-slate-900">Win/loss analysis</h2>
+          <p className="text-xs text-slate-500">Conversion is won ÷ closed (won, lost or expired). Open quotes are counted but not rated.</p>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <select
+            value={dimension}
+            onChange={(e) => setDimension(e.target.value as typeof dimension)}
+            className="rounded-xl border border-slate-200 bg-slate-50 px-3 py-2 text-sm"
+          >
+            {DIMENSIONS.map((item) => (
+              <option key={item.key} value={item.key}>By {item.label.toLowerCase()}</option>
+            ))}
+          </select>
+          <select
+            value={rangeDays}
+            onChange={(e) => setRangeDays(Number(e.target.value))}
+            className="rounded-xl border border-slate-200 bg-slate-50 px-3 py-2 text-sm"
+          >
+            {RANGES.map((range) => (
+              <option key={range.days} value={range.days}>{range.label}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="flex items-center gap-2 py-8 text-sm text-slate-500">
+          <Loader2 className="h-4 w-4 animate-spin" /> Loading report…
+        </div>
+      ) : report ? (
+        <div className="space-y-6">
+          <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-4">
+            <div className="rounded-2xl border border-slate-200 p-3">
+              <p className="text-xs uppercase tracking-[0.2em] text-slate-400">Conversion</p>
+              <p className="mt-1 text-xl font-semibold text-emerald-600">{formatRate(report.summary.conversion_rate)}</p>
+            </div>
+            <div className="rounded-2xl border border-slate-200 p-3">
+              <p className="text-xs uppercase tracking-[0.2em] text-slate-400">Won / lost / expired</p>
+              <p className="mt-1 text-xl font-semibold text-slate-900">
+                {report.summary.won} / {report.summary.lost} / {report.summary.expired}
+              </p>
+            </div>
+            <div className="rounded-2xl border border-slate-200 p-3">
+              <p className="text-xs uppercase tracking-[0.2em] text-slate-400">Still open</p>
+              <p className="mt-1 text-xl font-semibold text-slate-900">{report.summary.open}</p>
+            </div>
+            <div className="rounded-2xl border border-slate-200 p-3">
+              <p className="text-xs uppercase tracking-[0.2em] text-slate-400">Top lost reason</p>
+              <p className="mt-1 text-xl font-semibold text-rose-600">{topLostReason(report.summary)}</p>
+            </div>
+          </div>
+
+          <table className="w-full text-left text-sm">
+            <thead className="text-xs text-slate-500">
+              <tr>
+                <th className="py-1.5 font-medium">{DIMENSIONS.find((item) => item.key === dimension)?.label}</th>
+                <th className="py-1.5 text-right font-medium">Quotes</th>
+                <th className="py-1.5 text-right font-medium">Won</th>
+                <th className="py-1.5 text-right font-medium">Lost</th>
+                <th className="py-1.5 text-right font-medium">Expired</th>
+                <th className="py-1.5 text-right font-medium">Open</th>
+                <th className="py-1.5 text-right font-medium">Conversion</th>
+                <th className="py-1.5 pl-4 font-medium">Top lost reason</th>
+              </tr>
+            </thead>
+            <tbody className="text-slate-700">
+              {groups.map((group) => (
+                <tr key={group.key} className="border-t border-slate-100">
+                  <td className="py-1.5">{group.label}</td>
+                  <td className="py-1.5 text-right">{group.quotes}</td>
+                  <td className="py-1.5 text-right text-emerald-700">{group.won}</td>
+                  <td className="py-1.5 text-right text-rose-600">{group.lost}</td>
+                  <td className="py-1.5 text-right">{group.expired}</td>
+                  <td className="py-1.5 text-right">{group.open}</td>
+                  <td className="py-1.5 text-right font-medium">{formatRate(group.conversion_rate)}</td>
+                  <td className="py-1.5 pl-4 text-xs text-slate-500">{topLostReason(group)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          <div>
+            <p className="mb-1 text-xs font-semibold uppercase tracking-wide text-slate-500">Time to decision</p>
+            <table className="w-full max-w-lg text-left text-sm">
+              <thead className="text-xs text-slate-500">
+                <tr>
+                  <th className="py-1.5 font-medium">Outcome</th>
+                  <th className="py-1.5 text-right font-medium">Quotes</th>
+                  <th className="py-1.5 text-right font-medium">Median</th>
+                  <th className="py-1.5 text-right font-medium">75th</th>
+                  <th className="py-1.5 text-right font-medium">90th</th>
+                </tr>
+              </thead>
+              <tbody className="text-slate-700">
+                <PercentileRow label="Won" values={report.time_to_decision_hours.won} />
+                <PercentileRow label="Lost" values={report.time_to_decision_hours.lost} />
+              </tbody>
+            </table>
+          </div>
+        </div>
+      ) : (
+        <p className="py-6 text-sm text-slate-500">No report data.</p>
+      )}
+    </div>
+  )
+}
+
+export default QuoteConversionReport
@@ -1,5 +1,5 @@
 import React, { useEffect, useMemo, useState } from 'react'
-import { CalculatedRate, ShippingCalculatorData } from '@/lib/types'
+import { CalculatedRate, DisplayCurrency, FxSnapshot, ShippingCalculatorData } from '@/lib/types'
 import { supabase } from '@/lib/supabase'
 import { AlertCircle, CheckCircle2, Loader2, Mail, ShieldCheck } from 'lucide-react'
 import { useAuth } from '@/contexts/AuthContext'
@@ -22,8 +22,11 @@ interface QuoteSubmissionResult {
   billableWeight?: number
   dimensionalWeight?: number | null
   ratePerLb?: number
+  localCurrency?: FxSnapshot | null
 }
 
+const DISPLAY_CURRENCIES: DisplayCurrency[] = ['JMD', 'GYD', 'TTD', 'BBD', 'XCD']
+
 const TERMS: string[] = [
   'Liability limitations: QCS Cargo is not responsible for indirect, incidental, or consequential damages beyond the declared insurance coverage.',
   'Insurance requirements: Shipments valued over $2,500 require supplemental insurance documentation prior to tendering freight.',
@@ -33,8 +36,8 @@ const TERMS: string[] = [
   'Dispute resolution: Any disputes will be handled in accordance with New Jersey state law and must be submitted in writing within 10 days of delivery notification.'
 ]
 
-const formatCurrency = (value: number) =>
-  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(value)
+const formatCurrency = (value: number, currency = 'USD') =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency }).format(value)
 
 const QuoteEmailModal: React.FC<QuoteEmailModalProps> = ({ open, onClose, calculatedRate, formData }) => {
   const { user } = useAuth()
@@ -42,6 +45,8 @@ const QuoteEmailModal: React.FC<QuoteEmailModalProps> = ({ open, onClose, calcul
   const [email, setEmail] = useState('')
   const [phone, setPhone] = useState('')
   const [notes, setNotes] = useState('')
+  // '' lets the destination's local currency apply; 'USD' shows USD only
+  const [displayCurrency, setDisplayCurrency] = useState<DisplayCurrency | 'USD' | ''>('')
   const [agreeTerms, setAgreeTerms] = useState(false)
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
@@ -53,6 +58,7 @@ const QuoteEmailModal: React.FC<QuoteEmailModalProps> = ({ open, onClose, calcul
       setEmail(user?.email || '')
       setPhone(user?.user_metadata?.phone || '')
       setNotes('')
+      setDisplayCurrency('')
       setAgreeTerms(false)
       setError(null)
       setResult(null)
@@ -119,8 +125,12 @@ const QuoteEmailModal: React.FC<QuoteEmailModalProps> = ({ open, onClose, calcul
           destinationId: formData.destinationId,
           weight: formData.weight,
           dimensions: formData.dimensions,
+          pieces: formData.pieces,
+          units: formData.units,
           serviceType: formData.serviceType,
           declaredValue: formData.declaredValue,
+          accessorials: formData.accessorials,
+          displayCurrency: displayCurrency || undefined,
           rateBreakdown: calculatedRate.rateBreakdown,
           specialInstructions: notes
         }
@@ -145,7 +155,8 @@ const QuoteEmailModal: React.FC<QuoteEmailModalProps> = ({ open, onClose, calcul
         calculationFlagged: payload.calculationFlagged,
         billableWeight: payload.billableWeight,
         dimensionalWeight: payload.dimensionalWeight,
-        ratePerLb: payload.ratePerLb
+        ratePerLb: payload.ratePerLb,
+        localCurrency: payload.localCurrency ?? null
       })
     } catch (err) {
       const message = err instanceof Error ? err.message : 'Unable to process your request. Please try again.'
@@ -228,6 +239,21 @@ const QuoteEmailModal: React.FC<QuoteEmailModalProps> = ({ open, onClose, calcul
                 />
               </div>
 
+              <div>
+                <label className="text-sm font-medium text-slate-700">Also show total in</label>
+                <select
+                  value={displayCurrency}
+                  onChange={(e) => setDisplayCurrency(e.target.value as DisplayCurrency | 'USD' | '')}
+                  className="mt-1 w-full rounded-xl border border-slate-200 px-3 py-2 text-sm shadow-sm focus:border-violet-500 focus:outline-none focus:ring-2 focus:ring-violet-100"
+                >
+                  <option value="">Destination currency</option>
+                  <option value="USD">USD only</option>
+                  {DISPLAY_CURRENCIES.map(code => (
+                    <option key={code} value={code}>{code}</option>
+                  ))}
+                </select>
+              </div>
+
               <label className="flex items-start gap-3 rounded-xl border border-slate-200 bg-slate-50/60 px-4 py-3">
                 <input
                   type="checkbox"
@@ -254,7 +280,10 @@ const QuoteEmailModal: React.FC<QuoteEmailModalProps> = ({ open, onClose, calcul
                     <div>
                       <p className="font-semibold">Quote {result.quoteReference} generated.</p>
                       <p className="mt-1 text-emerald-800">{result.message}</p>
-                      <p className="mt-2 text-xs text-emerald-700">Valid until {expirationDate}. Total investment {formatCurrency(result.totalCost)}.</p>
+                      <p className="mt-2 text-xs text-emerald-700">Valid until {expirationDate}. Total investment {formatCurrency(result.totalCost)}
+                        {result.localCurrency && typeof result.localCurrency.local_total === 'number'
+                          ? ` (≈ ${formatCurrency(result.localCurrency.local_total, result.localCurrency.currency)})`
+                          : ''}.</p>
                       {typeof result.billableWeight === 'number' && (
                         <p className="mt-2 text-xs text-emerald-700">
                           Billable weight confirmed at {result.billableWeight.toFixed(2)} lbs
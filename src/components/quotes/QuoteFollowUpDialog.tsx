@@ -0,0 +1,185 @@
+import React, { useEffect, useState } from 'react'
+import { supabase } from '@/lib/supabase'
+import { FollowUpCadence, FollowUpHistoryEntry, ShippingQuote } from '@/lib/types'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Loader2, Pause, Play } from 'lucide-react'
+import { toast } from 'sonner'
+import { FOLLOW_UP_CHANNEL_LABELS, FOLLOW_UP_TEMPLATE_LABELS } from '@/components/quotes/quote-labels'
+
+interface QuoteFollowUpDialogProps {
+  quote: ShippingQuote | null
+  cadences: FollowUpCadence[]
+  onOpenChange: (open: boolean) => void
+  onUpdated: () => void
+}
+
+const historyStatusColors: Record<string, string> = {
+  sent: 'bg-emerald-100 text-emerald-700',
+  failed: 'bg-rose-100 text-rose-700',
+  skipped: 'bg-slate-100 text-slate-600'
+}
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleString('en-US', { dateStyle: 'medium', timeStyle: 'short' })
+
+const QuoteFollowUpDialog: React.FC<QuoteFollowUpDialogProps> = ({ quote, cadences, onOpenChange, onUpdated }) => {
+  const [history, setHistory] = useState<FollowUpHistoryEntry[]>([])
+  const [cadenceId, setCadenceId] = useState('')
+  const [loading, setLoading] = useState(false)
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    if (!quote) return
+    setCadenceId(quote.follow_up_cadence_id ? String(quote.follow_up_cadence_id) : '')
+    const loadHistory = async () => {
+      try {
+        setLoading(true)
+        const { data, error } = await supabase.functions.invoke('admin-quote-cadences', {
+          body: { action: 'history', quote_id: quote.id }
+        })
+        if (error) throw new Error(error.message || 'Failed to load follow-up history')
+        if (data?.error) throw new Error(data.error.message || 'Failed to load follow-up history')
+        setHistory((data?.history as FollowUpHistoryEntry[]) || [])
+      } catch (err) {
+        console.error('Load follow-up history error:', err)
+        toast.error(err instanceof Error ? err.message : 'Unable to load follow-up history')
+      } finally {
+        setLoading(false)
+      }
+    }
+    loadHistory()
+  }, [quote])
+
+  const runAction = async (body: Record<string, unknown>, successMessage: string) => {
+    if (!quote) return
+    try {
+      setSaving(true)
+      const { data, error } = await supabase.functions.invoke('admin-quote-cadences', {
+        body: { ...body, quote_id: quote.id }
+      })
+      if (error) throw new Error(error.message || 'Failed to update follow-ups')
+      if (data?.error) throw new Error(data.error.message || 'Failed to update follow-ups')
+      toast.success(successMessage)
+      onOpenChange(false)
+      onUpdated()
+    } catch (err) {
+      console.error('Update follow-ups error:', err)
+      toast.error(err instanceof Error ? err.message : 'Unable to update follow-ups')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const cadence = cadences.find((item) => item.id === quote?.follow_up_cadence_id)
+  const stopped = quote?.follow_up_status === 'stopped' || quote?.status !== 'pending'
+
+  return (
+    <Dialog open={Boolean(quote)} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-xl">
+        <DialogHeader>
+          <DialogTitle>Follow-ups for {quote?.quote_reference}</DialogTitle>
+          <DialogDescription>
+            Steps run on their scheduled day until the quote is won, lost or expires. Steps already in the past are skipped
+            when a cadence is changed or resumed.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap items-end gap-3">
+          <label className="flex-1 text-xs font-medium text-slate-600">
+            Cadence
+            <select
+              value={cadenceId}
+              onChange={(e) => setCadenceId(e.target.value)}
+              disabled={stopped || saving}
+              className="mt-1 h-10 w-full rounded-md border border-slate-300 bg-white px-3 text-sm"
+            >
+              <option value="">No automated follow-ups</option>
+              {cadences
+                .filter((item) => item.is_active || item.id === quote?.follow_up_cadence_id)
+                .map((item) => (
+                  <option key={item.id} value={item.id}>
+                    {item.name} ({item.steps.length} step{item.steps.length === 1 ? '' : 's'})
+                  </option>
+                ))}
+            </select>
+          </label>
+          <Button
+            onClick={() =>
+              runAction({ action: 'assign', cadence_id: cadenceId ? Number(cadenceId) : null }, 'Cadence updated.')
+            }
+            disabled={stopped || saving || cadenceId === String(quote?.follow_up_cadence_id ?? '')}
+          >
+            Apply
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() =>
+              quote?.follow_up_paused
+                ? runAction({ action: 'resume' }, 'Follow-ups resumed.')
+                : runAction({ action: 'pause' }, 'Follow-ups paused.')
+            }
+            disabled={saving || (stopped && !quote?.follow_up_paused)}
+            className="gap-2"
+          >
+            {quote?.follow_up_paused ? <Play className="h-4 w-4" /> : <Pause className="h-4 w-4" />}
+            {quote?.follow_up_paused ? 'Resume' : 'Pause'}
+          </Button>
+        </div>
+
+        {cadence && (
+          <ol className="space-y-1 text-xs text-slate-600">
+            {cadence.steps.map((step, index) => (
+              <li key={index} className={index === quote?.follow_up_step ? 'font-semibold text-indigo-700' : ''}>
+                Day {step.day}: {FOLLOW_UP_CHANNEL_LABELS[step.channel]} · {FOLLOW_UP_TEMPLATE_LABELS[step.template]}
+                {index === quote?.follow_up_step && quote?.follow_up_status === 'scheduled' && ' (next)'}
+              </li>
+            ))}
+          </ol>
+        )}
+        {quote?.follow_up_stopped_reason && (
+          <p className="text-xs text-slate-500">Stopped automatically: quote {quote.follow_up_stopped_reason}.</p>
+        )}
+
+        <div>
+          <p className="mb-2 text-xs font-semibold uppercase tracking-wide text-slate-500">History</p>
+          {loading ? (
+            <div className="flex items-center gap-2 py-4 text-sm text-slate-500">
+              <Loader2 className="h-4 w-4 animate-spin" /> Loading history…
+            </div>
+          ) : history.length ? (
+            <ul className="max-h-[40vh] space-y-2 overflow-y-auto">
+              {history.map((entry) => (
+                <li key={entry.id} className="rounded-lg border border-slate-200 px-3 py-2 text-xs">
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="font-medium text-slate-800">
+                      {entry.step_index === null ? 'Manual' : `Step ${entry.step_index + 1}`} ·{' '}
+                      {FOLLOW_UP_CHANNEL_LABELS[entry.channel]} · {FOLLOW_UP_TEMPLATE_LABELS[entry.template]}
+                    </span>
+                    <span className={`rounded-full px-2 py-0.5 font-medium ${historyStatusColors[entry.status]}`}>
+                      {entry.status}
+                    </span>
+                  </div>
+                  <p className="mt-1 text-slate-500">
+                    {formatDate(entry.created_at)}
+                    {entry.detail && ` · ${entry.detail}`}
+                  </p>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-sm text-slate-500">No follow-ups sent yet.</p>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+export default QuoteFollowUpDialog
@@ -0,0 +1,178 @@
+import React, { useEffect, useState } from 'react'
+import { supabase } from '@/lib/supabase'
+import { ShippingQuote } from '@/lib/types'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Loader2 } from 'lucide-react'
+import { toast } from 'sonner'
+
+interface QuoteRevisionDialogProps {
+  quote: ShippingQuote | null
+  onOpenChange: (open: boolean) => void
+  onRevised: () => void
+}
+
+const OPTIONAL_SERVICES = [
+  { flag: 'pickup', label: 'Pickup' },
+  { flag: 'fragile_packaging', label: 'Fragile packaging' },
+  { flag: 'rush_documentation', label: 'Rush documentation' }
+]
+
+const QuoteRevisionDialog: React.FC<QuoteRevisionDialogProps> = ({ quote, onOpenChange, onRevised }) => {
+  const [weight, setWeight] = useState('')
+  const [serviceType, setServiceType] = useState<'standard' | 'express'>('standard')
+  const [declaredValue, setDeclaredValue] = useState('')
+  const [flags, setFlags] = useState<string[]>([])
+  const [packageCount, setPackageCount] = useState('1')
+  const [adjustmentLabel, setAdjustmentLabel] = useState('')
+  const [adjustmentAmount, setAdjustmentAmount] = useState('')
+  const [reason, setReason] = useState('')
+  const [saving, setSaving] = useState(false)
+
+  const metadata = quote?.quote_metadata ?? {}
+  const pieceCount = Array.isArray(metadata.pieces) ? metadata.pieces.length : 0
+  const isMultiPiece = pieceCount > 1 || (pieceCount === 1 && metadata.pieces[0]?.quantity > 1)
+
+  useEffect(() => {
+    if (!quote) return
+    setWeight(String(quote.weight_lbs ?? ''))
+    setServiceType(quote.service_type)
+    setDeclaredValue(String(quote.declared_value ?? 0))
+    setFlags(metadata.accessorial_request?.flags ?? [])
+    setPackageCount(String(metadata.accessorial_request?.packageCount ?? 1))
+    setAdjustmentLabel(metadata.manual_adjustment?.label ?? '')
+    setAdjustmentAmount(metadata.manual_adjustment ? String(metadata.manual_adjustment.amount) : '')
+    setReason('')
+  }, [quote])
+
+  const toggleFlag = (flag: string, enabled: boolean) => {
+    setFlags((current) => (enabled ? [...current, flag] : current.filter((existing) => existing !== flag)))
+  }
+
+  const handleSubmit = async () => {
+    if (!quote) return
+
+    const changes: Record<string, unknown> = {
+      service_type: serviceType,
+      declared_value: parseFloat(declaredValue) || 0,
+      accessorials: { flags, packageCount: parseInt(packageCount, 10) || 1 },
+      adjustment: adjustmentAmount ? { label: adjustmentLabel, amount: parseFloat(adjustmentAmount) } : null
+    }
+    // Multi-piece quotes keep their piece list unless the weight is deliberately replaced
+    if (parseFloat(weight) !== Number(quote.weight_lbs)) {
+      changes.weight = parseFloat(weight)
+    }
+
+    try {
+      setSaving(true)
+      const { data, error } = await supabase.functions.invoke('admin-quote-revisions', {
+        body: { action: 'revise', quote_id: quote.id, changes, reason }
+      })
+      if (error) throw new Error(error.message || 'Failed to revise quote')
+      if (data?.error) throw new Error(data.error.message || 'Failed to revise quote')
+
+      toast.success(`Saved ${data?.quote?.quote_reference ?? 'new revision'}.`)
+      onOpenChange(false)
+      onRevised()
+    } catch (err) {
+      console.error('Revise quote error:', err)
+      toast.error(err instanceof Error ? err.message : 'Unable to revise quote')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={Boolean(quote)} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-xl">
+        <DialogHeader>
+          <DialogTitle>Revise {quote?.quote_reference}</DialogTitle>
+          <DialogDescription>
+            Saves a new revision with a fresh document and validity period. The current revision is kept for reference.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 sm:grid-cols-2">
+          <label className="text-xs font-medium text-slate-600">
+            Actual weight (lbs)
+            <Input type="number" min="0" step="0.1" value={weight} onChange={(e) => setWeight(e.target.value)} className="mt-1" />
+            {isMultiPiece && (
+              <span className="mt-1 block text-[11px] text-amber-600">
+                Changing this replaces the {pieceCount}-line piece list with a single piece.
+              </span>
+            )}
+          </label>
+          <label className="text-xs font-medium text-slate-600">
+            Service
+            <select
+              value={serviceType}
+              onChange={(e) => setServiceType(e.target.value as 'standard' | 'express')}
+              className="mt-1 h-10 w-full rounded-md border border-slate-300 bg-white px-3 text-sm"
+            >
+              <option value="standard">Standard</option>
+              <option value="express">Express</option>
+            </select>
+          </label>
+          <label className="text-xs font-medium text-slate-600">
+            Declared value (USD)
+            <Input type="number" min="0" value={declaredValue} onChange={(e) => setDeclaredValue(e.target.value)} className="mt-1" />
+          </label>
+          <label className="text-xs font-medium text-slate-600">
+            Packages
+            <Input type="number" min="1" value={packageCount} onChange={(e) => setPackageCount(e.target.value)} className="mt-1" />
+          </label>
+        </div>
+
+        <div className="flex flex-wrap gap-4 text-sm text-slate-700">
+          {OPTIONAL_SERVICES.map((service) => (
+            <label key={service.flag} className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={flags.includes(service.flag)}
+                onChange={(e) => toggleFlag(service.flag, e.target.checked)}
+                className="h-4 w-4 rounded border-slate-300"
+              />
+              {service.label}
+            </label>
+          ))}
+        </div>
+
+        <div className="grid gap-4 sm:grid-cols-[1fr_140px]">
+          <label className="text-xs font-medium text-slate-600">
+            Adjustment label
+            <Input value={adjustmentLabel} onChange={(e) => setAdjustmentLabel(e.target.value)} placeholder="Loyalty discount" className="mt-1" />
+          </label>
+          <label className="text-xs font-medium text-slate-600">
+            Amount (USD)
+            <Input type="number" step="0.01" value={adjustmentAmount} onChange={(e) => setAdjustmentAmount(e.target.value)} placeholder="-10.00" className="mt-1" />
+          </label>
+        </div>
+
+        <label className="text-xs font-medium text-slate-600">
+          Reason for revision
+          <Input value={reason} onChange={(e) => setReason(e.target.value)} placeholder="Customer re-weighed the barrel" className="mt-1" />
+        </label>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={saving} className="gap-2">
+            {saving && <Loader2 className="h-4 w-4 animate-spin" />}
+            Save revision
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+export default QuoteRevisionDialog
@@ -0,0 +1,134 @@
+import React, { useEffect, useState } from 'react'
+import { supabase } from '@/lib/supabase'
+import { QuoteRevision, QuoteRevisionChange, ShippingQuote } from '@/lib/types'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { ExternalLink, Loader2 } from 'lucide-react'
+import { toast } from 'sonner'
+
+interface QuoteRevisionHistoryProps {
+  quote: ShippingQuote | null
+  onOpenChange: (open: boolean) => void
+}
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(value)
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleString('en-US', { dateStyle: 'medium', timeStyle: 'short' })
+
+const formatValue = (change: QuoteRevisionChange, value: QuoteRevisionChange['before']) => {
+  if (value === null) return '—'
+  if (typeof value === 'number' && (change.field.startsWith('fee:') || change.field.endsWith('_cost') || change.field === 'declared_value')) {
+    return formatCurrency(value)
+  }
+  return String(value)
+}
+
+const QuoteRevisionHistory: React.FC<QuoteRevisionHistoryProps> = ({ quote, onOpenChange }) => {
+  const [revisions, setRevisions] = useState<QuoteRevision[]>([])
+  const [loading, setLoading] = useState(false)
+
+  useEffect(() => {
+    if (!quote) return
+    const loadHistory = async () => {
+      try {
+        setLoading(true)
+        const { data, error } = await supabase.functions.invoke('admin-quote-revisions', {
+          body: { action: 'history', quote_id: quote.id }
+        })
+        if (error) throw new Error(error.message || 'Failed to load revisions')
+        setRevisions((data?.revisions as QuoteRevision[]) || [])
+      } catch (err) {
+        console.error('Load revisions error:', err)
+        toast.error(err instanceof Error ? err.message : 'Unable to load revisions')
+      } finally {
+        setLoading(false)
+      }
+    }
+    loadHistory()
+  }, [quote])
+
+  // Issued documents are kept per revision; open them as they were sent
+  const openDocument = (revision: QuoteRevision) => {
+    if (!revision.quote_document_html) return
+    const url = URL.createObjectURL(new Blob([revision.quote_document_html], { type: 'text/html' }))
+    window.open(url, '_blank', 'noopener,noreferrer')
+    setTimeout(() => URL.revokeObjectURL(url), 60_000)
+  }
+
+  return (
+    <Dialog open={Boolean(quote)} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Revisions of {quote?.base_reference || quote?.quote_reference}</DialogTitle>
+          <DialogDescription>Newest first. Each revision lists what changed from the one before it.</DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex items-center gap-2 py-8 text-sm text-slate-500">
+            <Loader2 className="h-4 w-4 animate-spin" /> Loading revisions…
+          </div>
+        ) : (
+          <ol className="max-h-[60vh] space-y-4 overflow-y-auto">
+            {revisions.map((revision) => (
+              <li key={revision.id} className="rounded-xl border border-slate-200 p-4">
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <div>
+                    <p className="text-sm font-semibold text-slate-900">
+                      {revision.quote_reference}
+                      {revision.is_latest_revision && (
+                        <span className="ml-2 rounded-full bg-emerald-100 px-2 py-0.5 text-xs font-medium text-emerald-700">Current</span>
+                      )}
+                    </p>
+                    <p className="text-xs text-slate-500">
+                      {formatDate(revision.created_at)} · {formatCurrency(Number(revision.total_cost))} · {revision.status}
+                    </p>
+                  </div>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => openDocument(revision)}
+                    disabled={!revision.quote_document_html}
+                    className="gap-2"
+                  >
+                    <ExternalLink className="h-4 w-4" /> Document
+                  </Button>
+                </div>
+                {revision.revision_reason && <p className="mt-2 text-xs italic text-slate-600">{revision.revision_reason}</p>}
+                {revision.changes.length > 0 && (
+                  <table className="mt-3 w-full text-left text-xs">
+                    <thead className="text-slate-500">
+                      <tr>
+                        <th className="py-1 font-medium">Field</th>
+                        <th className="py-1 font-medium">Before</th>
+                        <th className="py-1 font-medium">After</th>
+                      </tr>
+                    </thead>
+                    <tbody className="text-slate-700">
+                      {revision.changes.map((change) => (
+                        <tr key={change.field} className="border-t border-slate-100">
+                          <td className="py-1">{change.label}</td>
+                          <td className="py-1 text-rose-600 line-through">{formatValue(change, change.before)}</td>
+                          <td className="py-1 text-emerald-700">{formatValue(change, change.after)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </li>
+            ))}
+          </ol>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+export default QuoteRevisionHistory
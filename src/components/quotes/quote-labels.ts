@@ -0,0 +1,20 @@
+import { FollowUpChannel, FollowUpTemplate, LostReason } from '@/lib/types'
+
+export const FOLLOW_UP_TEMPLATE_LABELS: Record<FollowUpTemplate, string> = {
+  reminder: 'Reminder',
+  expiring_soon: 'Expiring soon',
+  final_notice: 'Final notice'
+}
+
+export const FOLLOW_UP_CHANNEL_LABELS: Record<FollowUpChannel, string> = {
+  email: 'Email',
+  whatsapp: 'WhatsApp'
+}
+
+export const LOST_REASON_LABELS: Record<LostReason, string> = {
+  price: 'Price',
+  transit_time: 'Transit time',
+  competitor: 'Went with a competitor',
+  shipment_cancelled: 'Shipment cancelled',
+  other: 'Other'
+}
@@ -10,7 +10,7 @@ interface AuthContextType {
   isStaff: boolean
   userRole: string | null
   signIn: (email: string, password: string) => Promise<{ data?: unknown; error?: Error }>
-  signUp: (email: string, password: string) => Promise<{ data?: unknown; error?: Error }>
+  signUp: (email: string, password: string, metadata?: Record<string, string>) => Promise<{ data?: unknown; error?: Error }>
   signOut: () => Promise<{ error?: Error }>
   refreshUserProfile: () => Promise<void>
 }
@@ -171,12 +171,17 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     }
   }
 
-  async function signUp(email: string, password: string): Promise<{ data?: unknown; error?: Error }> {
+  async function signUp(
+    email: string,
+    password: string,
+    metadata?: Record<string, string>
+  ): Promise<{ data?: unknown; error?: Error }> {
     const result = await supabase.auth.signUp({
       email,
       password,
       options: {
-        emailRedirectTo: `${window.location.protocol}//${window.location.host}/auth/callback`
+        emailRedirectTo: `${window.location.protocol}//${window.location.host}/auth/callback`,
+        data: metadata
       }
     })
     return {
@@ -0,0 +1,27 @@
+import { useState, useEffect } from 'react'
+import { supabase } from '@/lib/supabase'
+import { logger } from '@/lib/logger'
+
+/**
+ * Mailbox number prefixes of the active facilities, for recognising scanned
+ * suite lines. Starts with the original QCS prefix until the list loads.
+ */
+export function useMailboxPrefixes() {
+  const [prefixes, setPrefixes] = useState<string[]>(['QCS'])
+
+  useEffect(() => {
+    const loadPrefixes = async () => {
+      const { data, error } = await supabase.from('facilities').select('mailbox_prefix').eq('is_active', true)
+      if (error) {
+        logger.error('Error loading mailbox prefixes', error, { component: 'useMailboxPrefixes', action: 'loadPrefixes' })
+        return
+      }
+      if (data && data.length > 0) {
+        setPrefixes(data.map((facility) => facility.mailbox_prefix))
+      }
+    }
+    loadPrefixes()
+  }, [])
+
+  return prefixes
+}
@@ -13,6 +13,8 @@ export interface VirtualAddress {
   postal_code: string
   country: string
   facility_code: string
+  facility_id: number
+  facility_name: string
 }
 
 interface FetchResult {
@@ -1,5 +1,11 @@
 import { describe, expect, it } from 'vitest'
-import { extractTrackingNumbers, identifyCarrier, summarizeCarrierMix } from '../receiving'
+import {
+  extractMailboxNumber,
+  extractTrackingNumbers,
+  identifyCarrier,
+  summarizeCarrierMix,
+  validateTrackingNumber
+} from '../receiving'
 
 describe('identifyCarrier', () => {
   it('detects UPS tracking numbers', () => {
@@ -13,6 +19,69 @@ describe('identifyCarrier', () => {
   it('detects GS1 SSCC tracking numbers', () => {
     expect(identifyCarrier('00001234567890123456')).toBe('GS1 (SSCC)')
   })
+
+  it('no longer guesses a carrier from length alone', () => {
+    expect(identifyCarrier('9735551234')).toBe('Generic')
+    expect(identifyCarrier('123456789013')).toBe('Generic')
+  })
+})
+
+describe('validateTrackingNumber', () => {
+  it('verifies UPS 1Z check digits', () => {
+    expect(validateTrackingNumber('1Z999AA10123456784')).toEqual({
+      trackingNumber: '1Z999AA10123456784',
+      carrier: 'UPS',
+      confidence: 'high',
+      reason: 'UPS 1Z check digit verified'
+    })
+    expect(validateTrackingNumber('1Z999AA10123456785')).toMatchObject({ carrier: 'UPS', confidence: 'medium' })
+  })
+
+  it('verifies FedEx Express, Ground and 96 barcodes', () => {
+    expect(validateTrackingNumber('986578788855')).toMatchObject({ carrier: 'FedEx', confidence: 'high' })
+    expect(validateTrackingNumber('449044304137821')).toMatchObject({ carrier: 'FedEx', confidence: 'high' })
+    expect(validateTrackingNumber('9611020987654312345672')).toMatchObject({ carrier: 'FedEx', confidence: 'high' })
+    expect(validateTrackingNumber('9611020987654312345673')).toMatchObject({ carrier: 'FedEx', confidence: 'medium' })
+  })
+
+  it('rejects all-digit strings that fail every check digit', () => {
+    expect(validateTrackingNumber('986578788856')).toBeNull()
+    expect(validateTrackingNumber('449044304137822')).toBeNull()
+    expect(validateTrackingNumber('1234567890123')).toBeNull()
+  })
+
+  it('verifies USPS IMpb and strips the 420 ZIP routing prefix', () => {
+    expect(validateTrackingNumber('9400111899223197428497')).toMatchObject({ carrier: 'USPS', confidence: 'high' })
+    expect(validateTrackingNumber('420070329400111899223197428497')).toMatchObject({
+      trackingNumber: '9400111899223197428497',
+      carrier: 'USPS',
+      confidence: 'high'
+    })
+    expect(validateTrackingNumber('420070321234' + '9400111899223197428497')?.trackingNumber).toBe(
+      '9400111899223197428497'
+    )
+    expect(validateTrackingNumber('9400111899223197428490')).toMatchObject({ carrier: 'USPS', confidence: 'medium' })
+  })
+
+  it('verifies DHL Express and DHL eCommerce numbers', () => {
+    expect(validateTrackingNumber('1234567891')).toMatchObject({ carrier: 'DHL', confidence: 'high' })
+    expect(validateTrackingNumber('GM5117494011169049')).toMatchObject({ carrier: 'DHL eCommerce', confidence: 'high' })
+    expect(validateTrackingNumber('GM5117494011169040')).toMatchObject({ carrier: 'DHL eCommerce', confidence: 'medium' })
+  })
+
+  it('verifies S10 international numbers and names the origin', () => {
+    expect(validateTrackingNumber('RR123456785US')).toEqual({
+      trackingNumber: 'RR123456785US',
+      carrier: 'USPS',
+      confidence: 'high',
+      reason: 'S10 check digit verified (origin US)'
+    })
+    expect(validateTrackingNumber('CP123456785DE')).toMatchObject({ carrier: 'International Post (S10)', confidence: 'high' })
+    expect(validateTrackingNumber('RR123456789US')).toMatchObject({
+      confidence: 'medium',
+      reason: 'S10 format (origin US), but the check digit does not match'
+    })
+  })
 })
 
 describe('extractTrackingNumbers', () => {
@@ -39,6 +108,35 @@ describe('extractTrackingNumbers', () => {
     expect(parsed[0].trackingNumber).toBe('00001234567890123456')
     expect(parsed[0].carrier).toBe('GS1 (SSCC)')
   })
+
+  it('reads IMpb barcodes without the routing prefix', () => {
+    const parsed = extractTrackingNumbers('420 07032 9400 1118 9922 3197 4284 97')
+    expect(parsed).toHaveLength(1)
+    expect(parsed[0].trackingNumber).toBe('9400111899223197428497')
+    expect(parsed[0].reason).toBe('USPS IMpb check digit verified')
+  })
+
+  it('skips order and phone numbers on a label', () => {
+    const parsed = extractTrackingNumbers('Order 1234567890123\nPhone 9735551234\nTracking 449044304137821')
+    expect(parsed.map((item) => item.trackingNumber)).toEqual(['449044304137821'])
+  })
+})
+
+describe('extractMailboxNumber', () => {
+  it('reads the mailbox from a suite line', () => {
+    expect(extractMailboxNumber('1 Main St Suite QCS100001')).toBe('QCS100001')
+    expect(extractMailboxNumber('Mailbox # qcs-100042')).toBe('QCS100042')
+  })
+
+  it('returns null without a QCS mailbox number', () => {
+    expect(extractMailboxNumber('1Z999AA10123456784')).toBeNull()
+  })
+
+  it('reads mailbox numbers issued by other facilities', () => {
+    expect(extractMailboxNumber('Suite MIA 200015', ['QCS', 'MIA'])).toBe('MIA200015')
+    expect(extractMailboxNumber('Suite QCS100001', ['QCS', 'MIA'])).toBe('QCS100001')
+    expect(extractMailboxNumber('Suite MIA200015')).toBeNull()
+  })
 })
 
 describe('summarizeCarrierMix', () => {
@@ -3,16 +3,28 @@ export type CarrierType =
   | 'FedEx'
   | 'USPS'
   | 'DHL'
+  | 'DHL eCommerce'
   | 'Amazon Logistics'
   | 'GS1 (SSCC)'
+  | 'International Post (S10)'
   | 'Generic'
 
+/**
+ * high: the carrier's check digit matched. medium: the number has a
+ * carrier's prefix or shape but nothing could be verified, so staff should
+ * confirm the carrier before filing a claim against it.
+ */
 export type TrackingConfidence = 'high' | 'medium'
 
-export interface ParsedTrackingNumber {
+export interface TrackingValidation {
   trackingNumber: string
   carrier: CarrierType
   confidence: TrackingConfidence
+  /** Why the carrier was chosen, e.g. "UPS 1Z check digit verified" */
+  reason: string
+}
+
+export interface ParsedTrackingNumber extends TrackingValidation {
   raw: string
 }
 
@@ -29,107 +41,156 @@ const sanitizeCandidate = (value: string) =>
     .replace(/[\s-]/g, '')
     .replace(/[()]/g, '')
 
-const isLikelyTrackingNumber = (value: string) => {
-  if (!value) {
-    return false
-  }
+const checkDigitOf = (value: string) => Number(value.slice(-1))
 
-  const normalized = value.toUpperCase()
-
-  if (/^1Z[0-9A-Z]{16}$/.test(normalized)) {
-    return true
+/** GS1 mod 10: weight 3 on the digit next to the check digit, alternating with 1. */
+const gs1CheckDigit = (payload: string) => {
+  let sum = 0
+  for (let index = 0; index < payload.length; index++) {
+    const digit = Number(payload[payload.length - 1 - index])
+    sum += index % 2 === 0 ? digit * 3 : digit
   }
+  return (10 - (sum % 10)) % 10
+}
 
-  if (/^TBA\d{12,}$/.test(normalized)) {
-    return true
-  }
+const hasGs1CheckDigit = (value: string) => gs1CheckDigit(value.slice(0, -1)) === checkDigitOf(value)
 
-  if (/^00\d{18}$/.test(normalized)) {
-    return true
-  }
+/** Characters 3-17 of a 1Z number; letters count as (char code - 63) mod 10. */
+const hasUpsCheckDigit = (value: string) => {
+  let sum = 0
+  Array.from(value.slice(2, 17)).forEach((char, index) => {
+    const digit = /\d/.test(char) ? Number(char) : (char.charCodeAt(0) - 63) % 10
+    sum += index % 2 === 1 ? digit * 2 : digit
+  })
+  return (10 - (sum % 10)) % 10 === checkDigitOf(value)
+}
 
-  if (/^\d{10}$/.test(normalized)) {
-    return true
-  }
+const FEDEX_EXPRESS_WEIGHTS = [3, 1, 7]
 
-  if (/^\d{12}$/.test(normalized)) {
-    return true
-  }
+const hasFedExExpressCheckDigit = (value: string) => {
+  const sum = Array.from(value.slice(0, 11)).reduce(
+    (total, char, index) => total + Number(char) * FEDEX_EXPRESS_WEIGHTS[index % 3],
+    0
+  )
+  return (sum % 11) % 10 === checkDigitOf(value)
+}
 
-  if (/^\d{13}$/.test(normalized)) {
-    return true
-  }
+const hasDhlExpressCheckDigit = (value: string) => Number(value.slice(0, 9)) % 7 === checkDigitOf(value)
 
-  if (/^\d{15}$/.test(normalized)) {
-    return true
-  }
+const S10_WEIGHTS = [8, 6, 4, 2, 3, 5, 9, 7]
 
-  if (/^\d{20}$/.test(normalized)) {
-    return true
-  }
+const hasS10CheckDigit = (serial: string) => {
+  const sum = Array.from(serial.slice(0, 8)).reduce((total, char, index) => total + Number(char) * S10_WEIGHTS[index], 0)
+  const check = 11 - (sum % 11)
+  return (check === 10 ? 0 : check === 11 ? 5 : check) === checkDigitOf(serial)
+}
 
-  if (/^\d{21}$/.test(normalized)) {
-    return true
+const verified = (trackingNumber: string, carrier: CarrierType, reason: string): TrackingValidation => ({
+  trackingNumber,
+  carrier,
+  confidence: 'high',
+  reason
+})
+
+const unverified = (trackingNumber: string, carrier: CarrierType, reason: string): TrackingValidation => ({
+  trackingNumber,
+  carrier,
+  confidence: 'medium',
+  reason
+})
+
+// IMpb scans carry GS1 AI 420 and the destination ZIP (5 or 9 digits) in front of the tracking number
+const IMPB_ROUTING_PREFIX = /^420(?:\d{5}|\d{9})(?=9[1-5]\d{20}$)/
+
+const validateUsps = (value: string): TrackingValidation | null => {
+  if (/^9[1-5]\d{20}$/.test(value)) {
+    return hasGs1CheckDigit(value)
+      ? verified(value, 'USPS', 'USPS IMpb check digit verified')
+      : unverified(value, 'USPS', 'USPS IMpb format, but the check digit does not match')
   }
-
-  if (/^\d{22}$/.test(normalized)) {
-    return true
+  if (/^\d{20}$/.test(value) && hasGs1CheckDigit(value)) {
+    return verified(value, 'USPS', 'USPS 20-digit check digit verified')
   }
-
-  return false
+  return null
 }
 
-export const identifyCarrier = (trackingNumber: string): CarrierType => {
-  const normalized = trackingNumber.toUpperCase()
+/**
+ * Identifies the carrier of a normalized candidate (upper case, no spaces)
+ * and verifies its check digit where the format has one. Returns null for
+ * strings that are not tracking numbers, including all-digit strings that
+ * fail every check digit, since order and invoice numbers look the same.
+ */
+export const validateTrackingNumber = (value: string): TrackingValidation | null => {
+  const normalized = value.toUpperCase()
 
-  if (normalized.startsWith('1Z') && normalized.length === 18) {
-    return 'UPS'
+  if (/^1Z[0-9A-Z]{16}$/.test(normalized)) {
+    return hasUpsCheckDigit(normalized)
+      ? verified(normalized, 'UPS', 'UPS 1Z check digit verified')
+      : unverified(normalized, 'UPS', 'UPS 1Z format, but the check digit does not match')
   }
 
-  if (normalized.startsWith('TBA')) {
-    return 'Amazon Logistics'
+  if (/^TBA\d{12,}$/.test(normalized)) {
+    return unverified(normalized, 'Amazon Logistics', 'Amazon TBA prefix; the format has no check digit')
   }
 
-  if (normalized.startsWith('00') && normalized.length === 20) {
-    return 'GS1 (SSCC)'
+  const s10 = normalized.match(/^([A-Z]{2})(\d{9})([A-Z]{2})$/)
+  if (s10) {
+    const [, , serial, country] = s10
+    const carrier: CarrierType = country === 'US' ? 'USPS' : 'International Post (S10)'
+    return hasS10CheckDigit(serial)
+      ? verified(normalized, carrier, `S10 check digit verified (origin ${country})`)
+      : unverified(normalized, carrier, `S10 format (origin ${country}), but the check digit does not match`)
   }
 
-  if (/^\d{10}$/.test(normalized)) {
-    return 'DHL'
+  if (/^GM\d{16,18}$/.test(normalized)) {
+    return hasGs1CheckDigit(normalized.slice(2))
+      ? verified(normalized, 'DHL eCommerce', 'DHL eCommerce GM check digit verified')
+      : unverified(normalized, 'DHL eCommerce', 'DHL eCommerce GM prefix, but the check digit does not match')
   }
 
-  if (/^\d{12}$/.test(normalized)) {
-    return 'FedEx'
+  if (!/^\d+$/.test(normalized)) {
+    return null
   }
 
-  if (/^\d{15}$/.test(normalized)) {
-    return 'FedEx'
+  const impb = normalized.replace(IMPB_ROUTING_PREFIX, '')
+  if (impb !== normalized) {
+    return validateUsps(impb)
   }
 
-  if (/^\d{20}$/.test(normalized) && normalized.startsWith('96')) {
-    return 'FedEx'
+  if (/^00\d{18}$/.test(normalized)) {
+    return hasGs1CheckDigit(normalized)
+      ? verified(normalized, 'GS1 (SSCC)', 'SSCC check digit verified')
+      : unverified(normalized, 'GS1 (SSCC)', 'SSCC format, but the check digit does not match')
   }
 
-  if (/^\d{20,22}$/.test(normalized)) {
-    return 'USPS'
+  if (normalized.startsWith('96') && (normalized.length === 20 || normalized.length === 22)) {
+    // The FedEx Ground barcode ends with the 15-digit tracking number
+    return hasGs1CheckDigit(normalized.slice(-15))
+      ? verified(normalized, 'FedEx', 'FedEx Ground 96 check digit verified')
+      : unverified(normalized, 'FedEx', 'FedEx 96 prefix, but the check digit does not match')
   }
 
-  return 'Generic'
-}
-
-const deriveConfidence = (carrier: CarrierType): TrackingConfidence =>
-  carrier === 'Generic' ? 'medium' : 'high'
-
-const buildParsed = (value: string, raw: string): ParsedTrackingNumber => {
-  const carrier = identifyCarrier(value)
-  return {
-    trackingNumber: value,
-    carrier,
-    confidence: deriveConfidence(carrier),
-    raw
+  switch (normalized.length) {
+    case 10:
+      return hasDhlExpressCheckDigit(normalized) ? verified(normalized, 'DHL', 'DHL Express mod 7 check digit verified') : null
+    case 12:
+      return hasFedExExpressCheckDigit(normalized)
+        ? verified(normalized, 'FedEx', 'FedEx Express check digit verified')
+        : null
+    case 15:
+      return hasGs1CheckDigit(normalized) ? verified(normalized, 'FedEx', 'FedEx Ground check digit verified') : null
+    case 20:
+      return validateUsps(normalized)
+    case 22:
+      return validateUsps(normalized)
+    default:
+      return null
   }
 }
 
+export const identifyCarrier = (trackingNumber: string): CarrierType =>
+  validateTrackingNumber(trackingNumber)?.carrier ?? 'Generic'
+
 export const extractTrackingNumbers = (input: string): ParsedTrackingNumber[] => {
   if (!input.trim()) {
     return []
@@ -139,20 +200,27 @@ export const extractTrackingNumbers = (input: string): ParsedTrackingNumber[] =>
   const results: ParsedTrackingNumber[] = []
   const workingInput = input.toUpperCase()
 
-  const collect = (matches: IterableIterator<RegExpMatchArray>, normalizer: (value: string) => string) => {
+  const add = (candidate: string, raw: string) => {
+    const validation = validateTrackingNumber(candidate)
+    if (!validation) {
+      return false
+    }
+    if (!seen.has(validation.trackingNumber)) {
+      seen.add(validation.trackingNumber)
+      results.push({ ...validation, raw })
+    }
+    return true
+  }
+
+  const collect = (matches: IterableIterator<RegExpMatchArray>) => {
     for (const match of matches) {
-      const normalized = normalizer(match[0])
-      if (!normalized || seen.has(normalized) || !isLikelyTrackingNumber(normalized)) {
-        continue
-      }
-      seen.add(normalized)
-      results.push(buildParsed(normalized, match[0]))
+      add(sanitizeCandidate(match[0]), match[0])
     }
   }
 
-  collect(workingInput.matchAll(new RegExp(UPS_PATTERN)), value => sanitizeCandidate(value).toUpperCase())
-  collect(workingInput.matchAll(new RegExp(AMAZON_PATTERN)), value => sanitizeCandidate(value).toUpperCase())
-  collect(workingInput.matchAll(new RegExp(GS1_PATTERN)), value => sanitizeCandidate(value))
+  collect(workingInput.matchAll(new RegExp(UPS_PATTERN)))
+  collect(workingInput.matchAll(new RegExp(AMAZON_PATTERN)))
+  collect(workingInput.matchAll(new RegExp(GS1_PATTERN)))
 
   const lines = workingInput.split(/\r?\n/)
 
@@ -162,22 +230,38 @@ export const extractTrackingNumbers = (input: string): ParsedTrackingNumber[] =>
     for (const token of tokens) {
       if (!token) continue
       const sanitized = sanitizeCandidate(token)
-      if (sanitized.length < MIN_TOKEN_LENGTH || seen.has(sanitized)) {
+      if (sanitized.length < MIN_TOKEN_LENGTH || add(sanitized, token)) {
         continue
       }
 
-      if (!isLikelyTrackingNumber(sanitized)) {
-        continue
+      // A run like "TRACKING 449044304137821" only validates word by word
+      for (const word of token.trim().split(/\s+/)) {
+        if (word.length >= MIN_TOKEN_LENGTH) {
+          add(sanitizeCandidate(word), word)
+        }
       }
-
-      seen.add(sanitized)
-      results.push(buildParsed(sanitized, token))
     }
   }
 
   return results
 }
 
+/**
+ * Pulls a mailbox number out of a scanned or typed suite line such as
+ * "Suite QCS100001" or "Mailbox # QCS-100001". Each facility issues numbers
+ * under its own prefix, so callers pass the prefixes of the active
+ * facilities. Returns null when the input has none.
+ */
+export const extractMailboxNumber = (input: string, prefixes: string[] = ['QCS']): string | null => {
+  const validPrefixes = prefixes.filter((prefix) => /^[A-Z]{2,5}$/i.test(prefix))
+  if (validPrefixes.length === 0) {
+    return null
+  }
+  const pattern = new RegExp(`\\b(${validPrefixes.join('|')})[\\s#-]*(\\d{4,})\\b`, 'i')
+  const match = input.match(pattern)
+  return match ? `${match[1].toUpperCase()}${match[2]}` : null
+}
+
 export const summarizeCarrierMix = (packages: Array<{ carrier: CarrierType }>): string => {
   if (packages.length === 0) {
     return ''
@@ -10,10 +10,35 @@ export interface Destination {
   transit_days_min: number
   transit_days_max: number
   express_surcharge_percent: number
+  dim_divisor_standard?: number
+  dim_divisor_express?: number | null
+  local_currency?: DisplayCurrency | null
   is_active: boolean
   created_at: string
 }
 
+/** Currencies a quote total can also be shown in; billing stays in USD. */
+export type DisplayCurrency = 'JMD' | 'GYD' | 'TTD' | 'BBD' | 'XCD'
+
+export interface FxRate {
+  id: number
+  currency_code: DisplayCurrency
+  rate_per_usd: number
+  effective_from: string
+  notes: string | null
+  created_at: string
+}
+
+/** Rate captured when a quote is issued (quote_metadata.fx). */
+export interface FxSnapshot {
+  currency: DisplayCurrency
+  ratePerUsd: number
+  rateId: number | null
+  effectiveFrom: string
+  capturedAt: string
+  local_total?: number
+}
+
 export interface ShippingQuote {
   id: number
   customer_id?: string
@@ -46,6 +71,276 @@ export interface ShippingQuote {
   follow_up_method?: string
   follow_up_error?: string | null
   pdf_attachment_present?: boolean
+  base_reference?: string | null
+  revision_number?: number
+  supersedes_quote_id?: number | null
+  is_latest_revision?: boolean
+  revision_reason?: string | null
+  accepted_at?: string | null
+  first_viewed_at?: string | null
+  last_viewed_at?: string | null
+  view_count?: number
+  declined_at?: string | null
+  decline_reason?: string | null
+  follow_up_cadence_id?: number | null
+  follow_up_step?: number
+  follow_up_paused?: boolean
+  follow_up_stopped_reason?: string | null
+  lost_reason?: LostReason | null
+  lost_reason_detail?: string | null
+  lost_at?: string | null
+}
+
+export type LostReason = 'price' | 'transit_time' | 'competitor' | 'shipment_cancelled' | 'other'
+
+/** Quote as shown on the signed public link page */
+export interface PublicQuote {
+  id: number
+  quote_reference: string
+  status: string
+  full_name: string
+  service_type: 'standard' | 'express'
+  weight_lbs: number
+  declared_value: number
+  total_cost: number
+  quote_expires_at: string
+  created_at: string
+  destination: { country?: string; city?: string; airport_code?: string } | null
+  transit_label: string | null
+  local_total: { currency: string; amount: number } | null
+  accepted_at: string | null
+  declined_at: string | null
+  decline_reason: string | null
+}
+
+export interface QuoteRevisionChange {
+  field: string
+  label: string
+  before: string | number | null
+  after: string | number | null
+}
+
+export interface QuoteRevision {
+  id: number
+  quote_reference: string
+  revision_number: number
+  is_latest_revision: boolean
+  status: string
+  created_at: string
+  total_cost: number
+  revision_reason: string | null
+  changes: QuoteRevisionChange[]
+  quote_document_html: string | null
+}
+
+export type FollowUpChannel = 'email' | 'whatsapp'
+export type FollowUpTemplate = 'reminder' | 'expiring_soon' | 'final_notice'
+
+export interface FollowUpCadenceStep {
+  day: number
+  channel: FollowUpChannel
+  template: FollowUpTemplate
+}
+
+export interface FollowUpCadence {
+  id: number
+  name: string
+  description: string | null
+  destination_id: number | null
+  min_quote_value: number | null
+  max_quote_value: number | null
+  priority: number
+  is_default: boolean
+  is_active: boolean
+  steps: FollowUpCadenceStep[]
+}
+
+export interface FollowUpHistoryEntry {
+  id: number
+  quote_id: number
+  cadence_id: number | null
+  step_index: number | null
+  channel: FollowUpChannel
+  template: FollowUpTemplate
+  status: 'sent' | 'failed' | 'skipped'
+  detail: string | null
+  triggered_by: 'automation' | 'manual'
+  created_at: string
+}
+
+export interface QuoteConversionGroup {
+  key: string
+  label: string
+  quotes: number
+  won: number
+  lost: number
+  expired: number
+  open: number
+  conversion_rate: number | null
+  lost_reasons: Record<LostReason, number>
+}
+
+export interface QuoteDecisionPercentiles {
+  count: number
+  p50: number | null
+  p75: number | null
+  p90: number | null
+}
+
+export interface QuoteConversionReport {
+  summary: Omit<QuoteConversionGroup, 'key' | 'label'>
+  by_destination: QuoteConversionGroup[]
+  by_service_type: QuoteConversionGroup[]
+  by_weight_band: QuoteConversionGroup[]
+  by_age: QuoteConversionGroup[]
+  by_follow_up_step: QuoteConversionGroup[]
+  time_to_decision_hours: { won: QuoteDecisionPercentiles; lost: QuoteDecisionPercentiles }
+}
+
+export type InvoiceStatus = 'draft' | 'sent' | 'partially_paid' | 'paid' | 'void'
+export type InvoiceDocumentType = 'invoice' | 'credit_note'
+export type InvoiceLineCategory =
+  | 'shipping'
+  | 'surcharge'
+  | 'insurance'
+  | 'handling'
+  | 'storage'
+  | 'packaging_supplies'
+  | 'other'
+
+export interface InvoiceLineItem {
+  description: string
+  quantity: number
+  unit_price: number
+  amount: number
+  category: InvoiceLineCategory
+}
+
+export interface InvoiceTaxLine {
+  rule_id: number
+  name: string
+  rate: number
+  taxable_amount: number
+  tax_amount: number
+}
+
+export interface Invoice {
+  id: number
+  /** Assigned when issued; drafts have none */
+  invoice_number: string | null
+  document_type: InvoiceDocumentType
+  original_invoice_id: number | null
+  customer_id: string
+  shipment_id: number | null
+  status: InvoiceStatus
+  subtotal: number
+  discount_amount: number
+  taxable_amount: number
+  tax_amount: number
+  total_amount: number
+  amount_paid: number
+  amount_credited: number
+  /** What is still owed; computed by admin-invoices */
+  balance_due?: number
+  tax_breakdown: InvoiceTaxLine[]
+  line_items: InvoiceLineItem[]
+  issued_at: string | null
+  due_date: string
+  voided_at: string | null
+  void_reason: string | null
+  credit_reason: string | null
+  notes: string | null
+  created_at: string
+  customer_name?: string
+  customer_email?: string | null
+}
+
+export type PaymentMethod = 'cash' | 'zelle' | 'card' | 'account_credit' | 'online'
+
+export interface InvoicePayment {
+  id: number
+  receipt_number: string | null
+  invoice_id: number
+  amount: number
+  applied_amount: number
+  overpayment_amount: number
+  method: PaymentMethod
+  reference: string | null
+  notes: string | null
+  received_at: string
+  receipt_sent_at: string | null
+}
+
+export type AgingBucket = 'current' | '1_30' | '31_60' | '61_90' | '90_plus'
+
+export interface AgedReceivablesReport {
+  as_of: string
+  totals: Record<AgingBucket, number>
+  total_outstanding: number
+  unapplied_credit: number
+  customers: Array<{
+    customer_id: string
+    customer_name: string
+    buckets: Record<AgingBucket, number>
+    total: number
+    oldest_days_past_due: number
+    invoice_count: number
+  }>
+}
+
+/** An issued invoice or credit note as the customer sees it in billing */
+export type CustomerInvoice = Pick<
+  Invoice,
+  | 'id'
+  | 'invoice_number'
+  | 'document_type'
+  | 'original_invoice_id'
+  | 'status'
+  | 'issued_at'
+  | 'due_date'
+  | 'total_amount'
+  | 'amount_paid'
+  | 'amount_credited'
+  | 'shipment_id'
+> & { balance_due: number }
+
+export type StatementEntryType = 'invoice' | 'credit_note' | 'payment' | 'credit_applied' | 'void'
+
+export interface MonthlyStatement {
+  month: string
+  period_start: string
+  period_end: string
+  opening_balance: number
+  entries: Array<{
+    date: string
+    type: StatementEntryType
+    reference: string
+    description: string
+    charge: number
+    credit: number
+    balance: number
+  }>
+  total_charges: number
+  total_credits: number
+  closing_balance: number
+  shipments: Array<{
+    id: number
+    tracking_number: string | null
+    status: string
+    created_at: string
+    total_weight?: number | null
+    destination?: string | null
+  }>
+}
+
+export interface TaxRule {
+  id: number
+  name: string
+  jurisdiction: string
+  rate: number
+  applies_to_category: InvoiceLineCategory
+  is_active: boolean
+  effective_from: string
 }
 
 export interface ContactInquiry {
@@ -81,6 +376,116 @@ export interface Shipment {
   updated_at: string
 }
 
+export interface ConsolidationPackage {
+  id: string
+  tracking_number: string
+  carrier: string | null
+  weight?: number | null
+  created_at?: string
+}
+
+// Estimated from receiving weights; the quote follows once the box is re-weighed
+export interface ConsolidationEstimate {
+  total_cost: number | null
+  weight_lbs: number | null
+  billable_weight_lbs?: number
+  unweighed_packages: string[]
+  rate_breakdown: RateBreakdown | null
+  transit: { min: number; max: number } | null
+}
+
+export interface MailboxConsolidation {
+  id: number
+  customer_id?: string
+  customer_name?: string | null
+  customer_email?: string | null
+  tracking_number: string
+  status: string
+  service_type: 'standard' | 'express'
+  destination_id: number
+  total_weight: number | null
+  total_declared_value?: number | null
+  special_instructions?: string | null
+  consolidated_weight_lbs: number | null
+  reweighed_at: string | null
+  quote_id: number | null
+  created_at: string
+  destinations: { country_name: string; city_name: string | null } | null
+  shipping_quotes?: Pick<ShippingQuote, 'id' | 'quote_reference' | 'status' | 'total_cost' | 'quote_expires_at'> | null
+  received_packages: ConsolidationPackage[]
+}
+
+export type StorageAgingBucket = 'free' | 'accruing' | 'abandonment_risk'
+
+export interface StoragePolicy {
+  warning_days_before: number
+  abandonment_days: number
+  abandonment_notice_days: number
+}
+
+export interface AgingPackage {
+  id: string
+  tracking_number: string
+  carrier: string | null
+  status: string
+  weight: number | null
+  received_at: string
+  mailbox_number: string | null
+  customer_name: string | null
+  customer_email: string | null
+  storage_days: number
+  bucket: StorageAgingBucket
+  free_until: string
+  disposal_due_at: string
+  storage_warning_sent_at: string | null
+  abandonment_notice_sent_at: string | null
+  storage_charged: number
+  storage_uninvoiced: number
+}
+
+export interface AgingInventory {
+  packages: AgingPackage[]
+  policy: StoragePolicy
+  free_days: number
+  rate_per_lb_week: number
+}
+
+export type PreAlertStatus = 'pending' | 'received' | 'cancelled'
+
+export interface PackagePreAlert {
+  id: string
+  retailer: string
+  tracking_number: string
+  carrier: string | null
+  contents: string
+  declared_value: number
+  invoice_path: string | null
+  status: PreAlertStatus
+  received_package_id: string | null
+  matched_at: string | null
+  created_at: string
+}
+
+export interface UnmatchedArrival {
+  id: string
+  tracking_number: string
+  carrier: string | null
+  created_at: string
+  mailbox_number: string | null
+}
+
+export type MeasurementUnits = 'lb_in' | 'kg_cm'
+
+export interface ShipmentPieceInput {
+  description?: string
+  quantity: number
+  /** Weight of one piece, in the units the shipment was entered in */
+  weight: number
+  length?: number
+  width?: number
+  height?: number
+}
+
 export interface ShippingCalculatorData {
   weight: number
   dimensions?: {
@@ -88,9 +493,30 @@ export interface ShippingCalculatorData {
     width: number
     height: number
   }
+  pieces?: ShipmentPieceInput[]
+  units?: MeasurementUnits
   destinationId: number
   serviceType: 'standard' | 'express'
   declaredValue: number
+  accessorials?: AccessorialOptions
+}
+
+export interface PieceBreakdown {
+  description: string | null
+  quantity: number
+  dimensions: { length: number; width: number; height: number } | null
+  unitWeight: number
+  unitDimensionalWeight: number | null
+  unitBillableWeight: number
+  billableWeight: number
+}
+
+/** Weights echoed by the rating engine in both unit systems. */
+export interface MeasurementSummary {
+  inputUnits: MeasurementUnits
+  lb: { actual: number; dimensional: number | null; billable: number }
+  kg: { actual: number; dimensional: number | null; billable: number }
+  dimensionalDivisor: { inchesPerLb: number; cmPerKg: number }
 }
 
 export interface RateBreakdown {
@@ -101,6 +527,26 @@ export interface RateBreakdown {
   handlingFee: number
   insuranceCost: number
   totalCost: number
+  rateSource?: 'pricing_rule' | 'destination'
+  pricingRuleId?: number | null
+  accessorials?: AccessorialLineItem[]
+}
+
+export type AccessorialBasis = 'flat' | 'per_lb' | 'per_additional_package' | 'per_lb_per_week'
+
+export interface AccessorialLineItem {
+  code: string
+  name: string
+  basis: AccessorialBasis
+  quantity: number
+  unitAmount: number
+  amount: number
+}
+
+/** Optional services the customer selects; see the accessorial_charges catalog. */
+export interface AccessorialOptions {
+  flags: string[]
+  packageCount: number
 }
 
 export interface CalculatedRate {
@@ -113,6 +559,8 @@ export interface CalculatedRate {
     dimensional?: number
     billable: number
   }
+  pieces?: PieceBreakdown[]
+  measurements?: MeasurementSummary
   serviceType: 'standard' | 'express'
   rateBreakdown: RateBreakdown
   transitTime: {
@@ -123,6 +571,64 @@ export interface CalculatedRate {
   declaredValue: number
 }
 
+export interface PublicRateTier {
+  weight_min: number
+  weight_max: number | null
+  rate_per_lb: number
+}
+
+export interface PublicDestinationRates {
+  id: number
+  country_name: string
+  city_name: string
+  airport_code: string
+  transit_days_min: number
+  transit_days_max: number
+  express_transit_days_min: number
+  express_transit_days_max: number
+  express_surcharge_percent: number
+  dim_divisor_standard: number
+  dim_divisor_express: number
+  rate_source: 'pricing_rule' | 'destination'
+  standard_tiers: PublicRateTier[]
+  express_tiers: PublicRateTier[]
+}
+
+export interface PublicRateExample {
+  title: string
+  details: string
+  destination_id: number
+  service_type: 'standard' | 'express'
+  weight: number
+  lines: Array<{ label: string; amount: number }>
+  total: number
+  transit_days_min: number
+  transit_days_max: number
+}
+
+export interface PublicRates {
+  generated_at: string
+  destinations: PublicDestinationRates[]
+  additional_services: Array<{ service: string; price: string; description: string }>
+  volume_discounts: Array<{ range: string; discount: string; description: string }>
+  insurance: {
+    included_value: number
+    rate_per_hundred: number
+    minimum_premium: number
+    high_value_threshold: number
+  }
+  dimensional_divisor: number
+  accessorials: Array<{
+    code: string
+    name: string
+    description: string | null
+    basis: AccessorialBasis
+    amount: number
+  }>
+  free_storage_days: number
+  examples: PublicRateExample[]
+}
+
 // =====================================================
 // BLOG CMS TYPES
 // =====================================================
@@ -162,11 +162,12 @@ export default function BookingPage() {
   const weight = searchParams.get('weight')
   const quoteId = searchParams.get('quoteId')
   const shipmentId = searchParams.get('shipmentId')
+  const mode = searchParams.get('mode')
   
   const [selectedDate, setSelectedDate] = useState<Date>()
   const [availableWindows, setAvailableWindows] = useState<AvailableWindow[]>([])
   const [formData, setFormData] = useState<BookingFormData>({
-    pickup_or_drop: 'pickup',
+    pickup_or_drop: mode === 'dropoff' ? 'dropoff' : 'pickup',
     service_type: (serviceType as 'standard' | 'express') || 'standard',
     estimated_weight: weight ? parseFloat(weight) : 0,
     address: {
@@ -559,7 +560,8 @@ export default function BookingPage() {
       const bookingPromise = supabase.functions.invoke('create-booking', {
         body: {
           quote_id: quoteId ? parseInt(quoteId) : null,
-          shipment_id: shipmentId ? parseInt(shipmentId) : null,
+          // Shipment ids are UUIDs; pass through as-is
+          shipment_id: shipmentId || null,
           window_start: formData.selected_window.start,
           window_end: formData.selected_window.end,
           address: formData.address,
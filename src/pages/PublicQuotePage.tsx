@@ -0,0 +1,286 @@
+import React, { useEffect, useState } from 'react'
+import { Link, useSearchParams } from 'react-router-dom'
+import { supabase } from '@/lib/supabase'
+import { LostReason, PublicQuote } from '@/lib/types'
+import { MarketingLayout } from '@/components/layout/MarketingLayout'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Textarea } from '@/components/ui/textarea'
+import { AlertCircle, CheckCircle, Loader2, XCircle } from 'lucide-react'
+import { logger } from '@/lib/logger'
+import { toast } from 'sonner'
+import { LOST_REASON_LABELS } from '@/components/quotes/quote-labels'
+
+const formatCurrency = (amount: number, currency = 'USD') =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency }).format(amount)
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' })
+
+export default function PublicQuotePage() {
+  const [searchParams] = useSearchParams()
+  const [quote, setQuote] = useState<PublicQuote | null>(null)
+  const [documentHtml, setDocumentHtml] = useState<string | null>(null)
+  const [revised, setRevised] = useState(false)
+  const [loading, setLoading] = useState(true)
+  const [linkError, setLinkError] = useState<string | null>(null)
+  const [declining, setDeclining] = useState(false)
+  const [lostReason, setLostReason] = useState<LostReason | ''>('')
+  const [declineReason, setDeclineReason] = useState('')
+  const [submitting, setSubmitting] = useState(false)
+
+  // q/exp/sig are checked server-side; the page just passes them through
+  const linkParams = {
+    q: searchParams.get('q'),
+    exp: searchParams.get('exp'),
+    sig: searchParams.get('sig')
+  }
+
+  useEffect(() => {
+    const loadQuote = async () => {
+      try {
+        setLoading(true)
+        const { data, error } = await supabase.functions.invoke('quote-link', {
+          body: { action: 'view', ...linkParams }
+        })
+        if (error) throw new Error(error.message)
+        if (data?.error) throw new Error(data.error.message)
+
+        setQuote(data.quote as PublicQuote)
+        setDocumentHtml(data.document_html ?? null)
+        setRevised(Boolean(data.revised))
+      } catch (err: unknown) {
+        const error = err instanceof Error ? err : new Error(String(err))
+        logger.error('Error loading public quote', error, {
+          component: 'PublicQuotePage',
+          action: 'loadQuote'
+        })
+        setLinkError('This quote link is invalid or has expired.')
+      } finally {
+        setLoading(false)
+      }
+    }
+    loadQuote()
+  }, [searchParams])
+
+  const submitDecision = async (action: 'accept' | 'decline') => {
+    try {
+      setSubmitting(true)
+      const { data, error } = await supabase.functions.invoke('quote-link', {
+        body: {
+          action,
+          lost_reason: action === 'decline' ? lostReason : undefined,
+          reason: action === 'decline' ? declineReason : undefined,
+          viewed_quote_id: quote?.id,
+          ...linkParams
+        }
+      })
+      if (error) {
+        const details = await error.context?.json?.().catch(() => null)
+        throw new Error(details?.error?.message || error.message || 'Unable to save your response')
+      }
+      if (data?.error) throw new Error(data.error.message || 'Unable to save your response')
+
+      setQuote(data.quote as PublicQuote)
+      setDeclining(false)
+      toast.success(action === 'accept' ? 'Quote accepted' : 'Thanks for letting us know')
+    } catch (err: unknown) {
+      const error = err instanceof Error ? err : new Error(String(err))
+      logger.error('Error saving quote decision', error, {
+        component: 'PublicQuotePage',
+        action: 'submitDecision'
+      })
+      toast.error(error.message)
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const pageSeo = {
+    title: 'Your Quote | QCS Cargo',
+    description: 'Review and respond to your QCS Cargo shipping quote.',
+    noindex: true
+  }
+
+  if (loading) {
+    return (
+      <MarketingLayout seo={pageSeo} showStickyCTA={false}>
+        <div className="flex items-center justify-center py-24 text-slate-500">
+          <Loader2 className="h-6 w-6 animate-spin mr-2" /> Loading your quote…
+        </div>
+      </MarketingLayout>
+    )
+  }
+
+  if (linkError || !quote) {
+    return (
+      <MarketingLayout seo={pageSeo} showStickyCTA={false}>
+        <div className="max-w-xl mx-auto px-4 py-16 text-center">
+          <AlertCircle className="h-10 w-10 text-slate-400 mx-auto mb-4" />
+          <h1 className="text-2xl font-bold text-slate-900 mb-2">Quote unavailable</h1>
+          <p className="text-slate-600 mb-6">{linkError}</p>
+          <Link to="/shipping-calculator">
+            <Button>Get a New Quote</Button>
+          </Link>
+        </div>
+      </MarketingLayout>
+    )
+  }
+
+  const expired = new Date(quote.quote_expires_at) < new Date()
+  const open = quote.status === 'pending' && !expired
+  const destination = quote.destination
+    ? [quote.destination.city, quote.destination.country].filter(Boolean).join(', ')
+    : 'Destination TBD'
+
+  return (
+    <MarketingLayout seo={pageSeo} showStickyCTA={false}>
+      <div className="bg-slate-50 min-h-screen py-10">
+        <div className="max-w-4xl mx-auto px-4 space-y-6">
+          {revised && (
+            <div className="rounded-lg border border-amber-200 bg-amber-50 px-4 py-3 text-sm text-amber-800">
+              This quote has been revised since the link was sent. You are viewing the latest version.
+            </div>
+          )}
+
+          <Card>
+            <CardHeader>
+              <div className="flex flex-wrap items-start justify-between gap-4">
+                <div>
+                  <div className="flex items-center gap-3 mb-1">
+                    <CardTitle className="text-2xl">{quote.quote_reference}</CardTitle>
+                    <Badge variant="outline">
+                      {quote.status === 'won' ? 'Accepted' : quote.status === 'lost' ? 'Declined' : expired ? 'Expired' : 'Pending'}
+                    </Badge>
+                  </div>
+                  <CardDescription>
+                    Prepared for {quote.full_name} • Valid until {formatDate(quote.quote_expires_at)}
+                  </CardDescription>
+                </div>
+                <div className="text-right">
+                  <div className="text-3xl font-bold text-slate-900">{formatCurrency(quote.total_cost)}</div>
+                  {quote.local_total && (
+                    <div className="text-sm text-slate-500">
+                      ≈ {formatCurrency(quote.local_total.amount, quote.local_total.currency)}
+                    </div>
+                  )}
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+                <div>
+                  <div className="text-slate-600">Destination</div>
+                  <div className="font-medium text-slate-900">{destination}</div>
+                </div>
+                <div>
+                  <div className="text-slate-600">Service</div>
+                  <div className="font-medium text-slate-900">
+                    {quote.service_type === 'express' ? 'Express' : 'Standard'}
+                  </div>
+                </div>
+                <div>
+                  <div className="text-slate-600">Weight</div>
+                  <div className="font-medium text-slate-900">{quote.weight_lbs} lbs</div>
+                </div>
+                <div>
+                  <div className="text-slate-600">Transit</div>
+                  <div className="font-medium text-slate-900">{quote.transit_label || 'TBD'}</div>
+                </div>
+              </div>
+
+              {open && !declining && (
+                <div className="flex flex-wrap gap-3 pt-6 mt-6 border-t">
+                  <Button onClick={() => submitDecision('accept')} disabled={submitting}>
+                    {submitting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <CheckCircle className="h-4 w-4 mr-2" />}
+                    Accept Quote
+                  </Button>
+                  <Button variant="outline" onClick={() => setDeclining(true)} disabled={submitting}>
+                    <XCircle className="h-4 w-4 mr-2" />
+                    Decline
+                  </Button>
+                </div>
+              )}
+
+              {open && declining && (
+                <div className="pt-6 mt-6 border-t space-y-3">
+                  <label className="block text-sm font-medium text-slate-700">
+                    What made you decide not to go ahead?
+                    <select
+                      value={lostReason}
+                      onChange={(e) => setLostReason(e.target.value as LostReason)}
+                      className="mt-1 h-10 w-full rounded-md border border-slate-300 bg-white px-3 text-sm"
+                    >
+                      <option value="" disabled>Choose a reason</option>
+                      {(Object.keys(LOST_REASON_LABELS) as LostReason[]).map((value) => (
+                        <option key={value} value={value}>{LOST_REASON_LABELS[value]}</option>
+                      ))}
+                    </select>
+                  </label>
+                  <label className="block text-sm font-medium text-slate-700">
+                    {lostReason === 'other' ? 'Tell us more' : 'Anything else? (optional)'}
+                    <Textarea
+                      value={declineReason}
+                      onChange={(e) => setDeclineReason(e.target.value)}
+                      placeholder="Price, timing, found another carrier…"
+                      maxLength={500}
+                      className="mt-1"
+                    />
+                  </label>
+                  <div className="flex gap-3">
+                    <Button
+                      variant="destructive"
+                      onClick={() => submitDecision('decline')}
+                      disabled={submitting || !lostReason || (lostReason === 'other' && !declineReason.trim())}
+                    >
+                      {submitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                      Decline Quote
+                    </Button>
+                    <Button variant="outline" onClick={() => setDeclining(false)} disabled={submitting}>
+                      Cancel
+                    </Button>
+                  </div>
+                </div>
+              )}
+
+              {quote.status === 'won' && (
+                <div className="mt-6 rounded-lg bg-green-50 p-4 text-sm text-green-800">
+                  Thanks! Your quote is accepted.{' '}
+                  <Link
+                    to={`/dashboard/quotes?accept=${encodeURIComponent(quote.quote_reference)}`}
+                    className="font-semibold underline"
+                  >
+                    Sign in to create your shipment
+                  </Link>{' '}
+                  and schedule a pickup or drop-off.
+                </div>
+              )}
+
+              {quote.status === 'lost' && (
+                <div className="mt-6 rounded-lg bg-slate-100 p-4 text-sm text-slate-700">
+                  You declined this quote{quote.declined_at ? ` on ${formatDate(quote.declined_at)}` : ''}. If anything
+                  changes, reply to your quote email or{' '}
+                  <Link to="/shipping-calculator" className="font-semibold underline">request a new quote</Link>.
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {documentHtml && (
+            <Card>
+              <CardContent className="p-0">
+                <iframe
+                  title={`Quote ${quote.quote_reference}`}
+                  srcDoc={documentHtml}
+                  sandbox=""
+                  className="w-full h-[900px] rounded-lg"
+                />
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      </div>
+    </MarketingLayout>
+  )
+}
@@ -1,93 +1,107 @@
 import React, { useState, useEffect } from 'react'
-import { DollarSign, Info, Package, Plane, Shield, Clock } from 'lucide-react'
+import { DollarSign, Info, Package, Plane, Shield } from 'lucide-react'
 import { supabase } from '@/lib/supabase'
-import { Destination } from '@/lib/types'
+import { PublicRateTier, PublicRates } from '@/lib/types'
 import { MarketingLayout } from '@/components/layout/MarketingLayout'
 import { featureFlags } from '@/lib/featureFlags'
 
+const formatMoney = (value: number) => `$${value.toFixed(2)}`
+
+const formatWeightRange = (tier: PublicRateTier) => {
+  if (tier.weight_max === null) {
+    return `Over ${tier.weight_min} lbs`
+  }
+  if (tier.weight_min <= 0) {
+    return `Up to ${tier.weight_max} lbs`
+  }
+  return `${tier.weight_min}-${tier.weight_max} lbs`
+}
+
+function RateTierTable({ tiers }: { tiers: PublicRateTier[] }) {
+  return (
+    <div className="bg-gray-50 rounded-lg overflow-hidden">
+      <table className="w-full">
+        <thead className="bg-gray-200">
+          <tr>
+            <th className="text-left p-3 font-semibold">Weight Range</th>
+            <th className="text-right p-3 font-semibold">Rate per lb</th>
+          </tr>
+        </thead>
+        <tbody>
+          {tiers.map((tier, index) => {
+            const isLast = index === tiers.length - 1
+            return (
+              <tr key={`${tier.weight_min}-${tier.weight_max}`} className={isLast ? 'bg-green-50' : 'border-b border-gray-200'}>
+                <td className={`p-3 ${isLast ? 'font-semibold' : ''}`}>{formatWeightRange(tier)}</td>
+                <td className={`text-right p-3 ${isLast ? 'font-bold text-green-600' : 'font-medium'}`}>
+                  {formatMoney(tier.rate_per_lb)}
+                </td>
+              </tr>
+            )
+          })}
+        </tbody>
+      </table>
+    </div>
+  )
+}
+
 export default function RatesPage() {
-  const [destinations, setDestinations] = useState<Destination[]>([])
+  const [rates, setRates] = useState<PublicRates | null>(null)
   const [loading, setLoading] = useState(true)
+  const [loadError, setLoadError] = useState(false)
   const [selectedTab, setSelectedTab] = useState('rates')
   const showVirtualMailboxUi = featureFlags.virtualMailboxUi
 
   useEffect(() => {
-    loadDestinations()
+    loadRates()
   }, [])
 
-  const loadDestinations = async () => {
+  const loadRates = async () => {
     try {
-      const { data, error } = await supabase
-        .from('destinations')
-        .select('*')
-        .eq('is_active', true)
-        .order('country_name')
+      const { data, error } = await supabase.functions.invoke<{ data: PublicRates }>('public-rates', {
+        method: 'GET'
+      })
 
       if (error) throw error
-      setDestinations(data || [])
+      setRates(data?.data ?? null)
     } catch (error) {
-      console.error('Error loading destinations:', error)
+      console.error('Error loading rates:', error)
+      setLoadError(true)
     } finally {
       setLoading(false)
     }
   }
 
-  const additionalServices = [
-    { service: 'Consolidation Service', price: '$5.00 per additional shipment', description: 'Combine multiple packages into one shipment' },
-    { service: 'Pickup Service', price: '$25.00 (within 25 miles)', description: 'Convenient pickup from your location' },
-    { service: 'Express Processing', price: '$15.00', description: 'Same-day processing and priority handling' },
-    { service: 'Oversized Item Handling', price: '$20.00', description: 'Special handling for items over 70 lbs or unusual dimensions' },
-    { service: 'Custom Packaging', price: '$10.00 - $75.00', description: 'Professional packaging for fragile or valuable items' },
-    { service: 'Extended Storage', price: '$0.75/lb/week', description: 'Storage beyond the 7-day free period' },
-    { service: 'Rush Documentation', price: '$20.00', description: 'Expedited customs documentation processing' }
-  ]
+  const destinations = rates?.destinations ?? []
+  const additionalServices = rates?.additional_services ?? []
+  const volumeDiscounts = rates?.volume_discounts ?? []
+  const rateExamples = rates?.examples ?? []
 
-  const insuranceRates = [
-    { coverage: 'Basic Coverage', price: 'FREE', description: 'Up to $100 declared value included' },
-    { coverage: 'Standard Insurance', price: '$7.50 per $100', description: 'Additional coverage (minimum $15.00)' },
-    { coverage: 'High-Value Items', price: 'Custom Quote', description: 'For items over $2,500 declared value' }
-  ]
+  const surcharges = Array.from(new Set(destinations.map(destination => destination.express_surcharge_percent)))
+  const expressSummary =
+    surcharges.length === 1
+      ? `Express service adds a ${surcharges[0]}% surcharge.`
+      : 'Express surcharge varies by destination.'
 
-  const volumeDiscounts = [
-    { range: '100-250 lbs/month', discount: '5%', description: 'Regular customer discount' },
-    { range: '251-500 lbs/month', discount: '10%', description: 'Frequent shipper discount' },
-    { range: '501-1000 lbs/month', discount: '15%', description: 'High volume discount' },
-    { range: '1000+ lbs/month', discount: 'Custom', description: 'Enterprise pricing available' }
-  ]
-
-  const rateExamples = [
-    {
-      title: 'Small Personal Package',
-      details: '5 lbs to Georgetown, Guyana',
-      calculation: [
-        'Base rate: 5 lbs ?? $4.50 = $22.50',
-        'Insurance (optional): $200 value = $15.00',
-        'Total: $37.50'
-      ],
-      total: '$37.50'
-    },
-    {
-      title: 'Medium Consolidated Shipment',
-      details: '35 lbs to Kingston, Jamaica (2 packages)',
-      calculation: [
-        'Base rate: 35 lbs ?? $4.75 = $166.25',
-        'Consolidation: 1 additional package = $5.00',
-        'Total: $171.25'
-      ],
-      total: '$171.25'
-    },
-    {
-      title: 'Large Business Shipment',
-      details: '150 lbs to Port of Spain, Trinidad',
-      calculation: [
-        'Base rate: 150 lbs ?? $4.25 = $637.50',
-        'Business discount (10%): -$63.75',
-        'Express processing: $15.00',
-        'Total: $588.75'
-      ],
-      total: '$588.75'
-    }
-  ]
+  const insuranceRates = rates
+    ? [
+        {
+          coverage: 'Basic Coverage',
+          price: 'FREE',
+          description: `Up to ${formatMoney(rates.insurance.included_value)} declared value included`
+        },
+        {
+          coverage: 'Standard Insurance',
+          price: `${formatMoney(rates.insurance.rate_per_hundred)} per $100`,
+          description: `Additional coverage (minimum ${formatMoney(rates.insurance.minimum_premium)})`
+        },
+        {
+          coverage: 'High-Value Items',
+          price: 'Custom Quote',
+          description: `For items over ${formatMoney(rates.insurance.high_value_threshold)} declared value`
+        }
+      ]
+    : []
 
   const pageSeo = {
     title: 'Caribbean Air Cargo Rates | QCS Cargo Pricing',
@@ -163,7 +177,7 @@ export default function RatesPage() {
                 Base Shipping Rates by Destination
               </h2>
               <p className="text-xl text-slate-600">
-                Per-pound rates based on weight tiers. Express service adds 25% surcharge.
+                Per-pound rates based on weight tiers. {expressSummary}
               </p>
             </div>
 
@@ -182,6 +196,10 @@ export default function RatesPage() {
                 <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto"></div>
                 <p className="text-slate-600 mt-4">Loading rate information...</p>
               </div>
+            ) : loadError ? (
+              <div className="text-center py-12 text-slate-600">
+                Current rates are temporarily unavailable. Please use the rate calculator or contact our team.
+              </div>
             ) : (
               <div className="space-y-8">
                 {destinations.map((destination) => (
@@ -209,34 +227,13 @@ export default function RatesPage() {
                         {/* Rate Table */}
                         <div>
                           <h4 className="text-lg font-semibold mb-4">Standard Air Freight Rates</h4>
-                          <div className="bg-gray-50 rounded-lg overflow-hidden">
-                            <table className="w-full">
-                              <thead className="bg-gray-200">
-                                <tr>
-                                  <th className="text-left p-3 font-semibold">Weight Range</th>
-                                  <th className="text-right p-3 font-semibold">Rate per lb</th>
-                                </tr>
-                              </thead>
-                              <tbody>
-                                <tr className="border-b border-gray-200">
-                                  <td className="p-3">1-50 lbs</td>
-                                  <td className="text-right p-3 font-medium">${destination.rate_per_lb_1_50.toFixed(2)}</td>
-                                </tr>
-                                <tr className="border-b border-gray-200">
-                                  <td className="p-3">51-100 lbs</td>
-                                  <td className="text-right p-3 font-medium">${destination.rate_per_lb_51_100.toFixed(2)}</td>
-                                </tr>
-                                <tr className="border-b border-gray-200">
-                                  <td className="p-3">101-200 lbs</td>
-                                  <td className="text-right p-3 font-medium">${destination.rate_per_lb_101_200.toFixed(2)}</td>
-                                </tr>
-                                <tr className="bg-green-50">
-                                  <td className="p-3 font-semibold">201+ lbs</td>
-                                  <td className="text-right p-3 font-bold text-green-600">${destination.rate_per_lb_201_plus.toFixed(2)}</td>
-                                </tr>
-                              </tbody>
-                            </table>
-                          </div>
+                          <RateTierTable tiers={destination.standard_tiers} />
+                          {destination.express_tiers.length > 0 && (
+                            <>
+                              <h4 className="text-lg font-semibold mt-6 mb-4">Express Air Freight Rates</h4>
+                              <RateTierTable tiers={destination.express_tiers} />
+                            </>
+                          )}
                         </div>
                         
                         {/* Service Options */}
@@ -256,10 +253,14 @@ export default function RatesPage() {
                             <div className="bg-yellow-50 p-4 rounded-lg border-l-4 border-yellow-600">
                               <div className="flex items-center justify-between mb-2">
                                 <span className="font-medium">Express Service</span>
-                                <span className="text-sm text-yellow-600">+{destination.express_surcharge_percent}% Surcharge</span>
+                                <span className="text-sm text-yellow-600">
+                                  {destination.express_tiers.length > 0
+                                    ? 'Express Rates'
+                                    : `+${destination.express_surcharge_percent}% Surcharge`}
+                                </span>
                               </div>
                               <p className="text-sm text-slate-600">
-                                {Math.max(1, destination.transit_days_min - 1)}-{Math.max(2, destination.transit_days_max - 1)} business days (1-2 days faster)
+                                {destination.express_transit_days_min}-{destination.express_transit_days_max} business days (1-2 days faster)
                               </p>
                             </div>
                           </div>
@@ -282,7 +283,7 @@ export default function RatesPage() {
                 <div>
                   <h4 className="font-medium mb-2 text-primary">Dimensional Weight</h4>
                   <p className="text-gray-700 mb-4">
-                    Calculated as Length ?? Width ?? Height ?? 166 (inches). Billable weight is the greater of actual or dimensional weight.
+                    Calculated as Length × Width × Height ÷ {rates?.dimensional_divisor ?? 166} (inches). Billable weight is the greater of actual or dimensional weight.
                   </p>
                   
                   <h4 className="font-medium mb-2 text-primary">Rate Validity</h4>
@@ -294,10 +295,10 @@ export default function RatesPage() {
                 <div>
                   <h4 className="font-medium mb-2 text-primary">What's Included</h4>
                   <ul className="text-gray-700 space-y-1 mb-4">
-                    <li>??? Professional packaging review</li>
-                    <li>??? Customs documentation prep</li>
-                    <li>??? Up to 7 days free storage</li>
-                    <li>??? Shipment tracking</li>
+                    <li>• Professional packaging review</li>
+                    <li>• Customs documentation prep</li>
+                    <li>• Up to {rates?.free_storage_days ?? 7} days free storage</li>
+                    <li>• Shipment tracking</li>
                   </ul>
                   
                   <h4 className="font-medium mb-2 text-primary">Not Included</h4>
@@ -392,7 +393,7 @@ export default function RatesPage() {
                   Real-World Rate Examples
                 </h2>
                 <p className="text-xl text-slate-600">
-                  See how our rates work with actual shipping scenarios
+                  Priced live by the same calculator you use for a quote
                 </p>
               </div>
 
@@ -407,15 +408,18 @@ export default function RatesPage() {
                     <div className="p-6">
                       <h4 className="font-semibold mb-4">Rate Calculation:</h4>
                       <div className="space-y-2 mb-4">
-                        {example.calculation.map((line, lineIndex) => (
-                          <div key={lineIndex} className="text-sm text-gray-700">{line}</div>
+                        {example.lines.map((line, lineIndex) => (
+                          <div key={lineIndex} className="flex justify-between text-sm text-gray-700">
+                            <span>{line.label}</span>
+                            <span>{formatMoney(line.amount)}</span>
+                          </div>
                         ))}
                       </div>
                       
                       <div className="border-t border-gray-200 pt-4">
                         <div className="flex justify-between items-center">
                           <span className="text-lg font-semibold">Total Cost:</span>
-                          <span className="text-2xl font-bold text-green-600">{example.total}</span>
+                          <span className="text-2xl font-bold text-green-600">{formatMoney(example.total)}</span>
                         </div>
                       </div>
                     </div>
@@ -1,12 +1,31 @@
 import React, { useState, useEffect } from 'react'
 import { useSearchParams, Link, useNavigate } from 'react-router-dom'
-import { Calculator, Package, Plane, DollarSign, Clock, AlertCircle, Truck } from 'lucide-react'
+import { Calculator, Package, Plane, DollarSign, Clock, AlertCircle, Truck, Plus, Trash2 } from 'lucide-react'
 import { supabase } from '@/lib/supabase'
 import { useAuth } from '@/contexts/AuthContext'
-import { Destination, CalculatedRate, ShippingCalculatorData } from '@/lib/types'
+import { Destination, CalculatedRate, ShippingCalculatorData, ShipmentPieceInput, MeasurementUnits } from '@/lib/types'
 import { MarketingLayout } from '@/components/layout/MarketingLayout'
 import QuoteEmailModal from '@/components/quotes/QuoteEmailModal'
 
+const OPTIONAL_SERVICES = [
+  { flag: 'pickup', label: 'Pickup from my location' },
+  { flag: 'fragile_packaging', label: 'Fragile packaging' },
+  { flag: 'rush_documentation', label: 'Rush documentation' }
+]
+
+// Standard Caribbean shipping drum; most Jamaica and Guyana volume ships in these
+const BARREL_PRESETS: Record<MeasurementUnits, ShipmentPieceInput> = {
+  lb_in: { description: 'Barrel', quantity: 1, weight: 0, length: 24, width: 24, height: 36 },
+  kg_cm: { description: 'Barrel', quantity: 1, weight: 0, length: 61, width: 61, height: 91 }
+}
+
+const UNIT_LABELS: Record<MeasurementUnits, { weight: string; length: string }> = {
+  lb_in: { weight: 'lbs', length: 'in' },
+  kg_cm: { weight: 'kg', length: 'cm' }
+}
+
+const emptyPiece = (): ShipmentPieceInput => ({ quantity: 1, weight: 0, length: 0, width: 0, height: 0 })
+
 export default function ShippingCalculator() {
   const [searchParams] = useSearchParams()
   const navigate = useNavigate()
@@ -19,14 +38,16 @@ export default function ShippingCalculator() {
       width: 0,
       height: 0
     },
+    pieces: [emptyPiece()],
+    units: 'lb_in',
     destinationId: 0,
     serviceType: 'standard',
-    declaredValue: 0
+    declaredValue: 0,
+    accessorials: { flags: [], packageCount: 1 }
   })
   const [calculatedRate, setCalculatedRate] = useState<CalculatedRate | null>(null)
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
-  const [weightUnit, setWeightUnit] = useState<'lbs' | 'kg'>('lbs')
   const [showQuoteModal, setShowQuoteModal] = useState(false)
 
   // Load destinations on component mount
@@ -63,16 +84,54 @@ export default function ShippingCalculator() {
     }
   }
 
-  const convertWeight = (weight: number, fromUnit: 'lbs' | 'kg', toUnit: 'lbs' | 'kg') => {
-    if (fromUnit === toUnit) return weight
-    if (fromUnit === 'kg' && toUnit === 'lbs') return weight * 2.20462
-    if (fromUnit === 'lbs' && toUnit === 'kg') return weight / 2.20462
-    return weight
+  const units = formData.units ?? 'lb_in'
+  const unitLabels = UNIT_LABELS[units]
+
+  // Keep the shipment totals in sync with the piece list. Values stay in the
+  // units they were entered in; the rating engine converts them.
+  const updatePieces = (pieces: ShipmentPieceInput[], changes: Partial<ShippingCalculatorData> = {}) => {
+    const totalWeight = pieces.reduce((sum, piece) => sum + piece.weight * piece.quantity, 0)
+    const single = pieces.length === 1 && pieces[0].quantity === 1 ? pieces[0] : null
+    setFormData({
+      ...formData,
+      ...changes,
+      pieces,
+      weight: totalWeight,
+      dimensions: single
+        ? { length: single.length || 0, width: single.width || 0, height: single.height || 0 }
+        : undefined
+    })
+  }
+
+  const updatePiece = (index: number, changes: Partial<ShipmentPieceInput>) => {
+    updatePieces((formData.pieces ?? []).map((piece, i) => (i === index ? { ...piece, ...changes } : piece)))
   }
 
-  const handleWeightChange = (value: number) => {
-    const weightInLbs = weightUnit === 'kg' ? convertWeight(value, 'kg', 'lbs') : value
-    setFormData({ ...formData, weight: weightInLbs })
+  const addPiece = (piece: ShipmentPieceInput) => {
+    updatePieces([...(formData.pieces ?? []), { ...piece }])
+  }
+
+  // Convert what has been entered so switching units never changes the shipment
+  const handleUnitsChange = (next: MeasurementUnits) => {
+    if (next === units) return
+    const toMetric = next === 'kg_cm'
+    const weightFactor = toMetric ? 1 / 2.20462 : 2.20462
+    const lengthFactor = toMetric ? 2.54 : 1 / 2.54
+    const round = (value: number | undefined, factor: number) => (value ? Math.round(value * factor * 100) / 100 : value)
+    const pieces = (formData.pieces ?? []).map(piece => ({
+      ...piece,
+      weight: round(piece.weight, weightFactor) ?? 0,
+      length: round(piece.length, lengthFactor),
+      width: round(piece.width, lengthFactor),
+      height: round(piece.height, lengthFactor)
+    }))
+    updatePieces(pieces, { units: next })
+    setCalculatedRate(null)
+  }
+
+  const removePiece = (index: number) => {
+    const remaining = (formData.pieces ?? []).filter((_, i) => i !== index)
+    updatePieces(remaining.length ? remaining : [emptyPiece()])
   }
 
   const calculateShipping = async () => {
@@ -94,9 +153,12 @@ export default function ShippingCalculator() {
         body: {
           weight: formData.weight,
           dimensions: formData.dimensions,
+          pieces: formData.pieces,
+          units,
           destinationId: formData.destinationId,
           serviceType: formData.serviceType,
-          declaredValue: formData.declaredValue
+          declaredValue: formData.declaredValue,
+          accessorials: formData.accessorials
         }
       })
 
@@ -114,21 +176,37 @@ export default function ShippingCalculator() {
     setFormData({
       weight: 0,
       dimensions: { length: 0, width: 0, height: 0 },
+      pieces: [emptyPiece()],
+      units,
       destinationId: 0,
       serviceType: 'standard',
-      declaredValue: 0
+      declaredValue: 0,
+      accessorials: { flags: [], packageCount: 1 }
     })
     setCalculatedRate(null)
     setError(null)
     setShowQuoteModal(false)
   }
 
+  const toggleService = (flag: string, enabled: boolean) => {
+    const current = formData.accessorials ?? { flags: [], packageCount: 1 }
+    const flags = enabled ? [...current.flags, flag] : current.flags.filter(existing => existing !== flag)
+    setFormData({ ...formData, accessorials: { ...current, flags } })
+  }
+
   const handleCreateShipment = () => {
+    // Create-shipment works in lbs and inches, so take them from the engine's
+    // converted figures rather than from what was typed
+    const weightLbs = calculatedRate?.weight.actual ?? formData.weight
+    const dimensionsIn = calculatedRate?.pieces?.length === 1 && calculatedRate.pieces[0].quantity === 1
+      ? calculatedRate.pieces[0].dimensions
+      : null
+
     if (!user) {
       // User not logged in - redirect to login with return URL to create shipment page
       const params = new URLSearchParams({
         destination_id: formData.destinationId.toString(),
-        weight: formData.weight.toString(),
+        weight: weightLbs.toString(),
         service_type: formData.serviceType,
         declared_value: formData.declaredValue.toString()
       })
@@ -138,12 +216,12 @@ export default function ShippingCalculator() {
       // User is logged in - navigate directly to create shipment page with pre-filled data
       const params = new URLSearchParams({
         destination_id: formData.destinationId.toString(),
-        weight: formData.weight.toString(),
+        weight: weightLbs.toString(),
         service_type: formData.serviceType,
         declared_value: formData.declaredValue.toString(),
-        ...(formData.dimensions?.length && { length: formData.dimensions.length.toString() }),
-        ...(formData.dimensions?.width && { width: formData.dimensions.width.toString() }),
-        ...(formData.dimensions?.height && { height: formData.dimensions.height.toString() })
+        ...(dimensionsIn?.length && { length: dimensionsIn.length.toString() }),
+        ...(dimensionsIn?.width && { width: dimensionsIn.width.toString() }),
+        ...(dimensionsIn?.height && { height: dimensionsIn.height.toString() })
       })
       navigate(`/dashboard/create-shipment?${params.toString()}`)
     }
@@ -189,74 +267,90 @@ export default function ShippingCalculator() {
             Shipment Details
           </h2>
 
-          {/* Weight Input - with proper input group styling */}
-          <label className="mt-4 block text-sm font-medium text-slate-700">Weight *</label>
-          <div className="mt-1.5 flex">
-            <input
-              type="number"
-              min="0.1"
-              step="0.1"
-              value={weightUnit === 'lbs' ? formData.weight || '' : convertWeight(formData.weight, 'lbs', 'kg') || ''}
-              onChange={(e) => handleWeightChange(parseFloat(e.target.value) || 0)}
-              className="scroll-mb-sticky w-full h-12 rounded-l-xl border border-slate-300 px-3 outline-none focus:ring-4 focus:ring-violet-200"
-              placeholder="Enter weight"
-              inputMode="decimal"
-            />
+          {/* Pieces - quantity, weight and dimensions per piece */}
+          <div className="mt-4 flex items-center justify-between">
+            <label className="block text-sm font-medium text-slate-700">Pieces *</label>
             <select
-              value={weightUnit}
-              onChange={(e) => setWeightUnit(e.target.value as 'lbs' | 'kg')}
-              className="scroll-mb-sticky h-12 rounded-r-xl border border-l-0 border-slate-300 px-3 bg-slate-50 hover:bg-slate-100"
+              value={units}
+              onChange={(e) => handleUnitsChange(e.target.value as MeasurementUnits)}
+              className="scroll-mb-sticky h-9 rounded-xl border border-slate-300 px-2 text-sm bg-slate-50 hover:bg-slate-100"
             >
-              <option value="lbs">lbs</option>
-              <option value="kg">kg</option>
+              <option value="lb_in">lbs / inches</option>
+              <option value="kg_cm">kg / cm</option>
             </select>
           </div>
-
-          {/* Dimensions - compact mobile layout */}
-          <label className="mt-4 block text-sm font-medium text-slate-700">Dimensions (inches) - Optional</label>
-          <div className="mt-1.5 grid grid-cols-3 gap-2">
-            <input
-              type="number"
-              min="0"
-              value={formData.dimensions?.length || ''}
-              onChange={(e) => setFormData({
-                ...formData,
-                dimensions: {
-                  ...formData.dimensions!,
-                  length: parseFloat(e.target.value) || 0
-                }
-              })}
-              placeholder="Length"
-              className="scroll-mb-sticky h-12 rounded-xl border border-slate-300 px-3"
-            />
-            <input
-              type="number"
-              min="0"
-              value={formData.dimensions?.width || ''}
-              onChange={(e) => setFormData({
-                ...formData,
-                dimensions: {
-                  ...formData.dimensions!,
-                  width: parseFloat(e.target.value) || 0
-                }
-              })}
-              placeholder="Width"
-              className="scroll-mb-sticky h-12 rounded-xl border border-slate-300 px-3"
-            />
-            <input
-              type="number"
-              min="0"
-              value={formData.dimensions?.height || ''}
-              onChange={(e) => setFormData({
-                ...formData,
-                dimensions: {
-                  ...formData.dimensions!,
-                  height: parseFloat(e.target.value) || 0
-                }
-              })}
-              placeholder="Height"
-              className="scroll-mb-sticky h-12 rounded-xl border border-slate-300 px-3"
-            />
+          <div className="mt-1.5 space-y-3">
+            {(formData.pieces ?? []).map((piece, index) => (
+              <div key={index} className="rounded-xl border border-slate-200 p-3">
+                <div className="flex items-center justify-between mb-2">
+                  <span className="text-sm font-medium text-slate-700">
+                    {piece.description || `Piece ${index + 1}`}
+                  </span>
+                  {(formData.pieces ?? []).length > 1 && (
+                    <button
+                      type="button"
+                      onClick={() => removePiece(index)}
+                      className="text-slate-400 hover:text-red-600"
+                      aria-label={`Remove piece ${index + 1}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  )}
+                </div>
+                <div className="grid grid-cols-2 gap-2">
+                  <input
+                    type="number"
+                    min="1"
+                    step="1"
+                    value={piece.quantity || ''}
+                    onChange={(e) => updatePiece(index, { quantity: Math.max(1, parseInt(e.target.value, 10) || 1) })}
+                    placeholder="Qty"
+                    className="scroll-mb-sticky h-12 rounded-xl border border-slate-300 px-3"
+                  />
+                  <input
+                    type="number"
+                    min="0.1"
+                    step="0.1"
+                    value={piece.weight || ''}
+                    onChange={(e) => updatePiece(index, { weight: parseFloat(e.target.value) || 0 })}
+                    placeholder={`Weight each (${unitLabels.weight})`}
+                    className="scroll-mb-sticky h-12 rounded-xl border border-slate-300 px-3"
+                    inputMode="decimal"
+                  />
+                </div>
+                <div className="mt-2 grid grid-cols-3 gap-2">
+                  {(['length', 'width', 'height'] as const).map(side => (
+                    <input
+                      key={side}
+                      type="number"
+                      min="0"
+                      value={piece[side] || ''}
+                      onChange={(e) => updatePiece(index, { [side]: parseFloat(e.target.value) || 0 })}
+                      placeholder={`${side.charAt(0).toUpperCase()}${side.slice(1)} (${unitLabels.length})`}
+                      className="scroll-mb-sticky h-12 rounded-xl border border-slate-300 px-3"
+                    />
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+          <div className="mt-2 flex gap-2">
+            <button
+              type="button"
+              onClick={() => addPiece(emptyPiece())}
+              className="flex-1 h-10 rounded-xl border border-slate-300 text-sm font-medium text-slate-700 hover:bg-slate-50 flex items-center justify-center"
+            >
+              <Plus className="h-4 w-4 mr-1" />
+              Add piece
+            </button>
+            <button
+              type="button"
+              onClick={() => addPiece(BARREL_PRESETS[units])}
+              className="flex-1 h-10 rounded-xl border border-slate-300 text-sm font-medium text-slate-700 hover:bg-slate-50 flex items-center justify-center"
+            >
+              <Plus className="h-4 w-4 mr-1" />
+              Add barrel
+            </button>
           </div>
 
           {/* Destination - compact select */}
@@ -318,6 +412,39 @@ export default function ShippingCalculator() {
             placeholder="For insurance"
           />
 
+          {/* Packages & optional services */}
+          <label className="mt-4 block text-sm font-medium text-slate-700">Number of Packages</label>
+          <input
+            type="number"
+            min="1"
+            step="1"
+            value={formData.accessorials?.packageCount || ''}
+            onChange={(e) => setFormData({
+              ...formData,
+              accessorials: {
+                flags: formData.accessorials?.flags ?? [],
+                packageCount: Math.max(1, parseInt(e.target.value, 10) || 1)
+              }
+            })}
+            className="scroll-mb-sticky w-full h-12 rounded-xl border border-slate-300 px-3"
+          />
+          <p className="mt-1 text-xs text-slate-500">Packages after the first are consolidated into one shipment.</p>
+
+          <label className="mt-4 block text-sm font-medium text-slate-700">Additional Services - Optional</label>
+          <div className="mt-1.5 space-y-2">
+            {OPTIONAL_SERVICES.map(service => (
+              <label key={service.flag} className="flex items-center text-sm text-slate-700 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={formData.accessorials?.flags.includes(service.flag) ?? false}
+                  onChange={(e) => toggleService(service.flag, e.target.checked)}
+                  className="mr-2"
+                />
+                {service.label}
+              </label>
+            ))}
+          </div>
+
           {/* Error Message - compact */}
           {error && (
             <div className="mt-4 bg-red-50 border border-red-200 rounded-xl p-3 flex items-start">
@@ -383,6 +510,65 @@ export default function ShippingCalculator() {
               </p>
             </div>
 
+            {/* Per-piece breakdown */}
+            {calculatedRate.pieces && (calculatedRate.pieces.length > 1 || calculatedRate.pieces[0]?.quantity > 1) && (
+              <div className="mb-4 rounded-xl border border-slate-200 p-3 text-sm">
+                <div className="font-medium text-slate-700 mb-2">Pieces</div>
+                {calculatedRate.pieces.map((piece, index) => (
+                  <div key={index} className="flex justify-between text-slate-600">
+                    <span>
+                      {piece.quantity} × {piece.description || `Piece ${index + 1}`}
+                      {piece.unitDimensionalWeight !== null && piece.unitDimensionalWeight > piece.unitWeight && ' (dimensional)'}
+                    </span>
+                    <span>{piece.billableWeight.toFixed(2)} lbs</span>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {/* Weights in both unit systems */}
+            {calculatedRate.measurements && (
+              <div className="mb-4 grid grid-cols-3 gap-2 rounded-xl bg-slate-50 p-3 text-xs text-slate-600">
+                {(['actual', 'dimensional', 'billable'] as const).map(kind => (
+                  <div key={kind}>
+                    <div className="font-medium capitalize text-slate-700">{kind}</div>
+                    {calculatedRate.measurements!.lb[kind] === null ? (
+                      <div>—</div>
+                    ) : (
+                      <>
+                        <div>{calculatedRate.measurements!.lb[kind]!.toFixed(2)} lbs</div>
+                        <div>{calculatedRate.measurements!.kg[kind]!.toFixed(2)} kg</div>
+                      </>
+                    )}
+                  </div>
+                ))}
+                <div className="col-span-3 text-slate-500">
+                  Dimensional divisor: {calculatedRate.measurements.dimensionalDivisor.inchesPerLb} in³/lb
+                  ({calculatedRate.measurements.dimensionalDivisor.cmPerKg} cm³/kg)
+                </div>
+              </div>
+            )}
+
+            {/* Itemized charges */}
+            <div className="mb-4 space-y-1 text-sm text-slate-700">
+              <div className="flex justify-between">
+                <span>Air freight ({calculatedRate.weight.billable.toFixed(2)} lbs billable)</span>
+                <span>${calculatedRate.rateBreakdown.baseShippingCost.toFixed(2)}</span>
+              </div>
+              {(calculatedRate.rateBreakdown.accessorials ?? []).map(item => (
+                <div key={item.code} className="flex justify-between">
+                  <span>{item.name}</span>
+                  <span>${item.amount.toFixed(2)}</span>
+                </div>
+              ))}
+              {calculatedRate.rateBreakdown.insuranceCost > 0 && (
+                <div className="flex justify-between">
+                  <span>Insurance</span>
+                  <span>${calculatedRate.rateBreakdown.insuranceCost.toFixed(2)}</span>
+                </div>
+              )}
+            </div>
+
             {/* Action Buttons - compact */}
             <div className="space-y-2">
               <button
@@ -0,0 +1,234 @@
+import React, { useEffect, useState } from 'react'
+import { supabase } from '@/lib/supabase'
+import { MailboxConsolidation } from '@/lib/types'
+import { Input } from '@/components/ui/input'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { toast } from 'sonner'
+import { Loader2, RefreshCw, Scale } from 'lucide-react'
+
+interface BoxDraft {
+  weight: string
+  length: string
+  width: string
+  height: string
+}
+
+const EMPTY_BOX: BoxDraft = { weight: '', length: '', width: '', height: '' }
+
+const formatDate = (value: string | null | undefined) => {
+  if (!value) return '—'
+  return new Date(value).toLocaleString('en-US', { dateStyle: 'medium', timeStyle: 'short' })
+}
+
+const formatMoney = (value: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(value)
+
+const AdminConsolidations: React.FC = () => {
+  const [consolidations, setConsolidations] = useState<MailboxConsolidation[]>([])
+  const [showAll, setShowAll] = useState(false)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [boxes, setBoxes] = useState<Record<number, BoxDraft>>({})
+  const [savingId, setSavingId] = useState<number | null>(null)
+
+  useEffect(() => {
+    loadConsolidations()
+  }, [showAll])
+
+  const invokeConsolidations = async <T,>(body: Record<string, unknown>) => {
+    const { data, error } = await supabase.functions.invoke<T>('admin-consolidations', { body })
+    if (error) throw error
+    return data as T
+  }
+
+  const loadConsolidations = async () => {
+    try {
+      setLoading(true)
+      setError(null)
+      const data = await invokeConsolidations<{ consolidations: MailboxConsolidation[] }>({
+        action: 'list',
+        status: showAll ? 'all' : 'awaiting'
+      })
+      setConsolidations(data.consolidations)
+    } catch (err) {
+      console.error('Failed to load consolidations:', err)
+      const message = err instanceof Error ? err.message : 'Unable to load consolidations.'
+      setError(message)
+      toast.error(message)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const updateBox = (id: number, field: keyof BoxDraft, value: string) => {
+    setBoxes((prev) => ({ ...prev, [id]: { ...(prev[id] ?? EMPTY_BOX), [field]: value } }))
+  }
+
+  const handleReweigh = async (consolidation: MailboxConsolidation) => {
+    const box = boxes[consolidation.id] ?? EMPTY_BOX
+    try {
+      setSavingId(consolidation.id)
+      const data = await invokeConsolidations<{ quote: { quote_reference: string; total_cost: number }; email_sent: boolean }>({
+        action: 'reweigh',
+        shipment_id: consolidation.id,
+        box: {
+          weight: box.weight,
+          length: box.length || null,
+          width: box.width || null,
+          height: box.height || null
+        }
+      })
+      toast.success(
+        `Quote ${data.quote.quote_reference} issued for ${formatMoney(Number(data.quote.total_cost))}${data.email_sent ? ' and emailed' : ''}`
+      )
+      setBoxes((prev) => {
+        const next = { ...prev }
+        delete next[consolidation.id]
+        return next
+      })
+      await loadConsolidations()
+    } catch (err) {
+      console.error('Failed to re-weigh consolidation:', err)
+      toast.error(err instanceof Error ? err.message : 'Unable to record the re-weighed box.')
+    } finally {
+      setSavingId(null)
+    }
+  }
+
+  return (
+    <div className="p-6">
+      <div className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
+        <div>
+          <h1 className="text-2xl font-semibold text-slate-900">Consolidations</h1>
+          <p className="text-sm text-slate-600">
+            Mailbox packages customers asked to ship together. Repack, weigh the box and issue the quote.
+          </p>
+        </div>
+        <div className="flex items-center gap-3">
+          <label className="flex items-center gap-2 text-sm text-slate-600">
+            <input
+              type="checkbox"
+              checked={showAll}
+              onChange={(event) => setShowAll(event.target.checked)}
+              className="h-4 w-4 rounded border-slate-300"
+            />
+            Include quoted
+          </label>
+          <Button variant="outline" onClick={loadConsolidations} disabled={loading} className="gap-2">
+            <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+            Refresh
+          </Button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="mt-4 rounded-lg border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">
+          {error}
+        </div>
+      )}
+
+      <div className="mt-6 space-y-4">
+        {consolidations.length === 0 && !loading ? (
+          <div className="rounded-xl border border-slate-200 bg-white px-4 py-8 text-center text-sm text-slate-500">
+            No consolidations waiting to be re-weighed.
+          </div>
+        ) : (
+          consolidations.map((consolidation) => {
+            const box = boxes[consolidation.id] ?? EMPTY_BOX
+            const receivedWeight = consolidation.received_packages.reduce(
+              (sum, pkg) => sum + (Number(pkg.weight) || 0),
+              0
+            )
+            return (
+              <div key={consolidation.id} className="rounded-xl border border-slate-200 bg-white">
+                <div className="flex flex-col gap-2 border-b border-slate-200 px-4 py-3 md:flex-row md:items-center md:justify-between">
+                  <div>
+                    <div className="flex items-center gap-2">
+                      <span className="font-mono text-sm font-medium text-slate-900">{consolidation.tracking_number}</span>
+                      <Badge variant="outline" className="capitalize">
+                        {consolidation.service_type}
+                      </Badge>
+                    </div>
+                    <div className="text-xs text-slate-500">
+                      {consolidation.customer_name || 'Customer'}
+                      {consolidation.customer_email ? ` · ${consolidation.customer_email}` : ''} · to{' '}
+                      {[consolidation.destinations?.city_name, consolidation.destinations?.country_name].filter(Boolean).join(', ')}
+                      {' '}· requested {formatDate(consolidation.created_at)}
+                    </div>
+                    {consolidation.special_instructions && (
+                      <div className="mt-1 text-xs text-amber-700">Note: {consolidation.special_instructions}</div>
+                    )}
+                  </div>
+                  <div className="text-right text-xs text-slate-500">
+                    {consolidation.received_packages.length} packages · {receivedWeight.toFixed(2)} lbs as received
+                  </div>
+                </div>
+
+                <div className="grid gap-4 px-4 py-3 lg:grid-cols-[1fr_360px]">
+                  <div className="divide-y divide-slate-100 text-sm">
+                    {consolidation.received_packages.map((pkg) => (
+                      <div key={pkg.id} className="flex items-center justify-between py-1.5">
+                        <span className="font-mono text-slate-800">{pkg.tracking_number}</span>
+                        <span className="text-xs text-slate-500">
+                          {pkg.carrier || 'Carrier TBD'} · {pkg.weight ? `${pkg.weight} lbs` : 'not weighed'}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+
+                  {consolidation.reweighed_at ? (
+                    <div className="rounded-lg bg-slate-50 px-3 py-2 text-sm text-slate-700">
+                      <div className="font-medium text-slate-900">
+                        Re-weighed at {Number(consolidation.consolidated_weight_lbs)} lbs
+                      </div>
+                      <div className="text-xs text-slate-500">{formatDate(consolidation.reweighed_at)}</div>
+                      {consolidation.shipping_quotes && (
+                        <div className="mt-1 text-xs">
+                          Quote {consolidation.shipping_quotes.quote_reference} ·{' '}
+                          {formatMoney(Number(consolidation.shipping_quotes.total_cost))} · {consolidation.shipping_quotes.status}
+                        </div>
+                      )}
+                    </div>
+                  ) : (
+                    <div className="space-y-2">
+                      <div className="grid grid-cols-4 gap-2">
+                        {(['weight', 'length', 'width', 'height'] as const).map((field) => (
+                          <label key={field} className="text-xs font-medium capitalize text-slate-600">
+                            {field === 'weight' ? 'Weight (lbs)' : `${field} (in)`}
+                            <Input
+                              type="number"
+                              min="0"
+                              step="0.01"
+                              value={box[field]}
+                              onChange={(event) => updateBox(consolidation.id, field, event.target.value)}
+                              className="mt-1"
+                            />
+                          </label>
+                        ))}
+                      </div>
+                      <Button
+                        onClick={() => handleReweigh(consolidation)}
+                        disabled={savingId === consolidation.id || !(Number(box.weight) > 0)}
+                        className="w-full gap-2"
+                      >
+                        {savingId === consolidation.id ? (
+                          <Loader2 className="h-4 w-4 animate-spin" />
+                        ) : (
+                          <Scale className="h-4 w-4" />
+                        )}
+                        Record weight and issue quote
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              </div>
+            )
+          })
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default AdminConsolidations
@@ -0,0 +1,275 @@
+import React, { useEffect, useState } from 'react'
+import { supabase } from '@/lib/supabase'
+import { DisplayCurrency, FxRate } from '@/lib/types'
+import { Input } from '@/components/ui/input'
+import { Button } from '@/components/ui/button'
+import { toast } from 'sonner'
+import { RefreshCw, Save } from 'lucide-react'
+
+interface CurrentRate {
+  currency_code: DisplayCurrency
+  rate: FxRate | null
+}
+
+interface DestinationCurrency {
+  id: number
+  country_name: string
+  city_name: string
+  local_currency: DisplayCurrency | null
+}
+
+interface FxRatesResponse {
+  currencies: DisplayCurrency[]
+  current: CurrentRate[]
+  history: FxRate[]
+  destinations: DestinationCurrency[]
+}
+
+const formatDate = (value: string | null | undefined) => {
+  if (!value) return '—'
+  return new Date(value).toLocaleString('en-US', { dateStyle: 'medium', timeStyle: 'short' })
+}
+
+const toDateTimeLocal = (date: Date) => {
+  const offset = date.getTimezoneOffset() * 60000
+  return new Date(date.getTime() - offset).toISOString().slice(0, 16)
+}
+
+const AdminExchangeRates: React.FC = () => {
+  const [data, setData] = useState<FxRatesResponse | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [currency, setCurrency] = useState<DisplayCurrency>('JMD')
+  const [rate, setRate] = useState('')
+  const [effectiveFrom, setEffectiveFrom] = useState(() => toDateTimeLocal(new Date()))
+  const [notes, setNotes] = useState('')
+
+  useEffect(() => {
+    loadRates()
+  }, [])
+
+  const invokeFxRates = async <T,>(body: Record<string, unknown>) => {
+    const { data, error } = await supabase.functions.invoke<T>('admin-fx-rates', { body })
+    if (error) throw error
+    return data as T
+  }
+
+  const loadRates = async () => {
+    try {
+      setLoading(true)
+      setError(null)
+      setData(await invokeFxRates<FxRatesResponse>({ action: 'list' }))
+    } catch (err) {
+      console.error('Failed to load exchange rates:', err)
+      const message = err instanceof Error ? err.message : 'Unable to load exchange rates.'
+      setError(message)
+      toast.error(message)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleSaveRate = async () => {
+    const value = parseFloat(rate)
+    if (!Number.isFinite(value) || value <= 0) {
+      toast.error('Enter a rate greater than zero.')
+      return
+    }
+    try {
+      setSaving(true)
+      await invokeFxRates({
+        action: 'set_rate',
+        currency_code: currency,
+        rate_per_usd: value,
+        effective_from: new Date(effectiveFrom).toISOString(),
+        notes
+      })
+      toast.success(`${currency} rate saved`)
+      setRate('')
+      setNotes('')
+      await loadRates()
+    } catch (err) {
+      console.error('Failed to save exchange rate:', err)
+      toast.error(err instanceof Error ? err.message : 'Unable to save exchange rate.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDestinationCurrency = async (destinationId: number, localCurrency: string) => {
+    try {
+      await invokeFxRates({
+        action: 'set_destination_currency',
+        destination_id: destinationId,
+        local_currency: localCurrency || null
+      })
+      toast.success('Destination currency updated')
+      await loadRates()
+    } catch (err) {
+      console.error('Failed to update destination currency:', err)
+      toast.error(err instanceof Error ? err.message : 'Unable to update destination currency.')
+    }
+  }
+
+  return (
+    <div className="p-6">
+      <div className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
+        <div>
+          <h1 className="text-2xl font-semibold text-slate-900">Exchange Rates</h1>
+          <p className="text-sm text-slate-600">
+            Local-currency equivalents shown on quotes. Each quote keeps the rate it was issued with.
+          </p>
+        </div>
+        <Button variant="outline" onClick={loadRates} disabled={loading} className="gap-2">
+          <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+          Refresh
+        </Button>
+      </div>
+
+      {error && (
+        <div className="mt-4 rounded-lg border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">
+          {error}
+        </div>
+      )}
+
+      <div className="mt-6 grid gap-6 lg:grid-cols-[1fr_320px]">
+        <div className="space-y-6">
+          <div className="grid gap-3 sm:grid-cols-3 lg:grid-cols-5">
+            {(data?.current ?? []).map((entry) => (
+              <div key={entry.currency_code} className="rounded-xl border border-slate-200 bg-white px-4 py-3">
+                <div className="text-xs font-medium uppercase tracking-wide text-slate-500">{entry.currency_code}</div>
+                <div className="mt-1 text-lg font-semibold text-slate-900">
+                  {entry.rate ? Number(entry.rate.rate_per_usd).toLocaleString('en-US', { maximumFractionDigits: 6 }) : '—'}
+                </div>
+                <div className="text-xs text-slate-500">
+                  {entry.rate ? `since ${formatDate(entry.rate.effective_from)}` : 'No rate on file'}
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <div className="rounded-xl border border-slate-200 bg-white">
+            <div className="border-b border-slate-200 px-4 py-3">
+              <h2 className="text-base font-semibold text-slate-900">Rate history</h2>
+            </div>
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-slate-200 text-left text-sm">
+                <thead className="bg-slate-50">
+                  <tr>
+                    <th className="px-4 py-3 font-medium text-slate-600">Currency</th>
+                    <th className="px-4 py-3 font-medium text-slate-600">Per 1 USD</th>
+                    <th className="px-4 py-3 font-medium text-slate-600">Effective from</th>
+                    <th className="px-4 py-3 font-medium text-slate-600">Notes</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {(data?.history ?? []).length === 0 ? (
+                    <tr>
+                      <td colSpan={4} className="px-4 py-8 text-center text-slate-500">
+                        No exchange rates recorded yet.
+                      </td>
+                    </tr>
+                  ) : (
+                    data?.history.map((entry) => (
+                      <tr key={entry.id} className="odd:bg-white even:bg-slate-50">
+                        <td className="px-4 py-2 font-medium text-slate-900">{entry.currency_code}</td>
+                        <td className="px-4 py-2">{Number(entry.rate_per_usd)}</td>
+                        <td className="px-4 py-2">{formatDate(entry.effective_from)}</td>
+                        <td className="px-4 py-2 text-slate-600">{entry.notes || '—'}</td>
+                      </tr>
+                    ))
+                  )}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </div>
+
+        <div className="space-y-6">
+          <div className="rounded-xl border border-slate-200 bg-white">
+            <div className="border-b border-slate-200 px-4 py-3">
+              <h2 className="text-base font-semibold text-slate-900">New rate</h2>
+              <p className="text-xs text-slate-500">
+                Units of the local currency per 1 USD. Quotes issued from the effective time on use it.
+              </p>
+            </div>
+            <div className="space-y-3 px-4 py-3">
+              <label className="block text-xs font-medium text-slate-600">
+                Currency
+                <select
+                  value={currency}
+                  onChange={(event) => setCurrency(event.target.value as DisplayCurrency)}
+                  className="mt-1 h-10 w-full rounded-md border border-slate-300 bg-white px-3 text-sm"
+                >
+                  {(data?.currencies ?? ['JMD', 'GYD', 'TTD', 'BBD', 'XCD']).map((code) => (
+                    <option key={code} value={code}>
+                      {code}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="block text-xs font-medium text-slate-600">
+                Rate per USD
+                <Input
+                  type="number"
+                  min="0"
+                  step="0.0001"
+                  value={rate}
+                  onChange={(event) => setRate(event.target.value)}
+                  className="mt-1"
+                />
+              </label>
+              <label className="block text-xs font-medium text-slate-600">
+                Effective from
+                <Input
+                  type="datetime-local"
+                  value={effectiveFrom}
+                  onChange={(event) => setEffectiveFrom(event.target.value)}
+                  className="mt-1"
+                />
+              </label>
+              <label className="block text-xs font-medium text-slate-600">
+                Notes
+                <Input value={notes} onChange={(event) => setNotes(event.target.value)} className="mt-1" />
+              </label>
+              <Button onClick={handleSaveRate} disabled={saving || !rate} className="w-full gap-2">
+                <Save className="h-4 w-4" />
+                Save rate
+              </Button>
+            </div>
+          </div>
+
+          <div className="rounded-xl border border-slate-200 bg-white">
+            <div className="border-b border-slate-200 px-4 py-3">
+              <h2 className="text-base font-semibold text-slate-900">Destination currency</h2>
+              <p className="text-xs text-slate-500">Currency shown next to the USD total by default.</p>
+            </div>
+            <div className="divide-y divide-slate-100">
+              {(data?.destinations ?? []).map((destination) => (
+                <div key={destination.id} className="flex items-center justify-between gap-3 px-4 py-2 text-sm">
+                  <span className="text-slate-700">{destination.country_name}</span>
+                  <select
+                    value={destination.local_currency ?? ''}
+                    onChange={(event) => handleDestinationCurrency(destination.id, event.target.value)}
+                    className="h-9 rounded-md border border-slate-300 bg-white px-2 text-sm"
+                    aria-label={`${destination.country_name} currency`}
+                  >
+                    <option value="">USD only</option>
+                    {(data?.currencies ?? []).map((code) => (
+                      <option key={code} value={code}>
+                        {code}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default AdminExchangeRates
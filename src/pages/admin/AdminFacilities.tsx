@@ -0,0 +1,522 @@
+import React, { useEffect, useState } from 'react'
+import { supabase } from '@/lib/supabase'
+import { logger } from '@/lib/logger'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { toast } from 'sonner'
+import { Loader2, Pencil, Plus, UserPlus, X } from 'lucide-react'
+
+type FacilityStaff = {
+  user_id: string
+  name: string | null
+  email: string | null
+  assigned_at: string
+}
+
+type Facility = {
+  id: number
+  code: string
+  name: string
+  mailbox_prefix: string
+  mailbox_next_number: number
+  address_line1: string
+  address_line2: string | null
+  city: string
+  state: string
+  postal_code: string
+  country: string
+  is_active: boolean
+  is_default: boolean
+  mailbox_count: number
+  held_package_count: number
+  unidentified_count: number
+  staff: FacilityStaff[]
+}
+
+type FacilityPackageSummary = {
+  facility_id: number
+  code: string
+  name: string
+  received: number
+  picked_up: number
+  held: number
+  unidentified_open: number
+}
+
+type FacilityForm = {
+  code: string
+  name: string
+  mailbox_prefix: string
+  address_line1: string
+  address_line2: string
+  city: string
+  state: string
+  postal_code: string
+  country: string
+  is_active: boolean
+  is_default: boolean
+}
+
+const emptyForm: FacilityForm = {
+  code: '',
+  name: '',
+  mailbox_prefix: '',
+  address_line1: '',
+  address_line2: '',
+  city: '',
+  state: '',
+  postal_code: '',
+  country: 'United States',
+  is_active: true,
+  is_default: false
+}
+
+const REPORT_PERIODS = [7, 30, 90]
+
+const invokeFunction = async <T,>(name: string, body: Record<string, unknown>) => {
+  const { data, error } = await supabase.functions.invoke<T>(name, { body })
+  if (error) {
+    const details = await error.context?.json?.().catch(() => null)
+    throw new Error(details?.error?.message || error.message)
+  }
+  return data as T
+}
+
+const AdminFacilities: React.FC = () => {
+  const [facilities, setFacilities] = useState<Facility[]>([])
+  const [canManage, setCanManage] = useState(false)
+  const [isLoading, setIsLoading] = useState(false)
+  const [editing, setEditing] = useState<Facility | 'new' | null>(null)
+  const [form, setForm] = useState<FacilityForm>(emptyForm)
+  const [isSaving, setIsSaving] = useState(false)
+  const [staffEmails, setStaffEmails] = useState<Record<number, string>>({})
+  const [staffBusy, setStaffBusy] = useState<number | null>(null)
+  const [reportDays, setReportDays] = useState(30)
+  const [report, setReport] = useState<FacilityPackageSummary[] | null>(null)
+
+  useEffect(() => {
+    void loadFacilities()
+  }, [])
+
+  useEffect(() => {
+    void loadReport()
+  }, [reportDays])
+
+  const loadFacilities = async () => {
+    try {
+      setIsLoading(true)
+      const data = await invokeFunction<{ facilities: Facility[]; can_manage: boolean }>('admin-facilities', {
+        action: 'list'
+      })
+      setFacilities(data.facilities)
+      setCanManage(data.can_manage)
+    } catch (err) {
+      logger.error('Error loading facilities', err, { component: 'AdminFacilities', action: 'loadFacilities' })
+      toast.error(err instanceof Error ? err.message : 'Unable to load facilities.')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const loadReport = async () => {
+    try {
+      const end = new Date()
+      const start = new Date(end.getTime() - reportDays * 24 * 60 * 60 * 1000)
+      const data = await invokeFunction<{ data: unknown }>('admin-reports', {
+        report_type: 'facility_packages',
+        date_range: { start: start.toISOString().split('T')[0], end: end.toISOString() }
+      })
+      // Cached reports come back as the stored JSON string
+      const payload = typeof data?.data === 'string' ? JSON.parse(data.data) : data?.data
+      setReport((payload as { facilities: FacilityPackageSummary[] } | undefined)?.facilities ?? [])
+    } catch (err) {
+      logger.error('Error loading facility report', err, { component: 'AdminFacilities', action: 'loadReport' })
+      toast.error(err instanceof Error ? err.message : 'Unable to load the facility report.')
+    }
+  }
+
+  const openEditor = (facility: Facility | 'new') => {
+    setEditing(facility)
+    setForm(
+      facility === 'new'
+        ? emptyForm
+        : {
+            code: facility.code,
+            name: facility.name,
+            mailbox_prefix: facility.mailbox_prefix,
+            address_line1: facility.address_line1,
+            address_line2: facility.address_line2 ?? '',
+            city: facility.city,
+            state: facility.state,
+            postal_code: facility.postal_code,
+            country: facility.country,
+            is_active: facility.is_active,
+            is_default: facility.is_default
+          }
+    )
+  }
+
+  const handleSave = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+    if (!editing) return
+
+    try {
+      setIsSaving(true)
+      await invokeFunction<{ facility: Facility }>('admin-facilities', {
+        action: 'save',
+        ...(editing === 'new' ? {} : { facility_id: editing.id }),
+        facility: form
+      })
+      toast.success(editing === 'new' ? `${form.name} added.` : `${form.name} updated.`)
+      setEditing(null)
+      void loadFacilities()
+    } catch (err) {
+      logger.error('Error saving facility', err, { component: 'AdminFacilities', action: 'handleSave' })
+      toast.error(err instanceof Error ? err.message : 'Unable to save the facility.')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleAssignStaff = async (event: React.FormEvent<HTMLFormElement>, facility: Facility) => {
+    event.preventDefault()
+    const email = (staffEmails[facility.id] ?? '').trim()
+    if (!email) return
+
+    try {
+      setStaffBusy(facility.id)
+      const data = await invokeFunction<{ message: string }>('admin-facilities', {
+        action: 'assign_staff',
+        facility_id: facility.id,
+        email
+      })
+      toast.success(data.message)
+      setStaffEmails({ ...staffEmails, [facility.id]: '' })
+      void loadFacilities()
+    } catch (err) {
+      logger.error('Error assigning facility staff', err, { component: 'AdminFacilities', action: 'handleAssignStaff' })
+      toast.error(err instanceof Error ? err.message : 'Unable to assign staff.')
+    } finally {
+      setStaffBusy(null)
+    }
+  }
+
+  const handleRemoveStaff = async (facility: Facility, member: FacilityStaff) => {
+    try {
+      setStaffBusy(facility.id)
+      const data = await invokeFunction<{ message: string }>('admin-facilities', {
+        action: 'remove_staff',
+        facility_id: facility.id,
+        user_id: member.user_id
+      })
+      toast.success(data.message)
+      void loadFacilities()
+    } catch (err) {
+      logger.error('Error removing facility staff', err, { component: 'AdminFacilities', action: 'handleRemoveStaff' })
+      toast.error(err instanceof Error ? err.message : 'Unable to remove staff.')
+    } finally {
+      setStaffBusy(null)
+    }
+  }
+
+  const setField = (field: keyof FacilityForm, value: string | boolean) => setForm({ ...form, [field]: value })
+
+  return (
+    <div className="p-6 lg:p-8 space-y-6">
+      <div className="flex flex-col gap-2 md:flex-row md:items-end md:justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-slate-900">Facilities</h1>
+          <p className="text-sm text-slate-600">
+            Warehouses that receive and hold mailbox packages. Staff assigned to a facility only see its packages;
+            staff with no assignment work across all of them.
+          </p>
+        </div>
+        {canManage && (
+          <Button variant="outline" size="sm" onClick={() => openEditor('new')}>
+            <Plus className="mr-2 h-4 w-4" />
+            Add facility
+          </Button>
+        )}
+      </div>
+
+      {isLoading && facilities.length === 0 ? (
+        <p className="text-sm text-slate-500">Loading…</p>
+      ) : (
+        <div className="grid gap-4 lg:grid-cols-2 max-w-5xl">
+          {facilities.map((facility) => (
+            <Card key={facility.id}>
+              <CardHeader className="space-y-2">
+                <div className="flex items-start justify-between gap-2">
+                  <div>
+                    <CardTitle className="text-lg">{facility.name}</CardTitle>
+                    <p className="text-xs text-slate-500">
+                      {facility.code} · mailboxes {facility.mailbox_prefix}
+                      {facility.mailbox_next_number} next
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    {facility.is_default && <Badge>Default</Badge>}
+                    {!facility.is_active && <Badge variant="outline">Inactive</Badge>}
+                    {canManage && (
+                      <Button type="button" size="sm" variant="ghost" onClick={() => openEditor(facility)}>
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+                </div>
+                <p className="text-sm text-slate-600">
+                  {facility.address_line1}
+                  {facility.address_line2 && `, ${facility.address_line2}`}, {facility.city}, {facility.state}{' '}
+                  {facility.postal_code}
+                </p>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="grid grid-cols-3 gap-2 text-center">
+                  {[
+                    { label: 'Mailboxes', value: facility.mailbox_count },
+                    { label: 'Held packages', value: facility.held_package_count },
+                    { label: 'Unidentified', value: facility.unidentified_count }
+                  ].map((item) => (
+                    <div key={item.label} className="rounded-md border border-slate-200 py-2">
+                      <p className="text-lg font-semibold text-slate-900">{item.value}</p>
+                      <p className="text-xs text-slate-500">{item.label}</p>
+                    </div>
+                  ))}
+                </div>
+
+                <div className="space-y-2">
+                  <p className="text-xs font-medium uppercase text-slate-500">Staff</p>
+                  {facility.staff.length === 0 ? (
+                    <p className="text-sm text-slate-500">No staff assigned.</p>
+                  ) : (
+                    <ul className="space-y-1 text-sm">
+                      {facility.staff.map((member) => (
+                        <li key={member.user_id} className="flex items-center justify-between gap-2">
+                          <span>
+                            {member.name || member.email || member.user_id}
+                            {member.name && member.email && (
+                              <span className="ml-2 text-xs text-slate-400">{member.email}</span>
+                            )}
+                          </span>
+                          {canManage && (
+                            <Button
+                              type="button"
+                              size="sm"
+                              variant="ghost"
+                              disabled={staffBusy === facility.id}
+                              onClick={() => void handleRemoveStaff(facility, member)}
+                            >
+                              <X className="h-4 w-4" />
+                            </Button>
+                          )}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                  {canManage && (
+                    <form className="flex gap-2" onSubmit={(event) => void handleAssignStaff(event, facility)}>
+                      <Input
+                        type="email"
+                        value={staffEmails[facility.id] ?? ''}
+                        onChange={(event) => setStaffEmails({ ...staffEmails, [facility.id]: event.target.value })}
+                        placeholder="Staff email"
+                        autoComplete="off"
+                      />
+                      <Button type="submit" size="sm" variant="outline" disabled={staffBusy === facility.id}>
+                        <UserPlus className="mr-2 h-4 w-4" />
+                        Assign
+                      </Button>
+                    </form>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      <Card className="max-w-5xl">
+        <CardHeader className="flex flex-row items-center justify-between gap-2">
+          <CardTitle>Packages by facility</CardTitle>
+          <div className="flex gap-2">
+            {REPORT_PERIODS.map((days) => (
+              <Button
+                key={days}
+                type="button"
+                size="sm"
+                variant={reportDays === days ? 'default' : 'outline'}
+                onClick={() => setReportDays(days)}
+              >
+                {days} days
+              </Button>
+            ))}
+          </div>
+        </CardHeader>
+        <CardContent>
+          {report === null ? (
+            <p className="text-sm text-slate-500">Loading…</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-slate-200 text-left text-xs uppercase text-slate-500">
+                  <th className="py-2">Facility</th>
+                  <th className="py-2 text-right">Received</th>
+                  <th className="py-2 text-right">Picked up</th>
+                  <th className="py-2 text-right">Held now</th>
+                  <th className="py-2 text-right">Unidentified now</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.map((row) => (
+                  <tr key={row.facility_id} className="border-b border-slate-100">
+                    <td className="py-2">
+                      {row.name}
+                      <span className="ml-2 text-xs text-slate-400">{row.code}</span>
+                    </td>
+                    <td className="py-2 text-right">{row.received}</td>
+                    <td className="py-2 text-right">{row.picked_up}</td>
+                    <td className="py-2 text-right">{row.held}</td>
+                    <td className="py-2 text-right">{row.unidentified_open}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+          <p className="mt-2 text-xs text-slate-400">
+            Received and picked up cover packages received in the period; held and unidentified are current.
+          </p>
+        </CardContent>
+      </Card>
+
+      <Dialog open={editing !== null} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editing === 'new' ? 'Add a facility' : `Edit ${form.name}`}</DialogTitle>
+            <DialogDescription>
+              Customers at this facility get mailbox numbers starting with its prefix. The prefix cannot change once
+              mailboxes have been issued.
+            </DialogDescription>
+          </DialogHeader>
+          <form className="space-y-4" onSubmit={handleSave}>
+            <div className="grid gap-4 md:grid-cols-3">
+              <div className="space-y-1 md:col-span-2">
+                <Label htmlFor="facilityName">Name</Label>
+                <Input
+                  id="facilityName"
+                  value={form.name}
+                  onChange={(event) => setField('name', event.target.value)}
+                  required
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="facilityCode">Code</Label>
+                <Input
+                  id="facilityCode"
+                  value={form.code}
+                  onChange={(event) => setField('code', event.target.value.toUpperCase())}
+                  className="uppercase"
+                  required
+                />
+              </div>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="facilityPrefix">Mailbox prefix</Label>
+              <Input
+                id="facilityPrefix"
+                value={form.mailbox_prefix}
+                onChange={(event) => setField('mailbox_prefix', event.target.value.toUpperCase())}
+                placeholder="2-5 letters"
+                maxLength={5}
+                className="uppercase"
+                required
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="facilityAddress1">Street address</Label>
+              <Input
+                id="facilityAddress1"
+                value={form.address_line1}
+                onChange={(event) => setField('address_line1', event.target.value)}
+                required
+              />
+              <Input
+                value={form.address_line2}
+                onChange={(event) => setField('address_line2', event.target.value)}
+                placeholder="Unit, building (optional)"
+              />
+            </div>
+            <div className="grid gap-4 md:grid-cols-3">
+              <div className="space-y-1">
+                <Label htmlFor="facilityCity">City</Label>
+                <Input
+                  id="facilityCity"
+                  value={form.city}
+                  onChange={(event) => setField('city', event.target.value)}
+                  required
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="facilityState">State</Label>
+                <Input
+                  id="facilityState"
+                  value={form.state}
+                  onChange={(event) => setField('state', event.target.value)}
+                  required
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="facilityPostalCode">Postal code</Label>
+                <Input
+                  id="facilityPostalCode"
+                  value={form.postal_code}
+                  onChange={(event) => setField('postal_code', event.target.value)}
+                  required
+                />
+              </div>
+            </div>
+            <div className="flex flex-wrap gap-6 text-sm">
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={form.is_active}
+                  onChange={(event) => setField('is_active', event.target.checked)}
+                />
+                Open to new mailboxes and transfers
+              </label>
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={form.is_default}
+                  onChange={(event) => setField('is_default', event.target.checked)}
+                />
+                Default for new signups
+              </label>
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setEditing(null)} disabled={isSaving}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSaving}>
+                {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Save facility
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
+
+export default AdminFacilities
@@ -0,0 +1,389 @@
+import React, { useEffect, useState } from 'react'
+import { supabase } from '@/lib/supabase'
+import { Invoice, InvoiceDocumentType, InvoiceStatus, TaxRule } from '@/lib/types'
+import { Input } from '@/components/ui/input'
+import { Button } from '@/components/ui/button'
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { toast } from 'sonner'
+import { BarChart3, Download, Eye, RefreshCw, Search, Send } from 'lucide-react'
+import VoidInvoiceDialog from '@/components/invoices/VoidInvoiceDialog'
+import CreditNoteDialog, { CreditLineInput } from '@/components/invoices/CreditNoteDialog'
+import TaxRulesPanel from '@/components/invoices/TaxRulesPanel'
+import RecordPaymentDialog from '@/components/invoices/RecordPaymentDialog'
+import AgedReceivablesReport from '@/components/invoices/AgedReceivablesReport'
+import {
+  INVOICE_STATUS_COLORS,
+  INVOICE_STATUS_LABELS,
+  formatMoney
+} from '@/components/invoices/invoice-labels'
+
+const STATUS_FILTERS: Array<InvoiceStatus | 'all'> = ['all', 'draft', 'sent', 'partially_paid', 'paid', 'void']
+
+const formatDate = (value: string | null | undefined) => {
+  if (!value) return '—'
+  return new Date(value).toLocaleDateString('en-US', { dateStyle: 'medium' })
+}
+
+const AdminInvoices: React.FC = () => {
+  const [invoices, setInvoices] = useState<Invoice[]>([])
+  const [taxRules, setTaxRules] = useState<TaxRule[]>([])
+  const [loading, setLoading] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [statusFilter, setStatusFilter] = useState<InvoiceStatus | 'all'>('all')
+  const [typeFilter, setTypeFilter] = useState<InvoiceDocumentType | 'all'>('all')
+  const [search, setSearch] = useState('')
+  const [preview, setPreview] = useState<{ title: string; html: string } | null>(null)
+  const [voidTarget, setVoidTarget] = useState<Invoice | null>(null)
+  const [paymentTarget, setPaymentTarget] = useState<Invoice | null>(null)
+  const [showAging, setShowAging] = useState(false)
+  const [creditTarget, setCreditTarget] = useState<{ invoice: Invoice; creditable: number } | null>(null)
+
+  useEffect(() => {
+    loadInvoices()
+  }, [statusFilter, typeFilter])
+
+  useEffect(() => {
+    loadTaxRules()
+  }, [])
+
+  const invokeInvoices = async <T,>(body: Record<string, unknown>) => {
+    const { data, error } = await supabase.functions.invoke<T>('admin-invoices', { body })
+    if (error) throw error
+    return data as T
+  }
+
+  const loadInvoices = async () => {
+    try {
+      setLoading(true)
+      setError(null)
+      const data = await invokeInvoices<{ invoices: Invoice[] }>({
+        action: 'list',
+        status: statusFilter === 'all' ? undefined : statusFilter,
+        document_type: typeFilter === 'all' ? undefined : typeFilter,
+        search: search.trim() || undefined
+      })
+      setInvoices(data.invoices ?? [])
+    } catch (err) {
+      console.error('Failed to load invoices:', err)
+      const message = err instanceof Error ? err.message : 'Unable to load invoices.'
+      setError(message)
+      toast.error(message)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const loadTaxRules = async () => {
+    try {
+      const data = await invokeInvoices<{ tax_rules: TaxRule[] }>({ action: 'tax_rules' })
+      setTaxRules(data.tax_rules ?? [])
+    } catch (err) {
+      console.error('Failed to load tax rules:', err)
+    }
+  }
+
+  const runAction = async (label: string, body: Record<string, unknown>) => {
+    try {
+      setSaving(true)
+      await invokeInvoices(body)
+      toast.success(label)
+      await loadInvoices()
+      return true
+    } catch (err) {
+      console.error(`Invoice action ${body.action} failed:`, err)
+      toast.error(err instanceof Error ? err.message : 'Unable to update invoice.')
+      return false
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleView = async (invoice: Invoice) => {
+    try {
+      const data = await invokeInvoices<{ html: string }>({ action: 'document', invoice_id: invoice.id, format: 'html' })
+      setPreview({ title: invoice.invoice_number ?? `Draft #${invoice.id}`, html: data.html })
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Unable to load document.')
+    }
+  }
+
+  const handleDownload = async (invoice: Invoice) => {
+    try {
+      const data = await invokeInvoices<{ filename: string; pdf_base64: string }>({
+        action: 'document',
+        invoice_id: invoice.id,
+        format: 'pdf'
+      })
+      const bytes = Uint8Array.from(atob(data.pdf_base64), (char) => char.charCodeAt(0))
+      const url = URL.createObjectURL(new Blob([bytes], { type: 'application/pdf' }))
+      const a = document.createElement('a')
+      a.href = url
+      a.download = data.filename
+      document.body.appendChild(a)
+      a.click()
+      document.body.removeChild(a)
+      URL.revokeObjectURL(url)
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Unable to download PDF.')
+    }
+  }
+
+  const openCreditNote = async (invoice: Invoice) => {
+    try {
+      const data = await invokeInvoices<{ creditable_amount: number }>({ action: 'get', invoice_id: invoice.id })
+      setCreditTarget({ invoice, creditable: data.creditable_amount })
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Unable to load invoice.')
+    }
+  }
+
+  const handleVoid = async (invoice: Invoice, reason: string) => {
+    if (await runAction(`${invoice.invoice_number ?? 'Draft'} voided`, { action: 'void', invoice_id: invoice.id, reason })) {
+      setVoidTarget(null)
+    }
+  }
+
+  const handleCreditNote = async (invoice: Invoice, reason: string, lines: CreditLineInput[] | null) => {
+    const saved = await runAction('Credit note issued', {
+      action: 'credit_note',
+      invoice_id: invoice.id,
+      reason,
+      line_items: lines ?? undefined
+    })
+    if (saved) setCreditTarget(null)
+  }
+
+  const handleSaveTaxRule = async (rule: Partial<TaxRule>) => {
+    try {
+      setSaving(true)
+      await invokeInvoices({ action: 'save_tax_rule', tax_rule: rule })
+      toast.success('Tax rule saved')
+      await loadTaxRules()
+      return true
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Unable to save tax rule.')
+      return false
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const originalNumber = (invoice: Invoice) =>
+    invoices.find((candidate) => candidate.id === invoice.original_invoice_id)?.invoice_number
+
+  return (
+    <div className="p-6">
+      <div className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
+        <div>
+          <h1 className="text-2xl font-semibold text-slate-900">Invoices</h1>
+          <p className="text-sm text-slate-600">
+            Numbers are assigned in sequence when an invoice is issued. Issued documents are voided, never deleted.
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant={showAging ? 'default' : 'outline'} onClick={() => setShowAging((value) => !value)} className="gap-2">
+            <BarChart3 className="h-4 w-4" />
+            Aging
+          </Button>
+          <Button variant="outline" onClick={loadInvoices} disabled={loading} className="gap-2">
+            <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+            Refresh
+          </Button>
+        </div>
+      </div>
+
+      {showAging && (
+        <div className="mt-6">
+          <AgedReceivablesReport />
+        </div>
+      )}
+
+      {error && (
+        <div className="mt-4 rounded-lg border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">
+          {error}
+        </div>
+      )}
+
+      <div className="mt-6 grid gap-6 lg:grid-cols-[1fr_320px]">
+        <div className="rounded-xl border border-slate-200 bg-white">
+          <div className="flex flex-wrap items-center gap-3 border-b border-slate-200 px-4 py-3">
+            <div className="flex flex-wrap gap-1">
+              {STATUS_FILTERS.map((status) => (
+                <Button
+                  key={status}
+                  size="sm"
+                  variant={statusFilter === status ? 'default' : 'outline'}
+                  onClick={() => setStatusFilter(status)}
+                >
+                  {status === 'all' ? 'All' : INVOICE_STATUS_LABELS[status]}
+                </Button>
+              ))}
+            </div>
+            <select
+              value={typeFilter}
+              onChange={(e) => setTypeFilter(e.target.value as InvoiceDocumentType | 'all')}
+              className="h-9 rounded-md border border-slate-300 bg-white px-2 text-sm"
+              aria-label="Document type"
+            >
+              <option value="all">Invoices &amp; credit notes</option>
+              <option value="invoice">Invoices</option>
+              <option value="credit_note">Credit notes</option>
+            </select>
+            <form
+              className="ml-auto flex items-center gap-2"
+              onSubmit={(e) => {
+                e.preventDefault()
+                loadInvoices()
+              }}
+            >
+              <Input
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                placeholder="INV-2025-000123"
+                className="h-9 w-48"
+              />
+              <Button type="submit" size="sm" variant="outline" aria-label="Search">
+                <Search className="h-4 w-4" />
+              </Button>
+            </form>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-slate-200 text-left text-sm">
+              <thead className="bg-slate-50">
+                <tr>
+                  <th className="px-4 py-3 font-medium text-slate-600">Number</th>
+                  <th className="px-4 py-3 font-medium text-slate-600">Customer</th>
+                  <th className="px-4 py-3 font-medium text-slate-600">Issued</th>
+                  <th className="px-4 py-3 font-medium text-slate-600">Due</th>
+                  <th className="px-4 py-3 font-medium text-slate-600 text-right">Total</th>
+                  <th className="px-4 py-3 font-medium text-slate-600">Status</th>
+                  <th className="px-4 py-3" />
+                </tr>
+              </thead>
+              <tbody>
+                {invoices.length === 0 ? (
+                  <tr>
+                    <td colSpan={7} className="px-4 py-8 text-center text-slate-500">
+                      {loading ? 'Loading invoices…' : 'No invoices match these filters.'}
+                    </td>
+                  </tr>
+                ) : (
+                  invoices.map((invoice) => {
+                    const isCredit = invoice.document_type === 'credit_note'
+                    return (
+                      <tr key={invoice.id} className="odd:bg-white even:bg-slate-50 align-top">
+                        <td className="px-4 py-2">
+                          <div className="font-medium text-slate-900">{invoice.invoice_number ?? `Draft #${invoice.id}`}</div>
+                          {isCredit && (
+                            <div className="text-xs text-slate-500">
+                              Credit for {originalNumber(invoice) ?? `invoice #${invoice.original_invoice_id}`}
+                            </div>
+                          )}
+                          {invoice.status === 'void' && invoice.void_reason && (
+                            <div className="text-xs text-red-600">Void: {invoice.void_reason}</div>
+                          )}
+                        </td>
+                        <td className="px-4 py-2">
+                          <div className="text-slate-900">{invoice.customer_name}</div>
+                          <div className="text-xs text-slate-500">{invoice.customer_email}</div>
+                        </td>
+                        <td className="px-4 py-2">{formatDate(invoice.issued_at)}</td>
+                        <td className="px-4 py-2">{isCredit ? '—' : formatDate(invoice.due_date)}</td>
+                        <td className="px-4 py-2 text-right font-medium">
+                          {formatMoney(isCredit ? -Number(invoice.total_amount) : Number(invoice.total_amount))}
+                          {Number(invoice.tax_amount) > 0 && (
+                            <div className="text-xs font-normal text-slate-500">incl. {formatMoney(Number(invoice.tax_amount))} tax</div>
+                          )}
+                          {invoice.status === 'partially_paid' && (
+                            <div className="text-xs font-normal text-orange-700">{formatMoney(Number(invoice.balance_due ?? 0))} due</div>
+                          )}
+                        </td>
+                        <td className="px-4 py-2">
+                          <span className={`rounded-full px-2 py-0.5 text-xs font-medium ${INVOICE_STATUS_COLORS[invoice.status]}`}>
+                            {isCredit ? 'Credit note' : INVOICE_STATUS_LABELS[invoice.status]}
+                            {isCredit && invoice.status === 'void' ? ' (void)' : ''}
+                          </span>
+                        </td>
+                        <td className="px-4 py-2">
+                          <div className="flex flex-wrap justify-end gap-1">
+                            <Button size="sm" variant="ghost" onClick={() => handleView(invoice)} aria-label="View">
+                              <Eye className="h-4 w-4" />
+                            </Button>
+                            <Button size="sm" variant="ghost" onClick={() => handleDownload(invoice)} aria-label="Download PDF">
+                              <Download className="h-4 w-4" />
+                            </Button>
+                            {invoice.status === 'draft' && (
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                disabled={saving}
+                                onClick={() => runAction('Invoice issued', { action: 'issue', invoice_id: invoice.id })}
+                                className="gap-1"
+                              >
+                                <Send className="h-3 w-3" /> Issue
+                              </Button>
+                            )}
+                            {!isCredit && ['sent', 'partially_paid'].includes(invoice.status) && (
+                              <Button size="sm" variant="outline" disabled={saving} onClick={() => setPaymentTarget(invoice)}>
+                                Payment
+                              </Button>
+                            )}
+                            {!isCredit && ['sent', 'partially_paid', 'paid'].includes(invoice.status) && (
+                              <Button size="sm" variant="outline" disabled={saving} onClick={() => openCreditNote(invoice)}>
+                                Credit
+                              </Button>
+                            )}
+                            {['draft', 'sent'].includes(invoice.status) && (
+                              <Button size="sm" variant="outline" disabled={saving} onClick={() => setVoidTarget(invoice)}>
+                                Void
+                              </Button>
+                            )}
+                          </div>
+                        </td>
+                      </tr>
+                    )
+                  })
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+
+        <TaxRulesPanel rules={taxRules} saving={saving} onSave={handleSaveTaxRule} />
+      </div>
+
+      <Dialog open={Boolean(preview)} onOpenChange={(open) => !open && setPreview(null)}>
+        <DialogContent className="max-w-4xl">
+          <DialogHeader>
+            <DialogTitle>{preview?.title}</DialogTitle>
+          </DialogHeader>
+          {preview && (
+            <iframe title={preview.title} srcDoc={preview.html} sandbox="" className="h-[70vh] w-full rounded-lg border" />
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <VoidInvoiceDialog
+        invoice={voidTarget}
+        saving={saving}
+        onOpenChange={(open) => !open && setVoidTarget(null)}
+        onConfirm={handleVoid}
+      />
+      <RecordPaymentDialog
+        invoice={paymentTarget}
+        onOpenChange={(open) => !open && setPaymentTarget(null)}
+        onRecorded={loadInvoices}
+      />
+      <CreditNoteDialog
+        invoice={creditTarget?.invoice ?? null}
+        creditableAmount={creditTarget?.creditable ?? 0}
+        saving={saving}
+        onOpenChange={(open) => !open && setCreditTarget(null)}
+        onConfirm={handleCreditNote}
+      />
+    </div>
+  )
+}
+
+export default AdminInvoices
@@ -32,6 +32,20 @@ const AdminMailboxes: React.FC = () => {
   const [error, setError] = useState<string | null>(null)
   const [total, setTotal] = useState(0)
   const [page, setPage] = useState(0)
+  const [facilities, setFacilities] = useState<{ id: number; name: string }[]>([])
+  const [facilityId, setFacilityId] = useState('')
+
+  useEffect(() => {
+    const loadFacilities = async () => {
+      const { data, error } = await supabase.from('facilities').select('id,name').order('id')
+      if (error) {
+        console.error('Failed to load facilities:', error)
+        return
+      }
+      setFacilities(data || [])
+    }
+    loadFacilities()
+  }, [])
 
   useEffect(() => {
     const debounce = setTimeout(() => {
@@ -44,7 +58,7 @@ const AdminMailboxes: React.FC = () => {
 
   useEffect(() => {
     loadMailboxes()
-  }, [searchTerm, page])
+  }, [searchTerm, page, facilityId])
 
   const loadMailboxes = async () => {
     try {
@@ -57,6 +71,7 @@ const AdminMailboxes: React.FC = () => {
       }>('admin-mailboxes', {
         body: {
           search: searchTerm,
+          ...(facilityId ? { facility_id: Number(facilityId) } : {}),
           limit: PAGE_SIZE,
           offset: page * PAGE_SIZE
         }
@@ -160,6 +175,24 @@ const AdminMailboxes: React.FC = () => {
               aria-label="Search virtual mailboxes"
             />
           </div>
+          {facilities.length > 1 && (
+            <select
+              value={facilityId}
+              onChange={(event) => {
+                setFacilityId(event.target.value)
+                setPage(0)
+              }}
+              className="h-10 rounded-md border border-slate-200 bg-white px-3 text-sm"
+              aria-label="Filter by facility"
+            >
+              <option value="">All facilities</option>
+              {facilities.map((facility) => (
+                <option key={facility.id} value={facility.id}>
+                  {facility.name}
+                </option>
+              ))}
+            </select>
+          )}
           <Button variant="outline" onClick={loadMailboxes} disabled={loading} className="gap-2">
             <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
             Refresh
@@ -0,0 +1,422 @@
+import React, { useState } from 'react'
+import { supabase } from '@/lib/supabase'
+import { logger } from '@/lib/logger'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { toast } from 'sonner'
+import { CheckCircle, Contact, KeyRound, Mail, MessageSquare, Printer, Search } from 'lucide-react'
+import { SignaturePad } from '@/components/SignaturePad'
+
+type PickupPackage = {
+  id: string
+  tracking_number: string
+  carrier: string | null
+  weight: number | null
+  label_code: string | null
+  status: string
+  created_at: string
+}
+
+type LookupResult = {
+  mailbox: { id: number; mailbox_number: string; full_name: string | null }
+  code_channels: { sms: string | null; email: string | null }
+  packages: PickupPackage[]
+}
+
+type ReleaseResult = {
+  release: {
+    id: string
+    receipt_number: string
+    released_at: string
+    recipient_name: string
+    verification_method: 'otp' | 'id_check'
+    released_by: string
+  }
+  mailbox: { mailbox_number: string; full_name: string | null }
+  packages: PickupPackage[]
+  receipt_sent: boolean
+}
+
+type VerificationMethod = 'otp' | 'id_check'
+
+const ID_TYPES = [
+  { value: 'drivers_license', label: "Driver's license" },
+  { value: 'passport', label: 'Passport' },
+  { value: 'state_id', label: 'State ID' },
+  { value: 'national_id', label: 'National ID' }
+]
+
+const invokePickup = async <T,>(body: Record<string, unknown>) => {
+  const { data, error } = await supabase.functions.invoke<T>('admin-package-pickup', { body })
+  if (error) {
+    // Surface the function's own message, e.g. a wrong or expired code
+    const details = await error.context?.json?.().catch(() => null)
+    throw new Error(details?.error?.message || error.message)
+  }
+  return data as T
+}
+
+const AdminPackagePickup: React.FC = () => {
+  const [mailboxNumber, setMailboxNumber] = useState('')
+  const [lookup, setLookup] = useState<LookupResult | null>(null)
+  const [selected, setSelected] = useState<Set<string>>(new Set())
+  const [method, setMethod] = useState<VerificationMethod>('otp')
+  const [codeSentTo, setCodeSentTo] = useState<string | null>(null)
+  const [code, setCode] = useState('')
+  const [idType, setIdType] = useState(ID_TYPES[0].value)
+  const [idLast4, setIdLast4] = useState('')
+  const [recipientName, setRecipientName] = useState('')
+  const [signature, setSignature] = useState<string | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [isSending, setIsSending] = useState(false)
+  const [isReleasing, setIsReleasing] = useState(false)
+  const [receipt, setReceipt] = useState<ReleaseResult | null>(null)
+
+  const resetVerification = () => {
+    setMethod('otp')
+    setCodeSentTo(null)
+    setCode('')
+    setIdLast4('')
+    setSignature(null)
+  }
+
+  const handleLookup = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+    if (!mailboxNumber.trim()) return
+
+    try {
+      setIsLoading(true)
+      setLookup(null)
+      setReceipt(null)
+      resetVerification()
+      const data = await invokePickup<LookupResult>({ action: 'lookup', mailbox_number: mailboxNumber })
+      setLookup(data)
+      setSelected(new Set(data.packages.map((pkg) => pkg.id)))
+      setRecipientName(data.mailbox.full_name ?? '')
+    } catch (err) {
+      setLookup(null)
+      toast.error(err instanceof Error ? err.message : 'Unable to look up mailbox.')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleSendCode = async (channel: 'sms' | 'email') => {
+    if (!lookup) return
+    try {
+      setIsSending(true)
+      const data = await invokePickup<{ destination: string }>({
+        action: 'send_code',
+        mailbox_id: lookup.mailbox.id,
+        channel
+      })
+      setCodeSentTo(data.destination)
+      toast.success(`Pickup code sent to ${data.destination}.`)
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Unable to send pickup code.')
+    } finally {
+      setIsSending(false)
+    }
+  }
+
+  const togglePackage = (id: string) => {
+    setSelected((prev) => {
+      const next = new Set(prev)
+      if (next.has(id)) {
+        next.delete(id)
+      } else {
+        next.add(id)
+      }
+      return next
+    })
+  }
+
+  const handleRelease = async () => {
+    if (!lookup) return
+    if (selected.size === 0) {
+      toast.error('Select at least one package to release.')
+      return
+    }
+    if (!signature) {
+      toast.error('Capture the recipient signature first.')
+      return
+    }
+
+    try {
+      setIsReleasing(true)
+      const data = await invokePickup<ReleaseResult>({
+        action: 'release',
+        mailbox_id: lookup.mailbox.id,
+        package_ids: Array.from(selected),
+        recipient_name: recipientName,
+        verification: method === 'otp'
+          ? { method, code }
+          : { method, id_type: idType, id_last4: idLast4 },
+        signature
+      })
+      setReceipt(data)
+      setLookup(null)
+      setMailboxNumber('')
+      resetVerification()
+      toast.success(`Released ${data.packages.length} package${data.packages.length === 1 ? '' : 's'}.`)
+      if (!data.receipt_sent) {
+        toast.warning('The emailed receipt could not be sent. Print a copy for the customer.')
+      }
+    } catch (err) {
+      logger.error('Package release failed', err, { component: 'AdminPackagePickup', action: 'release' })
+      toast.error(err instanceof Error ? err.message : 'Unable to release packages.')
+    } finally {
+      setIsReleasing(false)
+    }
+  }
+
+  const verificationReady = method === 'otp' ? /^\d{6}$/.test(code.trim()) : idLast4.trim().length === 4
+  const canRelease = Boolean(lookup) && selected.size > 0 && verificationReady &&
+    recipientName.trim().length >= 2 && Boolean(signature) && !isReleasing
+
+  return (
+    <div className="p-6 lg:p-8 space-y-6">
+      <div className="flex flex-col gap-2 print:hidden">
+        <h1 className="text-2xl font-bold text-slate-900">Counter Pickup</h1>
+        <p className="text-sm text-slate-600">
+          Verify the person collecting, capture their signature and release mailbox packages.
+        </p>
+      </div>
+
+      <Card className="max-w-5xl print:hidden">
+        <CardContent className="pt-6">
+          <form className="flex items-end gap-2" onSubmit={handleLookup}>
+            <div className="flex-1 space-y-2">
+              <Label htmlFor="pickupMailbox">Mailbox Number</Label>
+              <Input
+                id="pickupMailbox"
+                value={mailboxNumber}
+                onChange={(event) => setMailboxNumber(event.target.value.toUpperCase())}
+                placeholder="Scan or enter mailbox number"
+                autoComplete="off"
+                className="uppercase"
+              />
+            </div>
+            <Button type="submit" disabled={isLoading || !mailboxNumber.trim()}>
+              <Search className="mr-2 h-4 w-4" />
+              {isLoading ? 'Looking up…' : 'Look up'}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      {lookup && (
+        <Card className="max-w-5xl print:hidden">
+          <CardHeader>
+            <CardTitle>
+              {lookup.mailbox.mailbox_number} · {lookup.mailbox.full_name || 'Customer'}
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            {lookup.packages.length === 0 ? (
+              <p className="text-sm text-slate-500">No packages are waiting for pickup in this mailbox.</p>
+            ) : (
+              <>
+                <div className="space-y-2">
+                  <h3 className="text-sm font-semibold text-slate-700">
+                    Ready for pickup ({selected.size} of {lookup.packages.length} selected)
+                  </h3>
+                  <div className="divide-y divide-slate-100 rounded-md border border-slate-200">
+                    {lookup.packages.map((pkg) => (
+                      <label key={pkg.id} className="flex cursor-pointer items-center gap-3 px-3 py-2 text-sm">
+                        <input
+                          type="checkbox"
+                          checked={selected.has(pkg.id)}
+                          onChange={() => togglePackage(pkg.id)}
+                          disabled={isReleasing}
+                        />
+                        <span className="font-mono">{pkg.label_code}</span>
+                        <span className="font-mono text-slate-600">{pkg.tracking_number}</span>
+                        {pkg.carrier && <Badge variant="outline">{pkg.carrier}</Badge>}
+                        <span className="ml-auto text-xs text-slate-500">
+                          Received {new Date(pkg.created_at).toLocaleDateString()}
+                        </span>
+                      </label>
+                    ))}
+                  </div>
+                </div>
+
+                <div className="space-y-3 border-t border-slate-200 pt-5">
+                  <h3 className="text-sm font-semibold text-slate-700">Verify recipient</h3>
+                  <div className="flex gap-2">
+                    <Button
+                      type="button"
+                      variant={method === 'otp' ? 'default' : 'outline'}
+                      size="sm"
+                      onClick={() => setMethod('otp')}
+                    >
+                      <KeyRound className="mr-2 h-4 w-4" />
+                      Pickup code
+                    </Button>
+                    <Button
+                      type="button"
+                      variant={method === 'id_check' ? 'default' : 'outline'}
+                      size="sm"
+                      onClick={() => setMethod('id_check')}
+                    >
+                      <Contact className="mr-2 h-4 w-4" />
+                      ID check
+                    </Button>
+                  </div>
+
+                  {method === 'otp' ? (
+                    <div className="space-y-3">
+                      <div className="flex flex-wrap gap-2">
+                        <Button
+                          type="button"
+                          variant="outline"
+                          size="sm"
+                          onClick={() => void handleSendCode('sms')}
+                          disabled={isSending || !lookup.code_channels.sms}
+                        >
+                          <MessageSquare className="mr-2 h-4 w-4" />
+                          {lookup.code_channels.sms ? `Text ${lookup.code_channels.sms}` : 'No mobile on file'}
+                        </Button>
+                        <Button
+                          type="button"
+                          variant="outline"
+                          size="sm"
+                          onClick={() => void handleSendCode('email')}
+                          disabled={isSending || !lookup.code_channels.email}
+                        >
+                          <Mail className="mr-2 h-4 w-4" />
+                          {lookup.code_channels.email ? `Email ${lookup.code_channels.email}` : 'No email on file'}
+                        </Button>
+                      </div>
+                      {codeSentTo && (
+                        <p className="text-xs text-slate-500">
+                          Code sent to {codeSentTo}. Ask the customer to read it out.
+                        </p>
+                      )}
+                      <div className="max-w-xs space-y-1">
+                        <Label htmlFor="pickupCode">Six-digit code</Label>
+                        <Input
+                          id="pickupCode"
+                          value={code}
+                          onChange={(event) => setCode(event.target.value.replace(/\D/g, '').slice(0, 6))}
+                          inputMode="numeric"
+                          autoComplete="one-time-code"
+                          className="font-mono tracking-widest"
+                        />
+                      </div>
+                    </div>
+                  ) : (
+                    <div className="grid max-w-lg gap-4 sm:grid-cols-2">
+                      <div className="space-y-1">
+                        <Label htmlFor="pickupIdType">ID type</Label>
+                        <select
+                          id="pickupIdType"
+                          className="w-full rounded-md border border-slate-300 px-3 py-2 text-sm"
+                          value={idType}
+                          onChange={(event) => setIdType(event.target.value)}
+                        >
+                          {ID_TYPES.map((type) => (
+                            <option key={type.value} value={type.value}>
+                              {type.label}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                      <div className="space-y-1">
+                        <Label htmlFor="pickupIdLast4">Last 4 of ID number</Label>
+                        <Input
+                          id="pickupIdLast4"
+                          value={idLast4}
+                          onChange={(event) => setIdLast4(event.target.value.replace(/[^a-z0-9]/gi, '').slice(0, 4).toUpperCase())}
+                          className="font-mono"
+                        />
+                      </div>
+                      <p className="text-xs text-slate-500 sm:col-span-2">
+                        Check that the name and photo match the person at the counter. Only the ID type and last four
+                        characters are recorded.
+                      </p>
+                    </div>
+                  )}
+                </div>
+
+                <div className="space-y-3 border-t border-slate-200 pt-5">
+                  <div className="max-w-md space-y-1">
+                    <Label htmlFor="pickupRecipient">Collected by</Label>
+                    <Input
+                      id="pickupRecipient"
+                      value={recipientName}
+                      onChange={(event) => setRecipientName(event.target.value)}
+                      placeholder="Full name of the person collecting"
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label>Signature</Label>
+                    <SignaturePad onChange={setSignature} disabled={isReleasing} />
+                  </div>
+                </div>
+
+                <div className="flex justify-end">
+                  <Button type="button" onClick={() => void handleRelease()} disabled={!canRelease}>
+                    <CheckCircle className="mr-2 h-4 w-4" />
+                    {isReleasing ? 'Releasing…' : `Release ${selected.size} package${selected.size === 1 ? '' : 's'}`}
+                  </Button>
+                </div>
+              </>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {receipt && (
+        <Card className="max-w-3xl">
+          <CardHeader className="flex flex-row items-center justify-between">
+            <CardTitle>Pickup Receipt {receipt.release.receipt_number}</CardTitle>
+            <Button type="button" variant="outline" size="sm" onClick={() => window.print()} className="print:hidden">
+              <Printer className="mr-2 h-4 w-4" />
+              Print
+            </Button>
+          </CardHeader>
+          <CardContent className="space-y-4 text-sm">
+            <dl className="grid grid-cols-2 gap-2">
+              <dt className="text-slate-500">Mailbox</dt>
+              <dd>
+                {receipt.mailbox.mailbox_number} · {receipt.mailbox.full_name || 'Customer'}
+              </dd>
+              <dt className="text-slate-500">Collected by</dt>
+              <dd>{receipt.release.recipient_name}</dd>
+              <dt className="text-slate-500">Verified by</dt>
+              <dd>{receipt.release.verification_method === 'otp' ? 'One-time pickup code' : 'Photo ID check'}</dd>
+              <dt className="text-slate-500">Released</dt>
+              <dd>{new Date(receipt.release.released_at).toLocaleString()}</dd>
+              <dt className="text-slate-500">Released by</dt>
+              <dd>{receipt.release.released_by}</dd>
+            </dl>
+            <table className="w-full">
+              <thead>
+                <tr className="border-b border-slate-200 text-left text-xs uppercase text-slate-500">
+                  <th className="py-2">Label</th>
+                  <th className="py-2">Tracking</th>
+                  <th className="py-2">Carrier</th>
+                </tr>
+              </thead>
+              <tbody>
+                {receipt.packages.map((pkg) => (
+                  <tr key={pkg.id} className="border-b border-slate-100">
+                    <td className="py-2 font-mono">{pkg.label_code}</td>
+                    <td className="py-2 font-mono">{pkg.tracking_number}</td>
+                    <td className="py-2">{pkg.carrier || '—'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  )
+}
+
+export default AdminPackagePickup
@@ -1,4 +1,5 @@
 import React, { useEffect, useMemo, useRef, useState } from 'react'
+import { Link } from 'react-router-dom'
 import { supabase } from '@/lib/supabase'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Input } from '@/components/ui/input'
@@ -7,8 +8,11 @@ import { Textarea } from '@/components/ui/textarea'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
 import { toast } from 'sonner'
-import { CheckCircle, ScanBarcode, Search, UserCheck, UserX, X, Camera, AlertTriangle } from 'lucide-react'
+import { CheckCircle, ScanBarcode, Search, UserCheck, UserX, X, Camera, AlertTriangle, HelpCircle, Zap } from 'lucide-react'
 import { BarcodeScanner } from '@/components/BarcodeScanner'
+import { PackagePhotoCapture } from '@/components/PackagePhotoCapture'
+import AgingInventoryCard from '@/components/mailbox/AgingInventoryCard'
+import UnmatchedArrivalsCard from '@/components/mailbox/UnmatchedArrivalsCard'
 import {
   extractTrackingNumbers,
   type ParsedTrackingNumber,
@@ -20,10 +24,15 @@ type PackageDraft = {
   notes: string
   carrier: ParsedTrackingNumber['carrier']
   confidence: ParsedTrackingNumber['confidence']
+  reason: ParsedTrackingNumber['reason']
   source: 'keyboard' | 'camera' | 'label'
   rawInput?: string
+  /** JPEG data URLs taken at the station, uploaded with the batch */
+  photos: string[]
 }
 
+const MAX_PHOTOS_PER_PACKAGE = 6
+
 type CustomerInfo = {
   name: string
   email: string | null
@@ -40,6 +49,7 @@ const AdminPackageReceiving: React.FC = () => {
   const [isScannerOpen, setIsScannerOpen] = useState(false)
   const [labelInput, setLabelInput] = useState('')
   const [lastParsedLabel, setLastParsedLabel] = useState<ParsedTrackingNumber[]>([])
+  const [photoTarget, setPhotoTarget] = useState<string | null>(null)
 
   const scannerInputRef = useRef<HTMLInputElement | null>(null)
   const debounceTimer = useRef<number | undefined>(undefined)
@@ -69,7 +79,9 @@ const AdminPackageReceiving: React.FC = () => {
         }
 
         if (!data) {
-          setVerificationError('Mailbox not found. Double-check the number or search by customer name.')
+          setVerificationError(
+            'Mailbox not found. Double-check the number, or hold the package in the unidentified queue.'
+          )
         } else {
           setCustomerInfo({ name: data.full_name || 'Customer', email: data.email || null })
           setVerificationError(null)
@@ -134,8 +146,10 @@ const AdminPackageReceiving: React.FC = () => {
           notes: '',
           carrier: item.carrier,
           confidence: item.confidence,
+          reason: item.reason,
           source,
-          rawInput: item.raw
+          rawInput: item.raw,
+          photos: []
         }))
       ]
     })
@@ -197,6 +211,17 @@ const AdminPackageReceiving: React.FC = () => {
     })
   }
 
+  const updatePhotos = (trackingNumber: string, update: (photos: string[]) => string[]) => {
+    setPackages((prev) =>
+      prev.map((pkg) => (pkg.trackingNumber === trackingNumber ? { ...pkg, photos: update(pkg.photos) } : pkg))
+    )
+  }
+
+  const handlePhotoCaptured = (dataUrl: string) => {
+    if (!photoTarget) return
+    updatePhotos(photoTarget, (photos) => (photos.length >= MAX_PHOTOS_PER_PACKAGE ? photos : [...photos, dataUrl]))
+  }
+
   const handleRemovePackage = (index: number) => {
     setPackages((prev) => prev.filter((_, idx) => idx !== index))
   }
@@ -231,12 +256,15 @@ const AdminPackageReceiving: React.FC = () => {
       const { data, error } = await supabase.functions.invoke<{
         message: string
         tracking_numbers: string[]
+        packages: Array<{ pre_alert_match: 'matched' | 'unmatched' }>
+        photos_failed: number
       }>('admin-receive-package', {
         body: {
           mailboxNumber: mailboxNumber.trim().toUpperCase(),
           packages: packages.map((pkg) => ({
             trackingNumber: pkg.trackingNumber,
-            notes: pkg.notes || null
+            notes: pkg.notes || null,
+            photos: pkg.photos
           }))
         }
       })
@@ -246,6 +274,13 @@ const AdminPackageReceiving: React.FC = () => {
       }
 
       toast.success(data?.message || 'Packages recorded successfully.')
+      const unmatched = data?.packages?.filter((pkg) => pkg.pre_alert_match === 'unmatched').length ?? 0
+      if (unmatched > 0) {
+        toast.warning(`${unmatched} package${unmatched === 1 ? ' has' : 's have'} no pre-alert and ${unmatched === 1 ? 'was' : 'were'} flagged for follow-up.`)
+      }
+      if (data?.photos_failed) {
+        toast.warning(`${data.photos_failed} photo${data.photos_failed === 1 ? '' : 's'} could not be saved.`)
+      }
       setPackages([])
       setMailboxNumber('')
       setScannedTracking('')
@@ -268,11 +303,27 @@ const AdminPackageReceiving: React.FC = () => {
 
   return (
     <div className="p-6 lg:p-8 space-y-6">
-      <div className="flex flex-col gap-2">
-        <h1 className="text-2xl font-bold text-slate-900">Package Receiving</h1>
-        <p className="text-sm text-slate-600">
-          Batch scan incoming packages for a customer, record notes, and send one consolidated notification.
-        </p>
+      <div className="flex flex-col gap-2 md:flex-row md:items-end md:justify-between">
+        <div className="flex flex-col gap-2">
+          <h1 className="text-2xl font-bold text-slate-900">Package Receiving</h1>
+          <p className="text-sm text-slate-600">
+            Batch scan incoming packages for a customer, record notes, and send one consolidated notification.
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button asChild variant="outline" size="sm">
+            <Link to="/admin/unidentified-packages">
+              <HelpCircle className="mr-2 h-4 w-4" />
+              Unidentified queue
+            </Link>
+          </Button>
+          <Button asChild variant="outline" size="sm">
+            <Link to="/admin/package-receiving/station">
+              <Zap className="mr-2 h-4 w-4" />
+              Station mode
+            </Link>
+          </Button>
+        </div>
       </div>
 
       <Card className="max-w-5xl">
@@ -380,7 +431,7 @@ const AdminPackageReceiving: React.FC = () => {
                   <div className="flex items-center justify-between text-xs text-slate-500">
                     <div className="flex items-center gap-1">
                       <ScanBarcode className="h-3 w-3" />
-                      <span>UPS, FedEx, USPS, DHL, Amazon Logistics, GS1 SSCC supported</span>
+                      <span>UPS, FedEx, USPS, DHL, DHL eCommerce, Amazon Logistics, S10 international, GS1 SSCC supported</span>
                     </div>
                     <Button
                       type="button"
@@ -449,12 +500,49 @@ const AdminPackageReceiving: React.FC = () => {
                                     : 'Scanner/keyboard'}
                                 </Badge>
                                 {pkg.confidence === 'medium' && (
-                                  <Badge variant="outline" className="border-amber-300 bg-amber-50 text-amber-700 gap-1">
+                                  <Badge
+                                    variant="outline"
+                                    className="border-amber-300 bg-amber-50 text-amber-700 gap-1"
+                                    title={pkg.reason}
+                                  >
                                     <AlertTriangle className="h-3 w-3" />
                                     Review format
                                   </Badge>
                                 )}
                               </div>
+                              <div className="flex flex-wrap items-center gap-2">
+                                {pkg.photos.map((photo, photoIndex) => (
+                                  <div key={photoIndex} className="relative">
+                                    <img
+                                      src={photo}
+                                      alt={`Package ${pkg.trackingNumber} photo ${photoIndex + 1}`}
+                                      className="h-14 w-14 rounded-md border border-slate-200 object-cover"
+                                    />
+                                    <button
+                                      type="button"
+                                      onClick={() =>
+                                        updatePhotos(pkg.trackingNumber, (photos) => photos.filter((_, idx) => idx !== photoIndex))
+                                      }
+                                      className="absolute -right-1.5 -top-1.5 rounded-full bg-white p-0.5 text-rose-500 shadow"
+                                      disabled={isSubmitting}
+                                      aria-label="Remove photo"
+                                    >
+                                      <X className="h-3 w-3" />
+                                    </button>
+                                  </div>
+                                ))}
+                                <Button
+                                  type="button"
+                                  variant="outline"
+                                  size="sm"
+                                  onClick={() => setPhotoTarget(pkg.trackingNumber)}
+                                  disabled={isSubmitting || pkg.photos.length >= MAX_PHOTOS_PER_PACKAGE}
+                                  className="gap-1"
+                                >
+                                  <Camera className="h-4 w-4" />
+                                  {pkg.photos.length === 0 ? 'Add photos' : 'More photos'}
+                                </Button>
+                              </div>
                               <Textarea
                                 value={pkg.notes}
                                 onChange={(event) => handleNoteChange(index, event.target.value)}
@@ -494,12 +582,25 @@ const AdminPackageReceiving: React.FC = () => {
         </CardContent>
       </Card>
 
+      <UnmatchedArrivalsCard />
+
+      <AgingInventoryCard />
+
       {/* Barcode Scanner Modal */}
       <BarcodeScanner
         isOpen={isScannerOpen}
         onScan={handleCameraScan}
         onClose={() => setIsScannerOpen(false)}
       />
+
+      <PackagePhotoCapture
+        isOpen={photoTarget !== null}
+        title={photoTarget ?? ''}
+        photoCount={packages.find((pkg) => pkg.trackingNumber === photoTarget)?.photos.length ?? 0}
+        maxPhotos={MAX_PHOTOS_PER_PACKAGE}
+        onCapture={handlePhotoCaptured}
+        onClose={() => setPhotoTarget(null)}
+      />
     </div>
   )
 }
@@ -1,8 +1,15 @@
 import React, { useEffect, useMemo, useState } from 'react'
 import { supabase } from '@/lib/supabase'
-import { ShippingQuote } from '@/lib/types'
-import { AlertCircle, Loader2, Check, Clock, Filter, MailCheck, RefreshCcw, Search, Send, ShieldAlert } from 'lucide-react'
+import { FollowUpCadence, LostReason, ShippingQuote } from '@/lib/types'
+import { AlertCircle, BarChart3, Loader2, Check, Clock, Filter, History, ListChecks, MailCheck, PencilLine, RefreshCcw, Search, Send, ShieldAlert } from 'lucide-react'
 import { toast } from 'sonner'
+import QuoteRevisionDialog from '@/components/quotes/QuoteRevisionDialog'
+import QuoteRevisionHistory from '@/components/quotes/QuoteRevisionHistory'
+import QuoteFollowUpDialog from '@/components/quotes/QuoteFollowUpDialog'
+import FollowUpCadenceManager, { CadenceDestination } from '@/components/quotes/FollowUpCadenceManager'
+import LostReasonDialog from '@/components/quotes/LostReasonDialog'
+import { FOLLOW_UP_CHANNEL_LABELS, LOST_REASON_LABELS } from '@/components/quotes/quote-labels'
+import QuoteConversionReport from '@/components/quotes/QuoteConversionReport'
 
 const formatCurrency = (value: number) =>
   new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(value)
@@ -27,9 +34,16 @@ const followUpStatusColors: Record<string, string> = {
   scheduled: 'bg-sky-100 text-sky-700 border border-sky-200',
   pending: 'bg-amber-100 text-amber-700 border border-amber-200',
   completed: 'bg-emerald-100 text-emerald-700 border border-emerald-200',
-  failed: 'bg-rose-100 text-rose-700 border border-rose-200'
+  failed: 'bg-rose-100 text-rose-700 border border-rose-200',
+  converted: 'bg-emerald-100 text-emerald-700 border border-emerald-200',
+  declined: 'bg-slate-100 text-slate-600 border border-slate-200',
+  skipped_viewed: 'bg-violet-100 text-violet-700 border border-violet-200',
+  stopped: 'bg-slate-100 text-slate-600 border border-slate-200'
 }
 
+// Superseded revisions are reachable from the history dialog, not the pipeline
+const latestRevisions = (rows: ShippingQuote[]) => rows.filter((quote) => quote.is_latest_revision !== false)
+
 const AdminQuoteManagement: React.FC = () => {
   const [quotes, setQuotes] = useState<ShippingQuote[]>([])
   const [loading, setLoading] = useState(false)
@@ -38,6 +52,14 @@ const AdminQuoteManagement: React.FC = () => {
   const [followUpFilter, setFollowUpFilter] = useState<'all' | 'due' | 'completed'>('all')
   const [searchTerm, setSearchTerm] = useState('')
   const [processingIds, setProcessingIds] = useState<number[]>([])
+  const [revisingQuote, setRevisingQuote] = useState<ShippingQuote | null>(null)
+  const [historyQuote, setHistoryQuote] = useState<ShippingQuote | null>(null)
+  const [followUpQuote, setFollowUpQuote] = useState<ShippingQuote | null>(null)
+  const [cadences, setCadences] = useState<FollowUpCadence[]>([])
+  const [cadenceDestinations, setCadenceDestinations] = useState<CadenceDestination[]>([])
+  const [showCadenceManager, setShowCadenceManager] = useState(false)
+  const [lostQuote, setLostQuote] = useState<ShippingQuote | null>(null)
+  const [showConversionReport, setShowConversionReport] = useState(false)
 
   // Stateful fallback tracking: Remember if RLS has failed before
   const [hasRlsFailed, setHasRlsFailed] = useState(() => {
@@ -47,8 +69,24 @@ const AdminQuoteManagement: React.FC = () => {
 
   useEffect(() => {
     loadQuotes()
+    loadCadences()
   }, [])
 
+  const loadCadences = async () => {
+    try {
+      const { data, error } = await supabase.functions.invoke('admin-quote-cadences', {
+        body: { action: 'list' }
+      })
+      if (error) throw new Error(error.message || 'Failed to load follow-up cadences')
+      if (data?.error) throw new Error(data.error.message || 'Failed to load follow-up cadences')
+      setCadences((data?.cadences as FollowUpCadence[]) || [])
+      setCadenceDestinations((data?.destinations as CadenceDestination[]) || [])
+    } catch (err) {
+      console.error('Load cadences error:', err)
+      toast.error(err instanceof Error ? err.message : 'Unable to load follow-up cadences')
+    }
+  }
+
   const loadQuotes = async () => {
     try {
       setLoading(true)
@@ -92,7 +130,7 @@ const AdminQuoteManagement: React.FC = () => {
         throw error
       }
 
-      setQuotes((data as ShippingQuote[]) || [])
+      setQuotes(latestRevisions((data as ShippingQuote[]) || []))
     } catch (err) {
       const message = err instanceof Error ? err.message : 'Unable to load quotes'
       setError(message)
@@ -116,7 +154,7 @@ const AdminQuoteManagement: React.FC = () => {
         throw new Error('Invalid response from quotes service')
       }
 
-      setQuotes((data.data as ShippingQuote[]) || [])
+      setQuotes(latestRevisions((data.data as ShippingQuote[]) || []))
       console.log(`Successfully loaded ${data.count || 0} quotes via service-role function`)
     } catch (err) {
       // If service-role function fails, this is a real error
@@ -158,8 +196,8 @@ const AdminQuoteManagement: React.FC = () => {
   const dueFollowUps = useMemo(() => {
     const now = new Date()
     return quotes.filter((quote) => {
-      if (quote.follow_up_status === 'completed') return false
-      if (!quote.follow_up_due_at) return false
+      if (quote.follow_up_status === 'completed' || quote.follow_up_status === 'stopped') return false
+      if (quote.follow_up_paused || !quote.follow_up_due_at) return false
       return new Date(quote.follow_up_due_at) <= now
     })
   }, [quotes])
@@ -170,7 +208,11 @@ const AdminQuoteManagement: React.FC = () => {
     return `${Math.round((won / quotes.length) * 100)}%`
   }, [quotes])
 
-  const handleUpdateStatus = async (quote: ShippingQuote, status: string) => {
+  const handleUpdateStatus = async (
+    quote: ShippingQuote,
+    status: string,
+    lost?: { reason: LostReason; detail: string }
+  ) => {
     try {
       setProcessingIds((ids) => [...ids, quote.id])
       
@@ -178,7 +220,9 @@ const AdminQuoteManagement: React.FC = () => {
       const { data, error } = await supabase.functions.invoke('admin-quotes-update', {
         body: {
           quote_id: quote.id,
-          status
+          status,
+          lost_reason: lost?.reason,
+          lost_reason_detail: lost?.detail || undefined
         }
       })
 
@@ -198,6 +242,7 @@ const AdminQuoteManagement: React.FC = () => {
       }
 
       toast.success(`Quote ${quote.quote_reference || quote.id} updated to ${status}.`)
+      setLostQuote(null)
       await loadQuotes()
     } catch (err) {
       console.error('Update status error:', err)
@@ -213,8 +258,7 @@ const AdminQuoteManagement: React.FC = () => {
       setProcessingIds((ids) => [...ids, quote.id])
       const { data, error } = await supabase.functions.invoke('quote-follow-up', {
         body: {
-          quoteId: quote.id,
-          autoProcess: false
+          quoteId: quote.id
         }
       })
       if (error) throw new Error(error.message)
@@ -237,9 +281,7 @@ const AdminQuoteManagement: React.FC = () => {
     try {
       setLoading(true)
       const { data, error } = await supabase.functions.invoke('quote-follow-up', {
-        body: {
-          autoProcess: true
-        }
+        body: {}
       })
       if (error) throw new Error(error.message)
       const processed = data?.data?.processed || 0
@@ -267,6 +309,18 @@ const AdminQuoteManagement: React.FC = () => {
           >
             <RefreshCcw className="h-4 w-4" /> Refresh
           </button>
+          <button
+            onClick={() => setShowConversionReport((current) => !current)}
+            className="inline-flex items-center gap-2 rounded-xl border border-slate-200 bg-white px-4 py-2 text-sm font-medium text-slate-700 shadow-sm hover:bg-slate-50"
+          >
+            <BarChart3 className="h-4 w-4" /> {showConversionReport ? 'Hide win/loss' : 'Win/loss'}
+          </button>
+          <button
+            onClick={() => setShowCadenceManager(true)}
+            className="inline-flex items-center gap-2 rounded-xl border border-slate-200 bg-white px-4 py-2 text-sm font-medium text-slate-700 shadow-sm hover:bg-slate-50"
+          >
+            <ListChecks className="h-4 w-4" /> Cadences
+          </button>
           <button
             onClick={handleProcessDueFollowUps}
             className="inline-flex items-center gap-2 rounded-xl bg-indigo-600 px-4 py-2 text-sm font-semibold text-white shadow hover:bg-indigo-700"
@@ -313,6 +367,12 @@ const AdminQuoteManagement: React.FC = () => {
         </div>
       </div>
 
+      {showConversionReport && (
+        <div className="mt-6">
+          <QuoteConversionReport />
+        </div>
+      )}
+
       <div className="mt-6 rounded-3xl border border-slate-200 bg-white shadow-sm">
         <div className="flex flex-col gap-4 border-b border-slate-100 p-4 md:flex-row md:items-center md:justify-between">
           <div className="flex flex-1 items-center gap-2 rounded-2xl border border-slate-200 bg-slate-50 px-3 py-2">
@@ -373,6 +433,8 @@ const AdminQuoteManagement: React.FC = () => {
               {filteredQuotes.map((quote) => {
                 const expiresSoon = new Date(quote.quote_expires_at).getTime() < Date.now() + 48 * 3600 * 1000
                 const followUpDue = quote.follow_up_due_at && new Date(quote.follow_up_due_at) <= new Date()
+                const cadence = cadences.find((item) => item.id === quote.follow_up_cadence_id)
+                const nextStep = cadence?.steps[quote.follow_up_step ?? 0]
                 const destinationLabel = quote.quote_metadata?.destination
                   ? [quote.quote_metadata.destination.city, quote.quote_metadata.destination.country].filter(Boolean).join(', ')
                   : 'Destination pending'
@@ -394,6 +456,14 @@ const AdminQuoteManagement: React.FC = () => {
                               {quote.quote_reference}
                             </span>
                           )}
+                          {(quote.revision_number ?? 1) > 1 && (
+                            <button
+                              onClick={() => setHistoryQuote(quote)}
+                              className="rounded-full bg-indigo-50 px-3 py-0.5 text-xs font-medium text-indigo-700 hover:bg-indigo-100"
+                            >
+                              Revision {quote.revision_number}
+                            </button>
+                          )}
                           {quote.quote_metadata?.calculation_flagged && (
                             <span className="rounded-full bg-amber-100 px-3 py-0.5 text-xs font-medium text-amber-700">
                               Needs review
@@ -405,6 +475,21 @@ const AdminQuoteManagement: React.FC = () => {
                         {destinationLabel}
                       </p>
                       <p className="mt-1 text-xs text-slate-400">Created {formatDate(quote.created_at)}</p>
+                      {quote.first_viewed_at && (
+                        <p className="mt-1 text-xs text-violet-600">
+                          Viewed {quote.view_count ?? 1}× · last {formatDate(quote.last_viewed_at || quote.first_viewed_at)}
+                        </p>
+                      )}
+                      {quote.status === 'lost' && quote.lost_reason ? (
+                        <p className="mt-1 text-xs italic text-rose-600">
+                          Lost: {LOST_REASON_LABELS[quote.lost_reason]}
+                          {quote.lost_reason_detail && ` — ${quote.lost_reason_detail}`}
+                        </p>
+                      ) : (
+                        quote.decline_reason && (
+                          <p className="mt-1 text-xs italic text-rose-600">Declined: {quote.decline_reason}</p>
+                        )
+                      )}
                     </div>
 
                     <div className="space-y-1 text-sm text-slate-600">
@@ -438,11 +523,18 @@ const AdminQuoteManagement: React.FC = () => {
                           {quote.follow_up_status || 'pending'}
                         </span>
                       </div>
-                      {quote.follow_up_due_at && (
-                        <p className={`text-xs ${followUpDue ? 'text-amber-600' : 'text-slate-400'}`}>
-                          Due {formatDate(quote.follow_up_due_at)}
-                        </p>
+                      {quote.follow_up_paused ? (
+                        <p className="text-xs font-medium text-amber-600">Paused</p>
+                      ) : (
+                        quote.follow_up_due_at && (
+                          <p className={`text-xs ${followUpDue ? 'text-amber-600' : 'text-slate-400'}`}>
+                            {cadence && nextStep
+                              ? `Step ${(quote.follow_up_step ?? 0) + 1}/${cadence.steps.length} · ${FOLLOW_UP_CHANNEL_LABELS[nextStep.channel]} ${formatDate(quote.follow_up_due_at)}`
+                              : `Due ${formatDate(quote.follow_up_due_at)}`}
+                          </p>
+                        )
                       )}
+                      {cadence && <p className="text-xs text-slate-400">{cadence.name} cadence</p>}
                     </div>
 
                     <div className="flex flex-wrap items-center gap-2">
@@ -453,6 +545,25 @@ const AdminQuoteManagement: React.FC = () => {
                       >
                         <Send className="h-4 w-4" /> Follow-up
                       </button>
+                      <button
+                        onClick={() => setFollowUpQuote(quote)}
+                        className="inline-flex items-center gap-2 rounded-xl border border-slate-200 bg-white px-3 py-2 text-xs font-semibold text-slate-700 hover:bg-slate-50"
+                      >
+                        <ListChecks className="h-4 w-4" /> Cadence
+                      </button>
+                      <button
+                        onClick={() => setRevisingQuote(quote)}
+                        disabled={processingIds.includes(quote.id) || quote.status === 'won'}
+                        className="inline-flex items-center gap-2 rounded-xl border border-slate-200 bg-white px-3 py-2 text-xs font-semibold text-slate-700 hover:bg-slate-50 disabled:opacity-50"
+                      >
+                        <PencilLine className="h-4 w-4" /> Revise
+                      </button>
+                      <button
+                        onClick={() => setHistoryQuote(quote)}
+                        className="inline-flex items-center gap-2 rounded-xl border border-slate-200 bg-white px-3 py-2 text-xs font-semibold text-slate-700 hover:bg-slate-50"
+                      >
+                        <History className="h-4 w-4" /> History
+                      </button>
                       <button
                         onClick={() => handleUpdateStatus(quote, 'won')}
                         disabled={processingIds.includes(quote.id)}
@@ -461,7 +572,7 @@ const AdminQuoteManagement: React.FC = () => {
                         <Check className="h-4 w-4" /> Mark won
                       </button>
                       <button
-                        onClick={() => handleUpdateStatus(quote, 'lost')}
+                        onClick={() => setLostQuote(quote)}
                         disabled={processingIds.includes(quote.id)}
                         className="inline-flex items-center gap-2 rounded-xl border border-rose-200 bg-rose-50 px-3 py-2 text-xs font-semibold text-rose-700 hover:bg-rose-100 disabled:opacity-50"
                       >
@@ -481,6 +592,32 @@ const AdminQuoteManagement: React.FC = () => {
           )}
         </div>
       </div>
+
+      <QuoteRevisionDialog
+        quote={revisingQuote}
+        onOpenChange={(open) => !open && setRevisingQuote(null)}
+        onRevised={loadQuotes}
+      />
+      <QuoteRevisionHistory quote={historyQuote} onOpenChange={(open) => !open && setHistoryQuote(null)} />
+      <LostReasonDialog
+        quote={lostQuote}
+        saving={Boolean(lostQuote && processingIds.includes(lostQuote.id))}
+        onOpenChange={(open) => !open && setLostQuote(null)}
+        onConfirm={(quote, reason, detail) => handleUpdateStatus(quote, 'lost', { reason, detail })}
+      />
+      <QuoteFollowUpDialog
+        quote={followUpQuote}
+        cadences={cadences}
+        onOpenChange={(open) => !open && setFollowUpQuote(null)}
+        onUpdated={loadQuotes}
+      />
+      <FollowUpCadenceManager
+        open={showCadenceManager}
+        cadences={cadences}
+        destinations={cadenceDestinations}
+        onOpenChange={setShowCadenceManager}
+        onSaved={loadCadences}
+      />
     </div>
   )
 }
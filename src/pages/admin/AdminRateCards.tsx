@@ -0,0 +1,717 @@
+import React, { useEffect, useMemo, useState } from 'react'
+import { supabase } from '@/lib/supabase'
+import { Destination } from '@/lib/types'
+import { Input } from '@/components/ui/input'
+import { Button } from '@/components/ui/button'
+import { toast } from 'sonner'
+import { Eye, Plus, RefreshCw, Save, Send, Trash2, X } from 'lucide-react'
+
+type ServiceType = 'standard' | 'express'
+
+interface RateCardTier {
+  service_type: ServiceType
+  weight_min: number
+  weight_max: number | null
+  rate_per_lb: number
+  express_surcharge_percent: number | null
+}
+
+interface RateCardVersion {
+  id: number
+  destination_id: number
+  version_number: number
+  status: 'draft' | 'published' | 'superseded' | 'discarded'
+  tiers: RateCardTier[]
+  notes: string | null
+  effective_date: string | null
+  created_at: string
+  published_at: string | null
+}
+
+interface ActivePricingRule {
+  id: number
+  service_type: ServiceType
+  weight_min: number
+  weight_max: number | null
+  rate_per_lb: number
+  express_surcharge_percent: number | null
+  effective_date: string
+  expiry_date: string | null
+}
+
+interface RepricedQuote {
+  quoteId: number
+  quoteReference: string | null
+  createdAt: string | null
+  serviceType: string
+  billableWeight: number
+  currentBaseCost: number
+  proposedBaseCost: number
+  quotedTotal: number
+  proposedTotal: number
+  delta: number
+  deltaPercent: number | null
+}
+
+interface PreviewResult {
+  samples: RepricedQuote[]
+  summary: {
+    sample_count: number
+    increased: number
+    decreased: number
+    unchanged: number
+    total_current: number
+    total_proposed: number
+    total_delta: number
+  }
+}
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(value)
+
+const formatDate = (value: string | null | undefined) => {
+  if (!value) return '—'
+  return new Date(value).toLocaleString('en-US', { dateStyle: 'medium', timeStyle: 'short' })
+}
+
+const statusColors: Record<RateCardVersion['status'], string> = {
+  draft: 'bg-amber-100 text-amber-700 border border-amber-200',
+  published: 'bg-emerald-100 text-emerald-700 border border-emerald-200',
+  superseded: 'bg-slate-100 text-slate-700 border border-slate-200',
+  discarded: 'bg-rose-100 text-rose-700 border border-rose-200'
+}
+
+const tiersFromDestination = (destination: Destination): RateCardTier[] => [
+  { service_type: 'standard', weight_min: 0, weight_max: 50, rate_per_lb: destination.rate_per_lb_1_50, express_surcharge_percent: destination.express_surcharge_percent },
+  { service_type: 'standard', weight_min: 50, weight_max: 100, rate_per_lb: destination.rate_per_lb_51_100, express_surcharge_percent: destination.express_surcharge_percent },
+  { service_type: 'standard', weight_min: 100, weight_max: 200, rate_per_lb: destination.rate_per_lb_101_200, express_surcharge_percent: destination.express_surcharge_percent },
+  { service_type: 'standard', weight_min: 200, weight_max: null, rate_per_lb: destination.rate_per_lb_201_plus, express_surcharge_percent: destination.express_surcharge_percent }
+]
+
+const tiersFromRules = (rules: ActivePricingRule[]): RateCardTier[] =>
+  [...rules]
+    .sort((a, b) => a.service_type.localeCompare(b.service_type) || Number(a.weight_min) - Number(b.weight_min))
+    .map((rule) => ({
+      service_type: rule.service_type,
+      weight_min: Number(rule.weight_min),
+      weight_max: rule.weight_max === null ? null : Number(rule.weight_max),
+      rate_per_lb: Number(rule.rate_per_lb),
+      express_surcharge_percent: rule.express_surcharge_percent === null ? null : Number(rule.express_surcharge_percent)
+    }))
+
+const toDateTimeLocal = (date: Date) => {
+  const offset = date.getTimezoneOffset() * 60000
+  return new Date(date.getTime() - offset).toISOString().slice(0, 16)
+}
+
+const AdminRateCards: React.FC = () => {
+  const [destinations, setDestinations] = useState<Destination[]>([])
+  const [destinationId, setDestinationId] = useState<number | null>(null)
+  const [versions, setVersions] = useState<RateCardVersion[]>([])
+  const [activeRules, setActiveRules] = useState<ActivePricingRule[]>([])
+  const [tiers, setTiers] = useState<RateCardTier[]>([])
+  const [notes, setNotes] = useState('')
+  const [editingVersionId, setEditingVersionId] = useState<number | null>(null)
+  const [effectiveDate, setEffectiveDate] = useState(() => toDateTimeLocal(new Date()))
+  const [preview, setPreview] = useState<PreviewResult | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [divisorStandard, setDivisorStandard] = useState('')
+  const [divisorExpress, setDivisorExpress] = useState('')
+
+  const selectedDestination = useMemo(
+    () => destinations.find((destination) => destination.id === destinationId) || null,
+    [destinations, destinationId]
+  )
+  const editingVersion = useMemo(
+    () => versions.find((version) => version.id === editingVersionId) || null,
+    [versions, editingVersionId]
+  )
+
+  useEffect(() => {
+    loadRateCards(null)
+  }, [])
+
+  useEffect(() => {
+    setDivisorStandard(String(selectedDestination?.dim_divisor_standard ?? 166))
+    setDivisorExpress(
+      selectedDestination?.dim_divisor_express === null || selectedDestination?.dim_divisor_express === undefined
+        ? ''
+        : String(selectedDestination.dim_divisor_express)
+    )
+  }, [selectedDestination])
+
+  useEffect(() => {
+    if (destinationId) {
+      loadRateCards(destinationId)
+    }
+  }, [destinationId])
+
+  const invokeRateCards = async <T,>(body: Record<string, unknown>) => {
+    const { data, error } = await supabase.functions.invoke<T>('admin-rate-cards', { body })
+    if (error) throw error
+    return data as T
+  }
+
+  const loadRateCards = async (targetDestinationId: number | null) => {
+    try {
+      setLoading(true)
+      setError(null)
+
+      const data = await invokeRateCards<{
+        destinations: Destination[]
+        versions: RateCardVersion[]
+        active_rules: ActivePricingRule[]
+      }>({ action: 'list', destination_id: targetDestinationId })
+
+      setDestinations(data?.destinations || [])
+
+      if (!targetDestinationId) {
+        return
+      }
+
+      const loadedVersions = data?.versions || []
+      const rules = data?.active_rules || []
+      setVersions(loadedVersions)
+      setActiveRules(rules)
+      setPreview(null)
+
+      const draft = loadedVersions.find((version) => version.status === 'draft')
+      if (draft) {
+        startEditing(draft)
+      } else {
+        const destination = data?.destinations?.find((entry) => entry.id === targetDestinationId)
+        setEditingVersionId(null)
+        setNotes('')
+        setTiers(rules.length ? tiersFromRules(rules) : destination ? tiersFromDestination(destination) : [])
+      }
+    } catch (err) {
+      console.error('Failed to load rate cards:', err)
+      const message = err instanceof Error ? err.message : 'Unable to load rate cards.'
+      setError(message)
+      toast.error(message)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const startEditing = (version: RateCardVersion) => {
+    setTiers(version.tiers.map((tier) => ({ ...tier })))
+    setNotes(version.notes || '')
+    setEditingVersionId(version.status === 'draft' ? version.id : null)
+    setPreview(null)
+  }
+
+  const updateTier = (index: number, field: keyof RateCardTier, value: string) => {
+    setTiers((prev) =>
+      prev.map((tier, tierIndex) => {
+        if (tierIndex !== index) return tier
+        if (field === 'service_type') {
+          return { ...tier, service_type: value as ServiceType }
+        }
+        if (field === 'weight_max' || field === 'express_surcharge_percent') {
+          return { ...tier, [field]: value === '' ? null : parseFloat(value) }
+        }
+        return { ...tier, [field]: parseFloat(value) || 0 }
+      })
+    )
+    setPreview(null)
+  }
+
+  const addTier = () => {
+    const last = tiers[tiers.length - 1]
+    const start = last?.weight_max ?? (last ? last.weight_min + 50 : 0)
+    setTiers((prev) => [
+      ...prev,
+      {
+        service_type: last?.service_type || 'standard',
+        weight_min: start,
+        weight_max: null,
+        rate_per_lb: last?.rate_per_lb || 0,
+        express_surcharge_percent: last?.express_surcharge_percent ?? null
+      }
+    ])
+    setPreview(null)
+  }
+
+  const removeTier = (index: number) => {
+    setTiers((prev) => prev.filter((_, tierIndex) => tierIndex !== index))
+    setPreview(null)
+  }
+
+  const handleSaveDraft = async () => {
+    if (!destinationId) return
+    try {
+      setSaving(true)
+      const data = await invokeRateCards<{ version: RateCardVersion }>({
+        action: 'save_draft',
+        destination_id: destinationId,
+        version_id: editingVersionId,
+        tiers,
+        notes
+      })
+      toast.success(`Draft v${data.version.version_number} saved`)
+      await loadRateCards(destinationId)
+    } catch (err) {
+      console.error('Failed to save rate card draft:', err)
+      toast.error(err instanceof Error ? err.message : 'Unable to save draft.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handlePreview = async () => {
+    if (!destinationId) return
+    try {
+      setSaving(true)
+      const data = await invokeRateCards<PreviewResult>({
+        action: 'preview',
+        destination_id: destinationId,
+        tiers
+      })
+      setPreview(data)
+    } catch (err) {
+      console.error('Failed to preview rate card:', err)
+      toast.error(err instanceof Error ? err.message : 'Unable to preview rate card.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handlePublish = async () => {
+    if (!destinationId || !editingVersion) return
+    const effective = new Date(effectiveDate)
+    const confirmed = window.confirm(
+      `Publish v${editingVersion.version_number} for ${selectedDestination?.country_name}? ` +
+        `Current rates will expire on ${formatDate(effective.toISOString())}.`
+    )
+    if (!confirmed) return
+
+    try {
+      setSaving(true)
+      await invokeRateCards({
+        action: 'publish',
+        destination_id: destinationId,
+        version_id: editingVersion.id,
+        effective_date: effective.toISOString()
+      })
+      toast.success(`Rate card v${editingVersion.version_number} published`)
+      await loadRateCards(destinationId)
+    } catch (err) {
+      console.error('Failed to publish rate card:', err)
+      toast.error(err instanceof Error ? err.message : 'Unable to publish rate card.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDiscard = async () => {
+    if (!destinationId || !editingVersion) return
+    try {
+      setSaving(true)
+      await invokeRateCards({ action: 'discard', destination_id: destinationId, version_id: editingVersion.id })
+      toast.success(`Draft v${editingVersion.version_number} discarded`)
+      await loadRateCards(destinationId)
+    } catch (err) {
+      console.error('Failed to discard rate card draft:', err)
+      toast.error(err instanceof Error ? err.message : 'Unable to discard draft.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleSaveDivisors = async () => {
+    if (!destinationId) return
+    try {
+      setSaving(true)
+      await invokeRateCards({
+        action: 'update_divisors',
+        destination_id: destinationId,
+        dim_divisor_standard: parseFloat(divisorStandard),
+        dim_divisor_express: divisorExpress === '' ? null : parseFloat(divisorExpress)
+      })
+      toast.success('Dimensional divisors updated')
+      await loadRateCards(destinationId)
+    } catch (err) {
+      console.error('Failed to update dimensional divisors:', err)
+      toast.error(err instanceof Error ? err.message : 'Unable to update divisors.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const hasUnsavedDraft = editingVersion
+    ? JSON.stringify(editingVersion.tiers) !== JSON.stringify(tiers) || (editingVersion.notes || '') !== notes
+    : true
+
+  return (
+    <div className="p-6">
+      <div className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
+        <div>
+          <h1 className="text-2xl font-semibold text-slate-900">Rate Cards</h1>
+          <p className="text-sm text-slate-600">
+            Edit weight tiers per destination, preview the impact on recent quotes, then publish on a date.
+          </p>
+        </div>
+        <div className="flex flex-col gap-2 sm:flex-row sm:items-center">
+          <select
+            value={destinationId ?? ''}
+            onChange={(event) => setDestinationId(event.target.value ? Number(event.target.value) : null)}
+            className="h-10 rounded-md border border-slate-300 bg-white px-3 text-sm"
+            aria-label="Destination"
+          >
+            <option value="">Select destination…</option>
+            {destinations.map((destination) => (
+              <option key={destination.id} value={destination.id}>
+                {destination.country_name} — {destination.city_name}
+              </option>
+            ))}
+          </select>
+          <Button variant="outline" onClick={() => loadRateCards(destinationId)} disabled={loading} className="gap-2">
+            <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+            Refresh
+          </Button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="mt-4 rounded-lg border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">
+          {error}
+        </div>
+      )}
+
+      {!destinationId ? (
+        <div className="mt-6 rounded-xl border border-dashed border-slate-300 bg-white px-4 py-10 text-center text-sm text-slate-500">
+          Choose a destination to edit its rate card.
+        </div>
+      ) : (
+        <div className="mt-6 grid gap-6 lg:grid-cols-[1fr_320px]">
+          <div className="space-y-6">
+            <div className="rounded-xl border border-slate-200 bg-white">
+              <div className="flex items-center justify-between border-b border-slate-200 px-4 py-3">
+                <div>
+                  <h2 className="text-base font-semibold text-slate-900">
+                    {editingVersion ? `Draft v${editingVersion.version_number}` : 'New draft'}
+                  </h2>
+                  <p className="text-xs text-slate-500">
+                    Each tier applies up to its max weight. Leave max blank for the open-ended top tier.
+                  </p>
+                </div>
+                <Button variant="outline" size="sm" onClick={addTier} className="gap-2">
+                  <Plus className="h-4 w-4" />
+                  Add tier
+                </Button>
+              </div>
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-slate-200 text-left text-sm">
+                  <thead className="bg-slate-50">
+                    <tr>
+                      <th className="px-4 py-3 font-medium text-slate-600">Service</th>
+                      <th className="px-4 py-3 font-medium text-slate-600">Min lbs</th>
+                      <th className="px-4 py-3 font-medium text-slate-600">Max lbs</th>
+                      <th className="px-4 py-3 font-medium text-slate-600">Rate / lb</th>
+                      <th className="px-4 py-3 font-medium text-slate-600">Express %</th>
+                      <th className="px-4 py-3" />
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {tiers.length === 0 ? (
+                      <tr>
+                        <td colSpan={6} className="px-4 py-8 text-center text-slate-500">
+                          No tiers yet. Add one to get started.
+                        </td>
+                      </tr>
+                    ) : (
+                      tiers.map((tier, index) => (
+                        <tr key={index} className="odd:bg-white even:bg-slate-50">
+                          <td className="px-4 py-2">
+                            <select
+                              value={tier.service_type}
+                              onChange={(event) => updateTier(index, 'service_type', event.target.value)}
+                              className="h-9 rounded-md border border-slate-300 bg-white px-2 text-sm"
+                              aria-label={`Tier ${index + 1} service`}
+                            >
+                              <option value="standard">Standard</option>
+                              <option value="express">Express</option>
+                            </select>
+                          </td>
+                          <td className="px-4 py-2">
+                            <Input
+                              type="number"
+                              min="0"
+                              step="0.01"
+                              value={tier.weight_min}
+                              onChange={(event) => updateTier(index, 'weight_min', event.target.value)}
+                              aria-label={`Tier ${index + 1} minimum weight`}
+                            />
+                          </td>
+                          <td className="px-4 py-2">
+                            <Input
+                              type="number"
+                              min="0"
+                              step="0.01"
+                              value={tier.weight_max ?? ''}
+                              placeholder="∞"
+                              onChange={(event) => updateTier(index, 'weight_max', event.target.value)}
+                              aria-label={`Tier ${index + 1} maximum weight`}
+                            />
+                          </td>
+                          <td className="px-4 py-2">
+                            <Input
+                              type="number"
+                              min="0"
+                              step="0.01"
+                              value={tier.rate_per_lb}
+                              onChange={(event) => updateTier(index, 'rate_per_lb', event.target.value)}
+                              aria-label={`Tier ${index + 1} rate per lb`}
+                            />
+                          </td>
+                          <td className="px-4 py-2">
+                            <Input
+                              type="number"
+                              min="0"
+                              step="0.5"
+                              value={tier.express_surcharge_percent ?? ''}
+                              placeholder="25"
+                              onChange={(event) => updateTier(index, 'express_surcharge_percent', event.target.value)}
+                              aria-label={`Tier ${index + 1} express surcharge percent`}
+                            />
+                          </td>
+                          <td className="px-4 py-2 text-right">
+                            <Button variant="ghost" size="sm" onClick={() => removeTier(index)} aria-label={`Remove tier ${index + 1}`}>
+                              <X className="h-4 w-4" />
+                            </Button>
+                          </td>
+                        </tr>
+                      ))
+                    )}
+                  </tbody>
+                </table>
+              </div>
+              <div className="border-t border-slate-200 px-4 py-3">
+                <label className="block text-xs font-medium text-slate-600" htmlFor="rate-card-notes">
+                  Notes
+                </label>
+                <Input
+                  id="rate-card-notes"
+                  value={notes}
+                  onChange={(event) => setNotes(event.target.value)}
+                  placeholder="e.g. Fuel surcharge increase from carrier"
+                  className="mt-1"
+                />
+              </div>
+              <div className="flex flex-col gap-3 border-t border-slate-200 px-4 py-3 md:flex-row md:items-end md:justify-between">
+                <div className="flex flex-wrap gap-2">
+                  <Button onClick={handleSaveDraft} disabled={saving || !tiers.length} className="gap-2">
+                    <Save className="h-4 w-4" />
+                    {editingVersion ? 'Save draft' : 'Save as draft'}
+                  </Button>
+                  <Button variant="outline" onClick={handlePreview} disabled={saving || !tiers.length} className="gap-2">
+                    <Eye className="h-4 w-4" />
+                    Preview impact
+                  </Button>
+                  {editingVersion && (
+                    <Button variant="outline" onClick={handleDiscard} disabled={saving} className="gap-2 text-rose-600">
+                      <Trash2 className="h-4 w-4" />
+                      Discard
+                    </Button>
+                  )}
+                </div>
+                <div className="flex flex-col gap-2 sm:flex-row sm:items-end">
+                  <div>
+                    <label className="block text-xs font-medium text-slate-600" htmlFor="rate-card-effective">
+                      Effective from
+                    </label>
+                    <Input
+                      id="rate-card-effective"
+                      type="datetime-local"
+                      value={effectiveDate}
+                      onChange={(event) => setEffectiveDate(event.target.value)}
+                      className="mt-1"
+                    />
+                  </div>
+                  <Button
+                    onClick={handlePublish}
+                    disabled={saving || !editingVersion || hasUnsavedDraft}
+                    title={hasUnsavedDraft ? 'Save the draft before publishing' : undefined}
+                    className="gap-2"
+                  >
+                    <Send className="h-4 w-4" />
+                    Publish
+                  </Button>
+                </div>
+              </div>
+            </div>
+
+            {preview && (
+              <div className="rounded-xl border border-slate-200 bg-white">
+                <div className="border-b border-slate-200 px-4 py-3">
+                  <h2 className="text-base font-semibold text-slate-900">Preview against recent quotes</h2>
+                  <p className="text-xs text-slate-500">
+                    {preview.summary.sample_count} quotes repriced: {preview.summary.increased} up, {preview.summary.decreased} down,{' '}
+                    {preview.summary.unchanged} unchanged. Transport total {formatCurrency(preview.summary.total_current)} →{' '}
+                    {formatCurrency(preview.summary.total_proposed)} ({preview.summary.total_delta >= 0 ? '+' : ''}
+                    {formatCurrency(preview.summary.total_delta)}).
+                  </p>
+                </div>
+                <div className="overflow-x-auto">
+                  <table className="min-w-full divide-y divide-slate-200 text-left text-sm">
+                    <thead className="bg-slate-50">
+                      <tr>
+                        <th className="px-4 py-3 font-medium text-slate-600">Quote</th>
+                        <th className="px-4 py-3 font-medium text-slate-600">Service</th>
+                        <th className="px-4 py-3 font-medium text-slate-600">Billable lbs</th>
+                        <th className="px-4 py-3 font-medium text-slate-600">Current</th>
+                        <th className="px-4 py-3 font-medium text-slate-600">Proposed</th>
+                        <th className="px-4 py-3 font-medium text-slate-600">Change</th>
+                        <th className="px-4 py-3 font-medium text-slate-600">Quote total</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {preview.samples.length === 0 ? (
+                        <tr>
+                          <td colSpan={7} className="px-4 py-8 text-center text-slate-500">
+                            No recent quotes for this destination.
+                          </td>
+                        </tr>
+                      ) : (
+                        preview.samples.map((sample) => (
+                          <tr key={sample.quoteId} className="odd:bg-white even:bg-slate-50">
+                            <td className="px-4 py-2 font-medium text-slate-900">
+                              {sample.quoteReference || `#${sample.quoteId}`}
+                              <div className="text-xs font-normal text-slate-500">{formatDate(sample.createdAt)}</div>
+                            </td>
+                            <td className="px-4 py-2 capitalize text-slate-700">{sample.serviceType}</td>
+                            <td className="px-4 py-2 text-slate-700">{sample.billableWeight}</td>
+                            <td className="px-4 py-2 text-slate-700">{formatCurrency(sample.currentBaseCost)}</td>
+                            <td className="px-4 py-2 text-slate-700">{formatCurrency(sample.proposedBaseCost)}</td>
+                            <td
+                              className={`px-4 py-2 font-medium ${
+                                sample.delta > 0 ? 'text-rose-600' : sample.delta < 0 ? 'text-emerald-600' : 'text-slate-500'
+                              }`}
+                            >
+                              {sample.delta > 0 ? '+' : ''}
+                              {formatCurrency(sample.delta)}
+                              {sample.deltaPercent !== null && ` (${sample.deltaPercent > 0 ? '+' : ''}${sample.deltaPercent}%)`}
+                            </td>
+                            <td className="px-4 py-2 text-slate-700">
+                              {formatCurrency(sample.quotedTotal)} → {formatCurrency(sample.proposedTotal)}
+                            </td>
+                          </tr>
+                        ))
+                      )}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-6">
+            <div className="rounded-xl border border-slate-200 bg-white">
+              <div className="border-b border-slate-200 px-4 py-3">
+                <h2 className="text-base font-semibold text-slate-900">Dimensional divisor</h2>
+                <p className="text-xs text-slate-500">
+                  In³ per lb. Takes effect immediately for new calculations. Leave express blank to use standard.
+                </p>
+              </div>
+              <div className="space-y-3 px-4 py-3">
+                <div className="grid grid-cols-2 gap-3">
+                  <label className="text-xs font-medium text-slate-600">
+                    Standard
+                    <Input
+                      type="number"
+                      min="1"
+                      step="1"
+                      value={divisorStandard}
+                      onChange={(event) => setDivisorStandard(event.target.value)}
+                      className="mt-1"
+                    />
+                  </label>
+                  <label className="text-xs font-medium text-slate-600">
+                    Express
+                    <Input
+                      type="number"
+                      min="1"
+                      step="1"
+                      value={divisorExpress}
+                      onChange={(event) => setDivisorExpress(event.target.value)}
+                      placeholder={divisorStandard}
+                      className="mt-1"
+                    />
+                  </label>
+                </div>
+                <Button variant="outline" size="sm" onClick={handleSaveDivisors} disabled={saving} className="w-full gap-2">
+                  <Save className="h-4 w-4" />
+                  Save divisors
+                </Button>
+              </div>
+            </div>
+
+            <div className="rounded-xl border border-slate-200 bg-white">
+              <div className="border-b border-slate-200 px-4 py-3">
+                <h2 className="text-base font-semibold text-slate-900">Rates in effect now</h2>
+                <p className="text-xs text-slate-500">
+                  {activeRules.length ? 'From published pricing rules' : 'No pricing rules — destination default rates apply'}
+                </p>
+              </div>
+              <ul className="divide-y divide-slate-100 text-sm">
+                {(activeRules.length ? tiersFromRules(activeRules) : selectedDestination ? tiersFromDestination(selectedDestination) : []).map(
+                  (tier, index) => (
+                    <li key={index} className="flex items-center justify-between px-4 py-2">
+                      <span className="text-slate-600">
+                        <span className="capitalize">{tier.service_type}</span> · {tier.weight_min}–{tier.weight_max ?? '∞'} lbs
+                      </span>
+                      <span className="font-medium text-slate-900">{formatCurrency(tier.rate_per_lb)}/lb</span>
+                    </li>
+                  )
+                )}
+              </ul>
+            </div>
+
+            <div className="rounded-xl border border-slate-200 bg-white">
+              <div className="border-b border-slate-200 px-4 py-3">
+                <h2 className="text-base font-semibold text-slate-900">Versions</h2>
+              </div>
+              {versions.length === 0 ? (
+                <p className="px-4 py-6 text-center text-sm text-slate-500">No rate card versions yet.</p>
+              ) : (
+                <ul className="divide-y divide-slate-100 text-sm">
+                  {versions.map((version) => (
+                    <li key={version.id} className="px-4 py-3">
+                      <div className="flex items-center justify-between">
+                        <span className="font-medium text-slate-900">v{version.version_number}</span>
+                        <span className={`rounded-full px-2 py-0.5 text-xs font-medium capitalize ${statusColors[version.status]}`}>
+                          {version.status === 'published' && version.effective_date && new Date(version.effective_date) > new Date()
+                            ? 'scheduled'
+                            : version.status}
+                        </span>
+                      </div>
+                      <p className="mt-1 text-xs text-slate-500">
+                        {version.status === 'draft'
+                          ? `Saved ${formatDate(version.created_at)}`
+                          : `Effective ${formatDate(version.effective_date)}`}
+                      </p>
+                      {version.notes && <p className="mt-1 text-xs text-slate-600">{version.notes}</p>}
+                      <Button
+                        variant="link"
+                        size="sm"
+                        className="h-auto px-0 text-xs"
+                        onClick={() => startEditing(version)}
+                      >
+                        {version.status === 'draft' ? 'Edit draft' : 'Copy into new draft'}
+                      </Button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default AdminRateCards
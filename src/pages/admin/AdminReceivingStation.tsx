@@ -0,0 +1,526 @@
+import React, { useEffect, useRef, useState } from 'react'
+import { Link } from 'react-router-dom'
+import { supabase } from '@/lib/supabase'
+import { logger } from '@/lib/logger'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { toast } from 'sonner'
+import { ArrowLeft, CheckCircle, HelpCircle, Printer, ScanBarcode, UserCheck } from 'lucide-react'
+import { extractMailboxNumber, extractTrackingNumbers, type ParsedTrackingNumber } from '@/lib/receiving'
+import { useMailboxPrefixes } from '@/hooks/useMailboxPrefixes'
+
+type LabelFormat = 'pdf' | 'zpl'
+
+type StationMailbox = {
+  mailboxNumber: string
+  name: string
+}
+
+type ReceivedEntry = {
+  id: string
+  labelCode: string
+  trackingNumber: string
+  carrier: ParsedTrackingNumber['carrier']
+  mailboxNumber: string
+  customerName: string
+  receivedAt: string
+  preAlertMatch: 'matched' | 'unmatched'
+}
+
+type ReceiveResponse = {
+  message: string
+  packages: Array<{ id: string; tracking_number: string; label_code: string; pre_alert_match: 'matched' | 'unmatched' }>
+}
+
+type LabelResponse = {
+  filename: string
+  count: number
+  zpl?: string
+  pdf_base64?: string
+}
+
+const FORMAT_STORAGE_KEY = 'receiving-station.label-format'
+
+const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob)
+  const a = document.createElement('a')
+  a.href = url
+  a.download = filename
+  document.body.appendChild(a)
+  a.click()
+  document.body.removeChild(a)
+  URL.revokeObjectURL(url)
+}
+
+const AdminReceivingStation: React.FC = () => {
+  const [scanValue, setScanValue] = useState('')
+  const [mailbox, setMailbox] = useState<StationMailbox | null>(null)
+  const [tracking, setTracking] = useState<ParsedTrackingNumber | null>(null)
+  const [weight, setWeight] = useState('')
+  const [length, setLength] = useState('')
+  const [width, setWidth] = useState('')
+  const [height, setHeight] = useState('')
+  const [shipperName, setShipperName] = useState('')
+  const [recipientName, setRecipientName] = useState('')
+  const [labelFormat, setLabelFormat] = useState<LabelFormat>(
+    () => (window.localStorage.getItem(FORMAT_STORAGE_KEY) === 'zpl' ? 'zpl' : 'pdf')
+  )
+  const [isLookingUp, setIsLookingUp] = useState(false)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [sessionLog, setSessionLog] = useState<ReceivedEntry[]>([])
+  const mailboxPrefixes = useMailboxPrefixes()
+
+  const scanInputRef = useRef<HTMLInputElement | null>(null)
+
+  const focusScan = () => {
+    window.requestAnimationFrame(() => {
+      scanInputRef.current?.focus()
+    })
+  }
+
+  useEffect(() => {
+    focusScan()
+  }, [])
+
+  useEffect(() => {
+    window.localStorage.setItem(FORMAT_STORAGE_KEY, labelFormat)
+  }, [labelFormat])
+
+  const lookupMailbox = async (mailboxNumber: string) => {
+    setIsLookingUp(true)
+    try {
+      const { data, error } = await supabase
+        .from('virtual_mailbox_details')
+        .select('mailbox_number,full_name')
+        .eq('mailbox_number', mailboxNumber)
+        .maybeSingle()
+
+      if (error && error.code !== 'PGRST116') {
+        throw error
+      }
+
+      if (!data) {
+        toast.error(`Mailbox ${mailboxNumber} not found.`)
+        return
+      }
+
+      setMailbox({ mailboxNumber: data.mailbox_number, name: data.full_name || 'Customer' })
+    } catch (err) {
+      logger.error('Mailbox lookup failed', err, { component: 'AdminReceivingStation', action: 'lookupMailbox' })
+      toast.error('Unable to verify mailbox at the moment.')
+    } finally {
+      setIsLookingUp(false)
+      focusScan()
+    }
+  }
+
+  const printLabels = async (packageIds: string[]) => {
+    try {
+      const { data, error } = await supabase.functions.invoke<LabelResponse>('admin-package-labels', {
+        body: { package_ids: packageIds, format: labelFormat }
+      })
+
+      if (error) {
+        throw new Error(error.message)
+      }
+
+      if (data?.zpl) {
+        downloadBlob(new Blob([data.zpl], { type: 'text/plain' }), data.filename)
+      } else if (data?.pdf_base64) {
+        const bytes = Uint8Array.from(atob(data.pdf_base64), (char) => char.charCodeAt(0))
+        downloadBlob(new Blob([bytes], { type: 'application/pdf' }), data.filename)
+      }
+    } catch (err) {
+      logger.error('Label printing failed', err, { component: 'AdminReceivingStation', action: 'printLabels' })
+      toast.error('The label could not be generated. Use Reprint to try again.')
+    }
+  }
+
+  const resetPackage = () => {
+    setMailbox(null)
+    setTracking(null)
+    setWeight('')
+    setLength('')
+    setWidth('')
+    setHeight('')
+    setShipperName('')
+    setRecipientName('')
+    focusScan()
+  }
+
+  const holdPackage = async () => {
+    if (!tracking) return
+
+    try {
+      setIsSubmitting(true)
+      const hasDimensions = [length, width, height].some((side) => side.trim() !== '')
+      const { data, error } = await supabase.functions.invoke<{ message: string; skipped: string[] }>(
+        'admin-unidentified-packages',
+        {
+          body: {
+            action: 'hold',
+            packages: [
+              {
+                trackingNumber: tracking.trackingNumber,
+                carrier: tracking.carrier,
+                shipperName,
+                recipientName,
+                weight: weight.trim() || null,
+                dimensions: hasDimensions ? { length, width, height } : null
+              }
+            ]
+          }
+        }
+      )
+
+      if (error) {
+        throw new Error(error.message)
+      }
+
+      toast.success(data?.message || 'Package held as unidentified.')
+      resetPackage()
+    } catch (err) {
+      logger.error('Holding unidentified package failed', err, { component: 'AdminReceivingStation', action: 'holdPackage' })
+      const message = err instanceof Error ? err.message : 'Unable to hold package.'
+      toast.error(message.includes('DUPLICATE_PACKAGES') ? `${tracking.trackingNumber} has already been received.` : message)
+    } finally {
+      setIsSubmitting(false)
+      focusScan()
+    }
+  }
+
+  const receivePackage = async () => {
+    if (!mailbox || !tracking) {
+      toast.error('Scan the mailbox suite line and the tracking barcode first.')
+      focusScan()
+      return
+    }
+
+    try {
+      setIsSubmitting(true)
+      const hasDimensions = [length, width, height].some((side) => side.trim() !== '')
+      const { data, error } = await supabase.functions.invoke<ReceiveResponse>('admin-receive-package', {
+        body: {
+          mailboxNumber: mailbox.mailboxNumber,
+          packages: [
+            {
+              trackingNumber: tracking.trackingNumber,
+              carrier: tracking.carrier,
+              weight: weight.trim() || null,
+              dimensions: hasDimensions ? { length, width, height } : null
+            }
+          ]
+        }
+      })
+
+      if (error) {
+        throw new Error(error.message)
+      }
+
+      const received = data?.packages?.[0]
+      if (!received) {
+        throw new Error('The package was not recorded.')
+      }
+
+      setSessionLog((prev) => [
+        {
+          id: received.id,
+          labelCode: received.label_code,
+          trackingNumber: received.tracking_number,
+          carrier: tracking.carrier,
+          mailboxNumber: mailbox.mailboxNumber,
+          customerName: mailbox.name,
+          receivedAt: new Date().toISOString(),
+          preAlertMatch: received.pre_alert_match
+        },
+        ...prev
+      ])
+      toast.success(`${received.label_code} received for ${mailbox.mailboxNumber}.`)
+      resetPackage()
+      await printLabels([received.id])
+    } catch (err) {
+      logger.error('Station receive failed', err, { component: 'AdminReceivingStation', action: 'receivePackage' })
+      const message = err instanceof Error ? err.message : 'Unable to record package.'
+      if (message.includes('DUPLICATE_PACKAGES')) {
+        toast.error(`${tracking.trackingNumber} has already been received.`)
+        resetPackage()
+      } else {
+        toast.error(message)
+      }
+    } finally {
+      setIsSubmitting(false)
+      focusScan()
+    }
+  }
+
+  const handleScan = () => {
+    const value = scanValue.trim()
+    setScanValue('')
+
+    // An empty Enter from the scan field confirms the current package
+    if (!value) {
+      void receivePackage()
+      return
+    }
+
+    const mailboxNumber = extractMailboxNumber(value, mailboxPrefixes)
+    if (mailboxNumber) {
+      void lookupMailbox(mailboxNumber)
+      return
+    }
+
+    const [parsed] = extractTrackingNumbers(value)
+    if (!parsed) {
+      toast.error('Not a mailbox number or a recognised tracking number.')
+      return
+    }
+    setTracking(parsed)
+  }
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (event.key !== 'Enter') {
+      return
+    }
+    event.preventDefault()
+    if (event.currentTarget === scanInputRef.current) {
+      handleScan()
+    } else {
+      void receivePackage()
+    }
+  }
+
+  const ready = Boolean(mailbox && tracking) && !isSubmitting && !isLookingUp
+
+  return (
+    <div className="p-6 lg:p-8 space-y-6">
+      <div className="flex flex-col gap-2 md:flex-row md:items-end md:justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-slate-900">Receiving Station</h1>
+          <p className="text-sm text-slate-600">
+            Scan the suite line and the carrier barcode, weigh, press Enter. The warehouse label prints automatically.
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Label htmlFor="labelFormat" className="text-xs text-slate-500">
+            Label
+          </Label>
+          <select
+            id="labelFormat"
+            className="rounded-md border border-slate-300 px-3 py-2 text-sm"
+            value={labelFormat}
+            onChange={(event) => setLabelFormat(event.target.value as LabelFormat)}
+          >
+            <option value="pdf">PDF (4x6)</option>
+            <option value="zpl">ZPL (Zebra)</option>
+          </select>
+          <Button asChild variant="outline" size="sm">
+            <Link to="/admin/package-receiving">
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Batch receiving
+            </Link>
+          </Button>
+        </div>
+      </div>
+
+      <Card className="max-w-5xl">
+        <CardContent className="space-y-6 pt-6">
+          <div className="space-y-2">
+            <Label htmlFor="stationScan">Scan</Label>
+            <div className="relative">
+              <Input
+                id="stationScan"
+                ref={scanInputRef}
+                value={scanValue}
+                onChange={(event) => setScanValue(event.target.value)}
+                onKeyDown={handleKeyDown}
+                placeholder="Suite line (QCS…) or tracking barcode; Enter on empty to receive"
+                autoComplete="off"
+                className="h-12 text-lg"
+                disabled={isSubmitting}
+              />
+              <ScanBarcode className="absolute right-3 top-1/2 h-5 w-5 -translate-y-1/2 text-slate-400" />
+            </div>
+          </div>
+
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="rounded-lg border border-slate-200 p-4">
+              <p className="text-xs font-medium uppercase text-slate-500">Mailbox</p>
+              {isLookingUp ? (
+                <p className="mt-2 text-sm text-slate-500">Looking up mailbox…</p>
+              ) : mailbox ? (
+                <div className="mt-2 flex items-center gap-2 text-emerald-700">
+                  <UserCheck className="h-5 w-5" />
+                  <span className="font-mono text-lg font-semibold">{mailbox.mailboxNumber}</span>
+                  <span className="text-sm">{mailbox.name}</span>
+                </div>
+              ) : (
+                <p className="mt-2 text-sm text-slate-400">Waiting for suite line scan</p>
+              )}
+            </div>
+            <div className="rounded-lg border border-slate-200 p-4">
+              <p className="text-xs font-medium uppercase text-slate-500">Tracking</p>
+              {tracking ? (
+                <div className="mt-2 flex flex-wrap items-center gap-2">
+                  <span className="font-mono text-lg font-semibold text-slate-900">{tracking.trackingNumber}</span>
+                  <Badge variant="outline">{tracking.carrier}</Badge>
+                  {tracking.confidence === 'medium' && (
+                    <Badge variant="outline" className="border-amber-300 bg-amber-50 text-amber-700">
+                      Review format
+                    </Badge>
+                  )}
+                  <p className="w-full text-xs text-slate-500">{tracking.reason}</p>
+                </div>
+              ) : (
+                <p className="mt-2 text-sm text-slate-400">Waiting for carrier barcode scan</p>
+              )}
+            </div>
+          </div>
+
+          <div className="grid gap-4 grid-cols-2 md:grid-cols-4">
+            {[
+              { id: 'stationWeight', label: 'Weight (lbs)', value: weight, onChange: setWeight },
+              { id: 'stationLength', label: 'Length (in)', value: length, onChange: setLength },
+              { id: 'stationWidth', label: 'Width (in)', value: width, onChange: setWidth },
+              { id: 'stationHeight', label: 'Height (in)', value: height, onChange: setHeight }
+            ].map((field) => (
+              <div key={field.id} className="space-y-1">
+                <Label htmlFor={field.id}>{field.label}</Label>
+                <Input
+                  id={field.id}
+                  type="number"
+                  min="0"
+                  step="0.1"
+                  inputMode="decimal"
+                  value={field.value}
+                  onChange={(event) => field.onChange(event.target.value)}
+                  onKeyDown={handleKeyDown}
+                  disabled={isSubmitting}
+                />
+              </div>
+            ))}
+          </div>
+
+          {tracking && !mailbox && !isLookingUp && (
+            <div className="space-y-3 rounded-lg border border-amber-200 bg-amber-50 p-4">
+              <p className="text-sm text-amber-800">
+                No suite number on the label? Hold the package in the unidentified queue with whatever the label shows.
+              </p>
+              <div className="grid gap-4 md:grid-cols-2">
+                <div className="space-y-1">
+                  <Label htmlFor="stationShipper">Shipper</Label>
+                  <Input
+                    id="stationShipper"
+                    value={shipperName}
+                    onChange={(event) => setShipperName(event.target.value)}
+                    maxLength={120}
+                    disabled={isSubmitting}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="stationRecipient">Recipient name on label</Label>
+                  <Input
+                    id="stationRecipient"
+                    value={recipientName}
+                    onChange={(event) => setRecipientName(event.target.value)}
+                    maxLength={120}
+                    disabled={isSubmitting}
+                  />
+                </div>
+              </div>
+            </div>
+          )}
+
+          <div className="flex items-center justify-between gap-2">
+            <Button type="button" variant="ghost" onClick={resetPackage} disabled={isSubmitting}>
+              Clear
+            </Button>
+            <div className="flex items-center gap-2">
+              {tracking && !mailbox && (
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => void holdPackage()}
+                  disabled={isSubmitting || isLookingUp}
+                  className="gap-2"
+                >
+                  <HelpCircle className="h-4 w-4" />
+                  Hold as unidentified
+                </Button>
+              )}
+              <Button type="button" onClick={() => void receivePackage()} disabled={!ready} className="gap-2">
+                <CheckCircle className="h-4 w-4" />
+                {isSubmitting ? 'Receiving…' : 'Receive & print label'}
+              </Button>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card className="max-w-5xl">
+        <CardHeader className="flex flex-row items-center justify-between">
+          <CardTitle>This session ({sessionLog.length})</CardTitle>
+          {sessionLog.length > 1 && (
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => void printLabels(sessionLog.map((entry) => entry.id))}
+            >
+              <Printer className="mr-2 h-4 w-4" />
+              Print all
+            </Button>
+          )}
+        </CardHeader>
+        <CardContent>
+          {sessionLog.length === 0 ? (
+            <p className="text-sm text-slate-500">Packages received at this station will be listed here.</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-slate-200 text-left text-xs uppercase text-slate-500">
+                  <th className="py-2">Label</th>
+                  <th className="py-2">Mailbox</th>
+                  <th className="py-2">Tracking</th>
+                  <th className="py-2">Time</th>
+                  <th className="py-2" />
+                </tr>
+              </thead>
+              <tbody>
+                {sessionLog.map((entry) => (
+                  <tr key={entry.id} className="border-b border-slate-100">
+                    <td className="py-2 font-mono">{entry.labelCode}</td>
+                    <td className="py-2">
+                      <span className="font-mono">{entry.mailboxNumber}</span>
+                      <span className="ml-2 text-slate-500">{entry.customerName}</span>
+                    </td>
+                    <td className="py-2">
+                      <span className="font-mono">{entry.trackingNumber}</span>
+                      <span className="ml-2 text-xs uppercase text-slate-400">{entry.carrier}</span>
+                      {entry.preAlertMatch === 'unmatched' && (
+                        <Badge variant="outline" className="ml-2 border-amber-300 bg-amber-50 text-amber-700">
+                          No pre-alert
+                        </Badge>
+                      )}
+                    </td>
+                    <td className="py-2 text-slate-500">{new Date(entry.receivedAt).toLocaleTimeString()}</td>
+                    <td className="py-2 text-right">
+                      <Button type="button" variant="ghost" size="sm" onClick={() => void printLabels([entry.id])}>
+                        <Printer className="mr-1 h-4 w-4" />
+                        Reprint
+                      </Button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
+
+export default AdminReceivingStation
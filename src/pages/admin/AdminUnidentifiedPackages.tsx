@@ -0,0 +1,453 @@
+import React, { useEffect, useState } from 'react'
+import { supabase } from '@/lib/supabase'
+import { logger } from '@/lib/logger'
+import { extractMailboxNumber, identifyCarrier } from '@/lib/receiving'
+import { useMailboxPrefixes } from '@/hooks/useMailboxPrefixes'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { toast } from 'sonner'
+import { Clock, Loader2, PackagePlus, Search, UserCheck } from 'lucide-react'
+
+type QueueStatus = 'unassigned' | 'assigned'
+
+type UnidentifiedPackage = {
+  id: string
+  tracking_number: string
+  carrier: string | null
+  shipper_name: string | null
+  recipient_name: string | null
+  label_text: string | null
+  weight: number | null
+  dimensions: { length: number; width: number; height: number } | null
+  notes: string | null
+  status: QueueStatus
+  created_at: string
+  assigned_at: string | null
+  assigned_mailbox_number: string | null
+  facility_name: string | null
+  hours_unassigned: number
+}
+
+type QueueStats = {
+  open: number
+  oldest_open_hours: number | null
+  assigned_last_30_days: number
+  average_hours_to_assign: number | null
+}
+
+type QueueResponse = {
+  packages: UnidentifiedPackage[]
+  stats: QueueStats
+}
+
+const emptyHoldForm = { trackingNumber: '', shipperName: '', recipientName: '', labelText: '', notes: '' }
+
+const formatHours = (hours: number | null) => {
+  if (hours === null) return '—'
+  if (hours < 1) return `${Math.round(hours * 60)} min`
+  if (hours < 48) return `${hours.toFixed(1)} h`
+  return `${(hours / 24).toFixed(1)} days`
+}
+
+const invokeFunction = async <T,>(name: string, body: Record<string, unknown>) => {
+  const { data, error } = await supabase.functions.invoke<T>(name, { body })
+  if (error) {
+    const details = await error.context?.json?.().catch(() => null)
+    throw new Error(details?.error?.message || error.message)
+  }
+  return data as T
+}
+
+const AdminUnidentifiedPackages: React.FC = () => {
+  const mailboxPrefixes = useMailboxPrefixes()
+  const [status, setStatus] = useState<QueueStatus>('unassigned')
+  const [search, setSearch] = useState('')
+  const [appliedSearch, setAppliedSearch] = useState('')
+  const [queue, setQueue] = useState<QueueResponse | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [assigning, setAssigning] = useState<UnidentifiedPackage | null>(null)
+  const [mailboxNumber, setMailboxNumber] = useState('')
+  const [mailboxName, setMailboxName] = useState<string | null>(null)
+  const [isAssigning, setIsAssigning] = useState(false)
+  const [holdOpen, setHoldOpen] = useState(false)
+  const [holdForm, setHoldForm] = useState(emptyHoldForm)
+  const [isHolding, setIsHolding] = useState(false)
+
+  useEffect(() => {
+    void loadQueue()
+  }, [status, appliedSearch])
+
+  const loadQueue = async () => {
+    try {
+      setIsLoading(true)
+      const data = await invokeFunction<QueueResponse>('admin-unidentified-packages', {
+        action: 'list',
+        status,
+        search: appliedSearch
+      })
+      setQueue(data)
+    } catch (err) {
+      logger.error('Error loading unidentified packages', err, {
+        component: 'AdminUnidentifiedPackages',
+        action: 'loadQueue'
+      })
+      toast.error(err instanceof Error ? err.message : 'Unable to load unidentified packages.')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleSearch = (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+    setAppliedSearch(search.trim())
+  }
+
+  const openAssign = (pkg: UnidentifiedPackage) => {
+    setAssigning(pkg)
+    setMailboxNumber('')
+    setMailboxName(null)
+  }
+
+  const verifyMailbox = async (value: string) => {
+    const normalized = extractMailboxNumber(value, mailboxPrefixes) ?? value.trim().toUpperCase()
+    setMailboxName(null)
+    if (!normalized) return
+    const { data } = await supabase
+      .from('virtual_mailbox_details')
+      .select('mailbox_number,full_name')
+      .eq('mailbox_number', normalized)
+      .maybeSingle()
+    if (data) {
+      setMailboxNumber(data.mailbox_number)
+      setMailboxName(data.full_name || 'Customer')
+    }
+  }
+
+  const handleAssign = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+    if (!assigning) return
+    if (!mailboxName) {
+      toast.error('Enter a mailbox number that exists before assigning.')
+      return
+    }
+
+    try {
+      setIsAssigning(true)
+      // Receiving the package against the mailbox sends the usual arrival notification
+      await invokeFunction<{ message: string }>('admin-receive-package', {
+        mailboxNumber,
+        packages: [
+          {
+            trackingNumber: assigning.tracking_number,
+            carrier: assigning.carrier,
+            weight: assigning.weight,
+            dimensions: assigning.dimensions,
+            notes: assigning.notes,
+            unidentifiedPackageId: assigning.id
+          }
+        ]
+      })
+      toast.success(`${assigning.tracking_number} assigned to ${mailboxNumber}. The customer has been notified.`)
+      setAssigning(null)
+      void loadQueue()
+    } catch (err) {
+      logger.error('Error assigning unidentified package', err, {
+        component: 'AdminUnidentifiedPackages',
+        action: 'handleAssign'
+      })
+      toast.error(err instanceof Error ? err.message : 'Unable to assign the package.')
+    } finally {
+      setIsAssigning(false)
+    }
+  }
+
+  const handleHold = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+    const trackingNumber = holdForm.trackingNumber.replace(/[\s-]/g, '').toUpperCase()
+    if (!trackingNumber) {
+      toast.error('Enter the tracking number from the label.')
+      return
+    }
+
+    try {
+      setIsHolding(true)
+      const carrier = identifyCarrier(trackingNumber)
+      const data = await invokeFunction<{ message: string }>('admin-unidentified-packages', {
+        action: 'hold',
+        packages: [{ ...holdForm, trackingNumber, carrier: carrier === 'Generic' ? null : carrier }]
+      })
+      toast.success(data.message)
+      setHoldOpen(false)
+      setHoldForm(emptyHoldForm)
+      if (status === 'unassigned') void loadQueue()
+    } catch (err) {
+      logger.error('Error holding unidentified package', err, {
+        component: 'AdminUnidentifiedPackages',
+        action: 'handleHold'
+      })
+      toast.error(err instanceof Error ? err.message : 'Unable to hold the package.')
+    } finally {
+      setIsHolding(false)
+    }
+  }
+
+  const stats = queue?.stats
+  const packages = queue?.packages ?? []
+
+  return (
+    <div className="p-6 lg:p-8 space-y-6">
+      <div className="flex flex-col gap-2 md:flex-row md:items-end md:justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-slate-900">Unidentified Packages</h1>
+          <p className="text-sm text-slate-600">
+            Packages that arrived without a usable suite number. Find the owner, then assign them to a mailbox.
+          </p>
+        </div>
+        <Button variant="outline" size="sm" onClick={() => setHoldOpen(true)}>
+          <PackagePlus className="mr-2 h-4 w-4" />
+          Hold a package
+        </Button>
+      </div>
+
+      <div className="grid gap-4 grid-cols-2 lg:grid-cols-4 max-w-5xl">
+        {[
+          { label: 'Waiting', value: stats ? String(stats.open) : '—' },
+          { label: 'Oldest waiting', value: formatHours(stats?.oldest_open_hours ?? null) },
+          { label: 'Average time to assign', value: formatHours(stats?.average_hours_to_assign ?? null) },
+          { label: 'Assigned (30 days)', value: stats ? String(stats.assigned_last_30_days) : '—' }
+        ].map((item) => (
+          <Card key={item.label}>
+            <CardContent className="pt-6">
+              <p className="text-xs font-medium uppercase text-slate-500">{item.label}</p>
+              <p className="mt-1 text-2xl font-semibold text-slate-900">{item.value}</p>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <Card className="max-w-5xl">
+        <CardHeader className="space-y-4">
+          <div className="flex items-center justify-between gap-2">
+            <CardTitle>{status === 'unassigned' ? 'Waiting for an owner' : 'Recently assigned'}</CardTitle>
+            <div className="flex gap-2">
+              <Button
+                type="button"
+                size="sm"
+                variant={status === 'unassigned' ? 'default' : 'outline'}
+                onClick={() => setStatus('unassigned')}
+              >
+                Unassigned
+              </Button>
+              <Button
+                type="button"
+                size="sm"
+                variant={status === 'assigned' ? 'default' : 'outline'}
+                onClick={() => setStatus('assigned')}
+              >
+                Assigned
+              </Button>
+            </div>
+          </div>
+          <form className="flex gap-2" onSubmit={handleSearch}>
+            <Input
+              value={search}
+              onChange={(event) => setSearch(event.target.value)}
+              placeholder="Shipper, recipient name on the label or part of the tracking number"
+              autoComplete="off"
+            />
+            <Button type="submit" variant="outline" disabled={isLoading}>
+              <Search className="mr-2 h-4 w-4" />
+              Search
+            </Button>
+          </form>
+        </CardHeader>
+        <CardContent>
+          {isLoading && !queue ? (
+            <p className="text-sm text-slate-500">Loading…</p>
+          ) : packages.length === 0 ? (
+            <p className="text-sm text-slate-500">
+              {appliedSearch ? 'No packages match this search.' : 'Nothing here right now.'}
+            </p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-slate-200 text-left text-xs uppercase text-slate-500">
+                  <th className="py-2">Tracking</th>
+                  <th className="py-2">Shipper</th>
+                  <th className="py-2">Recipient on label</th>
+                  <th className="py-2">Facility</th>
+                  <th className="py-2">{status === 'unassigned' ? 'Waiting' : 'Time to assign'}</th>
+                  <th className="py-2" />
+                </tr>
+              </thead>
+              <tbody>
+                {packages.map((pkg) => (
+                  <tr key={pkg.id} className="border-b border-slate-100 align-top">
+                    <td className="py-2">
+                      <span className="font-mono">{pkg.tracking_number}</span>
+                      {pkg.carrier && <span className="ml-2 text-xs uppercase text-slate-400">{pkg.carrier}</span>}
+                      {pkg.label_text && <p className="mt-1 text-xs text-slate-500">{pkg.label_text}</p>}
+                    </td>
+                    <td className="py-2">{pkg.shipper_name || '—'}</td>
+                    <td className="py-2">{pkg.recipient_name || '—'}</td>
+                    <td className="py-2">{pkg.facility_name || '—'}</td>
+                    <td className="py-2">
+                      <span className="inline-flex items-center gap-1 text-slate-600">
+                        <Clock className="h-3 w-3" />
+                        {formatHours(pkg.hours_unassigned)}
+                      </span>
+                      <p className="text-xs text-slate-400">Arrived {new Date(pkg.created_at).toLocaleDateString()}</p>
+                    </td>
+                    <td className="py-2 text-right">
+                      {pkg.status === 'unassigned' ? (
+                        <Button type="button" size="sm" onClick={() => openAssign(pkg)}>
+                          Assign
+                        </Button>
+                      ) : (
+                        <Badge variant="outline" className="font-mono">
+                          {pkg.assigned_mailbox_number ?? 'Assigned'}
+                        </Badge>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={assigning !== null} onOpenChange={(open) => !open && setAssigning(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Assign to a mailbox</DialogTitle>
+            <DialogDescription>
+              {assigning?.tracking_number} will be received into the mailbox and the customer notified.
+            </DialogDescription>
+          </DialogHeader>
+          <form className="space-y-4" onSubmit={handleAssign}>
+            <div className="space-y-1">
+              <Label htmlFor="assignMailbox">Mailbox number</Label>
+              <Input
+                id="assignMailbox"
+                value={mailboxNumber}
+                onChange={(event) => {
+                  setMailboxNumber(event.target.value.toUpperCase())
+                  setMailboxName(null)
+                }}
+                onBlur={(event) => void verifyMailbox(event.target.value)}
+                placeholder="QCS100123"
+                autoComplete="off"
+                className="uppercase"
+                required
+              />
+              {mailboxName && (
+                <p className="flex items-center gap-1 text-sm text-emerald-700">
+                  <UserCheck className="h-4 w-4" />
+                  {mailboxName}
+                </p>
+              )}
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setAssigning(null)} disabled={isAssigning}>
+                Cancel
+              </Button>
+              {mailboxName ? (
+                <Button type="submit" disabled={isAssigning}>
+                  {isAssigning && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Assign and notify
+                </Button>
+              ) : (
+                <Button type="button" variant="outline" onClick={() => void verifyMailbox(mailboxNumber)}>
+                  Look up mailbox
+                </Button>
+              )}
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={holdOpen} onOpenChange={setHoldOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Hold an unidentified package</DialogTitle>
+            <DialogDescription>Record what the label shows so the owner can be found later.</DialogDescription>
+          </DialogHeader>
+          <form className="space-y-4" onSubmit={handleHold}>
+            <div className="space-y-1">
+              <Label htmlFor="holdTracking">Tracking number</Label>
+              <Input
+                id="holdTracking"
+                value={holdForm.trackingNumber}
+                onChange={(event) => setHoldForm({ ...holdForm, trackingNumber: event.target.value })}
+                className="font-mono"
+                required
+              />
+            </div>
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="space-y-1">
+                <Label htmlFor="holdShipper">Shipper</Label>
+                <Input
+                  id="holdShipper"
+                  value={holdForm.shipperName}
+                  onChange={(event) => setHoldForm({ ...holdForm, shipperName: event.target.value })}
+                  maxLength={120}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="holdRecipient">Recipient name on label</Label>
+                <Input
+                  id="holdRecipient"
+                  value={holdForm.recipientName}
+                  onChange={(event) => setHoldForm({ ...holdForm, recipientName: event.target.value })}
+                  maxLength={120}
+                />
+              </div>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="holdLabelText">Other label text</Label>
+              <Textarea
+                id="holdLabelText"
+                value={holdForm.labelText}
+                onChange={(event) => setHoldForm({ ...holdForm, labelText: event.target.value })}
+                placeholder="Address lines, a wrong suite number, order references…"
+                rows={3}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="holdNotes">Notes</Label>
+              <Input
+                id="holdNotes"
+                value={holdForm.notes}
+                onChange={(event) => setHoldForm({ ...holdForm, notes: event.target.value })}
+              />
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setHoldOpen(false)} disabled={isHolding}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isHolding}>
+                {isHolding && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Hold package
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
+
+export default AdminUnidentifiedPackages
@@ -85,6 +85,8 @@ export default function RegisterPage() {
   const [success, setSuccess] = useState(false)
   const [showPassword, setShowPassword] = useState(false)
   const [showConfirmPassword, setShowConfirmPassword] = useState(false)
+  const [facilities, setFacilities] = useState<{ code: string; name: string; city: string; state: string }[]>([])
+  const [facilityCode, setFacilityCode] = useState('')
   const { address: virtualAddress, loading: addressLoading, error: addressError, fetchAddress } = useVirtualAddress()
 
   const { signUp } = useAuth()
@@ -99,6 +101,24 @@ export default function RegisterPage() {
     }
   }, [])
 
+  // Offer a choice of receiving warehouse once more than one is open
+  useEffect(() => {
+    const loadFacilities = async () => {
+      const { data, error } = await supabase
+        .from('facilities')
+        .select('code,name,city,state,is_default')
+        .eq('is_active', true)
+        .order('id')
+      if (error) {
+        logger.error('Error loading facilities', error, { component: 'RegisterPage', action: 'loadFacilities' })
+        return
+      }
+      setFacilities(data || [])
+      setFacilityCode(data?.find((facility) => facility.is_default)?.code ?? '')
+    }
+    loadFacilities()
+  }, [])
+
   // Auto-save draft
   useEffect(() => {
     if (formData.email || formData.firstName) {
@@ -251,7 +271,11 @@ export default function RegisterPage() {
 
     try {
       // Sign up user
-      const { data, error: signUpError } = await signUp(formData.email, formData.password)
+      const { data, error: signUpError } = await signUp(
+        formData.email,
+        formData.password,
+        facilityCode ? { facility_code: facilityCode } : undefined
+      )
       
       if (signUpError) {
         logger.error('Sign up error', signUpError, {
@@ -703,6 +727,27 @@ export default function RegisterPage() {
                     </div>
                   </div>
 
+                  {facilities.length > 1 && (
+                    <div className="space-y-2">
+                      <Label htmlFor="facilityCode">Receiving warehouse</Label>
+                      <select
+                        id="facilityCode"
+                        className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm"
+                        value={facilityCode}
+                        onChange={(e) => setFacilityCode(e.target.value)}
+                      >
+                        {facilities.map((facility) => (
+                          <option key={facility.code} value={facility.code}>
+                            {facility.name} ({facility.city}, {facility.state})
+                          </option>
+                        ))}
+                      </select>
+                      <p className="text-xs text-gray-500">
+                        Your mailbox address will be at this warehouse. You can change it later from your dashboard.
+                      </p>
+                    </div>
+                  )}
+
                   <Alert>
                     <Shield className="h-4 w-4" />
                     <AlertDescription>
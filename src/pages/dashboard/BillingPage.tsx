@@ -0,0 +1,371 @@
+import React, { useEffect, useState } from 'react'
+import { useSearchParams } from 'react-router-dom'
+import { useAuth } from '@/contexts/AuthContext'
+import { supabase } from '@/lib/supabase'
+import { CustomerInvoice, InvoicePayment, MonthlyStatement } from '@/lib/types'
+import { AuthLayout } from '@/components/layout/AuthLayout'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import {
+  formatMoney,
+  INVOICE_STATUS_COLORS,
+  INVOICE_STATUS_LABELS,
+  PAYMENT_METHOD_LABELS
+} from '@/components/invoices/invoice-labels'
+import { AlertCircle, CreditCard, Download, FileText, Loader2, Receipt } from 'lucide-react'
+import { logger } from '@/lib/logger'
+import { toast } from 'sonner'
+
+type BillingPayment = Pick<InvoicePayment, 'id' | 'receipt_number' | 'invoice_id' | 'amount' | 'method' | 'received_at'>
+
+interface BillingSummary {
+  invoices: CustomerInvoice[]
+  payments: BillingPayment[]
+  account_credit: number
+  outstanding_balance: number
+  statements_available: boolean
+}
+
+const formatDate = (value: string | null) =>
+  value ? new Date(value).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' }) : '—'
+
+/** The current month and the eleven before it, newest first, as YYYY-MM. */
+const recentMonths = () => {
+  const now = new Date()
+  return Array.from({ length: 12 }, (_, index) => {
+    const date = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - index, 1))
+    return {
+      value: date.toISOString().slice(0, 7),
+      label: date.toLocaleDateString('en-US', { month: 'long', year: 'numeric', timeZone: 'UTC' })
+    }
+  })
+}
+
+async function invokeBilling<T>(body: Record<string, unknown>): Promise<T> {
+  const { data, error } = await supabase.functions.invoke('customer-billing', { body })
+  if (error) throw new Error(error.message)
+  if (data?.error) throw new Error(data.error.message)
+  return data as T
+}
+
+const downloadPdf = (filename: string, base64: string) => {
+  const bytes = Uint8Array.from(atob(base64), (char) => char.charCodeAt(0))
+  const url = URL.createObjectURL(new Blob([bytes], { type: 'application/pdf' }))
+  const a = document.createElement('a')
+  a.href = url
+  a.download = filename
+  a.click()
+  URL.revokeObjectURL(url)
+}
+
+export default function BillingPage() {
+  const { user } = useAuth()
+  const [searchParams, setSearchParams] = useSearchParams()
+  const months = recentMonths()
+  const [summary, setSummary] = useState<BillingSummary | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState('')
+  const [downloadingId, setDownloadingId] = useState<number | null>(null)
+  const [payingId, setPayingId] = useState<number | null>(null)
+  const [statementMonth, setStatementMonth] = useState(months[1].value)
+  const [statement, setStatement] = useState<MonthlyStatement | null>(null)
+  const [statementLoading, setStatementLoading] = useState<'view' | 'pdf' | null>(null)
+
+  useEffect(() => {
+    if (user) {
+      loadBilling()
+    }
+  }, [user])
+
+  // Back from the hosted checkout page
+  useEffect(() => {
+    const outcome = searchParams.get('payment')
+    if (!outcome) return
+    if (outcome === 'success') {
+      toast.success('Payment received. It can take a minute to show on your invoice.')
+    } else if (outcome === 'cancelled') {
+      toast.info('Payment cancelled. Nothing was charged.')
+    }
+    setSearchParams({}, { replace: true })
+  }, [searchParams])
+
+  const loadBilling = async () => {
+    try {
+      setLoading(true)
+      setError('')
+      setSummary(await invokeBilling<BillingSummary>({ action: 'list' }))
+    } catch (err: unknown) {
+      const error = err instanceof Error ? err : new Error(String(err))
+      logger.error('Error loading billing', error, {
+        component: 'BillingPage',
+        action: 'loadBilling'
+      })
+      setError(error.message || 'Failed to load billing')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleDownload = async (invoice: CustomerInvoice) => {
+    try {
+      setDownloadingId(invoice.id)
+      const data = await invokeBilling<{ filename: string; pdf_base64: string }>({
+        action: 'document',
+        invoice_id: invoice.id,
+        format: 'pdf'
+      })
+      downloadPdf(data.filename, data.pdf_base64)
+    } catch (err: unknown) {
+      const error = err instanceof Error ? err : new Error(String(err))
+      logger.error('Error downloading invoice', error, {
+        component: 'BillingPage',
+        action: 'handleDownload'
+      })
+      toast.error(error.message || 'Failed to download invoice')
+    } finally {
+      setDownloadingId(null)
+    }
+  }
+
+  const handlePay = async (invoice: CustomerInvoice) => {
+    try {
+      setPayingId(invoice.id)
+      const { data, error } = await supabase.functions.invoke('create-payment-session', {
+        body: { invoice_id: invoice.id }
+      })
+      if (error) throw new Error(error.message)
+      if (data?.error) throw new Error(data.error.message)
+      window.location.assign(data.url)
+    } catch (err: unknown) {
+      const error = err instanceof Error ? err : new Error(String(err))
+      logger.error('Error starting payment', error, {
+        component: 'BillingPage',
+        action: 'handlePay'
+      })
+      toast.error(error.message || 'Failed to start payment')
+      setPayingId(null)
+    }
+  }
+
+  const handleStatement = async (format: 'json' | 'pdf') => {
+    try {
+      setStatementLoading(format === 'pdf' ? 'pdf' : 'view')
+      if (format === 'pdf') {
+        const data = await invokeBilling<{ filename: string; pdf_base64: string }>({
+          action: 'statement',
+          month: statementMonth,
+          format: 'pdf'
+        })
+        downloadPdf(data.filename, data.pdf_base64)
+      } else {
+        const data = await invokeBilling<{ statement: MonthlyStatement }>({ action: 'statement', month: statementMonth })
+        setStatement(data.statement)
+      }
+    } catch (err: unknown) {
+      const error = err instanceof Error ? err : new Error(String(err))
+      logger.error('Error generating statement', error, {
+        component: 'BillingPage',
+        action: 'handleStatement'
+      })
+      toast.error(error.message || 'Failed to generate statement')
+    } finally {
+      setStatementLoading(null)
+    }
+  }
+
+  const invoiceNumbers = new Map((summary?.invoices ?? []).map((invoice) => [invoice.id, invoice.invoice_number]))
+
+  return (
+    <AuthLayout showTabs>
+      <section className="px-4 pt-3 pb-6 max-w-screen-md mx-auto">
+        <h1 className="text-[clamp(22px,5.8vw,32px)] leading-tight font-extrabold text-slate-900 mb-4">Billing</h1>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded mb-6">
+            <div className="flex items-center">
+              <AlertCircle className="h-4 w-4 mr-2" />
+              {error}
+            </div>
+          </div>
+        )}
+
+        {loading ? (
+          <div className="flex items-center justify-center py-16 text-slate-500">
+            <Loader2 className="h-5 w-5 animate-spin mr-2" /> Loading billing…
+          </div>
+        ) : summary && (
+          <>
+            <div className="grid grid-cols-2 gap-3 mb-6">
+              <div className="rounded-2xl border border-slate-200 bg-amber-50/40 p-4">
+                <div className="text-slate-600 text-sm">Balance Due</div>
+                <div className="mt-1 text-2xl font-bold text-shopify-maroon">{formatMoney(summary.outstanding_balance)}</div>
+              </div>
+              <div className="rounded-2xl border border-slate-200 bg-green-50/40 p-4">
+                <div className="text-slate-600 text-sm">Account Credit</div>
+                <div className="mt-1 text-2xl font-bold text-shopify-maroon">{formatMoney(summary.account_credit)}</div>
+              </div>
+            </div>
+
+            {/* Invoices */}
+            <div className="space-y-3 mb-6">
+              <h2 className="text-lg font-semibold text-slate-900">Invoices</h2>
+              {summary.invoices.length === 0 ? (
+                <div className="rounded-2xl border border-slate-200 p-6 text-center">
+                  <Receipt className="h-8 w-8 text-gray-400 mx-auto mb-3" />
+                  <h3 className="font-medium text-slate-900 mb-1">No invoices yet</h3>
+                  <p className="text-sm text-slate-600">Invoices for your shipments will appear here once they are issued.</p>
+                </div>
+              ) : (
+                <div className="space-y-2">
+                  {summary.invoices.map((invoice) => {
+                    const isCredit = invoice.document_type === 'credit_note'
+                    return (
+                      <div key={invoice.id} className="rounded-2xl border border-slate-200 p-4">
+                        <div className="flex justify-between items-start gap-3">
+                          <div>
+                            <div className="flex items-center gap-2 mb-1">
+                              <p className="font-medium text-slate-900">{invoice.invoice_number}</p>
+                              <Badge className={INVOICE_STATUS_COLORS[invoice.status]}>
+                                {isCredit ? 'Credit note' : INVOICE_STATUS_LABELS[invoice.status]}
+                              </Badge>
+                            </div>
+                            <p className="text-xs text-slate-500">
+                              Issued {formatDate(invoice.issued_at)}
+                              {!isCredit && invoice.status !== 'void' && ` • Due ${formatDate(invoice.due_date)}`}
+                              {isCredit && invoice.original_invoice_id && invoiceNumbers.get(invoice.original_invoice_id) &&
+                                ` • Credits ${invoiceNumbers.get(invoice.original_invoice_id)}`}
+                            </p>
+                          </div>
+                          <div className="text-right">
+                            <p className="font-medium text-slate-900">
+                              {formatMoney(isCredit ? -Number(invoice.total_amount) : Number(invoice.total_amount))}
+                            </p>
+                            {invoice.balance_due > 0 && (
+                              <p className="text-xs text-amber-700 mt-1">{formatMoney(invoice.balance_due)} due</p>
+                            )}
+                          </div>
+                        </div>
+                        <div className="mt-3 pt-3 border-t border-slate-100 flex items-center gap-4">
+                          {invoice.balance_due > 0 && (
+                            <button
+                              type="button"
+                              onClick={() => handlePay(invoice)}
+                              disabled={payingId !== null}
+                              className="inline-flex items-center text-sm text-shopify-pink hover:text-shopify-maroon font-medium disabled:opacity-50"
+                            >
+                              {payingId === invoice.id
+                                ? <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                                : <CreditCard className="h-4 w-4 mr-1" />}
+                              Pay {formatMoney(invoice.balance_due)}
+                            </button>
+                          )}
+                          <button
+                            type="button"
+                            onClick={() => handleDownload(invoice)}
+                            disabled={downloadingId === invoice.id}
+                            className="inline-flex items-center text-sm text-shopify-pink hover:text-shopify-maroon font-medium disabled:opacity-50"
+                          >
+                            {downloadingId === invoice.id
+                              ? <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                              : <Download className="h-4 w-4 mr-1" />}
+                            Download PDF
+                          </button>
+                        </div>
+                      </div>
+                    )
+                  })}
+                </div>
+              )}
+            </div>
+
+            {/* Payments */}
+            {summary.payments.length > 0 && (
+              <div className="space-y-3 mb-6">
+                <h2 className="text-lg font-semibold text-slate-900">Payments</h2>
+                <div className="rounded-2xl border border-slate-200 divide-y divide-slate-100">
+                  {summary.payments.map((payment) => (
+                    <div key={payment.id} className="flex justify-between items-center p-4 text-sm">
+                      <div>
+                        <p className="font-medium text-slate-900">{payment.receipt_number}</p>
+                        <p className="text-xs text-slate-500">
+                          {formatDate(payment.received_at)} • {PAYMENT_METHOD_LABELS[payment.method]}
+                          {invoiceNumbers.get(payment.invoice_id) && ` • ${invoiceNumbers.get(payment.invoice_id)}`}
+                        </p>
+                      </div>
+                      <p className="font-medium text-slate-900">{formatMoney(Number(payment.amount))}</p>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {/* Monthly statements */}
+            {summary.statements_available && (
+              <div className="space-y-3">
+                <h2 className="text-lg font-semibold text-slate-900">Monthly Statements</h2>
+                <div className="rounded-2xl border border-slate-200 p-4">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <select
+                      value={statementMonth}
+                      onChange={(e) => {
+                        setStatementMonth(e.target.value)
+                        setStatement(null)
+                      }}
+                      className="h-10 rounded-md border border-slate-300 bg-white px-3 text-sm"
+                    >
+                      {months.map((month) => (
+                        <option key={month.value} value={month.value}>{month.label}</option>
+                      ))}
+                    </select>
+                    <Button variant="outline" onClick={() => handleStatement('json')} disabled={statementLoading !== null}>
+                      {statementLoading === 'view' ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <FileText className="h-4 w-4 mr-2" />}
+                      View
+                    </Button>
+                    <Button onClick={() => handleStatement('pdf')} disabled={statementLoading !== null}>
+                      {statementLoading === 'pdf' ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Download className="h-4 w-4 mr-2" />}
+                      Download PDF
+                    </Button>
+                  </div>
+
+                  {statement && (
+                    <div className="mt-4 text-sm">
+                      <div className="flex justify-between py-2 border-b border-slate-100">
+                        <span className="text-slate-600">Opening balance</span>
+                        <span className="font-medium">{formatMoney(statement.opening_balance)}</span>
+                      </div>
+                      {statement.entries.length === 0 ? (
+                        <p className="py-3 text-slate-500">No invoices or payments this month.</p>
+                      ) : (
+                        statement.entries.map((entry, index) => (
+                          <div key={`${entry.reference}-${index}`} className="flex justify-between gap-3 py-2 border-b border-slate-100">
+                            <div>
+                              <p className="text-slate-900">{entry.reference}</p>
+                              <p className="text-xs text-slate-500">{formatDate(entry.date)} • {entry.description}</p>
+                            </div>
+                            <div className="text-right">
+                              <p className={entry.credit ? 'text-green-700' : 'text-slate-900'}>
+                                {entry.charge ? formatMoney(entry.charge) : entry.credit ? `−${formatMoney(entry.credit)}` : '—'}
+                              </p>
+                              <p className="text-xs text-slate-500">{formatMoney(entry.balance)}</p>
+                            </div>
+                          </div>
+                        ))
+                      )}
+                      <div className="flex justify-between py-2 font-semibold">
+                        <span>Closing balance</span>
+                        <span>{formatMoney(statement.closing_balance)}</span>
+                      </div>
+                      <p className="text-xs text-slate-500">
+                        {statement.shipments.length} shipment{statement.shipments.length === 1 ? '' : 's'} this month
+                      </p>
+                    </div>
+                  )}
+                </div>
+              </div>
+            )}
+          </>
+        )}
+      </section>
+    </AuthLayout>
+  )
+}
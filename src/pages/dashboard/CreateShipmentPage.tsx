@@ -88,8 +88,14 @@ export default function CreateShipmentPage() {
   const [error, setError] = useState('')
   const [success, setSuccess] = useState(false)
   const [createdShipmentId, setCreatedShipmentId] = useState<string>('')
+  const [bookingParams, setBookingParams] = useState<URLSearchParams | null>(null)
   const [currentStep, setCurrentStep] = useState(0)
 
+  // Set when arriving from an accepted quote on the My Quotes page
+  const quoteIdParam = searchParams.get('quote_id')
+  const quoteId = quoteIdParam ? parseInt(quoteIdParam, 10) : null
+  const quoteReference = searchParams.get('quote_reference')
+
   const steps = [
     { id: 'destination', label: 'Destination & Service', description: 'Select destination and service level' },
     { id: 'items', label: 'Shipment Items', description: 'Add items to ship' },
@@ -180,7 +186,7 @@ export default function CreateShipmentPage() {
         ...prev,
         items: [{
           ...prev.items[0],
-          description: prev.items[0].description || 'Items from shipping calculator',
+          description: prev.items[0].description || (quoteId ? `Items from quote ${quoteReference || quoteId}` : 'Items from shipping calculator'),
           weight: weight > 0 ? weight : prev.items[0].weight,
           length,
           width,
@@ -326,6 +332,7 @@ export default function CreateShipmentPage() {
           pickup_date: formData.pickup_date || null,
           special_instructions: formData.special_instructions,
           declared_value: formData.declared_value || null,
+          quote_id: quoteId,
           items: formData.items
         }
       })
@@ -383,6 +390,12 @@ export default function CreateShipmentPage() {
       })
         setSuccess(true)
         setCreatedShipmentId(shipmentResult.shipment.id || '')
+        setBookingParams(new URLSearchParams({
+          shipmentId: String(shipmentResult.shipment.id),
+          destinationId: formData.destination_id,
+          serviceType: formData.service_level,
+          weight: getTotalWeight().toString()
+        }))
         
         // Clear draft on success
         draftStorage.clear('create_shipment')
@@ -467,6 +480,27 @@ export default function CreateShipmentPage() {
                 </p>
               </div>
               
+              {quoteId && bookingParams && (
+                <div className="space-y-2">
+                  <p className="text-sm text-slate-700">How will your shipment reach us?</p>
+                  <div className="flex flex-col sm:flex-row gap-3">
+                    <Button
+                      onClick={() => navigate(`/booking?${bookingParams.toString()}&mode=pickup`)}
+                      className="flex-1"
+                    >
+                      Schedule Pickup
+                    </Button>
+                    <Button
+                      onClick={() => navigate(`/booking?${bookingParams.toString()}&mode=dropoff`)}
+                      className="flex-1"
+                      variant="outline"
+                    >
+                      Book Drop-off
+                    </Button>
+                  </div>
+                </div>
+              )}
+
               <div className="flex flex-col sm:flex-row gap-3">
                 <Button 
                   onClick={() => navigate('/dashboard')} 
@@ -520,6 +554,16 @@ export default function CreateShipmentPage() {
           </Alert>
         )}
 
+        {quoteId && (
+          <Alert className="mb-6 bg-green-50 border-green-200">
+            <AlertCircle className="h-4 w-4 text-green-600" />
+            <AlertDescription className="text-green-800">
+              Details are filled in from accepted quote {quoteReference || `#${quoteId}`}. Changing the destination,
+              service or weight means the quoted price may no longer apply.
+            </AlertDescription>
+          </Alert>
+        )}
+
         {/* Draft Notice */}
         {draftStorage.exists('create_shipment') && (
           <Alert className="mb-6 bg-blue-50 border-blue-200">
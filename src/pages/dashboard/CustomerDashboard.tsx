@@ -20,11 +20,16 @@ import {
   LogOut,
   User,
   Inbox,
-  Trash2
+  Trash2,
+  Layers
 } from 'lucide-react'
 import { BreadcrumbNavigation } from '@/components/BreadcrumbNavigation'
 import { useVirtualAddress } from '@/hooks/useVirtualAddress'
 import VirtualAddressCard from '@/components/VirtualAddressCard'
+import ConsolidationDialog from '@/components/mailbox/ConsolidationDialog'
+import PackagePhotoThumbnails from '@/components/mailbox/PackagePhotoThumbnails'
+import PreAlertsCard from '@/components/mailbox/PreAlertsCard'
+import FacilityCard from '@/components/mailbox/FacilityCard'
 import { featureFlags } from '@/lib/featureFlags'
 
 interface UserProfile {
@@ -102,9 +107,17 @@ interface ReceivedPackage {
   created_at: string
   notes: string | null
   carrier: string | null
+  weight: number | null
+  retailer: string | null
+  photo_paths: string[]
 }
 
 const statusConfig = {
+  awaiting_consolidation: {
+    label: 'Consolidating',
+    icon: Layers,
+    badgeClass: 'text-violet-600 border-violet-200 bg-violet-50'
+  },
   pending_pickup: {
     label: 'Pending Pickup',
     icon: Clock,
@@ -161,6 +174,8 @@ export default function CustomerDashboard() {
   const [quotes, setQuotes] = useState<Quote[]>([])
   const [stats, setStats] = useState<DashboardStats | null>(null)
   const [receivedPackages, setReceivedPackages] = useState<ReceivedPackage[]>([])
+  const [selectedPackageIds, setSelectedPackageIds] = useState<string[]>([])
+  const [consolidateOpen, setConsolidateOpen] = useState(false)
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState('')
   const [signingOut, setSigningOut] = useState(false)
@@ -247,13 +262,14 @@ export default function CustomerDashboard() {
           .from('shipping_quotes')
           .select('*')
           .eq('customer_id', user?.id)
+          .eq('is_latest_revision', true)
           .order('created_at', { ascending: false })
           .limit(5),
 
         // Load recently received packages
         supabase
           .from('received_packages')
-          .select('id, tracking_number, status, created_at, notes, carrier')
+          .select('id, tracking_number, status, created_at, notes, carrier, weight, retailer, received_package_photos(storage_path, created_at)')
           .order('created_at', { ascending: false })
           .limit(10)
       ])
@@ -309,10 +325,19 @@ export default function CustomerDashboard() {
           status: (pkg.status || 'received_at_warehouse') as PackageStatus,
           created_at: pkg.created_at,
           notes: pkg.notes,
-          carrier: pkg.carrier
+          carrier: pkg.carrier,
+          weight: pkg.weight === null ? null : Number(pkg.weight),
+          retailer: pkg.retailer ?? null,
+          photo_paths: (pkg.received_package_photos || [])
+            .sort((a: { created_at: string }, b: { created_at: string }) => a.created_at.localeCompare(b.created_at))
+            .map((photo: { storage_path: string }) => photo.storage_path)
         })) as ReceivedPackage[]
 
         setReceivedPackages(sanitized)
+        // Packages that were forwarded meanwhile drop out of the selection
+        setSelectedPackageIds((prev) =>
+          prev.filter((id) => sanitized.some((pkg) => pkg.id === id && pkg.status === 'received_at_warehouse'))
+        )
       }
 
       // Calculate stats
@@ -324,7 +349,7 @@ export default function CustomerDashboard() {
 
       const dashboardStats: DashboardStats = {
         total_shipments: shipments.length,
-        pending_shipments: shipments.filter((s: any) => ['pending_pickup', 'picked_up', 'processing'].includes(s.status)).length,
+        pending_shipments: shipments.filter((s: any) => ['awaiting_consolidation', 'pending_pickup', 'picked_up', 'processing'].includes(s.status)).length,
         in_transit_shipments: shipments.filter((s: any) => ['in_transit', 'customs_clearance', 'out_for_delivery'].includes(s.status)).length,
         delivered_shipments: shipments.filter((s: any) => s.status === 'delivered').length,
         total_spent: shipments.reduce((sum: number, s: any) => sum + (parseFloat(s.total_declared_value) || 0), 0),
@@ -383,6 +408,12 @@ export default function CustomerDashboard() {
     })
   }
 
+  const togglePackageSelection = (id: string) => {
+    setSelectedPackageIds((prev) => (prev.includes(id) ? prev.filter((value) => value !== id) : [...prev, id]))
+  }
+
+  const selectedPackages = receivedPackages.filter((pkg) => selectedPackageIds.includes(pkg.id))
+
   const getPackageStatusBadge = (status: PackageStatus) => {
     const badgeClassMap: Record<PackageStatus, string> = {
       received_at_warehouse: 'text-blue-600 border-blue-200 bg-blue-50',
@@ -499,16 +530,34 @@ export default function CustomerDashboard() {
             </div>
           )}
           <VirtualAddressCard address={address} loading={addressLoading} onRefresh={fetchAddress} />
+          <FacilityCard address={address} onTransferred={fetchAddress} />
         </div>
 
         {/* Received Packages */}
         <div className="space-y-3 mb-6">
           <div className="flex justify-between items-center">
             <h2 className="text-lg font-semibold text-slate-900">Recently Received Packages</h2>
-            {receivedPackages.length > 0 && (
-              <span className="text-xs text-slate-500">Showing the 10 most recent entries</span>
+            {selectedPackages.length > 0 ? (
+              <Button
+                size="sm"
+                onClick={() => setConsolidateOpen(true)}
+                disabled={selectedPackages.length < 2}
+                className="gap-1 bg-emerald-700 hover:bg-emerald-800"
+              >
+                <Layers className="h-4 w-4" />
+                Consolidate {selectedPackages.length}
+              </Button>
+            ) : (
+              receivedPackages.length > 0 && (
+                <span className="text-xs text-slate-500">Showing the 10 most recent entries</span>
+              )
             )}
           </div>
+          {receivedPackages.filter((pkg) => pkg.status === 'received_at_warehouse').length >= 2 && (
+            <p className="text-xs text-slate-500">
+              Select two or more packages at the warehouse to ship them together in one box.
+            </p>
+          )}
           {receivedPackages.length === 0 ? (
             <div className="rounded-2xl border border-slate-200 p-6 text-center">
               <Inbox className="h-8 w-8 text-gray-400 mx-auto mb-3" />
@@ -522,10 +571,25 @@ export default function CustomerDashboard() {
               {receivedPackages.map((pkg) => (
                 <div key={pkg.id} className="rounded-2xl border border-slate-200 p-4">
                   <div className="flex justify-between items-start">
-                    <div>
-                      <p className="font-mono text-sm text-slate-900">{pkg.tracking_number}</p>
-                      <p className="text-xs text-slate-500">Logged {formatDateTime(pkg.created_at)}</p>
-                      {pkg.notes && <p className="text-xs text-amber-600 mt-1">Note: {pkg.notes}</p>}
+                    <div className="flex items-start gap-3">
+                      {pkg.status === 'received_at_warehouse' && (
+                        <input
+                          type="checkbox"
+                          checked={selectedPackageIds.includes(pkg.id)}
+                          onChange={() => togglePackageSelection(pkg.id)}
+                          className="mt-1 h-4 w-4 rounded border-slate-300"
+                          aria-label={`Select package ${pkg.tracking_number} for consolidation`}
+                        />
+                      )}
+                      <div>
+                        <p className="font-mono text-sm text-slate-900">{pkg.tracking_number}</p>
+                        <p className="text-xs text-slate-500">Logged {formatDateTime(pkg.created_at)}</p>
+                        {pkg.retailer && <p className="text-xs text-green-700">Pre-alerted from {pkg.retailer}</p>}
+                        {pkg.notes && <p className="text-xs text-amber-600 mt-1">Note: {pkg.notes}</p>}
+                        {pkg.photo_paths.length > 0 && (
+                          <PackagePhotoThumbnails paths={pkg.photo_paths} trackingNumber={pkg.tracking_number} />
+                        )}
+                      </div>
                     </div>
                     <div className="text-right space-y-2">
                       {getPackageStatusBadge(pkg.status)}
@@ -538,6 +602,8 @@ export default function CustomerDashboard() {
           )}
         </div>
 
+        <PreAlertsCard />
+
         {/* Recent Quotes - compact cards */}
         {quotes.length > 0 && (
           <div className="space-y-3 mb-6">
@@ -740,6 +806,16 @@ export default function CustomerDashboard() {
           )}
         </div>
       </section>
+
+      <ConsolidationDialog
+        packages={selectedPackages}
+        open={consolidateOpen}
+        onOpenChange={setConsolidateOpen}
+        onRequested={() => {
+          setSelectedPackageIds([])
+          loadDashboardData()
+        }}
+      />
     </AuthLayout>
   )
 }
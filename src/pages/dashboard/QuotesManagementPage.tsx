@@ -1,5 +1,5 @@
 import React, { useEffect, useState } from 'react'
-import { Link, useNavigate } from 'react-router-dom'
+import { Link, useNavigate, useSearchParams } from 'react-router-dom'
 import { useAuth } from '@/contexts/AuthContext'
 import { supabase } from '@/lib/supabase'
 import { ShippingQuote } from '@/lib/types'
@@ -7,6 +7,14 @@ import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Input } from '@/components/ui/input'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog'
 import { AuthLayout } from '@/components/layout/AuthLayout'
 import {
   FileText,
@@ -19,15 +27,28 @@ import {
   Mail,
   Search,
   Filter,
-  ArrowRight
+  ArrowRight,
+  CreditCard,
+  Loader2
 } from 'lucide-react'
 import { logger } from '@/lib/logger'
 import { toast } from 'sonner'
 
+interface LinkedShipment {
+  id: string
+  quote_id: number
+  tracking_number: string
+}
+
 export default function QuotesManagementPage() {
   const { user } = useAuth()
   const navigate = useNavigate()
+  const [searchParams] = useSearchParams()
   const [quotes, setQuotes] = useState<ShippingQuote[]>([])
+  const [shipmentsByQuote, setShipmentsByQuote] = useState<Record<number, LinkedShipment>>({})
+  const [acceptingQuote, setAcceptingQuote] = useState<ShippingQuote | null>(null)
+  const [accepting, setAccepting] = useState(false)
+  const [payingQuoteId, setPayingQuoteId] = useState<number | null>(null)
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const [searchTerm, setSearchTerm] = useState('')
@@ -46,6 +67,7 @@ export default function QuotesManagementPage() {
         .from('shipping_quotes')
         .select('*')
         .eq('customer_id', user?.id)
+        .eq('is_latest_revision', true)
         .order('created_at', { ascending: false })
 
       if (quotesError) {
@@ -53,6 +75,18 @@ export default function QuotesManagementPage() {
       }
 
       setQuotes(data || [])
+
+      // Accepted quotes that already became shipments go straight to booking
+      const wonIds = (data || []).filter((quote) => quote.status === 'won').map((quote) => quote.id)
+      if (wonIds.length > 0) {
+        const { data: shipments } = await supabase
+          .from('shipments')
+          .select('id, quote_id, tracking_number')
+          .in('quote_id', wonIds)
+        setShipmentsByQuote(
+          Object.fromEntries((shipments || []).map((shipment: LinkedShipment) => [shipment.quote_id, shipment]))
+        )
+      }
     } catch (err: unknown) {
       const error = err instanceof Error ? err : new Error(String(err))
       logger.error('Error loading quotes', error, {
@@ -92,6 +126,20 @@ export default function QuotesManagementPage() {
     return hoursUntilExpiry > 0 && hoursUntilExpiry <= 48
   }
 
+  // Quote documents link here with ?accept=<reference>; earlier revisions resolve to the latest one
+  const acceptReference = searchParams.get('accept')
+  useEffect(() => {
+    if (!acceptReference || quotes.length === 0) return
+    const match = quotes.find(
+      (quote) => quote.quote_reference === acceptReference || quote.base_reference === acceptReference
+    )
+    if (match && match.status === 'pending' && !isExpired(match.quote_expires_at)) {
+      setAcceptingQuote(match)
+    } else if (!match) {
+      toast.error(`Quote ${acceptReference} was not found on your account`)
+    }
+  }, [acceptReference, quotes])
+
   const getQuoteStatus = (quote: ShippingQuote) => {
     if (isExpired(quote.quote_expires_at)) return 'expired'
     return quote.status || 'pending'
@@ -111,6 +159,8 @@ export default function QuotesManagementPage() {
   const handleConvertToShipment = (quote: ShippingQuote) => {
     // Navigate to create shipment with quote data
     const params = new URLSearchParams({
+      quote_id: quote.id.toString(),
+      ...(quote.quote_reference && { quote_reference: quote.quote_reference }),
       destination_id: quote.destination_id.toString(),
       weight: quote.weight_lbs.toString(),
       service_type: quote.service_type,
@@ -122,6 +172,71 @@ export default function QuotesManagementPage() {
     navigate(`/dashboard/create-shipment?${params.toString()}`)
   }
 
+  const handleAcceptQuote = async () => {
+    if (!acceptingQuote) return
+
+    try {
+      setAccepting(true)
+      const { data, error: acceptError } = await supabase.functions.invoke('quote-accept', {
+        body: { quote_id: acceptingQuote.id }
+      })
+      if (acceptError) throw new Error(acceptError.message || 'Failed to accept quote')
+      if (data?.error) throw new Error(data.error.message || 'Failed to accept quote')
+
+      const accepted = { ...acceptingQuote, ...data.quote, status: 'won' } as ShippingQuote
+      toast.success(`Quote ${accepted.quote_reference ?? ''} accepted`)
+      setAcceptingQuote(null)
+
+      if (data.shipment && accepted.quote_metadata?.consolidation) {
+        // Consolidated packages are already at the warehouse; nothing to pick up
+        navigate(`/dashboard/shipments/${data.shipment.id}`)
+      } else if (data.shipment) {
+        navigate(bookingPath(accepted, data.shipment))
+      } else {
+        handleConvertToShipment(accepted)
+      }
+    } catch (err: unknown) {
+      const error = err instanceof Error ? err : new Error(String(err))
+      logger.error('Error accepting quote', error, {
+        component: 'QuotesManagementPage',
+        action: 'handleAcceptQuote'
+      })
+      toast.error(error.message || 'Failed to accept quote')
+    } finally {
+      setAccepting(false)
+    }
+  }
+
+  const handlePayQuote = async (quote: ShippingQuote) => {
+    try {
+      setPayingQuoteId(quote.id)
+      const { data, error: payError } = await supabase.functions.invoke('create-payment-session', {
+        body: { quote_id: quote.id }
+      })
+      if (payError) throw new Error(payError.message || 'Failed to start payment')
+      if (data?.error) throw new Error(data.error.message || 'Failed to start payment')
+      window.location.assign(data.url)
+    } catch (err: unknown) {
+      const error = err instanceof Error ? err : new Error(String(err))
+      logger.error('Error starting quote payment', error, {
+        component: 'QuotesManagementPage',
+        action: 'handlePayQuote'
+      })
+      toast.error(error.message || 'Failed to start payment')
+      setPayingQuoteId(null)
+    }
+  }
+
+  const bookingPath = (quote: ShippingQuote, shipment: Pick<LinkedShipment, 'id'>) => {
+    const params = new URLSearchParams({
+      shipmentId: String(shipment.id),
+      destinationId: quote.destination_id.toString(),
+      serviceType: quote.service_type,
+      weight: quote.weight_lbs.toString()
+    })
+    return `/booking?${params.toString()}`
+  }
+
   const handleDownloadQuote = (quote: ShippingQuote) => {
     if (quote.quote_document_html) {
       const blob = new Blob([quote.quote_document_html], { type: 'text/html' })
@@ -263,6 +378,7 @@ export default function QuotesManagementPage() {
             <div className="space-y-4">
               {filteredQuotes.map((quote) => {
                 const status = getQuoteStatus(quote)
+                const linkedShipment = shipmentsByQuote[quote.id]
                 const expired = isExpired(quote.quote_expires_at)
                 const expiringSoon = isExpiringSoon(quote.quote_expires_at)
                 const destination = quote.quote_metadata?.destination
@@ -276,6 +392,11 @@ export default function QuotesManagementPage() {
                         <div className="flex-1">
                           <div className="flex items-center gap-3 mb-2">
                             <CardTitle className="text-lg">{quote.quote_reference || `Quote #${quote.id}`}</CardTitle>
+                            {(quote.revision_number ?? 1) > 1 && (
+                              <Badge variant="outline" className="text-slate-600 border-slate-200">
+                                Revised
+                              </Badge>
+                            )}
                             <Badge
                               variant="outline"
                               className={
@@ -329,6 +450,12 @@ export default function QuotesManagementPage() {
                         </div>
                       </div>
 
+                      {linkedShipment && (
+                        <div className="mb-4 p-3 bg-green-50 rounded-lg text-sm text-green-800">
+                          <strong>Shipment:</strong> {linkedShipment.tracking_number}
+                        </div>
+                      )}
+
                       {quote.quote_metadata?.transit_label && (
                         <div className="mb-4 p-3 bg-blue-50 rounded-lg">
                           <div className="text-sm text-blue-800">
@@ -339,6 +466,15 @@ export default function QuotesManagementPage() {
 
                       <div className="flex flex-wrap gap-2 pt-4 border-t">
                         {!expired && status === 'pending' && (
+                          <Button
+                            onClick={() => setAcceptingQuote(quote)}
+                            className="flex-1 md:flex-none"
+                          >
+                            <CheckCircle className="h-4 w-4 mr-2" />
+                            Accept Quote
+                          </Button>
+                        )}
+                        {quote.status === 'won' && !linkedShipment && (
                           <Button
                             onClick={() => handleConvertToShipment(quote)}
                             className="flex-1 md:flex-none"
@@ -347,6 +483,19 @@ export default function QuotesManagementPage() {
                             Create Shipment
                           </Button>
                         )}
+                        {quote.status === 'won' && (
+                          <Button
+                            variant="outline"
+                            onClick={() => handlePayQuote(quote)}
+                            disabled={payingQuoteId !== null}
+                            className="flex-1 md:flex-none"
+                          >
+                            {payingQuoteId === quote.id
+                              ? <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                              : <CreditCard className="h-4 w-4 mr-2" />}
+                            Pay Online
+                          </Button>
+                        )}
                         {quote.quote_document_html && (
                           <Button
                             variant="outline"
@@ -357,12 +506,14 @@ export default function QuotesManagementPage() {
                             Download Quote
                           </Button>
                         )}
-                        <Link to="/booking" className="flex-1 md:flex-none">
-                          <Button variant="outline" className="w-full">
-                            <Calendar className="h-4 w-4 mr-2" />
-                            Schedule Booking
-                          </Button>
-                        </Link>
+                        {linkedShipment && (
+                          <Link to={bookingPath(quote, linkedShipment)} className="flex-1 md:flex-none">
+                            <Button variant="outline" className="w-full">
+                              <Calendar className="h-4 w-4 mr-2" />
+                              Schedule Pickup or Drop-off
+                            </Button>
+                          </Link>
+                        )}
                       </div>
                     </CardContent>
                   </Card>
@@ -372,6 +523,41 @@ export default function QuotesManagementPage() {
           )}
         </div>
       </div>
+
+      <Dialog open={Boolean(acceptingQuote)} onOpenChange={(open) => !open && !accepting && setAcceptingQuote(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Accept {acceptingQuote?.quote_reference || 'quote'}?</DialogTitle>
+            <DialogDescription>
+              We'll start a shipment with the quoted destination, service, weight and declared value. You can then
+              schedule a pickup or drop-off.
+            </DialogDescription>
+          </DialogHeader>
+          {acceptingQuote && (
+            <div className="grid grid-cols-2 gap-3 text-sm">
+              <div className="text-slate-600">Service</div>
+              <div className="font-medium text-slate-900">
+                {acceptingQuote.service_type === 'express' ? 'Express' : 'Standard'}
+              </div>
+              <div className="text-slate-600">Weight</div>
+              <div className="font-medium text-slate-900">{acceptingQuote.weight_lbs} lbs</div>
+              <div className="text-slate-600">Total</div>
+              <div className="font-medium text-slate-900">{formatCurrency(acceptingQuote.total_cost)}</div>
+              <div className="text-slate-600">Valid until</div>
+              <div className="font-medium text-slate-900">{formatDate(acceptingQuote.quote_expires_at)}</div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setAcceptingQuote(null)} disabled={accepting}>
+              Cancel
+            </Button>
+            <Button onClick={handleAcceptQuote} disabled={accepting}>
+              {accepting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <CheckCircle className="h-4 w-4 mr-2" />}
+              Accept Quote
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </AuthLayout>
   )
 }
@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest'
+
+import {
+  applyAccessorials,
+  DEFAULT_ACCESSORIAL_CATALOG,
+  parseAccessorialRequest,
+  type AccessorialContext,
+} from '../accessorial-utils'
+
+const context = (overrides: Partial<AccessorialContext> = {}): AccessorialContext => ({
+  billableWeight: 20,
+  longestSide: null,
+  serviceType: 'standard',
+  flags: [],
+  packageCount: 1,
+  storageDays: 0,
+  ...overrides,
+})
+
+const codes = (ctx: AccessorialContext) => applyAccessorials(DEFAULT_ACCESSORIAL_CATALOG, ctx).map(item => item.code)
+
+describe('applyAccessorials', () => {
+  it('charges nothing for a plain single package', () => {
+    expect(codes(context())).toEqual([])
+  })
+
+  it('applies flag-driven services only when selected', () => {
+    expect(codes(context({ flags: ['pickup', 'rush_documentation'] }))).toEqual(['pickup', 'rush_documentation'])
+  })
+
+  it('treats oversize as weight over 70 lbs or a long side', () => {
+    expect(codes(context({ billableWeight: 70 }))).toEqual([])
+    expect(codes(context({ billableWeight: 70.5 }))).toEqual(['oversize'])
+    expect(codes(context({ longestSide: 72 }))).toEqual(['oversize'])
+  })
+
+  it('charges consolidation per additional package', () => {
+    const [item] = applyAccessorials(DEFAULT_ACCESSORIAL_CATALOG, context({ packageCount: 3 }))
+    expect(item).toMatchObject({ code: 'consolidation', quantity: 2, amount: 10 })
+  })
+
+  it('bills extended storage per started week after the free period', () => {
+    const [item] = applyAccessorials(DEFAULT_ACCESSORIAL_CATALOG, context({ storageDays: 15 }))
+    expect(item).toMatchObject({ code: 'extended_storage', quantity: 40, amount: 30 })
+  })
+
+  it('honours service restrictions and minimum charges', () => {
+    const catalog = [
+      {
+        code: 'express_docs',
+        name: 'Express Docs',
+        basis: 'per_lb' as const,
+        amount: 0.1,
+        minimum_charge: 5,
+        triggers: [{ service_types: ['express'] }],
+      },
+    ]
+    expect(applyAccessorials(catalog, context())).toEqual([])
+    expect(applyAccessorials(catalog, context({ serviceType: 'express' }))[0].amount).toBe(5)
+  })
+})
+
+describe('parseAccessorialRequest', () => {
+  it('normalizes untrusted input', () => {
+    expect(parseAccessorialRequest({ flags: ['pickup', 3], packageCount: '0', storageDays: -2 })).toEqual({
+      flags: ['pickup'],
+      packageCount: 1,
+      storageDays: 0,
+    })
+    expect(parseAccessorialRequest(undefined)).toEqual({ flags: [], packageCount: 1, storageDays: 0 })
+  })
+})
@@ -0,0 +1,141 @@
+import { describe, it, expect } from 'vitest'
+
+import {
+  consolidatedPiece,
+  consolidationBlockers,
+  estimatePieces,
+  parseConsolidatedBox,
+  parseConsolidationRequest,
+  type ConsolidationPackage,
+} from '../consolidation-utils'
+import { DEFAULT_ACCESSORIAL_CATALOG } from '../accessorial-utils'
+import { rateShipment, type ShipmentDestination } from '../rating-utils'
+
+const ids = [
+  '0b7c4a1e-2f43-4f0e-9a57-1c2d3e4f5a61',
+  '0b7c4a1e-2f43-4f0e-9a57-1c2d3e4f5a62',
+  '0b7c4a1e-2f43-4f0e-9a57-1c2d3e4f5a63',
+]
+
+const pkg = (overrides: Partial<ConsolidationPackage>): ConsolidationPackage => ({
+  id: ids[0],
+  tracking_number: '1Z999AA10123456784',
+  carrier: 'UPS',
+  status: 'received_at_warehouse',
+  weight: '4.5',
+  dimensions: null,
+  ...overrides,
+})
+
+const destination: ShipmentDestination = {
+  transit_days_min: 3,
+  transit_days_max: 5,
+  rate_per_lb_1_50: 3.5,
+  rate_per_lb_51_100: 3.25,
+  rate_per_lb_101_200: 3,
+  rate_per_lb_201_plus: 2.75,
+  express_surcharge_percent: 25,
+}
+
+describe('parseConsolidationRequest', () => {
+  it('accepts a selection with destination and service', () => {
+    expect(parseConsolidationRequest({
+      package_ids: ids.slice(0, 2),
+      destination_id: '4',
+      service_type: 'express',
+      declared_value: '120.499',
+      notes: '  Fragile  ',
+    })).toEqual({
+      request: {
+        packageIds: ids.slice(0, 2),
+        destinationId: 4,
+        serviceType: 'express',
+        declaredValue: 120.5,
+        notes: 'Fragile',
+      },
+    })
+  })
+
+  it('needs two distinct valid packages', () => {
+    const base = { destination_id: 4, service_type: 'standard' }
+    expect(parseConsolidationRequest({ ...base, package_ids: [ids[0]] }))
+      .toEqual({ error: 'Select at least two packages to consolidate.' })
+    expect(parseConsolidationRequest({ ...base, package_ids: [ids[0], ids[0]] }))
+      .toEqual({ error: 'Package selection contains an invalid or repeated id.' })
+    expect(parseConsolidationRequest({ ...base, package_ids: [ids[0], 'not-a-uuid'] }))
+      .toEqual({ error: 'Package selection contains an invalid or repeated id.' })
+  })
+
+  it('rejects a missing destination or unknown service', () => {
+    expect(parseConsolidationRequest({ package_ids: ids, service_type: 'standard' }))
+      .toEqual({ error: 'A destination is required.' })
+    expect(parseConsolidationRequest({ package_ids: ids, destination_id: 4, service_type: 'overnight' }))
+      .toEqual({ error: 'Service type must be standard or express.' })
+  })
+})
+
+describe('consolidationBlockers', () => {
+  it('reports packages that are missing or already on their way', () => {
+    const packages = [
+      pkg({ id: ids[0] }),
+      pkg({ id: ids[1], tracking_number: '9400111899223100000000', status: 'forwarded' }),
+    ]
+    expect(consolidationBlockers(ids, packages)).toEqual([
+      'Package 9400111899223100000000 is forwarded and can no longer be consolidated.',
+      `Package ${ids[2]} was not found in your mailbox.`,
+    ])
+    expect(consolidationBlockers(ids.slice(0, 1), packages)).toEqual([])
+  })
+})
+
+describe('estimatePieces', () => {
+  it('rates each weighed package as its own piece and lists the rest', () => {
+    const { pieces, unweighed } = estimatePieces([
+      pkg({ dimensions: { length: '12', width: 10, height: 8 } }),
+      pkg({ id: ids[1], tracking_number: '123456789012', carrier: null, weight: null }),
+    ])
+    expect(pieces).toEqual([
+      { quantity: 1, weight: 4.5, length: 12, width: 10, height: 8, description: 'UPS 1Z999AA10123456784' },
+    ])
+    expect(unweighed).toEqual(['123456789012'])
+  })
+})
+
+describe('parseConsolidatedBox', () => {
+  it('takes the weight with all or none of the dimensions', () => {
+    expect(parseConsolidatedBox({ weight: '18.456' })).toEqual({
+      box: { weight: 18.46, length: null, width: null, height: null },
+    })
+    expect(parseConsolidatedBox({ weight: 18, length: 20, width: 16, height: '12' })).toEqual({
+      box: { weight: 18, length: 20, width: 16, height: 12 },
+    })
+    expect(parseConsolidatedBox({ weight: 18, length: 20 })).toEqual({ error: 'Enter all three dimensions, or none.' })
+    expect(parseConsolidatedBox({ weight: 0 })).toEqual({ error: 'The re-weighed weight must be greater than zero.' })
+  })
+})
+
+describe('consolidatedPiece', () => {
+  it('charges the consolidation fee for every package in the one box', () => {
+    const rating = rateShipment({
+      destinationId: 4,
+      destination,
+      pricingRules: [],
+      serviceType: 'standard',
+      pieces: [consolidatedPiece({ weight: 20, length: null, width: null, height: null }, 3)],
+      accessorials: { packageCount: 3 },
+      accessorialCatalog: DEFAULT_ACCESSORIAL_CATALOG,
+    })
+    expect(rating.weight.billable).toBe(20)
+    expect(rating.rateBreakdown.consolidationFee).toBeGreaterThan(0)
+
+    const single = rateShipment({
+      destinationId: 4,
+      destination,
+      pricingRules: [],
+      serviceType: 'standard',
+      pieces: [consolidatedPiece({ weight: 20, length: null, width: null, height: null }, 1)],
+      accessorialCatalog: DEFAULT_ACCESSORIAL_CATALOG,
+    })
+    expect(single.rateBreakdown.consolidationFee).toBe(0)
+  })
+})
@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest'
+
+import {
+  canAccessFacility,
+  facilityQueryFilter,
+  parseFacilityInput,
+  resolveFacilityFilter,
+  summarizeFacilityPackages,
+} from '../facility-utils'
+
+describe('canAccessFacility', () => {
+  it('lets unassigned admins into every facility', () => {
+    expect(canAccessFacility(null, 2)).toBe(true)
+  })
+
+  it('limits assigned staff to their facilities', () => {
+    expect(canAccessFacility([1], 1)).toBe(true)
+    expect(canAccessFacility([1], 2)).toBe(false)
+    expect(canAccessFacility([1], null)).toBe(false)
+  })
+})
+
+describe('resolveFacilityFilter', () => {
+  it('keeps the scope when no facility is requested', () => {
+    expect(resolveFacilityFilter([1, 2], undefined)).toEqual({ facilityIds: [1, 2] })
+    expect(resolveFacilityFilter(null, '')).toEqual({ facilityIds: null })
+  })
+
+  it('narrows to a requested facility inside the scope', () => {
+    expect(resolveFacilityFilter([1, 2], '2')).toEqual({ facilityIds: [2] })
+    expect(resolveFacilityFilter(null, 3)).toEqual({ facilityIds: [3] })
+  })
+
+  it('refuses facilities outside the scope', () => {
+    expect(resolveFacilityFilter([1], 2)).toEqual({ error: 'You are not assigned to that facility.' })
+    expect(resolveFacilityFilter(null, 'abc')).toEqual({ error: 'facility_id must be a facility id.' })
+  })
+})
+
+describe('facilityQueryFilter', () => {
+  it('builds an in() filter only when scoped', () => {
+    expect(facilityQueryFilter(null)).toBe('')
+    expect(facilityQueryFilter([1, 3])).toBe('&facility_id=in.(1,3)')
+    expect(facilityQueryFilter([2], 'assigned_facility_id')).toBe('&assigned_facility_id=in.(2)')
+  })
+})
+
+describe('parseFacilityInput', () => {
+  const input = {
+    code: 'eln-1',
+    name: 'QCS Cargo - Elizabeth',
+    mailbox_prefix: 'qce',
+    address_line1: '100 Port St',
+    city: 'Elizabeth',
+    state: 'NJ',
+    postal_code: '07201',
+  }
+
+  it('normalizes codes and prefixes and defaults to an active, non-default facility', () => {
+    expect(parseFacilityInput(input)).toEqual({
+      facility: {
+        code: 'ELN-1',
+        name: 'QCS Cargo - Elizabeth',
+        mailbox_prefix: 'QCE',
+        address_line1: '100 Port St',
+        address_line2: null,
+        city: 'Elizabeth',
+        state: 'NJ',
+        postal_code: '07201',
+        country: 'United States',
+        is_active: true,
+        is_default: false,
+      },
+    })
+  })
+
+  it('rejects prefixes that would not scan as mailbox numbers', () => {
+    expect(parseFacilityInput({ ...input, mailbox_prefix: 'Q1' })).toEqual({ error: 'Mailbox prefix must be 2-5 letters.' })
+  })
+
+  it('requires the address', () => {
+    expect(parseFacilityInput({ ...input, city: ' ' })).toMatchObject({ error: expect.stringContaining('city') })
+  })
+
+  it('does not allow an inactive default facility', () => {
+    expect(parseFacilityInput({ ...input, is_active: false, is_default: true })).toEqual({
+      error: 'The default facility must be active.',
+    })
+  })
+})
+
+describe('summarizeFacilityPackages', () => {
+  it('counts packages per facility, including facilities with none', () => {
+    expect(
+      summarizeFacilityPackages(
+        [
+          { id: 1, code: 'E12', name: 'Kearny' },
+          { id: 2, code: 'ELN', name: 'Elizabeth' },
+        ],
+        [
+          { facility_id: 1, status: 'picked_up' },
+          { facility_id: 1, status: 'received_at_warehouse' },
+          { facility_id: 2, status: 'received_at_warehouse' },
+        ],
+        [{ facility_id: 1 }, { facility_id: 2 }, { facility_id: 2 }],
+        [{ facility_id: 1 }]
+      )
+    ).toEqual([
+      { facility_id: 1, code: 'E12', name: 'Kearny', received: 2, picked_up: 1, held: 1, unidentified_open: 1 },
+      { facility_id: 2, code: 'ELN', name: 'Elizabeth', received: 1, picked_up: 0, held: 2, unidentified_open: 0 },
+    ])
+  })
+})
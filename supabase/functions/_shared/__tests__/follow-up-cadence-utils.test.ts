@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest'
+
+import {
+  followUpStopReason,
+  parseCadenceSteps,
+  scheduleFromStep,
+  selectCadence,
+  type FollowUpCadence,
+} from '../follow-up-cadence-utils'
+
+const cadence = (overrides: Partial<FollowUpCadence>): FollowUpCadence => ({
+  id: 1,
+  name: 'Standard',
+  destination_id: null,
+  min_quote_value: null,
+  max_quote_value: null,
+  priority: 0,
+  is_default: false,
+  is_active: true,
+  steps: [{ day: 1, channel: 'email', template: 'reminder' }],
+  ...overrides,
+})
+
+const quote = {
+  destination_id: 4,
+  total_cost: 620,
+  created_at: '2025-06-01T12:00:00Z',
+  quote_expires_at: '2025-06-08T12:00:00Z',
+  status: 'pending',
+  is_latest_revision: true,
+}
+
+const steps = [
+  { day: 1, channel: 'email' as const, template: 'reminder' as const },
+  { day: 3, channel: 'whatsapp' as const, template: 'reminder' as const },
+  { day: 6, channel: 'email' as const, template: 'expiring_soon' as const },
+  { day: 8, channel: 'email' as const, template: 'final_notice' as const },
+]
+
+describe('follow-up cadences', () => {
+  it('validates and orders steps', () => {
+    const parsed = parseCadenceSteps([
+      { day: 3, channel: 'whatsapp', template: 'reminder' },
+      { day: 1, channel: 'email', template: 'reminder' },
+    ])
+    expect('steps' in parsed && parsed.steps.map((step) => step.day)).toEqual([1, 3])
+    expect(parseCadenceSteps([])).toEqual({ error: 'A cadence needs at least one step.' })
+    expect('error' in parseCadenceSteps([{ day: 1.5, channel: 'email', template: 'reminder' }])).toBe(true)
+    expect('error' in parseCadenceSteps([{ day: 1, channel: 'sms', template: 'reminder' }])).toBe(true)
+  })
+
+  it('prefers destination rules, then priority, then the default', () => {
+    const fallback = cadence({ id: 1, is_default: true })
+    const highValue = cadence({ id: 2, min_quote_value: 500, priority: 10 })
+    const guyana = cadence({ id: 3, destination_id: 4 })
+    const inactive = cadence({ id: 4, destination_id: 4, is_active: false })
+
+    expect(selectCadence([fallback, highValue, guyana, inactive], quote)?.id).toBe(3)
+    expect(selectCadence([fallback, highValue], quote)?.id).toBe(2)
+    expect(selectCadence([fallback, highValue], { ...quote, total_cost: 120 })?.id).toBe(1)
+    expect(selectCadence([highValue], { ...quote, total_cost: 120 })).toBeNull()
+  })
+
+  it('stops once the quote is decided, superseded or expired', () => {
+    const now = new Date('2025-06-04T12:00:00Z')
+    expect(followUpStopReason(quote, now)).toBeNull()
+    expect(followUpStopReason({ ...quote, status: 'won' }, now)).toBe('won')
+    expect(followUpStopReason({ ...quote, status: 'lost' }, now)).toBe('lost')
+    expect(followUpStopReason({ ...quote, is_latest_revision: false }, now)).toBe('superseded')
+    expect(followUpStopReason(quote, new Date('2025-06-09T00:00:00Z'))).toBe('expired')
+  })
+
+  it('schedules steps from the issue date and drops those past expiry', () => {
+    expect(scheduleFromStep(quote, { steps }, 0)).toEqual({
+      follow_up_step: 0,
+      follow_up_due_at: '2025-06-02T12:00:00.000Z',
+      follow_up_status: 'scheduled',
+    })
+    expect(scheduleFromStep(quote, { steps }, 2).follow_up_due_at).toBe('2025-06-07T12:00:00.000Z')
+    expect(scheduleFromStep(quote, { steps }, 3)).toEqual({
+      follow_up_step: 4,
+      follow_up_due_at: null,
+      follow_up_status: 'completed',
+    })
+  })
+
+  it('skips overdue steps when assigning or resuming', () => {
+    const schedule = scheduleFromStep(quote, { steps }, 0, new Date('2025-06-03T00:00:00Z'))
+    expect(schedule.follow_up_step).toBe(1)
+    expect(schedule.follow_up_due_at).toBe('2025-06-04T12:00:00.000Z')
+  })
+})
@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest'
+
+import {
+  buildFxSnapshot,
+  convertFromUsd,
+  parseDisplayCurrency,
+  parseFxSnapshot,
+  selectEffectiveFxRate,
+  type FxRate,
+} from '../fx-utils'
+
+const rates: FxRate[] = [
+  { id: 1, currency_code: 'JMD', rate_per_usd: '155.5', effective_from: '2025-01-01T00:00:00Z' },
+  { id: 2, currency_code: 'JMD', rate_per_usd: '157.25', effective_from: '2025-06-01T00:00:00Z' },
+  { id: 3, currency_code: 'JMD', rate_per_usd: '160', effective_from: '2025-12-01T00:00:00Z' },
+  { id: 4, currency_code: 'GYD', rate_per_usd: '209', effective_from: '2025-01-01T00:00:00Z' },
+]
+
+describe('fx rates', () => {
+  it('accepts only the supported display currencies', () => {
+    expect(parseDisplayCurrency(' jmd ')).toBe('JMD')
+    expect(parseDisplayCurrency('USD')).toBeNull()
+    expect(parseDisplayCurrency(undefined)).toBeNull()
+  })
+
+  it('selects the latest rate already in effect', () => {
+    const at = new Date('2025-07-15T00:00:00Z')
+    expect(selectEffectiveFxRate(rates, 'JMD', at)?.id).toBe(2)
+    expect(selectEffectiveFxRate(rates, 'TTD', at)).toBeNull()
+  })
+
+  it('snapshots and converts the USD total', () => {
+    const at = new Date('2025-07-15T00:00:00Z')
+    const snapshot = buildFxSnapshot(rates[1], at)
+    expect(snapshot).toEqual({
+      currency: 'JMD',
+      ratePerUsd: 157.25,
+      rateId: 2,
+      effectiveFrom: '2025-06-01T00:00:00Z',
+      capturedAt: at.toISOString(),
+    })
+    expect(convertFromUsd(76.25, snapshot!)).toBe(11990.31)
+  })
+
+  it('reads stored snapshots back and ignores malformed ones', () => {
+    expect(parseFxSnapshot({ currency: 'XCD', ratePerUsd: 2.7, effectiveFrom: '2025-01-01' })).toMatchObject({
+      currency: 'XCD',
+      ratePerUsd: 2.7,
+      rateId: null,
+    })
+    expect(parseFxSnapshot({ currency: 'EUR', ratePerUsd: 0.9 })).toBeNull()
+    expect(parseFxSnapshot(null)).toBeNull()
+  })
+})
@@ -0,0 +1,124 @@
+import { describe, it, expect } from 'vitest'
+
+import {
+  applicableTaxRules,
+  calculateInvoiceTotals,
+  creditableAmount,
+  parseInvoiceLineItems,
+  storedLineItems,
+  type InvoiceLineItem,
+  type TaxRule,
+} from '../invoice-utils'
+
+const njTax: TaxRule = {
+  id: 1,
+  name: 'NJ Sales Tax',
+  jurisdiction: 'NJ',
+  rate: '0.06625',
+  applies_to_category: 'packaging_supplies',
+  is_active: true,
+  effective_from: '2018-01-01',
+}
+
+const lines: InvoiceLineItem[] = [
+  { description: 'Air freight', quantity: 40, unit_price: 3.5, amount: 140, category: 'shipping' },
+  { description: 'Boxes and tape', quantity: 2, unit_price: 30, amount: 60, category: 'packaging_supplies' },
+]
+
+const at = new Date('2025-06-01T12:00:00Z')
+
+describe('calculateInvoiceTotals', () => {
+  it('taxes packaging supplies only', () => {
+    const totals = calculateInvoiceTotals(lines, 0, [njTax], at)
+
+    expect(totals.subtotal).toBe(200)
+    expect(totals.taxable_amount).toBe(60)
+    expect(totals.tax_amount).toBe(3.98)
+    expect(totals.total_amount).toBe(203.98)
+    expect(totals.tax_breakdown).toEqual([
+      { rule_id: 1, name: 'NJ Sales Tax', rate: 0.06625, taxable_amount: 60, tax_amount: 3.98 },
+    ])
+  })
+
+  it('charges no tax on freight-only invoices', () => {
+    const totals = calculateInvoiceTotals([lines[0]], 0, [njTax], at)
+
+    expect(totals.tax_amount).toBe(0)
+    expect(totals.tax_breakdown).toEqual([])
+    expect(totals.total_amount).toBe(140)
+  })
+
+  it('spreads a discount across lines before taxing', () => {
+    const totals = calculateInvoiceTotals(lines, 50, [njTax], at)
+
+    // 25% off everything, so 45 of the 60 in supplies stays taxable
+    expect(totals.taxable_amount).toBe(45)
+    expect(totals.tax_amount).toBe(2.98)
+    expect(totals.total_amount).toBe(152.98)
+  })
+
+  it('caps the discount at the subtotal', () => {
+    const totals = calculateInvoiceTotals(lines, 500, [njTax], at)
+
+    expect(totals.discount_amount).toBe(200)
+    expect(totals.total_amount).toBe(0)
+  })
+})
+
+describe('applicableTaxRules', () => {
+  it('skips inactive and future rules and keeps the newest per category', () => {
+    const rules = applicableTaxRules(
+      [
+        njTax,
+        { ...njTax, id: 2, rate: 0.07, effective_from: '2025-01-01' },
+        { ...njTax, id: 3, rate: 0.08, effective_from: '2026-01-01' },
+        { ...njTax, id: 4, applies_to_category: 'storage', is_active: false },
+      ],
+      at,
+    )
+
+    expect(rules.map(rule => rule.id)).toEqual([2])
+  })
+})
+
+describe('parseInvoiceLineItems', () => {
+  it('recomputes amounts and defaults the category', () => {
+    const result = parseInvoiceLineItems([{ description: ' Bubble wrap ', quantity: 3, unit_price: 4.333, amount: 1 }])
+
+    expect(result).toEqual({
+      lineItems: [{ description: 'Bubble wrap', quantity: 3, unit_price: 4.33, amount: 13, category: 'other' }],
+    })
+  })
+
+  it('rejects unknown categories and empty lists', () => {
+    expect(parseInvoiceLineItems([])).toEqual({ error: 'At least one line item is required.' })
+    expect(parseInvoiceLineItems([{ description: 'Fuel', unit_price: 5, category: 'fuel' }])).toHaveProperty('error')
+  })
+})
+
+describe('creditableAmount', () => {
+  it('subtracts credit notes that are not void', () => {
+    const invoice = { total_amount: '203.98', status: 'sent' }
+    const credits = [
+      { total_amount: '50.00', status: 'sent' },
+      { total_amount: '100.00', status: 'void' },
+    ]
+
+    expect(creditableAmount(invoice, credits)).toBe(153.98)
+  })
+
+  it('allows nothing against drafts or void invoices', () => {
+    expect(creditableAmount({ total_amount: 10, status: 'void' }, [])).toBe(0)
+    expect(creditableAmount({ total_amount: 10, status: 'draft' }, [])).toBe(0)
+  })
+})
+
+describe('storedLineItems', () => {
+  it('reads lines stored as a JSON string by older invoices', () => {
+    const stored = JSON.stringify([{ description: 'Air Cargo Shipping', quantity: 10, unit_price: 5, amount: 50 }])
+
+    expect(storedLineItems(stored)).toEqual([
+      { description: 'Air Cargo Shipping', quantity: 10, unit_price: 5, amount: 50, category: 'other' },
+    ])
+  })
+})
@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest'
+
+import {
+  MAX_PHOTOS_PER_PACKAGE,
+  packagePhotoPath,
+  parsePackagePhotos,
+  parsePhotoDataUrl,
+} from '../package-photo-utils'
+
+const jpeg = `data:image/jpeg;base64,${btoa('\xff\xd8\xff\xe0photo')}`
+
+describe('parsePhotoDataUrl', () => {
+  it('decodes JPEG, PNG and WebP data URLs', () => {
+    const parsed = parsePhotoDataUrl(jpeg)
+    expect(parsed).toMatchObject({ photo: { contentType: 'image/jpeg', extension: 'jpg' } })
+    expect('photo' in parsed && parsed.photo.bytes[0]).toBe(0xff)
+    expect(parsePhotoDataUrl(`data:image/jpg;base64,${btoa('x')}`)).toMatchObject({ photo: { contentType: 'image/jpeg' } })
+  })
+
+  it('rejects other content', () => {
+    expect(parsePhotoDataUrl('https://example.com/photo.jpg')).toEqual({ error: 'Photos must be base64 image data URLs.' })
+    expect(parsePhotoDataUrl(`data:image/gif;base64,${btoa('x')}`)).toEqual({ error: 'Photos must be JPEG, PNG or WebP images.' })
+  })
+})
+
+describe('parsePackagePhotos', () => {
+  it('treats a missing list as no photos and numbers errors', () => {
+    expect(parsePackagePhotos(undefined)).toEqual({ photos: [] })
+    expect(parsePackagePhotos([jpeg, 'nope'])).toEqual({ error: 'Photo 2: Photos must be base64 image data URLs.' })
+  })
+
+  it('limits photos per package', () => {
+    expect(parsePackagePhotos(Array(MAX_PHOTOS_PER_PACKAGE + 1).fill(jpeg))).toEqual({
+      error: `At most ${MAX_PHOTOS_PER_PACKAGE} photos can be attached to a package.`,
+    })
+  })
+})
+
+describe('packagePhotoPath', () => {
+  it('files photos under the customer and package', () => {
+    expect(packagePhotoPath('user-1', 'pkg-1', 0, 'jpg', new Date(1700000000000))).toBe('user-1/pkg-1/1700000000000-1.jpg')
+  })
+})
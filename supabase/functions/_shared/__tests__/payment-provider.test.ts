@@ -0,0 +1,153 @@
+import { createServer, type IncomingMessage, type Server } from 'http'
+import type { AddressInfo } from 'net'
+import { afterAll, beforeAll, describe, it, expect } from 'vitest'
+
+import {
+  checkoutOutcome,
+  createStripeProvider,
+  signWebhookPayload,
+  verifyWebhookSignature,
+  type WebhookEvent,
+} from '../payment-provider'
+
+const WEBHOOK_SECRET = 'whsec_test'
+const now = new Date('2025-06-30T12:00:00Z')
+const timestamp = Math.floor(now.getTime() / 1000)
+
+const completedEvent: WebhookEvent = {
+  id: 'evt_1',
+  type: 'checkout.session.completed',
+  data: { object: { id: 'cs_1', payment_status: 'paid', amount_total: 12550, payment_intent: 'pi_1' } },
+}
+
+const signedHeader = async (body: string, at = timestamp, secret = WEBHOOK_SECRET) =>
+  `t=${at},v1=${await signWebhookPayload(body, secret, at)}`
+
+// Stands in for the provider's API: records what it was sent and answers like Checkout Sessions
+interface ReceivedRequest {
+  path: string
+  headers: IncomingMessage['headers']
+  form: URLSearchParams
+}
+
+let server: Server
+let apiBase: string
+const received: ReceivedRequest[] = []
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    let body = ''
+    req.on('data', (chunk) => { body += chunk })
+    req.on('end', () => {
+      const form = new URLSearchParams(body)
+      received.push({ path: req.url ?? '', headers: req.headers, form })
+      res.setHeader('Content-Type', 'application/json')
+      if (req.headers.authorization !== 'Bearer sk_test') {
+        res.statusCode = 401
+        res.end(JSON.stringify({ error: { message: 'Invalid API key provided' } }))
+        return
+      }
+      res.end(JSON.stringify({
+        id: `cs_${received.length}`,
+        url: `https://checkout.example.test/pay/cs_${received.length}`,
+        expires_at: Number(form.get('expires_at')),
+      }))
+    })
+  })
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+  apiBase = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+})
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve))
+})
+
+describe('createStripeProvider', () => {
+  const request = {
+    reference: 'invoice-7-abc',
+    description: 'QCS Cargo invoice INV-2025-000007',
+    amount: 125.5,
+    currency: 'USD',
+    customerEmail: 'ops@islandimports.test',
+    successUrl: 'https://www.qcs-cargo.com/dashboard/billing?payment=success',
+    cancelUrl: 'https://www.qcs-cargo.com/dashboard/billing?payment=cancelled',
+    expiresAt: new Date('2025-06-30T13:00:00Z'),
+    metadata: { invoice_id: '7' },
+  }
+
+  it('opens a checkout session for the amount in cents', async () => {
+    const provider = createStripeProvider({ secretKey: 'sk_test', webhookSecret: WEBHOOK_SECRET, apiBase })
+    const session = await provider.createCheckoutSession(request)
+
+    expect(session).toEqual({
+      id: 'cs_1',
+      url: 'https://checkout.example.test/pay/cs_1',
+      expiresAt: '2025-06-30T13:00:00.000Z',
+    })
+    const sent = received[received.length - 1]
+    expect(sent.path).toBe('/v1/checkout/sessions')
+    expect(sent.headers['idempotency-key']).toBe('invoice-7-abc')
+    expect(sent.form.get('mode')).toBe('payment')
+    expect(sent.form.get('line_items[0][price_data][unit_amount]')).toBe('12550')
+    expect(sent.form.get('line_items[0][price_data][currency]')).toBe('usd')
+    expect(sent.form.get('customer_email')).toBe('ops@islandimports.test')
+    expect(sent.form.get('metadata[invoice_id]')).toBe('7')
+    expect(sent.form.get('payment_intent_data[metadata][invoice_id]')).toBe('7')
+  })
+
+  it('surfaces the provider error message', async () => {
+    const provider = createStripeProvider({ secretKey: 'sk_wrong', webhookSecret: WEBHOOK_SECRET, apiBase })
+    await expect(provider.createCheckoutSession(request)).rejects.toThrow('Invalid API key provided')
+  })
+})
+
+describe('verifyWebhookSignature', () => {
+  const body = JSON.stringify(completedEvent)
+
+  it('accepts a correctly signed body and returns the event', async () => {
+    const check = await verifyWebhookSignature(body, await signedHeader(body), WEBHOOK_SECRET, now)
+    expect(check).toEqual({ valid: true, event: completedEvent })
+  })
+
+  it('accepts any matching signature while a secret is rotated', async () => {
+    const header = `t=${timestamp},v1=${'0'.repeat(64)},v1=${await signWebhookPayload(body, WEBHOOK_SECRET, timestamp)}`
+    expect((await verifyWebhookSignature(body, header, WEBHOOK_SECRET, now)).valid).toBe(true)
+  })
+
+  it('rejects a tampered body, the wrong secret and a missing header', async () => {
+    const header = await signedHeader(body)
+    const tampered = body.replace('12550', '1')
+    expect(await verifyWebhookSignature(tampered, header, WEBHOOK_SECRET, now)).toEqual({ valid: false, reason: 'invalid_signature' })
+    expect(await verifyWebhookSignature(body, await signedHeader(body, timestamp, 'whsec_other'), WEBHOOK_SECRET, now))
+      .toEqual({ valid: false, reason: 'invalid_signature' })
+    expect(await verifyWebhookSignature(body, null, WEBHOOK_SECRET, now)).toEqual({ valid: false, reason: 'malformed' })
+    expect(await verifyWebhookSignature(body, 'v1=abc', WEBHOOK_SECRET, now)).toEqual({ valid: false, reason: 'malformed' })
+  })
+
+  it('refuses replays outside the tolerance window', async () => {
+    const header = await signedHeader(body, timestamp - 301)
+    expect(await verifyWebhookSignature(body, header, WEBHOOK_SECRET, now)).toEqual({ valid: false, reason: 'expired' })
+  })
+})
+
+describe('checkoutOutcome', () => {
+  it('reads the session, amount and payment from a paid checkout', () => {
+    expect(checkoutOutcome(completedEvent)).toEqual({
+      kind: 'completed',
+      sessionId: 'cs_1',
+      amount: 125.5,
+      providerPaymentId: 'pi_1',
+    })
+  })
+
+  it('waits for delayed payment methods to settle', () => {
+    const unpaid = { ...completedEvent, data: { object: { ...completedEvent.data.object, payment_status: 'unpaid' } } }
+    expect(checkoutOutcome(unpaid)).toBeNull()
+    expect(checkoutOutcome({ ...completedEvent, type: 'checkout.session.async_payment_succeeded' })).toMatchObject({ kind: 'completed' })
+  })
+
+  it('expires lapsed sessions and ignores other events', () => {
+    expect(checkoutOutcome({ ...completedEvent, type: 'checkout.session.expired' })).toEqual({ kind: 'expired', sessionId: 'cs_1' })
+    expect(checkoutOutcome({ ...completedEvent, type: 'charge.refunded' })).toBeNull()
+  })
+})
@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest'
+
+import {
+  agingBucket,
+  buildAgedReceivables,
+  invoiceBalance,
+  parsePaymentInput,
+  receiptDetails,
+  type ReceivableInvoice,
+} from '../payment-utils'
+
+const now = new Date('2025-06-30T12:00:00Z')
+
+const invoice = (overrides: Partial<ReceivableInvoice>): ReceivableInvoice => ({
+  id: 1,
+  invoice_number: 'INV-2025-000001',
+  customer_id: 'cust-a',
+  due_date: '2025-07-15T00:00:00Z',
+  total_amount: '100.00',
+  amount_paid: '0',
+  amount_credited: '0',
+  ...overrides,
+})
+
+describe('parsePaymentInput', () => {
+  it('accepts cash without a reference', () => {
+    expect(parsePaymentInput({ amount: '40.005', method: 'cash' })).toEqual({
+      payment: { amount: 40.01, method: 'cash', reference: null, notes: null },
+    })
+  })
+
+  it('requires a confirmation code for Zelle and card', () => {
+    expect(parsePaymentInput({ amount: 40, method: 'zelle' })).toHaveProperty('error')
+    expect(parsePaymentInput({ amount: 40, method: 'card', reference: ' 0412 ' })).toEqual({
+      payment: { amount: 40, method: 'card', reference: '0412', notes: null },
+    })
+  })
+
+  it('rejects zero amounts and unknown methods', () => {
+    expect(parsePaymentInput({ amount: 0, method: 'cash' })).toHaveProperty('error')
+    expect(parsePaymentInput({ amount: 10, method: 'cheque' })).toHaveProperty('error')
+  })
+
+  it('leaves online payments to the payment webhook', () => {
+    expect(parsePaymentInput({ amount: 10, method: 'online', reference: 'pi_1' })).toHaveProperty('error')
+  })
+})
+
+describe('invoiceBalance', () => {
+  it('subtracts payments and credit notes', () => {
+    expect(invoiceBalance({ total_amount: '203.98', amount_paid: '100', amount_credited: '50.50' })).toBe(53.48)
+  })
+})
+
+describe('agingBucket', () => {
+  it('buckets by days past the due date', () => {
+    expect(agingBucket('2025-07-15T00:00:00Z', now)).toBe('current')
+    expect(agingBucket('2025-06-20T00:00:00Z', now)).toBe('1_30')
+    expect(agingBucket('2025-05-15T00:00:00Z', now)).toBe('31_60')
+    expect(agingBucket('2025-04-10T00:00:00Z', now)).toBe('61_90')
+    expect(agingBucket('2025-01-01T00:00:00Z', now)).toBe('90_plus')
+  })
+})
+
+describe('buildAgedReceivables', () => {
+  it('groups open balances by customer and skips settled invoices', () => {
+    const report = buildAgedReceivables(
+      [
+        invoice({ id: 1, amount_paid: '40' }),
+        invoice({ id: 2, due_date: '2025-05-15T00:00:00Z' }),
+        invoice({ id: 3, customer_id: 'cust-b', due_date: '2025-01-01T00:00:00Z', total_amount: '500' }),
+        invoice({ id: 4, customer_id: 'cust-b', amount_paid: '60', amount_credited: '40' }),
+      ],
+      new Map([['cust-a', 'Island Traders']]),
+      25,
+      now,
+    )
+
+    expect(report.totals).toEqual({ current: 60, '1_30': 0, '31_60': 100, '61_90': 0, '90_plus': 500 })
+    expect(report.total_outstanding).toBe(660)
+    expect(report.unapplied_credit).toBe(25)
+    expect(report.customers.map(row => [row.customer_name, row.total, row.invoice_count])).toEqual([
+      ['Unknown customer', 500, 1],
+      ['Island Traders', 160, 2],
+    ])
+    expect(report.customers[1].oldest_days_past_due).toBe(46)
+  })
+})
+
+describe('receiptDetails', () => {
+  it('shows the overpayment moved to account credit', () => {
+    const details = receiptDetails(
+      {
+        receipt_number: 'RCT-000012',
+        amount: '120.00',
+        applied_amount: '100.00',
+        overpayment_amount: '20.00',
+        method: 'zelle',
+        reference: 'ZL-889',
+        received_at: '2025-06-30T15:00:00Z',
+      },
+      { invoice_number: 'INV-2025-000001', total_amount: '100', amount_paid: '100', amount_credited: '0' },
+    )
+
+    expect(details).toContainEqual({ label: 'Amount received', value: '$120.00 (Zelle ZL-889)' })
+    expect(details).toContainEqual({ label: 'Added to account credit', value: '$20.00' })
+    expect(details).toContainEqual({ label: 'Balance remaining', value: '$0.00' })
+  })
+})
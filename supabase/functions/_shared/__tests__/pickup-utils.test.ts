@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest'
+
+import {
+  generatePickupCode,
+  hashPickupCode,
+  maskEmail,
+  maskPhone,
+  MAX_PICKUP_CODE_ATTEMPTS,
+  parsePickupVerification,
+  pickupCodeUnusableReason,
+} from '../pickup-utils'
+
+describe('generatePickupCode', () => {
+  it('returns six digits and keeps leading zeros', () => {
+    expect(generatePickupCode((array) => array.fill(42))).toBe('000042')
+    expect(generatePickupCode((array) => array.fill(4_294_967_295))).toBe('967295')
+    expect(generatePickupCode()).toMatch(/^\d{6}$/)
+  })
+})
+
+describe('hashPickupCode', () => {
+  it('salts the hash with the record id', async () => {
+    const hash = await hashPickupCode('123456', 'code-a')
+    expect(hash).toMatch(/^[0-9a-f]{64}$/)
+    expect(await hashPickupCode('123456', 'code-a')).toBe(hash)
+    expect(await hashPickupCode('123456', 'code-b')).not.toBe(hash)
+  })
+})
+
+describe('pickupCodeUnusableReason', () => {
+  const now = new Date('2025-03-03T15:00:00Z')
+  const record = { expires_at: '2025-03-03T15:05:00Z', attempts: 0, consumed_at: null }
+
+  it('accepts an unused code before it expires', () => {
+    expect(pickupCodeUnusableReason(record, now)).toBeNull()
+  })
+
+  it('rejects used, expired and over-tried codes', () => {
+    expect(pickupCodeUnusableReason({ ...record, consumed_at: '2025-03-03T14:59:00Z' }, now)).toContain('already been used')
+    expect(pickupCodeUnusableReason({ ...record, expires_at: '2025-03-03T15:00:00Z' }, now)).toContain('expired')
+    expect(pickupCodeUnusableReason({ ...record, attempts: MAX_PICKUP_CODE_ATTEMPTS }, now)).toContain('Too many')
+  })
+})
+
+describe('parsePickupVerification', () => {
+  it('accepts a six-digit code or an ID check', () => {
+    expect(parsePickupVerification({ method: 'otp', code: '012 345' })).toEqual({
+      verification: { method: 'otp', code: '012345' },
+    })
+    expect(parsePickupVerification({ method: 'id_check', id_type: 'passport', id_last4: ' a12b ' })).toEqual({
+      verification: { method: 'id_check', idType: 'passport', idLast4: 'A12B' },
+    })
+  })
+
+  it('rejects malformed input', () => {
+    expect(parsePickupVerification({ method: 'otp', code: '12345' })).toHaveProperty('error')
+    expect(parsePickupVerification({ method: 'id_check', id_type: 'library_card', id_last4: '1234' })).toHaveProperty('error')
+    expect(parsePickupVerification({ method: 'id_check', id_type: 'passport', id_last4: '12' })).toHaveProperty('error')
+    expect(parsePickupVerification(null)).toHaveProperty('error')
+  })
+})
+
+describe('masking', () => {
+  it('hides most of the destination', () => {
+    expect(maskEmail('ana@example.com')).toBe('a***@example.com')
+    expect(maskPhone('+15551234567')).toBe('***4567')
+  })
+})
@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest'
+
+import {
+  arrivedAsExpectedSummary,
+  indexPreAlerts,
+  normalizePreAlertTracking,
+  preAlertPackageFields,
+  type PreAlert,
+} from '../pre-alert-utils'
+
+const preAlert: PreAlert = {
+  id: 'pa-1',
+  tracking_number: '1Z999AA10123456784',
+  retailer: 'Amazon',
+  contents: 'Phone case',
+  declared_value: '24.99',
+}
+
+describe('normalizePreAlertTracking', () => {
+  it('strips spaces and dashes and upper-cases', () => {
+    expect(normalizePreAlertTracking('1z 999-aa1 0123456784')).toBe('1Z999AA10123456784')
+  })
+})
+
+describe('indexPreAlerts', () => {
+  it('finds pre-alerts by the tracking number receiving records', () => {
+    const index = indexPreAlerts([{ ...preAlert, tracking_number: '1z999aa10123456784' }])
+    expect(index.get(normalizePreAlertTracking('1Z999AA10123456784'))?.id).toBe('pa-1')
+    expect(index.get('9400111899223197428490')).toBeUndefined()
+  })
+})
+
+describe('preAlertPackageFields', () => {
+  it('copies customs details from a matching pre-alert', () => {
+    expect(preAlertPackageFields(preAlert)).toEqual({
+      pre_alert_id: 'pa-1',
+      retailer: 'Amazon',
+      contents_description: 'Phone case',
+      declared_value: 24.99,
+      pre_alert_match: 'matched',
+    })
+  })
+
+  it('flags arrivals with no pre-alert', () => {
+    expect(preAlertPackageFields(undefined)).toMatchObject({ pre_alert_id: null, pre_alert_match: 'unmatched' })
+  })
+})
+
+describe('arrivedAsExpectedSummary', () => {
+  it('lists retailer and tracking for each match', () => {
+    expect(
+      arrivedAsExpectedSummary([
+        { retailer: 'Amazon', tracking_number: '1Z999AA10123456784' },
+        { retailer: 'Shein', tracking_number: '9400111899223197428490' },
+      ])
+    ).toBe('Amazon (1Z999AA10123456784), Shein (9400111899223197428490)')
+  })
+})
@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest'
+
+import {
+  ageBand,
+  buildConversionReport,
+  percentile,
+  weightBand,
+  type ConversionQuote,
+} from '../quote-conversion-utils'
+
+const now = new Date('2025-07-01T00:00:00Z')
+
+const quote = (overrides: Partial<ConversionQuote>): ConversionQuote => ({
+  id: 1,
+  destination_id: 1,
+  service_type: 'standard',
+  weight_lbs: 40,
+  status: 'pending',
+  created_at: '2025-06-01T00:00:00Z',
+  quote_expires_at: '2025-06-08T00:00:00Z',
+  ...overrides,
+})
+
+const destinations = [
+  { id: 1, country_name: 'Jamaica', city_name: 'Kingston' },
+  { id: 2, country_name: 'Guyana', city_name: 'Georgetown' },
+]
+
+describe('quote conversion report', () => {
+  it('bands weights on the rate tiers and ages by hours', () => {
+    expect(weightBand(50).key).toBe('1-50')
+    expect(weightBand('50.5').key).toBe('51-100')
+    expect(weightBand(450).key).toBe('201+')
+    expect(ageBand(2).key).toBe('0-1d')
+    expect(ageBand(72).key).toBe('3-5d')
+  })
+
+  it('interpolates percentiles', () => {
+    expect(percentile([], 50)).toBeNull()
+    expect(percentile([10, 20, 30, 40], 50)).toBe(25)
+    expect(percentile([5], 90)).toBe(5)
+  })
+
+  it('rates conversion over closed quotes and groups lost reasons', () => {
+    const report = buildConversionReport(
+      [
+        quote({ id: 1, status: 'won', accepted_at: '2025-06-01T12:00:00Z' }),
+        quote({ id: 2, status: 'lost', lost_reason: 'price', lost_at: '2025-06-03T00:00:00Z', destination_id: 2 }),
+        quote({ id: 3, status: 'pending' }),
+        quote({ id: 4, status: 'pending', created_at: '2025-06-29T00:00:00Z', quote_expires_at: '2025-07-06T00:00:00Z' }),
+      ],
+      destinations,
+      [],
+      now,
+    )
+
+    expect(report.summary).toMatchObject({ quotes: 4, won: 1, lost: 1, expired: 1, open: 1 })
+    expect(report.summary.conversion_rate).toBe(33.3)
+    expect(report.summary.lost_reasons.price).toBe(1)
+
+    const guyana = report.by_destination.find((group) => group.key === '2')
+    expect(guyana).toMatchObject({ label: 'Georgetown, Guyana', lost: 1, conversion_rate: 0 })
+    expect(report.by_weight_band.map((group) => group.key)).toEqual(['1-50'])
+    expect(report.time_to_decision_hours.won).toEqual({ count: 1, p50: 12, p75: 12, p90: 12 })
+    expect(report.time_to_decision_hours.lost.p50).toBe(48)
+  })
+
+  it('measures revised quotes from their first revision', () => {
+    const report = buildConversionReport(
+      [
+        quote({
+          id: 9,
+          status: 'won',
+          first_created_at: '2025-06-01T00:00:00Z',
+          created_at: '2025-06-05T00:00:00Z',
+          accepted_at: '2025-06-06T00:00:00Z',
+        }),
+      ],
+      destinations,
+      [],
+      now,
+    )
+    expect(report.time_to_decision_hours.won.p50).toBe(120)
+    expect(report.by_age.map((group) => group.key)).toEqual(['5d+'])
+  })
+
+  it('counts only follow-ups sent before the decision', () => {
+    const report = buildConversionReport(
+      [quote({ id: 7, status: 'won', accepted_at: '2025-06-04T00:00:00Z' })],
+      destinations,
+      [
+        { quote_id: 7, status: 'sent', created_at: '2025-06-02T00:00:00Z' },
+        { quote_id: 7, status: 'sent', created_at: '2025-06-05T00:00:00Z' },
+        { quote_id: 7, status: 'skipped', created_at: '2025-06-03T00:00:00Z' },
+      ],
+      now,
+    )
+    expect(report.by_follow_up_step).toHaveLength(1)
+    expect(report.by_follow_up_step[0]).toMatchObject({ key: '1', label: 'After 1 follow-up', won: 1 })
+  })
+})
@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest'
+
+import { DECLINE_REASON_MAX_LENGTH, parseDeclineReason, parseLostReason, quoteDecisionBlocker } from '../quote-decision-utils'
+
+const now = new Date('2025-06-20T12:00:00Z')
+const openQuote = { status: 'pending', is_latest_revision: true, quote_expires_at: '2025-06-25T00:00:00Z' }
+
+describe('quote decisions', () => {
+  it('allows a pending, current, unexpired quote', () => {
+    expect(quoteDecisionBlocker(openQuote, now)).toBeNull()
+  })
+
+  it('blocks superseded revisions before anything else', () => {
+    expect(quoteDecisionBlocker({ ...openQuote, is_latest_revision: false, status: 'won' }, now)?.code)
+      .toBe('QUOTE_SUPERSEDED')
+  })
+
+  it('blocks quotes that are already decided or expired', () => {
+    expect(quoteDecisionBlocker({ ...openQuote, status: 'won' }, now)?.code).toBe('QUOTE_CLOSED')
+    expect(quoteDecisionBlocker({ ...openQuote, status: 'lost' }, now)?.code).toBe('QUOTE_CLOSED')
+    expect(quoteDecisionBlocker({ ...openQuote, quote_expires_at: '2025-06-19T00:00:00Z' }, now)?.code)
+      .toBe('QUOTE_EXPIRED')
+  })
+
+  it('trims and caps decline reasons', () => {
+    expect(parseDeclineReason('  Found a cheaper option ')).toBe('Found a cheaper option')
+    expect(parseDeclineReason('   ')).toBeNull()
+    expect(parseDeclineReason(undefined)).toBeNull()
+    expect(parseDeclineReason('x'.repeat(600))).toHaveLength(DECLINE_REASON_MAX_LENGTH)
+  })
+})
+
+describe('lost reasons', () => {
+  it('accepts only the structured reasons', () => {
+    expect(parseLostReason('competitor')).toBe('competitor')
+    expect(parseLostReason('too expensive')).toBeNull()
+    expect(parseLostReason(undefined)).toBeNull()
+  })
+})
@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest'
+
+import {
+  buildQuoteLinkUrl,
+  parseQuoteLinkParams,
+  quoteLinkExpiry,
+  signQuoteLink,
+  verifyQuoteLink,
+} from '../quote-link-utils'
+
+const SECRET = 'test-link-secret'
+const expiresAt = quoteLinkExpiry('2025-07-01T00:00:00Z')
+const beforeExpiry = new Date('2025-06-20T00:00:00Z')
+
+describe('quote links', () => {
+  it('signs deterministically over the quote id and expiry', async () => {
+    const first = await signQuoteLink(42, expiresAt, SECRET)
+    expect(first).toMatch(/^[0-9a-f]{64}$/)
+    expect(await signQuoteLink(42, expiresAt, SECRET)).toBe(first)
+    expect(await signQuoteLink(43, expiresAt, SECRET)).not.toBe(first)
+    expect(await signQuoteLink(42, expiresAt + 1, SECRET)).not.toBe(first)
+    expect(await signQuoteLink(42, expiresAt, 'other-secret')).not.toBe(first)
+  })
+
+  it('builds a link that round-trips through verification', async () => {
+    const url = await buildQuoteLinkUrl('https://www.qcs-cargo.com', 42, '2025-07-01T00:00:00Z', SECRET)
+    expect(url.startsWith('https://www.qcs-cargo.com/quote/view?q=42&exp=')).toBe(true)
+
+    const params = parseQuoteLinkParams(new URL(url).searchParams)
+    expect(params).toMatchObject({ quoteId: 42, expiresAt })
+    expect(await verifyQuoteLink(params, SECRET, beforeExpiry)).toEqual({ valid: true })
+  })
+
+  it('rejects tampered ids, expiries and signatures', async () => {
+    const signature = await signQuoteLink(42, expiresAt, SECRET)
+
+    expect(await verifyQuoteLink({ quoteId: 43, expiresAt, signature }, SECRET, beforeExpiry))
+      .toEqual({ valid: false, reason: 'invalid_signature' })
+    expect(await verifyQuoteLink({ quoteId: 42, expiresAt: expiresAt + 86400, signature }, SECRET, beforeExpiry))
+      .toEqual({ valid: false, reason: 'invalid_signature' })
+    expect(await verifyQuoteLink({ quoteId: 42, expiresAt, signature: 'f'.repeat(64) }, SECRET, beforeExpiry))
+      .toEqual({ valid: false, reason: 'invalid_signature' })
+  })
+
+  it('reports expired links once the expiry has passed', async () => {
+    const signature = await signQuoteLink(42, expiresAt, SECRET)
+    const afterExpiry = new Date('2025-07-02T00:00:00Z')
+    expect(await verifyQuoteLink({ quoteId: 42, expiresAt, signature }, SECRET, afterExpiry))
+      .toEqual({ valid: false, reason: 'expired' })
+  })
+
+  it('treats missing or malformed params as malformed', async () => {
+    expect(parseQuoteLinkParams({ q: '42', exp: String(expiresAt) })).toBeNull()
+    expect(parseQuoteLinkParams({ q: 'abc', exp: String(expiresAt), sig: 'a'.repeat(64) })).toBeNull()
+    expect(parseQuoteLinkParams({ q: '42', exp: String(expiresAt), sig: 'not-hex' })).toBeNull()
+    expect(await verifyQuoteLink(null, SECRET)).toEqual({ valid: false, reason: 'malformed' })
+  })
+})
@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest'
+
+import {
+  applyManualAdjustment,
+  diffQuoteRevisions,
+  MANUAL_ADJUSTMENT_CODE,
+  parseManualAdjustment,
+  revisionReference,
+} from '../quote-revision-utils'
+
+const pickup = { code: 'pickup', name: 'Pickup Service', basis: 'flat' as const, quantity: 1, unitAmount: 25, amount: 25 }
+
+describe('quote revisions', () => {
+  it('suffixes references from the second revision on', () => {
+    expect(revisionReference('QCS-20251018-KIN-1234', 1)).toBe('QCS-20251018-KIN-1234')
+    expect(revisionReference('QCS-20251018-KIN-1234', 3)).toBe('QCS-20251018-KIN-1234-R3')
+  })
+
+  it('adds a manual adjustment as its own line', () => {
+    const breakdown = { handlingFee: 25, totalCost: 100, accessorials: [pickup] }
+    const adjusted = applyManualAdjustment(breakdown, parseManualAdjustment({ label: 'Loyalty discount', amount: '-10' }))
+    expect(adjusted.totalCost).toBe(90)
+    expect(adjusted.handlingFee).toBe(15)
+    expect(adjusted.accessorials.at(-1)).toMatchObject({ code: MANUAL_ADJUSTMENT_CODE, amount: -10 })
+    expect(applyManualAdjustment(breakdown, parseManualAdjustment({ amount: 0 }))).toBe(breakdown)
+  })
+
+  it('diffs columns, billable weight and fee lines', () => {
+    const changes = diffQuoteRevisions(
+      {
+        weight_lbs: '40.00',
+        service_type: 'standard',
+        total_cost: '205.00',
+        quote_metadata: { weight: { billable: 40 }, rate_breakdown: { accessorials: [pickup] } },
+      },
+      {
+        weight_lbs: 40,
+        service_type: 'express',
+        total_cost: 230,
+        quote_metadata: { weight: { billable: 40 }, rate_breakdown: { accessorials: [] } },
+      }
+    )
+    expect(changes).toEqual([
+      { field: 'service_type', label: 'Service', before: 'standard', after: 'express' },
+      { field: 'total_cost', label: 'Total', before: 205, after: 230 },
+      { field: 'fee:pickup', label: 'Pickup Service', before: 25, after: null },
+    ])
+  })
+})
@@ -0,0 +1,396 @@
+import { describe, it, expect } from 'vitest'
+
+import {
+  buildDestinationTiers,
+  calculateBaseRate,
+  calculateInsurance,
+  DEFAULT_INSURANCE_RULES,
+  describeMeasurements,
+  findTierForWeight,
+  isRuleEffective,
+  parseInsuranceRules,
+  rateCardTiersToRules,
+  rateShipment,
+  resolvePieces,
+  repriceQuote,
+  resolveDimDivisor,
+  resolveRateTier,
+  selectRuleTiers,
+  toMetricDivisor,
+  validateRateCardTiers,
+  type DestinationRates,
+  type PricingRule,
+} from '../rating-utils'
+
+const destination: DestinationRates = {
+  rate_per_lb_1_50: '4.50',
+  rate_per_lb_51_100: '4.00',
+  rate_per_lb_101_200: '3.75',
+  rate_per_lb_201_plus: '3.50',
+  express_surcharge_percent: '25.00',
+}
+
+const rule = (overrides: Partial<PricingRule>): PricingRule => ({
+  id: 1,
+  destination_id: 7,
+  service_type: 'standard',
+  weight_min: 0,
+  weight_max: null,
+  rate_per_lb: 5,
+  express_surcharge_percent: 20,
+  effective_date: '2026-01-01T00:00:00Z',
+  expiry_date: null,
+  is_active: true,
+  ...overrides,
+})
+
+const now = new Date('2026-06-15T12:00:00Z')
+
+describe('isRuleEffective', () => {
+  it('treats effective_date as inclusive and expiry_date as exclusive', () => {
+    const scheduled = rule({ effective_date: '2026-06-15T12:00:00Z', expiry_date: '2026-07-01T00:00:00Z' })
+    expect(isRuleEffective(scheduled, now)).toBe(true)
+    expect(isRuleEffective(scheduled, new Date('2026-07-01T00:00:00Z'))).toBe(false)
+    expect(isRuleEffective(scheduled, new Date('2026-06-15T11:59:59Z'))).toBe(false)
+  })
+
+  it('ignores inactive rules', () => {
+    expect(isRuleEffective(rule({ is_active: false }), now)).toBe(false)
+  })
+})
+
+describe('selectRuleTiers', () => {
+  it('supports an arbitrary number of tiers ordered by weight', () => {
+    const tiers = selectRuleTiers(
+      [
+        rule({ id: 3, weight_min: 25, weight_max: 60, rate_per_lb: 4 }),
+        rule({ id: 1, weight_min: 0, weight_max: 10, rate_per_lb: 6 }),
+        rule({ id: 2, weight_min: 10, weight_max: 25, rate_per_lb: 5 }),
+        rule({ id: 4, weight_min: 60, weight_max: null, rate_per_lb: 3 }),
+      ],
+      { destinationId: 7, serviceType: 'standard', at: now }
+    )
+
+    expect(tiers.map(tier => tier.ruleId)).toEqual([1, 2, 3, 4])
+  })
+
+  it('prefers the most recently effective rule for the same band', () => {
+    const tiers = selectRuleTiers(
+      [
+        rule({ id: 1, rate_per_lb: 5, effective_date: '2026-01-01T00:00:00Z' }),
+        rule({ id: 2, rate_per_lb: 5.25, effective_date: '2026-06-01T00:00:00Z' }),
+      ],
+      { destinationId: 7, serviceType: 'standard', at: now }
+    )
+
+    expect(tiers).toHaveLength(1)
+    expect(tiers[0].ruleId).toBe(2)
+  })
+
+  it('excludes rules scheduled for a future date', () => {
+    const tiers = selectRuleTiers(
+      [rule({ id: 9, effective_date: '2026-07-01T00:00:00Z' })],
+      { destinationId: 7, serviceType: 'standard', at: now }
+    )
+
+    expect(tiers).toEqual([])
+  })
+
+  it('falls back to standard rules for express when no express rules exist', () => {
+    const tiers = selectRuleTiers([rule({ id: 5 })], { destinationId: 7, serviceType: 'express', at: now })
+    expect(tiers[0].ruleId).toBe(5)
+  })
+})
+
+describe('findTierForWeight', () => {
+  it('treats weight_max as a ceiling so fractional weights do not fall into gaps', () => {
+    const tiers = buildDestinationTiers(destination)
+    expect(findTierForWeight(tiers, 50)?.ratePerLb).toBe(4.5)
+    expect(findTierForWeight(tiers, 50.5)?.ratePerLb).toBe(4)
+    expect(findTierForWeight(tiers, 250)?.ratePerLb).toBe(3.5)
+  })
+
+  it('lands fractional weights between adjacent integer bands in the higher band', () => {
+    const tiers = selectRuleTiers(
+      [
+        rule({ id: 1, weight_min: 1, weight_max: 50, rate_per_lb: 6 }),
+        rule({ id: 2, weight_min: 51, weight_max: 100, rate_per_lb: 5 }),
+      ],
+      { destinationId: 7, serviceType: 'standard', at: now }
+    )
+    expect(findTierForWeight(tiers, 50.5)?.ruleId).toBe(2)
+  })
+
+  it('matches nothing below the first band or inside a gap', () => {
+    const tiers = selectRuleTiers(
+      [
+        rule({ id: 1, weight_min: 10, weight_max: 50, rate_per_lb: 6 }),
+        rule({ id: 2, weight_min: 75, weight_max: null, rate_per_lb: 5 }),
+      ],
+      { destinationId: 7, serviceType: 'standard', at: now }
+    )
+    expect(findTierForWeight(tiers, 5)).toBeNull()
+    expect(findTierForWeight(tiers, 60)).toBeNull()
+    expect(findTierForWeight(tiers, 80)?.ruleId).toBe(2)
+  })
+})
+
+describe('resolveRateTier', () => {
+  it('uses a matching pricing rule over destination columns', () => {
+    const tier = resolveRateTier([rule({ id: 11, rate_per_lb: 4.1 })], destination, {
+      destinationId: 7,
+      serviceType: 'standard',
+      billableWeight: 20,
+      at: now,
+    })
+
+    expect(tier.source).toBe('pricing_rule')
+    expect(tier.ruleId).toBe(11)
+  })
+
+  it('falls back to destination columns when no rule covers the weight', () => {
+    const tier = resolveRateTier([rule({ weight_min: 0, weight_max: 10 })], destination, {
+      destinationId: 7,
+      serviceType: 'standard',
+      billableWeight: 75,
+      at: now,
+    })
+
+    expect(tier.source).toBe('destination')
+    expect(tier.ratePerLb).toBe(4)
+  })
+
+  it('falls back to destination columns for a weight below the first rule band', () => {
+    const tier = resolveRateTier([rule({ weight_min: 10, weight_max: null, rate_per_lb: 3 })], destination, {
+      destinationId: 7,
+      serviceType: 'standard',
+      billableWeight: 5,
+      at: now,
+    })
+
+    expect(tier.source).toBe('destination')
+    expect(tier.ratePerLb).toBe(4.5)
+  })
+
+  it('falls back to destination columns for a weight inside a gap between rule bands', () => {
+    const tier = resolveRateTier(
+      [
+        rule({ id: 1, weight_min: 0, weight_max: 50, rate_per_lb: 3 }),
+        rule({ id: 2, weight_min: 150, weight_max: null, rate_per_lb: 2 }),
+      ],
+      destination,
+      { destinationId: 7, serviceType: 'standard', billableWeight: 120, at: now }
+    )
+
+    expect(tier.source).toBe('destination')
+    expect(tier.ratePerLb).toBe(3.75)
+  })
+})
+
+describe('calculateBaseRate', () => {
+  it('adds the express surcharge on top of a standard tier', () => {
+    const [tier] = buildDestinationTiers(destination)
+    const result = calculateBaseRate(tier, 10, 'express')
+    expect(result.expressSurcharge).toBeCloseTo(11.25)
+    expect(result.baseShippingCost).toBeCloseTo(56.25)
+  })
+
+  it('does not surcharge an express-specific rule', () => {
+    const [tier] = selectRuleTiers([rule({ service_type: 'express', rate_per_lb: 6 })], {
+      destinationId: 7,
+      serviceType: 'express',
+      at: now,
+    })
+    const result = calculateBaseRate(tier, 10, 'express')
+    expect(result.expressSurcharge).toBe(0)
+    expect(result.baseShippingCost).toBe(60)
+  })
+})
+
+describe('validateRateCardTiers', () => {
+  it('accepts contiguous bands per service', () => {
+    expect(
+      validateRateCardTiers([
+        { service_type: 'standard', weight_min: 50, weight_max: 100, rate_per_lb: 4 },
+        { service_type: 'standard', weight_min: 0, weight_max: 50, rate_per_lb: 4.5 },
+        { service_type: 'standard', weight_min: 100, weight_max: null, rate_per_lb: 3.75 },
+        { service_type: 'express', weight_min: 0, weight_max: null, rate_per_lb: 6 },
+      ])
+    ).toEqual([])
+  })
+
+  it('rejects a gap between bands', () => {
+    expect(
+      validateRateCardTiers([
+        { service_type: 'standard', weight_min: 0, weight_max: 50, rate_per_lb: 4.5 },
+        { service_type: 'standard', weight_min: 75, weight_max: null, rate_per_lb: 4 },
+      ])
+    ).toEqual(['standard tiers leave a gap between 50 and 75 lbs'])
+  })
+
+  it('rejects a first band that does not start at 0', () => {
+    expect(
+      validateRateCardTiers([
+        { service_type: 'express', weight_min: 1, weight_max: 50, rate_per_lb: 6 },
+        { service_type: 'express', weight_min: 50, weight_max: null, rate_per_lb: 5.5 },
+      ])
+    ).toEqual(['express tiers must start at 0 lbs'])
+  })
+
+  it('rejects overlapping bands and non-positive rates', () => {
+    const errors = validateRateCardTiers([
+      { service_type: 'standard', weight_min: 0, weight_max: 60, rate_per_lb: 4.5 },
+      { service_type: 'standard', weight_min: 50, weight_max: null, rate_per_lb: 0 },
+    ])
+    expect(errors).toContain('standard tiers overlap at 50 lbs')
+    expect(errors).toContain('Tier 2: rate per lb must be greater than zero')
+  })
+})
+
+describe('repriceQuote', () => {
+  it('compares current and proposed transport cost while keeping fees', () => {
+    const proposed = rateCardTiersToRules(
+      [{ service_type: 'standard', weight_min: 0, weight_max: null, rate_per_lb: 5 }],
+      7,
+      now
+    )
+    const result = repriceQuote(
+      {
+        id: 42,
+        quote_reference: 'QCS-1',
+        service_type: 'standard',
+        weight_lbs: '10',
+        base_shipping_cost: '45.00',
+        total_cost: '60.00',
+        quote_metadata: { weight: { billable: 12 } },
+      },
+      destination,
+      [],
+      proposed,
+      { destinationId: 7, at: now }
+    )
+
+    expect(result.billableWeight).toBe(12)
+    expect(result.currentBaseCost).toBe(54)
+    expect(result.proposedBaseCost).toBe(60)
+    expect(result.delta).toBe(6)
+    expect(result.proposedTotal).toBe(75)
+  })
+})
+
+describe('calculateInsurance', () => {
+  it('covers the included value for free and applies the minimum premium', () => {
+    expect(calculateInsurance(100)).toBe(0)
+    expect(calculateInsurance(200)).toBe(15)
+    expect(calculateInsurance(500)).toBe(30)
+  })
+
+  it('fills missing settings fields from the defaults', () => {
+    expect(parseInsuranceRules({ rate_per_hundred: '8' })).toEqual({ ...DEFAULT_INSURANCE_RULES, rate_per_hundred: 8 })
+    expect(parseInsuranceRules(null)).toEqual(DEFAULT_INSURANCE_RULES)
+  })
+})
+
+describe('rateShipment', () => {
+  const shipmentDestination = { ...destination, transit_days_min: 3, transit_days_max: 5 }
+
+  it('uses dimensional weight when it exceeds actual weight and adds handling over 70 lbs', () => {
+    const result = rateShipment({
+      destinationId: 7,
+      destination: shipmentDestination,
+      pricingRules: [],
+      serviceType: 'standard',
+      pieces: [{ weight: 40, length: 24, width: 24, height: 24 }],
+      at: now,
+    })
+
+    expect(result.weight.dimensional).toBeCloseTo(83.28, 2)
+    expect(result.weight.billable).toBeCloseTo(83.28, 2)
+    expect(result.rateBreakdown.ratePerLb).toBe(4)
+    expect(result.rateBreakdown.handlingFee).toBe(20)
+    expect(result.rateBreakdown.accessorials.map(item => item.code)).toEqual(['oversize'])
+    expect(result.rateBreakdown.totalCost).toBe(353.11)
+  })
+
+  it('totals express, consolidation and insurance and shortens transit', () => {
+    const result = rateShipment({
+      destinationId: 7,
+      destination: shipmentDestination,
+      pricingRules: [],
+      serviceType: 'express',
+      pieces: [{ weight: 10 }],
+      declaredValue: 200,
+      accessorials: { packageCount: 2 },
+      at: now,
+    })
+
+    expect(result.rateBreakdown).toMatchObject({
+      baseShippingCost: 56.25,
+      expressSurcharge: 11.25,
+      consolidationFee: 5,
+      insuranceCost: 15,
+      totalCost: 76.25,
+    })
+    expect(result.transit).toEqual({ min: 2, max: 4 })
+  })
+})
+
+describe('multi-piece rating', () => {
+  it('falls back to the legacy single weight and dimensions', () => {
+    expect(resolvePieces(undefined, '12', { length: 10, width: 10, height: 10 })).toEqual([
+      { quantity: 1, weight: 12, length: 10, width: 10, height: 10, description: null },
+    ])
+    expect(resolvePieces([{ weight: 0 }], 5)).toEqual([])
+  })
+
+  it('computes billable weight per piece before summing', () => {
+    const result = rateShipment({
+      destinationId: 7,
+      destination: { ...destination, transit_days_min: 3, transit_days_max: 5 },
+      pricingRules: [],
+      serviceType: 'standard',
+      pieces: [
+        { description: 'Barrel', quantity: 3, weight: 150, length: 24, width: 24, height: 36 },
+        { description: 'Box', quantity: 2, weight: 5, length: 20, width: 20, height: 20 },
+      ],
+      at: now,
+    })
+
+    const [barrels, boxes] = result.pieces
+    expect(barrels.unitBillableWeight).toBe(150)
+    expect(boxes.unitBillableWeight).toBeCloseTo(48.19, 2)
+    expect(result.weight.actual).toBe(460)
+    expect(result.weight.billable).toBeCloseTo(546.39, 2)
+    expect(result.rateBreakdown.consolidationFee).toBe(20)
+  })
+})
+
+describe('units and dimensional divisors', () => {
+  it('falls back from express to standard to the default divisor', () => {
+    expect(resolveDimDivisor(destination, 'standard')).toBe(166)
+    expect(resolveDimDivisor({ ...destination, dim_divisor_standard: '139' }, 'express')).toBe(139)
+    expect(resolveDimDivisor({ ...destination, dim_divisor_standard: 139, dim_divisor_express: 166 }, 'express')).toBe(166)
+    expect(toMetricDivisor(166)).toBe(1233.89)
+  })
+
+  it('converts kg/cm input once and echoes both unit systems', () => {
+    const [piece] = resolvePieces([{ weight: 10, length: 50, width: 40, height: 30 }], undefined, undefined, 'kg_cm')
+    expect(piece.weight).toBeCloseTo(22.0462, 4)
+    expect(piece.length).toBeCloseTo(19.685, 3)
+
+    const result = rateShipment({
+      destinationId: 7,
+      destination: { ...destination, dim_divisor_standard: 139, transit_days_min: 3, transit_days_max: 5 },
+      pricingRules: [],
+      serviceType: 'standard',
+      pieces: [piece],
+      at: now,
+    })
+    expect(result.dimensionalDivisor).toBe(139)
+
+    const measurements = describeMeasurements(result, 'kg_cm')
+    expect(measurements.lb.actual).toBe(22.05)
+    expect(measurements.kg.actual).toBe(10)
+    expect(measurements.pieces[0].dimensionsCm).toEqual({ length: 50, width: 40, height: 30 })
+  })
+})
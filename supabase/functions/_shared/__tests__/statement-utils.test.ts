@@ -0,0 +1,146 @@
+import { describe, it, expect } from 'vitest'
+
+import {
+  buildMonthlyStatement,
+  isBusinessAccount,
+  statementPeriod,
+  type StatementInvoice,
+  type StatementPayment,
+} from '../statement-utils'
+
+const invoice = (overrides: Partial<StatementInvoice>): StatementInvoice => ({
+  id: 1,
+  invoice_number: 'INV-2025-000001',
+  document_type: 'invoice',
+  status: 'sent',
+  issued_at: '2025-05-20T15:00:00Z',
+  total_amount: '100.00',
+  ...overrides,
+})
+
+const payment = (overrides: Partial<StatementPayment>): StatementPayment => ({
+  id: 1,
+  receipt_number: 'RCT-000001',
+  invoice_id: 1,
+  amount: '40.00',
+  method: 'cash',
+  received_at: '2025-06-03T10:00:00Z',
+  ...overrides,
+})
+
+describe('statementPeriod', () => {
+  it('covers the calendar month and rolls over the year', () => {
+    expect(statementPeriod('2025-12')).toEqual({
+      start: '2025-12-01T00:00:00.000Z',
+      end: '2026-01-01T00:00:00.000Z',
+    })
+  })
+
+  it('rejects anything but YYYY-MM', () => {
+    expect(statementPeriod('2025-13')).toBeNull()
+    expect(statementPeriod('June 2025')).toBeNull()
+  })
+})
+
+describe('isBusinessAccount', () => {
+  it('needs a company name or business type', () => {
+    expect(isBusinessAccount({ company_name: 'Island Imports LLC' })).toBe(true)
+    expect(isBusinessAccount({ company_name: ' ', business_type: 'retail' })).toBe(true)
+    expect(isBusinessAccount({ company_name: '', business_type: '' })).toBe(false)
+    expect(isBusinessAccount(null)).toBe(false)
+  })
+})
+
+describe('buildMonthlyStatement', () => {
+  const invoices = [
+    invoice({}),
+    invoice({ id: 2, invoice_number: 'INV-2025-000002', issued_at: '2025-06-10T12:00:00Z', total_amount: '250.00' }),
+    invoice({
+      id: 3,
+      invoice_number: 'CN-2025-000001',
+      document_type: 'credit_note',
+      original_invoice_id: 2,
+      issued_at: '2025-06-12T12:00:00Z',
+      total_amount: '50.00',
+    }),
+    invoice({ id: 4, invoice_number: null, status: 'draft', issued_at: null, total_amount: '75.00' }),
+    invoice({
+      id: 5,
+      invoice_number: 'INV-2025-000003',
+      status: 'void',
+      issued_at: '2025-06-15T12:00:00Z',
+      voided_at: '2025-06-16T09:00:00Z',
+    }),
+    invoice({ id: 6, invoice_number: 'INV-2025-000004', issued_at: '2025-07-02T12:00:00Z' }),
+  ]
+  const payments = [
+    payment({}),
+    payment({ id: 2, receipt_number: 'RCT-000002', invoice_id: 2, amount: '20.00', method: 'account_credit', received_at: '2025-06-20T10:00:00Z' }),
+  ]
+
+  it('runs the balance through the month from the opening balance', () => {
+    const statement = buildMonthlyStatement('2025-06', 100, invoices, payments, [])
+
+    expect(statement.opening_balance).toBe(100)
+    expect(statement.entries.map(entry => [entry.reference, entry.charge, entry.credit, entry.balance])).toEqual([
+      ['RCT-000001', 0, 40, 60],
+      ['INV-2025-000002', 250, 0, 310],
+      ['CN-2025-000001', 0, 50, 260],
+      ['INV-2025-000003', 100, 0, 360],
+      ['INV-2025-000003', 0, 100, 260],
+      ['RCT-000002', 0, 0, 260],
+    ])
+    expect(statement.entries[2].description).toBe('Credit note against INV-2025-000002')
+    expect(statement.entries[4]).toMatchObject({ type: 'void', description: 'Invoice voided' })
+    expect(statement.entries[5].type).toBe('credit_applied')
+    expect(statement.total_charges).toBe(350)
+    expect(statement.total_credits).toBe(190)
+    expect(statement.closing_balance).toBe(260)
+  })
+
+  it('reverses a void in the month it was voided', () => {
+    const voided = invoice({ status: 'void', issued_at: '2025-05-20T15:00:00Z', voided_at: '2025-06-02T08:00:00Z' })
+
+    const may = buildMonthlyStatement('2025-05', 0, [voided], [], [])
+    expect(may.entries.map(entry => entry.type)).toEqual(['invoice'])
+    expect(may.closing_balance).toBe(100)
+
+    const june = buildMonthlyStatement('2025-06', 100, [voided], [], [])
+    expect(june.entries.map(entry => [entry.type, entry.credit, entry.balance])).toEqual([['void', 100, 0]])
+    expect(june.closing_balance).toBe(0)
+  })
+
+  it('names invoices outside the month from the numbers passed with them', () => {
+    const statement = buildMonthlyStatement(
+      '2025-06',
+      0,
+      [invoice({ id: 3, document_type: 'credit_note', original_invoice_id: 1, original_invoice_number: 'INV-2025-000001', issued_at: '2025-06-12T12:00:00Z' })],
+      [payment({ invoice_id: 1, invoice_number: 'INV-2025-000001' })],
+      [],
+    )
+    expect(statement.entries.map(entry => entry.description)).toEqual([
+      'Payment on INV-2025-000001 (cash)',
+      'Credit note against INV-2025-000001',
+    ])
+  })
+
+  it('keeps the opening balance when nothing happened in the month', () => {
+    const statement = buildMonthlyStatement('2025-08', 360, invoices, payments, [])
+    expect(statement.entries).toEqual([])
+    expect(statement.opening_balance).toBe(360)
+    expect(statement.closing_balance).toBe(360)
+  })
+
+  it('lists only the month\'s shipments in date order', () => {
+    const statement = buildMonthlyStatement('2025-06', 0, [], [], [
+      { id: 2, tracking_number: 'QCS-2', status: 'in_transit', created_at: '2025-06-18T09:00:00Z' },
+      { id: 1, tracking_number: 'QCS-1', status: 'delivered', created_at: '2025-05-30T09:00:00Z' },
+      { id: 3, tracking_number: 'QCS-3', status: 'processing', created_at: '2025-06-02T09:00:00Z' },
+    ])
+    expect(statement.shipments.map(shipment => shipment.tracking_number)).toEqual(['QCS-3', 'QCS-2'])
+  })
+
+  it('refuses a malformed month', () => {
+    expect(() => buildMonthlyStatement('2025-6', 0, [], [], [])).toThrow('YYYY-MM')
+  })
+})
@@ -0,0 +1,140 @@
+import { describe, it, expect } from 'vitest'
+
+import {
+  agingBucket,
+  disposalDueAt,
+  parseStoragePolicy,
+  storageAccrual,
+  storageDays,
+  storageInvoiceLines,
+  storageNotices,
+  storageRate,
+  DEFAULT_STORAGE_POLICY,
+  type StoredPackage,
+} from '../storage-utils'
+import { DEFAULT_ACCESSORIAL_CATALOG } from '../accessorial-utils'
+
+const now = new Date('2025-03-31T12:00:00Z')
+const daysAgo = (days: number) => new Date(now.getTime() - days * 24 * 60 * 60 * 1000).toISOString()
+
+const pkg = (overrides: Partial<StoredPackage>): StoredPackage => ({
+  id: '0b7c4a1e-2f43-4f0e-9a57-1c2d3e4f5a61',
+  user_id: 'user-1',
+  tracking_number: '1Z999AA10123456784',
+  status: 'received_at_warehouse',
+  weight: '4',
+  created_at: daysAgo(0),
+  ...overrides,
+})
+
+const rate = storageRate(DEFAULT_ACCESSORIAL_CATALOG)
+
+describe('storageRate', () => {
+  it('reads the free period and weekly rate from the extended storage charge', () => {
+    expect(rate).toEqual({ freeDays: 7, ratePerLbWeek: 0.75 })
+    expect(storageRate([{
+      code: 'extended_storage',
+      name: 'Extended Storage',
+      basis: 'per_lb_per_week',
+      amount: 1,
+      triggers: [{ storage_days_over: 14 }],
+    }])).toEqual({ freeDays: 14, ratePerLbWeek: 1 })
+  })
+
+  it('falls back to the default charge', () => {
+    expect(storageRate([])).toEqual(rate)
+  })
+})
+
+describe('parseStoragePolicy', () => {
+  it('falls back per field and caps the notice period', () => {
+    expect(parseStoragePolicy(null)).toEqual(DEFAULT_STORAGE_POLICY)
+    expect(parseStoragePolicy({ abandonment_days: '30', abandonment_notice_days: 45, warning_days_before: -1 })).toEqual({
+      warning_days_before: DEFAULT_STORAGE_POLICY.warning_days_before,
+      abandonment_days: 30,
+      abandonment_notice_days: 30,
+    })
+  })
+})
+
+describe('storageDays', () => {
+  it('counts whole days until the package left the warehouse', () => {
+    expect(storageDays(pkg({ created_at: daysAgo(9.5) }), now)).toBe(9)
+    expect(storageDays(pkg({ created_at: daysAgo(20), storage_ended_at: daysAgo(10) }), now)).toBe(10)
+  })
+})
+
+describe('storageAccrual', () => {
+  it('charges nothing within the free period', () => {
+    expect(storageAccrual(pkg({ created_at: daysAgo(7) }), rate, now)).toBeNull()
+  })
+
+  it('charges each started week once', () => {
+    expect(storageAccrual(pkg({ created_at: daysAgo(8) }), rate, now)).toEqual({
+      storageDays: 8,
+      weeksThrough: 1,
+      quantity: 4,
+      unitPrice: 0.75,
+      amount: 3,
+      description: 'Extended storage 1Z999AA10123456784, week 1 (4 lbs)',
+    })
+    expect(storageAccrual(pkg({ created_at: daysAgo(14), storage_weeks_charged: 1 }), rate, now)).toBeNull()
+    expect(storageAccrual(pkg({ created_at: daysAgo(30), storage_weeks_charged: 1 }), rate, now)).toMatchObject({
+      weeksThrough: 4,
+      quantity: 12,
+      amount: 9,
+      description: 'Extended storage 1Z999AA10123456784, weeks 2-4 (4 lbs)',
+    })
+  })
+
+  it('keeps charging a package waiting in a consolidation until its clock stops', () => {
+    expect(storageAccrual(pkg({ created_at: daysAgo(15), status: 'forwarded' }), rate, now)).toMatchObject({
+      weeksThrough: 2,
+    })
+    expect(
+      storageAccrual(pkg({ created_at: daysAgo(15), status: 'forwarded', storage_ended_at: daysAgo(10) }), rate, now),
+    ).toBeNull()
+  })
+
+  it('skips packages without a receiving weight', () => {
+    expect(storageAccrual(pkg({ created_at: daysAgo(30), weight: null }), rate, now)).toBeNull()
+  })
+})
+
+describe('storageNotices', () => {
+  const policy = DEFAULT_STORAGE_POLICY
+
+  it('warns before the free period ends, once', () => {
+    expect(storageNotices(pkg({ created_at: daysAgo(4) }), policy, rate, now)).toEqual([])
+    expect(storageNotices(pkg({ created_at: daysAgo(5) }), policy, rate, now)).toEqual(['free_period_warning'])
+    expect(storageNotices(pkg({ created_at: daysAgo(5), storage_warning_sent_at: daysAgo(0) }), policy, rate, now)).toEqual([])
+  })
+
+  it('disposes only after the full notice period', () => {
+    const stored = { created_at: daysAgo(90), storage_warning_sent_at: daysAgo(85) }
+    expect(storageNotices(pkg(stored), policy, rate, now)).toEqual(['abandonment_notice'])
+    expect(storageNotices(pkg({ ...stored, abandonment_notice_sent_at: daysAgo(3) }), policy, rate, now)).toEqual([])
+    expect(storageNotices(pkg({ ...stored, abandonment_notice_sent_at: daysAgo(14) }), policy, rate, now)).toEqual(['dispose'])
+    expect(disposalDueAt(pkg({ ...stored, abandonment_notice_sent_at: daysAgo(3) }), policy).toISOString()).toBe(daysAgo(-11))
+  })
+
+  it('ignores packages that already left', () => {
+    expect(storageNotices(pkg({ created_at: daysAgo(120), status: 'forwarded' }), policy, rate, now)).toEqual([])
+  })
+})
+
+describe('agingBucket', () => {
+  it('groups by free period and abandonment notice', () => {
+    const policy = DEFAULT_STORAGE_POLICY
+    expect(agingBucket(7, policy, rate)).toBe('free')
+    expect(agingBucket(8, policy, rate)).toBe('accruing')
+    expect(agingBucket(76, policy, rate)).toBe('abandonment_risk')
+  })
+})
+
+describe('storageInvoiceLines', () => {
+  it('bills pending charges as storage lines that name their charge', () => {
+    expect(storageInvoiceLines([{ id: 1, description: 'Extended storage', quantity: '12.00', unit_price: '0.75', amount: '9.00' }]))
+      .toEqual([{ description: 'Extended storage', quantity: 12, unit_price: 0.75, amount: 9, category: 'storage', storage_charge_id: 1 }])
+  })
+})
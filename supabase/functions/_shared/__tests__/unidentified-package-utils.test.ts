@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest'
+
+import {
+  hoursUnassigned,
+  parseHeldPackage,
+  unassignedStats,
+  unidentifiedSearchFilter,
+} from '../unidentified-package-utils'
+
+const now = new Date('2026-03-10T12:00:00Z')
+
+describe('hoursUnassigned', () => {
+  it('counts up to now while the package is still waiting', () => {
+    expect(hoursUnassigned({ status: 'unassigned', created_at: '2026-03-10T09:30:00Z', assigned_at: null }, now)).toBe(2.5)
+  })
+
+  it('stops counting once the package is assigned', () => {
+    expect(
+      hoursUnassigned(
+        { status: 'assigned', created_at: '2026-03-08T12:00:00Z', assigned_at: '2026-03-09T00:00:00Z' },
+        now
+      )
+    ).toBe(12)
+  })
+})
+
+describe('unassignedStats', () => {
+  it('reports open packages and the average time to assign over 30 days', () => {
+    expect(
+      unassignedStats(
+        [
+          { status: 'unassigned', created_at: '2026-03-09T12:00:00Z', assigned_at: null },
+          { status: 'unassigned', created_at: '2026-03-10T10:00:00Z', assigned_at: null },
+          { status: 'assigned', created_at: '2026-03-01T00:00:00Z', assigned_at: '2026-03-01T10:00:00Z' },
+          { status: 'assigned', created_at: '2026-03-05T00:00:00Z', assigned_at: '2026-03-05T20:00:00Z' },
+          { status: 'assigned', created_at: '2025-12-01T00:00:00Z', assigned_at: '2025-12-02T00:00:00Z' },
+        ],
+        now
+      )
+    ).toEqual({ open: 2, oldest_open_hours: 24, assigned_last_30_days: 2, average_hours_to_assign: 15 })
+  })
+
+  it('leaves averages empty when there is nothing to measure', () => {
+    expect(unassignedStats([], now)).toEqual({
+      open: 0,
+      oldest_open_hours: null,
+      assigned_last_30_days: 0,
+      average_hours_to_assign: null,
+    })
+  })
+})
+
+describe('unidentifiedSearchFilter', () => {
+  it('matches names and partial tracking numbers', () => {
+    expect(unidentifiedSearchFilter('1z 999')).toBe(
+      '(shipper_name.ilike.*1z 999*,recipient_name.ilike.*1z 999*,label_text.ilike.*1z 999*,tracking_number.like.*1Z999*)'
+    )
+  })
+
+  it('drops characters that would break the or=() filter', () => {
+    expect(unidentifiedSearchFilter('Smith, J. (Apt 4)')).toBe(
+      '(shipper_name.ilike.*Smith J. Apt 4*,recipient_name.ilike.*Smith J. Apt 4*,label_text.ilike.*Smith J. Apt 4*)'
+    )
+  })
+
+  it('ignores terms that are too short to search', () => {
+    expect(unidentifiedSearchFilter(' a ')).toBeNull()
+    expect(unidentifiedSearchFilter('(*)')).toBeNull()
+  })
+})
+
+describe('parseHeldPackage', () => {
+  it('normalizes the tracking number and keeps what the label shows', () => {
+    expect(
+      parseHeldPackage({
+        trackingNumber: '1z999aa1 0123456784',
+        carrier: 'UPS',
+        shipperName: ' Amazon ',
+        recipientName: 'Maria Lopez',
+        weight: '2.4',
+        dimensions: { length: 10, width: '8', height: 4 },
+      })
+    ).toEqual({
+      pkg: {
+        tracking_number: '1Z999AA10123456784',
+        carrier: 'UPS',
+        shipper_name: 'Amazon',
+        recipient_name: 'Maria Lopez',
+        label_text: null,
+        weight: 2.4,
+        dimensions: { length: 10, width: 8, height: 4 },
+        notes: null,
+      },
+    })
+  })
+
+  it('drops incomplete dimensions', () => {
+    const parsed = parseHeldPackage({ trackingNumber: '9400111899223197428490', dimensions: { length: 10 } })
+    expect(parsed).toMatchObject({ pkg: { dimensions: null, weight: null } })
+  })
+
+  it('requires a tracking number', () => {
+    expect(parseHeldPackage({ shipperName: 'Amazon' })).toEqual({ error: 'Each held package needs a tracking number.' })
+  })
+})
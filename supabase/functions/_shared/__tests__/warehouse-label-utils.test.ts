@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest'
+
+import {
+  code128Modules,
+  code128Values,
+  generateWarehouseLabelZpl,
+  type WarehouseLabel,
+} from '../warehouse-label-utils'
+
+const label: WarehouseLabel = {
+  labelCode: 'QR00000042',
+  mailboxNumber: 'QCS100123',
+  customerName: 'Ana Persaud',
+  trackingNumber: '1Z999AA10123456784',
+  carrier: 'UPS',
+  weightLbs: 4.5,
+  dimensions: { length: 12, width: 10, height: 6 },
+  receivedAt: '2025-03-03T15:00:00Z',
+}
+
+describe('code128Values', () => {
+  it('encodes subset B with a weighted checksum', () => {
+    // 104 + 48·1 + 42·2 + 42·3 + 17·4 + 18·5 + 19·6 + 35·7 = 879 → 879 mod 103 = 55
+    expect(code128Values('PJJ123C')).toEqual([104, 48, 42, 42, 17, 18, 19, 35, 55, 106])
+  })
+
+  it('rejects characters outside printable ASCII', () => {
+    expect(() => code128Values('QR\n1')).toThrow('printable ASCII')
+  })
+})
+
+describe('code128Modules', () => {
+  it('uses eleven modules per symbol and thirteen for stop', () => {
+    const modules = code128Modules('QR00000042')
+    // start + 10 data + checksum = 12 symbols, then stop
+    expect(modules).toHaveLength(12 * 6 + 7)
+    expect(modules.reduce((sum, width) => sum + width, 0)).toBe(12 * 11 + 13)
+
+    const printable = Array.from({ length: 95 }, (_, index) => String.fromCharCode(32 + index)).join('')
+    expect(code128Modules(printable).reduce((sum, width) => sum + width, 0)).toBe(97 * 11 + 13)
+  })
+})
+
+describe('generateWarehouseLabelZpl', () => {
+  it('prints one label block per package with the QCS barcode', () => {
+    const zpl = generateWarehouseLabelZpl([label, { ...label, labelCode: 'QR00000043' }])
+    expect(zpl.match(/\^XA/g)).toHaveLength(2)
+    expect(zpl).toContain('^BCN,260,N,N,N^FDQR00000042^FS')
+    expect(zpl).toContain('^FDQCS100123^FS')
+    expect(zpl).toContain('^FDUPS 1Z999AA10123456784^FS')
+    expect(zpl).toContain('^FD4.5 lbs  12x10x6 in^FS')
+  })
+
+  it('strips ZPL control characters from field data', () => {
+    expect(generateWarehouseLabelZpl([{ ...label, customerName: 'A^B~C' }])).toContain('^FDA B C^FS')
+  })
+})
@@ -0,0 +1,234 @@
+// Accessorial charge catalog: extra services priced on top of air freight
+// (pickup, oversize handling, packaging, storage, documentation and
+// consolidation). The catalog lives in the accessorial_charges table; the
+// defaults below mirror the seeded rows and are used when it cannot be read.
+
+/** How a charge's amount is multiplied. */
+export type AccessorialBasis = "flat" | "per_lb" | "per_additional_package" | "per_lb_per_week"
+
+/**
+ * One trigger condition. Every field that is set must hold for the trigger to
+ * match; a charge applies when any of its triggers match.
+ */
+export interface AccessorialTrigger {
+  /** Customer-selected option, e.g. "pickup" */
+  flag?: string
+  /** Billable weight strictly above this many lbs */
+  weight_over?: number
+  /** Longest side strictly above this many inches */
+  longest_side_over?: number
+  /** Only for these service types */
+  service_types?: string[]
+  /** At least this many packages in the shipment */
+  min_packages?: number
+  /** Storage beyond this many days */
+  storage_days_over?: number
+}
+
+export interface AccessorialCharge {
+  code: string
+  name: string
+  description?: string | null
+  basis: AccessorialBasis
+  amount: number
+  minimum_charge?: number | null
+  triggers: AccessorialTrigger[]
+  sort_order?: number
+}
+
+/** What the customer asked for, plus facts only the warehouse knows. */
+export interface AccessorialRequest {
+  flags?: string[]
+  packageCount?: number
+  storageDays?: number
+}
+
+export interface AccessorialContext extends AccessorialRequest {
+  billableWeight: number
+  longestSide: number | null
+  serviceType: string
+}
+
+export interface AccessorialLineItem {
+  code: string
+  name: string
+  basis: AccessorialBasis
+  quantity: number
+  unitAmount: number
+  amount: number
+}
+
+export const CONSOLIDATION_CODE = "consolidation"
+
+export const DEFAULT_ACCESSORIAL_CATALOG: AccessorialCharge[] = [
+  {
+    code: "pickup",
+    name: "Pickup Service",
+    description: "Pickup from your location within 25 miles",
+    basis: "flat",
+    amount: 25,
+    triggers: [{ flag: "pickup" }],
+    sort_order: 10
+  },
+  {
+    code: "oversize",
+    name: "Oversized Item Handling",
+    description: "Items over 70 lbs or with a side longer than 60 inches",
+    basis: "flat",
+    amount: 20,
+    triggers: [{ weight_over: 70 }, { longest_side_over: 60 }],
+    sort_order: 20
+  },
+  {
+    code: "fragile_packaging",
+    name: "Fragile Packaging",
+    description: "Professional packaging for fragile or valuable items",
+    basis: "flat",
+    amount: 10,
+    triggers: [{ flag: "fragile_packaging" }],
+    sort_order: 30
+  },
+  {
+    code: "extended_storage",
+    name: "Extended Storage",
+    description: "Per lb per week beyond the 7-day free period",
+    basis: "per_lb_per_week",
+    amount: 0.75,
+    triggers: [{ storage_days_over: 7 }],
+    sort_order: 40
+  },
+  {
+    code: "rush_documentation",
+    name: "Rush Documentation",
+    description: "Expedited customs documentation processing",
+    basis: "flat",
+    amount: 20,
+    triggers: [{ flag: "rush_documentation" }],
+    sort_order: 50
+  },
+  {
+    code: CONSOLIDATION_CODE,
+    name: "Consolidation",
+    description: "Per additional package combined into one shipment",
+    basis: "per_additional_package",
+    amount: 5,
+    triggers: [{ min_packages: 2 }],
+    sort_order: 60
+  }
+]
+
+const roundToTwo = (value: number) => parseFloat(value.toFixed(2))
+
+const matchesTrigger = (trigger: AccessorialTrigger, context: AccessorialContext) => {
+  if (trigger.flag && !(context.flags ?? []).includes(trigger.flag)) {
+    return false
+  }
+  if (trigger.weight_over != null && !(context.billableWeight > trigger.weight_over)) {
+    return false
+  }
+  if (trigger.longest_side_over != null && !((context.longestSide ?? 0) > trigger.longest_side_over)) {
+    return false
+  }
+  if (trigger.service_types?.length && !trigger.service_types.includes(context.serviceType)) {
+    return false
+  }
+  if (trigger.min_packages != null && (context.packageCount ?? 1) < trigger.min_packages) {
+    return false
+  }
+  if (trigger.storage_days_over != null && !((context.storageDays ?? 0) > trigger.storage_days_over)) {
+    return false
+  }
+  return true
+}
+
+/**
+ * Quantity the charge is multiplied by. Storage weeks are counted from the
+ * end of the free period of the trigger that matched, rounded up.
+ */
+const chargeQuantity = (charge: AccessorialCharge, trigger: AccessorialTrigger, context: AccessorialContext) => {
+  switch (charge.basis) {
+    case "per_lb":
+      return roundToTwo(context.billableWeight)
+    case "per_additional_package":
+      return Math.max(0, (context.packageCount ?? 1) - 1)
+    case "per_lb_per_week": {
+      const billableDays = (context.storageDays ?? 0) - (trigger.storage_days_over ?? 0)
+      return roundToTwo(context.billableWeight * Math.max(0, Math.ceil(billableDays / 7)))
+    }
+    default:
+      return 1
+  }
+}
+
+/**
+ * Evaluate the catalog against a shipment and return the itemized charges
+ * that apply, in catalog order.
+ */
+export function applyAccessorials(catalog: AccessorialCharge[], context: AccessorialContext): AccessorialLineItem[] {
+  const items: AccessorialLineItem[] = []
+
+  const ordered = [...catalog].sort((a, b) => (a.sort_order ?? 0) - (b.sort_order ?? 0))
+  for (const charge of ordered) {
+    const trigger = (charge.triggers ?? []).find(candidate => matchesTrigger(candidate, context))
+    if (!trigger) continue
+
+    const quantity = chargeQuantity(charge, trigger, context)
+    if (quantity <= 0) continue
+
+    const amount = Math.max(quantity * Number(charge.amount), Number(charge.minimum_charge ?? 0))
+    items.push({
+      code: charge.code,
+      name: charge.name,
+      basis: charge.basis,
+      quantity,
+      unitAmount: Number(charge.amount),
+      amount: roundToTwo(amount)
+    })
+  }
+
+  return items
+}
+
+/**
+ * Normalize request input from an edge function body. Unknown flags are
+ * kept; they simply never match a trigger.
+ */
+export function parseAccessorialRequest(value: unknown): AccessorialRequest {
+  const source = (value && typeof value === "object" ? value : {}) as Record<string, unknown>
+  const flags = Array.isArray(source.flags) ? source.flags.filter((flag): flag is string => typeof flag === "string") : []
+  const packageCount = Number(source.packageCount)
+  const storageDays = Number(source.storageDays)
+  return {
+    flags,
+    packageCount: Number.isFinite(packageCount) && packageCount >= 1 ? Math.floor(packageCount) : 1,
+    storageDays: Number.isFinite(storageDays) && storageDays > 0 ? Math.floor(storageDays) : 0
+  }
+}
+
+/**
+ * Load the active catalog. Falls back to the defaults when the table is empty
+ * or unreachable so quoting never silently drops charges.
+ */
+export async function fetchAccessorialCatalog(supabaseUrl: string, serviceRoleKey: string): Promise<AccessorialCharge[]> {
+  try {
+    const response = await fetch(
+      `${supabaseUrl}/rest/v1/accessorial_charges?is_active=eq.true&order=sort_order.asc&select=code,name,description,basis,amount,minimum_charge,triggers,sort_order`,
+      {
+        headers: {
+          Authorization: `Bearer ${serviceRoleKey}`,
+          apikey: serviceRoleKey,
+          "Content-Type": "application/json"
+        }
+      }
+    )
+    if (!response.ok) {
+      console.error("Failed to load accessorial catalog:", await response.text())
+      return DEFAULT_ACCESSORIAL_CATALOG
+    }
+    const rows = await response.json()
+    return Array.isArray(rows) && rows.length > 0 ? (rows as AccessorialCharge[]) : DEFAULT_ACCESSORIAL_CATALOG
+  } catch (error) {
+    console.error("Failed to load accessorial catalog:", error)
+    return DEFAULT_ACCESSORIAL_CATALOG
+  }
+}
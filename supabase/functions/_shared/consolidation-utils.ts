@@ -0,0 +1,233 @@
+// Mailbox consolidation: a customer picks packages waiting in their virtual
+// mailbox and we ship them together as one shipment. Until staff repack and
+// re-weigh the combined box, the estimate rates each package as its own
+// piece from its receiving weight; the quote is issued on the re-weighed box.
+// Either way every package counts toward the consolidation fee.
+
+import { fetchAccessorialCatalog } from "./accessorial-utils.ts"
+import {
+  coerceNumber,
+  fetchEffectivePricingRules,
+  fetchRateSettings,
+  INSURANCE_SETTING_KEY,
+  parseInsuranceRules,
+  rateShipment,
+  roundToTwo,
+  type ShipmentDestination,
+  type ShipmentPiece,
+  type ShipmentRate
+} from "./rating-utils.ts"
+
+export const MAX_CONSOLIDATION_PACKAGES = 30
+
+export interface ConsolidationPackage {
+  id: string
+  tracking_number: string
+  carrier?: string | null
+  status: string
+  weight?: number | string | null
+  dimensions?: { length?: unknown; width?: unknown; height?: unknown } | null
+}
+
+export interface ConsolidationRequest {
+  packageIds: string[]
+  destinationId: number
+  serviceType: "standard" | "express"
+  declaredValue: number
+  notes: string | null
+}
+
+/** The repacked box as weighed by staff, in lbs and inches. */
+export interface ConsolidatedBox {
+  weight: number
+  length: number | null
+  width: number | null
+  height: number | null
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+export function parseConsolidationRequest(value: unknown): { request: ConsolidationRequest } | { error: string } {
+  const source = (value ?? {}) as Record<string, unknown>
+  const ids = Array.isArray(source.package_ids) ? source.package_ids : []
+  const packageIds = Array.from(new Set(ids.filter((id): id is string => typeof id === "string" && UUID_PATTERN.test(id))))
+  if (packageIds.length !== ids.length) {
+    return { error: "Package selection contains an invalid or repeated id." }
+  }
+  if (packageIds.length < 2) {
+    return { error: "Select at least two packages to consolidate." }
+  }
+  if (packageIds.length > MAX_CONSOLIDATION_PACKAGES) {
+    return { error: `At most ${MAX_CONSOLIDATION_PACKAGES} packages can be consolidated into one shipment.` }
+  }
+
+  const destinationId = Number(source.destination_id)
+  if (!Number.isInteger(destinationId) || destinationId <= 0) {
+    return { error: "A destination is required." }
+  }
+  if (source.service_type !== "standard" && source.service_type !== "express") {
+    return { error: "Service type must be standard or express." }
+  }
+  const declaredValue = coerceNumber(source.declared_value) ?? 0
+  if (declaredValue < 0) {
+    return { error: "Declared value cannot be negative." }
+  }
+  const notes = typeof source.notes === "string" ? source.notes.trim().slice(0, 500) : ""
+
+  return {
+    request: {
+      packageIds,
+      destinationId,
+      serviceType: source.service_type,
+      declaredValue: roundToTwo(declaredValue),
+      notes: notes || null
+    }
+  }
+}
+
+/**
+ * Reasons the selected packages can't be consolidated, one per package.
+ * Packages that went missing from the lookup are reported as not found
+ * rather than leaking whether they belong to someone else.
+ */
+export function consolidationBlockers(packageIds: string[], packages: ConsolidationPackage[]): string[] {
+  const byId = new Map(packages.map(pkg => [pkg.id, pkg]))
+  return packageIds.flatMap(id => {
+    const pkg = byId.get(id)
+    if (!pkg) return [`Package ${id} was not found in your mailbox.`]
+    if (pkg.status !== "received_at_warehouse") {
+      return [`Package ${pkg.tracking_number} is ${pkg.status.replace(/_/g, " ")} and can no longer be consolidated.`]
+    }
+    return []
+  })
+}
+
+/** The shipment item description for a package, e.g. "UPS 1Z999AA10123456784". */
+export const packageItemDescription = (pkg: Pick<ConsolidationPackage, "tracking_number" | "carrier">) =>
+  [pkg.carrier, pkg.tracking_number].filter(Boolean).join(" ")
+
+const positive = (value: unknown) => {
+  const number = coerceNumber(value)
+  return number !== null && number > 0 ? number : null
+}
+
+/**
+ * Rating pieces for the estimate: one per package with its receiving weight
+ * and dimensions. Packages received without a weight are left out and
+ * returned so the caller can say the estimate is partial.
+ */
+export function estimatePieces(packages: ConsolidationPackage[]): { pieces: ShipmentPiece[]; unweighed: string[] } {
+  const pieces: ShipmentPiece[] = []
+  const unweighed: string[] = []
+  for (const pkg of packages) {
+    const weight = positive(pkg.weight)
+    if (!weight) {
+      unweighed.push(pkg.tracking_number)
+      continue
+    }
+    pieces.push({
+      quantity: 1,
+      weight,
+      length: positive(pkg.dimensions?.length),
+      width: positive(pkg.dimensions?.width),
+      height: positive(pkg.dimensions?.height),
+      description: packageItemDescription(pkg)
+    })
+  }
+  return { pieces, unweighed }
+}
+
+export function parseConsolidatedBox(value: unknown): { box: ConsolidatedBox } | { error: string } {
+  const source = (value ?? {}) as Record<string, unknown>
+  const weight = positive(source.weight)
+  if (!weight) {
+    return { error: "The re-weighed weight must be greater than zero." }
+  }
+  const sides = [source.length, source.width, source.height].map(positive)
+  const given = [source.length, source.width, source.height].filter(side => side !== undefined && side !== null && side !== "")
+  if (given.length > 0 && sides.some(side => side === null)) {
+    return { error: "Enter all three dimensions, or none." }
+  }
+  const [length, width, height] = sides
+  return {
+    box: {
+      weight: roundToTwo(weight),
+      length: length === null ? null : roundToTwo(length),
+      width: width === null ? null : roundToTwo(width),
+      height: height === null ? null : roundToTwo(height)
+    }
+  }
+}
+
+/** The re-weighed box as the single piece the quote is rated on. */
+export const consolidatedPiece = (box: ConsolidatedBox, packageCount: number): ShipmentPiece => ({
+  quantity: 1,
+  weight: box.weight,
+  length: box.length,
+  width: box.width,
+  height: box.height,
+  description: `Consolidated box (${packageCount} packages)`
+})
+
+export const DESTINATION_RATING_COLUMNS =
+  "id,country_name,city_name,airport_code,transit_days_min,transit_days_max,dim_divisor_standard,dim_divisor_express,rate_per_lb_1_50,rate_per_lb_51_100,rate_per_lb_101_200,rate_per_lb_201_plus,express_surcharge_percent"
+
+export interface ConsolidationRating {
+  destination: ShipmentDestination & { id: number; country_name: string; city_name?: string | null; airport_code?: string | null }
+  rating: ShipmentRate
+}
+
+/**
+ * Rate a consolidation with the same engine as quotes. The package count is
+ * passed on so a single re-weighed box still pays the per-package
+ * consolidation fee.
+ */
+export async function rateConsolidation(
+  supabaseUrl: string,
+  serviceRoleKey: string,
+  options: {
+    destinationId: number
+    serviceType: string
+    pieces: ShipmentPiece[]
+    declaredValue: number
+    packageCount: number
+    at?: Date
+  }
+): Promise<ConsolidationRating> {
+  const response = await fetch(
+    `${supabaseUrl}/rest/v1/destinations?id=eq.${options.destinationId}&select=${DESTINATION_RATING_COLUMNS}`,
+    {
+      headers: {
+        Authorization: `Bearer ${serviceRoleKey}`,
+        apikey: serviceRoleKey
+      }
+    }
+  )
+  if (!response.ok) {
+    throw new Error(`Unable to load destination details: ${await response.text()}`)
+  }
+  const destination = (await response.json())[0]
+  if (!destination) {
+    throw new Error("Destination not found")
+  }
+
+  const at = options.at ?? new Date()
+  const [pricingRules, rateSettings, accessorialCatalog] = await Promise.all([
+    fetchEffectivePricingRules(supabaseUrl, serviceRoleKey, options.destinationId, at),
+    fetchRateSettings(supabaseUrl, serviceRoleKey, [INSURANCE_SETTING_KEY]),
+    fetchAccessorialCatalog(supabaseUrl, serviceRoleKey)
+  ])
+  const rating = rateShipment({
+    destinationId: options.destinationId,
+    destination,
+    pricingRules,
+    serviceType: options.serviceType,
+    pieces: options.pieces,
+    declaredValue: options.declaredValue,
+    accessorials: { packageCount: options.packageCount },
+    accessorialCatalog,
+    insuranceRules: parseInsuranceRules(rateSettings[INSURANCE_SETTING_KEY]),
+    at
+  })
+  return { destination, rating }
+}
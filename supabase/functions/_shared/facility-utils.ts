@@ -0,0 +1,150 @@
+// Facility scoping for warehouse staff. An admin assigned to one or more
+// facilities only sees and handles packages at those facilities; an admin
+// with no assignment works across all of them.
+
+/** null means every facility */
+export type FacilityScope = number[] | null
+
+export interface FacilityInput {
+  code: string
+  name: string
+  mailbox_prefix: string
+  address_line1: string
+  address_line2: string | null
+  city: string
+  state: string
+  postal_code: string
+  country: string
+  is_active: boolean
+  is_default: boolean
+}
+
+export async function loadFacilityScope(
+  supabaseUrl: string,
+  serviceRoleKey: string,
+  userId: string
+): Promise<FacilityScope> {
+  const response = await fetch(`${supabaseUrl}/rest/v1/facility_staff?user_id=eq.${userId}&select=facility_id`, {
+    headers: {
+      Authorization: `Bearer ${serviceRoleKey}`,
+      apikey: serviceRoleKey
+    }
+  })
+  if (!response.ok) {
+    throw new Error(`Failed to load facility assignments: ${await response.text()}`)
+  }
+  const rows: { facility_id: number }[] = await response.json()
+  return rows.length > 0 ? rows.map(row => row.facility_id) : null
+}
+
+export function canAccessFacility(scope: FacilityScope, facilityId: number | null | undefined) {
+  return scope === null || (typeof facilityId === "number" && scope.includes(facilityId))
+}
+
+/**
+ * Narrows the scope to a facility the caller asked for. Returns the scope
+ * unchanged when none was requested.
+ */
+export function resolveFacilityFilter(
+  scope: FacilityScope,
+  requested: unknown
+): { facilityIds: FacilityScope } | { error: string } {
+  if (requested === undefined || requested === null || requested === "") {
+    return { facilityIds: scope }
+  }
+  const facilityId = Number(requested)
+  if (!Number.isInteger(facilityId) || facilityId <= 0) {
+    return { error: "facility_id must be a facility id." }
+  }
+  if (!canAccessFacility(scope, facilityId)) {
+    return { error: "You are not assigned to that facility." }
+  }
+  return { facilityIds: [facilityId] }
+}
+
+/** PostgREST filter fragment, including its leading "&", or "" for all facilities. */
+export function facilityQueryFilter(facilityIds: FacilityScope, column = "facility_id") {
+  return facilityIds === null ? "" : `&${column}=in.(${facilityIds.join(",")})`
+}
+
+const requiredText = (source: Record<string, unknown>, key: string, maxLength: number) =>
+  typeof source[key] === "string" ? (source[key] as string).trim().slice(0, maxLength) : ""
+
+export function parseFacilityInput(value: unknown): { facility: FacilityInput } | { error: string } {
+  const source = (value && typeof value === "object" ? value : {}) as Record<string, unknown>
+  const code = requiredText(source, "code", 20).toUpperCase()
+  const name = requiredText(source, "name", 120)
+  const mailboxPrefix = requiredText(source, "mailbox_prefix", 5).toUpperCase()
+  const addressLine1 = requiredText(source, "address_line1", 200)
+  const city = requiredText(source, "city", 100)
+  const state = requiredText(source, "state", 50)
+  const postalCode = requiredText(source, "postal_code", 20)
+  const country = requiredText(source, "country", 100) || "United States"
+
+  if (!/^[A-Z0-9-]{2,20}$/.test(code)) {
+    return { error: "Facility code must be 2-20 letters, digits or dashes." }
+  }
+  if (!/^[A-Z]{2,5}$/.test(mailboxPrefix)) {
+    return { error: "Mailbox prefix must be 2-5 letters." }
+  }
+  if (!name || !addressLine1 || !city || !state || !postalCode) {
+    return { error: "Name, street address, city, state and postal code are required." }
+  }
+
+  const isActive = source.is_active !== false
+  const isDefault = source.is_default === true
+  if (isDefault && !isActive) {
+    return { error: "The default facility must be active." }
+  }
+
+  return {
+    facility: {
+      code,
+      name,
+      mailbox_prefix: mailboxPrefix,
+      address_line1: addressLine1,
+      address_line2: requiredText(source, "address_line2", 200) || null,
+      city,
+      state,
+      postal_code: postalCode,
+      country,
+      is_active: isActive,
+      is_default: isDefault
+    }
+  }
+}
+
+export interface FacilityPackageSummary {
+  facility_id: number
+  code: string
+  name: string
+  received: number
+  picked_up: number
+  held: number
+  unidentified_open: number
+}
+
+/**
+ * Per-facility package counts for the reports page. received and picked_up
+ * cover packages received in the report period; held and unidentified_open
+ * are what is on the shelves now.
+ */
+export function summarizeFacilityPackages(
+  facilities: { id: number; code: string; name: string }[],
+  receivedInPeriod: { facility_id: number; status: string }[],
+  heldNow: { facility_id: number }[],
+  unidentifiedOpen: { facility_id: number }[]
+): FacilityPackageSummary[] {
+  const countBy = <T extends { facility_id: number }>(rows: T[], facilityId: number, match: (row: T) => boolean = () => true) =>
+    rows.filter(row => row.facility_id === facilityId && match(row)).length
+
+  return facilities.map(facility => ({
+    facility_id: facility.id,
+    code: facility.code,
+    name: facility.name,
+    received: countBy(receivedInPeriod, facility.id),
+    picked_up: countBy(receivedInPeriod, facility.id, row => row.status === "picked_up"),
+    held: countBy(heldNow, facility.id),
+    unidentified_open: countBy(unidentifiedOpen, facility.id)
+  }))
+}
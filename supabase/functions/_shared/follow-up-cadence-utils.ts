@@ -0,0 +1,161 @@
+// Quote follow-up cadences. A cadence is an ordered list of steps, each sent a
+// number of days after the quote was issued on a given channel. Cadences are
+// matched to a quote by destination and quote value; quote-follow-up walks a
+// quote through its steps and stops once the quote is won, lost or expired.
+
+export const FOLLOW_UP_CHANNELS = ["email", "whatsapp"] as const
+export const FOLLOW_UP_TEMPLATES = ["reminder", "expiring_soon", "final_notice"] as const
+
+export type FollowUpChannel = (typeof FOLLOW_UP_CHANNELS)[number]
+export type FollowUpTemplate = (typeof FOLLOW_UP_TEMPLATES)[number]
+
+export interface CadenceStep {
+  /** Days after the quote was issued */
+  day: number
+  channel: FollowUpChannel
+  template: FollowUpTemplate
+}
+
+export interface FollowUpCadence {
+  id: number
+  name: string
+  destination_id: number | null
+  min_quote_value: number | string | null
+  max_quote_value: number | string | null
+  priority: number
+  is_default: boolean
+  is_active: boolean
+  steps: CadenceStep[]
+}
+
+/** Quote columns the cadence logic reads. */
+export interface CadenceQuote {
+  destination_id: number
+  total_cost: number | string
+  created_at: string
+  quote_expires_at?: string | null
+  status?: string | null
+  is_latest_revision?: boolean | null
+}
+
+export type FollowUpStopReason = "won" | "lost" | "expired" | "superseded"
+
+export interface FollowUpSchedule {
+  follow_up_step: number
+  follow_up_due_at: string | null
+  follow_up_status: "scheduled" | "completed"
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const MAX_STEP_DAY = 60
+
+const toNumber = (value: unknown): number | null => {
+  if (value === null || value === undefined || value === "") return null
+  const numeric = Number(value)
+  return Number.isFinite(numeric) ? numeric : null
+}
+
+/** Validate admin-entered steps and return them ordered by day. */
+export function parseCadenceSteps(value: unknown): { steps: CadenceStep[] } | { error: string } {
+  if (!Array.isArray(value) || value.length === 0) {
+    return { error: "A cadence needs at least one step." }
+  }
+  const steps: CadenceStep[] = []
+  for (const [index, raw] of value.entries()) {
+    const source = (raw ?? {}) as Record<string, unknown>
+    const day = Number(source.day)
+    if (!Number.isInteger(day) || day < 0 || day > MAX_STEP_DAY) {
+      return { error: `Step ${index + 1}: day must be a whole number between 0 and ${MAX_STEP_DAY}.` }
+    }
+    if (!FOLLOW_UP_CHANNELS.includes(source.channel as FollowUpChannel)) {
+      return { error: `Step ${index + 1}: channel must be one of ${FOLLOW_UP_CHANNELS.join(", ")}.` }
+    }
+    if (!FOLLOW_UP_TEMPLATES.includes(source.template as FollowUpTemplate)) {
+      return { error: `Step ${index + 1}: template must be one of ${FOLLOW_UP_TEMPLATES.join(", ")}.` }
+    }
+    steps.push({ day, channel: source.channel as FollowUpChannel, template: source.template as FollowUpTemplate })
+  }
+  return { steps: steps.sort((a, b) => a.day - b.day) }
+}
+
+const matchesCadence = (cadence: FollowUpCadence, quote: Pick<CadenceQuote, "destination_id" | "total_cost">) => {
+  const total = toNumber(quote.total_cost) ?? 0
+  const min = toNumber(cadence.min_quote_value)
+  const max = toNumber(cadence.max_quote_value)
+  if (cadence.destination_id !== null && cadence.destination_id !== quote.destination_id) return false
+  if (min !== null && total < min) return false
+  if (max !== null && total >= max) return false
+  return true
+}
+
+/**
+ * Most specific active cadence for a quote: a destination rule beats a
+ * value-only rule, then higher priority wins. Falls back to the default.
+ */
+export function selectCadence(
+  cadences: FollowUpCadence[],
+  quote: Pick<CadenceQuote, "destination_id" | "total_cost">
+): FollowUpCadence | null {
+  const active = cadences.filter(cadence => cadence.is_active && cadence.steps.length > 0)
+  const ranked = active
+    .filter(cadence => !cadence.is_default && matchesCadence(cadence, quote))
+    .sort((a, b) => {
+      const specificity = Number(b.destination_id !== null) - Number(a.destination_id !== null)
+      if (specificity !== 0) return specificity
+      if (b.priority !== a.priority) return b.priority - a.priority
+      return a.id - b.id
+    })
+  return ranked[0] ?? active.find(cadence => cadence.is_default) ?? null
+}
+
+export const stepDueAt = (issuedAt: string, step: CadenceStep) =>
+  new Date(new Date(issuedAt).getTime() + step.day * DAY_MS)
+
+/** Why follow-ups should end for this quote, or null to keep going. */
+export function followUpStopReason(quote: CadenceQuote, now: Date = new Date()): FollowUpStopReason | null {
+  if (quote.is_latest_revision === false) return "superseded"
+  if (quote.status === "won") return "won"
+  if (quote.status === "lost") return "lost"
+  if (quote.status === "expired") return "expired"
+  if (quote.quote_expires_at && new Date(quote.quote_expires_at) <= now) return "expired"
+  return null
+}
+
+/**
+ * Schedule for the first step at or after fromStep that still lands before
+ * the quote expires. With notBefore set, steps already overdue at that time
+ * are passed over too, so assigning or resuming a cadence never sends a burst
+ * of catch-up messages.
+ */
+export function scheduleFromStep(
+  quote: CadenceQuote,
+  cadence: Pick<FollowUpCadence, "steps">,
+  fromStep: number,
+  notBefore?: Date
+): FollowUpSchedule {
+  const expiresAt = quote.quote_expires_at ? new Date(quote.quote_expires_at) : null
+  for (let index = Math.max(0, fromStep); index < cadence.steps.length; index++) {
+    const dueAt = stepDueAt(quote.created_at, cadence.steps[index])
+    if (expiresAt && dueAt >= expiresAt) break
+    if (notBefore && dueAt < notBefore) continue
+    return { follow_up_step: index, follow_up_due_at: dueAt.toISOString(), follow_up_status: "scheduled" }
+  }
+  return { follow_up_step: cadence.steps.length, follow_up_due_at: null, follow_up_status: "completed" }
+}
+
+export async function fetchFollowUpCadences(supabaseUrl: string, serviceRoleKey: string): Promise<FollowUpCadence[]> {
+  const response = await fetch(
+    `${supabaseUrl}/rest/v1/quote_follow_up_cadences?select=*&order=id.asc`,
+    {
+      headers: {
+        Authorization: `Bearer ${serviceRoleKey}`,
+        apikey: serviceRoleKey
+      }
+    }
+  )
+  if (!response.ok) {
+    throw new Error(`Failed to load follow-up cadences: ${await response.text()}`)
+  }
+  const rows = await response.json()
+  return Array.isArray(rows) ? rows : []
+}
@@ -0,0 +1,115 @@
+// Display-currency support for quotes. Everything is priced and billed in USD;
+// the local equivalent is informational and uses the admin-maintained
+// fx_rates table. Each quote keeps a snapshot of the rate it was issued with
+// so regenerated documents never drift with later rate changes.
+
+export const DISPLAY_CURRENCIES = ["JMD", "GYD", "TTD", "BBD", "XCD"] as const
+
+export type DisplayCurrency = (typeof DISPLAY_CURRENCIES)[number]
+
+export interface FxRate {
+  id?: number
+  currency_code: string
+  rate_per_usd: number | string
+  effective_from: string
+}
+
+/** Stored in quote_metadata.fx */
+export interface FxSnapshot {
+  currency: DisplayCurrency
+  ratePerUsd: number
+  rateId: number | null
+  effectiveFrom: string
+  capturedAt: string
+}
+
+const roundToTwo = (value: number) => parseFloat(value.toFixed(2))
+
+export function parseDisplayCurrency(value: unknown): DisplayCurrency | null {
+  if (typeof value !== "string") return null
+  const code = value.trim().toUpperCase()
+  return (DISPLAY_CURRENCIES as readonly string[]).includes(code) ? (code as DisplayCurrency) : null
+}
+
+/** Latest rate for the currency that was already in effect at `at`. */
+export function selectEffectiveFxRate(rates: FxRate[], currency: DisplayCurrency, at: Date = new Date()): FxRate | null {
+  const candidates = rates
+    .filter(rate => rate.currency_code === currency && Number(rate.rate_per_usd) > 0)
+    .filter(rate => new Date(rate.effective_from).getTime() <= at.getTime())
+    .sort((a, b) => new Date(b.effective_from).getTime() - new Date(a.effective_from).getTime())
+  return candidates[0] ?? null
+}
+
+export function buildFxSnapshot(rate: FxRate, at: Date = new Date()): FxSnapshot | null {
+  const currency = parseDisplayCurrency(rate.currency_code)
+  const ratePerUsd = Number(rate.rate_per_usd)
+  if (!currency || !Number.isFinite(ratePerUsd) || ratePerUsd <= 0) {
+    return null
+  }
+  return {
+    currency,
+    ratePerUsd,
+    rateId: rate.id ?? null,
+    effectiveFrom: rate.effective_from,
+    capturedAt: at.toISOString()
+  }
+}
+
+export const convertFromUsd = (amountUsd: number, snapshot: Pick<FxSnapshot, "ratePerUsd">) =>
+  roundToTwo(amountUsd * snapshot.ratePerUsd)
+
+/**
+ * Read a snapshot back out of quote_metadata, ignoring anything malformed so
+ * older quotes simply render USD only.
+ */
+export function parseFxSnapshot(value: unknown): FxSnapshot | null {
+  if (!value || typeof value !== "object") return null
+  const source = value as Record<string, unknown>
+  const currency = parseDisplayCurrency(source.currency)
+  const ratePerUsd = Number(source.ratePerUsd)
+  if (!currency || !Number.isFinite(ratePerUsd) || ratePerUsd <= 0) {
+    return null
+  }
+  return {
+    currency,
+    ratePerUsd,
+    rateId: typeof source.rateId === "number" ? source.rateId : null,
+    effectiveFrom: String(source.effectiveFrom ?? ""),
+    capturedAt: String(source.capturedAt ?? "")
+  }
+}
+
+/**
+ * Snapshot the rate in effect now for a currency. Returns null when no rate
+ * is on file so the quote still goes out in USD.
+ */
+export async function fetchFxSnapshot(
+  supabaseUrl: string,
+  serviceRoleKey: string,
+  currency: DisplayCurrency,
+  at: Date = new Date()
+): Promise<FxSnapshot | null> {
+  const iso = encodeURIComponent(at.toISOString())
+  try {
+    const response = await fetch(
+      `${supabaseUrl}/rest/v1/fx_rates?currency_code=eq.${currency}&effective_from=lte.${iso}&order=effective_from.desc&limit=1&select=id,currency_code,rate_per_usd,effective_from`,
+      {
+        headers: {
+          Authorization: `Bearer ${serviceRoleKey}`,
+          apikey: serviceRoleKey,
+          "Content-Type": "application/json"
+        }
+      }
+    )
+    if (!response.ok) {
+      console.error("Failed to load FX rate:", await response.text())
+      return null
+    }
+    const rows = await response.json()
+    const rate = Array.isArray(rows) ? selectEffectiveFxRate(rows, currency, at) : null
+    return rate ? buildFxSnapshot(rate, at) : null
+  } catch (error) {
+    console.error("Failed to load FX rate:", error)
+    return null
+  }
+}
@@ -0,0 +1,296 @@
+import { PDFDocument, StandardFonts, rgb } from "npm:pdf-lib"
+import { COMPANY_CONTACT, formatCurrency, htmlStyles, wrapText } from "./quote-utils.ts"
+import { storedLineItems, type InvoiceLineItem, type TaxLine } from "./invoice-utils.ts"
+
+// Invoice and credit note documents, drawn the same way as quote documents.
+// Credit notes show their amounts as negatives and name the invoice they credit.
+
+export interface InvoiceDocumentPayload {
+  documentType: "invoice" | "credit_note"
+  invoiceNumber: string | null
+  status: string
+  issuedAt: string | null
+  dueDate?: string | null
+  customer: {
+    name: string
+    email?: string | null
+    company?: string | null
+    address?: string | null
+  }
+  shipmentReference?: string | null
+  originalInvoiceNumber?: string | null
+  creditReason?: string | null
+  lineItems: InvoiceLineItem[]
+  subtotal: number
+  discountAmount: number
+  taxBreakdown: TaxLine[]
+  totalAmount: number
+  notes?: string | null
+}
+
+export const DOCUMENT_PROFILE_FIELDS = "user_id,first_name,last_name,email,company_name,address_line1,city,state,zip_code"
+
+export const customerDisplayName = (profile: any) =>
+  [profile?.first_name, profile?.last_name].filter(Boolean).join(" ") || profile?.email || "Customer"
+
+export const customerMailingAddress = (profile: any) =>
+  profile
+    ? [profile.address_line1, [profile.city, profile.state, profile.zip_code].filter(Boolean).join(" ")].filter(Boolean).join(", ")
+    : null
+
+async function fetchDocumentRows(supabaseUrl: string, serviceRoleKey: string, path: string) {
+  const response = await fetch(`${supabaseUrl}/rest/v1/${path}`, {
+    headers: { Authorization: `Bearer ${serviceRoleKey}`, apikey: serviceRoleKey }
+  })
+  if (!response.ok) {
+    throw new Error(`Failed to load ${path.split("?")[0]}: ${await response.text()}`)
+  }
+  const rows = await response.json()
+  return Array.isArray(rows) ? rows : []
+}
+
+/** Everything a stored invoice row needs to be drawn: customer, shipment and credited invoice. */
+export async function loadInvoiceDocumentPayload(supabaseUrl: string, serviceRoleKey: string, invoice: any): Promise<InvoiceDocumentPayload> {
+  const [profiles, shipments, originals] = await Promise.all([
+    fetchDocumentRows(supabaseUrl, serviceRoleKey, `user_profiles?user_id=eq.${invoice.customer_id}&select=${DOCUMENT_PROFILE_FIELDS}`),
+    invoice.shipment_id
+      ? fetchDocumentRows(supabaseUrl, serviceRoleKey, `shipments?id=eq.${invoice.shipment_id}&select=tracking_number`)
+      : Promise.resolve([]),
+    invoice.original_invoice_id
+      ? fetchDocumentRows(supabaseUrl, serviceRoleKey, `invoices?id=eq.${invoice.original_invoice_id}&select=invoice_number`)
+      : Promise.resolve([])
+  ])
+  const profile = profiles[0]
+
+  return {
+    documentType: invoice.document_type,
+    invoiceNumber: invoice.invoice_number,
+    status: invoice.status,
+    issuedAt: invoice.issued_at,
+    dueDate: invoice.due_date,
+    customer: {
+      name: customerDisplayName(profile),
+      email: profile?.email ?? null,
+      company: profile?.company_name ?? null,
+      address: customerMailingAddress(profile)
+    },
+    shipmentReference: shipments[0]?.tracking_number ?? null,
+    originalInvoiceNumber: originals[0]?.invoice_number ?? null,
+    creditReason: invoice.credit_reason,
+    lineItems: storedLineItems(invoice.line_items),
+    subtotal: Number(invoice.subtotal ?? invoice.amount ?? invoice.total_amount),
+    discountAmount: Number(invoice.discount_amount ?? 0),
+    taxBreakdown: Array.isArray(invoice.tax_breakdown) ? invoice.tax_breakdown : [],
+    totalAmount: Number(invoice.total_amount),
+    notes: invoice.notes
+  }
+}
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;")
+
+const formatDate = (value?: string | null) =>
+  value ? new Date(value).toLocaleDateString("en-US", { dateStyle: "medium" }) : "—"
+
+const formatRate = (rate: number) => `${(rate * 100).toFixed(3).replace(/\.?0+$/, "")}%`
+
+const documentTitle = (payload: InvoiceDocumentPayload) => {
+  const label = payload.documentType === "credit_note" ? "Credit Note" : "Invoice"
+  return payload.invoiceNumber ? `${label} ${payload.invoiceNumber}` : `Draft ${label}`
+}
+
+export const generateInvoiceHtml = (payload: InvoiceDocumentPayload) => {
+  const sign = payload.documentType === "credit_note" ? -1 : 1
+  const money = (value: number) => formatCurrency(sign * value)
+  const title = documentTitle(payload)
+
+  const lineRows = payload.lineItems.map(line => `<tr>
+              <td>${escapeHtml(line.description)}</td>
+              <td>${line.quantity}</td>
+              <td>${formatCurrency(line.unit_price)}</td>
+              <td>${money(line.amount)}</td>
+            </tr>`).join("")
+
+  const taxRows = payload.taxBreakdown.map(tax =>
+    `<tr><td colspan="3">${escapeHtml(tax.name)} (${formatRate(tax.rate)} of ${formatCurrency(tax.taxable_amount)})</td><td>${money(tax.tax_amount)}</td></tr>`
+  ).join("")
+
+  return `<!DOCTYPE html>
+  <html lang="en">
+  <head>
+    <meta charset="utf-8" />
+    <title>QCS Cargo ${title}</title>
+    <style>${htmlStyles}</style>
+  </head>
+  <body>
+    <div class="wrapper">
+      <div class="header">
+        <div class="brand">
+          <span class="brand-title">${COMPANY_CONTACT.name}</span>
+          <span class="brand-tagline">${COMPANY_CONTACT.tagline}</span>
+        </div>
+        <div class="quote-meta">
+          <p><strong>${title}</strong></p>
+          <p><strong>Issued:</strong> ${formatDate(payload.issuedAt)}</p>
+          ${payload.documentType === "invoice" && payload.dueDate ? `<p><strong>Due:</strong> ${formatDate(payload.dueDate)}</p>` : ""}
+          ${payload.status === "void" ? `<p><strong>VOID</strong></p>` : ""}
+        </div>
+      </div>
+
+      <div class="section">
+        <div class="info-grid">
+          <div class="info-card">
+            <h4>Bill To</h4>
+            <p>${escapeHtml(payload.customer.name)}</p>
+            ${payload.customer.company ? `<p>${escapeHtml(payload.customer.company)}</p>` : ""}
+            ${payload.customer.address ? `<p>${escapeHtml(payload.customer.address)}</p>` : ""}
+            ${payload.customer.email ? `<p>${escapeHtml(payload.customer.email)}</p>` : ""}
+          </div>
+          <div class="info-card">
+            <h4>Reference</h4>
+            ${payload.shipmentReference ? `<p>Shipment: ${escapeHtml(payload.shipmentReference)}</p>` : ""}
+            ${payload.originalInvoiceNumber ? `<p>Credits invoice ${escapeHtml(payload.originalInvoiceNumber)}</p>` : ""}
+            ${payload.creditReason ? `<p>Reason: ${escapeHtml(payload.creditReason)}</p>` : ""}
+          </div>
+        </div>
+      </div>
+
+      <div class="section">
+        <h3 class="section-title">Charges</h3>
+        <table>
+          <thead>
+            <tr>
+              <th>Description</th>
+              <th>Qty</th>
+              <th>Unit Price</th>
+              <th>Amount (USD)</th>
+            </tr>
+          </thead>
+          <tbody>
+            ${lineRows}
+            <tr><td colspan="3">Subtotal</td><td>${money(payload.subtotal)}</td></tr>
+            ${payload.discountAmount ? `<tr><td colspan="3">Discount</td><td>${money(-payload.discountAmount)}</td></tr>` : ""}
+            ${taxRows}
+            <tr class="total-row">
+              <td colspan="3">${payload.documentType === "credit_note" ? "Total Credit" : "Total Due"}</td>
+              <td>${money(payload.totalAmount)}</td>
+            </tr>
+          </tbody>
+        </table>
+      </div>
+
+      ${payload.notes ? `<div class="section"><h3 class="section-title">Notes</h3><div class="info-card"><p>${escapeHtml(payload.notes)}</p></div></div>` : ""}
+
+      <div class="footer">
+        <p>${COMPANY_CONTACT.name} • ${COMPANY_CONTACT.address} • ${COMPANY_CONTACT.phone}</p>
+        <p>${COMPANY_CONTACT.email} • ${COMPANY_CONTACT.website}</p>
+      </div>
+    </div>
+  </body>
+  </html>`
+}
+
+export const generateInvoicePdf = async (payload: InvoiceDocumentPayload) => {
+  const pdfDoc = await PDFDocument.create()
+  let page = pdfDoc.addPage([612, 792])
+  const font = await pdfDoc.embedFont(StandardFonts.Helvetica)
+  const boldFont = await pdfDoc.embedFont(StandardFonts.HelveticaBold)
+
+  const margin = 48
+  let cursorY = 792 - margin
+  const lineHeight = 18
+  const amountX = 612 - margin - 90
+  const maxWidth = amountX - margin - 12
+  const sign = payload.documentType === "credit_note" ? -1 : 1
+
+  // Invoices can run long; start a new page instead of drawing off the bottom
+  const nextLine = () => {
+    cursorY -= lineHeight
+    if (cursorY < margin) {
+      page = pdfDoc.addPage([612, 792])
+      cursorY = 792 - margin - lineHeight
+    }
+  }
+
+  const drawHeader = (title: string) => {
+    nextLine()
+    page.drawText(title, { x: margin, y: cursorY, size: 18, font: boldFont, color: rgb(0.25, 0.11, 0.58) })
+    cursorY -= lineHeight / 2
+  }
+
+  const drawSubheading = (text: string) => {
+    nextLine()
+    page.drawText(text, { x: margin, y: cursorY, size: 12, font: boldFont, color: rgb(0.23, 0.26, 0.34) })
+  }
+
+  const drawParagraph = (text: string) => {
+    for (const line of wrapText(text, font, 11, maxWidth)) {
+      nextLine()
+      page.drawText(line, { x: margin, y: cursorY, size: 11, font, color: rgb(0.25, 0.28, 0.34) })
+    }
+  }
+
+  const drawAmountLine = (label: string, amount: number, bold = false) => {
+    const lines = wrapText(label, bold ? boldFont : font, 11, maxWidth)
+    lines.forEach((line, index) => {
+      nextLine()
+      page.drawText(line, { x: margin, y: cursorY, size: 11, font: bold ? boldFont : font, color: rgb(0.25, 0.28, 0.34) })
+      if (index === 0) {
+        page.drawText(formatCurrency(sign * amount), { x: amountX, y: cursorY, size: 11, font: bold ? boldFont : font })
+      }
+    })
+  }
+
+  drawHeader(`QCS Cargo ${documentTitle(payload)}`)
+  drawParagraph(`${COMPANY_CONTACT.name} • ${COMPANY_CONTACT.phone} • ${COMPANY_CONTACT.email}`)
+  drawParagraph(COMPANY_CONTACT.address)
+
+  cursorY -= lineHeight
+  drawParagraph(`Issued: ${formatDate(payload.issuedAt)}`)
+  if (payload.documentType === "invoice" && payload.dueDate) {
+    drawParagraph(`Due: ${formatDate(payload.dueDate)}`)
+  }
+  if (payload.status === "void") {
+    drawSubheading("VOID")
+  }
+
+  cursorY -= lineHeight
+  drawSubheading("Bill To")
+  drawParagraph(payload.customer.name)
+  for (const line of [payload.customer.company, payload.customer.address, payload.customer.email]) {
+    if (line) drawParagraph(line)
+  }
+  if (payload.shipmentReference) {
+    drawParagraph(`Shipment: ${payload.shipmentReference}`)
+  }
+  if (payload.originalInvoiceNumber) {
+    drawParagraph(`Credits invoice ${payload.originalInvoiceNumber}`)
+  }
+  if (payload.creditReason) {
+    drawParagraph(`Reason: ${payload.creditReason}`)
+  }
+
+  cursorY -= lineHeight
+  drawSubheading("Charges")
+  for (const line of payload.lineItems) {
+    const quantity = line.quantity === 1 ? "" : ` (${line.quantity} × ${formatCurrency(line.unit_price)})`
+    drawAmountLine(`${line.description}${quantity}`, line.amount)
+  }
+  cursorY -= lineHeight / 2
+  drawAmountLine("Subtotal", payload.subtotal)
+  if (payload.discountAmount) {
+    drawAmountLine("Discount", -payload.discountAmount)
+  }
+  for (const tax of payload.taxBreakdown) {
+    drawAmountLine(`${tax.name} (${formatRate(tax.rate)} of ${formatCurrency(tax.taxable_amount)})`, tax.tax_amount)
+  }
+  drawAmountLine(payload.documentType === "credit_note" ? "Total Credit" : "Total Due", payload.totalAmount, true)
+
+  if (payload.notes) {
+    cursorY -= lineHeight
+    drawSubheading("Notes")
+    drawParagraph(payload.notes)
+  }
+
+  return await pdfDoc.save()
+}
@@ -0,0 +1,178 @@
+// Invoice math shared by create-invoice and admin-invoices. Each line carries
+// a category; tax rules apply a rate to the lines in one category, so NJ sales
+// tax only lands on packaging supplies and never on air freight. Amounts are
+// USD rounded to cents. Credit notes use the same line shape with positive
+// amounts; their document_type makes them reduce what the customer owes.
+
+export const INVOICE_LINE_CATEGORIES = [
+  "shipping",
+  "surcharge",
+  "insurance",
+  "handling",
+  "storage",
+  "packaging_supplies",
+  "other"
+] as const
+
+export type InvoiceLineCategory = (typeof INVOICE_LINE_CATEGORIES)[number]
+
+export interface InvoiceLineItem {
+  description: string
+  quantity: number
+  unit_price: number
+  amount: number
+  category: InvoiceLineCategory
+  /** Storage lines only: the package_storage_charges row the invoice collects */
+  storage_charge_id?: number
+}
+
+export interface TaxRule {
+  id: number
+  name: string
+  jurisdiction: string
+  rate: number | string
+  applies_to_category: string
+  is_active: boolean
+  effective_from: string
+}
+
+export interface TaxLine {
+  rule_id: number
+  name: string
+  rate: number
+  taxable_amount: number
+  tax_amount: number
+}
+
+export interface InvoiceTotals {
+  subtotal: number
+  discount_amount: number
+  taxable_amount: number
+  tax_amount: number
+  total_amount: number
+  tax_breakdown: TaxLine[]
+}
+
+const MAX_LINES = 100
+
+const roundToTwo = (value: number) => Math.round((value + Number.EPSILON) * 100) / 100
+
+/** Validate caller-supplied lines; amount is always recomputed from quantity × unit price. */
+export function parseInvoiceLineItems(value: unknown): { lineItems: InvoiceLineItem[] } | { error: string } {
+  if (!Array.isArray(value) || value.length === 0) {
+    return { error: "At least one line item is required." }
+  }
+  if (value.length > MAX_LINES) {
+    return { error: `An invoice can have at most ${MAX_LINES} lines.` }
+  }
+  const lineItems: InvoiceLineItem[] = []
+  for (const [index, raw] of value.entries()) {
+    const source = (raw ?? {}) as Record<string, unknown>
+    const description = typeof source.description === "string" ? source.description.trim() : ""
+    const quantity = Number(source.quantity ?? 1)
+    const unitPrice = Number(source.unit_price)
+    const category = (source.category ?? "other") as InvoiceLineCategory
+    if (!description) {
+      return { error: `Line ${index + 1}: description is required.` }
+    }
+    if (!Number.isFinite(quantity) || quantity <= 0) {
+      return { error: `Line ${index + 1}: quantity must be greater than zero.` }
+    }
+    if (!Number.isFinite(unitPrice) || unitPrice < 0) {
+      return { error: `Line ${index + 1}: unit price must be zero or more.` }
+    }
+    if (!INVOICE_LINE_CATEGORIES.includes(category)) {
+      return { error: `Line ${index + 1}: category must be one of ${INVOICE_LINE_CATEGORIES.join(", ")}.` }
+    }
+    lineItems.push({
+      description,
+      quantity,
+      unit_price: roundToTwo(unitPrice),
+      amount: roundToTwo(quantity * unitPrice),
+      category
+    })
+  }
+  return { lineItems }
+}
+
+/** Active rules already in effect on the invoice date, newest first per category. */
+export function applicableTaxRules(rules: TaxRule[], at: Date = new Date()): TaxRule[] {
+  const day = at.toISOString().slice(0, 10)
+  const seen = new Set<string>()
+  return rules
+    .filter(rule => rule.is_active && rule.effective_from <= day && Number(rule.rate) > 0)
+    .sort((a, b) => b.effective_from.localeCompare(a.effective_from))
+    .filter(rule => {
+      const key = `${rule.jurisdiction}:${rule.applies_to_category}`
+      if (seen.has(key)) return false
+      seen.add(key)
+      return true
+    })
+}
+
+/**
+ * Totals for a set of lines. A discount is spread across lines in proportion
+ * to their amounts, so it lowers the taxable base by the taxed lines' share.
+ */
+export function calculateInvoiceTotals(
+  lineItems: InvoiceLineItem[],
+  discountAmount: number,
+  rules: TaxRule[],
+  at: Date = new Date()
+): InvoiceTotals {
+  const subtotal = roundToTwo(lineItems.reduce((sum, line) => sum + line.amount, 0))
+  const discount = roundToTwo(Math.min(Math.max(discountAmount || 0, 0), subtotal))
+  const discountShare = subtotal > 0 ? (subtotal - discount) / subtotal : 0
+
+  const taxBreakdown: TaxLine[] = []
+  for (const rule of applicableTaxRules(rules, at)) {
+    const categoryAmount = lineItems
+      .filter(line => line.category === rule.applies_to_category)
+      .reduce((sum, line) => sum + line.amount, 0)
+    if (categoryAmount <= 0) continue
+    const taxable = roundToTwo(categoryAmount * discountShare)
+    const rate = Number(rule.rate)
+    taxBreakdown.push({
+      rule_id: rule.id,
+      name: rule.name,
+      rate,
+      taxable_amount: taxable,
+      tax_amount: roundToTwo(taxable * rate)
+    })
+  }
+
+  const taxAmount = roundToTwo(taxBreakdown.reduce((sum, line) => sum + line.tax_amount, 0))
+  return {
+    subtotal,
+    discount_amount: discount,
+    taxable_amount: roundToTwo(taxBreakdown.reduce((sum, line) => sum + line.taxable_amount, 0)),
+    tax_amount: taxAmount,
+    total_amount: roundToTwo(subtotal - discount + taxAmount),
+    tax_breakdown: taxBreakdown
+  }
+}
+
+/** How much of an invoice can still be credited after earlier credit notes. */
+export function creditableAmount(
+  invoice: { total_amount: number | string; status: string },
+  creditNotes: { total_amount: number | string; status: string }[]
+): number {
+  if (invoice.status === "draft" || invoice.status === "void") return 0
+  const credited = creditNotes
+    .filter(note => note.status !== "void")
+    .reduce((sum, note) => sum + Number(note.total_amount), 0)
+  return Math.max(0, roundToTwo(Number(invoice.total_amount) - credited))
+}
+
+/** Stored line items may be a JSON string (older rows) or an array. */
+export function storedLineItems(value: unknown): InvoiceLineItem[] {
+  const parsed = typeof value === "string" ? (() => { try { return JSON.parse(value) } catch { return [] } })() : value
+  if (!Array.isArray(parsed)) return []
+  return parsed.map((line: any) => ({
+    description: String(line.description ?? ""),
+    quantity: Number(line.quantity ?? 1),
+    unit_price: Number(line.unit_price ?? line.amount ?? 0),
+    amount: Number(line.amount ?? 0),
+    category: INVOICE_LINE_CATEGORIES.includes(line.category) ? line.category : "other"
+  }))
+}
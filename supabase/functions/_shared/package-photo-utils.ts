@@ -0,0 +1,93 @@
+// Photos taken of mailbox packages as they are received, kept as proof of
+// condition on arrival. They live in the private package-photos bucket under
+// <customer id>/<package id>/ so storage policies can let customers read
+// their own photos through short-lived signed URLs.
+
+export const PACKAGE_PHOTO_BUCKET = "package-photos"
+export const MAX_PHOTOS_PER_PACKAGE = 6
+export const MAX_PHOTO_BYTES = 5 * 1024 * 1024
+
+const PHOTO_TYPES: Record<string, string> = {
+  "image/jpeg": "jpg",
+  "image/png": "png",
+  "image/webp": "webp"
+}
+
+export interface PackagePhoto {
+  contentType: string
+  extension: string
+  bytes: Uint8Array
+}
+
+/** Decode one data URL from the receiving station. */
+export function parsePhotoDataUrl(value: unknown): { photo: PackagePhoto } | { error: string } {
+  const match = typeof value === "string" ? /^data:([a-z/+.-]+);base64,([A-Za-z0-9+/=\s]+)$/i.exec(value) : null
+  if (!match) {
+    return { error: "Photos must be base64 image data URLs." }
+  }
+  const contentType = match[1].toLowerCase() === "image/jpg" ? "image/jpeg" : match[1].toLowerCase()
+  const extension = PHOTO_TYPES[contentType]
+  if (!extension) {
+    return { error: "Photos must be JPEG, PNG or WebP images." }
+  }
+  let bytes: Uint8Array
+  try {
+    bytes = Uint8Array.from(atob(match[2].replace(/\s/g, "")), char => char.charCodeAt(0))
+  } catch {
+    return { error: "Photo data is not valid base64." }
+  }
+  if (bytes.length === 0) {
+    return { error: "Photo is empty." }
+  }
+  if (bytes.length > MAX_PHOTO_BYTES) {
+    return { error: `Each photo must be ${MAX_PHOTO_BYTES / (1024 * 1024)}MB or smaller.` }
+  }
+  return { photo: { contentType, extension, bytes } }
+}
+
+/** All photos for one package; a missing list means no photos. */
+export function parsePackagePhotos(value: unknown): { photos: PackagePhoto[] } | { error: string } {
+  if (value === undefined || value === null) {
+    return { photos: [] }
+  }
+  if (!Array.isArray(value)) {
+    return { error: "Photos must be a list." }
+  }
+  if (value.length > MAX_PHOTOS_PER_PACKAGE) {
+    return { error: `At most ${MAX_PHOTOS_PER_PACKAGE} photos can be attached to a package.` }
+  }
+  const photos: PackagePhoto[] = []
+  for (const [index, raw] of value.entries()) {
+    const parsed = parsePhotoDataUrl(raw)
+    if ("error" in parsed) {
+      return { error: `Photo ${index + 1}: ${parsed.error}` }
+    }
+    photos.push(parsed.photo)
+  }
+  return { photos }
+}
+
+export function packagePhotoPath(customerId: string, packageId: string, index: number, extension: string, at: Date = new Date()) {
+  return `${customerId}/${packageId}/${at.getTime()}-${index + 1}.${extension}`
+}
+
+/** Upload one photo with the service role. */
+export async function uploadPackagePhoto(
+  supabaseUrl: string,
+  serviceRoleKey: string,
+  path: string,
+  photo: PackagePhoto
+): Promise<void> {
+  const response = await fetch(`${supabaseUrl}/storage/v1/object/${PACKAGE_PHOTO_BUCKET}/${path}`, {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${serviceRoleKey}`,
+      apikey: serviceRoleKey,
+      "Content-Type": photo.contentType
+    },
+    body: photo.bytes
+  })
+  if (!response.ok) {
+    throw new Error(`Failed to upload package photo: ${await response.text()}`)
+  }
+}
@@ -0,0 +1,200 @@
+// Hosted checkout for online payments. Functions talk to a PaymentProvider so
+// the provider can be swapped, and tests can point the Stripe-compatible
+// client at a local server. Webhooks are signed Stripe-style: the
+// `t=<unix seconds>,v1=<hex>` header carries an HMAC-SHA256 over
+// "<t>.<raw body>".
+
+export interface CheckoutSessionRequest {
+  /** Our own id for the session; also sent as the idempotency key */
+  reference: string
+  description: string
+  amount: number
+  currency: string
+  customerEmail?: string | null
+  successUrl: string
+  cancelUrl: string
+  expiresAt?: Date
+  metadata: Record<string, string>
+}
+
+export interface CheckoutSession {
+  id: string
+  url: string
+  expiresAt: string | null
+}
+
+export interface WebhookEvent {
+  id: string
+  type: string
+  data: { object: Record<string, unknown> }
+}
+
+export type WebhookCheck =
+  | { valid: true; event: WebhookEvent }
+  | { valid: false; reason: "malformed" | "invalid_signature" | "expired" }
+
+export interface PaymentProvider {
+  readonly name: string
+  createCheckoutSession(request: CheckoutSessionRequest): Promise<CheckoutSession>
+  verifyWebhook(rawBody: string, signatureHeader: string | null, now?: Date): Promise<WebhookCheck>
+}
+
+/** What a webhook event means for our payment sessions, or null for events we don't act on. */
+export type CheckoutOutcome =
+  | { kind: "completed"; sessionId: string; amount: number; providerPaymentId: string | null }
+  | { kind: "expired"; sessionId: string }
+
+export const WEBHOOK_TOLERANCE_SECONDS = 300
+
+const encoder = new TextEncoder()
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer)).map(byte => byte.toString(16).padStart(2, "0")).join("")
+
+const constantTimeEqual = (a: string, b: string) => {
+  if (a.length !== b.length) return false
+  let diff = 0
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i)
+  }
+  return diff === 0
+}
+
+/** Amounts go to the provider in cents. */
+export const toMinorUnits = (amount: number) => Math.round(amount * 100)
+
+export async function signWebhookPayload(rawBody: string, secret: string, timestamp: number): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  )
+  const signature = await crypto.subtle.sign("HMAC", key, encoder.encode(`${timestamp}.${rawBody}`))
+  return toHex(signature)
+}
+
+/**
+ * Check a webhook signature header against the raw request body. Providers
+ * send several v1 signatures while a secret is being rotated; any one match
+ * is enough. Old timestamps are refused so a captured request can't be replayed.
+ */
+export async function verifyWebhookSignature(
+  rawBody: string,
+  signatureHeader: string | null,
+  secret: string,
+  now: Date = new Date(),
+  toleranceSeconds = WEBHOOK_TOLERANCE_SECONDS
+): Promise<WebhookCheck> {
+  if (!signatureHeader) return { valid: false, reason: "malformed" }
+  const parts = signatureHeader.split(",").map(part => part.trim().split("="))
+  const timestamp = Number(parts.find(([key]) => key === "t")?.[1])
+  const signatures = parts.filter(([key, value]) => key === "v1" && value).map(([, value]) => value)
+  if (!Number.isInteger(timestamp) || signatures.length === 0) {
+    return { valid: false, reason: "malformed" }
+  }
+
+  const expected = await signWebhookPayload(rawBody, secret, timestamp)
+  if (!signatures.some(signature => constantTimeEqual(expected, signature))) {
+    return { valid: false, reason: "invalid_signature" }
+  }
+  if (Math.abs(now.getTime() / 1000 - timestamp) > toleranceSeconds) {
+    return { valid: false, reason: "expired" }
+  }
+
+  let event: WebhookEvent
+  try {
+    event = JSON.parse(rawBody)
+  } catch {
+    return { valid: false, reason: "malformed" }
+  }
+  if (typeof event?.id !== "string" || typeof event?.type !== "string" || typeof event?.data?.object !== "object") {
+    return { valid: false, reason: "malformed" }
+  }
+  return { valid: true, event }
+}
+
+/** Checkout completions with the money captured, and sessions that lapsed unpaid. */
+export function checkoutOutcome(event: WebhookEvent): CheckoutOutcome | null {
+  const session = event.data.object
+  if (typeof session.id !== "string") return null
+
+  if (event.type === "checkout.session.completed" || event.type === "checkout.session.async_payment_succeeded") {
+    // Bank debits complete later and arrive as async_payment_succeeded
+    if (session.payment_status !== "paid") return null
+    return {
+      kind: "completed",
+      sessionId: session.id,
+      amount: Number(session.amount_total) / 100,
+      providerPaymentId: typeof session.payment_intent === "string" ? session.payment_intent : null
+    }
+  }
+  if (event.type === "checkout.session.expired") {
+    return { kind: "expired", sessionId: session.id }
+  }
+  return null
+}
+
+export interface StripeProviderOptions {
+  secretKey: string
+  webhookSecret: string
+  apiBase?: string
+  fetchImpl?: typeof fetch
+}
+
+/** Stripe, or anything that speaks its Checkout Sessions API. */
+export function createStripeProvider(options: StripeProviderOptions): PaymentProvider {
+  const apiBase = (options.apiBase ?? "https://api.stripe.com").replace(/\/$/, "")
+  const fetchImpl = options.fetchImpl ?? fetch
+
+  return {
+    name: "stripe",
+
+    async createCheckoutSession(request) {
+      const form = new URLSearchParams({
+        mode: "payment",
+        client_reference_id: request.reference,
+        success_url: request.successUrl,
+        cancel_url: request.cancelUrl,
+        "line_items[0][quantity]": "1",
+        "line_items[0][price_data][currency]": request.currency.toLowerCase(),
+        "line_items[0][price_data][unit_amount]": String(toMinorUnits(request.amount)),
+        "line_items[0][price_data][product_data][name]": request.description
+      })
+      if (request.customerEmail) {
+        form.set("customer_email", request.customerEmail)
+      }
+      if (request.expiresAt) {
+        form.set("expires_at", String(Math.floor(request.expiresAt.getTime() / 1000)))
+      }
+      for (const [key, value] of Object.entries(request.metadata)) {
+        form.set(`metadata[${key}]`, value)
+        form.set(`payment_intent_data[metadata][${key}]`, value)
+      }
+
+      const response = await fetchImpl(`${apiBase}/v1/checkout/sessions`, {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${options.secretKey}`,
+          "Content-Type": "application/x-www-form-urlencoded",
+          "Idempotency-Key": request.reference
+        },
+        body: form.toString()
+      })
+      const body = await response.json().catch(() => ({}))
+      if (!response.ok || typeof body?.id !== "string" || typeof body?.url !== "string") {
+        throw new Error(body?.error?.message ?? `Payment provider returned ${response.status}`)
+      }
+      return {
+        id: body.id,
+        url: body.url,
+        expiresAt: typeof body.expires_at === "number" ? new Date(body.expires_at * 1000).toISOString() : null
+      }
+    },
+
+    verifyWebhook(rawBody, signatureHeader, now) {
+      return verifyWebhookSignature(rawBody, signatureHeader, options.webhookSecret, now)
+    }
+  }
+}
@@ -0,0 +1,179 @@
+// Invoice payments and receivables. Recording a payment happens in the
+// record_invoice_payment database function so the balance check and ledger
+// writes share a transaction; this module validates counter input, works out
+// balances and buckets open invoices for the aged-receivables report.
+
+/** Methods staff can record; online payments only arrive through the payment provider's webhook. */
+export const PAYMENT_METHODS = ["cash", "zelle", "card", "account_credit"] as const
+
+export type PaymentMethod = (typeof PAYMENT_METHODS)[number] | "online"
+
+export const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+  cash: "Cash",
+  zelle: "Zelle",
+  card: "Card",
+  account_credit: "Account credit",
+  online: "Online"
+}
+
+export interface PaymentInput {
+  amount: number
+  method: PaymentMethod
+  reference: string | null
+  notes: string | null
+}
+
+/** Invoice columns that make up the balance. */
+export interface BalanceInvoice {
+  total_amount: number | string
+  amount_paid?: number | string | null
+  amount_credited?: number | string | null
+}
+
+export const AGING_BUCKETS = ["current", "1_30", "31_60", "61_90", "90_plus"] as const
+
+export type AgingBucket = (typeof AGING_BUCKETS)[number]
+
+export interface ReceivableInvoice extends BalanceInvoice {
+  id: number
+  invoice_number: string | null
+  customer_id: string
+  due_date: string
+}
+
+export interface AgedReceivablesRow {
+  customer_id: string
+  customer_name: string
+  buckets: Record<AgingBucket, number>
+  total: number
+  oldest_days_past_due: number
+  invoice_count: number
+}
+
+export interface AgedReceivablesReport {
+  as_of: string
+  totals: Record<AgingBucket, number>
+  total_outstanding: number
+  unapplied_credit: number
+  customers: AgedReceivablesRow[]
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const roundToTwo = (value: number) => Math.round((value + Number.EPSILON) * 100) / 100
+
+/** Zelle and card payments need the confirmation or authorization code for reconciliation. */
+export function parsePaymentInput(value: unknown): { payment: PaymentInput } | { error: string } {
+  const source = (value ?? {}) as Record<string, unknown>
+  const amount = roundToTwo(Number(source.amount))
+  if (!Number.isFinite(amount) || amount <= 0) {
+    return { error: "Payment amount must be greater than zero." }
+  }
+  if (!(PAYMENT_METHODS as readonly string[]).includes(source.method as string)) {
+    return { error: `Payment method must be one of ${PAYMENT_METHODS.join(", ")}.` }
+  }
+  const method = source.method as PaymentMethod
+  const reference = typeof source.reference === "string" ? source.reference.trim().slice(0, 100) : ""
+  if ((method === "zelle" || method === "card") && !reference) {
+    return { error: `A ${PAYMENT_METHOD_LABELS[method]} confirmation or authorization code is required.` }
+  }
+  const notes = typeof source.notes === "string" ? source.notes.trim().slice(0, 500) : ""
+  return { payment: { amount, method, reference: reference || null, notes: notes || null } }
+}
+
+export const invoiceBalance = (invoice: BalanceInvoice) =>
+  roundToTwo(
+    Number(invoice.total_amount) - Number(invoice.amount_credited ?? 0) - Number(invoice.amount_paid ?? 0)
+  )
+
+export function daysPastDue(dueDate: string, now: Date = new Date()): number {
+  return Math.floor((now.getTime() - new Date(dueDate).getTime()) / DAY_MS)
+}
+
+export function agingBucket(dueDate: string, now: Date = new Date()): AgingBucket {
+  const days = daysPastDue(dueDate, now)
+  if (days <= 0) return "current"
+  if (days <= 30) return "1_30"
+  if (days <= 60) return "31_60"
+  if (days <= 90) return "61_90"
+  return "90_plus"
+}
+
+const emptyBuckets = (): Record<AgingBucket, number> =>
+  Object.fromEntries(AGING_BUCKETS.map(bucket => [bucket, 0])) as Record<AgingBucket, number>
+
+/**
+ * Open balances by customer and age. Invoices with nothing left to pay are
+ * skipped; customers are ordered by amount outstanding.
+ */
+export function buildAgedReceivables(
+  invoices: ReceivableInvoice[],
+  customerNames: Map<string, string>,
+  unappliedCredit: number,
+  now: Date = new Date()
+): AgedReceivablesReport {
+  const totals = emptyBuckets()
+  const byCustomer = new Map<string, AgedReceivablesRow>()
+
+  for (const invoice of invoices) {
+    const balance = invoiceBalance(invoice)
+    if (balance <= 0) continue
+    const bucket = agingBucket(invoice.due_date, now)
+    const row = byCustomer.get(invoice.customer_id) ?? {
+      customer_id: invoice.customer_id,
+      customer_name: customerNames.get(invoice.customer_id) ?? "Unknown customer",
+      buckets: emptyBuckets(),
+      total: 0,
+      oldest_days_past_due: 0,
+      invoice_count: 0
+    }
+    row.buckets[bucket] = roundToTwo(row.buckets[bucket] + balance)
+    row.total = roundToTwo(row.total + balance)
+    row.oldest_days_past_due = Math.max(row.oldest_days_past_due, daysPastDue(invoice.due_date, now))
+    row.invoice_count += 1
+    byCustomer.set(invoice.customer_id, row)
+    totals[bucket] = roundToTwo(totals[bucket] + balance)
+  }
+
+  return {
+    as_of: now.toISOString(),
+    totals,
+    total_outstanding: roundToTwo(AGING_BUCKETS.reduce((sum, bucket) => sum + totals[bucket], 0)),
+    unapplied_credit: roundToTwo(unappliedCredit),
+    customers: [...byCustomer.values()].sort((a, b) => b.total - a.total)
+  }
+}
+
+export interface ReceiptPayment {
+  receipt_number: string | null
+  amount: number | string
+  applied_amount: number | string
+  overpayment_amount: number | string
+  method: PaymentMethod
+  reference?: string | null
+  received_at: string
+}
+
+const money = (value: number) => `$${value.toFixed(2)}`
+
+/** Lines for the emailed receipt. */
+export function receiptDetails(
+  payment: ReceiptPayment,
+  invoice: BalanceInvoice & { invoice_number: string | null }
+): Array<{ label: string; value: string }> {
+  const details = [
+    { label: "Receipt", value: payment.receipt_number ?? "—" },
+    { label: "Invoice", value: invoice.invoice_number ?? "—" },
+    { label: "Date", value: new Date(payment.received_at).toLocaleDateString("en-US", { dateStyle: "medium" }) },
+    {
+      label: "Amount received",
+      value: `${money(Number(payment.amount))} (${PAYMENT_METHOD_LABELS[payment.method]}${payment.reference ? ` ${payment.reference}` : ""})`
+    }
+  ]
+  if (Number(payment.overpayment_amount) > 0) {
+    details.push({ label: "Applied to invoice", value: money(Number(payment.applied_amount)) })
+    details.push({ label: "Added to account credit", value: money(Number(payment.overpayment_amount)) })
+  }
+  details.push({ label: "Balance remaining", value: money(Math.max(invoiceBalance(invoice), 0)) })
+  return details
+}
@@ -0,0 +1,85 @@
+// Counter pickup of mailbox packages. Before release, staff verify the
+// person collecting either with a six-digit one-time code sent to the
+// customer by SMS or email, or by checking a photo ID. Only the code's hash
+// and the ID's type and last four characters are kept.
+
+export const PICKUP_CODE_TTL_MINUTES = 10
+export const MAX_PICKUP_CODE_ATTEMPTS = 5
+export const PICKUP_SIGNATURE_BUCKET = "pickup-signatures"
+
+export const PICKUP_ID_TYPES = ["drivers_license", "passport", "state_id", "national_id"] as const
+export type PickupIdType = typeof PICKUP_ID_TYPES[number]
+
+export type PickupVerification =
+  | { method: "otp"; code: string }
+  | { method: "id_check"; idType: PickupIdType; idLast4: string }
+
+export interface PickupCodeRecord {
+  expires_at: string
+  attempts: number
+  consumed_at: string | null
+}
+
+/** Six digits, leading zeros kept. */
+export function generatePickupCode(randomValues: (array: Uint32Array) => Uint32Array = array => crypto.getRandomValues(array)) {
+  const [value] = randomValues(new Uint32Array(1))
+  return String(value % 1_000_000).padStart(6, "0")
+}
+
+/** Hex SHA-256 of the code salted with its record id. */
+export async function hashPickupCode(code: string, salt: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(`${salt}:${code}`))
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, "0")).join("")
+}
+
+/** Why a code can no longer be tried, or null while it is still usable. */
+export function pickupCodeUnusableReason(record: PickupCodeRecord, now: Date = new Date()): string | null {
+  if (record.consumed_at) {
+    return "This code has already been used. Send a new one."
+  }
+  if (new Date(record.expires_at).getTime() <= now.getTime()) {
+    return "This code has expired. Send a new one."
+  }
+  if (record.attempts >= MAX_PICKUP_CODE_ATTEMPTS) {
+    return "Too many wrong attempts. Send a new code."
+  }
+  return null
+}
+
+export function parsePickupVerification(value: unknown): { verification: PickupVerification } | { error: string } {
+  const source = (value && typeof value === "object" ? value : {}) as Record<string, unknown>
+  if (source.method === "otp") {
+    const code = typeof source.code === "string" ? source.code.replace(/\s/g, "") : ""
+    if (!/^\d{6}$/.test(code)) {
+      return { error: "Enter the six-digit pickup code." }
+    }
+    return { verification: { method: "otp", code } }
+  }
+  if (source.method === "id_check") {
+    const idType = PICKUP_ID_TYPES.find(type => type === source.id_type)
+    if (!idType) {
+      return { error: `ID type must be one of: ${PICKUP_ID_TYPES.join(", ")}.` }
+    }
+    const idLast4 = typeof source.id_last4 === "string" ? source.id_last4.trim().toUpperCase() : ""
+    if (!/^[A-Z0-9]{4}$/.test(idLast4)) {
+      return { error: "Enter the last four characters of the ID number." }
+    }
+    return { verification: { method: "id_check", idType, idLast4 } }
+  }
+  return { error: "Verification method must be otp or id_check." }
+}
+
+/** "a***@example.com" so staff can confirm where the code went. */
+export function maskEmail(email: string) {
+  const [local, domain] = email.split("@")
+  return domain ? `${local.slice(0, 1)}***@${domain}` : "***"
+}
+
+/** Last four digits of an E.164 number. */
+export function maskPhone(phone: string) {
+  return `***${phone.replace(/\D/g, "").slice(-4)}`
+}
+
+export function pickupSignaturePath(customerId: string, releaseId: string) {
+  return `${customerId}/${releaseId}.png`
+}
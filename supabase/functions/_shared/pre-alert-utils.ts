@@ -0,0 +1,55 @@
+// Customer pre-alerts for inbound mailbox packages. Receiving matches each
+// new tracking number against the customer's open pre-alerts; a match copies
+// the retailer, contents and declared value onto the package for customs,
+// and an arrival with no pre-alert is flagged for staff.
+
+export interface PreAlert {
+  id: string
+  tracking_number: string
+  retailer: string
+  contents: string
+  declared_value: number | string
+}
+
+export interface PreAlertPackageFields {
+  pre_alert_id: string | null
+  retailer: string | null
+  contents_description: string | null
+  declared_value: number | null
+  pre_alert_match: "matched" | "unmatched"
+}
+
+/** Same normalization the database applies to pre-alert tracking numbers. */
+export function normalizePreAlertTracking(value: string) {
+  return value.replace(/[\s-]/g, "").toUpperCase()
+}
+
+/** Open pre-alerts keyed by the tracking number they expect. */
+export function indexPreAlerts(preAlerts: PreAlert[]): Map<string, PreAlert> {
+  return new Map(preAlerts.map(preAlert => [normalizePreAlertTracking(preAlert.tracking_number), preAlert]))
+}
+
+/** Columns to store on a newly received package. */
+export function preAlertPackageFields(preAlert: PreAlert | undefined): PreAlertPackageFields {
+  if (!preAlert) {
+    return {
+      pre_alert_id: null,
+      retailer: null,
+      contents_description: null,
+      declared_value: null,
+      pre_alert_match: "unmatched"
+    }
+  }
+  return {
+    pre_alert_id: preAlert.id,
+    retailer: preAlert.retailer,
+    contents_description: preAlert.contents,
+    declared_value: Number(preAlert.declared_value),
+    pre_alert_match: "matched"
+  }
+}
+
+/** "Amazon (1Z...), Best Buy (9400...)" for the arrival notification. */
+export function arrivedAsExpectedSummary(matched: Array<{ retailer: string; tracking_number: string }>) {
+  return matched.map(pkg => `${pkg.retailer} (${pkg.tracking_number})`).join(", ")
+}
@@ -0,0 +1,237 @@
+// Quote win/loss analytics for admin-reports. Quotes are grouped by lane,
+// service, weight band, age at decision and how many follow-ups went out
+// before the decision; each group reports its conversion rate and lost
+// reasons. Conversion is won / closed, where closed means won, lost or
+// expired; quotes still open are counted but left out of the rate.
+
+import { LOST_REASONS, type LostReason } from "./quote-decision-utils.ts"
+
+export interface ConversionQuote {
+  id: number
+  destination_id: number
+  service_type: string
+  weight_lbs: number | string
+  status: string
+  created_at: string
+  /** created_at of the quote's first revision; age is measured from here */
+  first_created_at?: string | null
+  quote_expires_at: string
+  accepted_at?: string | null
+  lost_at?: string | null
+  declined_at?: string | null
+  lost_reason?: string | null
+}
+
+export interface ConversionDestination {
+  id: number
+  country_name: string
+  city_name?: string | null
+}
+
+export interface ConversionHistoryEntry {
+  quote_id: number
+  status: string
+  created_at: string
+}
+
+export type Outcome = "won" | "lost" | "expired" | "open"
+
+export interface ConversionGroup {
+  key: string
+  label: string
+  quotes: number
+  won: number
+  lost: number
+  expired: number
+  open: number
+  /** won / (won + lost + expired), 0–100 with one decimal; null when nothing has closed */
+  conversion_rate: number | null
+  lost_reasons: Record<LostReason, number>
+}
+
+export interface DecisionPercentiles {
+  count: number
+  p50: number | null
+  p75: number | null
+  p90: number | null
+}
+
+export interface ConversionReport {
+  summary: Omit<ConversionGroup, "key" | "label">
+  by_destination: ConversionGroup[]
+  by_service_type: ConversionGroup[]
+  by_weight_band: ConversionGroup[]
+  by_age: ConversionGroup[]
+  by_follow_up_step: ConversionGroup[]
+  /** Hours from issue to decision */
+  time_to_decision_hours: { won: DecisionPercentiles; lost: DecisionPercentiles }
+}
+
+const HOUR_MS = 60 * 60 * 1000
+
+// Same breakpoints as the destination rate tiers
+export const WEIGHT_BANDS = [
+  { key: "1-50", label: "1–50 lbs", max: 50 },
+  { key: "51-100", label: "51–100 lbs", max: 100 },
+  { key: "101-200", label: "101–200 lbs", max: 200 },
+  { key: "201+", label: "201+ lbs", max: Infinity }
+] as const
+
+export const AGE_BANDS = [
+  { key: "0-1d", label: "Under 1 day", maxHours: 24 },
+  { key: "1-3d", label: "1–3 days", maxHours: 72 },
+  { key: "3-5d", label: "3–5 days", maxHours: 120 },
+  { key: "5d+", label: "5+ days", maxHours: Infinity }
+] as const
+
+const round1 = (value: number) => Math.round(value * 10) / 10
+
+export function quoteOutcome(quote: ConversionQuote, now: Date = new Date()): Outcome {
+  if (quote.status === "won") return "won"
+  if (quote.status === "lost") return "lost"
+  if (quote.status === "expired" || new Date(quote.quote_expires_at) <= now) return "expired"
+  return "open"
+}
+
+/** When a won or lost quote was decided, if that was recorded. */
+export function decisionTime(quote: ConversionQuote, outcome: Outcome): Date | null {
+  const value = outcome === "won" ? quote.accepted_at : outcome === "lost" ? quote.lost_at || quote.declined_at : null
+  return value ? new Date(value) : null
+}
+
+export function weightBand(weightLbs: number | string) {
+  const weight = Number(weightLbs) || 0
+  return WEIGHT_BANDS.find(band => weight <= band.max) ?? WEIGHT_BANDS[WEIGHT_BANDS.length - 1]
+}
+
+export function ageBand(hours: number) {
+  return AGE_BANDS.find(band => hours < band.maxHours) ?? AGE_BANDS[AGE_BANDS.length - 1]
+}
+
+/** Linear-interpolated percentile of an unsorted list. */
+export function percentile(values: number[], p: number): number | null {
+  if (!values.length) return null
+  const sorted = [...values].sort((a, b) => a - b)
+  const rank = (p / 100) * (sorted.length - 1)
+  const lower = Math.floor(rank)
+  const upper = Math.ceil(rank)
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower)
+}
+
+const emptyReasons = () =>
+  Object.fromEntries(LOST_REASONS.map(reason => [reason, 0])) as Record<LostReason, number>
+
+const emptyGroup = (key: string, label: string): ConversionGroup => ({
+  key,
+  label,
+  quotes: 0,
+  won: 0,
+  lost: 0,
+  expired: 0,
+  open: 0,
+  conversion_rate: null,
+  lost_reasons: emptyReasons()
+})
+
+const finish = (group: ConversionGroup): ConversionGroup => {
+  const closed = group.won + group.lost + group.expired
+  return { ...group, conversion_rate: closed > 0 ? round1((group.won / closed) * 100) : null }
+}
+
+const summarise = (values: number[]): DecisionPercentiles => ({
+  count: values.length,
+  p50: values.length ? round1(percentile(values, 50)!) : null,
+  p75: values.length ? round1(percentile(values, 75)!) : null,
+  p90: values.length ? round1(percentile(values, 90)!) : null
+})
+
+export function buildConversionReport(
+  quotes: ConversionQuote[],
+  destinations: ConversionDestination[],
+  history: ConversionHistoryEntry[],
+  now: Date = new Date()
+): ConversionReport {
+  const destinationLabels = new Map(
+    destinations.map(destination => [
+      destination.id,
+      [destination.city_name, destination.country_name].filter(Boolean).join(", ")
+    ])
+  )
+  const sentByQuote = new Map<number, number[]>()
+  for (const entry of history) {
+    if (entry.status !== "sent") continue
+    const times = sentByQuote.get(entry.quote_id) ?? []
+    times.push(new Date(entry.created_at).getTime())
+    sentByQuote.set(entry.quote_id, times)
+  }
+
+  const summary = emptyGroup("all", "All quotes")
+  const dimensions = {
+    by_destination: new Map<string, ConversionGroup>(),
+    by_service_type: new Map<string, ConversionGroup>(),
+    by_weight_band: new Map<string, ConversionGroup>(),
+    by_age: new Map<string, ConversionGroup>(),
+    by_follow_up_step: new Map<string, ConversionGroup>()
+  }
+  const decisionHours = { won: [] as number[], lost: [] as number[] }
+
+  const add = (groups: Map<string, ConversionGroup>, key: string, label: string, outcome: Outcome, reason: LostReason | null) => {
+    const group = groups.get(key) ?? emptyGroup(key, label)
+    group.quotes += 1
+    group[outcome] += 1
+    if (reason) group.lost_reasons[reason] += 1
+    groups.set(key, group)
+  }
+
+  for (const quote of quotes) {
+    const outcome = quoteOutcome(quote, now)
+    const decision = decisionTime(quote, outcome)
+    // Without a decision time the quote is aged up to now, capped at expiry
+    const decided = decision ?? new Date(Math.min(now.getTime(), new Date(quote.quote_expires_at).getTime()))
+    const hours = Math.max(0, (decided.getTime() - new Date(quote.first_created_at ?? quote.created_at).getTime()) / HOUR_MS)
+    const reason = outcome === "lost"
+      ? ((LOST_REASONS as readonly string[]).includes(quote.lost_reason ?? "") ? (quote.lost_reason as LostReason) : "other")
+      : null
+
+    summary.quotes += 1
+    summary[outcome] += 1
+    if (reason) summary.lost_reasons[reason] += 1
+    if (decision && (outcome === "won" || outcome === "lost")) decisionHours[outcome].push(hours)
+
+    const band = weightBand(quote.weight_lbs)
+    const age = ageBand(hours)
+    const followUps = (sentByQuote.get(quote.id) ?? []).filter(time => time <= decided.getTime()).length
+    const service = quote.service_type === "express" ? "express" : "standard"
+
+    add(dimensions.by_destination, String(quote.destination_id), destinationLabels.get(quote.destination_id) ?? `Destination ${quote.destination_id}`, outcome, reason)
+    add(dimensions.by_service_type, service, service === "express" ? "Express" : "Standard", outcome, reason)
+    add(dimensions.by_weight_band, band.key, band.label, outcome, reason)
+    add(dimensions.by_age, age.key, age.label, outcome, reason)
+    add(
+      dimensions.by_follow_up_step,
+      String(followUps),
+      followUps === 0 ? "Before any follow-up" : `After ${followUps} follow-up${followUps === 1 ? "" : "s"}`,
+      outcome,
+      reason
+    )
+  }
+
+  const ordered = (groups: Map<string, ConversionGroup>, order?: readonly string[]) =>
+    [...groups.values()]
+      .map(finish)
+      .sort((a, b) =>
+        order ? order.indexOf(a.key) - order.indexOf(b.key) : b.quotes - a.quotes || a.label.localeCompare(b.label)
+      )
+
+  const { key: _key, label: _label, ...totals } = finish(summary)
+
+  return {
+    summary: totals,
+    by_destination: ordered(dimensions.by_destination),
+    by_service_type: ordered(dimensions.by_service_type),
+    by_weight_band: ordered(dimensions.by_weight_band, WEIGHT_BANDS.map(band => band.key)),
+    by_age: ordered(dimensions.by_age, AGE_BANDS.map(band => band.key)),
+    by_follow_up_step: [...dimensions.by_follow_up_step.values()].map(finish).sort((a, b) => Number(a.key) - Number(b.key)),
+    time_to_decision_hours: { won: summarise(decisionHours.won), lost: summarise(decisionHours.lost) }
+  }
+}
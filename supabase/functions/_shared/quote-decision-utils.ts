@@ -0,0 +1,79 @@
+// Rules for a customer accepting or declining a quote, shared by the signed
+// public link (quote-link) and the signed-in dashboard (quote-accept).
+
+export const DECLINE_REASON_MAX_LENGTH = 500
+
+export interface DecisionQuote {
+  status?: string | null
+  is_latest_revision?: boolean | null
+  quote_expires_at?: string | null
+}
+
+export interface DecisionBlocker {
+  code: "QUOTE_SUPERSEDED" | "QUOTE_CLOSED" | "QUOTE_EXPIRED"
+  message: string
+}
+
+/**
+ * Why a quote can't take a decision right now, or null when it can. A quote
+ * that is already won is reported as closed; callers that want accepting to
+ * be repeatable check for that first.
+ */
+export function quoteDecisionBlocker(quote: DecisionQuote, now: Date = new Date()): DecisionBlocker | null {
+  if (quote.is_latest_revision === false) {
+    return { code: "QUOTE_SUPERSEDED", message: "This quote has been revised. Please use the latest revision." }
+  }
+  if ((quote.status ?? "pending") !== "pending") {
+    return { code: "QUOTE_CLOSED", message: "This quote can no longer be accepted or declined." }
+  }
+  if (quote.quote_expires_at && new Date(quote.quote_expires_at) < now) {
+    return { code: "QUOTE_EXPIRED", message: "This quote has expired. Please request a new quote." }
+  }
+  return null
+}
+
+export const LOST_REASONS = ["price", "transit_time", "competitor", "shipment_cancelled", "other"] as const
+
+export type LostReason = (typeof LOST_REASONS)[number]
+
+export function parseLostReason(value: unknown): LostReason | null {
+  return typeof value === "string" && (LOST_REASONS as readonly string[]).includes(value) ? (value as LostReason) : null
+}
+
+/** Trimmed decline reason, or null when none was given. */
+export function parseDeclineReason(value: unknown): string | null {
+  if (typeof value !== "string") return null
+  const reason = value.trim()
+  if (!reason) return null
+  return reason.slice(0, DECLINE_REASON_MAX_LENGTH)
+}
+
+export interface QuoteEvent {
+  quoteId: number
+  eventType: "viewed" | "accepted" | "declined"
+  source: "public_link" | "dashboard"
+  reason?: string | null
+  userAgent?: string | null
+}
+
+/** Log a view or decision; failures are logged and swallowed. */
+export async function recordQuoteEvent(supabaseUrl: string, serviceRoleKey: string, event: QuoteEvent) {
+  const response = await fetch(`${supabaseUrl}/rest/v1/rpc/record_quote_event`, {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${serviceRoleKey}`,
+      apikey: serviceRoleKey,
+      "Content-Type": "application/json"
+    },
+    body: JSON.stringify({
+      p_quote_id: event.quoteId,
+      p_event_type: event.eventType,
+      p_source: event.source,
+      p_reason: event.reason ?? null,
+      p_user_agent: event.userAgent ?? null
+    })
+  })
+  if (!response.ok) {
+    console.error("Failed to record quote event:", await response.text())
+  }
+}
@@ -0,0 +1,87 @@
+// Signed public quote links. The link carries the quote id and an expiry and
+// an HMAC-SHA256 over both, so the quote-link function can show the quote and
+// take an accept/decline without the customer signing in.
+
+export const QUOTE_LINK_PATH = "/quote/view"
+
+export interface QuoteLinkParams {
+  quoteId: number
+  /** Unix seconds */
+  expiresAt: number
+  signature: string
+}
+
+export type QuoteLinkCheck =
+  | { valid: true }
+  | { valid: false; reason: "malformed" | "expired" | "invalid_signature" }
+
+const encoder = new TextEncoder()
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer)).map(byte => byte.toString(16).padStart(2, "0")).join("")
+
+/** Compare without returning early on the first mismatch. */
+const constantTimeEqual = (a: string, b: string) => {
+  if (a.length !== b.length) return false
+  let diff = 0
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i)
+  }
+  return diff === 0
+}
+
+/** Links stop working when the quote does. */
+export const quoteLinkExpiry = (quoteExpiresAt: string | Date) =>
+  Math.floor(new Date(quoteExpiresAt).getTime() / 1000)
+
+export async function signQuoteLink(quoteId: number, expiresAt: number, secret: string): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  )
+  const signature = await crypto.subtle.sign("HMAC", key, encoder.encode(`${quoteId}.${expiresAt}`))
+  return toHex(signature)
+}
+
+export async function buildQuoteLinkUrl(
+  siteUrl: string,
+  quoteId: number,
+  quoteExpiresAt: string | Date,
+  secret: string
+): Promise<string> {
+  const expiresAt = quoteLinkExpiry(quoteExpiresAt)
+  const signature = await signQuoteLink(quoteId, expiresAt, secret)
+  const params = new URLSearchParams({ q: String(quoteId), exp: String(expiresAt), sig: signature })
+  return `${siteUrl}${QUOTE_LINK_PATH}?${params.toString()}`
+}
+
+/** Read q/exp/sig from a request body or query string. */
+export function parseQuoteLinkParams(source: Record<string, unknown> | URLSearchParams): QuoteLinkParams | null {
+  const read = (key: string) => (source instanceof URLSearchParams ? source.get(key) : source[key])
+  const quoteId = Number(read("q"))
+  const expiresAt = Number(read("exp"))
+  const signature = read("sig")
+  if (!Number.isInteger(quoteId) || quoteId <= 0) return null
+  if (!Number.isInteger(expiresAt) || expiresAt <= 0) return null
+  if (typeof signature !== "string" || !/^[0-9a-f]{64}$/.test(signature)) return null
+  return { quoteId, expiresAt, signature }
+}
+
+export async function verifyQuoteLink(
+  params: QuoteLinkParams | null,
+  secret: string,
+  now: Date = new Date()
+): Promise<QuoteLinkCheck> {
+  if (!params) return { valid: false, reason: "malformed" }
+  const expected = await signQuoteLink(params.quoteId, params.expiresAt, secret)
+  if (!constantTimeEqual(expected, params.signature)) {
+    return { valid: false, reason: "invalid_signature" }
+  }
+  if (params.expiresAt * 1000 < now.getTime()) {
+    return { valid: false, reason: "expired" }
+  }
+  return { valid: true }
+}
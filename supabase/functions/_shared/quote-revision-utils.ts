@@ -0,0 +1,141 @@
+// Quote revisions: every edit to a quote is saved as a new shipping_quotes
+// row sharing base_reference, so issued documents are never overwritten.
+
+import type { AccessorialLineItem } from "./accessorial-utils.ts"
+
+export const MANUAL_ADJUSTMENT_CODE = "manual_adjustment"
+
+/** Admin-entered fee line; negative amounts are discounts. */
+export interface ManualAdjustment {
+  label: string
+  amount: number
+}
+
+export interface QuoteRevisionChange {
+  field: string
+  label: string
+  before: string | number | null
+  after: string | number | null
+}
+
+/** Columns and metadata compared between two revisions. */
+export interface RevisionComparable {
+  weight_lbs?: number | string | null
+  length_inches?: number | string | null
+  width_inches?: number | string | null
+  height_inches?: number | string | null
+  service_type?: string | null
+  declared_value?: number | string | null
+  base_shipping_cost?: number | string | null
+  insurance_cost?: number | string | null
+  total_cost?: number | string | null
+  quote_metadata?: {
+    weight?: { billable?: number | null } | null
+    rate_breakdown?: { accessorials?: AccessorialLineItem[] | null } | null
+  } | null
+}
+
+interface RateBreakdownWithAccessorials {
+  handlingFee: number
+  totalCost: number
+  accessorials: AccessorialLineItem[]
+}
+
+const roundToTwo = (value: number) => parseFloat(value.toFixed(2))
+
+/** First revision keeps the original reference; later ones get -R2, -R3, ... */
+export const revisionReference = (baseReference: string, revisionNumber: number) =>
+  revisionNumber <= 1 ? baseReference : `${baseReference}-R${revisionNumber}`
+
+export function parseManualAdjustment(value: unknown): ManualAdjustment | null {
+  if (!value || typeof value !== "object") return null
+  const source = value as Record<string, unknown>
+  const amount = Number(source.amount)
+  const label = typeof source.label === "string" ? source.label.trim() : ""
+  if (!Number.isFinite(amount) || amount === 0) return null
+  return { label: label || "Adjustment", amount: roundToTwo(amount) }
+}
+
+/**
+ * Add an admin adjustment to an engine breakdown as its own line. It rolls up
+ * into handlingFee like the other non-consolidation accessorials; the total
+ * never goes below zero.
+ */
+export function applyManualAdjustment<T extends RateBreakdownWithAccessorials>(
+  breakdown: T,
+  adjustment: ManualAdjustment | null
+): T {
+  if (!adjustment) return breakdown
+  const line: AccessorialLineItem = {
+    code: MANUAL_ADJUSTMENT_CODE,
+    name: adjustment.label,
+    basis: "flat",
+    quantity: 1,
+    unitAmount: adjustment.amount,
+    amount: adjustment.amount
+  }
+  return {
+    ...breakdown,
+    handlingFee: roundToTwo(breakdown.handlingFee + adjustment.amount),
+    totalCost: roundToTwo(Math.max(0, breakdown.totalCost + adjustment.amount)),
+    accessorials: [...breakdown.accessorials, line]
+  }
+}
+
+const FIELD_LABELS: Array<[keyof RevisionComparable, string]> = [
+  ["weight_lbs", "Weight (lbs)"],
+  ["length_inches", "Length (in)"],
+  ["width_inches", "Width (in)"],
+  ["height_inches", "Height (in)"],
+  ["service_type", "Service"],
+  ["declared_value", "Declared value"],
+  ["base_shipping_cost", "Base shipping"],
+  ["insurance_cost", "Insurance"],
+  ["total_cost", "Total"]
+]
+
+const normalize = (value: unknown): string | number | null => {
+  if (value === null || value === undefined || value === "") return null
+  const numeric = Number(value)
+  if (typeof value !== "boolean" && Number.isFinite(numeric)) return roundToTwo(numeric)
+  return String(value)
+}
+
+/** Field-by-field differences, including fee lines matched by code. */
+export function diffQuoteRevisions(previous: RevisionComparable, next: RevisionComparable): QuoteRevisionChange[] {
+  const changes: QuoteRevisionChange[] = []
+
+  for (const [field, label] of FIELD_LABELS) {
+    const before = normalize(previous[field])
+    const after = normalize(next[field])
+    if (before !== after) {
+      changes.push({ field, label, before, after })
+    }
+  }
+
+  const billableBefore = normalize(previous.quote_metadata?.weight?.billable)
+  const billableAfter = normalize(next.quote_metadata?.weight?.billable)
+  if (billableBefore !== billableAfter) {
+    changes.push({ field: "billable_weight", label: "Billable weight (lbs)", before: billableBefore, after: billableAfter })
+  }
+
+  const feesBefore = previous.quote_metadata?.rate_breakdown?.accessorials ?? []
+  const feesAfter = next.quote_metadata?.rate_breakdown?.accessorials ?? []
+  const codes = [...new Set([...feesBefore, ...feesAfter].map(item => item.code))]
+  for (const code of codes) {
+    const before = feesBefore.find(item => item.code === code)
+    const after = feesAfter.find(item => item.code === code)
+    const beforeAmount = before ? roundToTwo(before.amount) : null
+    const afterAmount = after ? roundToTwo(after.amount) : null
+    if (beforeAmount !== afterAmount) {
+      changes.push({
+        field: `fee:${code}`,
+        label: (after ?? before)?.name ?? code,
+        before: beforeAmount,
+        after: afterAmount
+      })
+    }
+  }
+
+  return changes
+}
@@ -1,4 +1,16 @@
 import { PDFDocument, StandardFonts, rgb } from "npm:pdf-lib"
+import type { AccessorialLineItem } from "./accessorial-utils.ts"
+import { lbToKg } from "./rating-utils.ts"
+import { convertFromUsd, type FxSnapshot } from "./fx-utils.ts"
+
+export interface QuotePieceLine {
+  description?: string | null
+  quantity: number
+  weightLbs: number
+  dimensions?: { length: number; width: number; height: number } | null
+  dimensionalWeightLbs?: number | null
+  billableWeightLbs: number
+}
 
 export interface QuoteDocumentPayload {
   quoteReference: string
@@ -29,6 +41,7 @@ export interface QuoteDocumentPayload {
     }
     declaredValue?: number | null
     serviceType: "standard" | "express"
+    pieces?: QuotePieceLine[]
   }
   rateBreakdown: {
     baseShippingCost: number
@@ -37,6 +50,7 @@ export interface QuoteDocumentPayload {
     insuranceCost: number
     totalCost: number
     expressSurcharge?: number
+    accessorials?: AccessorialLineItem[]
   }
   transitEstimate?: {
     min?: number | null
@@ -44,6 +58,8 @@ export interface QuoteDocumentPayload {
     average?: number | null
     label?: string | null
   }
+  /** Rate snapshot used to show the total in the consignee's currency */
+  localCurrency?: FxSnapshot | null
   notes?: string | null
   terms?: string[]
   callToActionUrl?: string
@@ -67,18 +83,71 @@ export const COMPANY_CONTACT = {
   website: "https://www.qcs-cargo.com"
 }
 
-export const formatCurrency = (value: number) => {
+/**
+ * Link from the quote document to the customer's quotes page, where the quote
+ * can be accepted. Uses the base reference so links in earlier revisions still
+ * resolve to the latest one.
+ */
+export const quoteAcceptUrl = (reference: string) =>
+  `${COMPANY_CONTACT.website}/dashboard/quotes?accept=${encodeURIComponent(reference)}`
+
+export const formatCurrency = (value: number, currency = "USD") => {
   return new Intl.NumberFormat("en-US", {
     style: "currency",
-    currency: "USD"
+    currency
   }).format(value)
 }
 
+/** Local-currency total plus the rate it was converted at, or null. */
+const describeLocalTotal = (totalUsd: number, snapshot?: FxSnapshot | null) => {
+  if (!snapshot) return null
+  const rateDate = snapshot.effectiveFrom
+    ? new Date(snapshot.effectiveFrom).toLocaleDateString("en-US", { dateStyle: "medium" })
+    : null
+  return {
+    amount: formatCurrency(convertFromUsd(totalUsd, snapshot), snapshot.currency),
+    rate: `1 USD = ${snapshot.ratePerUsd} ${snapshot.currency}${rateDate ? ` (rate of ${rateDate})` : ""}. Charges are billed in USD.`
+  }
+}
+
 export const formatWeight = (weightLbs: number | null | undefined) => {
   if (typeof weightLbs !== "number" || Number.isNaN(weightLbs)) {
     return "N/A"
   }
-  return `${weightLbs.toFixed(2)} lbs`
+  return `${weightLbs.toFixed(2)} lbs (${lbToKg(weightLbs).toFixed(2)} kg)`
+}
+
+const describeAccessorial = (item: AccessorialLineItem) => {
+  switch (item.basis) {
+    case "per_additional_package":
+      return `${item.name} (${item.quantity} × ${formatCurrency(item.unitAmount)})`
+    case "per_lb":
+    case "per_lb_per_week":
+      return `${item.name} (${formatCurrency(item.unitAmount)} × ${item.quantity})`
+    default:
+      return item.name
+  }
+}
+
+/**
+ * Fee rows for the investment summary. Quotes rated with the accessorial
+ * catalog list each charge; older quotes only have the rolled-up fees.
+ */
+const feeLines = (rateBreakdown: QuoteDocumentPayload["rateBreakdown"]) => {
+  if (rateBreakdown.accessorials?.length) {
+    return rateBreakdown.accessorials.map(item => ({ label: describeAccessorial(item), amount: item.amount }))
+  }
+  return [
+    { label: "Consolidation & Processing", amount: rateBreakdown.consolidationFee },
+    { label: "Handling & Security Screening", amount: rateBreakdown.handlingFee }
+  ].filter(line => line.amount)
+}
+
+const describePiece = (piece: QuotePieceLine) => {
+  const size = piece.dimensions
+    ? `${piece.dimensions.length}" × ${piece.dimensions.width}" × ${piece.dimensions.height}"`
+    : "no dimensions"
+  return `${piece.quantity} × ${piece.description || "Piece"} @ ${formatWeight(piece.weightLbs)} (${size})`
 }
 
 export const generateQuoteReference = (prefix?: string | null) => {
@@ -89,7 +158,7 @@ export const generateQuoteReference = (prefix?: string | null) => {
   return `QCS-${dateSegment}-${normalizedPrefix ? `${normalizedPrefix}-` : ""}${randomSegment}`
 }
 
-const htmlStyles = `
+export const htmlStyles = `
   body { font-family: 'Inter', 'Helvetica', Arial, sans-serif; color: #1f2937; margin: 0; padding: 0; background: #f8fafc; }
   .wrapper { max-width: 720px; margin: 0 auto; padding: 32px; background: #ffffff; border-radius: 18px; border: 1px solid #e2e8f0; }
   .header { display: flex; justify-content: space-between; align-items: center; border-bottom: 1px solid #e2e8f0; padding-bottom: 20px; margin-bottom: 24px; }
@@ -133,9 +202,10 @@ export const generateQuoteHtml = (payload: QuoteDocumentPayload) => {
     packageDetails,
     rateBreakdown,
     transitEstimate,
+    localCurrency,
     notes,
     terms = DEFAULT_TERMS,
-    callToActionUrl = `${COMPANY_CONTACT.website}/booking`
+    callToActionUrl = quoteAcceptUrl(quoteReference)
   } = payload
 
   const createdDate = new Date(createdAt).toLocaleDateString("en-US", { dateStyle: "medium" })
@@ -146,6 +216,8 @@ export const generateQuoteHtml = (payload: QuoteDocumentPayload) => {
     ? `${packageDetails.dimensions.length}" L × ${packageDetails.dimensions.width}" W × ${packageDetails.dimensions.height}" H`
     : "Provided upon booking"
 
+  const localTotal = describeLocalTotal(rateBreakdown.totalCost, localCurrency)
+
   const declaredValueLine = packageDetails.declaredValue && packageDetails.declaredValue > 0
     ? formatCurrency(packageDetails.declaredValue)
     : "Will be confirmed prior to departure"
@@ -219,6 +291,21 @@ export const generateQuoteHtml = (payload: QuoteDocumentPayload) => {
           </div>
         </div>
 
+      ${packageDetails.pieces?.length ? `<div class="section">
+        <h3 class="section-title">Pieces</h3>
+        <table>
+          <thead>
+            <tr>
+              <th>Piece</th>
+              <th>Billable Weight</th>
+            </tr>
+          </thead>
+          <tbody>
+            ${packageDetails.pieces.map(piece => `<tr><td>${describePiece(piece)}</td><td>${formatWeight(piece.billableWeightLbs)}</td></tr>`).join("")}
+          </tbody>
+        </table>
+      </div>` : ""}
+
       <div class="section">
         <h3 class="section-title">Investment Summary</h3>
         <table>
@@ -233,16 +320,17 @@ export const generateQuoteHtml = (payload: QuoteDocumentPayload) => {
               <td>Base Air Cargo Transport (${serviceLabel})</td>
               <td>${formatCurrency(rateBreakdown.baseShippingCost)}</td>
             </tr>
-            ${rateBreakdown.consolidationFee ? `<tr><td>Consolidation & Processing</td><td>${formatCurrency(rateBreakdown.consolidationFee)}</td></tr>` : ""}
-            ${rateBreakdown.handlingFee ? `<tr><td>Handling & Security Screening</td><td>${formatCurrency(rateBreakdown.handlingFee)}</td></tr>` : ""}
+            ${feeLines(rateBreakdown).map(line => `<tr><td>${line.label}</td><td>${formatCurrency(line.amount)}</td></tr>`).join("")}
             ${rateBreakdown.expressSurcharge ? `<tr><td>Express Priority Surcharge</td><td>${formatCurrency(rateBreakdown.expressSurcharge)}</td></tr>` : ""}
             ${rateBreakdown.insuranceCost ? `<tr><td>Insurance Coverage</td><td>${formatCurrency(rateBreakdown.insuranceCost)}</td></tr>` : ""}
             <tr class="total-row">
               <td>Total Investment</td>
               <td>${formatCurrency(rateBreakdown.totalCost)}</td>
             </tr>
+            ${localTotal ? `<tr><td>Local equivalent (${localCurrency?.currency})</td><td>≈ ${localTotal.amount}</td></tr>` : ""}
           </tbody>
         </table>
+        ${localTotal ? `<p style="margin-top: 8px; font-size: 12px; color: #64748b;">${localTotal.rate}</p>` : ""}
       </div>
 
       <div class="section">
@@ -257,7 +345,7 @@ export const generateQuoteHtml = (payload: QuoteDocumentPayload) => {
       ${notes ? `<div class="section"><h3 class="section-title">Special Instructions</h3><div class="info-card"><p>${notes}</p></div></div>` : ""}
 
       <div class="cta">
-        <a class="cta-button" href="${callToActionUrl}" target="_blank" rel="noopener noreferrer">Confirm Booking with QCS Cargo</a>
+        <a class="cta-button" href="${callToActionUrl}" target="_blank" rel="noopener noreferrer">Accept Quote &amp; Book Shipment</a>
         <p style="margin-top: 12px; font-size: 12px; color: #64748b;">Have questions? Call us at ${origin.phone} or reply to this email.</p>
       </div>
 
@@ -270,7 +358,7 @@ export const generateQuoteHtml = (payload: QuoteDocumentPayload) => {
   </html>`
 }
 
-const wrapText = (text: string, font: any, fontSize: number, maxWidth: number) => {
+export const wrapText = (text: string, font: any, fontSize: number, maxWidth: number) => {
   const words = text.split(" ")
   const lines: string[] = []
   let currentLine = ""
@@ -352,6 +440,10 @@ export const generateQuotePdf = async (payload: QuoteDocumentPayload) => {
     drawParagraph(`Dimensions: ${payload.packageDetails.dimensions.length}" L × ${payload.packageDetails.dimensions.width}" W × ${payload.packageDetails.dimensions.height}" H`)
   }
 
+  for (const piece of payload.packageDetails.pieces ?? []) {
+    drawParagraph(`${describePiece(piece)}: ${formatWeight(piece.billableWeightLbs)} billable`, { bullet: true })
+  }
+
   if (payload.packageDetails.declaredValue) {
     drawParagraph(`Declared Value: ${formatCurrency(payload.packageDetails.declaredValue)}`)
   }
@@ -363,11 +455,8 @@ export const generateQuotePdf = async (payload: QuoteDocumentPayload) => {
   cursorY -= lineHeight
   drawSubheading("Investment Summary")
   drawParagraph(`Base Shipping Cost: ${formatCurrency(payload.rateBreakdown.baseShippingCost)}`)
-  if (payload.rateBreakdown.consolidationFee) {
-    drawParagraph(`Consolidation Fee: ${formatCurrency(payload.rateBreakdown.consolidationFee)}`)
-  }
-  if (payload.rateBreakdown.handlingFee) {
-    drawParagraph(`Handling Fee: ${formatCurrency(payload.rateBreakdown.handlingFee)}`)
+  for (const line of feeLines(payload.rateBreakdown)) {
+    drawParagraph(`${line.label}: ${formatCurrency(line.amount)}`)
   }
   if (payload.rateBreakdown.expressSurcharge) {
     drawParagraph(`Express Surcharge: ${formatCurrency(payload.rateBreakdown.expressSurcharge)}`)
@@ -376,6 +465,11 @@ export const generateQuotePdf = async (payload: QuoteDocumentPayload) => {
     drawParagraph(`Insurance: ${formatCurrency(payload.rateBreakdown.insuranceCost)}`)
   }
   drawParagraph(`Total: ${formatCurrency(payload.rateBreakdown.totalCost)}`)
+  const localTotal = describeLocalTotal(payload.rateBreakdown.totalCost, payload.localCurrency)
+  if (localTotal) {
+    drawParagraph(`Local equivalent (approx.): ${localTotal.amount}`)
+    drawParagraph(localTotal.rate)
+  }
 
   cursorY -= lineHeight
   drawSubheading("Terms & Conditions")
@@ -391,7 +485,7 @@ export const generateQuotePdf = async (payload: QuoteDocumentPayload) => {
   }
 
   cursorY -= lineHeight
-  drawParagraph("To confirm your shipment, please contact the QCS Cargo team or visit our booking portal.")
+  drawParagraph("To confirm your shipment, accept this quote from My Quotes in your QCS Cargo account or contact our team.")
 
   const pdfBytes = await pdfDoc.save()
   return pdfBytes
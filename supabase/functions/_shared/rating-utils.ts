@@ -0,0 +1,801 @@
+/**
+ * Shared rating engine for shipping-calculator and quote-request.
+ * Resolves the weight tier that applies to a shipment from the effective-dated
+ * pricing_rules table, falling back to the destination rate columns when no
+ * rule covers the destination, service and weight on the rating date.
+ */
+
+import {
+  AccessorialCharge,
+  AccessorialLineItem,
+  AccessorialRequest,
+  applyAccessorials,
+  CONSOLIDATION_CODE,
+  DEFAULT_ACCESSORIAL_CATALOG
+} from "./accessorial-utils.ts"
+
+export type ServiceType = "standard" | "express"
+
+export interface PricingRule {
+  id: number
+  destination_id: number
+  service_type: string
+  weight_min: number | string
+  weight_max: number | string | null
+  rate_per_lb: number | string
+  express_surcharge_percent?: number | string | null
+  effective_date?: string | null
+  expiry_date?: string | null
+  is_active?: boolean | null
+}
+
+export interface DestinationRates {
+  dim_divisor_standard?: number | string | null
+  dim_divisor_express?: number | string | null
+  rate_per_lb_1_50: number | string | null
+  rate_per_lb_51_100: number | string | null
+  rate_per_lb_101_200: number | string | null
+  rate_per_lb_201_plus: number | string | null
+  express_surcharge_percent?: number | string | null
+}
+
+export interface RateTier {
+  weightMin: number
+  weightMax: number | null
+  ratePerLb: number
+  expressSurchargePercent: number
+  serviceType: string
+  source: "pricing_rule" | "destination"
+  ruleId: number | null
+  effectiveDate: string | null
+}
+
+export interface BaseRateResult {
+  tier: RateTier
+  ratePerLb: number
+  baseShippingCost: number
+  expressSurcharge: number
+}
+
+export const coerceNumber = (value: unknown): number | null => {
+  if (typeof value === "number" && Number.isFinite(value)) {
+    return value
+  }
+  if (typeof value === "string" && value.trim() !== "") {
+    const parsed = parseFloat(value)
+    return Number.isFinite(parsed) ? parsed : null
+  }
+  return null
+}
+
+export const roundToTwo = (value: number) => parseFloat(value.toFixed(2))
+
+/**
+ * A rule is in effect from its effective_date (inclusive) until its
+ * expiry_date (exclusive), so a replacement can start the instant the
+ * previous rule stops.
+ */
+export function isRuleEffective(rule: PricingRule, at: Date): boolean {
+  if (rule.is_active === false) return false
+
+  const time = at.getTime()
+  if (rule.effective_date && new Date(rule.effective_date).getTime() > time) {
+    return false
+  }
+  if (rule.expiry_date && new Date(rule.expiry_date).getTime() <= time) {
+    return false
+  }
+  return true
+}
+
+const toTier = (rule: PricingRule, fallbackSurcharge: number): RateTier | null => {
+  const weightMin = coerceNumber(rule.weight_min)
+  const ratePerLb = coerceNumber(rule.rate_per_lb)
+  if (weightMin === null || ratePerLb === null) return null
+
+  return {
+    weightMin,
+    weightMax: coerceNumber(rule.weight_max),
+    ratePerLb,
+    expressSurchargePercent: coerceNumber(rule.express_surcharge_percent) ?? fallbackSurcharge,
+    serviceType: rule.service_type,
+    source: "pricing_rule",
+    ruleId: rule.id,
+    effectiveDate: rule.effective_date ?? null
+  }
+}
+
+/**
+ * Build the ordered tier table for one destination, service type and date.
+ * Rules for the requested service win; express falls back to standard rules
+ * (with the express surcharge applied on top). When two rules cover the same
+ * weight band, the one with the most recent effective_date is used.
+ */
+export function selectRuleTiers(
+  rules: PricingRule[],
+  options: { destinationId: number; serviceType: string; at: Date; fallbackSurchargePercent?: number }
+): RateTier[] {
+  const { destinationId, serviceType, at, fallbackSurchargePercent = 0 } = options
+
+  const effective = rules.filter(
+    rule => Number(rule.destination_id) === Number(destinationId) && isRuleEffective(rule, at)
+  )
+
+  let candidates = effective.filter(rule => rule.service_type === serviceType)
+  if (candidates.length === 0 && serviceType !== "standard") {
+    candidates = effective.filter(rule => rule.service_type === "standard")
+  }
+
+  const byBand = new Map<string, PricingRule>()
+  for (const rule of candidates) {
+    const key = `${coerceNumber(rule.weight_min)}:${coerceNumber(rule.weight_max) ?? "max"}`
+    const existing = byBand.get(key)
+    const ruleStart = rule.effective_date ? new Date(rule.effective_date).getTime() : 0
+    const existingStart = existing?.effective_date ? new Date(existing.effective_date).getTime() : 0
+    if (!existing || ruleStart > existingStart) {
+      byBand.set(key, rule)
+    }
+  }
+
+  return Array.from(byBand.values())
+    .map(rule => toTier(rule, fallbackSurchargePercent))
+    .filter((tier): tier is RateTier => tier !== null)
+    .sort((a, b) => a.weightMin - b.weightMin)
+}
+
+/**
+ * Legacy four-tier table from the destinations.rate_per_lb_* columns.
+ */
+export function buildDestinationTiers(destination: DestinationRates): RateTier[] {
+  const tier1 = coerceNumber(destination.rate_per_lb_1_50) ?? 0
+  const tier2 = coerceNumber(destination.rate_per_lb_51_100) ?? tier1
+  const tier3 = coerceNumber(destination.rate_per_lb_101_200) ?? tier2
+  const tier4 = coerceNumber(destination.rate_per_lb_201_plus) ?? tier3
+  const expressSurchargePercent = coerceNumber(destination.express_surcharge_percent) ?? 0
+
+  const tier = (weightMin: number, weightMax: number | null, ratePerLb: number): RateTier => ({
+    weightMin,
+    weightMax,
+    ratePerLb,
+    expressSurchargePercent,
+    serviceType: "standard",
+    source: "destination",
+    ruleId: null,
+    effectiveDate: null
+  })
+
+  return [tier(0, 50, tier1), tier(50, 100, tier2), tier(100, 200, tier3), tier(200, null, tier4)]
+}
+
+/**
+ * A tier applies from its weight_min up to its weight_max. Bands written as
+ * "1-50" then "51-100" are adjacent, so a fractional weight between them
+ * lands in the higher band. A weight below the first band or inside a wider
+ * gap matches nothing.
+ */
+export function findTierForWeight(tiers: RateTier[], billableWeight: number): RateTier | null {
+  let previousMax: number | null = null
+  for (const tier of tiers) {
+    const reached =
+      tier.weightMin <= billableWeight ||
+      (previousMax !== null && billableWeight > previousMax && tier.weightMin - previousMax <= 1)
+    if (reached && (tier.weightMax === null || billableWeight <= tier.weightMax)) {
+      return tier
+    }
+    previousMax = tier.weightMax
+  }
+  return null
+}
+
+/**
+ * Resolve the tier for a shipment, preferring effective pricing rules and
+ * falling back to the destination columns only when no rule matches.
+ */
+export function resolveRateTier(
+  rules: PricingRule[],
+  destination: DestinationRates,
+  options: { destinationId: number; serviceType: string; billableWeight: number; at?: Date }
+): RateTier {
+  const at = options.at ?? new Date()
+  const fallbackSurchargePercent = coerceNumber(destination.express_surcharge_percent) ?? 0
+
+  const ruleTiers = selectRuleTiers(rules, {
+    destinationId: options.destinationId,
+    serviceType: options.serviceType,
+    at,
+    fallbackSurchargePercent
+  })
+
+  const fromRules = findTierForWeight(ruleTiers, options.billableWeight)
+  if (fromRules) return fromRules
+
+  return findTierForWeight(buildDestinationTiers(destination), options.billableWeight) as RateTier
+}
+
+/**
+ * Price the transport portion of a shipment. The express surcharge is only
+ * added when the matched tier is not already an express-specific rate.
+ */
+export function calculateBaseRate(tier: RateTier, billableWeight: number, serviceType: string): BaseRateResult {
+  const baseCost = billableWeight * tier.ratePerLb
+  const expressSurcharge =
+    serviceType === "express" && tier.serviceType !== "express"
+      ? baseCost * (tier.expressSurchargePercent / 100)
+      : 0
+
+  return {
+    tier,
+    ratePerLb: tier.ratePerLb,
+    baseShippingCost: baseCost + expressSurcharge,
+    expressSurcharge
+  }
+}
+
+export interface InsuranceRules {
+  included_value: number
+  rate_per_hundred: number
+  minimum_premium: number
+  high_value_threshold: number
+}
+
+export const DEFAULT_INSURANCE_RULES: InsuranceRules = {
+  included_value: 100,
+  rate_per_hundred: 7.5,
+  minimum_premium: 15,
+  high_value_threshold: 2500
+}
+
+export const DIMENSIONAL_DIVISOR = 166
+
+export type MeasurementUnits = "lb_in" | "kg_cm"
+
+export const LB_PER_KG = 2.20462
+export const CM_PER_IN = 2.54
+
+export const parseUnits = (value: unknown): MeasurementUnits => (value === "kg_cm" ? "kg_cm" : "lb_in")
+
+export const lbToKg = (lbs: number) => lbs / LB_PER_KG
+
+export const inToCm = (inches: number) => inches * CM_PER_IN
+
+/**
+ * Divisor for the destination and service, in in³/lb. Express falls back to
+ * the standard divisor, which falls back to the house default.
+ */
+export function resolveDimDivisor(destination: DestinationRates, serviceType: string): number {
+  const standard = coerceNumber(destination.dim_divisor_standard)
+  const express = coerceNumber(destination.dim_divisor_express)
+  const divisor = serviceType === "express" ? express ?? standard : standard
+  return divisor && divisor > 0 ? divisor : DIMENSIONAL_DIVISOR
+}
+
+/** The same divisor expressed in cm³/kg, as metric-minded carriers quote it. */
+export const toMetricDivisor = (divisor: number) => roundToTwo((divisor * CM_PER_IN ** 3) / LB_PER_KG)
+
+/**
+ * Declared value up to included_value is covered free; above that the
+ * premium is rate_per_hundred per $100 of excess, never below the minimum.
+ */
+export function calculateInsurance(declaredValue: number, rules: InsuranceRules = DEFAULT_INSURANCE_RULES): number {
+  if (!Number.isFinite(declaredValue) || declaredValue <= rules.included_value) {
+    return 0
+  }
+  const premium = ((declaredValue - rules.included_value) / 100) * rules.rate_per_hundred
+  return Math.max(rules.minimum_premium, premium)
+}
+
+export interface ShipmentPiece {
+  quantity?: number | null
+  /** Weight of one piece in lbs */
+  weight: number
+  length?: number | null
+  width?: number | null
+  height?: number | null
+  description?: string | null
+}
+
+export interface PieceRate {
+  description: string | null
+  quantity: number
+  dimensions: { length: number; width: number; height: number } | null
+  unitWeight: number
+  unitDimensionalWeight: number | null
+  unitBillableWeight: number
+  actualWeight: number
+  dimensionalWeight: number | null
+  billableWeight: number
+}
+
+/**
+ * Pieces from a request body. Falls back to the legacy single weight and
+ * dimensions when no pieces array is sent. Pieces without a positive weight
+ * are dropped; quantity defaults to 1. This is the only place request units
+ * are converted: everything returned is in lbs and inches.
+ */
+export function resolvePieces(
+  pieces: unknown,
+  weight?: unknown,
+  dimensions?: { length?: unknown; width?: unknown; height?: unknown } | null,
+  units: MeasurementUnits = "lb_in"
+): ShipmentPiece[] {
+  const toLb = (value: number | null) => (value === null || units === "lb_in" ? value : value * LB_PER_KG)
+  const toIn = (value: number | null) => (value === null || units === "lb_in" ? value : value / CM_PER_IN)
+
+  const source: Array<Record<string, unknown>> = Array.isArray(pieces) && pieces.length > 0
+    ? pieces
+    : [{ weight, quantity: 1, length: dimensions?.length, width: dimensions?.width, height: dimensions?.height }]
+
+  return source.flatMap(piece => {
+    const pieceWeight = coerceNumber(piece?.weight)
+    if (!pieceWeight || pieceWeight <= 0) {
+      return []
+    }
+    const quantity = coerceNumber(piece.quantity)
+    return [
+      {
+        quantity: quantity && quantity >= 1 ? Math.floor(quantity) : 1,
+        weight: toLb(pieceWeight) as number,
+        length: toIn(coerceNumber(piece.length)),
+        width: toIn(coerceNumber(piece.width)),
+        height: toIn(coerceNumber(piece.height)),
+        description: typeof piece.description === "string" && piece.description.trim() ? piece.description.trim() : null
+      }
+    ]
+  })
+}
+
+/**
+ * Billable weight is decided per piece (actual vs dimensional), then summed,
+ * so a light bulky box cannot hide behind a dense barrel in the same shipment.
+ */
+export function ratePieces(pieces: ShipmentPiece[], divisor: number = DIMENSIONAL_DIVISOR): PieceRate[] {
+  return pieces.map(piece => {
+    const quantity = piece.quantity && piece.quantity >= 1 ? Math.floor(piece.quantity) : 1
+    const length = coerceNumber(piece.length)
+    const width = coerceNumber(piece.width)
+    const height = coerceNumber(piece.height)
+    const dimensions = length && width && height ? { length, width, height } : null
+    const unitDimensionalWeight = dimensions ? (dimensions.length * dimensions.width * dimensions.height) / divisor : null
+    const unitBillableWeight = Math.max(piece.weight, unitDimensionalWeight ?? 0)
+
+    return {
+      description: piece.description ?? null,
+      quantity,
+      dimensions,
+      unitWeight: piece.weight,
+      unitDimensionalWeight,
+      unitBillableWeight,
+      actualWeight: piece.weight * quantity,
+      dimensionalWeight: unitDimensionalWeight === null ? null : unitDimensionalWeight * quantity,
+      billableWeight: unitBillableWeight * quantity
+    }
+  })
+}
+
+export interface ShipmentDestination extends DestinationRates {
+  transit_days_min: number
+  transit_days_max: number
+}
+
+export interface ShipmentRateInput {
+  destinationId: number
+  destination: ShipmentDestination
+  pricingRules: PricingRule[]
+  serviceType: string
+  pieces: ShipmentPiece[]
+  declaredValue?: number
+  accessorials?: AccessorialRequest
+  accessorialCatalog?: AccessorialCharge[]
+  insuranceRules?: InsuranceRules
+  at?: Date
+}
+
+export interface ShipmentRate {
+  weight: {
+    actual: number
+    dimensional: number | null
+    billable: number
+  }
+  pieces: PieceRate[]
+  /** in³/lb */
+  dimensionalDivisor: number
+  tier: RateTier
+  rateBreakdown: {
+    ratePerLb: number
+    baseShippingCost: number
+    expressSurcharge: number
+    consolidationFee: number
+    handlingFee: number
+    insuranceCost: number
+    totalCost: number
+    accessorials: AccessorialLineItem[]
+  }
+  transit: {
+    min: number
+    max: number
+  }
+}
+
+/**
+ * Full rating of one shipment: billable weight, transport, fees, insurance
+ * and transit time. Every caller that shows a price (calculator, quotes,
+ * public rate examples) goes through here so the numbers always agree.
+ */
+export function rateShipment(input: ShipmentRateInput): ShipmentRate {
+  const { destination, serviceType } = input
+
+  const dimensionalDivisor = resolveDimDivisor(destination, serviceType)
+  const pieces = ratePieces(input.pieces, dimensionalDivisor)
+  const actualWeight = pieces.reduce((sum, piece) => sum + piece.actualWeight, 0)
+  const billableWeight = pieces.reduce((sum, piece) => sum + piece.billableWeight, 0)
+  const dimensionedPieces = pieces.filter(piece => piece.dimensionalWeight !== null)
+  const dimensionalWeight = dimensionedPieces.length
+    ? dimensionedPieces.reduce((sum, piece) => sum + (piece.dimensionalWeight as number), 0)
+    : null
+  const longestSide = dimensionedPieces.length
+    ? Math.max(
+        ...dimensionedPieces.map(({ dimensions }) =>
+          dimensions ? Math.max(dimensions.length, dimensions.width, dimensions.height) : 0
+        )
+      )
+    : null
+  const pieceCount = pieces.reduce((sum, piece) => sum + piece.quantity, 0)
+
+  const tier = resolveRateTier(input.pricingRules, destination, {
+    destinationId: input.destinationId,
+    serviceType,
+    billableWeight,
+    at: input.at
+  })
+  const { ratePerLb, baseShippingCost, expressSurcharge } = calculateBaseRate(tier, billableWeight, serviceType)
+
+  // Consolidation keeps its own column on quotes; every other accessorial
+  // rolls up into handlingFee, with the itemized list alongside.
+  const accessorials = applyAccessorials(input.accessorialCatalog ?? DEFAULT_ACCESSORIAL_CATALOG, {
+    ...input.accessorials,
+    // Every piece is a package; consolidating them is charged per extra piece
+    packageCount: Math.max(input.accessorials?.packageCount ?? 1, pieceCount),
+    billableWeight,
+    longestSide,
+    serviceType
+  })
+  const consolidationFee = accessorials
+    .filter(item => item.code === CONSOLIDATION_CODE)
+    .reduce((sum, item) => sum + item.amount, 0)
+  const handlingFee = accessorials
+    .filter(item => item.code !== CONSOLIDATION_CODE)
+    .reduce((sum, item) => sum + item.amount, 0)
+  const insuranceCost = calculateInsurance(input.declaredValue ?? 0, input.insuranceRules)
+  const totalCost = baseShippingCost + consolidationFee + handlingFee + insuranceCost
+
+  const transitMin = Number(destination.transit_days_min)
+  const transitMax = Number(destination.transit_days_max)
+
+  return {
+    weight: {
+      actual: actualWeight,
+      dimensional: dimensionalWeight,
+      billable: billableWeight
+    },
+    pieces,
+    dimensionalDivisor,
+    tier,
+    rateBreakdown: {
+      ratePerLb: roundToTwo(ratePerLb),
+      baseShippingCost: roundToTwo(baseShippingCost),
+      expressSurcharge: roundToTwo(expressSurcharge),
+      consolidationFee: roundToTwo(consolidationFee),
+      handlingFee: roundToTwo(handlingFee),
+      insuranceCost: roundToTwo(insuranceCost),
+      totalCost: roundToTwo(totalCost),
+      accessorials
+    },
+    transit:
+      serviceType === "express"
+        ? { min: Math.max(1, transitMin - 1), max: Math.max(2, transitMax - 1) }
+        : { min: transitMin, max: transitMax }
+  }
+}
+
+export interface WeightSummary {
+  actual: number
+  dimensional: number | null
+  billable: number
+}
+
+/**
+ * Echo weights in both unit systems so kg-minded consignees and lb-based
+ * invoices read off the same numbers.
+ */
+export function describeMeasurements(rating: ShipmentRate, units: MeasurementUnits) {
+  const kg = (value: number | null) => (value === null ? null : roundToTwo(lbToKg(value)))
+  const round = (value: number | null) => (value === null ? null : roundToTwo(value))
+
+  return {
+    inputUnits: units,
+    lb: {
+      actual: roundToTwo(rating.weight.actual),
+      dimensional: round(rating.weight.dimensional),
+      billable: roundToTwo(rating.weight.billable)
+    } as WeightSummary,
+    kg: {
+      actual: kg(rating.weight.actual) as number,
+      dimensional: kg(rating.weight.dimensional),
+      billable: kg(rating.weight.billable) as number
+    } as WeightSummary,
+    dimensionalDivisor: {
+      inchesPerLb: rating.dimensionalDivisor,
+      cmPerKg: toMetricDivisor(rating.dimensionalDivisor)
+    },
+    pieces: rating.pieces.map(piece => ({
+      description: piece.description,
+      quantity: piece.quantity,
+      dimensionsIn: piece.dimensions
+        ? {
+            length: roundToTwo(piece.dimensions.length),
+            width: roundToTwo(piece.dimensions.width),
+            height: roundToTwo(piece.dimensions.height)
+          }
+        : null,
+      dimensionsCm: piece.dimensions
+        ? {
+            length: roundToTwo(inToCm(piece.dimensions.length)),
+            width: roundToTwo(inToCm(piece.dimensions.width)),
+            height: roundToTwo(inToCm(piece.dimensions.height))
+          }
+        : null,
+      unitWeightLb: roundToTwo(piece.unitWeight),
+      unitWeightKg: roundToTwo(lbToKg(piece.unitWeight)),
+      billableWeightLb: roundToTwo(piece.billableWeight),
+      billableWeightKg: roundToTwo(lbToKg(piece.billableWeight))
+    }))
+  }
+}
+
+/**
+ * Read public rate settings (insurance, additional services, etc.) from
+ * system_settings, keyed by setting_key. Missing keys are simply absent.
+ */
+export async function fetchRateSettings(
+  supabaseUrl: string,
+  serviceRoleKey: string,
+  keys: string[]
+): Promise<Record<string, any>> {
+  const inList = keys.map(key => `"${key}"`).join(",")
+  try {
+    const response = await fetch(
+      `${supabaseUrl}/rest/v1/system_settings?setting_key=in.(${encodeURIComponent(inList)})&select=setting_key,setting_value`,
+      {
+        headers: {
+          Authorization: `Bearer ${serviceRoleKey}`,
+          apikey: serviceRoleKey,
+          "Content-Type": "application/json"
+        }
+      }
+    )
+    if (!response.ok) {
+      console.error("Failed to load rate settings:", await response.text())
+      return {}
+    }
+    const rows = await response.json()
+    return Object.fromEntries(
+      (Array.isArray(rows) ? rows : []).map((row: { setting_key: string; setting_value: unknown }) => [
+        row.setting_key,
+        row.setting_value
+      ])
+    )
+  } catch (error) {
+    console.error("Failed to load rate settings:", error)
+    return {}
+  }
+}
+
+export const INSURANCE_SETTING_KEY = "rates.insurance"
+
+/**
+ * Insurance rules from system_settings, falling back to the defaults for any
+ * field that is missing or not a number.
+ */
+export function parseInsuranceRules(value: unknown): InsuranceRules {
+  const source = (value && typeof value === "object" ? value : {}) as Record<string, unknown>
+  return {
+    included_value: coerceNumber(source.included_value) ?? DEFAULT_INSURANCE_RULES.included_value,
+    rate_per_hundred: coerceNumber(source.rate_per_hundred) ?? DEFAULT_INSURANCE_RULES.rate_per_hundred,
+    minimum_premium: coerceNumber(source.minimum_premium) ?? DEFAULT_INSURANCE_RULES.minimum_premium,
+    high_value_threshold: coerceNumber(source.high_value_threshold) ?? DEFAULT_INSURANCE_RULES.high_value_threshold
+  }
+}
+
+/**
+ * Load the pricing rules in effect on the given date, for one destination or
+ * (with a null destinationId) for all of them.
+ * Returns an empty list on failure so callers fall back to destination rates.
+ */
+export async function fetchEffectivePricingRules(
+  supabaseUrl: string,
+  serviceRoleKey: string,
+  destinationId: number | null,
+  at: Date = new Date()
+): Promise<PricingRule[]> {
+  const iso = encodeURIComponent(at.toISOString())
+  const destinationFilter = destinationId === null ? "" : `destination_id=eq.${destinationId}&`
+  const url =
+    `${supabaseUrl}/rest/v1/pricing_rules?${destinationFilter}` +
+    `is_active=eq.true&effective_date=lte.${iso}` +
+    `&or=(expiry_date.is.null,expiry_date.gt.${iso})&select=*`
+
+  try {
+    const response = await fetch(url, {
+      headers: {
+        Authorization: `Bearer ${serviceRoleKey}`,
+        apikey: serviceRoleKey,
+        "Content-Type": "application/json"
+      }
+    })
+
+    if (!response.ok) {
+      console.error("Failed to load pricing rules:", await response.text())
+      return []
+    }
+
+    const rules = await response.json()
+    return Array.isArray(rules) ? rules : []
+  } catch (error) {
+    console.error("Failed to load pricing rules:", error)
+    return []
+  }
+}
+
+/**
+ * One row of an admin rate card grid (stored in rate_card_versions.tiers).
+ */
+export interface RateCardTier {
+  service_type: ServiceType
+  weight_min: number
+  weight_max: number | null
+  rate_per_lb: number
+  express_surcharge_percent?: number | null
+}
+
+/**
+ * Check a rate card grid for bands that cannot be published. Each service's
+ * bands must start at 0 lbs and follow on without gaps or overlaps.
+ */
+export function validateRateCardTiers(tiers: RateCardTier[]): string[] {
+  const errors: string[] = []
+
+  if (!Array.isArray(tiers) || tiers.length === 0) {
+    return ["At least one weight tier is required"]
+  }
+
+  tiers.forEach((tier, index) => {
+    const label = `Tier ${index + 1}`
+    if (tier.service_type !== "standard" && tier.service_type !== "express") {
+      errors.push(`${label}: service type must be standard or express`)
+    }
+    if (!Number.isFinite(tier.weight_min) || tier.weight_min < 0) {
+      errors.push(`${label}: minimum weight must be zero or more`)
+    }
+    if (tier.weight_max !== null && (!Number.isFinite(tier.weight_max) || tier.weight_max <= tier.weight_min)) {
+      errors.push(`${label}: maximum weight must be greater than the minimum`)
+    }
+    if (!Number.isFinite(tier.rate_per_lb) || tier.rate_per_lb <= 0) {
+      errors.push(`${label}: rate per lb must be greater than zero`)
+    }
+  })
+
+  for (const serviceType of ["standard", "express"]) {
+    const bands = tiers
+      .filter(tier => tier.service_type === serviceType)
+      .sort((a, b) => a.weight_min - b.weight_min)
+
+    if (bands.length > 0 && bands[0].weight_min !== 0) {
+      errors.push(`${serviceType} tiers must start at 0 lbs`)
+    }
+    for (let i = 1; i < bands.length; i++) {
+      const previousMax = bands[i - 1].weight_max
+      if (previousMax === null || bands[i].weight_min < previousMax) {
+        errors.push(`${serviceType} tiers overlap at ${bands[i].weight_min} lbs`)
+      } else if (bands[i].weight_min > previousMax) {
+        errors.push(`${serviceType} tiers leave a gap between ${previousMax} and ${bands[i].weight_min} lbs`)
+      }
+    }
+  }
+
+  return errors
+}
+
+/**
+ * Treat an unpublished rate card as if it were already in pricing_rules,
+ * so previews go through exactly the same resolution as live rating.
+ */
+export function rateCardTiersToRules(
+  tiers: RateCardTier[],
+  destinationId: number,
+  effectiveDate: Date
+): PricingRule[] {
+  return tiers.map((tier, index) => ({
+    id: -(index + 1),
+    destination_id: destinationId,
+    service_type: tier.service_type,
+    weight_min: tier.weight_min,
+    weight_max: tier.weight_max,
+    rate_per_lb: tier.rate_per_lb,
+    express_surcharge_percent: tier.express_surcharge_percent ?? null,
+    effective_date: effectiveDate.toISOString(),
+    expiry_date: null,
+    is_active: true
+  }))
+}
+
+export interface RepricingSampleQuote {
+  id: number
+  quote_reference?: string | null
+  service_type: string
+  weight_lbs: number | string
+  base_shipping_cost: number | string
+  total_cost: number | string
+  created_at?: string
+  quote_metadata?: Record<string, any> | null
+}
+
+export interface RepricedQuote {
+  quoteId: number
+  quoteReference: string | null
+  createdAt: string | null
+  serviceType: string
+  billableWeight: number
+  quotedBaseCost: number
+  currentBaseCost: number
+  proposedBaseCost: number
+  quotedTotal: number
+  proposedTotal: number
+  delta: number
+  deltaPercent: number | null
+}
+
+/**
+ * Reprice a stored quote's transport charge under the current and proposed
+ * rules. Fees and insurance are carried over from the original quote.
+ */
+export function repriceQuote(
+  quote: RepricingSampleQuote,
+  destination: DestinationRates,
+  currentRules: PricingRule[],
+  proposedRules: PricingRule[],
+  options: { destinationId: number; at: Date }
+): RepricedQuote {
+  const billableWeight =
+    coerceNumber(quote.quote_metadata?.weight?.billable) ?? coerceNumber(quote.weight_lbs) ?? 0
+  const serviceType = quote.service_type || "standard"
+  const rate = (rules: PricingRule[]) => {
+    const tier = resolveRateTier(rules, destination, {
+      destinationId: options.destinationId,
+      serviceType,
+      billableWeight,
+      at: options.at
+    })
+    return roundToTwo(calculateBaseRate(tier, billableWeight, serviceType).baseShippingCost)
+  }
+
+  const quotedBaseCost = roundToTwo(coerceNumber(quote.base_shipping_cost) ?? 0)
+  const quotedTotal = roundToTwo(coerceNumber(quote.total_cost) ?? 0)
+  const currentBaseCost = rate(currentRules)
+  const proposedBaseCost = rate(proposedRules)
+  const delta = roundToTwo(proposedBaseCost - currentBaseCost)
+
+  return {
+    quoteId: quote.id,
+    quoteReference: quote.quote_reference ?? null,
+    createdAt: quote.created_at ?? null,
+    serviceType,
+    billableWeight: roundToTwo(billableWeight),
+    quotedBaseCost,
+    currentBaseCost,
+    proposedBaseCost,
+    quotedTotal,
+    proposedTotal: roundToTwo(quotedTotal - quotedBaseCost + proposedBaseCost),
+    delta,
+    deltaPercent: currentBaseCost > 0 ? roundToTwo((delta / currentBaseCost) * 100) : null
+  }
+}
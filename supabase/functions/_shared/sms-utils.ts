@@ -0,0 +1,68 @@
+import { formatWhatsAppNumber } from './whatsapp-utils.ts'
+
+export interface SmsConfig {
+  accountSid?: string
+  authToken?: string
+  fromNumber?: string
+}
+
+export interface SmsSendResult {
+  success: boolean
+  sid?: string
+  error?: string
+}
+
+/** E.164 number for plain SMS, using the same rules as WhatsApp. */
+export function formatSmsNumber(
+  phone: string | null | undefined,
+  countryCode?: string | null
+): string | null {
+  const formatted = formatWhatsAppNumber(phone, countryCode)
+  return formatted ? formatted.replace(/^whatsapp:/, '') : null
+}
+
+export async function sendSmsMessage(
+  config: SmsConfig,
+  payload: { to: string; body: string }
+): Promise<SmsSendResult> {
+  const { accountSid, authToken, fromNumber } = config
+
+  if (!accountSid || !authToken || !fromNumber) {
+    return {
+      success: false,
+      error: 'Twilio SMS configuration is incomplete'
+    }
+  }
+
+  try {
+    const params = new URLSearchParams()
+    params.append('To', payload.to)
+    params.append('From', fromNumber)
+    params.append('Body', payload.body)
+
+    const response = await fetch(`https://api.twilio.com/2010-04-01/Accounts/${accountSid}/Messages.json`, {
+      method: 'POST',
+      headers: {
+        Authorization: `Basic ${btoa(`${accountSid}:${authToken}`)}`,
+        'Content-Type': 'application/x-www-form-urlencoded'
+      },
+      body: params.toString()
+    })
+
+    if (!response.ok) {
+      throw new Error(`Twilio API error: ${await response.text()}`)
+    }
+
+    const data = await response.json()
+    return {
+      success: true,
+      sid: data.sid
+    }
+  } catch (error) {
+    console.error('Failed to send SMS message:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    }
+  }
+}
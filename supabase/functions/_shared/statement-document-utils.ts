@@ -0,0 +1,131 @@
+import { PDFDocument, StandardFonts, rgb } from "npm:pdf-lib"
+import { COMPANY_CONTACT, formatCurrency, wrapText } from "./quote-utils.ts"
+import type { MonthlyStatement } from "./statement-utils.ts"
+
+// Monthly statement PDF. Laid out like invoice documents, with the ledger in
+// date / description / charge / credit / balance columns.
+
+export interface StatementCustomer {
+  name: string
+  company?: string | null
+  address?: string | null
+  email?: string | null
+}
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString("en-US", { dateStyle: "medium", timeZone: "UTC" })
+
+export const statementTitle = (month: string) =>
+  new Date(`${month}-01T00:00:00Z`).toLocaleDateString("en-US", { month: "long", year: "numeric", timeZone: "UTC" })
+
+export const generateStatementPdf = async (statement: MonthlyStatement, customer: StatementCustomer) => {
+  const pdfDoc = await PDFDocument.create()
+  let page = pdfDoc.addPage([612, 792])
+  const font = await pdfDoc.embedFont(StandardFonts.Helvetica)
+  const boldFont = await pdfDoc.embedFont(StandardFonts.HelveticaBold)
+
+  const margin = 48
+  let cursorY = 792 - margin
+  const lineHeight = 18
+  const columns = { date: margin, description: margin + 80, charge: 612 - margin - 210, credit: 612 - margin - 140, balance: 612 - margin - 70 }
+  const descriptionWidth = columns.charge - columns.description - 12
+  const textColor = rgb(0.25, 0.28, 0.34)
+
+  const nextLine = () => {
+    cursorY -= lineHeight
+    if (cursorY < margin) {
+      page = pdfDoc.addPage([612, 792])
+      cursorY = 792 - margin - lineHeight
+    }
+  }
+
+  const drawParagraph = (text: string, bold = false) => {
+    for (const line of wrapText(text, bold ? boldFont : font, 11, 612 - margin * 2)) {
+      nextLine()
+      page.drawText(line, { x: margin, y: cursorY, size: 11, font: bold ? boldFont : font, color: textColor })
+    }
+  }
+
+  const drawSubheading = (text: string) => {
+    nextLine()
+    page.drawText(text, { x: margin, y: cursorY, size: 12, font: boldFont, color: rgb(0.23, 0.26, 0.34) })
+  }
+
+  const drawRow = (cells: { date: string; description: string; charge: string; credit: string; balance: string }, bold = false) => {
+    const rowFont = bold ? boldFont : font
+    wrapText(cells.description, rowFont, 10, descriptionWidth).forEach((line, index) => {
+      nextLine()
+      page.drawText(line, { x: columns.description, y: cursorY, size: 10, font: rowFont, color: textColor })
+      if (index === 0) {
+        page.drawText(cells.date, { x: columns.date, y: cursorY, size: 10, font: rowFont, color: textColor })
+        page.drawText(cells.charge, { x: columns.charge, y: cursorY, size: 10, font: rowFont, color: textColor })
+        page.drawText(cells.credit, { x: columns.credit, y: cursorY, size: 10, font: rowFont, color: textColor })
+        page.drawText(cells.balance, { x: columns.balance, y: cursorY, size: 10, font: rowFont, color: textColor })
+      }
+    })
+  }
+
+  nextLine()
+  page.drawText(`QCS Cargo Statement — ${statementTitle(statement.month)}`, {
+    x: margin,
+    y: cursorY,
+    size: 18,
+    font: boldFont,
+    color: rgb(0.25, 0.11, 0.58)
+  })
+  cursorY -= lineHeight / 2
+  drawParagraph(`${COMPANY_CONTACT.name} • ${COMPANY_CONTACT.phone} • ${COMPANY_CONTACT.email}`)
+  drawParagraph(COMPANY_CONTACT.address)
+
+  cursorY -= lineHeight
+  drawSubheading("Account")
+  drawParagraph(customer.name)
+  for (const line of [customer.company, customer.address, customer.email]) {
+    if (line) drawParagraph(line)
+  }
+
+  cursorY -= lineHeight
+  drawSubheading("Activity")
+  drawRow({ date: "Date", description: "Description", charge: "Charges", credit: "Credits", balance: "Balance" }, true)
+  drawRow({
+    date: formatDate(statement.period_start),
+    description: "Opening balance",
+    charge: "",
+    credit: "",
+    balance: formatCurrency(statement.opening_balance)
+  })
+  for (const entry of statement.entries) {
+    drawRow({
+      date: formatDate(entry.date),
+      description: `${entry.reference} — ${entry.description}`,
+      charge: entry.charge ? formatCurrency(entry.charge) : "",
+      credit: entry.credit ? formatCurrency(entry.credit) : "",
+      balance: formatCurrency(entry.balance)
+    })
+  }
+  drawRow({
+    date: "",
+    description: "Closing balance",
+    charge: formatCurrency(statement.total_charges),
+    credit: formatCurrency(statement.total_credits),
+    balance: formatCurrency(statement.closing_balance)
+  }, true)
+  if (statement.closing_balance < 0) {
+    drawParagraph("Your account is in credit; it will be applied to future invoices.")
+  }
+
+  cursorY -= lineHeight
+  drawSubheading(`Shipments (${statement.shipments.length})`)
+  if (statement.shipments.length === 0) {
+    drawParagraph("No shipments this month.")
+  }
+  for (const shipment of statement.shipments) {
+    const weight = shipment.total_weight ? ` • ${Number(shipment.total_weight)} lbs` : ""
+    const destination = shipment.destination ? ` • ${shipment.destination}` : ""
+    drawParagraph(
+      `${formatDate(shipment.created_at)}  ${shipment.tracking_number ?? `#${shipment.id}`}${destination}${weight} • ${shipment.status.replace(/_/g, " ")}`
+    )
+  }
+
+  return await pdfDoc.save()
+}
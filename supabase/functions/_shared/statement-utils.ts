@@ -0,0 +1,205 @@
+// Monthly account statements for business customers. A statement lists the
+// month's shipments for reference and a ledger of what moved the balance:
+// invoices add to it, credit notes and payments take it down. Account credit
+// applied to an invoice only moves money already on the account, so it shows
+// on the statement without changing the running balance. A voided document
+// keeps its original entry and is reversed on the day it was voided, so
+// statements already sent stay true.
+
+export interface StatementInvoice {
+  id: number
+  invoice_number: string | null
+  document_type: "invoice" | "credit_note"
+  status: string
+  issued_at: string | null
+  total_amount: number | string
+  original_invoice_id?: number | null
+  /** Number of the invoice a credit note is against, when it is not among the invoices passed */
+  original_invoice_number?: string | null
+  voided_at?: string | null
+}
+
+export interface StatementPayment {
+  id: number
+  receipt_number: string | null
+  invoice_id: number
+  amount: number | string
+  method: string
+  received_at: string
+  /** Number of the invoice paid, when it is not among the invoices passed */
+  invoice_number?: string | null
+}
+
+export interface StatementShipment {
+  id: number | string
+  tracking_number: string | null
+  status: string
+  created_at: string
+  total_weight?: number | string | null
+  destination?: string | null
+}
+
+export type StatementEntryType = "invoice" | "credit_note" | "payment" | "credit_applied" | "void"
+
+export interface StatementEntry {
+  date: string
+  type: StatementEntryType
+  reference: string
+  description: string
+  charge: number
+  credit: number
+  balance: number
+}
+
+export interface MonthlyStatement {
+  month: string
+  period_start: string
+  period_end: string
+  opening_balance: number
+  entries: StatementEntry[]
+  total_charges: number
+  total_credits: number
+  closing_balance: number
+  shipments: StatementShipment[]
+}
+
+interface LedgerMovement {
+  date: string
+  type: StatementEntryType
+  reference: string
+  description: string
+  amount: number
+}
+
+const roundToTwo = (value: number) => Math.round((value + Number.EPSILON) * 100) / 100
+
+/** First instant of the month and of the month after, in UTC; null for anything but YYYY-MM. */
+export function statementPeriod(month: string): { start: string; end: string } | null {
+  const match = /^(\d{4})-(\d{2})$/.exec(month ?? "")
+  if (!match) return null
+  const year = Number(match[1])
+  const monthIndex = Number(match[2]) - 1
+  if (monthIndex < 0 || monthIndex > 11) return null
+  return {
+    start: new Date(Date.UTC(year, monthIndex, 1)).toISOString(),
+    end: new Date(Date.UTC(year, monthIndex + 1, 1)).toISOString()
+  }
+}
+
+/** Statements are offered to accounts that registered a company or business type. */
+export function isBusinessAccount(profile: { company_name?: string | null; business_type?: string | null } | null) {
+  return Boolean(profile?.company_name?.trim() || profile?.business_type?.trim())
+}
+
+function ledgerMovements(invoices: StatementInvoice[], payments: StatementPayment[]): LedgerMovement[] {
+  const numbers = new Map(invoices.map(invoice => [invoice.id, invoice.invoice_number]))
+  const movements: LedgerMovement[] = []
+
+  for (const invoice of invoices) {
+    // Drafts were never sent
+    if (!invoice.issued_at || invoice.status === "draft") continue
+    const reference = invoice.invoice_number ?? `#${invoice.id}`
+    const isCredit = invoice.document_type === "credit_note"
+    const amount = isCredit ? -Number(invoice.total_amount) : Number(invoice.total_amount)
+    if (isCredit) {
+      const original = invoice.original_invoice_id
+        ? numbers.get(invoice.original_invoice_id) ?? invoice.original_invoice_number
+        : null
+      movements.push({
+        date: invoice.issued_at,
+        type: "credit_note",
+        reference,
+        description: original ? `Credit note against ${original}` : "Credit note",
+        amount
+      })
+    } else {
+      movements.push({ date: invoice.issued_at, type: "invoice", reference, description: "Invoice", amount })
+    }
+    if (invoice.status === "void") {
+      movements.push({
+        date: invoice.voided_at ?? invoice.issued_at,
+        type: "void",
+        reference,
+        description: isCredit ? "Credit note voided" : "Invoice voided",
+        amount: -amount
+      })
+    }
+  }
+
+  for (const payment of payments) {
+    const invoiceNumber = numbers.get(payment.invoice_id) ?? payment.invoice_number ?? `#${payment.invoice_id}`
+    const applied = payment.method === "account_credit"
+    movements.push({
+      date: payment.received_at,
+      type: applied ? "credit_applied" : "payment",
+      reference: payment.receipt_number ?? `#${payment.id}`,
+      description: applied ? `Account credit applied to ${invoiceNumber}` : `Payment on ${invoiceNumber} (${payment.method})`,
+      amount: applied ? 0 : -Number(payment.amount)
+    })
+  }
+
+  return movements.sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
+}
+
+/**
+ * Statement for one month. The opening balance is the account balance at the
+ * start of the month (customer_statement_opening_balance); pass the documents
+ * issued or voided and the payments received during the month. Movements
+ * dated outside the month are already in the opening balance or belong to a
+ * later statement, so they are left out. Shipments outside the month are too.
+ */
+export function buildMonthlyStatement(
+  month: string,
+  openingBalance: number,
+  invoices: StatementInvoice[],
+  payments: StatementPayment[],
+  shipments: StatementShipment[]
+): MonthlyStatement {
+  const period = statementPeriod(month)
+  if (!period) {
+    throw new Error("Statement month must be in YYYY-MM format")
+  }
+  const start = new Date(period.start).getTime()
+  const end = new Date(period.end).getTime()
+
+  let balance = openingBalance
+  let totalCharges = 0
+  let totalCredits = 0
+  const entries: StatementEntry[] = []
+
+  for (const movement of ledgerMovements(invoices, payments)) {
+    const at = new Date(movement.date).getTime()
+    if (at < start || at >= end) continue
+    balance += movement.amount
+    const charge = movement.amount > 0 ? movement.amount : 0
+    const credit = movement.amount < 0 ? -movement.amount : 0
+    totalCharges += charge
+    totalCredits += credit
+    entries.push({
+      date: movement.date,
+      type: movement.type,
+      reference: movement.reference,
+      description: movement.description,
+      charge: roundToTwo(charge),
+      credit: roundToTwo(credit),
+      balance: roundToTwo(balance)
+    })
+  }
+
+  return {
+    month,
+    period_start: period.start,
+    period_end: period.end,
+    opening_balance: roundToTwo(openingBalance),
+    entries,
+    total_charges: roundToTwo(totalCharges),
+    total_credits: roundToTwo(totalCredits),
+    closing_balance: roundToTwo(openingBalance + totalCharges - totalCredits),
+    shipments: shipments
+      .filter(shipment => {
+        const at = new Date(shipment.created_at).getTime()
+        return at >= start && at < end
+      })
+      .sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime())
+  }
+}
@@ -0,0 +1,244 @@
+// Mailbox storage: a package is stored free for the period set on the
+// extended_storage accessorial, then accrues the per lb per week rate until
+// it leaves the warehouse (forwarded, picked up or disposed; packages in a
+// consolidation leave when the combined shipment does). The daily
+// package-storage sweep warns customers before the free period ends, records
+// accrued charges in package_storage_charges and disposes of packages left
+// past the abandonment threshold. Pending charges are added to the next
+// invoice raised for the customer; inserting that invoice claims them, and
+// the insert fails if another invoice collected any of them first.
+
+import { DEFAULT_ACCESSORIAL_CATALOG, type AccessorialCharge } from "./accessorial-utils.ts"
+import type { InvoiceLineItem } from "./invoice-utils.ts"
+
+export const STORAGE_CHARGE_CODE = "extended_storage"
+export const STORAGE_POLICY_SETTING_KEY = "storage.policy"
+
+/** Statuses in which a package is still on our shelves. */
+export const STORED_STATUSES = ["received_at_warehouse", "pending_pickup"]
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export interface StoragePolicy {
+  /** Warn the customer this many days before the free period ends */
+  warning_days_before: number
+  /** Dispose of packages stored this many days */
+  abandonment_days: number
+  /** Final notice this many days before disposal; disposal waits for the full notice */
+  abandonment_notice_days: number
+}
+
+export const DEFAULT_STORAGE_POLICY: StoragePolicy = {
+  warning_days_before: 2,
+  abandonment_days: 90,
+  abandonment_notice_days: 14
+}
+
+export interface StorageRate {
+  freeDays: number
+  ratePerLbWeek: number
+}
+
+export interface StoredPackage {
+  id: string
+  user_id: string
+  tracking_number: string
+  carrier?: string | null
+  status: string
+  weight?: number | string | null
+  created_at: string
+  storage_ended_at?: string | null
+  storage_weeks_charged?: number | null
+  storage_warning_sent_at?: string | null
+  abandonment_notice_sent_at?: string | null
+}
+
+export interface StorageAccrual {
+  storageDays: number
+  weeksThrough: number
+  quantity: number
+  unitPrice: number
+  amount: number
+  description: string
+}
+
+export type StorageNotice = "free_period_warning" | "abandonment_notice" | "dispose"
+
+export type AgingBucket = "free" | "accruing" | "abandonment_risk"
+
+export interface StorageChargeRow {
+  id: number
+  description: string
+  quantity: number | string
+  unit_price: number | string
+  amount: number | string
+}
+
+const roundToTwo = (value: number) => Math.round((value + Number.EPSILON) * 100) / 100
+
+const wholeDays = (value: unknown, fallback: number) => {
+  const parsed = Number(value)
+  return Number.isFinite(parsed) && parsed >= 0 ? Math.floor(parsed) : fallback
+}
+
+/**
+ * Storage policy from system_settings, falling back to the defaults for any
+ * field that is missing or invalid. The notice period is capped so the final
+ * notice never goes out before the package was received.
+ */
+export function parseStoragePolicy(value: unknown): StoragePolicy {
+  const source = (value && typeof value === "object" ? value : {}) as Record<string, unknown>
+  const abandonmentDays = Math.max(1, wholeDays(source.abandonment_days, DEFAULT_STORAGE_POLICY.abandonment_days))
+  return {
+    warning_days_before: wholeDays(source.warning_days_before, DEFAULT_STORAGE_POLICY.warning_days_before),
+    abandonment_days: abandonmentDays,
+    abandonment_notice_days: Math.min(
+      abandonmentDays,
+      wholeDays(source.abandonment_notice_days, DEFAULT_STORAGE_POLICY.abandonment_notice_days)
+    )
+  }
+}
+
+/**
+ * Free period and weekly rate from the extended_storage charge, the same
+ * figures the rates page advertises. A catalog without the charge falls back
+ * to the default entry.
+ */
+export function storageRate(catalog: AccessorialCharge[]): StorageRate {
+  const charge =
+    catalog.find(entry => entry.code === STORAGE_CHARGE_CODE) ??
+    DEFAULT_ACCESSORIAL_CATALOG.find(entry => entry.code === STORAGE_CHARGE_CODE)!
+  const trigger = (charge.triggers ?? []).find(candidate => candidate.storage_days_over != null)
+  return {
+    freeDays: trigger?.storage_days_over ?? 0,
+    ratePerLbWeek: Number(charge.amount)
+  }
+}
+
+/** Whole days on the shelf, from receipt until the package left or now. */
+export function storageDays(pkg: Pick<StoredPackage, "created_at" | "storage_ended_at">, now: Date = new Date()): number {
+  const start = new Date(pkg.created_at).getTime()
+  const end = pkg.storage_ended_at ? new Date(pkg.storage_ended_at).getTime() : now.getTime()
+  if (!Number.isFinite(start) || !Number.isFinite(end)) return 0
+  return Math.max(0, Math.floor((end - start) / DAY_MS))
+}
+
+/** Last day of free storage; fees start accruing the day after. */
+export function freePeriodEndsAt(pkg: Pick<StoredPackage, "created_at">, rate: StorageRate): Date {
+  return new Date(new Date(pkg.created_at).getTime() + rate.freeDays * DAY_MS)
+}
+
+/** Started weeks beyond the free period, matching the extended_storage quantity. */
+export function billableWeeks(days: number, rate: StorageRate): number {
+  return Math.max(0, Math.ceil((days - rate.freeDays) / 7))
+}
+
+/**
+ * Storage owed since the last accrual. Weeks already charged are skipped so
+ * each week is billed once; packages without a receiving weight cannot be
+ * charged and return null.
+ */
+export function storageAccrual(pkg: StoredPackage, rate: StorageRate, now: Date = new Date()): StorageAccrual | null {
+  const weight = Number(pkg.weight)
+  if (!Number.isFinite(weight) || weight <= 0) return null
+
+  const days = storageDays(pkg, now)
+  const weeksThrough = billableWeeks(days, rate)
+  const weeksCharged = Math.max(0, Number(pkg.storage_weeks_charged ?? 0))
+  const newWeeks = weeksThrough - weeksCharged
+  if (newWeeks <= 0) return null
+
+  const quantity = roundToTwo(weight * newWeeks)
+  const firstWeek = weeksCharged + 1
+  const weekLabel = newWeeks === 1 ? `week ${firstWeek}` : `weeks ${firstWeek}-${weeksThrough}`
+  return {
+    storageDays: days,
+    weeksThrough,
+    quantity,
+    unitPrice: rate.ratePerLbWeek,
+    amount: roundToTwo(quantity * rate.ratePerLbWeek),
+    description: `Extended storage ${pkg.tracking_number}, ${weekLabel} (${weight} lbs)`
+  }
+}
+
+/**
+ * Notices due for a package still on the shelf, in the order they should go
+ * out. Each notice is sent once; disposal waits until the final notice has
+ * had its full notice period.
+ */
+export function storageNotices(
+  pkg: StoredPackage,
+  policy: StoragePolicy,
+  rate: StorageRate,
+  now: Date = new Date()
+): StorageNotice[] {
+  if (!STORED_STATUSES.includes(pkg.status) || pkg.storage_ended_at) return []
+
+  const days = storageDays(pkg, now)
+  const notices: StorageNotice[] = []
+  if (!pkg.storage_warning_sent_at && rate.freeDays > 0 && days >= rate.freeDays - policy.warning_days_before) {
+    notices.push("free_period_warning")
+  }
+
+  const noticeDay = policy.abandonment_days - policy.abandonment_notice_days
+  if (!pkg.abandonment_notice_sent_at) {
+    if (days >= noticeDay) notices.push("abandonment_notice")
+    return notices
+  }
+
+  const noticeAge = Math.floor((now.getTime() - new Date(pkg.abandonment_notice_sent_at).getTime()) / DAY_MS)
+  if (days >= policy.abandonment_days && noticeAge >= policy.abandonment_notice_days) {
+    notices.push("dispose")
+  }
+  return notices
+}
+
+/** Date a package will be disposed of if nobody ships or collects it. */
+export function disposalDueAt(pkg: StoredPackage, policy: StoragePolicy): Date {
+  const byAge = new Date(pkg.created_at).getTime() + policy.abandonment_days * DAY_MS
+  const byNotice = pkg.abandonment_notice_sent_at
+    ? new Date(pkg.abandonment_notice_sent_at).getTime() + policy.abandonment_notice_days * DAY_MS
+    : byAge
+  return new Date(Math.max(byAge, byNotice))
+}
+
+export function agingBucket(days: number, policy: StoragePolicy, rate: StorageRate): AgingBucket {
+  if (days >= policy.abandonment_days - policy.abandonment_notice_days) return "abandonment_risk"
+  return days > rate.freeDays ? "accruing" : "free"
+}
+
+/** Invoice lines for pending storage charges, one per accrual, each naming the charge it collects. */
+export function storageInvoiceLines(charges: StorageChargeRow[]): InvoiceLineItem[] {
+  return charges.map(charge => ({
+    description: charge.description,
+    quantity: Number(charge.quantity),
+    unit_price: Number(charge.unit_price),
+    amount: Number(charge.amount),
+    category: "storage",
+    storage_charge_id: charge.id
+  }))
+}
+
+const restHeaders = (serviceRoleKey: string, extra: Record<string, string> = {}) => ({
+  Authorization: `Bearer ${serviceRoleKey}`,
+  apikey: serviceRoleKey,
+  "Content-Type": "application/json",
+  ...extra
+})
+
+/** Storage charges accrued for a customer that no invoice has collected yet. */
+export async function fetchPendingStorageCharges(
+  supabaseUrl: string,
+  serviceRoleKey: string,
+  customerId: string
+): Promise<StorageChargeRow[]> {
+  const response = await fetch(
+    `${supabaseUrl}/rest/v1/package_storage_charges?customer_id=eq.${customerId}&invoice_id=is.null&select=id,description,quantity,unit_price,amount&order=created_at.asc`,
+    { headers: restHeaders(serviceRoleKey) }
+  )
+  if (!response.ok) {
+    throw new Error(`Failed to load storage charges: ${await response.text()}`)
+  }
+  const rows = await response.json()
+  return Array.isArray(rows) ? rows : []
+}
@@ -0,0 +1,110 @@
+// Packages that arrive without a usable suite number wait in the
+// unidentified queue until staff work out whose they are. These helpers
+// build the queue search and measure how long packages stay unassigned.
+
+export interface UnidentifiedPackageTimes {
+  status: "unassigned" | "assigned"
+  created_at: string
+  assigned_at: string | null
+}
+
+export interface UnassignedStats {
+  open: number
+  oldest_open_hours: number | null
+  assigned_last_30_days: number
+  average_hours_to_assign: number | null
+}
+
+const HOUR_MS = 60 * 60 * 1000
+const STATS_WINDOW_MS = 30 * 24 * HOUR_MS
+
+const roundHours = (ms: number) => Math.round((ms / HOUR_MS) * 10) / 10
+
+/** Hours from arrival until assignment, or until now while still open. */
+export function hoursUnassigned(pkg: UnidentifiedPackageTimes, now: Date = new Date()) {
+  const end = pkg.assigned_at ? new Date(pkg.assigned_at).getTime() : now.getTime()
+  return roundHours(Math.max(0, end - new Date(pkg.created_at).getTime()))
+}
+
+export function unassignedStats(packages: UnidentifiedPackageTimes[], now: Date = new Date()): UnassignedStats {
+  const open = packages.filter(pkg => pkg.status === "unassigned")
+  const assigned = packages.filter(
+    pkg => pkg.status === "assigned" && pkg.assigned_at && now.getTime() - new Date(pkg.assigned_at).getTime() <= STATS_WINDOW_MS
+  )
+  const openHours = open.map(pkg => hoursUnassigned(pkg, now))
+  const assignHours = assigned.map(pkg => hoursUnassigned(pkg, now))
+  return {
+    open: open.length,
+    oldest_open_hours: openHours.length > 0 ? Math.max(...openHours) : null,
+    assigned_last_30_days: assigned.length,
+    average_hours_to_assign: assignHours.length > 0
+      ? roundHours((assignHours.reduce((sum, hours) => sum + hours, 0) / assignHours.length) * HOUR_MS)
+      : null
+  }
+}
+
+/**
+ * PostgREST or=() filter matching shipper or recipient names, or part of the
+ * tracking number. Returns null when the term has nothing searchable.
+ */
+export function unidentifiedSearchFilter(term: string): string | null {
+  // Characters with meaning inside or=() are dropped
+  const text = term.replace(/[,()*%\\":]/g, " ").trim().replace(/\s+/g, " ")
+  if (text.length < 2) {
+    return null
+  }
+  const conditions = [`shipper_name.ilike.*${text}*`, `recipient_name.ilike.*${text}*`, `label_text.ilike.*${text}*`]
+  const tracking = text.replace(/[\s-]/g, "").toUpperCase()
+  if (/^[A-Z0-9]{3,}$/.test(tracking)) {
+    conditions.push(`tracking_number.like.*${tracking}*`)
+  }
+  return `(${conditions.join(",")})`
+}
+
+export interface HeldPackage {
+  tracking_number: string
+  carrier: string | null
+  shipper_name: string | null
+  recipient_name: string | null
+  label_text: string | null
+  weight: number | null
+  dimensions: { length: number; width: number; height: number } | null
+  notes: string | null
+}
+
+const optionalText = (value: unknown, maxLength: number) =>
+  typeof value === "string" && value.trim() ? value.trim().slice(0, maxLength) : null
+
+const positive = (value: unknown) => {
+  const parsed = typeof value === "string" && value.trim() !== "" ? Number(value) : value
+  return typeof parsed === "number" && Number.isFinite(parsed) && parsed > 0 ? parsed : null
+}
+
+/** A package put on hold at receiving; only the tracking number is required. */
+export function parseHeldPackage(value: unknown): { pkg: HeldPackage } | { error: string } {
+  const source = (value && typeof value === "object" ? value : {}) as Record<string, unknown>
+  const trackingNumber = typeof source.trackingNumber === "string"
+    ? source.trackingNumber.replace(/\s/g, "").toUpperCase()
+    : ""
+  if (!trackingNumber) {
+    return { error: "Each held package needs a tracking number." }
+  }
+
+  const sides = source.dimensions && typeof source.dimensions === "object"
+    ? ["length", "width", "height"].map(side => positive((source.dimensions as Record<string, unknown>)[side]))
+    : []
+  const [length, width, height] = sides
+
+  return {
+    pkg: {
+      tracking_number: trackingNumber,
+      carrier: optionalText(source.carrier, 60),
+      shipper_name: optionalText(source.shipperName, 120),
+      recipient_name: optionalText(source.recipientName, 120),
+      label_text: optionalText(source.labelText, 1000),
+      weight: positive(source.weight),
+      dimensions: length && width && height ? { length, width, height } : null,
+      notes: optionalText(source.notes, 1000)
+    }
+  }
+}
@@ -0,0 +1,67 @@
+import { PDFDocument, StandardFonts, rgb } from "npm:pdf-lib"
+import { code128Modules, labelDetails, type WarehouseLabel } from "./warehouse-label-utils.ts"
+
+// 4x6 inch warehouse label PDF, one page per package, for printers without
+// ZPL support. Same layout as the ZPL label.
+
+const PAGE_WIDTH = 288
+const PAGE_HEIGHT = 432
+const MARGIN = 14
+
+export const generateWarehouseLabelPdf = async (labels: WarehouseLabel[]) => {
+  const pdfDoc = await PDFDocument.create()
+  const font = await pdfDoc.embedFont(StandardFonts.Helvetica)
+  const boldFont = await pdfDoc.embedFont(StandardFonts.HelveticaBold)
+  const black = rgb(0, 0, 0)
+  const contentWidth = PAGE_WIDTH - MARGIN * 2
+
+  for (const label of labels) {
+    const page = pdfDoc.addPage([PAGE_WIDTH, PAGE_HEIGHT])
+    let cursorY = PAGE_HEIGHT - MARGIN - 14
+
+    page.drawText("QCS Cargo Warehouse", { x: MARGIN, y: cursorY, size: 14, font: boldFont, color: black })
+    cursorY -= 10
+    page.drawRectangle({ x: MARGIN, y: cursorY, width: contentWidth, height: 1.5, color: black })
+
+    cursorY -= 20
+    page.drawText(label.customerName.slice(0, 40), { x: MARGIN, y: cursorY, size: 12, font, color: black })
+
+    // Mailbox number as large as fits the label width
+    const mailboxSize = Math.min(48, (contentWidth / boldFont.widthOfTextAtSize(label.mailboxNumber, 48)) * 48)
+    cursorY -= mailboxSize + 6
+    page.drawText(label.mailboxNumber, { x: MARGIN, y: cursorY, size: mailboxSize, font: boldFont, color: black })
+
+    const modules = code128Modules(label.labelCode)
+    // Quiet zone of ten modules each side
+    const totalModules = modules.reduce((sum, width) => sum + width, 0) + 20
+    const moduleWidth = contentWidth / totalModules
+    const barHeight = 90
+    cursorY -= barHeight + 14
+    let barX = MARGIN + moduleWidth * 10
+    modules.forEach((width, index) => {
+      if (index % 2 === 0) {
+        page.drawRectangle({ x: barX, y: cursorY, width: width * moduleWidth, height: barHeight, color: black })
+      }
+      barX += width * moduleWidth
+    })
+
+    cursorY -= 22
+    const codeWidth = boldFont.widthOfTextAtSize(label.labelCode, 18)
+    page.drawText(label.labelCode, {
+      x: (PAGE_WIDTH - codeWidth) / 2,
+      y: cursorY,
+      size: 18,
+      font: boldFont,
+      color: black
+    })
+
+    cursorY -= 14
+    page.drawRectangle({ x: MARGIN, y: cursorY, width: contentWidth, height: 1.5, color: black })
+    for (const line of labelDetails(label)) {
+      cursorY -= 18
+      page.drawText(line.slice(0, 44), { x: MARGIN, y: cursorY, size: 11, font, color: black })
+    }
+  }
+
+  return await pdfDoc.save()
+}
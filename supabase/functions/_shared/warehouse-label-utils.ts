@@ -0,0 +1,94 @@
+// Internal 4x6 warehouse labels stuck on each mailbox package at receiving.
+// The barcode carries the package's QCS label code (Code 128, subset B) so
+// the shelf, pickup counter and outbound stations can find it without the
+// carrier label. Zebra printers take the ZPL; everything else prints the PDF.
+
+export interface WarehouseLabel {
+  labelCode: string
+  mailboxNumber: string
+  customerName: string
+  trackingNumber: string
+  carrier?: string | null
+  weightLbs?: number | null
+  dimensions?: { length: number; width: number; height: number } | null
+  receivedAt: string
+}
+
+// Bar/space module widths for Code 128 values 0-106, bars first
+const CODE128_PATTERNS = [
+  "212222", "222122", "222221", "121223", "121322", "131222", "122213", "122312", "132212", "221213",
+  "221312", "231212", "112232", "122132", "122231", "113222", "123122", "123221", "223211", "221132",
+  "221231", "213212", "223112", "312131", "311222", "321122", "321221", "312212", "322112", "322211",
+  "212123", "212321", "232121", "111323", "131123", "131321", "112313", "132113", "132311", "211313",
+  "231113", "231311", "112133", "112331", "132131", "113123", "113321", "133121", "313121", "211331",
+  "231131", "213113", "213311", "213131", "311123", "311321", "331121", "312113", "312311", "332111",
+  "314111", "221411", "431111", "111224", "111422", "121124", "121421", "141122", "141221", "112214",
+  "112412", "122114", "122411", "142112", "142211", "241211", "221114", "413111", "241112", "134111",
+  "111242", "121142", "121241", "114212", "124112", "124211", "411212", "421112", "421211", "212141",
+  "214121", "412121", "111143", "111341", "131141", "114113", "114311", "411113", "411311", "113141",
+  "114131", "311141", "411131", "211412", "211214", "211232", "2331112"
+]
+
+const START_B = 104
+const STOP = 106
+
+/**
+ * Code 128 subset B symbol values for printable ASCII, with start, checksum
+ * and stop.
+ */
+export function code128Values(value: string): number[] {
+  if (!/^[\x20-\x7e]+$/.test(value)) {
+    throw new Error("Code 128 labels support printable ASCII only.")
+  }
+  const data = Array.from(value, char => char.charCodeAt(0) - 32)
+  const checksum = data.reduce((sum, code, index) => sum + code * (index + 1), START_B) % 103
+  return [START_B, ...data, checksum, STOP]
+}
+
+/** Alternating bar and space widths in modules, starting with a bar. */
+export function code128Modules(value: string): number[] {
+  return code128Values(value).flatMap(code => Array.from(CODE128_PATTERNS[code], Number))
+}
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString("en-US", { dateStyle: "medium", timeZone: "America/New_York" })
+
+/** Field data must not contain ZPL control characters. */
+const zplText = (value: string) => value.replace(/[\^~\\]/g, " ").slice(0, 60)
+
+export function labelDetails(label: WarehouseLabel): string[] {
+  const measurements = [
+    label.weightLbs ? `${label.weightLbs} lbs` : null,
+    label.dimensions ? `${label.dimensions.length}x${label.dimensions.width}x${label.dimensions.height} in` : null
+  ].filter(Boolean).join("  ")
+  return [
+    `${label.carrier || "Carrier TBD"} ${label.trackingNumber}`,
+    measurements || "Not weighed",
+    `Received ${formatDate(label.receivedAt)}`
+  ]
+}
+
+/** One ^XA..^XZ block per label at 203 dpi (812 x 1218 dots). */
+export function generateWarehouseLabelZpl(labels: WarehouseLabel[]): string {
+  return labels
+    .map(label => {
+      const details = labelDetails(label)
+      return [
+        "^XA",
+        "^CI28",
+        "^PW812",
+        "^LL1218",
+        "^FO40,40^A0N,40,40^FDQCS Cargo Warehouse^FS",
+        "^FO40,90^GB732,4,4^FS",
+        `^FO40,120^A0N,36,36^FD${zplText(label.customerName)}^FS`,
+        `^FO40,180^A0N,140,140^FD${zplText(label.mailboxNumber)}^FS`,
+        "^FO40,360^BY4,3,260",
+        `^BCN,260,N,N,N^FD${zplText(label.labelCode)}^FS`,
+        `^FO40,650^A0N,60,60^FD${zplText(label.labelCode)}^FS`,
+        "^FO40,740^GB732,4,4^FS",
+        ...details.map((line, index) => `^FO40,${780 + index * 56}^A0N,40,40^FD${zplText(line)}^FS`),
+        "^XZ"
+      ].join("\n")
+    })
+    .join("\n")
+}
@@ -0,0 +1,377 @@
+import {
+  createErrorResponse,
+  createSuccessResponse,
+  handleOptions,
+  logAdminAction,
+  verifyAdminAccess
+} from '../_shared/auth-utils.ts'
+import {
+  consolidatedPiece,
+  packageItemDescription,
+  parseConsolidatedBox,
+  rateConsolidation
+} from '../_shared/consolidation-utils.ts'
+import { generateNotificationEmail, sendEmail } from '../_shared/email-utils.ts'
+import {
+  COMPANY_CONTACT,
+  DEFAULT_TERMS,
+  formatCurrency,
+  generateQuoteHtml,
+  generateQuoteReference,
+  quoteAcceptUrl,
+  type QuoteDocumentPayload
+} from '../_shared/quote-utils.ts'
+import { roundToTwo } from '../_shared/rating-utils.ts'
+
+type ConsolidationAction = 'list' | 'reweigh'
+
+interface RequestPayload {
+  action?: ConsolidationAction
+  status?: 'awaiting' | 'all'
+  shipment_id?: number
+  box?: unknown
+}
+
+const QUOTE_VALID_DAYS = 7
+const FOLLOW_UP_DAYS = 3
+
+function restHeaders(serviceRoleKey: string, extra: Record<string, string> = {}) {
+  return {
+    Authorization: `Bearer ${serviceRoleKey}`,
+    apikey: serviceRoleKey,
+    'Content-Type': 'application/json',
+    ...extra
+  }
+}
+
+async function fetchRows(supabaseUrl: string, serviceRoleKey: string, path: string) {
+  const response = await fetch(`${supabaseUrl}/rest/v1/${path}`, { headers: restHeaders(serviceRoleKey) })
+  if (!response.ok) {
+    throw new Error(`Failed to load ${path.split('?')[0]}: ${await response.text()}`)
+  }
+  const rows = await response.json()
+  return Array.isArray(rows) ? rows : []
+}
+
+const CONSOLIDATION_SELECT =
+  'id,customer_id,tracking_number,status,service_type,destination_id,total_weight,total_declared_value,special_instructions,consolidated_weight_lbs,consolidated_dimensions,reweighed_at,quote_id,created_at,destinations(country_name,city_name),received_packages(id,tracking_number,carrier,weight,dimensions,created_at)'
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return handleOptions()
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+
+    if (!supabaseUrl || !serviceRoleKey) {
+      return createErrorResponse('CONFIG_MISSING', 'Supabase configuration is missing.')
+    }
+
+    const authHeader = req.headers.get('authorization') ?? req.headers.get('Authorization')
+    if (!authHeader) {
+      return createErrorResponse('UNAUTHORIZED', 'Authorization header is required.', 401)
+    }
+
+    const authResult = await verifyAdminAccess(authHeader, supabaseUrl, serviceRoleKey)
+    if (!authResult.success || !authResult.user) {
+      return createErrorResponse('FORBIDDEN', authResult.error || 'Admin access required.', 403)
+    }
+
+    const payload: RequestPayload = await req.json().catch(() => ({}))
+    const action = payload.action ?? 'list'
+
+    if (action === 'list') {
+      const filter = payload.status === 'all' ? '' : '&reweighed_at=is.null'
+      const shipments = await fetchRows(
+        supabaseUrl,
+        serviceRoleKey,
+        `shipments?is_consolidation=eq.true${filter}&select=${CONSOLIDATION_SELECT}&order=created_at.asc&limit=100`
+      )
+      const customerIds = Array.from(new Set(shipments.map((shipment: any) => shipment.customer_id)))
+      const profiles = customerIds.length
+        ? await fetchRows(
+            supabaseUrl,
+            serviceRoleKey,
+            `user_profiles?user_id=in.(${customerIds.join(',')})&select=user_id,first_name,last_name,email`
+          )
+        : []
+      const profileById = new Map(profiles.map((profile: any) => [profile.user_id, profile]))
+
+      return createSuccessResponse({
+        consolidations: shipments.map((shipment: any) => {
+          const profile = profileById.get(shipment.customer_id)
+          return {
+            ...shipment,
+            customer_name: [profile?.first_name, profile?.last_name].filter(Boolean).join(' ') || profile?.email || null,
+            customer_email: profile?.email ?? null
+          }
+        })
+      })
+    }
+
+    if (action === 'reweigh') {
+      const shipmentId = Number(payload.shipment_id)
+      if (!Number.isInteger(shipmentId) || shipmentId <= 0) {
+        return createErrorResponse('VALIDATION_ERROR', 'shipment_id is required.', 400)
+      }
+      const parsedBox = parseConsolidatedBox(payload.box)
+      if ('error' in parsedBox) {
+        return createErrorResponse('VALIDATION_ERROR', parsedBox.error, 400)
+      }
+      const { box } = parsedBox
+
+      const shipment = (await fetchRows(
+        supabaseUrl,
+        serviceRoleKey,
+        `shipments?id=eq.${shipmentId}&is_consolidation=eq.true&select=${CONSOLIDATION_SELECT}`
+      ))[0]
+      if (!shipment) {
+        return createErrorResponse('NOT_FOUND', 'Consolidation not found.', 404)
+      }
+      // The quote is issued once; later weight changes go through a quote revision
+      if (shipment.reweighed_at || shipment.quote_id) {
+        return createErrorResponse('ALREADY_REWEIGHED', 'This consolidation has already been re-weighed and quoted.', 409)
+      }
+
+      const packageCount = (shipment.received_packages ?? []).length
+      const declaredValue = Number(shipment.total_declared_value ?? 0)
+      const { destination, rating } = await rateConsolidation(supabaseUrl, serviceRoleKey, {
+        destinationId: shipment.destination_id,
+        serviceType: shipment.service_type,
+        pieces: [consolidatedPiece(box, packageCount)],
+        declaredValue,
+        packageCount
+      })
+
+      const profile = (await fetchRows(
+        supabaseUrl,
+        serviceRoleKey,
+        `user_profiles?user_id=eq.${shipment.customer_id}&select=first_name,last_name,email,phone`
+      ))[0]
+      const customerName = [profile?.first_name, profile?.last_name].filter(Boolean).join(' ') || 'Customer'
+      const customerEmail = profile?.email ?? ''
+
+      const issuedAt = new Date()
+      const expiresAt = new Date(issuedAt.getTime() + QUOTE_VALID_DAYS * 24 * 60 * 60 * 1000)
+      const followUpDueAt = new Date(issuedAt.getTime() + FOLLOW_UP_DAYS * 24 * 60 * 60 * 1000)
+      const quoteReference = generateQuoteReference(destination.airport_code)
+      const { min: minDays, max: maxDays } = rating.transit
+      const transitLabel = `${minDays}-${maxDays} business days`
+      const breakdown = rating.rateBreakdown
+      const hasDimensions = box.length !== null && box.width !== null && box.height !== null
+      const packageNotes = (shipment.received_packages ?? [])
+        .map(packageItemDescription)
+        .join(', ')
+
+      const documentPayload: QuoteDocumentPayload = {
+        quoteReference,
+        customerName,
+        customerEmail,
+        customerPhone: profile?.phone ?? null,
+        createdAt: issuedAt.toISOString(),
+        expiresAt: expiresAt.toISOString(),
+        origin: {
+          name: COMPANY_CONTACT.name,
+          address: COMPANY_CONTACT.address,
+          phone: COMPANY_CONTACT.phone,
+          email: COMPANY_CONTACT.email
+        },
+        destination: {
+          country: destination.country_name,
+          city: destination.city_name,
+          airportCode: destination.airport_code
+        },
+        packageDetails: {
+          actualWeightLbs: box.weight,
+          billableWeightLbs: roundToTwo(rating.weight.billable),
+          dimensionalWeightLbs: rating.weight.dimensional === null ? null : roundToTwo(rating.weight.dimensional),
+          dimensions: hasDimensions ? { length: box.length, width: box.width, height: box.height } : undefined,
+          declaredValue: roundToTwo(declaredValue),
+          serviceType: shipment.service_type
+        },
+        rateBreakdown: {
+          baseShippingCost: breakdown.baseShippingCost,
+          consolidationFee: breakdown.consolidationFee,
+          handlingFee: breakdown.handlingFee,
+          insuranceCost: breakdown.insuranceCost,
+          totalCost: breakdown.totalCost,
+          expressSurcharge: breakdown.expressSurcharge,
+          accessorials: breakdown.accessorials
+        },
+        transitEstimate: {
+          min: minDays,
+          max: maxDays,
+          average: Math.round((minDays + maxDays) / 2),
+          label: transitLabel
+        },
+        notes: `Consolidation of ${packageCount} mailbox packages: ${packageNotes}`,
+        terms: DEFAULT_TERMS,
+        callToActionUrl: quoteAcceptUrl(quoteReference)
+      }
+
+      const quoteResponse = await fetch(`${supabaseUrl}/rest/v1/shipping_quotes`, {
+        method: 'POST',
+        headers: restHeaders(serviceRoleKey, { Prefer: 'return=representation' }),
+        body: JSON.stringify({
+          customer_id: shipment.customer_id,
+          email: customerEmail,
+          full_name: customerName,
+          phone: profile?.phone ?? null,
+          destination_id: shipment.destination_id,
+          weight_lbs: box.weight,
+          length_inches: box.length,
+          width_inches: box.width,
+          height_inches: box.height,
+          service_type: shipment.service_type,
+          declared_value: roundToTwo(declaredValue),
+          base_shipping_cost: breakdown.baseShippingCost,
+          consolidation_fee: breakdown.consolidationFee,
+          handling_fee: breakdown.handlingFee,
+          insurance_cost: breakdown.insuranceCost,
+          total_cost: breakdown.totalCost,
+          estimated_transit_days: Math.round((minDays + maxDays) / 2),
+          special_instructions: shipment.special_instructions,
+          status: 'pending',
+          quote_expires_at: expiresAt.toISOString(),
+          created_at: issuedAt.toISOString(),
+          quote_reference: quoteReference,
+          base_reference: quoteReference,
+          quote_document_html: generateQuoteHtml(documentPayload),
+          quote_metadata: {
+            transit_label: transitLabel,
+            transit_estimate: documentPayload.transitEstimate,
+            terms: DEFAULT_TERMS,
+            call_to_action: quoteAcceptUrl(quoteReference),
+            destination: {
+              country: destination.country_name,
+              city: destination.city_name,
+              airport_code: destination.airport_code
+            },
+            weight: {
+              actual: box.weight,
+              billable: roundToTwo(rating.weight.billable),
+              dimensional: rating.weight.dimensional === null ? null : roundToTwo(rating.weight.dimensional),
+              rate_per_lb: breakdown.ratePerLb
+            },
+            pricing: {
+              source: rating.tier.source,
+              pricing_rule_id: rating.tier.ruleId,
+              rule_effective_date: rating.tier.effectiveDate,
+              rated_at: issuedAt.toISOString()
+            },
+            rate_breakdown: breakdown,
+            consolidation: {
+              shipment_id: shipment.id,
+              package_count: packageCount,
+              packages: (shipment.received_packages ?? []).map((pkg: any) => pkg.tracking_number)
+            }
+          },
+          follow_up_step: 0,
+          follow_up_due_at: followUpDueAt.toISOString(),
+          follow_up_status: 'scheduled',
+          follow_up_method: 'email'
+        })
+      })
+      if (!quoteResponse.ok) {
+        console.error('Failed to save consolidation quote:', await quoteResponse.text())
+        return createErrorResponse('QUOTE_FAILED', 'Unable to issue the consolidation quote.')
+      }
+      const quote = (await quoteResponse.json())[0]
+
+      const updateResponse = await fetch(`${supabaseUrl}/rest/v1/shipments?id=eq.${shipment.id}&reweighed_at=is.null`, {
+        method: 'PATCH',
+        headers: restHeaders(serviceRoleKey, { Prefer: 'return=representation' }),
+        body: JSON.stringify({
+          status: 'processing',
+          total_weight: box.weight,
+          consolidated_weight_lbs: box.weight,
+          consolidated_dimensions: hasDimensions ? { length: box.length, width: box.width, height: box.height } : null,
+          reweighed_at: issuedAt.toISOString(),
+          reweighed_by: authResult.user.id,
+          quote_id: quote.id,
+          updated_at: issuedAt.toISOString()
+        })
+      })
+      if (!updateResponse.ok) {
+        console.error('Failed to record re-weigh:', await updateResponse.text())
+        return createErrorResponse('REWEIGH_FAILED', 'Unable to record the re-weighed box.')
+      }
+      const updated = (await updateResponse.json())[0]
+
+      await fetch(`${supabaseUrl}/rest/v1/shipment_tracking`, {
+        method: 'POST',
+        headers: restHeaders(serviceRoleKey),
+        body: JSON.stringify({
+          shipment_id: shipment.id,
+          status: 'processing',
+          location: 'QCS Cargo - New Jersey',
+          notes: `${packageCount} packages consolidated and re-weighed at ${box.weight} lbs`,
+          updated_by: authResult.user.id,
+          timestamp: issuedAt.toISOString()
+        })
+      }).catch((error) => console.error('Failed to add consolidation tracking entry:', error))
+
+      const notificationContent = {
+        title: `Consolidation Quote ${quoteReference}`,
+        message: `Hi ${customerName}, we combined ${packageCount} packages from your mailbox into one box. Review and accept the quote to ship it.`,
+        actionText: 'View Quote',
+        actionUrl: `${COMPANY_CONTACT.website}/dashboard/quotes`,
+        details: [
+          { label: 'Shipment', value: shipment.tracking_number },
+          { label: 'Re-weighed Box', value: `${box.weight} lbs` },
+          { label: 'Total Cost', value: formatCurrency(breakdown.totalCost) },
+          { label: 'Transit Estimate', value: transitLabel }
+        ]
+      }
+
+      await fetch(`${supabaseUrl}/rest/v1/notifications`, {
+        method: 'POST',
+        headers: restHeaders(serviceRoleKey),
+        body: JSON.stringify({
+          user_id: shipment.customer_id,
+          recipient_type: 'customer',
+          title: notificationContent.title,
+          message: notificationContent.message,
+          reference_type: 'shipping_quote',
+          reference_id: String(quote.id),
+          priority: 'normal',
+          created_at: issuedAt.toISOString()
+        })
+      }).catch((error) => console.error('Failed to create consolidation quote notification:', error))
+
+      let emailSent = false
+      if (customerEmail) {
+        const result = await sendEmail(Deno.env.get('RESEND_API_KEY'), {
+          to: customerEmail,
+          subject: `Your consolidated shipment quote ${quoteReference}`,
+          html: generateNotificationEmail(notificationContent),
+          tags: [
+            { name: 'notification_type', value: 'consolidation_quote' },
+            { name: 'quote_reference', value: quoteReference }
+          ]
+        })
+        emailSent = result.success
+        if (!result.success) {
+          console.warn('Failed to email consolidation quote:', result.error)
+        }
+      }
+
+      logAdminAction('CONSOLIDATION_REWEIGHED', authResult.user, {
+        shipment_id: shipment.id,
+        quote_id: quote.id,
+        weight_lbs: box.weight,
+        package_count: packageCount,
+        total_cost: breakdown.totalCost
+      })
+
+      return createSuccessResponse({ shipment: updated, quote, email_sent: emailSent })
+    }
+
+    return createErrorResponse('VALIDATION_ERROR', `Unknown action: ${action}`, 400)
+  } catch (error) {
+    console.error('admin-consolidations error:', error)
+    return createErrorResponse('UNEXPECTED_ERROR', error instanceof Error ? error.message : 'Unexpected error')
+  }
+})
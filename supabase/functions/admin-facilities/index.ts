@@ -0,0 +1,287 @@
+import {
+  createErrorResponse,
+  createSuccessResponse,
+  handleOptions,
+  logAdminAction,
+  verifyAdminAccess
+} from '../_shared/auth-utils.ts'
+import { loadFacilityScope, parseFacilityInput, type FacilityScope } from '../_shared/facility-utils.ts'
+
+interface RequestPayload {
+  action?: 'list' | 'save' | 'assign_staff' | 'remove_staff'
+  facility_id?: unknown
+  facility?: unknown
+  email?: unknown
+  user_id?: unknown
+}
+
+const FACILITY_SELECT =
+  'id,code,name,mailbox_prefix,mailbox_next_number,address_line1,address_line2,city,state,postal_code,country,is_active,is_default'
+
+const HELD_STATUSES = ['received_at_warehouse', 'pending_pickup']
+
+function restHeaders(serviceRoleKey: string, extra: Record<string, string> = {}) {
+  return {
+    Authorization: `Bearer ${serviceRoleKey}`,
+    apikey: serviceRoleKey,
+    'Content-Type': 'application/json',
+    ...extra
+  }
+}
+
+async function fetchRows(supabaseUrl: string, serviceRoleKey: string, path: string) {
+  const response = await fetch(`${supabaseUrl}/rest/v1/${path}`, { headers: restHeaders(serviceRoleKey) })
+  if (!response.ok) {
+    throw new Error(`Failed to load ${path.split('?')[0]}: ${await response.text()}`)
+  }
+  const rows = await response.json()
+  return Array.isArray(rows) ? rows : []
+}
+
+async function countRows(supabaseUrl: string, serviceRoleKey: string, path: string) {
+  const response = await fetch(`${supabaseUrl}/rest/v1/${path}&limit=0`, {
+    headers: restHeaders(serviceRoleKey, { Prefer: 'count=exact' })
+  })
+  if (!response.ok) {
+    throw new Error(`Failed to count ${path.split('?')[0]}: ${await response.text()}`)
+  }
+  return Number(response.headers.get('content-range')?.split('/')[1] ?? 0)
+}
+
+const toFacilityId = (value: unknown) => {
+  const id = Number(value)
+  return Number.isInteger(id) && id > 0 ? id : null
+}
+
+async function handleList(supabaseUrl: string, serviceRoleKey: string, scope: FacilityScope) {
+  const scopeFilter = scope === null ? '' : `&id=in.(${scope.join(',')})`
+  const facilities = await fetchRows(supabaseUrl, serviceRoleKey, `facilities?select=${FACILITY_SELECT}${scopeFilter}&order=id.asc`)
+  const facilityIds = facilities.map((facility: { id: number }) => facility.id)
+
+  const staff = facilityIds.length
+    ? await fetchRows(
+        supabaseUrl,
+        serviceRoleKey,
+        `facility_staff?facility_id=in.(${facilityIds.join(',')})&select=facility_id,user_id,created_at`
+      )
+    : []
+  const staffIds = Array.from(new Set(staff.map((row: { user_id: string }) => row.user_id)))
+  const profiles = staffIds.length
+    ? await fetchRows(
+        supabaseUrl,
+        serviceRoleKey,
+        `user_profiles?user_id=in.(${staffIds.join(',')})&select=user_id,first_name,last_name,email`
+      )
+    : []
+  const profileById = new Map(profiles.map((profile: any) => [profile.user_id, profile]))
+
+  const rows = await Promise.all(
+    facilities.map(async (facility: any) => {
+      const [mailboxes, heldPackages, unidentified] = await Promise.all([
+        countRows(supabaseUrl, serviceRoleKey, `virtual_mailboxes?facility_id=eq.${facility.id}&select=id`),
+        countRows(
+          supabaseUrl,
+          serviceRoleKey,
+          `received_packages?facility_id=eq.${facility.id}&status=in.(${HELD_STATUSES.join(',')})&select=id`
+        ),
+        countRows(supabaseUrl, serviceRoleKey, `unidentified_packages?facility_id=eq.${facility.id}&status=eq.unassigned&select=id`)
+      ])
+      return {
+        ...facility,
+        mailbox_count: mailboxes,
+        held_package_count: heldPackages,
+        unidentified_count: unidentified,
+        staff: staff
+          .filter((row: { facility_id: number }) => row.facility_id === facility.id)
+          .map((row: { user_id: string; created_at: string }) => {
+            const profile = profileById.get(row.user_id)
+            return {
+              user_id: row.user_id,
+              name: [profile?.first_name, profile?.last_name].filter(Boolean).join(' ') || null,
+              email: profile?.email ?? null,
+              assigned_at: row.created_at
+            }
+          })
+      }
+    })
+  )
+
+  return createSuccessResponse({ facilities: rows, can_manage: scope === null })
+}
+
+async function handleSave(
+  supabaseUrl: string,
+  serviceRoleKey: string,
+  payload: RequestPayload,
+  admin: { id: string; email: string }
+) {
+  const parsed = parseFacilityInput(payload.facility)
+  if ('error' in parsed) {
+    return createErrorResponse('VALIDATION_ERROR', parsed.error, 400)
+  }
+  const facilityId = payload.facility_id === undefined ? null : toFacilityId(payload.facility_id)
+  if (payload.facility_id !== undefined && facilityId === null) {
+    return createErrorResponse('VALIDATION_ERROR', 'facility_id must be a facility id.', 400)
+  }
+
+  if (facilityId !== null) {
+    const [existing] = await fetchRows(supabaseUrl, serviceRoleKey, `facilities?id=eq.${facilityId}&select=${FACILITY_SELECT}`)
+    if (!existing) {
+      return createErrorResponse('NOT_FOUND', 'Facility not found.', 404)
+    }
+    if (existing.is_default && !parsed.facility.is_default) {
+      return createErrorResponse('VALIDATION_ERROR', 'Make another facility the default first.', 400)
+    }
+    if (existing.mailbox_prefix !== parsed.facility.mailbox_prefix) {
+      const issued = await countRows(supabaseUrl, serviceRoleKey, `virtual_mailboxes?facility_id=eq.${facilityId}&select=id`)
+      if (issued > 0) {
+        return createErrorResponse('VALIDATION_ERROR', 'The mailbox prefix cannot change once mailboxes have been issued.', 400)
+      }
+    }
+  }
+
+  if (parsed.facility.is_default) {
+    // Only one default is allowed, so clear the current one first
+    const clearResponse = await fetch(
+      `${supabaseUrl}/rest/v1/facilities?is_default=eq.true${facilityId !== null ? `&id=neq.${facilityId}` : ''}`,
+      { method: 'PATCH', headers: restHeaders(serviceRoleKey), body: JSON.stringify({ is_default: false }) }
+    )
+    if (!clearResponse.ok) {
+      throw new Error(`Failed to clear the default facility: ${await clearResponse.text()}`)
+    }
+  }
+
+  const response = await fetch(
+    facilityId === null ? `${supabaseUrl}/rest/v1/facilities` : `${supabaseUrl}/rest/v1/facilities?id=eq.${facilityId}`,
+    {
+      method: facilityId === null ? 'POST' : 'PATCH',
+      headers: restHeaders(serviceRoleKey, { Prefer: 'return=representation' }),
+      body: JSON.stringify(parsed.facility)
+    }
+  )
+  if (response.status === 409) {
+    return createErrorResponse('CONFLICT', 'Another facility already uses this code or mailbox prefix.', 409)
+  }
+  if (!response.ok) {
+    throw new Error(`Failed to save facility: ${await response.text()}`)
+  }
+  const [facility] = await response.json()
+
+  logAdminAction(facilityId === null ? 'ADMIN_CREATE_FACILITY' : 'ADMIN_UPDATE_FACILITY', admin, {
+    facility_id: facility.id,
+    code: facility.code
+  })
+
+  return createSuccessResponse({ facility })
+}
+
+async function handleAssignStaff(
+  supabaseUrl: string,
+  serviceRoleKey: string,
+  payload: RequestPayload,
+  admin: { id: string; email: string }
+) {
+  const facilityId = toFacilityId(payload.facility_id)
+  const email = typeof payload.email === 'string' ? payload.email.trim().toLowerCase() : ''
+  if (facilityId === null || !email) {
+    return createErrorResponse('VALIDATION_ERROR', 'facility_id and email are required.', 400)
+  }
+
+  const [profile] = await fetchRows(
+    supabaseUrl,
+    serviceRoleKey,
+    `user_profiles?email=ilike.${encodeURIComponent(email)}&select=user_id&limit=1`
+  )
+  if (!profile) {
+    return createErrorResponse('NOT_FOUND', `No account found for ${email}.`, 404)
+  }
+
+  const response = await fetch(`${supabaseUrl}/rest/v1/facility_staff?on_conflict=facility_id,user_id`, {
+    method: 'POST',
+    headers: restHeaders(serviceRoleKey, { Prefer: 'return=minimal,resolution=ignore-duplicates' }),
+    body: JSON.stringify({ facility_id: facilityId, user_id: profile.user_id, assigned_by: admin.id })
+  })
+  if (!response.ok) {
+    throw new Error(`Failed to assign staff: ${await response.text()}`)
+  }
+
+  logAdminAction('ADMIN_ASSIGN_FACILITY_STAFF', admin, { facility_id: facilityId, user_id: profile.user_id })
+  return createSuccessResponse({ message: `${email} assigned.` })
+}
+
+async function handleRemoveStaff(
+  supabaseUrl: string,
+  serviceRoleKey: string,
+  payload: RequestPayload,
+  admin: { id: string; email: string }
+) {
+  const facilityId = toFacilityId(payload.facility_id)
+  const userId = typeof payload.user_id === 'string' ? payload.user_id : ''
+  if (facilityId === null || !userId) {
+    return createErrorResponse('VALIDATION_ERROR', 'facility_id and user_id are required.', 400)
+  }
+
+  const response = await fetch(
+    `${supabaseUrl}/rest/v1/facility_staff?facility_id=eq.${facilityId}&user_id=eq.${encodeURIComponent(userId)}`,
+    { method: 'DELETE', headers: restHeaders(serviceRoleKey) }
+  )
+  if (!response.ok) {
+    throw new Error(`Failed to remove staff: ${await response.text()}`)
+  }
+
+  logAdminAction('ADMIN_REMOVE_FACILITY_STAFF', admin, { facility_id: facilityId, user_id: userId })
+  return createSuccessResponse({ message: 'Staff member removed from the facility.' })
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return handleOptions()
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+
+    if (!supabaseUrl || !serviceRoleKey) {
+      return createErrorResponse('CONFIG_MISSING', 'Supabase configuration is missing.')
+    }
+
+    const authHeader = req.headers.get('authorization') ?? req.headers.get('Authorization')
+    if (!authHeader) {
+      return createErrorResponse('UNAUTHORIZED', 'Authorization header is required.', 401)
+    }
+
+    const authResult = await verifyAdminAccess(authHeader, supabaseUrl, serviceRoleKey)
+    if (!authResult.success || !authResult.user) {
+      return createErrorResponse('FORBIDDEN', authResult.error || 'Admin access required.', 403)
+    }
+
+    const payload: RequestPayload = await req.json().catch(() => ({}))
+    const action = payload.action ?? 'list'
+    const scope = await loadFacilityScope(supabaseUrl, serviceRoleKey, authResult.user.id)
+
+    if (action === 'list') {
+      return await handleList(supabaseUrl, serviceRoleKey, scope)
+    }
+
+    // Facility-bound staff can see their facilities but not reconfigure them
+    if (scope !== null) {
+      return createErrorResponse('FORBIDDEN', 'Only admins without a facility assignment can manage facilities.', 403)
+    }
+
+    if (action === 'save') {
+      return await handleSave(supabaseUrl, serviceRoleKey, payload, authResult.user)
+    }
+    if (action === 'assign_staff') {
+      return await handleAssignStaff(supabaseUrl, serviceRoleKey, payload, authResult.user)
+    }
+    if (action === 'remove_staff') {
+      return await handleRemoveStaff(supabaseUrl, serviceRoleKey, payload, authResult.user)
+    }
+
+    return createErrorResponse('VALIDATION_ERROR', `Unknown action: ${action}`, 400)
+  } catch (error) {
+    console.error('admin-facilities error:', error)
+    return createErrorResponse('UNEXPECTED_ERROR', error instanceof Error ? error.message : 'Unexpected error')
+  }
+})
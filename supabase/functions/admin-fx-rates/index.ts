@@ -0,0 +1,163 @@
+import {
+  createErrorResponse,
+  createSuccessResponse,
+  handleOptions,
+  logAdminAction,
+  verifyAdminAccess
+} from '../_shared/auth-utils.ts'
+import { DISPLAY_CURRENCIES, parseDisplayCurrency, selectEffectiveFxRate, type FxRate } from '../_shared/fx-utils.ts'
+
+type FxAction = 'list' | 'set_rate' | 'set_destination_currency'
+
+interface RequestPayload {
+  action?: FxAction
+  currency_code?: string
+  rate_per_usd?: number
+  effective_from?: string
+  notes?: string
+  destination_id?: number
+  local_currency?: string | null
+}
+
+const HISTORY_LIMIT = 100
+
+function restHeaders(serviceRoleKey: string, extra: Record<string, string> = {}) {
+  return {
+    Authorization: `Bearer ${serviceRoleKey}`,
+    apikey: serviceRoleKey,
+    'Content-Type': 'application/json',
+    ...extra
+  }
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return handleOptions()
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+
+    if (!supabaseUrl || !serviceRoleKey) {
+      return createErrorResponse('CONFIG_MISSING', 'Supabase configuration is missing.')
+    }
+
+    const authHeader = req.headers.get('authorization') ?? req.headers.get('Authorization')
+    if (!authHeader) {
+      return createErrorResponse('UNAUTHORIZED', 'Authorization header is required.', 401)
+    }
+
+    const authResult = await verifyAdminAccess(authHeader, supabaseUrl, serviceRoleKey)
+    if (!authResult.success || !authResult.user) {
+      return createErrorResponse('FORBIDDEN', authResult.error || 'Admin access required.', 403)
+    }
+
+    const payload: RequestPayload = await req.json().catch(() => ({}))
+    const action = payload.action ?? 'list'
+
+    if (action === 'list') {
+      const [ratesResponse, destinationsResponse] = await Promise.all([
+        fetch(
+          `${supabaseUrl}/rest/v1/fx_rates?select=*&order=effective_from.desc&limit=${HISTORY_LIMIT}`,
+          { headers: restHeaders(serviceRoleKey) }
+        ),
+        fetch(
+          `${supabaseUrl}/rest/v1/destinations?select=id,country_name,city_name,local_currency&order=country_name.asc`,
+          { headers: restHeaders(serviceRoleKey) }
+        )
+      ])
+      if (!ratesResponse.ok || !destinationsResponse.ok) {
+        return createErrorResponse('FETCH_FAILED', 'Failed to load exchange rates.')
+      }
+
+      const history: FxRate[] = await ratesResponse.json()
+      const now = new Date()
+      const current = DISPLAY_CURRENCIES.map((currency) => ({
+        currency_code: currency,
+        rate: selectEffectiveFxRate(history, currency, now)
+      }))
+
+      return createSuccessResponse({
+        currencies: DISPLAY_CURRENCIES,
+        current,
+        history,
+        destinations: await destinationsResponse.json()
+      })
+    }
+
+    if (action === 'set_rate') {
+      const currency = parseDisplayCurrency(payload.currency_code)
+      const rate = Number(payload.rate_per_usd)
+      if (!currency) {
+        return createErrorResponse('VALIDATION_ERROR', `Currency must be one of ${DISPLAY_CURRENCIES.join(', ')}.`, 400)
+      }
+      if (!Number.isFinite(rate) || rate <= 0) {
+        return createErrorResponse('VALIDATION_ERROR', 'Rate must be greater than zero.', 400)
+      }
+      const effectiveFrom = payload.effective_from ? new Date(payload.effective_from) : new Date()
+      if (Number.isNaN(effectiveFrom.getTime())) {
+        return createErrorResponse('VALIDATION_ERROR', 'Effective date is invalid.', 400)
+      }
+
+      // Rates are append-only so issued quotes can always be traced to the row they used
+      const insertResponse = await fetch(`${supabaseUrl}/rest/v1/fx_rates`, {
+        method: 'POST',
+        headers: restHeaders(serviceRoleKey, { Prefer: 'return=representation' }),
+        body: JSON.stringify({
+          currency_code: currency,
+          rate_per_usd: rate,
+          effective_from: effectiveFrom.toISOString(),
+          notes: payload.notes?.trim() || null,
+          created_by: authResult.user.id
+        })
+      })
+      if (!insertResponse.ok) {
+        console.error('Failed to save FX rate:', await insertResponse.text())
+        return createErrorResponse('FX_RATE_SAVE_FAILED', 'Failed to save exchange rate.')
+      }
+      const rows = await insertResponse.json()
+      logAdminAction('FX_RATE_SET', authResult.user, {
+        currency_code: currency,
+        rate_per_usd: rate,
+        effective_from: effectiveFrom.toISOString()
+      })
+      return createSuccessResponse({ rate: rows[0] ?? null })
+    }
+
+    if (action === 'set_destination_currency') {
+      if (!payload.destination_id) {
+        return createErrorResponse('VALIDATION_ERROR', 'destination_id is required.', 400)
+      }
+      const currency = payload.local_currency ? parseDisplayCurrency(payload.local_currency) : null
+      if (payload.local_currency && !currency) {
+        return createErrorResponse('VALIDATION_ERROR', `Currency must be one of ${DISPLAY_CURRENCIES.join(', ')}.`, 400)
+      }
+
+      const updateResponse = await fetch(
+        `${supabaseUrl}/rest/v1/destinations?id=eq.${payload.destination_id}`,
+        {
+          method: 'PATCH',
+          headers: restHeaders(serviceRoleKey, { Prefer: 'return=representation' }),
+          body: JSON.stringify({ local_currency: currency })
+        }
+      )
+      if (!updateResponse.ok) {
+        console.error('Failed to update destination currency:', await updateResponse.text())
+        return createErrorResponse('DESTINATION_UPDATE_FAILED', 'Failed to update destination currency.')
+      }
+      const rows = await updateResponse.json()
+      logAdminAction('DESTINATION_CURRENCY_UPDATED', authResult.user, {
+        destination_id: payload.destination_id,
+        local_currency: currency
+      })
+      return createSuccessResponse({ destination: rows[0] ?? null })
+    }
+
+    return createErrorResponse('VALIDATION_ERROR', `Unknown action: ${action}`, 400)
+  } catch (error) {
+    console.error('admin-fx-rates error:', error)
+    const message = error instanceof Error ? error.message : 'Unexpected error managing exchange rates.'
+    return createErrorResponse('UNEXPECTED_ERROR', message)
+  }
+})
@@ -0,0 +1,564 @@
+import {
+  createErrorResponse,
+  createSuccessResponse,
+  handleOptions,
+  logAdminAction,
+  verifyAdminAccess
+} from '../_shared/auth-utils.ts'
+import { generateNotificationEmail, sendEmail } from '../_shared/email-utils.ts'
+import {
+  calculateInvoiceTotals,
+  creditableAmount,
+  INVOICE_LINE_CATEGORIES,
+  parseInvoiceLineItems,
+  storedLineItems,
+  type TaxRule
+} from '../_shared/invoice-utils.ts'
+import {
+  customerDisplayName,
+  DOCUMENT_PROFILE_FIELDS,
+  generateInvoiceHtml,
+  generateInvoicePdf,
+  loadInvoiceDocumentPayload
+} from '../_shared/invoice-document-utils.ts'
+import { invoiceBalance, parsePaymentInput, receiptDetails } from '../_shared/payment-utils.ts'
+
+type InvoiceAction =
+  | 'list'
+  | 'get'
+  | 'issue'
+  | 'void'
+  | 'credit_note'
+  | 'document'
+  | 'tax_rules'
+  | 'save_tax_rule'
+  | 'record_payment'
+  | 'resend_receipt'
+
+interface TaxRuleInput {
+  id?: number
+  name?: string
+  jurisdiction?: string
+  rate?: number
+  applies_to_category?: string
+  is_active?: boolean
+  effective_from?: string
+}
+
+interface RequestPayload {
+  action?: InvoiceAction
+  invoice_id?: number
+  status?: string
+  document_type?: string
+  search?: string
+  reason?: string
+  line_items?: unknown
+  format?: 'html' | 'pdf'
+  tax_rule?: TaxRuleInput
+  payment?: unknown
+  payment_id?: number
+}
+
+const LIST_LIMIT = 200
+const INVOICE_STATUSES = ['draft', 'sent', 'partially_paid', 'paid', 'void']
+
+function restHeaders(serviceRoleKey: string, extra: Record<string, string> = {}) {
+  return {
+    Authorization: `Bearer ${serviceRoleKey}`,
+    apikey: serviceRoleKey,
+    'Content-Type': 'application/json',
+    ...extra
+  }
+}
+
+const toBase64 = (bytes: Uint8Array) => {
+  let binary = ''
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i])
+  }
+  return btoa(binary)
+}
+
+async function fetchRows(supabaseUrl: string, serviceRoleKey: string, path: string) {
+  const response = await fetch(`${supabaseUrl}/rest/v1/${path}`, { headers: restHeaders(serviceRoleKey) })
+  if (!response.ok) {
+    throw new Error(`Failed to load ${path.split('?')[0]}: ${await response.text()}`)
+  }
+  const rows = await response.json()
+  return Array.isArray(rows) ? rows : []
+}
+
+async function fetchInvoice(supabaseUrl: string, serviceRoleKey: string, invoiceId: number) {
+  const rows = await fetchRows(supabaseUrl, serviceRoleKey, `invoices?id=eq.${invoiceId}&select=*`)
+  return rows[0] ?? null
+}
+
+async function fetchProfiles(supabaseUrl: string, serviceRoleKey: string, customerIds: string[]) {
+  const unique = [...new Set(customerIds.filter(Boolean))]
+  if (unique.length === 0) return new Map<string, any>()
+  const rows = await fetchRows(
+    supabaseUrl,
+    serviceRoleKey,
+    `user_profiles?user_id=in.(${unique.join(',')})&select=${DOCUMENT_PROFILE_FIELDS}`
+  )
+  return new Map(rows.map((row: any) => [row.user_id, row]))
+}
+
+/** Email the customer that a document was issued; failures are logged only. */
+async function notifyIssued(supabaseUrl: string, serviceRoleKey: string, invoice: any) {
+  const resendApiKey = Deno.env.get('RESEND_API_KEY')
+  if (!resendApiKey) return
+  try {
+    const profiles = await fetchProfiles(supabaseUrl, serviceRoleKey, [invoice.customer_id])
+    const profile = profiles.get(invoice.customer_id)
+    if (!profile?.email) return
+
+    const isCredit = invoice.document_type === 'credit_note'
+    const label = isCredit ? 'Credit Note' : 'Invoice'
+    const result = await sendEmail(resendApiKey, {
+      to: profile.email,
+      subject: `${label} ${invoice.invoice_number} - QCS Cargo`,
+      html: generateNotificationEmail({
+        title: `New ${label} Available`,
+        message: `Dear ${profile.first_name || 'Customer'}, ${isCredit ? 'a credit note has been issued to your account' : 'a new invoice is available for your shipment'}.`,
+        actionText: `View ${label}`,
+        actionUrl: 'https://www.qcs-cargo.com/dashboard',
+        details: [
+          { label: `${label} Number`, value: invoice.invoice_number },
+          { label: 'Amount', value: `$${Number(invoice.total_amount).toFixed(2)}` }
+        ]
+      }),
+      tags: [
+        { name: 'notification_type', value: isCredit ? 'credit_note_issued' : 'invoice_created' },
+        { name: 'invoice_id', value: String(invoice.id) }
+      ]
+    })
+    if (!result.success) {
+      console.warn('Failed to send invoice email:', result.error)
+    }
+  } catch (error) {
+    console.warn('Failed to send invoice email:', error)
+  }
+}
+
+async function fetchCreditBalance(supabaseUrl: string, serviceRoleKey: string, customerId: string) {
+  const response = await fetch(`${supabaseUrl}/rest/v1/rpc/customer_credit_balance`, {
+    method: 'POST',
+    headers: restHeaders(serviceRoleKey),
+    body: JSON.stringify({ p_customer_id: customerId })
+  })
+  if (!response.ok) {
+    throw new Error(`Failed to load account credit: ${await response.text()}`)
+  }
+  return Number(await response.json())
+}
+
+/** Email a payment receipt and stamp when it went out; failures are logged only. */
+async function sendReceipt(supabaseUrl: string, serviceRoleKey: string, payment: any, invoice: any) {
+  const resendApiKey = Deno.env.get('RESEND_API_KEY')
+  if (!resendApiKey) return false
+  try {
+    const profiles = await fetchProfiles(supabaseUrl, serviceRoleKey, [invoice.customer_id])
+    const profile = profiles.get(invoice.customer_id)
+    if (!profile?.email) return false
+
+    const result = await sendEmail(resendApiKey, {
+      to: profile.email,
+      subject: `Payment receipt ${payment.receipt_number} - QCS Cargo`,
+      html: generateNotificationEmail({
+        title: 'Payment Received',
+        message: `Dear ${profile.first_name || 'Customer'}, thank you for your payment. Please keep this receipt for your records.`,
+        details: receiptDetails(payment, invoice),
+        footerNote: 'Questions about this payment? Call us at 201-249-0929.'
+      }),
+      tags: [
+        { name: 'notification_type', value: 'payment_receipt' },
+        { name: 'invoice_id', value: String(invoice.id) }
+      ]
+    })
+    if (!result.success) {
+      console.warn('Failed to send payment receipt:', result.error)
+      return false
+    }
+    await fetch(`${supabaseUrl}/rest/v1/invoice_payments?id=eq.${payment.id}`, {
+      method: 'PATCH',
+      headers: restHeaders(serviceRoleKey),
+      body: JSON.stringify({ receipt_sent_at: new Date().toISOString() })
+    })
+    return true
+  } catch (error) {
+    console.warn('Failed to send payment receipt:', error)
+    return false
+  }
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return handleOptions()
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+
+    if (!supabaseUrl || !serviceRoleKey) {
+      return createErrorResponse('CONFIG_MISSING', 'Supabase configuration is missing.')
+    }
+
+    const authHeader = req.headers.get('authorization') ?? req.headers.get('Authorization')
+    if (!authHeader) {
+      return createErrorResponse('UNAUTHORIZED', 'Authorization header is required.', 401)
+    }
+
+    const authResult = await verifyAdminAccess(authHeader, supabaseUrl, serviceRoleKey)
+    if (!authResult.success || !authResult.user) {
+      return createErrorResponse('FORBIDDEN', authResult.error || 'Admin access required.', 403)
+    }
+
+    const payload: RequestPayload = await req.json().catch(() => ({}))
+    const action = payload.action ?? 'list'
+
+    if (action === 'list') {
+      const filters = ['select=*', 'order=created_at.desc', `limit=${LIST_LIMIT}`]
+      if (payload.status && INVOICE_STATUSES.includes(payload.status)) {
+        filters.push(`status=eq.${payload.status}`)
+      }
+      if (payload.document_type === 'invoice' || payload.document_type === 'credit_note') {
+        filters.push(`document_type=eq.${payload.document_type}`)
+      }
+      const search = payload.search?.trim().replace(/[^A-Za-z0-9-]/g, '')
+      if (search) {
+        filters.push(`invoice_number=ilike.*${search}*`)
+      }
+      const invoices = await fetchRows(supabaseUrl, serviceRoleKey, `invoices?${filters.join('&')}`)
+      const profiles = await fetchProfiles(supabaseUrl, serviceRoleKey, invoices.map((invoice: any) => invoice.customer_id))
+      return createSuccessResponse({
+        invoices: invoices.map((invoice: any) => ({
+          ...invoice,
+          line_items: storedLineItems(invoice.line_items),
+          balance_due: invoice.document_type === 'invoice' ? invoiceBalance(invoice) : 0,
+          customer_name: customerDisplayName(profiles.get(invoice.customer_id)),
+          customer_email: profiles.get(invoice.customer_id)?.email ?? null
+        }))
+      })
+    }
+
+    if (action === 'tax_rules') {
+      const rules = await fetchRows(supabaseUrl, serviceRoleKey, 'tax_rules?select=*&order=jurisdiction.asc,effective_from.desc')
+      return createSuccessResponse({ tax_rules: rules, categories: INVOICE_LINE_CATEGORIES })
+    }
+
+    if (action === 'save_tax_rule') {
+      const input = payload.tax_rule ?? {}
+      const name = input.name?.trim()
+      const jurisdiction = input.jurisdiction?.trim().toUpperCase()
+      const rate = Number(input.rate)
+      if (!name || !jurisdiction) {
+        return createErrorResponse('VALIDATION_ERROR', 'Tax rule name and jurisdiction are required.', 400)
+      }
+      if (!Number.isFinite(rate) || rate < 0 || rate >= 1) {
+        return createErrorResponse('VALIDATION_ERROR', 'Rate must be a fraction between 0 and 1, e.g. 0.06625.', 400)
+      }
+      if (!INVOICE_LINE_CATEGORIES.includes(input.applies_to_category as any)) {
+        return createErrorResponse('VALIDATION_ERROR', `Category must be one of ${INVOICE_LINE_CATEGORIES.join(', ')}.`, 400)
+      }
+      const record = {
+        name,
+        jurisdiction,
+        rate,
+        applies_to_category: input.applies_to_category,
+        is_active: input.is_active !== false,
+        effective_from: input.effective_from || new Date().toISOString().slice(0, 10),
+        updated_at: new Date().toISOString()
+      }
+      const saveResponse = input.id
+        ? await fetch(`${supabaseUrl}/rest/v1/tax_rules?id=eq.${input.id}`, {
+            method: 'PATCH',
+            headers: restHeaders(serviceRoleKey, { Prefer: 'return=representation' }),
+            body: JSON.stringify(record)
+          })
+        : await fetch(`${supabaseUrl}/rest/v1/tax_rules`, {
+            method: 'POST',
+            headers: restHeaders(serviceRoleKey, { Prefer: 'return=representation' }),
+            body: JSON.stringify({ ...record, created_by: authResult.user.id })
+          })
+      if (!saveResponse.ok) {
+        console.error('Failed to save tax rule:', await saveResponse.text())
+        return createErrorResponse('TAX_RULE_SAVE_FAILED', 'Failed to save tax rule.')
+      }
+      const rows = await saveResponse.json()
+      logAdminAction(input.id ? 'TAX_RULE_UPDATED' : 'TAX_RULE_CREATED', authResult.user, {
+        tax_rule_id: rows[0]?.id ?? input.id,
+        jurisdiction,
+        rate,
+        category: input.applies_to_category
+      })
+      return createSuccessResponse({ tax_rule: rows[0] ?? null })
+    }
+
+    if (!payload.invoice_id) {
+      return createErrorResponse('VALIDATION_ERROR', 'invoice_id is required.', 400)
+    }
+    const invoice = await fetchInvoice(supabaseUrl, serviceRoleKey, Number(payload.invoice_id))
+    if (!invoice) {
+      return createErrorResponse('NOT_FOUND', 'Invoice not found.', 404)
+    }
+
+    if (action === 'get') {
+      const isInvoice = invoice.document_type === 'invoice'
+      const [creditNotes, payments, creditBalance] = await Promise.all([
+        isInvoice
+          ? fetchRows(supabaseUrl, serviceRoleKey, `invoices?original_invoice_id=eq.${invoice.id}&select=*&order=created_at.asc`)
+          : Promise.resolve([]),
+        isInvoice
+          ? fetchRows(supabaseUrl, serviceRoleKey, `invoice_payments?invoice_id=eq.${invoice.id}&select=*&order=received_at.asc`)
+          : Promise.resolve([]),
+        fetchCreditBalance(supabaseUrl, serviceRoleKey, invoice.customer_id)
+      ])
+      return createSuccessResponse({
+        invoice: {
+          ...invoice,
+          line_items: storedLineItems(invoice.line_items),
+          balance_due: isInvoice ? invoiceBalance(invoice) : 0
+        },
+        credit_notes: creditNotes,
+        payments,
+        customer_credit_balance: creditBalance,
+        creditable_amount: isInvoice ? creditableAmount(invoice, creditNotes) : 0
+      })
+    }
+
+    if (action === 'document') {
+      const documentPayload = await loadInvoiceDocumentPayload(supabaseUrl, serviceRoleKey, invoice)
+      if (payload.format === 'pdf') {
+        const pdfBytes = await generateInvoicePdf(documentPayload)
+        return createSuccessResponse({
+          filename: `${invoice.invoice_number ?? `draft-${invoice.id}`}.pdf`,
+          pdf_base64: toBase64(new Uint8Array(pdfBytes))
+        })
+      }
+      return createSuccessResponse({ html: generateInvoiceHtml(documentPayload) })
+    }
+
+    if (action === 'issue') {
+      if (invoice.status !== 'draft') {
+        return createErrorResponse('INVOICE_NOT_DRAFT', 'Only draft invoices can be issued.', 409)
+      }
+      // The numbering trigger fires on this status change
+      const response = await fetch(`${supabaseUrl}/rest/v1/invoices?id=eq.${invoice.id}&status=eq.draft`, {
+        method: 'PATCH',
+        headers: restHeaders(serviceRoleKey, { Prefer: 'return=representation' }),
+        body: JSON.stringify({ status: 'sent', updated_at: new Date().toISOString() })
+      })
+      if (!response.ok) {
+        console.error('Failed to issue invoice:', await response.text())
+        return createErrorResponse('INVOICE_UPDATE_FAILED', 'Failed to issue invoice.')
+      }
+      const rows = await response.json()
+      if (!rows[0]) {
+        return createErrorResponse('INVOICE_CHANGED', 'This invoice was already issued.', 409)
+      }
+      logAdminAction('INVOICE_ISSUED', authResult.user, { invoice_id: invoice.id, invoice_number: rows[0].invoice_number })
+      await notifyIssued(supabaseUrl, serviceRoleKey, rows[0])
+      return createSuccessResponse({ invoice: rows[0] })
+    }
+
+    if (action === 'void') {
+      const reason = payload.reason?.trim()
+      if (!reason) {
+        return createErrorResponse('VALIDATION_ERROR', 'A reason is required to void an invoice.', 400)
+      }
+      if (invoice.status === 'void') {
+        return createErrorResponse('INVOICE_VOID', 'This invoice is already void.', 409)
+      }
+      if (invoice.status === 'paid' || invoice.status === 'partially_paid') {
+        return createErrorResponse('INVOICE_PAID', 'Invoices with payments cannot be voided; issue a credit note instead.', 409)
+      }
+      if (invoice.document_type === 'invoice') {
+        const creditNotes = await fetchRows(
+          supabaseUrl,
+          serviceRoleKey,
+          `invoices?original_invoice_id=eq.${invoice.id}&status=neq.void&select=id`
+        )
+        if (creditNotes.length > 0) {
+          return createErrorResponse('INVOICE_CREDITED', 'Void the credit notes against this invoice first.', 409)
+        }
+      }
+      const response = await fetch(`${supabaseUrl}/rest/v1/invoices?id=eq.${invoice.id}&status=eq.${invoice.status}`, {
+        method: 'PATCH',
+        headers: restHeaders(serviceRoleKey, { Prefer: 'return=representation' }),
+        body: JSON.stringify({
+          status: 'void',
+          voided_at: new Date().toISOString(),
+          voided_by: authResult.user.id,
+          void_reason: reason,
+          updated_at: new Date().toISOString()
+        })
+      })
+      if (!response.ok) {
+        console.error('Failed to void invoice:', await response.text())
+        return createErrorResponse('INVOICE_UPDATE_FAILED', 'Failed to void invoice.')
+      }
+      const rows = await response.json()
+      if (!rows[0]) {
+        return createErrorResponse('INVOICE_CHANGED', 'This invoice changed while you were viewing it. Please refresh.', 409)
+      }
+      // Storage collected by a voided invoice goes on the customer's next one
+      const releaseResponse = await fetch(`${supabaseUrl}/rest/v1/package_storage_charges?invoice_id=eq.${invoice.id}`, {
+        method: 'PATCH',
+        headers: restHeaders(serviceRoleKey),
+        body: JSON.stringify({ invoice_id: null })
+      })
+      if (!releaseResponse.ok) {
+        console.error('Failed to release storage charges:', await releaseResponse.text())
+      }
+      logAdminAction('INVOICE_VOIDED', authResult.user, { invoice_id: invoice.id, invoice_number: invoice.invoice_number, reason })
+      return createSuccessResponse({ invoice: rows[0] })
+    }
+
+    if (action === 'credit_note') {
+      if (invoice.document_type !== 'invoice' || !['sent', 'partially_paid', 'paid'].includes(invoice.status)) {
+        return createErrorResponse('INVOICE_NOT_CREDITABLE', 'Credit notes can only be issued against issued invoices.', 409)
+      }
+      const reason = payload.reason?.trim()
+      if (!reason) {
+        return createErrorResponse('VALIDATION_ERROR', 'A reason is required for a credit note.', 400)
+      }
+
+      const creditNotes = await fetchRows(
+        supabaseUrl,
+        serviceRoleKey,
+        `invoices?original_invoice_id=eq.${invoice.id}&select=total_amount,status`
+      )
+      const available = creditableAmount(invoice, creditNotes)
+      const fullCredit = payload.line_items === undefined || payload.line_items === null
+
+      // Without line items the whole invoice is reversed, tax and discount included
+      let totals
+      let lineItems
+      if (fullCredit) {
+        if (creditNotes.some((note: any) => note.status !== 'void')) {
+          return createErrorResponse('VALIDATION_ERROR', 'This invoice already has credits; list the lines to credit.', 400)
+        }
+        lineItems = storedLineItems(invoice.line_items)
+        totals = {
+          subtotal: Number(invoice.subtotal ?? invoice.amount ?? invoice.total_amount),
+          discount_amount: Number(invoice.discount_amount ?? 0),
+          taxable_amount: Number(invoice.taxable_amount ?? 0),
+          tax_amount: Number(invoice.tax_amount ?? 0),
+          total_amount: Number(invoice.total_amount),
+          tax_breakdown: Array.isArray(invoice.tax_breakdown) ? invoice.tax_breakdown : []
+        }
+      } else {
+        const parsed = parseInvoiceLineItems(payload.line_items)
+        if ('error' in parsed) {
+          return createErrorResponse('VALIDATION_ERROR', parsed.error, 400)
+        }
+        // Credited lines are taxed at the rules in force when the invoice was issued
+        const rules: TaxRule[] = await fetchRows(supabaseUrl, serviceRoleKey, 'tax_rules?select=*')
+        lineItems = parsed.lineItems
+        totals = calculateInvoiceTotals(lineItems, 0, rules, new Date(invoice.issued_at ?? invoice.created_at))
+      }
+      if (totals.total_amount > available) {
+        return createErrorResponse(
+          'CREDIT_EXCEEDS_BALANCE',
+          `Credit of $${totals.total_amount.toFixed(2)} exceeds the $${available.toFixed(2)} left to credit on ${invoice.invoice_number}.`,
+          400
+        )
+      }
+
+      const now = new Date().toISOString()
+      const response = await fetch(`${supabaseUrl}/rest/v1/invoices`, {
+        method: 'POST',
+        headers: restHeaders(serviceRoleKey, { Prefer: 'return=representation' }),
+        body: JSON.stringify({
+          document_type: 'credit_note',
+          original_invoice_id: invoice.id,
+          customer_id: invoice.customer_id,
+          shipment_id: invoice.shipment_id,
+          invoice_type: invoice.invoice_type,
+          status: 'sent',
+          amount: totals.subtotal,
+          ...totals,
+          line_items: lineItems,
+          credit_reason: reason,
+          due_date: now,
+          created_by: authResult.user.id
+        })
+      })
+      if (!response.ok) {
+        console.error('Failed to create credit note:', await response.text())
+        return createErrorResponse('CREDIT_NOTE_FAILED', 'Failed to create credit note.')
+      }
+      const rows = await response.json()
+      logAdminAction('CREDIT_NOTE_ISSUED', authResult.user, {
+        invoice_id: invoice.id,
+        credit_note_id: rows[0]?.id,
+        credit_note_number: rows[0]?.invoice_number,
+        amount: totals.total_amount
+      })
+      await notifyIssued(supabaseUrl, serviceRoleKey, rows[0])
+      return createSuccessResponse({ credit_note: rows[0] })
+    }
+
+    if (action === 'record_payment') {
+      const parsed = parsePaymentInput(payload.payment)
+      if ('error' in parsed) {
+        return createErrorResponse('VALIDATION_ERROR', parsed.error, 400)
+      }
+      const { payment } = parsed
+      // Balance checks and ledger writes happen in one transaction in the database
+      const response = await fetch(`${supabaseUrl}/rest/v1/rpc/record_invoice_payment`, {
+        method: 'POST',
+        headers: restHeaders(serviceRoleKey),
+        body: JSON.stringify({
+          p_invoice_id: invoice.id,
+          p_amount: payment.amount,
+          p_method: payment.method,
+          p_reference: payment.reference,
+          p_notes: payment.notes,
+          p_received_by: authResult.user.id
+        })
+      })
+      if (!response.ok) {
+        const detail = await response.json().catch(() => null)
+        console.error('Failed to record payment:', detail)
+        return createErrorResponse('PAYMENT_REJECTED', detail?.message || 'Failed to record payment.', 409)
+      }
+      const recorded = await response.json()
+      const updatedInvoice = await fetchInvoice(supabaseUrl, serviceRoleKey, invoice.id)
+      logAdminAction('INVOICE_PAYMENT_RECORDED', authResult.user, {
+        invoice_id: invoice.id,
+        invoice_number: invoice.invoice_number,
+        receipt_number: recorded.receipt_number,
+        amount: payment.amount,
+        method: payment.method,
+        overpayment: Number(recorded.overpayment_amount)
+      })
+      const receiptSent = await sendReceipt(supabaseUrl, serviceRoleKey, recorded, updatedInvoice)
+      return createSuccessResponse({ payment: recorded, invoice: updatedInvoice, receipt_sent: receiptSent })
+    }
+
+    if (action === 'resend_receipt') {
+      const payments = await fetchRows(
+        supabaseUrl,
+        serviceRoleKey,
+        `invoice_payments?id=eq.${Number(payload.payment_id)}&invoice_id=eq.${invoice.id}&select=*`
+      )
+      if (!payments[0]) {
+        return createErrorResponse('NOT_FOUND', 'Payment not found.', 404)
+      }
+      const sent = await sendReceipt(supabaseUrl, serviceRoleKey, payments[0], invoice)
+      if (!sent) {
+        return createErrorResponse('RECEIPT_FAILED', 'The receipt could not be emailed.')
+      }
+      return createSuccessResponse({ receipt_sent: true })
+    }
+
+    return createErrorResponse('VALIDATION_ERROR', `Unknown action: ${action}`, 400)
+  } catch (error) {
+    console.error('admin-invoices error:', error)
+    const message = error instanceof Error ? error.message : 'Unexpected error managing invoices.'
+    return createErrorResponse('UNEXPECTED_ERROR', message)
+  }
+})
@@ -1,12 +1,17 @@
 import { handleOptions, createErrorResponse, createSuccessResponse, verifyAdminAccess } from '../_shared/auth-utils.ts'
+import { facilityQueryFilter, loadFacilityScope, resolveFacilityFilter, type FacilityScope } from '../_shared/facility-utils.ts'
 
 interface RequestPayload {
   search?: string
   limit?: number
   offset?: number
+  facility_id?: unknown
 }
 
-function buildQueryParams({ search, limit, offset }: Required<RequestPayload>) {
+function buildQueryParams(
+  { search, limit, offset }: Required<Omit<RequestPayload, 'facility_id'>>,
+  facilityIds: FacilityScope
+) {
   const params: string[] = ['select=*', 'order=created_at.desc', `limit=${limit}`, `offset=${offset}`]
 
   if (search) {
@@ -15,7 +20,7 @@ function buildQueryParams({ search, limit, offset }: Required<RequestPayload>) {
     params.push(`or=(mailbox_number.ilike.${encodedValue},email.ilike.${encodedValue})`)
   }
 
-  return params.join('&')
+  return params.join('&') + facilityQueryFilter(facilityIds)
 }
 
 Deno.serve(async (req) => {
@@ -49,13 +54,22 @@ Deno.serve(async (req) => {
       payload.search = url.searchParams.get('search') ?? undefined
       payload.limit = url.searchParams.get('limit') ? Number(url.searchParams.get('limit')) : undefined
       payload.offset = url.searchParams.get('offset') ? Number(url.searchParams.get('offset')) : undefined
+      payload.facility_id = url.searchParams.get('facility_id') ?? undefined
+    }
+
+    const facilityFilter = resolveFacilityFilter(
+      await loadFacilityScope(supabaseUrl, serviceRoleKey, authResult.user.id),
+      payload.facility_id
+    )
+    if ('error' in facilityFilter) {
+      return createErrorResponse('FORBIDDEN', facilityFilter.error, 403)
     }
 
     const limit = Number.isFinite(payload.limit) && payload.limit ? Math.min(Math.max(payload.limit, 1), 200) : 50
     const offset = Number.isFinite(payload.offset) && payload.offset ? Math.max(payload.offset, 0) : 0
     const search = payload.search?.trim() || ''
 
-    const queryParams = buildQueryParams({ search, limit, offset })
+    const queryParams = buildQueryParams({ search, limit, offset }, facilityFilter.facilityIds)
     const requestUrl = `${supabaseUrl}/rest/v1/virtual_mailbox_details?${queryParams}`
 
     const response = await fetch(requestUrl, {
@@ -0,0 +1,149 @@
+import {
+  createErrorResponse,
+  createSuccessResponse,
+  handleOptions,
+  verifyAdminAccess
+} from '../_shared/auth-utils.ts'
+import { generateWarehouseLabelZpl, type WarehouseLabel } from '../_shared/warehouse-label-utils.ts'
+import { generateWarehouseLabelPdf } from '../_shared/warehouse-label-document-utils.ts'
+
+interface RequestPayload {
+  package_ids?: unknown
+  format?: 'zpl' | 'pdf'
+}
+
+// A Monday receiving batch prints in one go
+const MAX_LABELS = 200
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+function restHeaders(serviceRoleKey: string, extra: Record<string, string> = {}) {
+  return {
+    Authorization: `Bearer ${serviceRoleKey}`,
+    apikey: serviceRoleKey,
+    'Content-Type': 'application/json',
+    ...extra
+  }
+}
+
+async function fetchRows(supabaseUrl: string, serviceRoleKey: string, path: string) {
+  const response = await fetch(`${supabaseUrl}/rest/v1/${path}`, { headers: restHeaders(serviceRoleKey) })
+  if (!response.ok) {
+    throw new Error(`Failed to load ${path.split('?')[0]}: ${await response.text()}`)
+  }
+  const rows = await response.json()
+  return Array.isArray(rows) ? rows : []
+}
+
+const toBase64 = (bytes: Uint8Array) => {
+  let binary = ''
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i])
+  }
+  return btoa(binary)
+}
+
+const dimensionsOf = (value: any) => {
+  const length = Number(value?.length)
+  const width = Number(value?.width)
+  const height = Number(value?.height)
+  return length > 0 && width > 0 && height > 0 ? { length, width, height } : null
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return handleOptions()
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+
+    if (!supabaseUrl || !serviceRoleKey) {
+      return createErrorResponse('CONFIG_MISSING', 'Supabase configuration is missing.')
+    }
+
+    const authHeader = req.headers.get('authorization') ?? req.headers.get('Authorization')
+    if (!authHeader) {
+      return createErrorResponse('UNAUTHORIZED', 'Authorization header is required.', 401)
+    }
+
+    const authResult = await verifyAdminAccess(authHeader, supabaseUrl, serviceRoleKey)
+    if (!authResult.success || !authResult.user) {
+      return createErrorResponse('FORBIDDEN', authResult.error || 'Admin access required.', 403)
+    }
+
+    const payload: RequestPayload = await req.json().catch(() => ({}))
+    const packageIds = Array.isArray(payload.package_ids)
+      ? Array.from(new Set(payload.package_ids.filter((id): id is string => typeof id === 'string' && UUID_PATTERN.test(id))))
+      : []
+    if (packageIds.length === 0) {
+      return createErrorResponse('VALIDATION_ERROR', 'package_ids must list at least one package.', 400)
+    }
+    if (packageIds.length > MAX_LABELS) {
+      return createErrorResponse('VALIDATION_ERROR', `At most ${MAX_LABELS} labels can be printed at once.`, 400)
+    }
+    const format = payload.format === 'zpl' ? 'zpl' : 'pdf'
+
+    const packages = await fetchRows(
+      supabaseUrl,
+      serviceRoleKey,
+      `received_packages?id=in.(${packageIds.join(',')})&select=id,user_id,label_code,tracking_number,carrier,weight,dimensions,created_at,virtual_mailboxes(mailbox_number)`
+    )
+    if (packages.length === 0) {
+      return createErrorResponse('NOT_FOUND', 'No matching packages found.', 404)
+    }
+
+    // Keep the scan order the station sent
+    const order = new Map(packageIds.map((id, index) => [id, index]))
+    packages.sort((a: any, b: any) => (order.get(a.id) ?? 0) - (order.get(b.id) ?? 0))
+
+    const userIds = Array.from(new Set(packages.map((pkg: any) => pkg.user_id)))
+    const profiles = await fetchRows(
+      supabaseUrl,
+      serviceRoleKey,
+      `user_profiles?user_id=in.(${userIds.join(',')})&select=user_id,first_name,last_name`
+    )
+    const nameById = new Map(profiles.map((profile: any) => [
+      profile.user_id,
+      [profile.first_name, profile.last_name].filter(Boolean).join(' ')
+    ]))
+
+    const labels: WarehouseLabel[] = packages.map((pkg: any) => ({
+      labelCode: pkg.label_code,
+      mailboxNumber: pkg.virtual_mailboxes?.mailbox_number ?? 'UNASSIGNED',
+      customerName: nameById.get(pkg.user_id) || 'Customer',
+      trackingNumber: pkg.tracking_number,
+      carrier: pkg.carrier,
+      weightLbs: pkg.weight === null ? null : Number(pkg.weight),
+      dimensions: dimensionsOf(pkg.dimensions),
+      receivedAt: pkg.created_at
+    }))
+
+    const printedResponse = await fetch(
+      `${supabaseUrl}/rest/v1/received_packages?id=in.(${packages.map((pkg: any) => pkg.id).join(',')})`,
+      {
+        method: 'PATCH',
+        headers: restHeaders(serviceRoleKey),
+        body: JSON.stringify({ label_printed_at: new Date().toISOString() })
+      }
+    )
+    if (!printedResponse.ok) {
+      console.error('Failed to record label printing:', await printedResponse.text())
+    }
+
+    const filename = labels.length === 1 ? `label-${labels[0].labelCode}` : `labels-${new Date().toISOString().slice(0, 10)}`
+    if (format === 'zpl') {
+      return createSuccessResponse({ filename: `${filename}.zpl`, zpl: generateWarehouseLabelZpl(labels), count: labels.length })
+    }
+    const pdfBytes = await generateWarehouseLabelPdf(labels)
+    return createSuccessResponse({
+      filename: `${filename}.pdf`,
+      pdf_base64: toBase64(new Uint8Array(pdfBytes)),
+      count: labels.length
+    })
+  } catch (error) {
+    console.error('admin-package-labels error:', error)
+    return createErrorResponse('UNEXPECTED_ERROR', error instanceof Error ? error.message : 'Unexpected error')
+  }
+})
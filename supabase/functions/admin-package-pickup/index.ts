@@ -0,0 +1,486 @@
+import {
+  createErrorResponse,
+  createSuccessResponse,
+  handleOptions,
+  logAdminAction,
+  verifyAdminAccess
+} from '../_shared/auth-utils.ts'
+import { generateNotificationEmail, sendEmail } from '../_shared/email-utils.ts'
+import { facilityQueryFilter, loadFacilityScope, type FacilityScope } from '../_shared/facility-utils.ts'
+import { parsePhotoDataUrl } from '../_shared/package-photo-utils.ts'
+import {
+  generatePickupCode,
+  hashPickupCode,
+  maskEmail,
+  maskPhone,
+  MAX_PICKUP_CODE_ATTEMPTS,
+  parsePickupVerification,
+  pickupCodeUnusableReason,
+  pickupSignaturePath,
+  PICKUP_CODE_TTL_MINUTES,
+  PICKUP_SIGNATURE_BUCKET
+} from '../_shared/pickup-utils.ts'
+import { COMPANY_CONTACT } from '../_shared/quote-utils.ts'
+import { formatSmsNumber, sendSmsMessage } from '../_shared/sms-utils.ts'
+import { STORED_STATUSES } from '../_shared/storage-utils.ts'
+
+interface RequestPayload {
+  action?: 'lookup' | 'send_code' | 'release'
+  mailbox_number?: unknown
+  mailbox_id?: unknown
+  channel?: unknown
+  package_ids?: unknown
+  recipient_name?: unknown
+  verification?: unknown
+  signature?: unknown
+}
+
+interface Mailbox {
+  id: number
+  user_id: string
+  mailbox_number: string
+  full_name: string | null
+  email: string | null
+}
+
+// A new code can be requested once a minute
+const RESEND_INTERVAL_MS = 60 * 1000
+
+const MAX_SIGNATURE_BYTES = 1024 * 1024
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+const PACKAGE_SELECT = 'id,tracking_number,carrier,weight,label_code,status,created_at'
+
+function restHeaders(serviceRoleKey: string, extra: Record<string, string> = {}) {
+  return {
+    Authorization: `Bearer ${serviceRoleKey}`,
+    apikey: serviceRoleKey,
+    'Content-Type': 'application/json',
+    ...extra
+  }
+}
+
+async function fetchRows(supabaseUrl: string, serviceRoleKey: string, path: string) {
+  const response = await fetch(`${supabaseUrl}/rest/v1/${path}`, { headers: restHeaders(serviceRoleKey) })
+  if (!response.ok) {
+    throw new Error(`Failed to load ${path.split('?')[0]}: ${await response.text()}`)
+  }
+  const rows = await response.json()
+  return Array.isArray(rows) ? rows : []
+}
+
+async function loadMailbox(supabaseUrl: string, serviceRoleKey: string, filter: string): Promise<Mailbox | null> {
+  const [mailbox] = await fetchRows(
+    supabaseUrl,
+    serviceRoleKey,
+    `virtual_mailbox_details?${filter}&select=id,user_id,mailbox_number,full_name,email&limit=1`
+  )
+  return mailbox ?? null
+}
+
+async function loadPhone(supabaseUrl: string, serviceRoleKey: string, userId: string) {
+  const [profile] = await fetchRows(
+    supabaseUrl,
+    serviceRoleKey,
+    `user_profiles?user_id=eq.${userId}&select=phone,phone_country_code`
+  )
+  return formatSmsNumber(profile?.phone, profile?.phone_country_code)
+}
+
+const storedStatusFilter = `status=in.(${STORED_STATUSES.join(',')})`
+
+const formatDateTime = (value: string) =>
+  new Date(value).toLocaleString('en-US', { dateStyle: 'long', timeStyle: 'short', timeZone: 'America/New_York' })
+
+// Staff only hand over packages held at the facilities they work at
+async function handleLookup(supabaseUrl: string, serviceRoleKey: string, payload: RequestPayload, scope: FacilityScope) {
+  const mailboxNumber = typeof payload.mailbox_number === 'string' ? payload.mailbox_number.trim().toUpperCase() : ''
+  if (!mailboxNumber) {
+    return createErrorResponse('VALIDATION_ERROR', 'mailbox_number is required.', 400)
+  }
+
+  const mailbox = await loadMailbox(supabaseUrl, serviceRoleKey, `mailbox_number=eq.${encodeURIComponent(mailboxNumber)}`)
+  if (!mailbox) {
+    return createErrorResponse('MAILBOX_NOT_FOUND', 'Mailbox not found.', 404)
+  }
+
+  const [phone, packages] = await Promise.all([
+    loadPhone(supabaseUrl, serviceRoleKey, mailbox.user_id),
+    fetchRows(
+      supabaseUrl,
+      serviceRoleKey,
+      `received_packages?mailbox_id=eq.${mailbox.id}&${storedStatusFilter}${facilityQueryFilter(scope)}&select=${PACKAGE_SELECT}&order=created_at.asc`
+    )
+  ])
+
+  return createSuccessResponse({
+    mailbox: {
+      id: mailbox.id,
+      mailbox_number: mailbox.mailbox_number,
+      full_name: mailbox.full_name
+    },
+    code_channels: {
+      sms: phone ? maskPhone(phone) : null,
+      email: mailbox.email ? maskEmail(mailbox.email) : null
+    },
+    packages
+  })
+}
+
+async function handleSendCode(
+  supabaseUrl: string,
+  serviceRoleKey: string,
+  payload: RequestPayload,
+  adminId: string
+) {
+  const mailboxId = Number(payload.mailbox_id)
+  const channel = payload.channel === 'sms' || payload.channel === 'email' ? payload.channel : null
+  if (!Number.isInteger(mailboxId) || !channel) {
+    return createErrorResponse('VALIDATION_ERROR', 'mailbox_id and a channel of sms or email are required.', 400)
+  }
+
+  const mailbox = await loadMailbox(supabaseUrl, serviceRoleKey, `id=eq.${mailboxId}`)
+  if (!mailbox) {
+    return createErrorResponse('MAILBOX_NOT_FOUND', 'Mailbox not found.', 404)
+  }
+
+  const destination = channel === 'sms' ? await loadPhone(supabaseUrl, serviceRoleKey, mailbox.user_id) : mailbox.email
+  if (!destination) {
+    return createErrorResponse('VALIDATION_ERROR', `The customer has no ${channel === 'sms' ? 'mobile number' : 'email address'} on file.`, 400)
+  }
+
+  const [latest] = await fetchRows(
+    supabaseUrl,
+    serviceRoleKey,
+    `package_pickup_codes?mailbox_id=eq.${mailboxId}&select=created_at&order=created_at.desc&limit=1`
+  )
+  if (latest && Date.now() - new Date(latest.created_at).getTime() < RESEND_INTERVAL_MS) {
+    return createErrorResponse('RATE_LIMITED', 'A code was just sent. Wait a minute before sending another.', 429)
+  }
+
+  const id = crypto.randomUUID()
+  const code = generatePickupCode()
+  const expiresAt = new Date(Date.now() + PICKUP_CODE_TTL_MINUTES * 60 * 1000).toISOString()
+
+  const insertResponse = await fetch(`${supabaseUrl}/rest/v1/package_pickup_codes`, {
+    method: 'POST',
+    headers: restHeaders(serviceRoleKey),
+    body: JSON.stringify({
+      id,
+      user_id: mailbox.user_id,
+      mailbox_id: mailbox.id,
+      code_hash: await hashPickupCode(code, id),
+      channel,
+      expires_at: expiresAt,
+      created_by: adminId
+    })
+  })
+  if (!insertResponse.ok) {
+    throw new Error(`Failed to store pickup code: ${await insertResponse.text()}`)
+  }
+
+  const message = `Your QCS Cargo pickup code for mailbox ${mailbox.mailbox_number} is ${code}. Give it to the counter staff only when you are collecting in person. It expires in ${PICKUP_CODE_TTL_MINUTES} minutes.`
+  const result = channel === 'sms'
+    ? await sendSmsMessage(
+      {
+        accountSid: Deno.env.get('TWILIO_ACCOUNT_SID'),
+        authToken: Deno.env.get('TWILIO_AUTH_TOKEN'),
+        fromNumber: Deno.env.get('TWILIO_SMS_FROM')
+      },
+      { to: destination, body: message }
+    )
+    : await sendEmail(Deno.env.get('RESEND_API_KEY'), {
+      to: destination,
+      subject: `Your pickup code - Mailbox ${mailbox.mailbox_number}`,
+      html: generateNotificationEmail({
+        title: `Pickup code: ${code}`,
+        message,
+        footerNote: 'If you are not at our counter right now, someone may be trying to collect your packages. Call us right away.'
+      }),
+      tags: [{ name: 'notification_type', value: 'pickup_code' }]
+    })
+
+  if (!result.success) {
+    console.error('Failed to deliver pickup code:', result.error)
+    return createErrorResponse('DELIVERY_FAILED', `The code could not be sent by ${channel}. Try the other channel or check ID instead.`, 502)
+  }
+
+  return createSuccessResponse({
+    channel,
+    destination: channel === 'sms' ? maskPhone(destination) : maskEmail(destination),
+    expires_at: expiresAt
+  })
+}
+
+/**
+ * Checks a guess against the mailbox's latest code, counting wrong guesses
+ * under a row lock. The code is claimed later, in the same transaction as
+ * the release.
+ */
+async function verifyPickupCode(supabaseUrl: string, serviceRoleKey: string, mailboxId: number, code: string) {
+  const [record] = await fetchRows(
+    supabaseUrl,
+    serviceRoleKey,
+    `package_pickup_codes?mailbox_id=eq.${mailboxId}&select=id,expires_at,attempts,consumed_at&order=created_at.desc&limit=1`
+  )
+  if (!record) {
+    return { error: createErrorResponse('INVALID_CODE', 'No pickup code has been sent for this mailbox.', 400) }
+  }
+  const reason = pickupCodeUnusableReason(record)
+  if (reason) {
+    return { error: createErrorResponse('INVALID_CODE', reason, 400) }
+  }
+
+  const attemptResponse = await fetch(`${supabaseUrl}/rest/v1/rpc/record_pickup_code_attempt`, {
+    method: 'POST',
+    headers: restHeaders(serviceRoleKey),
+    body: JSON.stringify({
+      p_code_id: record.id,
+      p_code_hash: await hashPickupCode(code, record.id),
+      p_max_attempts: MAX_PICKUP_CODE_ATTEMPTS
+    })
+  })
+  if (!attemptResponse.ok) {
+    throw new Error(`Failed to check pickup code: ${await attemptResponse.text()}`)
+  }
+  const outcome: string = await attemptResponse.json()
+  if (outcome === 'wrong') {
+    return { error: createErrorResponse('INVALID_CODE', 'That code is not correct.', 400) }
+  }
+  if (outcome !== 'valid') {
+    return { error: createErrorResponse('INVALID_CODE', 'This code can no longer be used. Send a new one.', 400) }
+  }
+  return { codeId: record.id as string }
+}
+
+async function handleRelease(
+  supabaseUrl: string,
+  serviceRoleKey: string,
+  payload: RequestPayload,
+  admin: { id: string; email: string },
+  scope: FacilityScope
+) {
+  const mailboxId = Number(payload.mailbox_id)
+  const packageIds = Array.isArray(payload.package_ids)
+    ? Array.from(new Set(payload.package_ids.filter((id): id is string => typeof id === 'string' && UUID_PATTERN.test(id))))
+    : []
+  const recipientName = typeof payload.recipient_name === 'string' ? payload.recipient_name.trim() : ''
+  if (!Number.isInteger(mailboxId) || packageIds.length === 0) {
+    return createErrorResponse('VALIDATION_ERROR', 'mailbox_id and at least one package are required.', 400)
+  }
+  if (recipientName.length < 2 || recipientName.length > 120) {
+    return createErrorResponse('VALIDATION_ERROR', 'Enter the name of the person collecting.', 400)
+  }
+
+  const parsedVerification = parsePickupVerification(payload.verification)
+  if ('error' in parsedVerification) {
+    return createErrorResponse('VALIDATION_ERROR', parsedVerification.error, 400)
+  }
+  const verification = parsedVerification.verification
+
+  const parsedSignature = parsePhotoDataUrl(payload.signature)
+  if ('error' in parsedSignature || parsedSignature.photo.contentType !== 'image/png') {
+    return createErrorResponse('VALIDATION_ERROR', 'A PNG signature is required.', 400)
+  }
+  if (parsedSignature.photo.bytes.length > MAX_SIGNATURE_BYTES) {
+    return createErrorResponse('VALIDATION_ERROR', 'The signature image is too large.', 400)
+  }
+
+  const mailbox = await loadMailbox(supabaseUrl, serviceRoleKey, `id=eq.${mailboxId}`)
+  if (!mailbox) {
+    return createErrorResponse('MAILBOX_NOT_FOUND', 'Mailbox not found.', 404)
+  }
+
+  const packages = await fetchRows(
+    supabaseUrl,
+    serviceRoleKey,
+    `received_packages?id=in.(${packageIds.join(',')})&mailbox_id=eq.${mailbox.id}&${storedStatusFilter}${facilityQueryFilter(scope)}&select=${PACKAGE_SELECT}`
+  )
+  if (packages.length !== packageIds.length) {
+    return createErrorResponse('CONFLICT', 'Some packages are no longer available for pickup. Look the mailbox up again.', 409)
+  }
+
+  let pickupCodeId: string | null = null
+  if (verification.method === 'otp') {
+    const verified = await verifyPickupCode(supabaseUrl, serviceRoleKey, mailbox.id, verification.code)
+    if ('error' in verified) {
+      return verified.error
+    }
+    pickupCodeId = verified.codeId
+  }
+
+  const releaseId = crypto.randomUUID()
+  const signaturePath = pickupSignaturePath(mailbox.user_id, releaseId)
+  const signatureUrl = `${supabaseUrl}/storage/v1/object/${PICKUP_SIGNATURE_BUCKET}/${signaturePath}`
+  const uploadResponse = await fetch(signatureUrl, {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${serviceRoleKey}`,
+      apikey: serviceRoleKey,
+      'Content-Type': 'image/png'
+    },
+    body: parsedSignature.photo.bytes
+  })
+  if (!uploadResponse.ok) {
+    throw new Error(`Failed to store signature: ${await uploadResponse.text()}`)
+  }
+
+  // Claims the code, records the release and marks the packages picked up together
+  const releaseResponse = await fetch(`${supabaseUrl}/rest/v1/rpc/release_pickup_packages`, {
+    method: 'POST',
+    headers: restHeaders(serviceRoleKey),
+    body: JSON.stringify({
+      p_release_id: releaseId,
+      p_mailbox_id: mailbox.id,
+      p_package_ids: packageIds,
+      p_recipient_name: recipientName,
+      p_verification_method: verification.method,
+      p_pickup_code_id: pickupCodeId,
+      p_id_type: verification.method === 'id_check' ? verification.idType : null,
+      p_id_last4: verification.method === 'id_check' ? verification.idLast4 : null,
+      p_signature_path: signaturePath,
+      p_released_by: admin.id
+    })
+  })
+  if (!releaseResponse.ok) {
+    const detail = await releaseResponse.json().catch(() => null)
+    console.error('Failed to release packages:', detail)
+    await fetch(signatureUrl, {
+      method: 'DELETE',
+      headers: { Authorization: `Bearer ${serviceRoleKey}`, apikey: serviceRoleKey }
+    }).catch(() => undefined)
+    return createErrorResponse('CONFLICT', detail?.message || 'The packages could not be released.', 409)
+  }
+  const release = await releaseResponse.json()
+
+  const released = await fetchRows(
+    supabaseUrl,
+    serviceRoleKey,
+    `received_packages?release_id=eq.${release.id}&select=${PACKAGE_SELECT}&order=created_at.asc`
+  )
+
+  logAdminAction('ADMIN_RELEASE_PACKAGES', admin, {
+    release_id: release.id,
+    receipt_number: release.receipt_number,
+    mailbox_id: mailbox.id,
+    package_count: released.length,
+    verification_method: verification.method
+  })
+
+  const trackingList = released.map((pkg: { tracking_number: string }) => pkg.tracking_number)
+  const notificationResponse = await fetch(`${supabaseUrl}/rest/v1/notifications`, {
+    method: 'POST',
+    headers: restHeaders(serviceRoleKey),
+    body: JSON.stringify({
+      user_id: mailbox.user_id,
+      recipient_type: 'customer',
+      title: 'Packages Picked Up',
+      message: `${recipientName} collected ${released.length} package${released.length === 1 ? '' : 's'} from mailbox ${mailbox.mailbox_number}. Receipt ${release.receipt_number}.`,
+      reference_type: 'package_release',
+      reference_id: release.id,
+      priority: 'normal',
+      created_at: release.released_at
+    })
+  })
+  if (!notificationResponse.ok) {
+    console.error('Failed to create pickup notification:', notificationResponse.status)
+  }
+
+  let receiptSent = false
+  if (mailbox.email) {
+    const result = await sendEmail(Deno.env.get('RESEND_API_KEY'), {
+      to: mailbox.email,
+      subject: `Pickup receipt ${release.receipt_number} - Mailbox ${mailbox.mailbox_number}`,
+      html: generateNotificationEmail({
+        title: 'Pickup Receipt',
+        message: `Dear ${mailbox.full_name || 'Customer'}, the packages below were released from mailbox ${mailbox.mailbox_number} at our counter.`,
+        actionText: 'View My Packages',
+        actionUrl: `${COMPANY_CONTACT.website}/dashboard`,
+        details: [
+          { label: 'Receipt Number', value: release.receipt_number },
+          { label: 'Released', value: formatDateTime(release.released_at) },
+          { label: 'Collected By', value: recipientName },
+          {
+            label: 'Verified By',
+            value: verification.method === 'otp' ? 'One-time pickup code' : 'Photo ID check'
+          },
+          ...trackingList.map((trackingNumber: string) => ({ label: 'Tracking Number', value: trackingNumber }))
+        ],
+        footerNote: `If you did not authorise this pickup, call us at ${COMPANY_CONTACT.phone} right away.`
+      }),
+      tags: [
+        { name: 'notification_type', value: 'pickup_receipt' },
+        { name: 'mailbox_id', value: String(mailbox.id) }
+      ]
+    })
+    receiptSent = result.success
+    if (!result.success) {
+      console.warn('Failed to send pickup receipt:', result.error)
+    } else {
+      await fetch(`${supabaseUrl}/rest/v1/package_releases?id=eq.${release.id}`, {
+        method: 'PATCH',
+        headers: restHeaders(serviceRoleKey),
+        body: JSON.stringify({ receipt_sent_at: new Date().toISOString() })
+      })
+    }
+  }
+
+  return createSuccessResponse({
+    release: {
+      id: release.id,
+      receipt_number: release.receipt_number,
+      released_at: release.released_at,
+      recipient_name: recipientName,
+      verification_method: verification.method,
+      released_by: admin.email
+    },
+    mailbox: { mailbox_number: mailbox.mailbox_number, full_name: mailbox.full_name },
+    packages: released,
+    receipt_sent: receiptSent
+  })
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return handleOptions()
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+
+    if (!supabaseUrl || !serviceRoleKey) {
+      return createErrorResponse('CONFIG_MISSING', 'Supabase configuration is missing.')
+    }
+
+    const authHeader = req.headers.get('authorization') ?? req.headers.get('Authorization')
+    if (!authHeader) {
+      return createErrorResponse('UNAUTHORIZED', 'Authorization header is required.', 401)
+    }
+
+    const authResult = await verifyAdminAccess(authHeader, supabaseUrl, serviceRoleKey)
+    if (!authResult.success || !authResult.user) {
+      return createErrorResponse('FORBIDDEN', authResult.error || 'Admin access required.', 403)
+    }
+
+    const payload: RequestPayload = await req.json().catch(() => ({}))
+    const action = payload.action ?? 'lookup'
+    const scope = await loadFacilityScope(supabaseUrl, serviceRoleKey, authResult.user.id)
+
+    if (action === 'lookup') {
+      return await handleLookup(supabaseUrl, serviceRoleKey, payload, scope)
+    }
+    if (action === 'send_code') {
+      return await handleSendCode(supabaseUrl, serviceRoleKey, payload, authResult.user.id)
+    }
+    if (action === 'release') {
+      return await handleRelease(supabaseUrl, serviceRoleKey, payload, authResult.user, scope)
+    }
+
+    return createErrorResponse('VALIDATION_ERROR', `Unknown action: ${action}`, 400)
+  } catch (error) {
+    console.error('admin-package-pickup error:', error)
+    return createErrorResponse('UNEXPECTED_ERROR', error instanceof Error ? error.message : 'Unexpected error')
+  }
+})
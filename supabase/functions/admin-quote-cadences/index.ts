@@ -0,0 +1,273 @@
+import {
+  createErrorResponse,
+  createSuccessResponse,
+  handleOptions,
+  logAdminAction,
+  verifyAdminAccess
+} from '../_shared/auth-utils.ts'
+import {
+  fetchFollowUpCadences,
+  followUpStopReason,
+  parseCadenceSteps,
+  scheduleFromStep
+} from '../_shared/follow-up-cadence-utils.ts'
+
+type CadenceAction = 'list' | 'save_cadence' | 'assign' | 'pause' | 'resume' | 'history'
+
+interface CadenceInput {
+  id?: number
+  name?: string
+  description?: string | null
+  destination_id?: number | null
+  min_quote_value?: number | null
+  max_quote_value?: number | null
+  priority?: number
+  is_default?: boolean
+  is_active?: boolean
+  steps?: unknown
+}
+
+interface RequestPayload {
+  action?: CadenceAction
+  quote_id?: number
+  cadence_id?: number | null
+  cadence?: CadenceInput
+}
+
+const HISTORY_LIMIT = 50
+
+function restHeaders(serviceRoleKey: string, extra: Record<string, string> = {}) {
+  return {
+    Authorization: `Bearer ${serviceRoleKey}`,
+    apikey: serviceRoleKey,
+    'Content-Type': 'application/json',
+    ...extra
+  }
+}
+
+async function fetchQuote(supabaseUrl: string, serviceRoleKey: string, quoteId: number) {
+  const response = await fetch(
+    `${supabaseUrl}/rest/v1/shipping_quotes?id=eq.${quoteId}&select=*`,
+    { headers: restHeaders(serviceRoleKey) }
+  )
+  if (!response.ok) {
+    throw new Error('Failed to load quote.')
+  }
+  const rows = await response.json()
+  return Array.isArray(rows) && rows.length > 0 ? rows[0] : null
+}
+
+async function updateQuote(supabaseUrl: string, serviceRoleKey: string, quoteId: number, body: Record<string, unknown>) {
+  const response = await fetch(`${supabaseUrl}/rest/v1/shipping_quotes?id=eq.${quoteId}`, {
+    method: 'PATCH',
+    headers: restHeaders(serviceRoleKey, { Prefer: 'return=representation' }),
+    body: JSON.stringify(body)
+  })
+  if (!response.ok) {
+    console.error('Failed to update quote follow-up:', await response.text())
+    return null
+  }
+  const rows = await response.json()
+  return rows[0] ?? null
+}
+
+const optionalAmount = (value: unknown) =>
+  value === null || value === undefined || value === '' ? null : Number(value)
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return handleOptions()
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+
+    if (!supabaseUrl || !serviceRoleKey) {
+      return createErrorResponse('CONFIG_MISSING', 'Supabase configuration is missing.')
+    }
+
+    const authHeader = req.headers.get('authorization') ?? req.headers.get('Authorization')
+    if (!authHeader) {
+      return createErrorResponse('UNAUTHORIZED', 'Authorization header is required.', 401)
+    }
+
+    const authResult = await verifyAdminAccess(authHeader, supabaseUrl, serviceRoleKey)
+    if (!authResult.success || !authResult.user) {
+      return createErrorResponse('FORBIDDEN', authResult.error || 'Admin access required.', 403)
+    }
+
+    const payload: RequestPayload = await req.json().catch(() => ({}))
+    const action = payload.action ?? 'list'
+
+    if (action === 'list') {
+      const [cadences, destinationsResponse] = await Promise.all([
+        fetchFollowUpCadences(supabaseUrl, serviceRoleKey),
+        fetch(
+          `${supabaseUrl}/rest/v1/destinations?select=id,country_name,city_name&order=country_name.asc`,
+          { headers: restHeaders(serviceRoleKey) }
+        )
+      ])
+      if (!destinationsResponse.ok) {
+        return createErrorResponse('FETCH_FAILED', 'Failed to load destinations.')
+      }
+      return createSuccessResponse({ cadences, destinations: await destinationsResponse.json() })
+    }
+
+    if (action === 'save_cadence') {
+      const input = payload.cadence ?? {}
+      const name = input.name?.trim()
+      if (!name) {
+        return createErrorResponse('VALIDATION_ERROR', 'Cadence name is required.', 400)
+      }
+      const parsed = parseCadenceSteps(input.steps)
+      if ('error' in parsed) {
+        return createErrorResponse('VALIDATION_ERROR', parsed.error, 400)
+      }
+      const minValue = optionalAmount(input.min_quote_value)
+      const maxValue = optionalAmount(input.max_quote_value)
+      if ((minValue !== null && !(minValue >= 0)) || (maxValue !== null && !(maxValue > 0))) {
+        return createErrorResponse('VALIDATION_ERROR', 'Quote value limits must be positive amounts.', 400)
+      }
+      if (minValue !== null && maxValue !== null && maxValue <= minValue) {
+        return createErrorResponse('VALIDATION_ERROR', 'Maximum quote value must be above the minimum.', 400)
+      }
+
+      const record = {
+        name,
+        description: input.description?.trim() || null,
+        destination_id: input.destination_id ? Number(input.destination_id) : null,
+        min_quote_value: minValue,
+        max_quote_value: maxValue,
+        priority: Number.isInteger(Number(input.priority)) ? Number(input.priority) : 0,
+        is_default: Boolean(input.is_default),
+        is_active: input.is_active !== false,
+        steps: parsed.steps,
+        updated_at: new Date().toISOString()
+      }
+
+      // Only one cadence can be the fallback
+      if (record.is_default) {
+        await fetch(
+          `${supabaseUrl}/rest/v1/quote_follow_up_cadences?is_default=is.true${input.id ? `&id=neq.${input.id}` : ''}`,
+          {
+            method: 'PATCH',
+            headers: restHeaders(serviceRoleKey),
+            body: JSON.stringify({ is_default: false })
+          }
+        )
+      }
+
+      const saveResponse = input.id
+        ? await fetch(`${supabaseUrl}/rest/v1/quote_follow_up_cadences?id=eq.${input.id}`, {
+            method: 'PATCH',
+            headers: restHeaders(serviceRoleKey, { Prefer: 'return=representation' }),
+            body: JSON.stringify(record)
+          })
+        : await fetch(`${supabaseUrl}/rest/v1/quote_follow_up_cadences`, {
+            method: 'POST',
+            headers: restHeaders(serviceRoleKey, { Prefer: 'return=representation' }),
+            body: JSON.stringify({ ...record, created_by: authResult.user.id })
+          })
+      if (!saveResponse.ok) {
+        console.error('Failed to save follow-up cadence:', await saveResponse.text())
+        return createErrorResponse('CADENCE_SAVE_FAILED', 'Failed to save cadence.')
+      }
+      const rows = await saveResponse.json()
+      logAdminAction(input.id ? 'FOLLOW_UP_CADENCE_UPDATED' : 'FOLLOW_UP_CADENCE_CREATED', authResult.user, {
+        cadence_id: rows[0]?.id ?? input.id,
+        name,
+        steps: parsed.steps.length
+      })
+      return createSuccessResponse({ cadence: rows[0] ?? null })
+    }
+
+    if (!payload.quote_id) {
+      return createErrorResponse('VALIDATION_ERROR', 'quote_id is required.', 400)
+    }
+
+    if (action === 'history') {
+      const response = await fetch(
+        `${supabaseUrl}/rest/v1/quote_follow_up_history?quote_id=eq.${payload.quote_id}&select=*&order=created_at.desc&limit=${HISTORY_LIMIT}`,
+        { headers: restHeaders(serviceRoleKey) }
+      )
+      if (!response.ok) {
+        return createErrorResponse('FETCH_FAILED', 'Failed to load follow-up history.')
+      }
+      return createSuccessResponse({ history: await response.json() })
+    }
+
+    const quote = await fetchQuote(supabaseUrl, serviceRoleKey, Number(payload.quote_id))
+    if (!quote) {
+      return createErrorResponse('NOT_FOUND', 'Quote not found.', 404)
+    }
+
+    const now = new Date()
+    const stopReason = followUpStopReason(quote, now)
+    if (stopReason && action !== 'pause') {
+      return createErrorResponse('QUOTE_CLOSED', `Follow-ups have stopped for this quote (${stopReason}).`, 409)
+    }
+
+    if (action === 'assign') {
+      const cadenceId = payload.cadence_id === null || payload.cadence_id === undefined ? null : Number(payload.cadence_id)
+      let schedule: Record<string, unknown> = { follow_up_due_at: null, follow_up_status: 'completed' }
+
+      if (cadenceId !== null) {
+        const cadences = await fetchFollowUpCadences(supabaseUrl, serviceRoleKey)
+        const cadence = cadences.find(item => item.id === cadenceId)
+        if (!cadence) {
+          return createErrorResponse('NOT_FOUND', 'Cadence not found.', 404)
+        }
+        // Steps already behind the quote are skipped rather than sent all at once
+        schedule = { ...scheduleFromStep(quote, cadence, 0, now) }
+      }
+
+      const updated = await updateQuote(supabaseUrl, serviceRoleKey, quote.id, {
+        ...schedule,
+        follow_up_cadence_id: cadenceId,
+        follow_up_stopped_reason: null,
+        follow_up_error: null
+      })
+      if (!updated) {
+        return createErrorResponse('QUOTE_UPDATE_FAILED', 'Failed to assign cadence.')
+      }
+      logAdminAction('QUOTE_FOLLOW_UP_CADENCE_ASSIGNED', authResult.user, {
+        quote_id: quote.id,
+        cadence_id: cadenceId
+      })
+      return createSuccessResponse({ quote: updated })
+    }
+
+    if (action === 'pause' || action === 'resume') {
+      let changes: Record<string, unknown> = { follow_up_paused: action === 'pause' }
+
+      // Resuming picks up at the next step that is still ahead of us
+      if (action === 'resume' && quote.follow_up_cadence_id && quote.follow_up_status !== 'completed') {
+        const cadences = await fetchFollowUpCadences(supabaseUrl, serviceRoleKey)
+        const cadence = cadences.find(item => item.id === quote.follow_up_cadence_id)
+        if (cadence) {
+          changes = {
+            ...changes,
+            ...scheduleFromStep(quote, cadence, Number(quote.follow_up_step ?? 0), now),
+            follow_up_error: null
+          }
+        }
+      }
+
+      const updated = await updateQuote(supabaseUrl, serviceRoleKey, quote.id, changes)
+      if (!updated) {
+        return createErrorResponse('QUOTE_UPDATE_FAILED', `Failed to ${action} follow-ups.`)
+      }
+      logAdminAction(action === 'pause' ? 'QUOTE_FOLLOW_UP_PAUSED' : 'QUOTE_FOLLOW_UP_RESUMED', authResult.user, {
+        quote_id: quote.id
+      })
+      return createSuccessResponse({ quote: updated })
+    }
+
+    return createErrorResponse('VALIDATION_ERROR', `Unknown action: ${action}`, 400)
+  } catch (error) {
+    console.error('admin-quote-cadences error:', error)
+    const message = error instanceof Error ? error.message : 'Unexpected error managing follow-up cadences.'
+    return createErrorResponse('UNEXPECTED_ERROR', message)
+  }
+})
@@ -0,0 +1,463 @@
+import {
+  createErrorResponse,
+  createSuccessResponse,
+  handleOptions,
+  logAdminAction,
+  verifyAdminAccess
+} from '../_shared/auth-utils.ts'
+import {
+  coerceNumber,
+  describeMeasurements,
+  fetchEffectivePricingRules,
+  fetchRateSettings,
+  INSURANCE_SETTING_KEY,
+  parseInsuranceRules,
+  rateShipment,
+  resolvePieces,
+  roundToTwo,
+  type ShipmentPiece
+} from '../_shared/rating-utils.ts'
+import { fetchAccessorialCatalog, parseAccessorialRequest } from '../_shared/accessorial-utils.ts'
+import { convertFromUsd, fetchFxSnapshot, parseFxSnapshot } from '../_shared/fx-utils.ts'
+import { COMPANY_CONTACT, DEFAULT_TERMS, generateQuoteHtml, quoteAcceptUrl } from '../_shared/quote-utils.ts'
+import {
+  applyManualAdjustment,
+  diffQuoteRevisions,
+  parseManualAdjustment,
+  revisionReference
+} from '../_shared/quote-revision-utils.ts'
+import { fetchFollowUpCadences, scheduleFromStep, selectCadence } from '../_shared/follow-up-cadence-utils.ts'
+
+type RevisionAction = 'history' | 'revise'
+
+interface RevisionChanges {
+  weight?: number
+  dimensions?: { length?: number; width?: number; height?: number } | null
+  pieces?: unknown[]
+  service_type?: 'standard' | 'express'
+  declared_value?: number
+  accessorials?: { flags?: string[]; packageCount?: number }
+  adjustment?: { label?: string; amount?: number } | null
+}
+
+interface RequestPayload {
+  action?: RevisionAction
+  quote_id?: number
+  changes?: RevisionChanges
+  reason?: string
+}
+
+const QUOTE_VALIDITY_DAYS = 7
+const FOLLOW_UP_WINDOW_DAYS = 3
+
+function restHeaders(serviceRoleKey: string, extra: Record<string, string> = {}) {
+  return {
+    Authorization: `Bearer ${serviceRoleKey}`,
+    apikey: serviceRoleKey,
+    'Content-Type': 'application/json',
+    ...extra
+  }
+}
+
+async function fetchQuote(supabaseUrl: string, serviceRoleKey: string, quoteId: number) {
+  const response = await fetch(
+    `${supabaseUrl}/rest/v1/shipping_quotes?id=eq.${quoteId}&select=*`,
+    { headers: restHeaders(serviceRoleKey) }
+  )
+  if (!response.ok) {
+    throw new Error('Failed to load quote.')
+  }
+  const rows = await response.json()
+  return Array.isArray(rows) && rows.length > 0 ? rows[0] : null
+}
+
+/** Pieces the quote was rated on, in lbs and inches. */
+function storedPieces(quote: any): ShipmentPiece[] {
+  const pieces = Array.isArray(quote.quote_metadata?.pieces) ? quote.quote_metadata.pieces : []
+  if (pieces.length > 0) {
+    return resolvePieces(
+      pieces.map((piece: any) => ({
+        quantity: piece.quantity,
+        weight: piece.weightLbs,
+        length: piece.dimensions?.length,
+        width: piece.dimensions?.width,
+        height: piece.dimensions?.height,
+        description: piece.description
+      }))
+    )
+  }
+  return resolvePieces(undefined, quote.weight_lbs, {
+    length: quote.length_inches,
+    width: quote.width_inches,
+    height: quote.height_inches
+  })
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return handleOptions()
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+
+    if (!supabaseUrl || !serviceRoleKey) {
+      return createErrorResponse('CONFIG_MISSING', 'Supabase configuration is missing.')
+    }
+
+    const authHeader = req.headers.get('authorization') ?? req.headers.get('Authorization')
+    if (!authHeader) {
+      return createErrorResponse('UNAUTHORIZED', 'Authorization header is required.', 401)
+    }
+
+    const authResult = await verifyAdminAccess(authHeader, supabaseUrl, serviceRoleKey)
+    if (!authResult.success || !authResult.user) {
+      return createErrorResponse('FORBIDDEN', authResult.error || 'Admin access required.', 403)
+    }
+
+    const payload: RequestPayload = await req.json().catch(() => ({}))
+    const action = payload.action ?? 'history'
+
+    if (!payload.quote_id) {
+      return createErrorResponse('VALIDATION_ERROR', 'quote_id is required.', 400)
+    }
+
+    const quote = await fetchQuote(supabaseUrl, serviceRoleKey, Number(payload.quote_id))
+    if (!quote) {
+      return createErrorResponse('NOT_FOUND', 'Quote not found.', 404)
+    }
+    const baseReference: string = quote.base_reference || quote.quote_reference
+
+    if (action === 'history') {
+      const response = await fetch(
+        `${supabaseUrl}/rest/v1/shipping_quotes?base_reference=eq.${encodeURIComponent(baseReference)}` +
+          '&select=id,quote_reference,revision_number,is_latest_revision,status,created_at,total_cost,revision_reason,revised_by,quote_document_html,quote_metadata' +
+          '&order=revision_number.desc',
+        { headers: restHeaders(serviceRoleKey) }
+      )
+      if (!response.ok) {
+        return createErrorResponse('FETCH_FAILED', 'Failed to load quote revisions.')
+      }
+      const rows = await response.json()
+      const revisions = (Array.isArray(rows) && rows.length ? rows : [quote]).map((row: any) => ({
+        id: row.id,
+        quote_reference: row.quote_reference,
+        revision_number: row.revision_number ?? 1,
+        is_latest_revision: row.is_latest_revision ?? true,
+        status: row.status,
+        created_at: row.created_at,
+        total_cost: row.total_cost,
+        revision_reason: row.revision_reason ?? null,
+        changes: row.quote_metadata?.revision?.changes ?? [],
+        quote_document_html: row.quote_document_html
+      }))
+      return createSuccessResponse({ base_reference: baseReference, revisions })
+    }
+
+    if (action === 'revise') {
+      if (quote.is_latest_revision === false) {
+        return createErrorResponse('INVALID_STATE', 'Only the latest revision of a quote can be revised.', 409)
+      }
+      if (quote.status === 'won') {
+        return createErrorResponse('INVALID_STATE', 'Converted quotes cannot be revised.', 409)
+      }
+
+      const changes = payload.changes ?? {}
+      const metadata = quote.quote_metadata ?? {}
+
+      let pieces = storedPieces(quote)
+      if (Array.isArray(changes.pieces)) {
+        pieces = resolvePieces(changes.pieces)
+      } else if (changes.weight !== undefined || changes.dimensions !== undefined) {
+        const single = pieces.length === 1 && pieces[0].quantity === 1 ? pieces[0] : null
+        pieces = resolvePieces(
+          undefined,
+          changes.weight ?? quote.weight_lbs,
+          changes.dimensions === undefined && single
+            ? { length: single.length, width: single.width, height: single.height }
+            : changes.dimensions
+        )
+      }
+      if (pieces.length === 0) {
+        return createErrorResponse('VALIDATION_ERROR', 'A revised quote needs a weight greater than zero.', 400)
+      }
+
+      const serviceType = changes.service_type === 'express' || changes.service_type === 'standard'
+        ? changes.service_type
+        : quote.service_type === 'express' ? 'express' : 'standard'
+      const declaredValue = Math.max(0, coerceNumber(changes.declared_value ?? quote.declared_value) ?? 0)
+      const accessorialRequest = parseAccessorialRequest(changes.accessorials ?? metadata.accessorial_request)
+      const adjustment = changes.adjustment === undefined
+        ? parseManualAdjustment(metadata.manual_adjustment)
+        : parseManualAdjustment(changes.adjustment)
+
+      const destinationResponse = await fetch(
+        `${supabaseUrl}/rest/v1/destinations?id=eq.${quote.destination_id}&select=*`,
+        { headers: restHeaders(serviceRoleKey) }
+      )
+      const destinationRows = destinationResponse.ok ? await destinationResponse.json() : []
+      const destination = destinationRows[0]
+      if (!destination) {
+        return createErrorResponse('NOT_FOUND', 'Destination not found.', 404)
+      }
+
+      const ratedAt = new Date()
+      const previousFx = parseFxSnapshot(metadata.fx)
+      const [pricingRules, rateSettings, accessorialCatalog, fxSnapshot] = await Promise.all([
+        fetchEffectivePricingRules(supabaseUrl, serviceRoleKey, Number(quote.destination_id), ratedAt),
+        fetchRateSettings(supabaseUrl, serviceRoleKey, [INSURANCE_SETTING_KEY]),
+        fetchAccessorialCatalog(supabaseUrl, serviceRoleKey),
+        previousFx ? fetchFxSnapshot(supabaseUrl, serviceRoleKey, previousFx.currency, ratedAt) : Promise.resolve(null)
+      ])
+
+      const rating = rateShipment({
+        destinationId: Number(quote.destination_id),
+        destination,
+        pricingRules,
+        serviceType,
+        pieces,
+        declaredValue,
+        accessorials: accessorialRequest,
+        accessorialCatalog,
+        insuranceRules: parseInsuranceRules(rateSettings[INSURANCE_SETTING_KEY]),
+        at: ratedAt
+      })
+      const rateBreakdown = applyManualAdjustment(rating.rateBreakdown, adjustment)
+
+      const revisionNumber = (Number(quote.revision_number) || 1) + 1
+      const quoteReference = revisionReference(baseReference, revisionNumber)
+      const issuedAt = ratedAt.toISOString()
+      const expiresAt = new Date(ratedAt.getTime() + QUOTE_VALIDITY_DAYS * 24 * 60 * 60 * 1000)
+      const followUpDueAt = new Date(ratedAt.getTime() + FOLLOW_UP_WINDOW_DAYS * 24 * 60 * 60 * 1000)
+      const { min: minDays, max: maxDays } = rating.transit
+      const transitLabel = `${minDays}-${maxDays} business days`
+      const singlePiece = pieces.length === 1 && pieces[0].quantity === 1 ? pieces[0] : null
+      const side = (value: number | null | undefined) => (typeof value === 'number' ? roundToTwo(value) : null)
+
+      const documentPieces = rating.pieces.map((piece) => ({
+        description: piece.description,
+        quantity: piece.quantity,
+        weightLbs: roundToTwo(piece.unitWeight),
+        dimensions: piece.dimensions
+          ? {
+              length: roundToTwo(piece.dimensions.length),
+              width: roundToTwo(piece.dimensions.width),
+              height: roundToTwo(piece.dimensions.height)
+            }
+          : null,
+        dimensionalWeightLbs: piece.unitDimensionalWeight === null ? null : roundToTwo(piece.unitDimensionalWeight),
+        billableWeightLbs: roundToTwo(piece.billableWeight)
+      }))
+
+      const quoteDocumentHtml = generateQuoteHtml({
+        quoteReference,
+        customerName: quote.full_name,
+        customerEmail: quote.email,
+        customerPhone: quote.phone || null,
+        createdAt: issuedAt,
+        expiresAt: expiresAt.toISOString(),
+        origin: {
+          name: COMPANY_CONTACT.name,
+          address: COMPANY_CONTACT.address,
+          phone: COMPANY_CONTACT.phone,
+          email: COMPANY_CONTACT.email
+        },
+        destination: {
+          country: destination.country_name,
+          city: destination.city_name,
+          airportCode: destination.airport_code
+        },
+        packageDetails: {
+          actualWeightLbs: roundToTwo(rating.weight.actual),
+          billableWeightLbs: roundToTwo(rating.weight.billable),
+          dimensionalWeightLbs: rating.weight.dimensional ? roundToTwo(rating.weight.dimensional) : null,
+          dimensions: singlePiece
+            ? { length: side(singlePiece.length), width: side(singlePiece.width), height: side(singlePiece.height) }
+            : undefined,
+          pieces: singlePiece ? undefined : documentPieces,
+          declaredValue: roundToTwo(declaredValue),
+          serviceType
+        },
+        rateBreakdown: {
+          baseShippingCost: rateBreakdown.baseShippingCost,
+          consolidationFee: rateBreakdown.consolidationFee,
+          handlingFee: rateBreakdown.handlingFee,
+          insuranceCost: rateBreakdown.insuranceCost,
+          totalCost: rateBreakdown.totalCost,
+          expressSurcharge: rateBreakdown.expressSurcharge,
+          accessorials: rateBreakdown.accessorials
+        },
+        transitEstimate: {
+          min: minDays,
+          max: maxDays,
+          average: Math.round((minDays + maxDays) / 2),
+          label: transitLabel
+        },
+        localCurrency: fxSnapshot,
+        notes: quote.special_instructions || null,
+        terms: metadata.terms || DEFAULT_TERMS,
+        callToActionUrl: quoteAcceptUrl(baseReference)
+      })
+
+      // A revision restarts the validity window, so the quote's cadence starts over
+      const cadences = await fetchFollowUpCadences(supabaseUrl, serviceRoleKey).catch(error => {
+        console.error('Could not load follow-up cadences:', error)
+        return []
+      })
+      const followUpCadence =
+        cadences.find(cadence => cadence.id === quote.follow_up_cadence_id) ??
+        selectCadence(cadences, { destination_id: quote.destination_id, total_cost: rateBreakdown.totalCost })
+      const followUpSchedule = followUpCadence
+        ? scheduleFromStep(
+            {
+              destination_id: quote.destination_id,
+              total_cost: rateBreakdown.totalCost,
+              created_at: issuedAt,
+              quote_expires_at: expiresAt.toISOString()
+            },
+            followUpCadence,
+            0
+          )
+        : { follow_up_step: 0, follow_up_due_at: followUpDueAt.toISOString(), follow_up_status: 'scheduled' as const }
+
+      const revisedMetadata: Record<string, any> = {
+        ...metadata,
+        pieces: documentPieces,
+        measurements: describeMeasurements(rating, 'lb_in'),
+        transit_label: transitLabel,
+        transit_estimate: {
+          min: minDays,
+          max: maxDays,
+          average: Math.round((minDays + maxDays) / 2),
+          label: transitLabel
+        },
+        follow_up_due_at: followUpSchedule.follow_up_due_at,
+        call_to_action: quoteAcceptUrl(baseReference),
+        weight: {
+          actual: roundToTwo(rating.weight.actual),
+          billable: roundToTwo(rating.weight.billable),
+          dimensional: rating.weight.dimensional ? roundToTwo(rating.weight.dimensional) : null,
+          rate_per_lb: rateBreakdown.ratePerLb
+        },
+        pricing: {
+          source: rating.tier.source,
+          pricing_rule_id: rating.tier.ruleId,
+          rule_effective_date: rating.tier.effectiveDate,
+          tier_weight_min: rating.tier.weightMin,
+          tier_weight_max: rating.tier.weightMax,
+          rated_at: issuedAt
+        },
+        rate_breakdown: rateBreakdown,
+        accessorial_request: accessorialRequest,
+        manual_adjustment: adjustment,
+        fx: fxSnapshot ? { ...fxSnapshot, local_total: convertFromUsd(rateBreakdown.totalCost, fxSnapshot) } : null,
+        calculation_validated_at: issuedAt
+      }
+
+      const revisedQuote: Record<string, any> = {
+        customer_id: quote.customer_id,
+        email: quote.email,
+        full_name: quote.full_name,
+        phone: quote.phone,
+        destination_id: quote.destination_id,
+        weight_lbs: roundToTwo(rating.weight.actual),
+        length_inches: side(singlePiece?.length),
+        width_inches: side(singlePiece?.width),
+        height_inches: side(singlePiece?.height),
+        service_type: serviceType,
+        declared_value: roundToTwo(declaredValue),
+        base_shipping_cost: rateBreakdown.baseShippingCost,
+        consolidation_fee: rateBreakdown.consolidationFee,
+        handling_fee: rateBreakdown.handlingFee,
+        insurance_cost: rateBreakdown.insuranceCost,
+        total_cost: rateBreakdown.totalCost,
+        estimated_transit_days: Math.round((minDays + maxDays) / 2),
+        special_instructions: quote.special_instructions,
+        status: 'pending',
+        quote_expires_at: expiresAt.toISOString(),
+        created_at: issuedAt,
+        quote_reference: quoteReference,
+        base_reference: baseReference,
+        revision_number: revisionNumber,
+        supersedes_quote_id: quote.id,
+        is_latest_revision: true,
+        revised_by: authResult.user.id,
+        revision_reason: payload.reason?.trim() || null,
+        quote_document_html: quoteDocumentHtml,
+        ...followUpSchedule,
+        follow_up_cadence_id: followUpCadence?.id ?? null,
+        follow_up_paused: Boolean(quote.follow_up_paused),
+        last_follow_up_at: null,
+        follow_up_method: 'email',
+        pdf_attachment_present: false
+      }
+
+      const revisionChanges = diffQuoteRevisions(quote, { ...revisedQuote, quote_metadata: revisedMetadata })
+      if (revisionChanges.length === 0) {
+        return createErrorResponse('NO_CHANGES', 'The revision does not change the quote.', 400)
+      }
+      revisedQuote.quote_metadata = {
+        ...revisedMetadata,
+        revision: {
+          number: revisionNumber,
+          previous_quote_id: quote.id,
+          previous_reference: quote.quote_reference,
+          reason: revisedQuote.revision_reason,
+          changes: revisionChanges,
+          revised_at: issuedAt
+        }
+      }
+
+      // Retire the current revision first; only one row per reference may be latest
+      const retireResponse = await fetch(
+        `${supabaseUrl}/rest/v1/shipping_quotes?id=eq.${quote.id}&is_latest_revision=is.true`,
+        {
+          method: 'PATCH',
+          headers: restHeaders(serviceRoleKey, { Prefer: 'return=representation' }),
+          body: JSON.stringify({
+            is_latest_revision: false,
+            base_reference: baseReference,
+            follow_up_status: 'superseded'
+          })
+        }
+      )
+      const retired = retireResponse.ok ? await retireResponse.json() : []
+      if (!retired.length) {
+        return createErrorResponse('INVALID_STATE', 'The quote was revised by someone else. Refresh and try again.', 409)
+      }
+
+      const insertResponse = await fetch(`${supabaseUrl}/rest/v1/shipping_quotes`, {
+        method: 'POST',
+        headers: restHeaders(serviceRoleKey, { Prefer: 'return=representation' }),
+        body: JSON.stringify(revisedQuote)
+      })
+      if (!insertResponse.ok) {
+        const errorText = await insertResponse.text()
+        console.error('Failed to save quote revision:', errorText)
+        await fetch(`${supabaseUrl}/rest/v1/shipping_quotes?id=eq.${quote.id}`, {
+          method: 'PATCH',
+          headers: restHeaders(serviceRoleKey),
+          body: JSON.stringify({ is_latest_revision: true, follow_up_status: quote.follow_up_status })
+        })
+        return createErrorResponse('REVISION_FAILED', 'Failed to save quote revision.')
+      }
+      const rows = await insertResponse.json()
+
+      logAdminAction('QUOTE_REVISED', authResult.user, {
+        quote_id: quote.id,
+        revision_id: rows[0]?.id,
+        quote_reference: quoteReference,
+        changes: revisionChanges.map((change) => change.field)
+      })
+
+      return createSuccessResponse({ quote: rows[0] ?? null, changes: revisionChanges })
+    }
+
+    return createErrorResponse('VALIDATION_ERROR', `Unknown action: ${action}`, 400)
+  } catch (error) {
+    console.error('admin-quote-revisions error:', error)
+    const message = error instanceof Error ? error.message : 'Unexpected error revising quote.'
+    return createErrorResponse('UNEXPECTED_ERROR', message)
+  }
+})
@@ -1,5 +1,6 @@
 import { verifyAdminAccess, handleOptions, createErrorResponse, createSuccessResponse, logAdminAction } from '../_shared/auth-utils.ts';
 import { corsHeaders } from '../_shared/cors-utils.ts';
+import { LOST_REASONS, parseDeclineReason, parseLostReason } from '../_shared/quote-decision-utils.ts';
 
 Deno.serve(async (req) => {
     if (req.method === 'OPTIONS') {
@@ -32,7 +33,7 @@ Deno.serve(async (req) => {
             return createErrorResponse('INVALID_REQUEST', 'Invalid JSON in request body', 400);
         }
 
-        const { quote_id, status } = requestData;
+        const { quote_id, status, lost_reason, lost_reason_detail } = requestData;
 
         if (!quote_id || !status) {
             return createErrorResponse('VALIDATION_ERROR', 'Quote ID and status are required', 400);
@@ -50,29 +51,60 @@ Deno.serve(async (req) => {
             return createErrorResponse('VALIDATION_ERROR', `Invalid status. Must be one of: ${validStatuses.join(', ')}`, 400);
         }
 
+        // Losses need a structured reason for win/loss reporting
+        const lostReason = parseLostReason(lost_reason);
+        const lostReasonDetail = parseDeclineReason(lost_reason_detail);
+        if (status === 'lost' && !lostReason) {
+            return createErrorResponse('VALIDATION_ERROR', `A lost reason is required. Must be one of: ${LOST_REASONS.join(', ')}`, 400);
+        }
+        if (lostReason === 'other' && !lostReasonDetail) {
+            return createErrorResponse('VALIDATION_ERROR', 'Please describe the reason when choosing "other"', 400);
+        }
+
+        const headers = {
+            'Authorization': `Bearer ${serviceRoleKey}`,
+            'apikey': serviceRoleKey,
+            'Content-Type': 'application/json'
+        };
+
+        const currentResponse = await fetch(
+            `${supabaseUrl}/rest/v1/shipping_quotes?id=eq.${quoteId}&select=id,status,accepted_at`,
+            { headers }
+        );
+        const currentRows = currentResponse.ok ? await currentResponse.json() : [];
+        const currentQuote = currentRows[0];
+        if (!currentQuote) {
+            return createErrorResponse('NOT_FOUND', 'Quote not found', 404);
+        }
+
+        const now = new Date().toISOString();
+        const changes: Record<string, unknown> = { status };
+        if (status === 'lost') {
+            Object.assign(changes, { lost_reason: lostReason, lost_reason_detail: lostReasonDetail, lost_at: now });
+        } else {
+            Object.assign(changes, { lost_reason: null, lost_reason_detail: null, lost_at: null });
+        }
+        // Wins recorded by staff (phone, walk-in) still count toward time-to-decision
+        if (status === 'won' && !currentQuote.accepted_at) {
+            changes.accepted_at = now;
+        }
+
         // Log admin action for audit trail
         logAdminAction('QUOTE_STATUS_UPDATE', authResult.user!, {
             quote_id: quoteId,
-            new_status: status
+            new_status: status,
+            lost_reason: lostReason
         });
 
         console.log(`Admin ${authResult.user!.email} updating quote ${quoteId} to status: ${status}`);
 
         // Update quote status using service role (bypasses RLS)
-        // Only update status field (don't include updated_at if it doesn't exist)
         const updateResponse = await fetch(
             `${supabaseUrl}/rest/v1/shipping_quotes?id=eq.${quoteId}`,
             {
                 method: 'PATCH',
-                headers: {
-                    'Authorization': `Bearer ${serviceRoleKey}`,
-                    'apikey': serviceRoleKey,
-                    'Content-Type': 'application/json',
-                    'Prefer': 'return=representation'
-                },
-                body: JSON.stringify({ 
-                    status
-                })
+                headers: { ...headers, 'Prefer': 'return=representation' },
+                body: JSON.stringify(changes)
             }
         );
 
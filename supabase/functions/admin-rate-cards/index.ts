@@ -0,0 +1,384 @@
+import {
+  createErrorResponse,
+  createSuccessResponse,
+  handleOptions,
+  logAdminAction,
+  verifyAdminAccess
+} from '../_shared/auth-utils.ts'
+import {
+  fetchEffectivePricingRules,
+  rateCardTiersToRules,
+  repriceQuote,
+  validateRateCardTiers,
+  type RateCardTier
+} from '../_shared/rating-utils.ts'
+
+type RateCardAction = 'list' | 'save_draft' | 'preview' | 'publish' | 'discard' | 'update_divisors'
+
+interface RequestPayload {
+  action?: RateCardAction
+  destination_id?: number
+  version_id?: number
+  tiers?: RateCardTier[]
+  notes?: string
+  effective_date?: string
+  sample_size?: number
+  dim_divisor_standard?: number
+  dim_divisor_express?: number | null
+}
+
+const PREVIEW_SAMPLE_DEFAULT = 25
+const PREVIEW_SAMPLE_MAX = 100
+
+function restHeaders(serviceRoleKey: string, extra: Record<string, string> = {}) {
+  return {
+    Authorization: `Bearer ${serviceRoleKey}`,
+    apikey: serviceRoleKey,
+    'Content-Type': 'application/json',
+    ...extra
+  }
+}
+
+function normalizeTiers(tiers: unknown): RateCardTier[] {
+  if (!Array.isArray(tiers)) return []
+  return tiers.map((tier: any) => ({
+    service_type: tier?.service_type === 'express' ? 'express' : 'standard',
+    weight_min: Number(tier?.weight_min),
+    weight_max: tier?.weight_max === null || tier?.weight_max === '' || tier?.weight_max === undefined
+      ? null
+      : Number(tier.weight_max),
+    rate_per_lb: Number(tier?.rate_per_lb),
+    express_surcharge_percent:
+      tier?.express_surcharge_percent === null || tier?.express_surcharge_percent === '' || tier?.express_surcharge_percent === undefined
+        ? null
+        : Number(tier.express_surcharge_percent)
+  }))
+}
+
+async function fetchDestination(supabaseUrl: string, serviceRoleKey: string, destinationId: number) {
+  const response = await fetch(
+    `${supabaseUrl}/rest/v1/destinations?id=eq.${destinationId}&select=*`,
+    { headers: restHeaders(serviceRoleKey) }
+  )
+  if (!response.ok) {
+    throw new Error('Failed to load destination.')
+  }
+  const rows = await response.json()
+  return Array.isArray(rows) && rows.length > 0 ? rows[0] : null
+}
+
+async function fetchVersion(supabaseUrl: string, serviceRoleKey: string, versionId: number) {
+  const response = await fetch(
+    `${supabaseUrl}/rest/v1/rate_card_versions?id=eq.${versionId}&select=*`,
+    { headers: restHeaders(serviceRoleKey) }
+  )
+  if (!response.ok) {
+    throw new Error('Failed to load rate card version.')
+  }
+  const rows = await response.json()
+  return Array.isArray(rows) && rows.length > 0 ? rows[0] : null
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return handleOptions()
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+
+    if (!supabaseUrl || !serviceRoleKey) {
+      return createErrorResponse('CONFIG_MISSING', 'Supabase configuration is missing.')
+    }
+
+    const authHeader = req.headers.get('authorization') ?? req.headers.get('Authorization')
+    if (!authHeader) {
+      return createErrorResponse('UNAUTHORIZED', 'Authorization header is required.', 401)
+    }
+
+    const authResult = await verifyAdminAccess(authHeader, supabaseUrl, serviceRoleKey)
+    if (!authResult.success || !authResult.user) {
+      return createErrorResponse('FORBIDDEN', authResult.error || 'Admin access required.', 403)
+    }
+
+    const payload: RequestPayload = await req.json().catch(() => ({}))
+    const action = payload.action ?? 'list'
+
+    if (action === 'list') {
+      const destinationsResponse = await fetch(
+        `${supabaseUrl}/rest/v1/destinations?select=*&order=country_name.asc`,
+        { headers: restHeaders(serviceRoleKey) }
+      )
+      if (!destinationsResponse.ok) {
+        return createErrorResponse('RATE_CARD_LIST_FAILED', 'Failed to load destinations.')
+      }
+      const destinations = await destinationsResponse.json()
+
+      if (!payload.destination_id) {
+        return createSuccessResponse({ destinations, versions: [], active_rules: [] })
+      }
+
+      // Retire versions a later card has taken over from since the last visit
+      const settleResponse = await fetch(`${supabaseUrl}/rest/v1/rpc/settle_rate_card_versions`, {
+        method: 'POST',
+        headers: restHeaders(serviceRoleKey),
+        body: JSON.stringify({ p_destination_id: payload.destination_id })
+      })
+      if (!settleResponse.ok) {
+        console.error('Failed to settle rate card versions:', await settleResponse.text())
+      }
+
+      const [versionsResponse, activeRules] = await Promise.all([
+        fetch(
+          `${supabaseUrl}/rest/v1/rate_card_versions?destination_id=eq.${payload.destination_id}&select=*&order=version_number.desc`,
+          { headers: restHeaders(serviceRoleKey) }
+        ),
+        fetchEffectivePricingRules(supabaseUrl, serviceRoleKey, payload.destination_id)
+      ])
+
+      if (!versionsResponse.ok) {
+        return createErrorResponse('RATE_CARD_LIST_FAILED', 'Failed to load rate card versions.')
+      }
+
+      return createSuccessResponse({
+        destinations,
+        versions: await versionsResponse.json(),
+        active_rules: activeRules
+      })
+    }
+
+    if (!payload.destination_id) {
+      return createErrorResponse('VALIDATION_ERROR', 'destination_id is required.', 400)
+    }
+
+    if (action === 'save_draft') {
+      const tiers = normalizeTiers(payload.tiers)
+      const errors = validateRateCardTiers(tiers)
+      if (errors.length) {
+        return createErrorResponse('VALIDATION_ERROR', errors.join('; '), 400)
+      }
+
+      if (payload.version_id) {
+        const existing = await fetchVersion(supabaseUrl, serviceRoleKey, payload.version_id)
+        if (!existing || existing.destination_id !== payload.destination_id) {
+          return createErrorResponse('NOT_FOUND', 'Rate card version not found.', 404)
+        }
+        if (existing.status !== 'draft') {
+          return createErrorResponse('INVALID_STATE', 'Only drafts can be edited. Save as a new draft instead.', 409)
+        }
+
+        const updateResponse = await fetch(
+          `${supabaseUrl}/rest/v1/rate_card_versions?id=eq.${payload.version_id}`,
+          {
+            method: 'PATCH',
+            headers: restHeaders(serviceRoleKey, { Prefer: 'return=representation' }),
+            body: JSON.stringify({ tiers, notes: payload.notes ?? existing.notes, updated_at: new Date().toISOString() })
+          }
+        )
+        if (!updateResponse.ok) {
+          console.error('Failed to update rate card draft:', await updateResponse.text())
+          return createErrorResponse('RATE_CARD_SAVE_FAILED', 'Failed to save rate card draft.')
+        }
+
+        const [version] = await updateResponse.json()
+        logAdminAction('RATE_CARD_DRAFT_UPDATED', authResult.user, { version_id: version.id })
+        return createSuccessResponse({ version })
+      }
+
+      const latestResponse = await fetch(
+        `${supabaseUrl}/rest/v1/rate_card_versions?destination_id=eq.${payload.destination_id}&select=version_number&order=version_number.desc&limit=1`,
+        { headers: restHeaders(serviceRoleKey) }
+      )
+      const latest = latestResponse.ok ? await latestResponse.json() : []
+      const nextVersion = (latest[0]?.version_number ?? 0) + 1
+
+      const insertResponse = await fetch(`${supabaseUrl}/rest/v1/rate_card_versions`, {
+        method: 'POST',
+        headers: restHeaders(serviceRoleKey, { Prefer: 'return=representation' }),
+        body: JSON.stringify({
+          destination_id: payload.destination_id,
+          version_number: nextVersion,
+          status: 'draft',
+          tiers,
+          notes: payload.notes ?? null,
+          created_by: authResult.user.id
+        })
+      })
+      if (!insertResponse.ok) {
+        console.error('Failed to create rate card draft:', await insertResponse.text())
+        return createErrorResponse('RATE_CARD_SAVE_FAILED', 'Failed to save rate card draft.')
+      }
+
+      const [version] = await insertResponse.json()
+      logAdminAction('RATE_CARD_DRAFT_CREATED', authResult.user, {
+        destination_id: payload.destination_id,
+        version_id: version.id,
+        version_number: nextVersion
+      })
+      return createSuccessResponse({ version })
+    }
+
+    if (action === 'preview') {
+      let tiers = normalizeTiers(payload.tiers)
+      if (!tiers.length && payload.version_id) {
+        const version = await fetchVersion(supabaseUrl, serviceRoleKey, payload.version_id)
+        tiers = normalizeTiers(version?.tiers)
+      }
+
+      const errors = validateRateCardTiers(tiers)
+      if (errors.length) {
+        return createErrorResponse('VALIDATION_ERROR', errors.join('; '), 400)
+      }
+
+      const destination = await fetchDestination(supabaseUrl, serviceRoleKey, payload.destination_id)
+      if (!destination) {
+        return createErrorResponse('NOT_FOUND', 'Destination not found.', 404)
+      }
+
+      const sampleSize = Math.min(
+        Math.max(Number(payload.sample_size) || PREVIEW_SAMPLE_DEFAULT, 1),
+        PREVIEW_SAMPLE_MAX
+      )
+      const quotesResponse = await fetch(
+        `${supabaseUrl}/rest/v1/shipping_quotes?destination_id=eq.${payload.destination_id}` +
+          `&select=id,quote_reference,service_type,weight_lbs,base_shipping_cost,total_cost,created_at,quote_metadata` +
+          `&order=created_at.desc&limit=${sampleSize}`,
+        { headers: restHeaders(serviceRoleKey) }
+      )
+      if (!quotesResponse.ok) {
+        return createErrorResponse('RATE_CARD_PREVIEW_FAILED', 'Failed to load sample quotes.')
+      }
+      const sampleQuotes = await quotesResponse.json()
+
+      const at = new Date()
+      const currentRules = await fetchEffectivePricingRules(supabaseUrl, serviceRoleKey, payload.destination_id, at)
+      const proposedRules = rateCardTiersToRules(tiers, payload.destination_id, at)
+
+      const samples = (Array.isArray(sampleQuotes) ? sampleQuotes : []).map((quote) =>
+        repriceQuote(quote, destination, currentRules, proposedRules, {
+          destinationId: payload.destination_id as number,
+          at
+        })
+      )
+
+      const totalCurrent = samples.reduce((sum, sample) => sum + sample.currentBaseCost, 0)
+      const totalProposed = samples.reduce((sum, sample) => sum + sample.proposedBaseCost, 0)
+
+      return createSuccessResponse({
+        samples,
+        summary: {
+          sample_count: samples.length,
+          increased: samples.filter((sample) => sample.delta > 0).length,
+          decreased: samples.filter((sample) => sample.delta < 0).length,
+          unchanged: samples.filter((sample) => sample.delta === 0).length,
+          total_current: parseFloat(totalCurrent.toFixed(2)),
+          total_proposed: parseFloat(totalProposed.toFixed(2)),
+          total_delta: parseFloat((totalProposed - totalCurrent).toFixed(2))
+        }
+      })
+    }
+
+    if (!payload.version_id) {
+      return createErrorResponse('VALIDATION_ERROR', 'version_id is required.', 400)
+    }
+
+    if (action === 'publish') {
+      const effectiveDate = payload.effective_date ? new Date(payload.effective_date) : new Date()
+      if (Number.isNaN(effectiveDate.getTime())) {
+        return createErrorResponse('VALIDATION_ERROR', 'effective_date must be a valid date.', 400)
+      }
+
+      const version = await fetchVersion(supabaseUrl, serviceRoleKey, payload.version_id)
+      if (!version || version.destination_id !== payload.destination_id) {
+        return createErrorResponse('NOT_FOUND', 'Rate card version not found.', 404)
+      }
+
+      const errors = validateRateCardTiers(normalizeTiers(version.tiers))
+      if (errors.length) {
+        return createErrorResponse('VALIDATION_ERROR', errors.join('; '), 400)
+      }
+
+      const publishResponse = await fetch(`${supabaseUrl}/rest/v1/rpc/publish_rate_card_version`, {
+        method: 'POST',
+        headers: restHeaders(serviceRoleKey),
+        body: JSON.stringify({
+          p_version_id: payload.version_id,
+          p_effective_date: effectiveDate.toISOString(),
+          p_published_by: authResult.user.id
+        })
+      })
+
+      if (!publishResponse.ok) {
+        const errorText = await publishResponse.text()
+        console.error('Failed to publish rate card:', errorText)
+        return createErrorResponse('RATE_CARD_PUBLISH_FAILED', 'Failed to publish rate card.')
+      }
+
+      const published = await publishResponse.json()
+      logAdminAction('RATE_CARD_PUBLISHED', authResult.user, {
+        destination_id: payload.destination_id,
+        version_id: payload.version_id,
+        effective_date: effectiveDate.toISOString()
+      })
+      return createSuccessResponse({ version: published })
+    }
+
+    if (action === 'discard') {
+      const discardResponse = await fetch(
+        `${supabaseUrl}/rest/v1/rate_card_versions?id=eq.${payload.version_id}&status=eq.draft`,
+        {
+          method: 'PATCH',
+          headers: restHeaders(serviceRoleKey, { Prefer: 'return=representation' }),
+          body: JSON.stringify({ status: 'discarded', updated_at: new Date().toISOString() })
+        }
+      )
+      if (!discardResponse.ok) {
+        return createErrorResponse('RATE_CARD_DISCARD_FAILED', 'Failed to discard draft.')
+      }
+      const rows = await discardResponse.json()
+      if (!rows.length) {
+        return createErrorResponse('INVALID_STATE', 'Only drafts can be discarded.', 409)
+      }
+      logAdminAction('RATE_CARD_DRAFT_DISCARDED', authResult.user, { version_id: payload.version_id })
+      return createSuccessResponse({ version: rows[0] })
+    }
+
+    if (action === 'update_divisors') {
+      const standard = Number(payload.dim_divisor_standard)
+      const express =
+        payload.dim_divisor_express === null || payload.dim_divisor_express === undefined
+          ? null
+          : Number(payload.dim_divisor_express)
+      if (!Number.isFinite(standard) || standard <= 0 || (express !== null && (!Number.isFinite(express) || express <= 0))) {
+        return createErrorResponse('VALIDATION_ERROR', 'Dimensional divisors must be greater than zero.', 400)
+      }
+
+      const updateResponse = await fetch(
+        `${supabaseUrl}/rest/v1/destinations?id=eq.${payload.destination_id}`,
+        {
+          method: 'PATCH',
+          headers: restHeaders(serviceRoleKey, { Prefer: 'return=representation' }),
+          body: JSON.stringify({ dim_divisor_standard: standard, dim_divisor_express: express })
+        }
+      )
+      if (!updateResponse.ok) {
+        console.error('Failed to update dimensional divisors:', await updateResponse.text())
+        return createErrorResponse('DIVISOR_UPDATE_FAILED', 'Failed to update dimensional divisors.')
+      }
+      const rows = await updateResponse.json()
+      logAdminAction('DIM_DIVISORS_UPDATED', authResult.user, {
+        destination_id: payload.destination_id,
+        dim_divisor_standard: standard,
+        dim_divisor_express: express
+      })
+      return createSuccessResponse({ destination: rows[0] ?? null })
+    }
+
+    return createErrorResponse('VALIDATION_ERROR', `Unknown action: ${action}`, 400)
+  } catch (error) {
+    console.error('admin-rate-cards error:', error)
+    const message = error instanceof Error ? error.message : 'Unexpected error managing rate cards.'
+    return createErrorResponse('UNEXPECTED_ERROR', message)
+  }
+})
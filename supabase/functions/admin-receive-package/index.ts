@@ -7,12 +7,56 @@ import {
 } from '../_shared/auth-utils.ts'
 import { sendEmail, generateNotificationEmail, generateNotificationText } from '../_shared/email-utils.ts'
 import { formatWhatsAppNumber, sendWhatsAppMessage } from '../_shared/whatsapp-utils.ts'
+import {
+  packagePhotoPath,
+  parsePackagePhotos,
+  uploadPackagePhoto,
+  type PackagePhoto
+} from '../_shared/package-photo-utils.ts'
+import { canAccessFacility, loadFacilityScope } from '../_shared/facility-utils.ts'
+import {
+  arrivedAsExpectedSummary,
+  indexPreAlerts,
+  normalizePreAlertTracking,
+  preAlertPackageFields,
+  type PreAlert
+} from '../_shared/pre-alert-utils.ts'
 
 type PackageInput = {
   trackingNumber?: unknown
   notes?: unknown
   weight?: unknown
   carrier?: unknown
+  dimensions?: unknown
+  photos?: unknown
+  /** Set when assigning a package from the unidentified queue */
+  unidentifiedPackageId?: unknown
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+type Dimensions = { length: number; width: number; height: number }
+
+const positiveNumber = (value: unknown): number | null => {
+  const parsed = typeof value === 'string' && value.trim() !== '' ? Number(value) : value
+  return typeof parsed === 'number' && Number.isFinite(parsed) && parsed > 0 ? parsed : null
+}
+
+/** All three sides in inches, or none. */
+function parseDimensions(value: unknown): { dimensions: Dimensions | null } | { error: string } {
+  if (value === undefined || value === null) {
+    return { dimensions: null }
+  }
+  const source = (typeof value === 'object' ? value : {}) as Record<string, unknown>
+  const sides = [source.length, source.width, source.height]
+  if (sides.every((side) => side === undefined || side === null || side === '')) {
+    return { dimensions: null }
+  }
+  const [length, width, height] = sides.map(positiveNumber)
+  if (length === null || width === null || height === null) {
+    return { error: 'Dimensions need a length, width and height greater than zero.' }
+  }
+  return { dimensions: { length, width, height } }
 }
 
 type RequestPayload = {
@@ -20,6 +64,146 @@ type RequestPayload = {
   packages?: unknown
 }
 
+/**
+ * Upload the photos taken at the receiving station and record them. A failed
+ * upload is reported back to staff but never undoes the receipt.
+ */
+async function storePackagePhotos(
+  supabaseUrl: string,
+  serviceRoleKey: string,
+  insertedPackages: { id: string; user_id: string; tracking_number: string }[],
+  details: Map<string, { photos: PackagePhoto[] }>,
+  capturedBy: string
+) {
+  const result = { stored: 0, failed: 0 }
+  for (const pkg of insertedPackages) {
+    const photos = details.get(pkg.tracking_number)?.photos ?? []
+    const records: Record<string, unknown>[] = []
+    for (const [index, photo] of photos.entries()) {
+      const path = packagePhotoPath(pkg.user_id, pkg.id, index, photo.extension)
+      try {
+        await uploadPackagePhoto(supabaseUrl, serviceRoleKey, path, photo)
+        records.push({
+          package_id: pkg.id,
+          storage_path: path,
+          content_type: photo.contentType,
+          size_bytes: photo.bytes.length,
+          captured_by: capturedBy
+        })
+      } catch (uploadError) {
+        console.error('Failed to upload package photo:', uploadError)
+        result.failed += 1
+      }
+    }
+    if (records.length === 0) continue
+
+    const headers = {
+      Authorization: `Bearer ${serviceRoleKey}`,
+      apikey: serviceRoleKey,
+      'Content-Type': 'application/json'
+    }
+    const recordResponse = await fetch(`${supabaseUrl}/rest/v1/received_package_photos`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify(records)
+    })
+    if (!recordResponse.ok) {
+      console.error('Failed to record package photos:', recordResponse.status, await recordResponse.text())
+      result.failed += records.length
+      continue
+    }
+    result.stored += records.length
+
+    await fetch(`${supabaseUrl}/rest/v1/received_packages?id=eq.${pkg.id}`, {
+      method: 'PATCH',
+      headers,
+      body: JSON.stringify({ package_photo_url: records[0].storage_path })
+    }).catch((patchError) => console.error('Failed to set package cover photo:', patchError))
+  }
+  return result
+}
+
+async function loadOpenPreAlerts(
+  supabaseUrl: string,
+  serviceRoleKey: string,
+  userId: string,
+  trackingNumbers: string[]
+): Promise<PreAlert[]> {
+  const inList = trackingNumbers.map((tracking) => `"${normalizePreAlertTracking(tracking)}"`).join(',')
+  const response = await fetch(
+    `${supabaseUrl}/rest/v1/package_pre_alerts?user_id=eq.${userId}&status=eq.pending&tracking_number=in.(${encodeURIComponent(inList)})&select=id,tracking_number,retailer,contents,declared_value`,
+    {
+      headers: {
+        Authorization: `Bearer ${serviceRoleKey}`,
+        apikey: serviceRoleKey
+      }
+    }
+  )
+  if (!response.ok) {
+    // Receiving must not stop over pre-alerts; the packages are flagged unmatched instead
+    console.error('Failed to load pre-alerts:', response.status, await response.text())
+    return []
+  }
+  const rows = await response.json()
+  return Array.isArray(rows) ? rows : []
+}
+
+async function markPreAlertsReceived(
+  supabaseUrl: string,
+  serviceRoleKey: string,
+  insertedPackages: { id: string; pre_alert_id?: string | null }[]
+) {
+  const matchedAt = new Date().toISOString()
+  for (const pkg of insertedPackages) {
+    if (!pkg.pre_alert_id) continue
+    const response = await fetch(`${supabaseUrl}/rest/v1/package_pre_alerts?id=eq.${pkg.pre_alert_id}`, {
+      method: 'PATCH',
+      headers: {
+        Authorization: `Bearer ${serviceRoleKey}`,
+        apikey: serviceRoleKey,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({ status: 'received', received_package_id: pkg.id, matched_at: matchedAt })
+    })
+    if (!response.ok) {
+      console.error('Failed to mark pre-alert received:', response.status, await response.text())
+    }
+  }
+}
+
+async function markUnidentifiedAssigned(
+  supabaseUrl: string,
+  serviceRoleKey: string,
+  insertedPackages: { id: string; tracking_number: string }[],
+  details: Map<string, { unidentifiedPackageId: string | null }>,
+  mailboxId: number,
+  assignedBy: string
+) {
+  const assignedAt = new Date().toISOString()
+  for (const pkg of insertedPackages) {
+    const heldId = details.get(pkg.tracking_number)?.unidentifiedPackageId
+    if (!heldId) continue
+    const response = await fetch(`${supabaseUrl}/rest/v1/unidentified_packages?id=eq.${heldId}&status=eq.unassigned`, {
+      method: 'PATCH',
+      headers: {
+        Authorization: `Bearer ${serviceRoleKey}`,
+        apikey: serviceRoleKey,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({
+        status: 'assigned',
+        received_package_id: pkg.id,
+        assigned_mailbox_id: mailboxId,
+        assigned_by: assignedBy,
+        assigned_at: assignedAt
+      })
+    })
+    if (!response.ok) {
+      console.error('Failed to mark unidentified package assigned:', response.status, await response.text())
+    }
+  }
+}
+
 Deno.serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return handleOptions()
@@ -60,7 +244,14 @@ Deno.serve(async (req) => {
     }
 
     const mailboxNumber = rawMailboxNumber.toUpperCase()
-    const uniquePackages = new Map<string, { notes: string | null; weight: number | null; carrier: string | null }>()
+    const uniquePackages = new Map<string, {
+      notes: string | null
+      weight: number | null
+      carrier: string | null
+      dimensions: Dimensions | null
+      photos: PackagePhoto[]
+      unidentifiedPackageId: string | null
+    }>()
 
     for (const pkg of packagesInput) {
       const tracking = typeof pkg.trackingNumber === 'string' ? pkg.trackingNumber.trim() : ''
@@ -74,13 +265,26 @@ Deno.serve(async (req) => {
       }
 
       const notes = typeof pkg.notes === 'string' && pkg.notes.trim().length > 0 ? pkg.notes.trim() : null
-      const weightValue = typeof pkg.weight === 'number' && Number.isFinite(pkg.weight) ? pkg.weight : null
+      const weightValue = positiveNumber(pkg.weight)
+      const parsedDimensions = parseDimensions(pkg.dimensions)
+      if ('error' in parsedDimensions) {
+        return createErrorResponse('VALIDATION_ERROR', `${normalizedTracking}: ${parsedDimensions.error}`, 400)
+      }
       const carrier = typeof pkg.carrier === 'string' && pkg.carrier.trim().length > 0 ? pkg.carrier.trim() : null
+      const parsedPhotos = parsePackagePhotos(pkg.photos)
+      if ('error' in parsedPhotos) {
+        return createErrorResponse('VALIDATION_ERROR', `${normalizedTracking}: ${parsedPhotos.error}`, 400)
+      }
 
       uniquePackages.set(normalizedTracking, {
         notes,
         weight: weightValue,
-        carrier
+        carrier,
+        dimensions: parsedDimensions.dimensions,
+        photos: parsedPhotos.photos,
+        unidentifiedPackageId: typeof pkg.unidentifiedPackageId === 'string' && UUID_PATTERN.test(pkg.unidentifiedPackageId)
+          ? pkg.unidentifiedPackageId
+          : null
       })
     }
 
@@ -88,8 +292,33 @@ Deno.serve(async (req) => {
       return createErrorResponse('VALIDATION_ERROR', 'No valid packages were provided.', 400)
     }
 
+    const heldIds = Array.from(uniquePackages.values())
+      .map((details) => details.unidentifiedPackageId)
+      .filter((id): id is string => id !== null)
+    const heldRows = new Map<string, { id: string; tracking_number: string; facility_id: number }>()
+    if (heldIds.length > 0) {
+      const heldResponse = await fetch(
+        `${supabaseUrl}/rest/v1/unidentified_packages?id=in.(${heldIds.join(',')})&status=eq.unassigned&select=id,tracking_number,facility_id`,
+        {
+          headers: {
+            Authorization: `Bearer ${serviceRoleKey}`,
+            apikey: serviceRoleKey
+          }
+        }
+      )
+      const held = heldResponse.ok ? await heldResponse.json() : []
+      for (const row of Array.isArray(held) ? held : []) {
+        heldRows.set(row.id, row)
+      }
+      for (const [trackingNumber, details] of uniquePackages) {
+        if (details.unidentifiedPackageId && heldRows.get(details.unidentifiedPackageId)?.tracking_number !== trackingNumber) {
+          return createErrorResponse('CONFLICT', `${trackingNumber} is no longer waiting in the unidentified queue.`, 409)
+        }
+      }
+    }
+
     const mailboxResponse = await fetch(
-      `${supabaseUrl}/rest/v1/virtual_mailbox_details?select=id,user_id,mailbox_number,full_name,email&mailbox_number=eq.${encodeURIComponent(mailboxNumber)}`,
+      `${supabaseUrl}/rest/v1/virtual_mailbox_details?select=id,user_id,mailbox_number,full_name,email,facility_id&mailbox_number=eq.${encodeURIComponent(mailboxNumber)}`,
       {
         headers: {
           Authorization: `Bearer ${serviceRoleKey}`,
@@ -115,6 +344,23 @@ Deno.serve(async (req) => {
       mailbox_number: string
       full_name?: string | null
       email?: string | null
+      facility_id: number
+    }
+
+    // Packages are recorded where they physically are: the mailbox's facility,
+    // or wherever an unidentified package was held
+    const packageFacility = (details: { unidentifiedPackageId: string | null }) =>
+      (details.unidentifiedPackageId && heldRows.get(details.unidentifiedPackageId)?.facility_id) || mailbox.facility_id
+
+    const scope = await loadFacilityScope(supabaseUrl, serviceRoleKey, authResult.user.id)
+    for (const details of uniquePackages.values()) {
+      if (!canAccessFacility(scope, packageFacility(details))) {
+        return createErrorResponse(
+          'FORBIDDEN',
+          `Mailbox ${mailbox.mailbox_number} belongs to a facility you are not assigned to. Hold the package as unidentified instead.`,
+          403
+        )
+      }
     }
 
     let customerPhone: string | null = null
@@ -142,15 +388,22 @@ Deno.serve(async (req) => {
       console.warn('Failed to load customer phone for WhatsApp notification:', contactError)
     }
 
+    const preAlerts = indexPreAlerts(
+      await loadOpenPreAlerts(supabaseUrl, serviceRoleKey, mailbox.user_id, Array.from(uniquePackages.keys()))
+    )
+
     const packagesToInsert = Array.from(uniquePackages.entries()).map(([trackingNumber, details]) => ({
       user_id: mailbox.user_id,
       mailbox_id: mailbox.id,
+      facility_id: packageFacility(details),
       tracking_number: trackingNumber,
       notes: details.notes,
       weight: details.weight,
+      dimensions: details.dimensions,
       carrier: details.carrier,
       received_by: authResult.user!.id,
-      status: 'received_at_warehouse'
+      status: 'received_at_warehouse',
+      ...preAlertPackageFields(preAlerts.get(normalizePreAlertTracking(trackingNumber)))
     }))
 
     const insertResponse = await fetch(
@@ -182,20 +435,39 @@ Deno.serve(async (req) => {
       )
     }
 
+    await markPreAlertsReceived(supabaseUrl, serviceRoleKey, insertedPackages)
+    await markUnidentifiedAssigned(supabaseUrl, serviceRoleKey, insertedPackages, uniquePackages, mailbox.id, authResult.user!.id)
+
+    const photoCount = await storePackagePhotos(
+      supabaseUrl,
+      serviceRoleKey,
+      insertedPackages,
+      uniquePackages,
+      authResult.user!.id
+    )
+
     const trackingList = insertedPackages.map((pkg: { tracking_number: string }) => pkg.tracking_number).join(', ')
     const insertedCount = insertedPackages.length
+    const preAlerted = insertedPackages.filter((pkg: { pre_alert_match?: string }) => pkg.pre_alert_match === 'matched')
+    const allPreAlerted = preAlerted.length === insertedCount
+    const arrivedAsExpected = preAlerted.length > 0
+      ? ` ${allPreAlerted ? 'Arrived as expected' : 'Pre-alerted and arrived as expected'}: ${arrivedAsExpectedSummary(preAlerted)}.`
+      : ''
 
     logAdminAction('ADMIN_RECEIVE_PACKAGES', authResult.user!, {
       mailbox_id: mailbox.id,
       mailbox_number: mailbox.mailbox_number,
-      package_count: insertedCount
+      package_count: insertedCount,
+      photo_count: photoCount.stored
     })
 
     const notificationPayload = {
       user_id: mailbox.user_id,
       recipient_type: 'customer',
-      title: insertedCount === 1 ? 'Package Received' : 'Packages Received',
-      message: `We received ${insertedCount} package${insertedCount === 1 ? '' : 's'} for mailbox ${mailbox.mailbox_number}. Tracking: ${trackingList}`,
+      title: allPreAlerted
+        ? `${insertedCount === 1 ? 'Package' : 'Packages'} Arrived as Expected`
+        : insertedCount === 1 ? 'Package Received' : 'Packages Received',
+      message: `We received ${insertedCount} package${insertedCount === 1 ? '' : 's'} for mailbox ${mailbox.mailbox_number}. Tracking: ${trackingList}.${arrivedAsExpected}`,
       reference_type: 'received_package',
       reference_id: insertedPackages[0]?.id ?? null,
       priority: 'normal',
@@ -236,8 +508,10 @@ Deno.serve(async (req) => {
           }).join('\n')
 
           const notificationContent = {
-            title: insertedCount === 1 ? 'Package Received!' : `${insertedCount} Packages Received!`,
-            message: `Dear ${customerName}, we've successfully received ${insertedCount} package${insertedCount === 1 ? '' : 's'} for your mailbox ${mailbox.mailbox_number}. Your package${insertedCount === 1 ? ' is' : 's are'} now in our warehouse and ready for processing.`,
+            title: allPreAlerted
+              ? `${insertedCount === 1 ? 'Package' : `${insertedCount} Packages`} Arrived as Expected!`
+              : insertedCount === 1 ? 'Package Received!' : `${insertedCount} Packages Received!`,
+            message: `Dear ${customerName}, we've successfully received ${insertedCount} package${insertedCount === 1 ? '' : 's'} for your mailbox ${mailbox.mailbox_number}. Your package${insertedCount === 1 ? ' is' : 's are'} now in our warehouse and ready for processing.${arrivedAsExpected}`,
             actionText: 'View My Packages',
             actionUrl: 'https://www.qcs-cargo.com/dashboard',
             details: [
@@ -312,7 +586,15 @@ Deno.serve(async (req) => {
 
     return createSuccessResponse({
       message: `Successfully recorded ${insertedCount} package${insertedCount === 1 ? '' : 's'} for ${customerName}.`,
-      tracking_numbers: insertedPackages.map((pkg: { tracking_number: string }) => pkg.tracking_number)
+      tracking_numbers: insertedPackages.map((pkg: { tracking_number: string }) => pkg.tracking_number),
+      packages: insertedPackages.map((pkg: { id: string; tracking_number: string; label_code: string; pre_alert_match: string }) => ({
+        id: pkg.id,
+        tracking_number: pkg.tracking_number,
+        label_code: pkg.label_code,
+        pre_alert_match: pkg.pre_alert_match
+      })),
+      photos_stored: photoCount.stored,
+      photos_failed: photoCount.failed
     })
   } catch (error) {
     console.error('admin-receive-package error:', error)
@@ -1,4 +1,13 @@
 import { verifyAdminAccess, corsHeaders, handleOptions, createErrorResponse, createSuccessResponse, logAdminAction } from '../_shared/auth-utils.ts';
+import { buildConversionReport } from '../_shared/quote-conversion-utils.ts';
+import { buildAgedReceivables } from '../_shared/payment-utils.ts';
+import {
+    facilityQueryFilter,
+    loadFacilityScope,
+    resolveFacilityFilter,
+    summarizeFacilityPackages,
+    type FacilityScope
+} from '../_shared/facility-utils.ts';
 
 Deno.serve(async (req) => {
     if (req.method === 'OPTIONS') {
@@ -49,8 +58,17 @@ Deno.serve(async (req) => {
             throw new Error('Report type is required');
         }
 
+        // Staff assigned to facilities only report on those facilities
+        const facilityFilter = resolveFacilityFilter(
+            await loadFacilityScope(supabaseUrl, serviceRoleKey, authResult.user!.id),
+            filters.facility_id
+        );
+        if ('error' in facilityFilter) {
+            return createErrorResponse('FORBIDDEN', facilityFilter.error, 403);
+        }
+
         let reportData = {};
-        const cacheKey = `report_${report_type}_${JSON.stringify(date_range)}_${JSON.stringify(filters)}`;
+        const cacheKey = `report_${report_type}_${JSON.stringify(date_range)}_${JSON.stringify(filters)}_${JSON.stringify(facilityFilter.facilityIds)}`;
 
         // Check cache first
         const cacheResponse = await fetch(`${supabaseUrl}/rest/v1/analytics_cache?select=*&cache_key=eq.${cacheKey}&expires_at=gt.${new Date().toISOString()}`, {
@@ -110,6 +128,18 @@ Deno.serve(async (req) => {
             case 'geographic_analysis':
                 reportData = await generateGeographicAnalysis(supabaseUrl, serviceRoleKey, dateFilter, filters);
                 break;
+
+            case 'quote_conversion':
+                reportData = await generateQuoteConversion(supabaseUrl, serviceRoleKey, dateFilter, filters);
+                break;
+
+            case 'aged_receivables':
+                reportData = await generateAgedReceivables(supabaseUrl, serviceRoleKey);
+                break;
+
+            case 'facility_packages':
+                reportData = await generateFacilityPackages(supabaseUrl, serviceRoleKey, dateFilter, facilityFilter.facilityIds);
+                break;
             
             default:
                 throw new Error(`Unknown report type: ${report_type}`);
@@ -452,6 +482,136 @@ async function generateGeographicAnalysis(supabaseUrl: string, serviceRoleKey: s
     };
 }
 
+// PostgREST in.(...) lists are split so long date ranges stay within URL limits
+const IN_FILTER_BATCH = 100;
+
+async function fetchInBatches(values: string[], load: (list: string) => Promise<Response>, what: string) {
+    const rows: any[] = [];
+    for (let i = 0; i < values.length; i += IN_FILTER_BATCH) {
+        const response = await load(values.slice(i, i + IN_FILTER_BATCH).join(','));
+        if (!response.ok) {
+            throw new Error(`Failed to load ${what}: ${await response.text()}`);
+        }
+        rows.push(...await response.json());
+    }
+    return rows;
+}
+
+async function generateQuoteConversion(supabaseUrl: string, serviceRoleKey: string, dateFilter: string, filters: any) {
+    const headers = { 'Authorization': `Bearer ${serviceRoleKey}`, 'apikey': serviceRoleKey };
+
+    // Only the latest revision of each quote counts; earlier revisions were never decided on
+    let quoteQuery = `${supabaseUrl}/rest/v1/shipping_quotes?select=id,base_reference,destination_id,service_type,weight_lbs,status,created_at,quote_expires_at,accepted_at,lost_at,declined_at,lost_reason&is_latest_revision=eq.true${dateFilter}`;
+    if (filters.destination_id) {
+        quoteQuery += `&destination_id=eq.${Number(filters.destination_id)}`;
+    }
+    if (filters.service_type === 'standard' || filters.service_type === 'express') {
+        quoteQuery += `&service_type=eq.${filters.service_type}`;
+    }
+
+    const [quotesResponse, destinationsResponse] = await Promise.all([
+        fetch(quoteQuery, { headers }),
+        fetch(`${supabaseUrl}/rest/v1/destinations?select=id,country_name,city_name`, { headers })
+    ]);
+    if (!quotesResponse.ok || !destinationsResponse.ok) {
+        throw new Error('Failed to load quotes for conversion report');
+    }
+
+    const quotes = await quotesResponse.json();
+    const destinations = await destinationsResponse.json();
+
+    // Revising a quote inserts a new row, so age is measured from the first
+    // revision and follow-ups sent on any revision count for the latest one
+    const baseReferences = [...new Set<string>(quotes.map((q: any) => q.base_reference).filter(Boolean))];
+    const revisions = await fetchInBatches(
+        baseReferences.map((reference) => encodeURIComponent(`"${reference}"`)),
+        (list) => fetch(`${supabaseUrl}/rest/v1/shipping_quotes?select=id,base_reference,created_at&base_reference=in.(${list})`, { headers }),
+        'quote revisions'
+    );
+    const firstCreated = new Map<string, string>();
+    const revisionBase = new Map<number, string>();
+    for (const revision of revisions) {
+        revisionBase.set(revision.id, revision.base_reference);
+        const first = firstCreated.get(revision.base_reference);
+        if (!first || new Date(revision.created_at) < new Date(first)) {
+            firstCreated.set(revision.base_reference, revision.created_at);
+        }
+    }
+    const latestByBase = new Map<string, number>(quotes.filter((q: any) => q.base_reference).map((q: any) => [q.base_reference, q.id]));
+
+    const history = await fetchInBatches(
+        [...new Set<number>([...quotes.map((q: any) => q.id), ...revisionBase.keys()])].map(String),
+        (list) => fetch(`${supabaseUrl}/rest/v1/quote_follow_up_history?select=quote_id,status,created_at&status=eq.sent&quote_id=in.(${list})`, { headers }),
+        'follow-up history'
+    );
+
+    return buildConversionReport(
+        quotes.map((quote: any) => ({
+            ...quote,
+            first_created_at: quote.base_reference ? firstCreated.get(quote.base_reference) ?? null : null
+        })),
+        destinations,
+        history.map((entry: any) => {
+            const base = revisionBase.get(entry.quote_id);
+            return { ...entry, quote_id: (base && latestByBase.get(base)) ?? entry.quote_id };
+        })
+    );
+}
+
+// Open balances as of now; the date range does not apply
+async function generateAgedReceivables(supabaseUrl: string, serviceRoleKey: string) {
+    const headers = { 'Authorization': `Bearer ${serviceRoleKey}`, 'apikey': serviceRoleKey };
+
+    const [invoicesResponse, creditsResponse] = await Promise.all([
+        fetch(`${supabaseUrl}/rest/v1/invoices?select=id,invoice_number,customer_id,due_date,total_amount,amount_paid,amount_credited&document_type=eq.invoice&status=in.(sent,partially_paid)`, { headers }),
+        fetch(`${supabaseUrl}/rest/v1/customer_account_credits?select=amount`, { headers })
+    ]);
+    if (!invoicesResponse.ok || !creditsResponse.ok) {
+        throw new Error('Failed to load invoices for aged receivables');
+    }
+
+    const invoices = await invoicesResponse.json();
+    const credits = await creditsResponse.json();
+    const unappliedCredit = credits.reduce((sum: number, row: any) => sum + Number(row.amount), 0);
+
+    const customerNames = new Map<string, string>();
+    const customerIds = [...new Set(invoices.map((invoice: any) => invoice.customer_id))];
+    if (customerIds.length > 0) {
+        const profilesResponse = await fetch(
+            `${supabaseUrl}/rest/v1/user_profiles?select=user_id,first_name,last_name,company_name,email&user_id=in.(${customerIds.join(',')})`,
+            { headers }
+        );
+        if (profilesResponse.ok) {
+            for (const profile of await profilesResponse.json()) {
+                const name = profile.company_name || [profile.first_name, profile.last_name].filter(Boolean).join(' ') || profile.email;
+                customerNames.set(profile.user_id, name);
+            }
+        }
+    }
+
+    return buildAgedReceivables(invoices, customerNames, unappliedCredit);
+}
+
+async function generateFacilityPackages(supabaseUrl: string, serviceRoleKey: string, dateFilter: string, facilityIds: FacilityScope) {
+    const headers = { 'Authorization': `Bearer ${serviceRoleKey}`, 'apikey': serviceRoleKey };
+    const load = async (path: string) => {
+        const response = await fetch(`${supabaseUrl}/rest/v1/${path}`, { headers });
+        if (!response.ok) {
+            throw new Error(`Failed to load ${path.split('?')[0]}: ${await response.text()}`);
+        }
+        return response.json();
+    };
+
+    const [facilities, received, held, unidentified] = await Promise.all([
+        load(`facilities?select=id,code,name${facilityIds === null ? '' : `&id=in.(${facilityIds.join(',')})`}&order=id.asc`),
+        load(`received_packages?select=facility_id,status${dateFilter}${facilityQueryFilter(facilityIds)}`),
+        load(`received_packages?select=facility_id&status=in.(received_at_warehouse,pending_pickup)${facilityQueryFilter(facilityIds)}`),
+        load(`unidentified_packages?select=facility_id&status=eq.unassigned${facilityQueryFilter(facilityIds)}`)
+    ]);
+
+    return { facilities: summarizeFacilityPackages(facilities, received, held, unidentified) };
+}
+
 // Helper function to convert report data to CSV
 function convertToCSV(data: any): string {
     // Simple CSV conversion - in production, this would be more sophisticated
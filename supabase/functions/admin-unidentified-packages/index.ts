@@ -0,0 +1,231 @@
+import {
+  createErrorResponse,
+  createSuccessResponse,
+  handleOptions,
+  logAdminAction,
+  verifyAdminAccess
+} from '../_shared/auth-utils.ts'
+import {
+  hoursUnassigned,
+  parseHeldPackage,
+  unassignedStats,
+  unidentifiedSearchFilter,
+  type HeldPackage
+} from '../_shared/unidentified-package-utils.ts'
+import {
+  canAccessFacility,
+  facilityQueryFilter,
+  loadFacilityScope,
+  resolveFacilityFilter,
+  type FacilityScope
+} from '../_shared/facility-utils.ts'
+
+interface RequestPayload {
+  action?: 'list' | 'hold'
+  search?: unknown
+  status?: unknown
+  packages?: unknown
+  facility_id?: unknown
+}
+
+// A receiving batch without a suite number is rarely bigger than a pallet
+const MAX_HELD_PER_REQUEST = 50
+const LIST_LIMIT = 200
+
+const PACKAGE_SELECT =
+  'id,tracking_number,carrier,shipper_name,recipient_name,label_text,weight,dimensions,notes,status,created_at,assigned_at,received_package_id,facility_id,facilities(name),virtual_mailboxes:assigned_mailbox_id(mailbox_number)'
+
+function restHeaders(serviceRoleKey: string, extra: Record<string, string> = {}) {
+  return {
+    Authorization: `Bearer ${serviceRoleKey}`,
+    apikey: serviceRoleKey,
+    'Content-Type': 'application/json',
+    ...extra
+  }
+}
+
+async function fetchRows(supabaseUrl: string, serviceRoleKey: string, path: string) {
+  const response = await fetch(`${supabaseUrl}/rest/v1/${path}`, { headers: restHeaders(serviceRoleKey) })
+  if (!response.ok) {
+    throw new Error(`Failed to load ${path.split('?')[0]}: ${await response.text()}`)
+  }
+  const rows = await response.json()
+  return Array.isArray(rows) ? rows : []
+}
+
+async function handleList(supabaseUrl: string, serviceRoleKey: string, payload: RequestPayload, scope: FacilityScope) {
+  const facilityFilter = resolveFacilityFilter(scope, payload.facility_id)
+  if ('error' in facilityFilter) {
+    return createErrorResponse('FORBIDDEN', facilityFilter.error, 403)
+  }
+  const inFacilities = facilityQueryFilter(facilityFilter.facilityIds)
+
+  const status = payload.status === 'assigned' ? 'assigned' : 'unassigned'
+  const filters = [`status=eq.${status}`]
+  if (typeof payload.search === 'string' && payload.search.trim()) {
+    const search = unidentifiedSearchFilter(payload.search)
+    if (!search) {
+      return createErrorResponse('VALIDATION_ERROR', 'Search needs at least two letters or digits.', 400)
+    }
+    filters.push(`or=${encodeURIComponent(search)}`)
+  }
+  const order = status === 'assigned' ? 'assigned_at.desc' : 'created_at.asc'
+
+  const since = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString()
+  const [packages, open, recentlyAssigned] = await Promise.all([
+    fetchRows(
+      supabaseUrl,
+      serviceRoleKey,
+      `unidentified_packages?${filters.join('&')}${inFacilities}&select=${PACKAGE_SELECT}&order=${order}&limit=${LIST_LIMIT}`
+    ),
+    fetchRows(
+      supabaseUrl,
+      serviceRoleKey,
+      `unidentified_packages?status=eq.unassigned${inFacilities}&select=status,created_at,assigned_at`
+    ),
+    fetchRows(
+      supabaseUrl,
+      serviceRoleKey,
+      `unidentified_packages?status=eq.assigned&assigned_at=gte.${since}${inFacilities}&select=status,created_at,assigned_at`
+    )
+  ])
+
+  const now = new Date()
+  return createSuccessResponse({
+    packages: packages.map((pkg: any) => ({
+      ...pkg,
+      weight: pkg.weight === null ? null : Number(pkg.weight),
+      assigned_mailbox_number: pkg.virtual_mailboxes?.mailbox_number ?? null,
+      facility_name: pkg.facilities?.name ?? null,
+      virtual_mailboxes: undefined,
+      facilities: undefined,
+      hours_unassigned: hoursUnassigned(pkg, now)
+    })),
+    stats: unassignedStats([...open, ...recentlyAssigned], now)
+  })
+}
+
+// The requested facility, else the only one the staff member works at, else the default
+async function holdingFacility(
+  supabaseUrl: string,
+  serviceRoleKey: string,
+  requested: unknown,
+  scope: FacilityScope
+): Promise<number | null> {
+  const requestedId = Number(requested)
+  if (Number.isInteger(requestedId) && requestedId > 0) {
+    return requestedId
+  }
+  if (scope?.length === 1) {
+    return scope[0]
+  }
+  if (scope !== null) {
+    return null
+  }
+  const [facility] = await fetchRows(supabaseUrl, serviceRoleKey, 'facilities?is_default=eq.true&select=id&limit=1')
+  return facility?.id ?? null
+}
+
+async function handleHold(
+  supabaseUrl: string,
+  serviceRoleKey: string,
+  payload: RequestPayload,
+  admin: { id: string; email: string },
+  scope: FacilityScope
+) {
+  const facilityId = await holdingFacility(supabaseUrl, serviceRoleKey, payload.facility_id, scope)
+  if (facilityId === null) {
+    return createErrorResponse('VALIDATION_ERROR', 'Choose the facility holding these packages.', 400)
+  }
+  if (!canAccessFacility(scope, facilityId)) {
+    return createErrorResponse('FORBIDDEN', 'You are not assigned to that facility.', 403)
+  }
+
+  if (!Array.isArray(payload.packages) || payload.packages.length === 0) {
+    return createErrorResponse('VALIDATION_ERROR', 'At least one package is required.', 400)
+  }
+  if (payload.packages.length > MAX_HELD_PER_REQUEST) {
+    return createErrorResponse('VALIDATION_ERROR', `At most ${MAX_HELD_PER_REQUEST} packages can be held at once.`, 400)
+  }
+
+  const held = new Map<string, HeldPackage>()
+  for (const raw of payload.packages) {
+    const parsed = parseHeldPackage(raw)
+    if ('error' in parsed) {
+      return createErrorResponse('VALIDATION_ERROR', parsed.error, 400)
+    }
+    held.set(parsed.pkg.tracking_number, parsed.pkg)
+  }
+
+  // A tracking number already on someone's mailbox was not unidentified after all
+  const trackingList = Array.from(held.keys()).map((tracking) => `"${tracking}"`).join(',')
+  const alreadyReceived = await fetchRows(
+    supabaseUrl,
+    serviceRoleKey,
+    `received_packages?tracking_number=in.(${encodeURIComponent(trackingList)})&select=tracking_number`
+  )
+  const skipped = alreadyReceived.map((pkg: { tracking_number: string }) => pkg.tracking_number)
+  skipped.forEach((tracking) => held.delete(tracking))
+  if (held.size === 0) {
+    return createErrorResponse('DUPLICATE_PACKAGES', 'All provided tracking numbers have already been recorded.', 409)
+  }
+
+  const insertResponse = await fetch(`${supabaseUrl}/rest/v1/unidentified_packages?on_conflict=tracking_number`, {
+    method: 'POST',
+    headers: restHeaders(serviceRoleKey, { Prefer: 'return=representation,resolution=ignore-duplicates' }),
+    body: JSON.stringify(Array.from(held.values()).map((pkg) => ({ ...pkg, facility_id: facilityId, received_by: admin.id })))
+  })
+  if (!insertResponse.ok) {
+    throw new Error(`Failed to hold packages: ${await insertResponse.text()}`)
+  }
+  const inserted = await insertResponse.json()
+
+  logAdminAction('ADMIN_HOLD_UNIDENTIFIED_PACKAGES', admin, { package_count: inserted.length, facility_id: facilityId })
+
+  return createSuccessResponse({
+    message: `Holding ${inserted.length} unidentified package${inserted.length === 1 ? '' : 's'}.`,
+    packages: inserted.map((pkg: { id: string; tracking_number: string }) => ({ id: pkg.id, tracking_number: pkg.tracking_number })),
+    skipped
+  })
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return handleOptions()
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+
+    if (!supabaseUrl || !serviceRoleKey) {
+      return createErrorResponse('CONFIG_MISSING', 'Supabase configuration is missing.')
+    }
+
+    const authHeader = req.headers.get('authorization') ?? req.headers.get('Authorization')
+    if (!authHeader) {
+      return createErrorResponse('UNAUTHORIZED', 'Authorization header is required.', 401)
+    }
+
+    const authResult = await verifyAdminAccess(authHeader, supabaseUrl, serviceRoleKey)
+    if (!authResult.success || !authResult.user) {
+      return createErrorResponse('FORBIDDEN', authResult.error || 'Admin access required.', 403)
+    }
+
+    const payload: RequestPayload = await req.json().catch(() => ({}))
+    const action = payload.action ?? 'list'
+    const scope = await loadFacilityScope(supabaseUrl, serviceRoleKey, authResult.user.id)
+
+    if (action === 'list') {
+      return await handleList(supabaseUrl, serviceRoleKey, payload, scope)
+    }
+    if (action === 'hold') {
+      return await handleHold(supabaseUrl, serviceRoleKey, payload, authResult.user, scope)
+    }
+
+    return createErrorResponse('VALIDATION_ERROR', `Unknown action: ${action}`, 400)
+  } catch (error) {
+    console.error('admin-unidentified-packages error:', error)
+    return createErrorResponse('UNEXPECTED_ERROR', error instanceof Error ? error.message : 'Unexpected error')
+  }
+})
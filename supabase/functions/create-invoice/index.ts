@@ -1,5 +1,8 @@
 import { sendEmail, generateNotificationEmail, generateNotificationText } from "../_shared/email-utils.ts";
 import { formatWhatsAppNumber, sendWhatsAppMessage } from "../_shared/whatsapp-utils.ts";
+import { calculateInvoiceTotals, parseInvoiceLineItems, type InvoiceLineItem, type TaxRule } from "../_shared/invoice-utils.ts";
+import { calculateBaseRate, calculateInsurance, coerceNumber, fetchEffectivePricingRules, resolveRateTier, roundToTwo } from "../_shared/rating-utils.ts";
+import { fetchPendingStorageCharges, storageInvoiceLines } from "../_shared/storage-utils.ts";
 
 Deno.serve(async (req) => {
     const corsHeaders = {
@@ -20,10 +23,11 @@ Deno.serve(async (req) => {
         const {
             shipment_id,
             invoice_type, // 'quote' or 'final'
-            line_items, // Array of custom line items
+            line_items, // Array of custom line items, each with a category
             discount_amount,
             notes,
-            due_date
+            due_date,
+            draft // Save without issuing; drafts get a number when issued
         } = requestData;
 
         // Validate required fields
@@ -81,7 +85,7 @@ Deno.serve(async (req) => {
 
         // Fetch shipment details
         const shipmentResponse = await fetch(
-            `${supabaseUrl}/rest/v1/shipments?id=eq.${shipment_id}&select=*,destinations(country,rates_per_lb)`,
+            `${supabaseUrl}/rest/v1/shipments?id=eq.${shipment_id}&select=*,destinations(country_name,rate_per_lb_1_50,rate_per_lb_51_100,rate_per_lb_101_200,rate_per_lb_201_plus,express_surcharge_percent)`,
             {
                 headers: {
                     'Authorization': `Bearer ${serviceRoleKey}`,
@@ -139,77 +143,108 @@ Deno.serve(async (req) => {
             items = await itemsResponse.json();
         }
 
-        // Generate invoice number
         const now = new Date();
-        const year = now.getFullYear();
-        const month = String(now.getMonth() + 1).padStart(2, '0');
-        const day = String(now.getDate()).padStart(2, '0');
-        const timestamp = now.getTime().toString().slice(-6);
-        const invoiceNumber = `QCS-${year}${month}${day}-${timestamp}`;
 
         // Calculate line items if not provided
-        let calculatedLineItems = [];
-        
+        let calculatedLineItems: InvoiceLineItem[] = [];
+
         if (line_items && line_items.length > 0) {
-            // Use provided line items
-            calculatedLineItems = line_items;
+            const parsed = parseInvoiceLineItems(line_items);
+            if ('error' in parsed) {
+                throw new Error(parsed.error);
+            }
+            calculatedLineItems = parsed.lineItems;
         } else {
             // Generate line items from shipment data
             const destination = shipment.destinations;
-            const ratePerLb = destination ? destination.rates_per_lb : 5.0; // fallback rate
-            
+            const weight = coerceNumber(shipment.total_weight) ?? 0;
+            // Price freight on the same published rate card quotes use, falling back to the destination rates
+            const pricingRules = destination
+                ? await fetchEffectivePricingRules(supabaseUrl, serviceRoleKey, Number(shipment.destination_id), now)
+                : [];
+            const tier = destination
+                ? resolveRateTier(pricingRules, destination, {
+                    destinationId: Number(shipment.destination_id),
+                    serviceType: shipment.service_type || 'standard',
+                    billableWeight: weight,
+                    at: now
+                })
+                : null;
+            const ratePerLb = tier ? tier.ratePerLb : 5.0; // fallback rate
+
             // Shipping charge based on weight
-            const shippingCharge = {
-                description: `Air Cargo Shipping to ${destination?.country || 'Caribbean'}`,
-                quantity: parseFloat(shipment.total_weight) || 0,
+            calculatedLineItems.push({
+                description: `Air Cargo Shipping to ${destination?.country_name || 'Caribbean'}`,
+                quantity: weight,
                 unit_price: ratePerLb,
-                amount: (parseFloat(shipment.total_weight) || 0) * ratePerLb
-            };
-            calculatedLineItems.push(shippingCharge);
+                amount: roundToTwo(weight * ratePerLb),
+                category: 'shipping'
+            });
 
             // Service level surcharge if premium
-            if (shipment.service_level === 'express') {
-                const expressCharge = {
-                    description: 'Express Service Surcharge',
-                    quantity: 1,
-                    unit_price: 25.0,
-                    amount: 25.0
-                };
-                calculatedLineItems.push(expressCharge);
+            if (shipment.service_type === 'express' && tier) {
+                const { expressSurcharge } = calculateBaseRate(tier, weight, 'express');
+                if (expressSurcharge > 0) {
+                    calculatedLineItems.push({
+                        description: 'Express Service Surcharge',
+                        quantity: 1,
+                        unit_price: roundToTwo(expressSurcharge),
+                        amount: roundToTwo(expressSurcharge),
+                        category: 'surcharge'
+                    });
+                }
             }
 
             // Insurance if declared value exists
-            if (shipment.declared_value && parseFloat(shipment.declared_value) > 0) {
-                const insuranceRate = 0.02; // 2% of declared value
-                const insuranceCharge = {
+            const declaredValue = coerceNumber(shipment.total_declared_value) ?? 0;
+            const insurance = calculateInsurance(declaredValue);
+            if (insurance > 0) {
+                calculatedLineItems.push({
                     description: 'Cargo Insurance',
                     quantity: 1,
-                    unit_price: parseFloat(shipment.declared_value) * insuranceRate,
-                    amount: parseFloat(shipment.declared_value) * insuranceRate
-                };
-                calculatedLineItems.push(insuranceCharge);
+                    unit_price: insurance,
+                    amount: insurance,
+                    category: 'insurance'
+                });
+            }
+        }
+
+        // Mailbox storage accrued since the customer's last invoice rides on this one.
+        // The insert claims the charges and fails if another invoice got to them first.
+        const storageCharges = await fetchPendingStorageCharges(supabaseUrl, serviceRoleKey, shipment.customer_id);
+        calculatedLineItems.push(...storageInvoiceLines(storageCharges));
+
+        // Tax comes from tax_rules by line category, e.g. NJ sales tax on packaging supplies
+        const taxRulesResponse = await fetch(`${supabaseUrl}/rest/v1/tax_rules?is_active=eq.true&select=*`, {
+            headers: {
+                'Authorization': `Bearer ${serviceRoleKey}`,
+                'apikey': serviceRoleKey
             }
+        });
+        if (!taxRulesResponse.ok) {
+            throw new Error('Failed to load tax rules');
         }
+        const taxRules: TaxRule[] = await taxRulesResponse.json();
 
-        // Calculate totals
-        const subtotal = calculatedLineItems.reduce((sum, item) => sum + (item.amount || 0), 0);
-        const discountAmount = parseFloat(discount_amount) || 0;
-        const taxRate = 0.0; // Adjust based on business requirements
-        const taxAmount = (subtotal - discountAmount) * taxRate;
-        const totalAmount = subtotal - discountAmount + taxAmount;
+        const totals = calculateInvoiceTotals(calculatedLineItems, parseFloat(discount_amount) || 0, taxRules, now);
+        const totalAmount = totals.total_amount;
 
-        // Create invoice record
+        // Create invoice record. The number is assigned by the database when
+        // the invoice is issued, so numbering stays gapless.
         const invoiceData = {
-            invoice_number: invoiceNumber,
             shipment_id,
             customer_id: shipment.customer_id,
+            document_type: 'invoice',
             invoice_type: invoice_type || 'final',
-            status: 'pending',
-            subtotal,
-            discount_amount: discountAmount,
-            tax_amount: taxAmount,
+            status: draft ? 'draft' : 'sent',
+            amount: totals.subtotal,
+            subtotal: totals.subtotal,
+            discount_amount: totals.discount_amount,
+            taxable_amount: totals.taxable_amount,
+            tax_amount: totals.tax_amount,
+            tax_breakdown: totals.tax_breakdown,
             total_amount: totalAmount,
-            line_items: JSON.stringify(calculatedLineItems),
+            line_items: calculatedLineItems,
             notes: notes || '',
             due_date: due_date || new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString(), // 30 days from now
             created_by: userId,
@@ -234,6 +269,7 @@ Deno.serve(async (req) => {
 
         const invoiceResult = await invoiceResponse.json();
         const invoice = invoiceResult[0];
+        const invoiceNumber = invoice.invoice_number;
 
         // Update shipment with estimated cost if this is a final invoice
         if (invoice_type === 'final') {
@@ -255,12 +291,24 @@ Deno.serve(async (req) => {
             }
         }
 
+        if (invoice.status === 'draft') {
+            return new Response(JSON.stringify({
+                data: {
+                    success: true,
+                    invoice: { ...invoice, line_items: calculatedLineItems },
+                    message: 'Draft invoice saved'
+                }
+            }), {
+                headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+            });
+        }
+
         // Create notification for customer
         const notificationData = {
             user_id: shipment.customer_id,
             recipient_type: 'customer',
             title: `New ${invoice_type === 'quote' ? 'Quote' : 'Invoice'} Available`,
-            message: `${invoice_type === 'quote' ? 'Quote' : 'Invoice'} ${invoiceNumber} for shipment ${shipment_id.slice(0, 8)}... is now available`,
+            message: `${invoice_type === 'quote' ? 'Quote' : 'Invoice'} ${invoiceNumber} for shipment ${shipment.tracking_number || `#${shipment_id}`} is now available`,
             reference_type: 'invoice',
             reference_id: invoice.id,
             priority: 'normal',
@@ -290,14 +338,14 @@ Deno.serve(async (req) => {
                     title: `New ${invoiceTypeLabel} Available`,
                     message: `Dear ${customer.first_name || 'Customer'}, a new ${invoiceTypeLabel.toLowerCase()} has been generated for your shipment. Please review the details below.`,
                     actionText: 'View Invoice',
-                    actionUrl: `https://www.qcs-cargo.com/dashboard/invoices/${invoice.id}`,
+                    actionUrl: 'https://www.qcs-cargo.com/dashboard',
                     details: [
                         { label: `${invoiceTypeLabel} Number`, value: invoiceNumber },
                         { label: 'Amount', value: `$${totalAmount.toFixed(2)}` },
                         { label: 'Shipment', value: shipment.tracking_number || `Shipment #${shipment_id}` },
                         { label: 'Due Date', value: invoice.due_date ? new Date(invoice.due_date).toLocaleDateString('en-US') : 'N/A' }
                     ],
-                    footerNote: invoice_type === 'invoice' ? 'Please make payment by the due date to avoid delays.' : undefined
+                    footerNote: invoice_type !== 'quote' ? 'Please make payment by the due date to avoid delays.' : undefined
                 };
 
                 const emailHtml = generateNotificationEmail(notificationContent);
@@ -309,7 +357,7 @@ Deno.serve(async (req) => {
                     tags: [
                         { name: 'notification_type', value: 'invoice_created' },
                         { name: 'invoice_id', value: String(invoice.id) },
-                        { name: 'invoice_type', value: invoice_type }
+                        { name: 'invoice_type', value: invoice_type || 'final' }
                     ]
                 });
 
@@ -360,8 +408,8 @@ Deno.serve(async (req) => {
                 },
                 shipment: {
                     id: shipment.id,
-                    destination: shipment.destinations?.country,
-                    service_level: shipment.service_level,
+                    destination: shipment.destinations?.country_name,
+                    service_type: shipment.service_type,
                     total_weight: shipment.total_weight
                 }
             },
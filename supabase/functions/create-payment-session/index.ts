@@ -0,0 +1,259 @@
+import {
+  createErrorResponse,
+  createSuccessResponse,
+  handleOptions,
+  verifyAdminAccess
+} from '../_shared/auth-utils.ts'
+import { invoiceBalance } from '../_shared/payment-utils.ts'
+import { createStripeProvider } from '../_shared/payment-provider.ts'
+import { COMPANY_CONTACT } from '../_shared/quote-utils.ts'
+import { fetchPendingStorageCharges, storageInvoiceLines } from '../_shared/storage-utils.ts'
+
+interface RequestPayload {
+  invoice_id?: number
+  quote_id?: number
+}
+
+// Checkout pages stay open for an hour; an unpaid session is reused until then
+const SESSION_TTL_MINUTES = 60
+
+function restHeaders(serviceRoleKey: string, extra: Record<string, string> = {}) {
+  return {
+    Authorization: `Bearer ${serviceRoleKey}`,
+    apikey: serviceRoleKey,
+    'Content-Type': 'application/json',
+    ...extra
+  }
+}
+
+async function fetchRows(supabaseUrl: string, serviceRoleKey: string, path: string) {
+  const response = await fetch(`${supabaseUrl}/rest/v1/${path}`, { headers: restHeaders(serviceRoleKey) })
+  if (!response.ok) {
+    throw new Error(`Failed to load ${path.split('?')[0]}: ${await response.text()}`)
+  }
+  const rows = await response.json()
+  return Array.isArray(rows) ? rows : []
+}
+
+const fetchQuoteInvoice = async (supabaseUrl: string, serviceRoleKey: string, quoteId: number) =>
+  (await fetchRows(
+    supabaseUrl,
+    serviceRoleKey,
+    `invoices?quote_id=eq.${quoteId}&document_type=eq.invoice&status=neq.void&select=*&limit=1`
+  ))[0] ?? null
+
+/**
+ * Accepted quotes are paid through an invoice so the webhook only ever
+ * settles invoices. A quote has at most one open invoice (idx_invoices_open_quote);
+ * when two checkouts race to raise it, the loser uses the winner's.
+ */
+async function invoiceForQuote(supabaseUrl: string, serviceRoleKey: string, quote: any, customerId: string, userId: string) {
+  const existing = await fetchQuoteInvoice(supabaseUrl, serviceRoleKey, quote.id)
+  if (existing) return existing
+
+  const shipping = Number(quote.total_cost)
+  // Mailbox storage accrued since the customer's last invoice is collected with the shipping
+  const storageCharges = await fetchPendingStorageCharges(supabaseUrl, serviceRoleKey, customerId)
+  const lineItems = [
+    {
+      description: `Shipping per quote ${quote.quote_reference}`,
+      quantity: 1,
+      unit_price: shipping,
+      amount: shipping,
+      category: 'shipping'
+    },
+    ...storageInvoiceLines(storageCharges)
+  ]
+  const total = Math.round(lineItems.reduce((sum, line) => sum + line.amount, 0) * 100) / 100
+  const now = new Date().toISOString()
+  // The numbering trigger assigns the invoice number on insert as 'sent'
+  const response = await fetch(`${supabaseUrl}/rest/v1/invoices`, {
+    method: 'POST',
+    headers: restHeaders(serviceRoleKey, { Prefer: 'return=representation' }),
+    body: JSON.stringify({
+      customer_id: customerId,
+      quote_id: quote.id,
+      document_type: 'invoice',
+      invoice_type: 'quote',
+      status: 'sent',
+      line_items: lineItems,
+      subtotal: total,
+      discount_amount: 0,
+      taxable_amount: 0,
+      tax_amount: 0,
+      tax_breakdown: [],
+      amount: total,
+      total_amount: total,
+      currency: 'USD',
+      due_date: now,
+      created_by: userId,
+      notes: `Invoiced for online payment of quote ${quote.quote_reference}`
+    })
+  })
+  if (response.status === 409) {
+    const raised = await fetchQuoteInvoice(supabaseUrl, serviceRoleKey, quote.id)
+    if (raised) return raised
+  }
+  if (!response.ok) {
+    throw new Error(`Failed to invoice quote: ${await response.text()}`)
+  }
+  const rows = await response.json()
+  return rows[0]
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return handleOptions()
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+    const providerSecretKey = Deno.env.get('PAYMENT_PROVIDER_SECRET_KEY')
+    const webhookSecret = Deno.env.get('PAYMENT_WEBHOOK_SECRET')
+
+    if (!supabaseUrl || !serviceRoleKey || !providerSecretKey || !webhookSecret) {
+      return createErrorResponse('CONFIG_MISSING', 'Online payment configuration is missing.')
+    }
+
+    const authHeader = req.headers.get('authorization') ?? req.headers.get('Authorization')
+    if (!authHeader) {
+      return createErrorResponse('UNAUTHORIZED', 'Authorization header is required.', 401)
+    }
+
+    const userResponse = await fetch(`${supabaseUrl}/auth/v1/user`, {
+      headers: {
+        Authorization: authHeader,
+        apikey: serviceRoleKey
+      }
+    })
+    if (!userResponse.ok) {
+      return createErrorResponse('UNAUTHORIZED', 'Invalid or expired token.', 401)
+    }
+    const user = await userResponse.json()
+
+    const payload: RequestPayload = await req.json().catch(() => ({}))
+    const invoiceId = Number(payload.invoice_id)
+    const quoteId = Number(payload.quote_id)
+    const hasInvoice = Number.isInteger(invoiceId) && invoiceId > 0
+    const hasQuote = Number.isInteger(quoteId) && quoteId > 0
+    if (hasInvoice === hasQuote) {
+      return createErrorResponse('VALIDATION_ERROR', 'Provide either invoice_id or quote_id.', 400)
+    }
+
+    // Staff can open a session for any customer to send them the link
+    const isStaff = async () => (await verifyAdminAccess(authHeader, supabaseUrl, serviceRoleKey)).success
+
+    let invoice: any
+    let quote: any = null
+    if (hasQuote) {
+      const quotes = await fetchRows(supabaseUrl, serviceRoleKey, `shipping_quotes?id=eq.${quoteId}&select=*`)
+      quote = quotes[0]
+      // Guest quotes are matched on email, the same rule quote-accept uses
+      const ownsQuote = quote && (
+        quote.customer_id === user.id ||
+        (!quote.customer_id && quote.email?.toLowerCase() === user.email?.toLowerCase())
+      )
+      if (!quote || (!ownsQuote && !(await isStaff()))) {
+        return createErrorResponse('NOT_FOUND', 'Quote not found.', 404)
+      }
+      if (quote.status !== 'won' || quote.is_latest_revision === false) {
+        return createErrorResponse('QUOTE_NOT_ACCEPTED', 'Only accepted quotes can be paid online.', 409)
+      }
+      const customerId = quote.customer_id ?? (ownsQuote ? user.id : null)
+      if (!customerId) {
+        return createErrorResponse('QUOTE_NO_CUSTOMER', 'The customer needs to sign in and accept this quote before paying.', 409)
+      }
+      invoice = await invoiceForQuote(supabaseUrl, serviceRoleKey, quote, customerId, user.id)
+    } else {
+      const invoices = await fetchRows(
+        supabaseUrl,
+        serviceRoleKey,
+        `invoices?id=eq.${invoiceId}&document_type=eq.invoice&select=*`
+      )
+      invoice = invoices[0]
+      if (!invoice || (invoice.customer_id !== user.id && !(await isStaff()))) {
+        return createErrorResponse('NOT_FOUND', 'Invoice not found.', 404)
+      }
+    }
+
+    if (invoice.status === 'paid') {
+      return createErrorResponse('INVOICE_PAID', 'This invoice has already been paid.', 409)
+    }
+    if (invoice.status !== 'sent' && invoice.status !== 'partially_paid') {
+      return createErrorResponse('INVOICE_NOT_PAYABLE', `This invoice is ${invoice.status} and cannot be paid.`, 409)
+    }
+    const balance = invoiceBalance(invoice)
+    if (balance <= 0) {
+      return createErrorResponse('INVOICE_NOT_PAYABLE', 'Nothing is owed on this invoice.', 409)
+    }
+
+    const openSessions = await fetchRows(
+      supabaseUrl,
+      serviceRoleKey,
+      `payment_sessions?invoice_id=eq.${invoice.id}&status=eq.open&amount=eq.${balance}&expires_at=gt.${encodeURIComponent(new Date(Date.now() + 5 * 60 * 1000).toISOString())}&select=*&order=created_at.desc&limit=1`
+    )
+    if (openSessions[0]) {
+      return createSuccessResponse({
+        url: openSessions[0].checkout_url,
+        invoice_id: invoice.id,
+        invoice_number: invoice.invoice_number,
+        amount: balance
+      })
+    }
+
+    const profiles = await fetchRows(supabaseUrl, serviceRoleKey, `user_profiles?user_id=eq.${invoice.customer_id}&select=email`)
+    const provider = createStripeProvider({
+      secretKey: providerSecretKey,
+      webhookSecret,
+      apiBase: Deno.env.get('PAYMENT_PROVIDER_API_BASE') ?? undefined
+    })
+    const returnUrl = `${COMPANY_CONTACT.website}/dashboard/billing`
+    const session = await provider.createCheckoutSession({
+      reference: `invoice-${invoice.id}-${crypto.randomUUID()}`,
+      description: `QCS Cargo invoice ${invoice.invoice_number}`,
+      amount: balance,
+      currency: invoice.currency ?? 'USD',
+      customerEmail: profiles[0]?.email ?? null,
+      successUrl: `${returnUrl}?payment=success`,
+      cancelUrl: `${returnUrl}?payment=cancelled`,
+      expiresAt: new Date(Date.now() + SESSION_TTL_MINUTES * 60 * 1000),
+      metadata: {
+        invoice_id: String(invoice.id),
+        invoice_number: String(invoice.invoice_number)
+      }
+    })
+
+    const insertResponse = await fetch(`${supabaseUrl}/rest/v1/payment_sessions`, {
+      method: 'POST',
+      headers: restHeaders(serviceRoleKey),
+      body: JSON.stringify({
+        provider: provider.name,
+        provider_session_id: session.id,
+        invoice_id: invoice.id,
+        quote_id: quote?.id ?? invoice.quote_id ?? null,
+        customer_id: invoice.customer_id,
+        amount: balance,
+        currency: invoice.currency ?? 'USD',
+        checkout_url: session.url,
+        expires_at: session.expiresAt,
+        created_by: user.id
+      })
+    })
+    if (!insertResponse.ok) {
+      console.error('Failed to save payment session:', await insertResponse.text())
+      return createErrorResponse('PAYMENT_SESSION_FAILED', 'Unable to start the payment.')
+    }
+
+    console.log('Payment session created:', { invoice_id: invoice.id, session_id: session.id, amount: balance })
+    return createSuccessResponse({
+      url: session.url,
+      invoice_id: invoice.id,
+      invoice_number: invoice.invoice_number,
+      amount: balance
+    })
+  } catch (error) {
+    console.error('Create payment session error:', error)
+    return createErrorResponse('PAYMENT_SESSION_FAILED', error instanceof Error ? error.message : 'Unexpected error')
+  }
+})
@@ -20,6 +20,7 @@ Deno.serve(async (req) => {
             pickup_date,
             special_instructions,
             declared_value,
+            quote_id, // Accepted quote this shipment was created from
             items // Array of shipment items
         } = requestData;
 
@@ -70,6 +71,39 @@ Deno.serve(async (req) => {
         const userData = await userResponse.json();
         const customerId = userData.id;
 
+        // A quote can only be turned into a shipment once, by its owner, after acceptance
+        let quoteId: number | null = null;
+        if (quote_id) {
+            const quoteResponse = await fetch(`${supabaseUrl}/rest/v1/shipping_quotes?id=eq.${parseInt(quote_id)}&select=id,customer_id,status`, {
+                headers: {
+                    'Authorization': `Bearer ${serviceRoleKey}`,
+                    'apikey': serviceRoleKey
+                }
+            });
+            const quoteRows = quoteResponse.ok ? await quoteResponse.json() : [];
+            const quote = quoteRows[0];
+
+            if (!quote || quote.customer_id !== customerId) {
+                throw new Error('Quote not found for this account');
+            }
+            if (quote.status !== 'won') {
+                throw new Error('Quote must be accepted before creating a shipment');
+            }
+
+            const linkedResponse = await fetch(`${supabaseUrl}/rest/v1/shipments?quote_id=eq.${quote.id}&select=id`, {
+                headers: {
+                    'Authorization': `Bearer ${serviceRoleKey}`,
+                    'apikey': serviceRoleKey
+                }
+            });
+            const linkedRows = linkedResponse.ok ? await linkedResponse.json() : [];
+            if (linkedRows.length > 0) {
+                throw new Error('A shipment has already been created from this quote');
+            }
+
+            quoteId = quote.id;
+        }
+
         // Calculate total weight and validate items
         let totalWeight = 0;
         for (const item of items) {
@@ -83,6 +117,7 @@ Deno.serve(async (req) => {
         const shipmentData = {
             tracking_number: trackingNumber,
             customer_id: customerId,
+            quote_id: quoteId,
             destination_id: parseInt(destination_id), // Ensure integer type
             service_type: service_level, // Map service_level to service_type
             status: 'pending_pickup',
@@ -200,6 +235,7 @@ Deno.serve(async (req) => {
             shipment: {
                 id: shipmentId,
                 tracking_number: trackingNumber,
+                quote_id: quoteId,
                 status: shipment.status,
                 created_at: shipment.created_at,
                 total_weight: totalWeight,
@@ -0,0 +1,273 @@
+import {
+  createErrorResponse,
+  createSuccessResponse,
+  handleOptions
+} from '../_shared/auth-utils.ts'
+import {
+  customerDisplayName,
+  customerMailingAddress,
+  DOCUMENT_PROFILE_FIELDS,
+  generateInvoiceHtml,
+  generateInvoicePdf,
+  loadInvoiceDocumentPayload
+} from '../_shared/invoice-document-utils.ts'
+import { invoiceBalance } from '../_shared/payment-utils.ts'
+import { buildMonthlyStatement, isBusinessAccount, statementPeriod } from '../_shared/statement-utils.ts'
+import { generateStatementPdf } from '../_shared/statement-document-utils.ts'
+
+type BillingAction = 'list' | 'document' | 'statement'
+
+interface RequestPayload {
+  action?: BillingAction
+  invoice_id?: number
+  format?: 'html' | 'pdf' | 'json'
+  month?: string
+}
+
+const LIST_LIMIT = 100
+// Statement rows are read in pages to stay under the PostgREST row cap
+const PAGE_SIZE = 500
+const INVOICE_FIELDS = 'id,invoice_number,document_type,original_invoice_id,status,issued_at,due_date,total_amount,amount_paid,amount_credited,shipment_id,currency'
+
+function restHeaders(serviceRoleKey: string, extra: Record<string, string> = {}) {
+  return {
+    Authorization: `Bearer ${serviceRoleKey}`,
+    apikey: serviceRoleKey,
+    'Content-Type': 'application/json',
+    ...extra
+  }
+}
+
+const toBase64 = (bytes: Uint8Array) => {
+  let binary = ''
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i])
+  }
+  return btoa(binary)
+}
+
+async function fetchRows(supabaseUrl: string, serviceRoleKey: string, path: string) {
+  const response = await fetch(`${supabaseUrl}/rest/v1/${path}`, { headers: restHeaders(serviceRoleKey) })
+  if (!response.ok) {
+    throw new Error(`Failed to load ${path.split('?')[0]}: ${await response.text()}`)
+  }
+  const rows = await response.json()
+  return Array.isArray(rows) ? rows : []
+}
+
+/** Every row of a query, read in id order one page at a time. */
+async function fetchAllRows(supabaseUrl: string, serviceRoleKey: string, path: string) {
+  const rows: any[] = []
+  let lastId: number | null = null
+  while (true) {
+    const after = lastId === null ? '' : `&id=gt.${lastId}`
+    const page = await fetchRows(supabaseUrl, serviceRoleKey, `${path}${after}&order=id.asc&limit=${PAGE_SIZE}`)
+    rows.push(...page)
+    if (page.length < PAGE_SIZE) return rows
+    lastId = page[page.length - 1].id
+  }
+}
+
+async function fetchAccountAmount(
+  supabaseUrl: string,
+  serviceRoleKey: string,
+  fn: string,
+  args: Record<string, unknown>,
+  what: string
+) {
+  const response = await fetch(`${supabaseUrl}/rest/v1/rpc/${fn}`, {
+    method: 'POST',
+    headers: restHeaders(serviceRoleKey),
+    body: JSON.stringify(args)
+  })
+  if (!response.ok) {
+    throw new Error(`Failed to load ${what}: ${await response.text()}`)
+  }
+  return Number(await response.json())
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return handleOptions()
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+
+    if (!supabaseUrl || !serviceRoleKey) {
+      return createErrorResponse('CONFIG_MISSING', 'Supabase configuration is missing.')
+    }
+
+    const authHeader = req.headers.get('authorization') ?? req.headers.get('Authorization')
+    if (!authHeader) {
+      return createErrorResponse('UNAUTHORIZED', 'Authorization header is required.', 401)
+    }
+
+    const userResponse = await fetch(`${supabaseUrl}/auth/v1/user`, {
+      headers: {
+        Authorization: authHeader,
+        apikey: serviceRoleKey
+      }
+    })
+    if (!userResponse.ok) {
+      return createErrorResponse('UNAUTHORIZED', 'Invalid or expired token.', 401)
+    }
+    const user = await userResponse.json()
+
+    const payload: RequestPayload = await req.json().catch(() => ({}))
+    const action = payload.action ?? 'list'
+
+    if (action === 'list') {
+      // Drafts stay internal until they are issued
+      const [invoices, payments, creditBalance, outstandingBalance, profiles] = await Promise.all([
+        fetchRows(
+          supabaseUrl,
+          serviceRoleKey,
+          `invoices?customer_id=eq.${user.id}&status=neq.draft&select=${INVOICE_FIELDS}&order=issued_at.desc&limit=${LIST_LIMIT}`
+        ),
+        fetchRows(
+          supabaseUrl,
+          serviceRoleKey,
+          `invoice_payments?customer_id=eq.${user.id}&select=id,receipt_number,invoice_id,amount,method,received_at&order=received_at.desc&limit=${LIST_LIMIT}`
+        ),
+        fetchAccountAmount(supabaseUrl, serviceRoleKey, 'customer_credit_balance', { p_customer_id: user.id }, 'account credit'),
+        fetchAccountAmount(
+          supabaseUrl,
+          serviceRoleKey,
+          'customer_outstanding_balance',
+          { p_customer_id: user.id },
+          'outstanding balance'
+        ),
+        fetchRows(supabaseUrl, serviceRoleKey, `user_profiles?user_id=eq.${user.id}&select=company_name,business_type`)
+      ])
+      const withBalances = invoices.map((invoice: any) => ({
+        ...invoice,
+        balance_due: invoice.document_type === 'invoice' && invoice.status !== 'void' ? invoiceBalance(invoice) : 0
+      }))
+      return createSuccessResponse({
+        invoices: withBalances,
+        payments,
+        account_credit: creditBalance,
+        // Every open invoice counts, not just the ones listed
+        outstanding_balance: outstandingBalance,
+        statements_available: isBusinessAccount(profiles[0] ?? null)
+      })
+    }
+
+    if (action === 'document') {
+      const invoiceId = Number(payload.invoice_id)
+      if (!Number.isInteger(invoiceId) || invoiceId <= 0) {
+        return createErrorResponse('VALIDATION_ERROR', 'invoice_id is required.', 400)
+      }
+      const rows = await fetchRows(
+        supabaseUrl,
+        serviceRoleKey,
+        `invoices?id=eq.${invoiceId}&customer_id=eq.${user.id}&status=neq.draft&select=*`
+      )
+      const invoice = rows[0]
+      if (!invoice) {
+        return createErrorResponse('NOT_FOUND', 'Invoice not found.', 404)
+      }
+      const documentPayload = await loadInvoiceDocumentPayload(supabaseUrl, serviceRoleKey, invoice)
+      if (payload.format === 'html') {
+        return createSuccessResponse({ html: generateInvoiceHtml(documentPayload) })
+      }
+      const pdfBytes = await generateInvoicePdf(documentPayload)
+      return createSuccessResponse({
+        filename: `${invoice.invoice_number}.pdf`,
+        pdf_base64: toBase64(new Uint8Array(pdfBytes))
+      })
+    }
+
+    if (action === 'statement') {
+      const month = payload.month ?? ''
+      const period = statementPeriod(month)
+      if (!period) {
+        return createErrorResponse('VALIDATION_ERROR', 'month must be in YYYY-MM format.', 400)
+      }
+      if (new Date(period.start) > new Date()) {
+        return createErrorResponse('VALIDATION_ERROR', 'Statements are not available for future months.', 400)
+      }
+
+      const profiles = await fetchRows(
+        supabaseUrl,
+        serviceRoleKey,
+        `user_profiles?user_id=eq.${user.id}&select=${DOCUMENT_PROFILE_FIELDS},business_type`
+      )
+      const profile = profiles[0] ?? null
+      if (!isBusinessAccount(profile)) {
+        return createErrorResponse(
+          'NOT_BUSINESS_ACCOUNT',
+          'Monthly statements are available to business accounts. Add your company name to your profile to enable them.',
+          403
+        )
+      }
+
+      const periodStart = encodeURIComponent(period.start)
+      const periodEnd = encodeURIComponent(period.end)
+      const [openingBalance, invoices, payments, shipments] = await Promise.all([
+        fetchAccountAmount(
+          supabaseUrl,
+          serviceRoleKey,
+          'customer_statement_opening_balance',
+          { p_customer_id: user.id, p_before: period.start },
+          'opening balance'
+        ),
+        // Documents issued in the month, and earlier ones voided in it
+        fetchAllRows(
+          supabaseUrl,
+          serviceRoleKey,
+          `invoices?customer_id=eq.${user.id}&status=neq.draft` +
+            `&or=(and(issued_at.gte.${periodStart},issued_at.lt.${periodEnd}),and(voided_at.gte.${periodStart},voided_at.lt.${periodEnd}))` +
+            '&select=id,invoice_number,document_type,original_invoice_id,status,issued_at,voided_at,total_amount,original:original_invoice_id(invoice_number)'
+        ),
+        fetchAllRows(
+          supabaseUrl,
+          serviceRoleKey,
+          `invoice_payments?customer_id=eq.${user.id}&received_at=gte.${periodStart}&received_at=lt.${periodEnd}` +
+            '&select=id,receipt_number,invoice_id,amount,method,received_at,invoices(invoice_number)'
+        ),
+        fetchRows(
+          supabaseUrl,
+          serviceRoleKey,
+          `shipments?customer_id=eq.${user.id}&created_at=gte.${periodStart}&created_at=lt.${periodEnd}&select=id,tracking_number,status,created_at,total_weight,destinations!destination_id(country_name,city_name)`
+        )
+      ])
+
+      const statement = buildMonthlyStatement(
+        month,
+        openingBalance,
+        invoices.map(({ original, ...invoice }: any) => ({ ...invoice, original_invoice_number: original?.invoice_number ?? null })),
+        payments.map(({ invoices: paid, ...payment }: any) => ({ ...payment, invoice_number: paid?.invoice_number ?? null })),
+        shipments.map((shipment: any) => ({
+          id: shipment.id,
+          tracking_number: shipment.tracking_number,
+          status: shipment.status,
+          created_at: shipment.created_at,
+          total_weight: shipment.total_weight,
+          destination: [shipment.destinations?.city_name, shipment.destinations?.country_name].filter(Boolean).join(', ') || null
+        }))
+      )
+
+      if (payload.format === 'pdf') {
+        const pdfBytes = await generateStatementPdf(statement, {
+          name: customerDisplayName(profile),
+          company: profile?.company_name ?? null,
+          address: customerMailingAddress(profile),
+          email: profile?.email ?? null
+        })
+        return createSuccessResponse({
+          filename: `statement-${month}.pdf`,
+          pdf_base64: toBase64(new Uint8Array(pdfBytes))
+        })
+      }
+      return createSuccessResponse({ statement })
+    }
+
+    return createErrorResponse('VALIDATION_ERROR', `Unknown action: ${action}`, 400)
+  } catch (error) {
+    console.error('Customer billing error:', error)
+    return createErrorResponse('BILLING_FAILED', error instanceof Error ? error.message : 'Unexpected error')
+  }
+})
@@ -2,7 +2,9 @@ import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
 import { handleOptions, createErrorResponse, createSuccessResponse } from '../_shared/auth-utils.ts';
 
 type Facility = {
+  id: number;
   code: string;
+  name: string;
   address_line1: string;
   address_line2: string | null;
   city: string;
@@ -47,7 +49,7 @@ Deno.serve(async (req) => {
       client
         .from('virtual_mailboxes')
         .select(
-          'mailbox_number, facility:facility_id(code, address_line1, address_line2, city, state, postal_code, country)'
+          'mailbox_number, facility:facility_id(id, code, name, address_line1, address_line2, city, state, postal_code, country)'
         )
         .eq('user_id', user.id)
         .maybeSingle();
@@ -143,7 +145,9 @@ Deno.serve(async (req) => {
       state: facility.state,
       postal_code: facility.postal_code,
       country: facility.country,
-      facility_code: facility.code
+      facility_code: facility.code,
+      facility_id: facility.id,
+      facility_name: facility.name
     };
 
     return createSuccessResponse({ address, mailbox_number: mailboxResult.data.mailbox_number });
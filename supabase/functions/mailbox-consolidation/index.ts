@@ -0,0 +1,190 @@
+import {
+  createErrorResponse,
+  createSuccessResponse,
+  handleOptions
+} from '../_shared/auth-utils.ts'
+import {
+  consolidationBlockers,
+  estimatePieces,
+  parseConsolidationRequest,
+  rateConsolidation,
+  type ConsolidationPackage,
+  type ConsolidationRequest
+} from '../_shared/consolidation-utils.ts'
+import { roundToTwo } from '../_shared/rating-utils.ts'
+
+interface RequestPayload {
+  action?: 'list' | 'estimate' | 'request'
+  package_ids?: unknown
+  destination_id?: unknown
+  service_type?: unknown
+  declared_value?: unknown
+  notes?: unknown
+}
+
+function restHeaders(serviceRoleKey: string, extra: Record<string, string> = {}) {
+  return {
+    Authorization: `Bearer ${serviceRoleKey}`,
+    apikey: serviceRoleKey,
+    'Content-Type': 'application/json',
+    ...extra
+  }
+}
+
+async function fetchRows(supabaseUrl: string, serviceRoleKey: string, path: string) {
+  const response = await fetch(`${supabaseUrl}/rest/v1/${path}`, { headers: restHeaders(serviceRoleKey) })
+  if (!response.ok) {
+    throw new Error(`Failed to load ${path.split('?')[0]}: ${await response.text()}`)
+  }
+  const rows = await response.json()
+  return Array.isArray(rows) ? rows : []
+}
+
+async function fetchCustomerPackages(supabaseUrl: string, serviceRoleKey: string, userId: string, packageIds: string[]) {
+  return (await fetchRows(
+    supabaseUrl,
+    serviceRoleKey,
+    `received_packages?user_id=eq.${userId}&id=in.(${packageIds.join(',')})&select=id,tracking_number,carrier,status,weight,dimensions,created_at`
+  )) as ConsolidationPackage[]
+}
+
+/** Estimate from the receiving weights; the quote follows once the box is re-weighed. */
+async function estimateConsolidation(
+  supabaseUrl: string,
+  serviceRoleKey: string,
+  request: ConsolidationRequest,
+  packages: ConsolidationPackage[]
+) {
+  const { pieces, unweighed } = estimatePieces(packages)
+  if (pieces.length === 0) {
+    return { total_cost: null, weight_lbs: null, unweighed_packages: unweighed, rate_breakdown: null, transit: null }
+  }
+  const { rating } = await rateConsolidation(supabaseUrl, serviceRoleKey, {
+    destinationId: request.destinationId,
+    serviceType: request.serviceType,
+    pieces,
+    declaredValue: request.declaredValue,
+    packageCount: packages.length
+  })
+  return {
+    total_cost: rating.rateBreakdown.totalCost,
+    weight_lbs: roundToTwo(rating.weight.actual),
+    billable_weight_lbs: roundToTwo(rating.weight.billable),
+    unweighed_packages: unweighed,
+    rate_breakdown: rating.rateBreakdown,
+    transit: rating.transit
+  }
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return handleOptions()
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+
+    if (!supabaseUrl || !serviceRoleKey) {
+      return createErrorResponse('CONFIG_MISSING', 'Supabase configuration is missing.')
+    }
+
+    const authHeader = req.headers.get('authorization') ?? req.headers.get('Authorization')
+    if (!authHeader) {
+      return createErrorResponse('UNAUTHORIZED', 'Authorization header is required.', 401)
+    }
+
+    const userResponse = await fetch(`${supabaseUrl}/auth/v1/user`, {
+      headers: {
+        Authorization: authHeader,
+        apikey: serviceRoleKey
+      }
+    })
+    if (!userResponse.ok) {
+      return createErrorResponse('UNAUTHORIZED', 'Invalid or expired token.', 401)
+    }
+    const user = await userResponse.json()
+
+    const payload: RequestPayload = await req.json().catch(() => ({}))
+    const action = payload.action ?? 'list'
+
+    if (action === 'list') {
+      const shipments = await fetchRows(
+        supabaseUrl,
+        serviceRoleKey,
+        `shipments?customer_id=eq.${user.id}&is_consolidation=eq.true&select=id,tracking_number,status,service_type,destination_id,total_weight,consolidated_weight_lbs,reweighed_at,quote_id,created_at,destinations(country_name,city_name),shipping_quotes!shipments_quote_id_fkey(id,quote_reference,status,total_cost,quote_expires_at),received_packages(id,tracking_number,carrier)&order=created_at.desc&limit=20`
+      )
+      return createSuccessResponse({ consolidations: shipments })
+    }
+
+    if (action !== 'estimate' && action !== 'request') {
+      return createErrorResponse('VALIDATION_ERROR', `Unknown action: ${action}`, 400)
+    }
+
+    const parsed = parseConsolidationRequest(payload)
+    if ('error' in parsed) {
+      return createErrorResponse('VALIDATION_ERROR', parsed.error, 400)
+    }
+    const { request } = parsed
+
+    const packages = await fetchCustomerPackages(supabaseUrl, serviceRoleKey, user.id, request.packageIds)
+    const blockers = consolidationBlockers(request.packageIds, packages)
+    if (blockers.length > 0) {
+      return createErrorResponse('PACKAGES_UNAVAILABLE', blockers.join(' '), 409)
+    }
+
+    const estimate = await estimateConsolidation(supabaseUrl, serviceRoleKey, request, packages)
+    if (action === 'estimate') {
+      return createSuccessResponse({ estimate })
+    }
+
+    const trackingNumber = `QCS${Date.now()}${Math.random().toString(36).slice(2, 5).toUpperCase()}`
+    const rpcResponse = await fetch(`${supabaseUrl}/rest/v1/rpc/request_mailbox_consolidation`, {
+      method: 'POST',
+      headers: restHeaders(serviceRoleKey),
+      body: JSON.stringify({
+        p_customer_id: user.id,
+        p_package_ids: request.packageIds,
+        p_destination_id: request.destinationId,
+        p_service_type: request.serviceType,
+        p_declared_value: request.declaredValue,
+        p_tracking_number: trackingNumber,
+        p_notes: request.notes
+      })
+    })
+    if (!rpcResponse.ok) {
+      const errorText = await rpcResponse.text()
+      // Another request forwarded one of the packages between the check and the lock
+      if (errorText.includes('PACKAGES_UNAVAILABLE')) {
+        return createErrorResponse('PACKAGES_UNAVAILABLE', 'Some packages are no longer available to consolidate.', 409)
+      }
+      console.error('Failed to request consolidation:', errorText)
+      return createErrorResponse('CONSOLIDATION_FAILED', 'Unable to request the consolidation.')
+    }
+    const shipment = await rpcResponse.json()
+
+    const notificationResponse = await fetch(`${supabaseUrl}/rest/v1/notifications`, {
+      method: 'POST',
+      headers: restHeaders(serviceRoleKey),
+      body: JSON.stringify({
+        user_id: user.id,
+        recipient_type: 'customer',
+        title: 'Consolidation Requested',
+        message: `We'll combine ${packages.length} packages into shipment ${shipment.tracking_number}, re-weigh the box and send you a quote.`,
+        reference_type: 'shipment',
+        reference_id: String(shipment.id),
+        priority: 'normal',
+        created_at: new Date().toISOString()
+      })
+    })
+    if (!notificationResponse.ok) {
+      console.error('Failed to create consolidation notification:', notificationResponse.status)
+    }
+
+    console.log('Consolidation requested:', { shipment_id: shipment.id, package_count: packages.length, user_id: user.id })
+    return createSuccessResponse({ shipment, estimate })
+  } catch (error) {
+    console.error('mailbox-consolidation error:', error)
+    return createErrorResponse('UNEXPECTED_ERROR', error instanceof Error ? error.message : 'Unexpected error')
+  }
+})
@@ -0,0 +1,446 @@
+import {
+  createErrorResponse,
+  createSuccessResponse,
+  handleOptions,
+  logAdminAction,
+  verifyAdminAccess
+} from '../_shared/auth-utils.ts'
+import { fetchAccessorialCatalog } from '../_shared/accessorial-utils.ts'
+import { generateNotificationEmail, sendEmail } from '../_shared/email-utils.ts'
+import {
+  facilityQueryFilter,
+  loadFacilityScope,
+  resolveFacilityFilter,
+  type FacilityScope
+} from '../_shared/facility-utils.ts'
+import { COMPANY_CONTACT, formatCurrency } from '../_shared/quote-utils.ts'
+import { fetchRateSettings } from '../_shared/rating-utils.ts'
+import {
+  agingBucket,
+  disposalDueAt,
+  freePeriodEndsAt,
+  parseStoragePolicy,
+  storageAccrual,
+  storageDays,
+  storageNotices,
+  storageRate,
+  STORAGE_POLICY_SETTING_KEY,
+  STORED_STATUSES,
+  type StorageNotice,
+  type StoragePolicy,
+  type StorageRate,
+  type StoredPackage
+} from '../_shared/storage-utils.ts'
+
+interface RequestPayload {
+  action?: 'sweep' | 'aging'
+  facility_id?: unknown
+}
+
+// Packages loaded per page; the sweep and the aging report page through every package
+const SWEEP_BATCH = 500
+
+const PACKAGE_SELECT =
+  'id,user_id,tracking_number,carrier,status,weight,created_at,storage_ended_at,storage_weeks_charged,storage_warning_sent_at,abandonment_notice_sent_at'
+
+function restHeaders(serviceRoleKey: string, extra: Record<string, string> = {}) {
+  return {
+    Authorization: `Bearer ${serviceRoleKey}`,
+    apikey: serviceRoleKey,
+    'Content-Type': 'application/json',
+    ...extra
+  }
+}
+
+async function fetchRows(supabaseUrl: string, serviceRoleKey: string, path: string) {
+  const response = await fetch(`${supabaseUrl}/rest/v1/${path}`, { headers: restHeaders(serviceRoleKey) })
+  if (!response.ok) {
+    throw new Error(`Failed to load ${path.split('?')[0]}: ${await response.text()}`)
+  }
+  const rows = await response.json()
+  return Array.isArray(rows) ? rows : []
+}
+
+/** Keyset filter for the page after (created_at, id); pages are ordered created_at.asc,id.asc. */
+function keysetAfter(after: { created_at: string; id: string } | null) {
+  if (!after) return ''
+  const createdAt = encodeURIComponent(`"${after.created_at}"`)
+  return `&or=(created_at.gt.${createdAt},and(created_at.eq.${createdAt},id.gt.${after.id}))`
+}
+
+async function fetchProfiles(supabaseUrl: string, serviceRoleKey: string, userIds: string[]) {
+  if (userIds.length === 0) return new Map<string, any>()
+  const profiles = await fetchRows(
+    supabaseUrl,
+    serviceRoleKey,
+    `user_profiles?user_id=in.(${userIds.join(',')})&select=user_id,first_name,last_name,email`
+  )
+  return new Map<string, any>(profiles.map((profile: any) => [profile.user_id, profile]))
+}
+
+async function loadStorageTerms(supabaseUrl: string, serviceRoleKey: string) {
+  const [catalog, settings] = await Promise.all([
+    fetchAccessorialCatalog(supabaseUrl, serviceRoleKey),
+    fetchRateSettings(supabaseUrl, serviceRoleKey, [STORAGE_POLICY_SETTING_KEY])
+  ])
+  return {
+    rate: storageRate(catalog),
+    policy: parseStoragePolicy(settings[STORAGE_POLICY_SETTING_KEY])
+  }
+}
+
+const formatDate = (value: Date) =>
+  value.toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric', timeZone: 'America/New_York' })
+
+function noticeContent(notice: StorageNotice, pkg: StoredPackage, policy: StoragePolicy, rate: StorageRate, now: Date) {
+  const days = storageDays(pkg, now)
+  const feeLabel = `${formatCurrency(rate.ratePerLbWeek)} per lb per week`
+  if (notice === 'free_period_warning') {
+    const freeUntil = freePeriodEndsAt(pkg, rate)
+    const ended = freeUntil.getTime() <= now.getTime()
+    return {
+      title: ended ? 'Storage Fees Now Apply' : 'Free Storage Ending Soon',
+      message: ended
+        ? `Free storage for package ${pkg.tracking_number} ended on ${formatDate(freeUntil)}. Storage is now ${feeLabel} until it ships or is collected.`
+        : `Package ${pkg.tracking_number} is stored free until ${formatDate(freeUntil)}. After that, storage is ${feeLabel}. Ship or consolidate it to avoid fees.`,
+      priority: 'normal',
+      subject: `Storage reminder for package ${pkg.tracking_number}`
+    }
+  }
+  if (notice === 'abandonment_notice') {
+    const disposeOn = disposalDueAt({ ...pkg, abandonment_notice_sent_at: now.toISOString() }, policy)
+    return {
+      title: 'Final Notice: Unclaimed Package',
+      message: `Package ${pkg.tracking_number} has been in storage for ${days} days. If it isn't shipped or collected by ${formatDate(disposeOn)}, it will be disposed of.`,
+      priority: 'high',
+      subject: `Final notice: package ${pkg.tracking_number} will be disposed of`
+    }
+  }
+  return {
+    title: 'Package Disposed',
+    message: `Package ${pkg.tracking_number} was disposed of after ${days} days unclaimed, as notified on ${formatDate(new Date(pkg.abandonment_notice_sent_at!))}. Storage fees accrued until today remain payable.`,
+    priority: 'high',
+    subject: `Package ${pkg.tracking_number} has been disposed of`
+  }
+}
+
+async function notifyCustomer(
+  supabaseUrl: string,
+  serviceRoleKey: string,
+  pkg: StoredPackage,
+  profile: any,
+  notice: StorageNotice,
+  content: ReturnType<typeof noticeContent>,
+  now: Date
+) {
+  const notificationResponse = await fetch(`${supabaseUrl}/rest/v1/notifications`, {
+    method: 'POST',
+    headers: restHeaders(serviceRoleKey),
+    body: JSON.stringify({
+      user_id: pkg.user_id,
+      recipient_type: 'customer',
+      title: content.title,
+      message: content.message,
+      reference_type: 'received_package',
+      reference_id: pkg.id,
+      priority: content.priority,
+      created_at: now.toISOString()
+    })
+  })
+  if (!notificationResponse.ok) {
+    console.error('Failed to create storage notification:', notificationResponse.status)
+  }
+
+  if (!profile?.email) return
+  const name = [profile.first_name, profile.last_name].filter(Boolean).join(' ')
+  const result = await sendEmail(Deno.env.get('RESEND_API_KEY'), {
+    to: profile.email,
+    subject: content.subject,
+    html: generateNotificationEmail({
+      title: content.title,
+      message: name ? `Dear ${name}, ${content.message}` : content.message,
+      actionText: 'View My Packages',
+      actionUrl: `${COMPANY_CONTACT.website}/dashboard`,
+      details: [
+        { label: 'Tracking Number', value: pkg.tracking_number },
+        { label: 'Received', value: formatDate(new Date(pkg.created_at)) },
+        { label: 'Days in Storage', value: String(storageDays(pkg, now)) }
+      ]
+    }),
+    tags: [
+      { name: 'notification_type', value: `storage_${notice}` },
+      { name: 'package_id', value: pkg.id }
+    ]
+  })
+  if (!result.success) {
+    console.warn('Failed to email storage notice:', result.error)
+  }
+}
+
+async function patchPackage(
+  supabaseUrl: string,
+  serviceRoleKey: string,
+  filter: string,
+  body: Record<string, unknown>
+) {
+  const response = await fetch(`${supabaseUrl}/rest/v1/received_packages?${filter}`, {
+    method: 'PATCH',
+    headers: restHeaders(serviceRoleKey, { Prefer: 'return=representation' }),
+    body: JSON.stringify(body)
+  })
+  if (!response.ok) {
+    console.error('Failed to update package storage:', await response.text())
+    return null
+  }
+  const rows = await response.json()
+  return rows[0] ?? null
+}
+
+/**
+ * Record storage owed since the last run. The unique (package, week) key
+ * keeps a retried run from billing a week twice.
+ */
+async function accrueStorage(supabaseUrl: string, serviceRoleKey: string, pkg: StoredPackage, rate: StorageRate, now: Date) {
+  const accrual = storageAccrual(pkg, rate, now)
+  if (!accrual) return { ok: true, amount: 0 }
+
+  const response = await fetch(
+    `${supabaseUrl}/rest/v1/package_storage_charges?on_conflict=package_id,weeks_through`,
+    {
+      method: 'POST',
+      headers: restHeaders(serviceRoleKey, { Prefer: 'resolution=ignore-duplicates' }),
+      body: JSON.stringify({
+        package_id: pkg.id,
+        customer_id: pkg.user_id,
+        description: accrual.description,
+        storage_days: accrual.storageDays,
+        weeks_through: accrual.weeksThrough,
+        quantity: accrual.quantity,
+        unit_price: accrual.unitPrice,
+        amount: accrual.amount
+      })
+    }
+  )
+  if (!response.ok) {
+    console.error('Failed to record storage charge:', await response.text())
+    return { ok: false, amount: 0 }
+  }
+  const updated = await patchPackage(supabaseUrl, serviceRoleKey, `id=eq.${pkg.id}`, {
+    storage_weeks_charged: accrual.weeksThrough
+  })
+  return { ok: Boolean(updated), amount: accrual.amount }
+}
+
+type SweepSummary = {
+  packages: number
+  charged: number
+  charges: number
+  warnings: number
+  abandonment_notices: number
+  disposed: number
+  settled: number
+}
+
+async function runSweep(supabaseUrl: string, serviceRoleKey: string) {
+  const now = new Date()
+  const { rate, policy } = await loadStorageTerms(supabaseUrl, serviceRoleKey)
+  const summary: SweepSummary = { packages: 0, charged: 0, charges: 0, warnings: 0, abandonment_notices: 0, disposed: 0, settled: 0 }
+
+  // Keyset pagination on (created_at, id): packages stay unsettled while they
+  // are on the shelf, so a single oldest-first page would never reach newer ones
+  let after: { created_at: string; id: string } | null = null
+  while (true) {
+    const packages = (await fetchRows(
+      supabaseUrl,
+      serviceRoleKey,
+      `received_packages?storage_settled=eq.false${keysetAfter(after)}&select=${PACKAGE_SELECT}&order=created_at.asc,id.asc&limit=${SWEEP_BATCH}`
+    )) as StoredPackage[]
+    if (packages.length === 0) break
+
+    await sweepPackages(supabaseUrl, serviceRoleKey, packages, rate, policy, now, summary)
+    const last = packages[packages.length - 1]
+    after = { created_at: last.created_at, id: last.id }
+    if (packages.length < SWEEP_BATCH) break
+  }
+
+  console.log('Package storage sweep complete:', summary)
+  return summary
+}
+
+async function sweepPackages(
+  supabaseUrl: string,
+  serviceRoleKey: string,
+  packages: StoredPackage[],
+  rate: StorageRate,
+  policy: StoragePolicy,
+  now: Date,
+  summary: SweepSummary
+) {
+  const due = packages.map((pkg) => ({ pkg, notices: storageNotices(pkg, policy, rate, now) }))
+  const profiles = await fetchProfiles(
+    supabaseUrl,
+    serviceRoleKey,
+    Array.from(new Set(due.filter((entry) => entry.notices.length > 0).map((entry) => entry.pkg.user_id)))
+  )
+
+  summary.packages += packages.length
+  for (const { pkg, notices } of due) {
+    const accrued = await accrueStorage(supabaseUrl, serviceRoleKey, pkg, rate, now)
+    if (accrued.amount > 0) {
+      summary.charges += 1
+      summary.charged = Math.round((summary.charged + accrued.amount) * 100) / 100
+    }
+
+    // Off the shelf and fully billed: nothing more to track. Packages forwarded
+    // into a consolidation keep accruing until the shipment stops their clock.
+    if (!STORED_STATUSES.includes(pkg.status)) {
+      if (pkg.storage_ended_at && accrued.ok && (await patchPackage(supabaseUrl, serviceRoleKey, `id=eq.${pkg.id}`, { storage_settled: true }))) {
+        summary.settled += 1
+      }
+      continue
+    }
+
+    for (const notice of notices) {
+      const content = noticeContent(notice, pkg, policy, rate, now)
+      if (notice === 'free_period_warning') {
+        if (!(await patchPackage(supabaseUrl, serviceRoleKey, `id=eq.${pkg.id}&storage_warning_sent_at=is.null`, {
+          storage_warning_sent_at: now.toISOString()
+        }))) continue
+        summary.warnings += 1
+      } else if (notice === 'abandonment_notice') {
+        if (!(await patchPackage(supabaseUrl, serviceRoleKey, `id=eq.${pkg.id}&abandonment_notice_sent_at=is.null`, {
+          abandonment_notice_sent_at: now.toISOString()
+        }))) continue
+        summary.abandonment_notices += 1
+      } else {
+        // Only packages still on the shelf; one shipped or collected meanwhile stays as it is
+        if (!(await patchPackage(
+          supabaseUrl,
+          serviceRoleKey,
+          `id=eq.${pkg.id}&status=in.(${STORED_STATUSES.join(',')})`,
+          { status: 'disposed' }
+        ))) continue
+        summary.disposed += 1
+        console.log('Package disposed after abandonment:', { package_id: pkg.id, tracking_number: pkg.tracking_number })
+      }
+      await notifyCustomer(supabaseUrl, serviceRoleKey, pkg, profiles.get(pkg.user_id), notice, content, now)
+    }
+  }
+}
+
+function agingRow(pkg: any, profile: any, rate: StorageRate, policy: StoragePolicy, now: Date) {
+  const days = storageDays(pkg, now)
+  const charges: { amount: number | string; invoice_id: number | null }[] = pkg.package_storage_charges ?? []
+  return {
+    id: pkg.id,
+    tracking_number: pkg.tracking_number,
+    carrier: pkg.carrier,
+    status: pkg.status,
+    weight: pkg.weight,
+    received_at: pkg.created_at,
+    mailbox_number: pkg.virtual_mailboxes?.mailbox_number ?? null,
+    facility_id: pkg.facility_id,
+    customer_name: [profile?.first_name, profile?.last_name].filter(Boolean).join(' ') || profile?.email || null,
+    customer_email: profile?.email ?? null,
+    storage_days: days,
+    bucket: agingBucket(days, policy, rate),
+    free_until: freePeriodEndsAt(pkg, rate).toISOString(),
+    disposal_due_at: disposalDueAt(pkg, policy).toISOString(),
+    storage_warning_sent_at: pkg.storage_warning_sent_at,
+    abandonment_notice_sent_at: pkg.abandonment_notice_sent_at,
+    storage_charged: charges.reduce((sum, charge) => sum + Number(charge.amount), 0),
+    storage_uninvoiced: charges
+      .filter((charge) => charge.invoice_id === null)
+      .reduce((sum, charge) => sum + Number(charge.amount), 0)
+  }
+}
+
+async function agingInventory(supabaseUrl: string, serviceRoleKey: string, facilityIds: FacilityScope) {
+  const now = new Date()
+  const { rate, policy } = await loadStorageTerms(supabaseUrl, serviceRoleKey)
+  const rows: ReturnType<typeof agingRow>[] = []
+
+  // Every package on the shelf, a page at a time in the sweep's keyset order
+  let after: { created_at: string; id: string } | null = null
+  while (true) {
+    const packages = await fetchRows(
+      supabaseUrl,
+      serviceRoleKey,
+      `received_packages?status=in.(${STORED_STATUSES.join(',')})${facilityQueryFilter(facilityIds)}${keysetAfter(after)}&select=${PACKAGE_SELECT},facility_id,virtual_mailboxes(mailbox_number),package_storage_charges(amount,invoice_id)&order=created_at.asc,id.asc&limit=${SWEEP_BATCH}`
+    )
+    if (packages.length === 0) break
+
+    const profiles = await fetchProfiles(
+      supabaseUrl,
+      serviceRoleKey,
+      Array.from(new Set(packages.map((pkg: any) => pkg.user_id)))
+    )
+    rows.push(...packages.map((pkg: any) => agingRow(pkg, profiles.get(pkg.user_id), rate, policy, now)))
+    const last = packages[packages.length - 1]
+    after = { created_at: last.created_at, id: last.id }
+    if (packages.length < SWEEP_BATCH) break
+  }
+
+  return {
+    packages: rows.sort((a, b) => b.storage_days - a.storage_days),
+    policy,
+    free_days: rate.freeDays,
+    rate_per_lb_week: rate.ratePerLbWeek
+  }
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return handleOptions()
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+
+    if (!supabaseUrl || !serviceRoleKey) {
+      return createErrorResponse('CONFIG_MISSING', 'Supabase configuration is missing.')
+    }
+
+    const authHeader = req.headers.get('authorization') ?? req.headers.get('Authorization')
+    if (!authHeader) {
+      return createErrorResponse('UNAUTHORIZED', 'Authorization header is required.', 401)
+    }
+
+    const payload: RequestPayload = await req.json().catch(() => ({}))
+    // The daily schedule calls with the service role key and no body
+    const action = payload.action ?? 'sweep'
+    const scheduled = authHeader === `Bearer ${serviceRoleKey}`
+
+    if (scheduled && action === 'sweep') {
+      return createSuccessResponse({ summary: await runSweep(supabaseUrl, serviceRoleKey) })
+    }
+
+    const authResult = await verifyAdminAccess(authHeader, supabaseUrl, serviceRoleKey)
+    if (!authResult.success || !authResult.user) {
+      return createErrorResponse('FORBIDDEN', authResult.error || 'Admin access required.', 403)
+    }
+
+    if (action === 'aging') {
+      const facilityFilter = resolveFacilityFilter(
+        await loadFacilityScope(supabaseUrl, serviceRoleKey, authResult.user.id),
+        payload.facility_id
+      )
+      if ('error' in facilityFilter) {
+        return createErrorResponse('FORBIDDEN', facilityFilter.error, 403)
+      }
+      return createSuccessResponse(await agingInventory(supabaseUrl, serviceRoleKey, facilityFilter.facilityIds))
+    }
+
+    if (action === 'sweep') {
+      const summary = await runSweep(supabaseUrl, serviceRoleKey)
+      logAdminAction('PACKAGE_STORAGE_SWEEP', authResult.user, summary)
+      return createSuccessResponse({ summary })
+    }
+
+    return createErrorResponse('VALIDATION_ERROR', `Unknown action: ${action}`, 400)
+  } catch (error) {
+    console.error('package-storage error:', error)
+    return createErrorResponse('UNEXPECTED_ERROR', error instanceof Error ? error.message : 'Unexpected error')
+  }
+})
@@ -0,0 +1,150 @@
+import {
+  createErrorResponse,
+  createSuccessResponse,
+  handleOptions
+} from '../_shared/auth-utils.ts'
+import { checkoutOutcome, createStripeProvider, type WebhookEvent } from '../_shared/payment-provider.ts'
+
+function restHeaders(serviceRoleKey: string, extra: Record<string, string> = {}) {
+  return {
+    Authorization: `Bearer ${serviceRoleKey}`,
+    apikey: serviceRoleKey,
+    'Content-Type': 'application/json',
+    ...extra
+  }
+}
+
+/**
+ * Store the event by id. Returns false when it was already stored and
+ * applied, so a redelivery is acknowledged without doing anything.
+ */
+async function claimEvent(supabaseUrl: string, serviceRoleKey: string, provider: string, event: WebhookEvent) {
+  const response = await fetch(`${supabaseUrl}/rest/v1/payment_webhook_events`, {
+    method: 'POST',
+    headers: restHeaders(serviceRoleKey, { Prefer: 'resolution=ignore-duplicates,return=representation' }),
+    body: JSON.stringify({ event_id: event.id, provider, event_type: event.type, payload: event })
+  })
+  if (!response.ok) {
+    throw new Error(`Failed to store webhook event: ${await response.text()}`)
+  }
+  const inserted = await response.json()
+  if (Array.isArray(inserted) && inserted.length > 0) return true
+
+  const existing = await fetch(
+    `${supabaseUrl}/rest/v1/payment_webhook_events?event_id=eq.${encodeURIComponent(event.id)}&select=processed_at`,
+    { headers: restHeaders(serviceRoleKey) }
+  )
+  const rows = existing.ok ? await existing.json() : []
+  // Stored but never applied means the earlier delivery failed part-way; try again
+  return !rows[0]?.processed_at
+}
+
+async function markProcessed(supabaseUrl: string, serviceRoleKey: string, eventId: string, result: string) {
+  const response = await fetch(`${supabaseUrl}/rest/v1/payment_webhook_events?event_id=eq.${encodeURIComponent(eventId)}`, {
+    method: 'PATCH',
+    headers: restHeaders(serviceRoleKey),
+    body: JSON.stringify({ processed_at: new Date().toISOString(), result })
+  })
+  if (!response.ok) {
+    console.error('Failed to mark webhook event processed:', await response.text())
+  }
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return handleOptions()
+  }
+  if (req.method !== 'POST') {
+    return createErrorResponse('METHOD_NOT_ALLOWED', 'Webhooks must be POSTed.', 405)
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+    const providerSecretKey = Deno.env.get('PAYMENT_PROVIDER_SECRET_KEY')
+    const webhookSecret = Deno.env.get('PAYMENT_WEBHOOK_SECRET')
+
+    if (!supabaseUrl || !serviceRoleKey || !providerSecretKey || !webhookSecret) {
+      return createErrorResponse('CONFIG_MISSING', 'Online payment configuration is missing.')
+    }
+
+    const provider = createStripeProvider({
+      secretKey: providerSecretKey,
+      webhookSecret,
+      apiBase: Deno.env.get('PAYMENT_PROVIDER_API_BASE') ?? undefined
+    })
+
+    // The signature covers the exact bytes sent, so read the body as text before parsing
+    const rawBody = await req.text()
+    const check = await provider.verifyWebhook(rawBody, req.headers.get('stripe-signature'))
+    if (!check.valid) {
+      console.warn('Rejected payment webhook:', check.reason)
+      return createErrorResponse('INVALID_SIGNATURE', 'Webhook signature verification failed.', 400)
+    }
+    const event = check.event
+
+    if (!(await claimEvent(supabaseUrl, serviceRoleKey, provider.name, event))) {
+      return createSuccessResponse({ received: true, duplicate: true })
+    }
+
+    const outcome = checkoutOutcome(event)
+    if (!outcome) {
+      await markProcessed(supabaseUrl, serviceRoleKey, event.id, 'ignored')
+      return createSuccessResponse({ received: true })
+    }
+
+    const sessionResponse = await fetch(
+      `${supabaseUrl}/rest/v1/payment_sessions?provider=eq.${provider.name}&provider_session_id=eq.${encodeURIComponent(outcome.sessionId)}&select=id,invoice_id,status`,
+      { headers: restHeaders(serviceRoleKey) }
+    )
+    if (!sessionResponse.ok) {
+      throw new Error(`Failed to load payment session: ${await sessionResponse.text()}`)
+    }
+    const session = (await sessionResponse.json())[0]
+    if (!session) {
+      // Sessions created outside this app (e.g. from the provider's dashboard)
+      await markProcessed(supabaseUrl, serviceRoleKey, event.id, 'unknown_session')
+      return createSuccessResponse({ received: true })
+    }
+
+    if (outcome.kind === 'expired') {
+      const expireResponse = await fetch(`${supabaseUrl}/rest/v1/payment_sessions?id=eq.${session.id}&status=eq.open`, {
+        method: 'PATCH',
+        headers: restHeaders(serviceRoleKey),
+        body: JSON.stringify({ status: 'expired' })
+      })
+      if (!expireResponse.ok) {
+        throw new Error(`Failed to expire payment session: ${await expireResponse.text()}`)
+      }
+      await markProcessed(supabaseUrl, serviceRoleKey, event.id, 'session_expired')
+      return createSuccessResponse({ received: true })
+    }
+
+    const paymentResponse = await fetch(`${supabaseUrl}/rest/v1/rpc/complete_payment_session`, {
+      method: 'POST',
+      headers: restHeaders(serviceRoleKey),
+      body: JSON.stringify({
+        p_session_id: session.id,
+        p_amount: outcome.amount,
+        p_provider_payment_id: outcome.providerPaymentId
+      })
+    })
+    if (!paymentResponse.ok) {
+      throw new Error(`Failed to record online payment: ${await paymentResponse.text()}`)
+    }
+    const payment = await paymentResponse.json()
+    await markProcessed(supabaseUrl, serviceRoleKey, event.id, `payment_recorded:${payment.receipt_number}`)
+    console.log('Online payment recorded:', {
+      event_id: event.id,
+      invoice_id: session.invoice_id,
+      receipt_number: payment.receipt_number,
+      amount: outcome.amount
+    })
+
+    return createSuccessResponse({ received: true })
+  } catch (error) {
+    // A 5xx makes the provider redeliver; the stored event is retried then
+    console.error('Payment webhook error:', error)
+    return createErrorResponse('WEBHOOK_FAILED', error instanceof Error ? error.message : 'Unexpected error')
+  }
+})
@@ -0,0 +1,262 @@
+import {
+  buildDestinationTiers,
+  coerceNumber,
+  DEFAULT_INSURANCE_RULES,
+  DIMENSIONAL_DIVISOR,
+  fetchEffectivePricingRules,
+  fetchRateSettings,
+  INSURANCE_SETTING_KEY,
+  parseInsuranceRules,
+  PricingRule,
+  RateTier,
+  rateShipment,
+  resolveDimDivisor,
+  selectRuleTiers,
+  ShipmentDestination
+} from "../_shared/rating-utils.ts"
+import { AccessorialCharge, fetchAccessorialCatalog } from "../_shared/accessorial-utils.ts"
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+  "Access-Control-Max-Age": "86400",
+  "Access-Control-Allow-Credentials": "false"
+}
+
+// Rates change only when an admin publishes a rate card, so let browsers and
+// the CDN hold the response for a few minutes.
+const cacheHeaders = {
+  "Cache-Control": "public, max-age=300, s-maxage=300, stale-while-revalidate=600"
+}
+
+const SETTING_KEYS = [
+  INSURANCE_SETTING_KEY,
+  "rates.additional_services",
+  "rates.volume_discounts",
+  "rates.free_storage_days",
+  "rates.examples"
+]
+
+interface DestinationRow extends ShipmentDestination {
+  id: number
+  country_name: string
+  city_name: string
+  airport_code: string
+}
+
+interface ExampleScenario {
+  title: string
+  country_name: string
+  weight: number
+  service_type: string
+  declared_value?: number
+  package_count?: number
+  flags?: string[]
+  note?: string
+}
+
+interface PublicTier {
+  weight_min: number
+  weight_max: number | null
+  rate_per_lb: number
+}
+
+const toPublicTiers = (tiers: RateTier[]): PublicTier[] =>
+  tiers.map(tier => ({
+    weight_min: tier.weightMin,
+    weight_max: tier.weightMax,
+    rate_per_lb: tier.ratePerLb
+  }))
+
+const money = (value: number) => `$${value.toFixed(2)}`
+
+const asArray = <T>(value: unknown): T[] => (Array.isArray(value) ? (value as T[]) : [])
+
+/**
+ * Tiers shown for a destination: published pricing rules when present,
+ * otherwise the legacy destination columns the engine falls back to.
+ */
+function describeDestination(destination: DestinationRow, rules: PricingRule[], at: Date) {
+  const ruleTiers = selectRuleTiers(rules, { destinationId: destination.id, serviceType: "standard", at })
+  const standardTiers = ruleTiers.length > 0 ? ruleTiers : buildDestinationTiers(destination)
+  const expressTiers = selectRuleTiers(rules, { destinationId: destination.id, serviceType: "express", at }).filter(
+    tier => tier.serviceType === "express"
+  )
+
+  return {
+    id: destination.id,
+    country_name: destination.country_name,
+    city_name: destination.city_name,
+    airport_code: destination.airport_code,
+    transit_days_min: destination.transit_days_min,
+    transit_days_max: destination.transit_days_max,
+    express_transit_days_min: Math.max(1, destination.transit_days_min - 1),
+    express_transit_days_max: Math.max(2, destination.transit_days_max - 1),
+    express_surcharge_percent: standardTiers[0]?.expressSurchargePercent ?? 0,
+    dim_divisor_standard: resolveDimDivisor(destination, "standard"),
+    dim_divisor_express: resolveDimDivisor(destination, "express"),
+    rate_source: standardTiers[0]?.source ?? "destination",
+    standard_tiers: toPublicTiers(standardTiers),
+    express_tiers: toPublicTiers(expressTiers)
+  }
+}
+
+/**
+ * Price an example scenario through the same engine as the calculator and
+ * turn the breakdown into display lines.
+ */
+function buildExample(
+  scenario: ExampleScenario,
+  destinations: DestinationRow[],
+  rules: PricingRule[],
+  insuranceRules: ReturnType<typeof parseInsuranceRules>,
+  accessorialCatalog: AccessorialCharge[],
+  at: Date
+) {
+  const needle = String(scenario.country_name ?? "").toLowerCase()
+  const weight = coerceNumber(scenario.weight)
+  const destination = destinations.find(row => row.country_name.toLowerCase().includes(needle))
+  if (!needle || !destination || !weight || weight <= 0) {
+    return null
+  }
+
+  const serviceType = scenario.service_type === "express" ? "express" : "standard"
+  const declaredValue = coerceNumber(scenario.declared_value) ?? 0
+  const rating = rateShipment({
+    destinationId: destination.id,
+    destination,
+    pricingRules: rules.filter(rule => rule.destination_id === destination.id),
+    serviceType,
+    pieces: [{ weight, quantity: 1 }],
+    declaredValue,
+    accessorials: {
+      flags: Array.isArray(scenario.flags) ? scenario.flags : [],
+      packageCount: coerceNumber(scenario.package_count) ?? 1
+    },
+    accessorialCatalog,
+    insuranceRules,
+    at
+  })
+  const breakdown = rating.rateBreakdown
+  const transport = breakdown.baseShippingCost - breakdown.expressSurcharge
+
+  const lines = [{ label: `Base rate: ${weight} lbs × ${money(breakdown.ratePerLb)}`, amount: transport }]
+  if (breakdown.expressSurcharge > 0) {
+    lines.push({ label: "Express surcharge", amount: breakdown.expressSurcharge })
+  }
+  for (const item of breakdown.accessorials) {
+    lines.push({ label: item.name, amount: item.amount })
+  }
+  if (breakdown.insuranceCost > 0) {
+    lines.push({ label: `Insurance: ${money(declaredValue)} declared value`, amount: breakdown.insuranceCost })
+  }
+
+  const details = [
+    `${weight} lbs to ${destination.city_name}, ${destination.country_name}`,
+    serviceType === "express" ? "express" : null,
+    scenario.note ?? null
+  ]
+    .filter(Boolean)
+    .join(" · ")
+
+  return {
+    title: scenario.title,
+    details,
+    destination_id: destination.id,
+    service_type: serviceType,
+    weight,
+    lines,
+    total: breakdown.totalCost,
+    transit_days_min: rating.transit.min,
+    transit_days_max: rating.transit.max
+  }
+}
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { status: 200, headers: corsHeaders })
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")
+    const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")
+
+    if (!supabaseUrl || !serviceRoleKey) {
+      throw new Error("Supabase configuration missing")
+    }
+
+    const at = new Date()
+    const [destinationResponse, rules, settings, accessorialCatalog] = await Promise.all([
+      fetch(
+        `${supabaseUrl}/rest/v1/destinations?is_active=eq.true&order=country_name.asc&select=id,country_name,city_name,airport_code,transit_days_min,transit_days_max,dim_divisor_standard,dim_divisor_express,rate_per_lb_1_50,rate_per_lb_51_100,rate_per_lb_101_200,rate_per_lb_201_plus,express_surcharge_percent`,
+        {
+          headers: {
+            Authorization: `Bearer ${serviceRoleKey}`,
+            apikey: serviceRoleKey,
+            "Content-Type": "application/json"
+          }
+        }
+      ),
+      fetchEffectivePricingRules(supabaseUrl, serviceRoleKey, null, at),
+      fetchRateSettings(supabaseUrl, serviceRoleKey, SETTING_KEYS),
+      fetchAccessorialCatalog(supabaseUrl, serviceRoleKey)
+    ])
+
+    if (!destinationResponse.ok) {
+      throw new Error("Failed to fetch destinations")
+    }
+
+    const destinations: DestinationRow[] = await destinationResponse.json()
+    const insuranceRules = settings[INSURANCE_SETTING_KEY]
+      ? parseInsuranceRules(settings[INSURANCE_SETTING_KEY])
+      : DEFAULT_INSURANCE_RULES
+
+    const examples = asArray<ExampleScenario>(settings["rates.examples"])
+      .map(scenario => buildExample(scenario, destinations, rules, insuranceRules, accessorialCatalog, at))
+      .filter(example => example !== null)
+
+    const result = {
+      generated_at: at.toISOString(),
+      destinations: destinations.map(destination =>
+        describeDestination(
+          destination,
+          rules.filter(rule => rule.destination_id === destination.id),
+          at
+        )
+      ),
+      additional_services: asArray(settings["rates.additional_services"]),
+      volume_discounts: asArray(settings["rates.volume_discounts"]),
+      insurance: insuranceRules,
+      dimensional_divisor: DIMENSIONAL_DIVISOR,
+      accessorials: accessorialCatalog.map(charge => ({
+        code: charge.code,
+        name: charge.name,
+        description: charge.description ?? null,
+        basis: charge.basis,
+        amount: Number(charge.amount)
+      })),
+      free_storage_days: coerceNumber(settings["rates.free_storage_days"]) ?? 7,
+      examples
+    }
+
+    return new Response(JSON.stringify({ data: result }), {
+      headers: { ...corsHeaders, ...cacheHeaders, "Content-Type": "application/json" }
+    })
+  } catch (error) {
+    console.error("Public rates error:", error)
+
+    return new Response(
+      JSON.stringify({
+        error: {
+          code: "PUBLIC_RATES_FAILED",
+          message: error instanceof Error ? error.message : "Unable to load rates"
+        }
+      }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, "Content-Type": "application/json" }
+      }
+    )
+  }
+})
@@ -0,0 +1,151 @@
+import {
+  createErrorResponse,
+  createSuccessResponse,
+  handleOptions
+} from '../_shared/auth-utils.ts'
+import { quoteDecisionBlocker, recordQuoteEvent } from '../_shared/quote-decision-utils.ts'
+
+interface RequestPayload {
+  quote_id?: number
+}
+
+function restHeaders(serviceRoleKey: string, extra: Record<string, string> = {}) {
+  return {
+    Authorization: `Bearer ${serviceRoleKey}`,
+    apikey: serviceRoleKey,
+    'Content-Type': 'application/json',
+    ...extra
+  }
+}
+
+async function fetchLinkedShipment(supabaseUrl: string, serviceRoleKey: string, quoteId: number) {
+  const response = await fetch(
+    `${supabaseUrl}/rest/v1/shipments?quote_id=eq.${quoteId}&select=id,tracking_number,status`,
+    { headers: restHeaders(serviceRoleKey) }
+  )
+  if (!response.ok) return null
+  const rows = await response.json()
+  return Array.isArray(rows) && rows.length > 0 ? rows[0] : null
+}
+
+/** Fields create-shipment is pre-populated with. */
+function shipmentPrefill(quote: any) {
+  return {
+    id: quote.id,
+    quote_reference: quote.quote_reference,
+    destination_id: quote.destination_id,
+    service_type: quote.service_type,
+    weight_lbs: Number(quote.weight_lbs),
+    declared_value: Number(quote.declared_value ?? 0),
+    length_inches: quote.length_inches,
+    width_inches: quote.width_inches,
+    height_inches: quote.height_inches,
+    accepted_at: quote.accepted_at
+  }
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return handleOptions()
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+
+    if (!supabaseUrl || !serviceRoleKey) {
+      return createErrorResponse('CONFIG_MISSING', 'Supabase configuration is missing.')
+    }
+
+    const authHeader = req.headers.get('authorization') ?? req.headers.get('Authorization')
+    if (!authHeader) {
+      return createErrorResponse('UNAUTHORIZED', 'Authorization header is required.', 401)
+    }
+
+    const userResponse = await fetch(`${supabaseUrl}/auth/v1/user`, {
+      headers: {
+        Authorization: authHeader,
+        apikey: serviceRoleKey
+      }
+    })
+    if (!userResponse.ok) {
+      return createErrorResponse('UNAUTHORIZED', 'Invalid or expired token.', 401)
+    }
+    const user = await userResponse.json()
+
+    const payload: RequestPayload = await req.json().catch(() => ({}))
+    const quoteId = Number(payload.quote_id)
+    if (!Number.isInteger(quoteId) || quoteId <= 0) {
+      return createErrorResponse('VALIDATION_ERROR', 'quote_id is required.', 400)
+    }
+
+    const quoteResponse = await fetch(
+      `${supabaseUrl}/rest/v1/shipping_quotes?id=eq.${quoteId}&select=*`,
+      { headers: restHeaders(serviceRoleKey) }
+    )
+    if (!quoteResponse.ok) {
+      return createErrorResponse('QUOTE_FETCH_FAILED', 'Unable to load quote.')
+    }
+    const quoteRows = await quoteResponse.json()
+    const quote = Array.isArray(quoteRows) ? quoteRows[0] : null
+
+    // Guest quotes are matched on email, the same rule the quotes RLS policy uses
+    const ownsQuote = quote && (
+      quote.customer_id === user.id ||
+      (!quote.customer_id && quote.email?.toLowerCase() === user.email?.toLowerCase())
+    )
+    if (!ownsQuote) {
+      return createErrorResponse('NOT_FOUND', 'Quote not found.', 404)
+    }
+
+    // Accepting twice is harmless; hand back the same prefill and any shipment already created
+    if (quote.status === 'won' && quote.is_latest_revision !== false) {
+      const shipment = await fetchLinkedShipment(supabaseUrl, serviceRoleKey, quote.id)
+      return createSuccessResponse({ quote: shipmentPrefill(quote), shipment })
+    }
+
+    const blocker = quoteDecisionBlocker(quote)
+    if (blocker) {
+      return createErrorResponse(blocker.code, blocker.message, 409)
+    }
+
+    // status=eq.pending keeps a concurrent revision or admin update from being overwritten
+    const updateResponse = await fetch(
+      `${supabaseUrl}/rest/v1/shipping_quotes?id=eq.${quote.id}&status=eq.pending&is_latest_revision=eq.true`,
+      {
+        method: 'PATCH',
+        headers: restHeaders(serviceRoleKey, { Prefer: 'return=representation' }),
+        body: JSON.stringify({
+          status: 'won',
+          accepted_at: new Date().toISOString(),
+          follow_up_status: 'converted',
+          customer_id: quote.customer_id || user.id
+        })
+      }
+    )
+    if (!updateResponse.ok) {
+      const errorText = await updateResponse.text()
+      console.error('Quote acceptance failed:', errorText)
+      return createErrorResponse('QUOTE_ACCEPT_FAILED', 'Unable to accept quote.')
+    }
+    const updatedRows = await updateResponse.json()
+    if (!Array.isArray(updatedRows) || updatedRows.length === 0) {
+      return createErrorResponse('QUOTE_CHANGED', 'This quote was updated while you were viewing it. Please refresh and try again.', 409)
+    }
+
+    await recordQuoteEvent(supabaseUrl, serviceRoleKey, {
+      quoteId: quote.id,
+      eventType: 'accepted',
+      source: 'dashboard',
+      userAgent: req.headers.get('user-agent')
+    })
+    console.log('Quote accepted:', { quote_id: quote.id, quote_reference: quote.quote_reference, customer_id: user.id })
+
+    // Consolidation quotes are issued for a shipment that already exists
+    const shipment = await fetchLinkedShipment(supabaseUrl, serviceRoleKey, quote.id)
+    return createSuccessResponse({ quote: shipmentPrefill(updatedRows[0]), shipment })
+  } catch (error) {
+    console.error('Quote accept error:', error)
+    return createErrorResponse('QUOTE_ACCEPT_FAILED', error instanceof Error ? error.message : 'Unexpected error')
+  }
+})
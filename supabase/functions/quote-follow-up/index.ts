@@ -4,10 +4,21 @@ import {
   QuoteDocumentPayload,
   generateQuoteHtml,
   generateQuotePdf,
-  formatCurrency
+  formatCurrency,
+  quoteAcceptUrl
 } from "../_shared/quote-utils.ts"
 import { generateNotificationText } from "../_shared/email-utils.ts"
 import { formatWhatsAppNumber, sendWhatsAppMessage } from "../_shared/whatsapp-utils.ts"
+import { parseFxSnapshot } from "../_shared/fx-utils.ts"
+import { buildQuoteLinkUrl } from "../_shared/quote-link-utils.ts"
+import {
+  fetchFollowUpCadences,
+  followUpStopReason,
+  scheduleFromStep,
+  selectCadence,
+  type CadenceStep,
+  type FollowUpTemplate
+} from "../_shared/follow-up-cadence-utils.ts"
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -34,6 +45,62 @@ const fetchQuoteRecords = async (supabaseUrl: string, serviceRoleKey: string, qu
   return await response.json()
 }
 
+const restHeaders = (serviceRoleKey: string) => ({
+  Authorization: `Bearer ${serviceRoleKey}`,
+  apikey: serviceRoleKey,
+  "Content-Type": "application/json"
+})
+
+const patchQuote = (supabaseUrl: string, serviceRoleKey: string, quoteId: number, body: Record<string, unknown>) =>
+  fetch(`${supabaseUrl}/rest/v1/shipping_quotes?id=eq.${quoteId}`, {
+    method: "PATCH",
+    headers: restHeaders(serviceRoleKey),
+    body: JSON.stringify(body)
+  })
+
+const recordHistory = async (supabaseUrl: string, serviceRoleKey: string, entry: Record<string, unknown>) => {
+  const response = await fetch(`${supabaseUrl}/rest/v1/quote_follow_up_history`, {
+    method: "POST",
+    headers: restHeaders(serviceRoleKey),
+    body: JSON.stringify(entry)
+  })
+  if (!response.ok) {
+    console.error("Failed to record follow-up history:", await response.text())
+  }
+}
+
+// Quotes issued before cadences existed get the old single reminder
+const LEGACY_STEPS: CadenceStep[] = [{ day: 3, channel: "email", template: "expiring_soon" }]
+
+const FOLLOW_UP_COPY: Record<FollowUpTemplate, {
+  subject: (reference: string, expires: string) => string
+  title: (reference: string) => string
+  message: (reference: string, expires: string) => string
+  intro: (reference: string, expires: string) => string
+}> = {
+  reminder: {
+    subject: (reference) => `Your QCS Cargo Quote ${reference}`,
+    title: (reference) => `Checking In: Quote ${reference}`,
+    message: (reference, expires) => `your QCS Cargo quote ${reference} is ready whenever you are. It is valid until ${expires}.`,
+    intro: (reference, expires) =>
+      `Just checking in on your QCS Cargo quote <strong>${reference}</strong>. It is valid until <strong>${expires}</strong> and we're happy to answer any questions before you book.`
+  },
+  expiring_soon: {
+    subject: (reference) => `Follow-Up: Quote ${reference} Expires Soon`,
+    title: (reference) => `Reminder: Quote ${reference} Expires Soon`,
+    message: (reference, expires) => `we're holding your QCS Cargo quote ${reference} until ${expires}.`,
+    intro: (reference, expires) =>
+      `This is a friendly reminder that your QCS Cargo quote <strong>${reference}</strong> is set to expire on <strong>${expires}</strong>. We still have capacity available and can secure these rates if you confirm soon.`
+  },
+  final_notice: {
+    subject: (reference, expires) => `Final Notice: Quote ${reference} Expires ${expires}`,
+    title: (reference) => `Final Notice: Quote ${reference}`,
+    message: (reference, expires) => `this is our last reminder that quote ${reference} expires on ${expires}. After that we'll need to re-quote your shipment.`,
+    intro: (reference, expires) =>
+      `This is our last reminder: your quote <strong>${reference}</strong> expires on <strong>${expires}</strong>. After that, rates may change and we'll need to re-quote your shipment.`
+  }
+}
+
 const toBase64 = (bytes: Uint8Array) => {
   let binary = ""
   for (let i = 0; i < bytes.length; i++) {
@@ -53,11 +120,7 @@ const coerceNumber = (value: unknown): number | null => {
   return null
 }
 
-const buildFollowUpEmail = async (quote: any, resendApiKey: string | undefined) => {
-  if (!resendApiKey) {
-    throw new Error("Resend API key not configured")
-  }
-
+const buildFollowUpEmail = async (quote: any, template: FollowUpTemplate, quoteLinkSecret: string | undefined) => {
   const weightMeta = quote.quote_metadata?.weight || {}
   const fallbackWeight = coerceNumber(quote.weight_lbs) ?? 0
   const dimensionalWeight = coerceNumber(weightMeta.dimensional)
@@ -111,15 +174,20 @@ const buildFollowUpEmail = async (quote: any, resendApiKey: string | undefined)
       handlingFee,
       insuranceCost,
       totalCost,
-      expressSurcharge
+      expressSurcharge,
+      accessorials: Array.isArray(rateMeta.accessorials) ? rateMeta.accessorials : undefined
     },
     transitEstimate: quote.quote_metadata?.transit_estimate || {
       min: quote.estimated_transit_days,
       label: quote.quote_metadata?.transit_label || null
     },
+    // Re-sent documents keep the rate the quote was issued with
+    localCurrency: parseFxSnapshot(quote.quote_metadata?.fx),
     notes: quote.special_instructions,
     terms: quote.quote_metadata?.terms || DEFAULT_TERMS,
-    callToActionUrl: quote.quote_metadata?.call_to_action || `${COMPANY_CONTACT.website}/booking`
+    callToActionUrl: quoteLinkSecret
+      ? await buildQuoteLinkUrl(COMPANY_CONTACT.website, quote.id, quote.quote_expires_at, quoteLinkSecret)
+      : quote.quote_metadata?.call_to_action || quoteAcceptUrl(quote.base_reference || quote.quote_reference)
   }
 
   const html = generateQuoteHtml({ ...payload, callToActionUrl: payload.callToActionUrl })
@@ -133,7 +201,6 @@ const buildFollowUpEmail = async (quote: any, resendApiKey: string | undefined)
   }
 
   const followUpHtml = html
-    .replace("Confirm Booking with QCS Cargo", "Book Your Shipment with QCS Cargo")
     .replace(
       "Quote request saved and emailed successfully.",
       "We're holding these rates for you for a limited time."
@@ -150,9 +217,11 @@ const buildFollowUpEmail = async (quote: any, resendApiKey: string | undefined)
     dateStyle: "medium"
   })
 
+  const copy = FOLLOW_UP_COPY[template]
+
   const followUpNotification = {
-    title: `Reminder: Quote ${quote.quote_reference} Expires Soon`,
-    message: `Hi ${quote.full_name.split(" ")[0]}, we're holding your QCS Cargo quote ${quote.quote_reference} until ${expirationLabel}.`,
+    title: copy.title(quote.quote_reference),
+    message: `Hi ${quote.full_name.split(" ")[0]}, ${copy.message(quote.quote_reference, expirationLabel)}`,
     actionText: "Confirm Shipment",
     actionUrl: payload.callToActionUrl,
     details: [
@@ -172,12 +241,13 @@ const buildFollowUpEmail = async (quote: any, resendApiKey: string | undefined)
   const notificationText = generateNotificationText(followUpNotification)
 
   return {
+    subject: copy.subject(quote.quote_reference, expirationLabel),
     html:
       `<!DOCTYPE html><html><body>` +
       `<div style="font-family:Inter,Helvetica,Arial,sans-serif;background:#f8fafc;padding:24px;">` +
       `<div style="max-width:720px;margin:0 auto;background:#ffffff;border-radius:16px;border:1px solid #e2e8f0;padding:32px;">` +
       `<p style="font-size:16px;color:#1f2937;">Hi ${quote.full_name.split(" ")[0]},</p>` +
-      `<p style="font-size:15px;color:#334155;line-height:1.6;">This is a friendly reminder that your QCS Cargo quote <strong>${quote.quote_reference}</strong> is set to expire on <strong>${new Date(quote.quote_expires_at).toLocaleDateString("en-US", { dateStyle: "medium" })}</strong>. We still have capacity available and can secure these rates if you confirm soon.</p>` +
+      `<p style="font-size:15px;color:#334155;line-height:1.6;">${copy.intro(quote.quote_reference, expirationLabel)}</p>` +
       `<p style="font-size:15px;color:#334155;line-height:1.6;">Here are the highlights:</p>` +
       `<ul style="color:#475569;font-size:14px;line-height:1.6;">` +
       `<li>Total Investment: <strong>${quote.quote_document_html?.match(/Total Investment<\/td>\s*<td>(.*?)<\/td>/)?.[1] || "Provided upon request"}</strong></li>` +
@@ -208,11 +278,12 @@ Deno.serve(async (req) => {
 
   try {
     const payload = req.method === "POST" && req.headers.get("Content-Length") !== "0" ? await req.json() : {}
-    const { quoteId, autoProcess = false } = payload
+    const { quoteId } = payload
 
     const supabaseUrl = Deno.env.get("SUPABASE_URL")
     const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")
     const resendApiKey = Deno.env.get("RESEND_API_KEY")
+    const quoteLinkSecret = Deno.env.get("QUOTE_LINK_SECRET")
     const whatsappConfig = {
       accountSid: Deno.env.get("TWILIO_ACCOUNT_SID"),
       authToken: Deno.env.get("TWILIO_AUTH_TOKEN"),
@@ -223,7 +294,7 @@ Deno.serve(async (req) => {
       throw new Error("Supabase configuration missing")
     }
 
-    const now = new Date().toISOString()
+    const now = new Date()
     let quotes: any[] = []
 
     if (quoteId) {
@@ -233,7 +304,7 @@ Deno.serve(async (req) => {
       }
       quotes = records
     } else {
-      const query = `?or=(follow_up_status.eq.scheduled,follow_up_status.eq.pending)&follow_up_due_at=lte.${now}&status=neq.closed&select=*`
+      const query = `?follow_up_status=in.(scheduled,pending)&follow_up_due_at=lte.${now.toISOString()}&follow_up_paused=eq.false&select=*`
       quotes = await fetchQuoteRecords(supabaseUrl, serviceRoleKey, query)
       if (!quotes.length) {
         return new Response(
@@ -243,112 +314,149 @@ Deno.serve(async (req) => {
       }
     }
 
+    const cadences = await fetchFollowUpCadences(supabaseUrl, serviceRoleKey)
+    const hasWhatsAppConfig = Boolean(
+      whatsappConfig.accountSid && whatsappConfig.authToken && whatsappConfig.fromNumber
+    )
+
     const results: any[] = []
     for (const quote of quotes) {
-      try {
-        const emailContent = await buildFollowUpEmail(quote, resendApiKey)
-
-        const emailPayload: Record<string, unknown> = {
-          from: `${COMPANY_CONTACT.name} <${COMPANY_CONTACT.email}>`,
-          to: [quote.email],
-          subject: `Follow-Up: Quote ${quote.quote_reference} Expires Soon`,
-          html: emailContent.html,
-          reply_to: COMPANY_CONTACT.email,
-          tags: [
-            { name: "quote_reference", value: quote.quote_reference },
-            { name: "follow_up", value: autoProcess ? "automated" : "manual" }
-          ]
+      // A manual send (explicit quoteId) goes out once as an email and leaves the cadence alone
+      const manual = Boolean(quoteId)
+
+      if (!manual) {
+        const stopReason = followUpStopReason(quote, now)
+        if (stopReason) {
+          await patchQuote(supabaseUrl, serviceRoleKey, quote.id, {
+            follow_up_status: "stopped",
+            follow_up_stopped_reason: stopReason,
+            follow_up_due_at: null
+          })
+          results.push({ quoteId: quote.id, status: "stopped", reason: stopReason })
+          continue
         }
+      }
 
-        if (emailContent.pdfBase64) {
-          emailPayload["attachments"] = [
-            {
-              filename: `${quote.quote_reference}.pdf`,
-              content: emailContent.pdfBase64,
-              contentType: "application/pdf"
-            }
-          ]
-        }
+      const cadence = cadences.find(item => item.id === quote.follow_up_cadence_id) ?? selectCadence(cadences, quote)
+      const steps = cadence?.steps ?? LEGACY_STEPS
+      const stepIndex = Number(quote.follow_up_step ?? 0)
+      const step: CadenceStep | undefined = manual
+        ? { day: 0, channel: "email", template: steps[stepIndex]?.template ?? "reminder" }
+        : steps[stepIndex]
+
+      const advance = () => ({
+        ...scheduleFromStep(quote, { steps }, stepIndex + 1),
+        follow_up_cadence_id: cadence?.id ?? null
+      })
+
+      if (!step) {
+        await patchQuote(supabaseUrl, serviceRoleKey, quote.id, advance())
+        results.push({ quoteId: quote.id, status: "completed" })
+        continue
+      }
 
-        if (!resendApiKey) {
-          throw new Error("Resend API key not configured")
-        }
+      const historyBase = {
+        quote_id: quote.id,
+        cadence_id: cadence?.id ?? null,
+        step_index: manual ? null : stepIndex,
+        channel: step.channel,
+        template: step.template,
+        triggered_by: manual ? "manual" : "automation"
+      }
 
-        const emailResponse = await fetch("https://api.resend.com/emails", {
-          method: "POST",
-          headers: {
-            Authorization: `Bearer ${resendApiKey}`,
-            "Content-Type": "application/json"
-          },
-          body: JSON.stringify(emailPayload)
-        })
+      // Customers who already opened the quote link don't need a plain
+      // reminder; expiring-soon and final notices still go out
+      const skipReason = !manual && step.template === "reminder" && quote.first_viewed_at
+        ? "Customer already viewed the quote"
+        : null
 
-        if (!emailResponse.ok) {
-          const errorText = await emailResponse.text()
-          throw new Error(`Resend API error: ${errorText}`)
-        }
+      try {
+        let detail: string | null = skipReason
+        const emailContent = skipReason ? null : await buildFollowUpEmail(quote, step.template, quoteLinkSecret)
 
-        const whatsappRecipient = formatWhatsAppNumber(
-          quote.phone || quote.quote_metadata?.customer?.phone || null,
-          quote.phone_country_code || quote.quote_metadata?.customer?.phone_country_code || null
-        )
+        if (emailContent && step.channel === "email") {
+          if (!resendApiKey) {
+            throw new Error("Resend API key not configured")
+          }
 
-        const hasWhatsAppConfig =
-          whatsappConfig.accountSid &&
-          whatsappConfig.authToken &&
-          whatsappConfig.fromNumber
+          const emailPayload: Record<string, unknown> = {
+            from: `${COMPANY_CONTACT.name} <${COMPANY_CONTACT.email}>`,
+            to: [quote.email],
+            subject: emailContent.subject,
+            html: emailContent.html,
+            reply_to: COMPANY_CONTACT.email,
+            tags: [
+              { name: "quote_reference", value: quote.quote_reference },
+              { name: "follow_up", value: manual ? "manual" : step.template }
+            ]
+          }
 
-        if (whatsappRecipient && emailContent.notificationText && hasWhatsAppConfig) {
-          const whatsappResult = await sendWhatsAppMessage(whatsappConfig, {
-            to: whatsappRecipient,
-            body: emailContent.notificationText
+          if (emailContent.pdfBase64) {
+            emailPayload["attachments"] = [
+              {
+                filename: `${quote.quote_reference}.pdf`,
+                content: emailContent.pdfBase64,
+                contentType: "application/pdf"
+              }
+            ]
+          }
+
+          const emailResponse = await fetch("https://api.resend.com/emails", {
+            method: "POST",
+            headers: {
+              Authorization: `Bearer ${resendApiKey}`,
+              "Content-Type": "application/json"
+            },
+            body: JSON.stringify(emailPayload)
           })
 
-          if (!whatsappResult.success) {
-            console.warn('Failed to send WhatsApp follow-up notification:', whatsappResult.error)
+          if (!emailResponse.ok) {
+            const errorText = await emailResponse.text()
+            throw new Error(`Resend API error: ${errorText}`)
+          }
+        } else if (emailContent && step.channel === "whatsapp") {
+          const whatsappRecipient = formatWhatsAppNumber(
+            quote.phone || quote.quote_metadata?.customer?.phone || null,
+            quote.phone_country_code || quote.quote_metadata?.customer?.phone_country_code || null
+          )
+
+          // A WhatsApp step the customer can't receive is skipped, not failed
+          if (!whatsappRecipient) {
+            detail = "No WhatsApp number on the quote"
+          } else if (!hasWhatsAppConfig) {
+            detail = "WhatsApp is not configured"
+          } else if (emailContent.notificationText) {
+            const whatsappResult = await sendWhatsAppMessage(whatsappConfig, {
+              to: whatsappRecipient,
+              body: emailContent.notificationText
+            })
+            if (!whatsappResult.success) {
+              throw new Error(`WhatsApp error: ${whatsappResult.error}`)
+            }
           }
-        } else if (whatsappRecipient && !hasWhatsAppConfig) {
-          console.warn('WhatsApp configuration missing - skipping quote follow-up message')
         }
 
-        const updatePayload = {
-          follow_up_status: "completed",
-          last_follow_up_at: new Date().toISOString(),
-          follow_up_method: autoProcess ? "automated" : "manual"
-        }
+        const status = detail ? "skipped" : "sent"
+        await recordHistory(supabaseUrl, serviceRoleKey, { ...historyBase, status, detail })
 
-        await fetch(`${supabaseUrl}/rest/v1/shipping_quotes?id=eq.${quote.id}`, {
-          method: "PATCH",
-          headers: {
-            Authorization: `Bearer ${serviceRoleKey}`,
-            apikey: serviceRoleKey,
-            "Content-Type": "application/json",
-            Prefer: "return=representation"
-          },
-          body: JSON.stringify(updatePayload)
+        await patchQuote(supabaseUrl, serviceRoleKey, quote.id, {
+          ...(manual ? {} : advance()),
+          ...(status === "sent"
+            ? { last_follow_up_at: new Date().toISOString(), follow_up_method: manual ? "manual" : step.channel }
+            : {}),
+          follow_up_error: null
         })
 
-        results.push({ quoteId: quote.id, status: "sent" })
+        results.push({ quoteId: quote.id, status, step: historyBase.step_index, channel: step.channel, detail })
       } catch (error) {
+        const message = error instanceof Error ? error.message : String(error)
         console.error(`Failed to process follow-up for quote ${quote.id}:`, error)
-        await fetch(`${supabaseUrl}/rest/v1/shipping_quotes?id=eq.${quote.id}`, {
-          method: "PATCH",
-          headers: {
-            Authorization: `Bearer ${serviceRoleKey}`,
-            apikey: serviceRoleKey,
-            "Content-Type": "application/json",
-            Prefer: "return=representation"
-          },
-          body: JSON.stringify({
-            follow_up_status: "failed",
-            follow_up_error: error instanceof Error ? error.message : String(error)
-          })
-        })
-        results.push({
-          quoteId: quote.id,
-          status: "failed",
-          error: error instanceof Error ? error.message : String(error)
+        await recordHistory(supabaseUrl, serviceRoleKey, { ...historyBase, status: "failed", detail: message })
+        await patchQuote(supabaseUrl, serviceRoleKey, quote.id, {
+          ...(manual ? {} : { follow_up_status: "failed" }),
+          follow_up_error: message
         })
+        results.push({ quoteId: quote.id, status: "failed", error: message })
       }
     }
 
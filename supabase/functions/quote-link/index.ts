@@ -0,0 +1,189 @@
+import {
+  createErrorResponse,
+  createSuccessResponse,
+  handleOptions
+} from '../_shared/auth-utils.ts'
+import { parseQuoteLinkParams, verifyQuoteLink } from '../_shared/quote-link-utils.ts'
+import {
+  parseDeclineReason,
+  parseLostReason,
+  quoteDecisionBlocker,
+  recordQuoteEvent
+} from '../_shared/quote-decision-utils.ts'
+
+type LinkAction = 'view' | 'accept' | 'decline'
+
+interface RequestPayload {
+  action?: LinkAction
+  q?: number | string
+  exp?: number | string
+  sig?: string
+  reason?: string
+  lost_reason?: string
+  // The quote the customer was shown; a decision only applies to that revision
+  viewed_quote_id?: number | string
+}
+
+function restHeaders(serviceRoleKey: string, extra: Record<string, string> = {}) {
+  return {
+    Authorization: `Bearer ${serviceRoleKey}`,
+    apikey: serviceRoleKey,
+    'Content-Type': 'application/json',
+    ...extra
+  }
+}
+
+async function fetchQuotes(supabaseUrl: string, serviceRoleKey: string, filter: string) {
+  const response = await fetch(`${supabaseUrl}/rest/v1/shipping_quotes?${filter}&select=*`, {
+    headers: restHeaders(serviceRoleKey)
+  })
+  if (!response.ok) {
+    throw new Error('Failed to load quote.')
+  }
+  const rows = await response.json()
+  return Array.isArray(rows) ? rows : []
+}
+
+/** Fields the public page needs; pricing internals and notes stay server-side. */
+function publicQuote(quote: any) {
+  const metadata = quote.quote_metadata ?? {}
+  return {
+    id: quote.id,
+    quote_reference: quote.quote_reference,
+    status: quote.status,
+    full_name: quote.full_name,
+    service_type: quote.service_type,
+    weight_lbs: Number(quote.weight_lbs),
+    declared_value: Number(quote.declared_value ?? 0),
+    total_cost: Number(quote.total_cost),
+    quote_expires_at: quote.quote_expires_at,
+    created_at: quote.created_at,
+    destination: metadata.destination ?? null,
+    transit_label: metadata.transit_label ?? null,
+    local_total: metadata.fx ? { currency: metadata.fx.currency, amount: metadata.fx.local_total } : null,
+    accepted_at: quote.accepted_at ?? null,
+    declined_at: quote.declined_at ?? null,
+    decline_reason: quote.decline_reason ?? null
+  }
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return handleOptions()
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+    const linkSecret = Deno.env.get('QUOTE_LINK_SECRET')
+
+    if (!supabaseUrl || !serviceRoleKey || !linkSecret) {
+      return createErrorResponse('CONFIG_MISSING', 'Quote link configuration is missing.')
+    }
+
+    const payload: RequestPayload = await req.json().catch(() => ({}))
+    const action = payload.action ?? 'view'
+
+    const params = parseQuoteLinkParams(payload as Record<string, unknown>)
+    const check = await verifyQuoteLink(params, linkSecret)
+    if (!check.valid) {
+      return check.reason === 'expired'
+        ? createErrorResponse('LINK_EXPIRED', 'This quote link has expired. Please request a new quote.', 410)
+        : createErrorResponse('LINK_INVALID', 'This quote link is not valid.', 403)
+    }
+
+    const [linkedQuote] = await fetchQuotes(supabaseUrl, serviceRoleKey, `id=eq.${params!.quoteId}`)
+    if (!linkedQuote) {
+      return createErrorResponse('NOT_FOUND', 'Quote not found.', 404)
+    }
+
+    // Links from an earlier revision open the current one
+    let quote = linkedQuote
+    if (linkedQuote.is_latest_revision === false && linkedQuote.base_reference) {
+      const [latest] = await fetchQuotes(
+        supabaseUrl,
+        serviceRoleKey,
+        `base_reference=eq.${encodeURIComponent(linkedQuote.base_reference)}&is_latest_revision=eq.true`
+      )
+      quote = latest ?? linkedQuote
+    }
+    const revised = quote.id !== linkedQuote.id
+    const userAgent = req.headers.get('user-agent')
+
+    if (action === 'view') {
+      await recordQuoteEvent(supabaseUrl, serviceRoleKey, { quoteId: quote.id, eventType: 'viewed', source: 'public_link', userAgent })
+      return createSuccessResponse({
+        quote: publicQuote(quote),
+        document_html: quote.quote_document_html ?? null,
+        revised
+      })
+    }
+
+    if (action !== 'accept' && action !== 'decline') {
+      return createErrorResponse('INVALID_ACTION', `Unsupported action: ${action}`, 400)
+    }
+
+    const viewedQuoteId = Number(payload.viewed_quote_id)
+    if (!Number.isInteger(viewedQuoteId) || viewedQuoteId <= 0) {
+      return createErrorResponse('VALIDATION_ERROR', 'viewed_quote_id is required.', 400)
+    }
+    if (viewedQuoteId !== quote.id) {
+      return createErrorResponse('QUOTE_CHANGED', 'This quote was updated while you were viewing it. Please reload the page.', 409)
+    }
+
+    const blocker = quoteDecisionBlocker(quote)
+    if (blocker) {
+      return createErrorResponse(blocker.code, blocker.message, 409)
+    }
+
+    const decidedAt = new Date().toISOString()
+    let update: Record<string, unknown>
+    let reason: string | null = null
+
+    if (action === 'accept') {
+      update = { status: 'won', accepted_at: decidedAt, follow_up_status: 'converted' }
+    } else {
+      const lostReason = parseLostReason(payload.lost_reason)
+      reason = parseDeclineReason(payload.reason)
+      if (!lostReason || (lostReason === 'other' && !reason)) {
+        return createErrorResponse('VALIDATION_ERROR', 'Please tell us why you are declining.', 400)
+      }
+      update = {
+        status: 'lost',
+        declined_at: decidedAt,
+        decline_reason: reason,
+        lost_reason: lostReason,
+        lost_reason_detail: reason,
+        lost_at: decidedAt,
+        follow_up_status: 'declined'
+      }
+    }
+
+    // status=eq.pending keeps a concurrent revision or admin update from being overwritten
+    const updateResponse = await fetch(
+      `${supabaseUrl}/rest/v1/shipping_quotes?id=eq.${viewedQuoteId}&status=eq.pending&is_latest_revision=eq.true`,
+      {
+        method: 'PATCH',
+        headers: restHeaders(serviceRoleKey, { Prefer: 'return=representation' }),
+        body: JSON.stringify(update)
+      }
+    )
+    if (!updateResponse.ok) {
+      console.error('Quote decision failed:', await updateResponse.text())
+      return createErrorResponse('QUOTE_DECISION_FAILED', 'Unable to save your response.')
+    }
+    const updatedRows = await updateResponse.json()
+    if (!Array.isArray(updatedRows) || updatedRows.length === 0) {
+      return createErrorResponse('QUOTE_CHANGED', 'This quote was updated while you were viewing it. Please reload the page.', 409)
+    }
+
+    const eventType = action === 'accept' ? 'accepted' : 'declined'
+    await recordQuoteEvent(supabaseUrl, serviceRoleKey, { quoteId: quote.id, eventType, source: 'public_link', reason, userAgent })
+    console.log(`Quote ${eventType} via public link:`, { quote_id: quote.id, quote_reference: quote.quote_reference })
+
+    return createSuccessResponse({ quote: publicQuote(updatedRows[0]), revised })
+  } catch (error) {
+    console.error('Quote link error:', error)
+    return createErrorResponse('QUOTE_LINK_FAILED', error instanceof Error ? error.message : 'Unexpected error')
+  }
+})
@@ -4,10 +4,27 @@ import {
   QuoteDocumentPayload,
   generateQuoteHtml,
   generateQuotePdf,
-  generateQuoteReference
+  generateQuoteReference,
+  quoteAcceptUrl
 } from "../_shared/quote-utils.ts"
 import { generateNotificationText } from "../_shared/email-utils.ts"
 import { formatWhatsAppNumber, sendWhatsAppMessage } from "../_shared/whatsapp-utils.ts"
+import {
+  coerceNumber,
+  fetchEffectivePricingRules,
+  fetchRateSettings,
+  INSURANCE_SETTING_KEY,
+  parseInsuranceRules,
+  describeMeasurements,
+  parseUnits,
+  rateShipment,
+  resolvePieces,
+  roundToTwo
+} from "../_shared/rating-utils.ts"
+import { fetchAccessorialCatalog, parseAccessorialRequest } from "../_shared/accessorial-utils.ts"
+import { convertFromUsd, fetchFxSnapshot, parseDisplayCurrency } from "../_shared/fx-utils.ts"
+import { buildQuoteLinkUrl } from "../_shared/quote-link-utils.ts"
+import { fetchFollowUpCadences, scheduleFromStep, selectCadence } from "../_shared/follow-up-cadence-utils.ts"
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -28,9 +45,13 @@ Deno.serve(async (req) => {
       destinationId,
       weight,
       dimensions,
+      pieces,
+      units,
       serviceType = "standard",
       declaredValue = 0,
       rateBreakdown,
+      accessorials,
+      displayCurrency,
       specialInstructions
     } = await req.json()
 
@@ -38,31 +59,19 @@ Deno.serve(async (req) => {
       throw new Error("Customer name and email are required")
     }
 
-    if (!destinationId || !weight) {
+    if (!destinationId || (!weight && !Array.isArray(pieces))) {
       throw new Error("Destination and weight are required")
     }
 
     const supabaseUrl = Deno.env.get("SUPABASE_URL")
     const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")
     const resendApiKey = Deno.env.get("RESEND_API_KEY")
+    const quoteLinkSecret = Deno.env.get("QUOTE_LINK_SECRET")
 
     if (!supabaseUrl || !serviceRoleKey) {
       throw new Error("Supabase configuration missing")
     }
 
-    const coerceNumber = (value: unknown): number | null => {
-      if (typeof value === "number" && Number.isFinite(value)) {
-        return value
-      }
-      if (typeof value === "string" && value.trim() !== "") {
-        const parsed = parseFloat(value)
-        return Number.isFinite(parsed) ? parsed : null
-      }
-      return null
-    }
-
-    const roundToTwo = (value: number) => parseFloat(value.toFixed(2))
-
     let customerId: string | null = null
     const authHeader = req.headers.get("authorization")
     if (authHeader) {
@@ -90,7 +99,7 @@ Deno.serve(async (req) => {
     followUpDueAt.setDate(followUpDueAt.getDate() + 3)
 
     const destinationResponse = await fetch(
-      `${supabaseUrl}/rest/v1/destinations?id=eq.${destinationId}&select=country_name,city_name,airport_code,transit_days_min,transit_days_max,rate_per_lb_1_50,rate_per_lb_51_100,rate_per_lb_101_200,rate_per_lb_201_plus,express_surcharge_percent`,
+      `${supabaseUrl}/rest/v1/destinations?id=eq.${destinationId}&select=country_name,city_name,airport_code,transit_days_min,transit_days_max,dim_divisor_standard,dim_divisor_express,rate_per_lb_1_50,rate_per_lb_51_100,rate_per_lb_101_200,rate_per_lb_201_plus,express_surcharge_percent,local_currency`,
       {
         headers: {
           Authorization: `Bearer ${serviceRoleKey}`,
@@ -109,17 +118,22 @@ Deno.serve(async (req) => {
     }
 
     const destination = destinationData[0]
-    const weightValue = coerceNumber(weight)
-    if (!weightValue || weightValue <= 0) {
+    const measurementUnits = parseUnits(units)
+    const shipmentPieces = resolvePieces(pieces, weight, dimensions, measurementUnits)
+    if (shipmentPieces.length === 0) {
       throw new Error("Valid shipment weight is required")
     }
 
     const declaredValueNumber = Math.max(0, coerceNumber(declaredValue) ?? 0)
 
+    // Single-piece quotes keep filling the dimension columns; multi-piece
+    // quotes carry the piece list in quote_metadata instead.
+    const singlePiece = shipmentPieces.length === 1 && shipmentPieces[0].quantity === 1 ? shipmentPieces[0] : null
+    const roundedSide = (value: number | null | undefined) => (typeof value === "number" ? roundToTwo(value) : null)
     const normalizedDimensions = {
-      length: coerceNumber(dimensions?.length),
-      width: coerceNumber(dimensions?.width),
-      height: coerceNumber(dimensions?.height)
+      length: roundedSide(singlePiece?.length),
+      width: roundedSide(singlePiece?.width),
+      height: roundedSide(singlePiece?.height)
     }
 
     const hasDimensions =
@@ -127,57 +141,35 @@ Deno.serve(async (req) => {
       typeof normalizedDimensions.width === "number" &&
       typeof normalizedDimensions.height === "number"
 
-    let dimensionalWeight: number | null = null
-    let billableWeight = weightValue
-    if (hasDimensions) {
-      dimensionalWeight =
-        ((normalizedDimensions.length as number) *
-          (normalizedDimensions.width as number) *
-          (normalizedDimensions.height as number)) /
-        166
-      billableWeight = Math.max(weightValue, dimensionalWeight)
-    }
-
-    const rateTier1 = coerceNumber(destination.rate_per_lb_1_50) ?? 0
-    const rateTier2 = coerceNumber(destination.rate_per_lb_51_100) ?? rateTier1
-    const rateTier3 = coerceNumber(destination.rate_per_lb_101_200) ?? rateTier2
-    const rateTier4 = coerceNumber(destination.rate_per_lb_201_plus) ?? rateTier3
-
-    let ratePerLb = rateTier4
-    if (billableWeight <= 50) {
-      ratePerLb = rateTier1
-    } else if (billableWeight <= 100) {
-      ratePerLb = rateTier2
-    } else if (billableWeight <= 200) {
-      ratePerLb = rateTier3
-    }
-
-    let baseShippingCostRaw = billableWeight * ratePerLb
-    let expressSurchargeRaw = 0
-    const expressPercent = coerceNumber(destination.express_surcharge_percent) ?? 0
-    if (serviceType === "express") {
-      expressSurchargeRaw = baseShippingCostRaw * (expressPercent / 100)
-      baseShippingCostRaw += expressSurchargeRaw
-    }
-
-    const handlingFeeRaw = billableWeight > 70 ? 20 : 0
-    const consolidationFeeInput = coerceNumber(rateBreakdown?.consolidationFee)
-    const consolidationFee =
-      consolidationFeeInput && consolidationFeeInput > 0 ? roundToTwo(consolidationFeeInput) : 0
-    const insuranceCostRaw =
-      declaredValueNumber > 100 ? Math.max(15, ((declaredValueNumber - 100) / 100) * 7.5) : 0
-
-    const totalCostRaw = baseShippingCostRaw + consolidationFee + handlingFeeRaw + insuranceCostRaw
-
-    const computedRateBreakdown = {
-      ratePerLb: roundToTwo(ratePerLb),
-      baseShippingCost: roundToTwo(baseShippingCostRaw),
-      expressSurcharge: roundToTwo(expressSurchargeRaw),
-      consolidationFee,
-      handlingFee: roundToTwo(handlingFeeRaw),
-      insuranceCost: roundToTwo(insuranceCostRaw),
-      totalCost: roundToTwo(totalCostRaw)
-    }
+    const accessorialRequest = parseAccessorialRequest(accessorials)
+    // "USD" opts out of the destination's local currency
+    const localCurrency = displayCurrency === "USD"
+      ? null
+      : parseDisplayCurrency(displayCurrency) ?? parseDisplayCurrency(destination.local_currency)
+    const ratedAt = new Date()
+    const [pricingRules, rateSettings, accessorialCatalog, fxSnapshot] = await Promise.all([
+      fetchEffectivePricingRules(supabaseUrl, serviceRoleKey, Number(destinationId), ratedAt),
+      fetchRateSettings(supabaseUrl, serviceRoleKey, [INSURANCE_SETTING_KEY]),
+      fetchAccessorialCatalog(supabaseUrl, serviceRoleKey),
+      localCurrency ? fetchFxSnapshot(supabaseUrl, serviceRoleKey, localCurrency, ratedAt) : Promise.resolve(null)
+    ])
+    const rating = rateShipment({
+      destinationId: Number(destinationId),
+      destination,
+      pricingRules,
+      serviceType,
+      pieces: shipmentPieces,
+      declaredValue: declaredValueNumber,
+      accessorials: accessorialRequest,
+      accessorialCatalog,
+      insuranceRules: parseInsuranceRules(rateSettings[INSURANCE_SETTING_KEY]),
+      at: ratedAt
+    })
+    const rateTier = rating.tier
+    const weightValue = rating.weight.actual
+    const dimensionalWeight = rating.weight.dimensional
+    const billableWeight = rating.weight.billable
+    const computedRateBreakdown = rating.rateBreakdown
 
     const clientRateSnapshot = rateBreakdown
       ? {
@@ -237,13 +229,27 @@ Deno.serve(async (req) => {
       throw new Error('Quote request rejected: Rate calculation discrepancy detected. Please recalculate your quote.');
     }
 
-    const minDays = serviceType === "express" ? Math.max(1, destination.transit_days_min - 1) : destination.transit_days_min
-    const maxDays = serviceType === "express" ? Math.max(2, destination.transit_days_max - 1) : destination.transit_days_max
+    const { min: minDays, max: maxDays } = rating.transit
     const estimatedTransitDays = Math.round((minDays + maxDays) / 2)
     const transitLabel = `${minDays}-${maxDays} business days`
 
     const quoteReference = generateQuoteReference(destination.airport_code)
 
+    const documentPieces = rating.pieces.map(piece => ({
+      description: piece.description,
+      quantity: piece.quantity,
+      weightLbs: roundToTwo(piece.unitWeight),
+      dimensions: piece.dimensions
+        ? {
+            length: roundToTwo(piece.dimensions.length),
+            width: roundToTwo(piece.dimensions.width),
+            height: roundToTwo(piece.dimensions.height)
+          }
+        : null,
+      dimensionalWeightLbs: piece.unitDimensionalWeight === null ? null : roundToTwo(piece.unitDimensionalWeight),
+      billableWeightLbs: roundToTwo(piece.billableWeight)
+    }))
+
     const documentDimensions = hasDimensions
       ? {
           length: normalizedDimensions.length ?? undefined,
@@ -277,6 +283,7 @@ Deno.serve(async (req) => {
         billableWeightLbs: roundToTwo(billableWeight),
         dimensionalWeightLbs: dimensionalWeight ? roundToTwo(dimensionalWeight) : null,
         dimensions: documentDimensions,
+        pieces: singlePiece ? undefined : documentPieces,
         declaredValue: roundToTwo(declaredValueNumber),
         serviceType
       },
@@ -286,7 +293,8 @@ Deno.serve(async (req) => {
         handlingFee: computedRateBreakdown.handlingFee,
         insuranceCost: computedRateBreakdown.insuranceCost,
         totalCost: computedRateBreakdown.totalCost,
-        expressSurcharge: computedRateBreakdown.expressSurcharge
+        expressSurcharge: computedRateBreakdown.expressSurcharge,
+        accessorials: computedRateBreakdown.accessorials
       },
       transitEstimate: {
         min: minDays,
@@ -294,9 +302,10 @@ Deno.serve(async (req) => {
         average: estimatedTransitDays,
         label: transitLabel
       },
+      localCurrency: fxSnapshot,
       notes: specialInstructions || null,
       terms: DEFAULT_TERMS,
-      callToActionUrl: `${COMPANY_CONTACT.website}/booking`
+      callToActionUrl: quoteAcceptUrl(quoteReference)
     }
 
     const quoteDocumentHtml = generateQuoteHtml(quoteDocumentPayload)
@@ -314,7 +323,34 @@ Deno.serve(async (req) => {
       console.error("Failed to generate quote PDF:", error)
     }
 
+    // The cadence is chosen at issue time; without one the quote keeps the
+    // single three-day reminder
+    const followUpCadence = await fetchFollowUpCadences(supabaseUrl, serviceRoleKey)
+      .then(cadences => selectCadence(cadences, { destination_id: Number(destinationId), total_cost: computedRateBreakdown.totalCost }))
+      .catch(error => {
+        console.error("Could not load follow-up cadences:", error)
+        return null
+      })
+    const followUpSchedule = followUpCadence
+      ? scheduleFromStep(
+          {
+            destination_id: Number(destinationId),
+            total_cost: computedRateBreakdown.totalCost,
+            created_at: issuedAt,
+            quote_expires_at: expiresAt.toISOString()
+          },
+          followUpCadence,
+          0
+        )
+      : {
+          follow_up_step: 0,
+          follow_up_due_at: followUpDueAt.toISOString(),
+          follow_up_status: "scheduled" as const
+        }
+
     const quoteMetadata: Record<string, unknown> = {
+      pieces: documentPieces,
+      measurements: describeMeasurements(rating, measurementUnits),
       transit_label: transitLabel,
       transit_estimate: {
         min: minDays,
@@ -323,9 +359,9 @@ Deno.serve(async (req) => {
         label: transitLabel
       },
       terms: DEFAULT_TERMS,
-      follow_up_due_at: followUpDueAt.toISOString(),
-      follow_up_window_days: 3,
-      call_to_action: `${COMPANY_CONTACT.website}/booking`,
+      follow_up_due_at: followUpSchedule.follow_up_due_at,
+      follow_up_cadence: followUpCadence?.name ?? null,
+      call_to_action: quoteAcceptUrl(quoteReference),
       destination: {
         country: destination.country_name,
         city: destination.city_name,
@@ -337,7 +373,19 @@ Deno.serve(async (req) => {
         dimensional: dimensionalWeight ? roundToTwo(dimensionalWeight) : null,
         rate_per_lb: computedRateBreakdown.ratePerLb
       },
+      pricing: {
+        source: rateTier.source,
+        pricing_rule_id: rateTier.ruleId,
+        rule_effective_date: rateTier.effectiveDate,
+        tier_weight_min: rateTier.weightMin,
+        tier_weight_max: rateTier.weightMax,
+        rated_at: ratedAt.toISOString()
+      },
       rate_breakdown: computedRateBreakdown,
+      accessorial_request: accessorialRequest,
+      fx: fxSnapshot
+        ? { ...fxSnapshot, local_total: convertFromUsd(computedRateBreakdown.totalCost, fxSnapshot) }
+        : null,
       calculation_flagged: false, // No tampering since we reject on any discrepancy
       calculation_validated_at: issuedAt
     }
@@ -371,10 +419,11 @@ Deno.serve(async (req) => {
       quote_expires_at: expiresAt.toISOString(),
       created_at: issuedAt,
       quote_reference: quoteReference,
+      base_reference: quoteReference,
       quote_document_html: quoteDocumentHtml,
       quote_metadata: quoteMetadata,
-      follow_up_status: "scheduled",
-      follow_up_due_at: followUpDueAt.toISOString(),
+      ...followUpSchedule,
+      follow_up_cadence_id: followUpCadence?.id ?? null,
       last_follow_up_at: null,
       follow_up_method: "email",
       pdf_attachment_present: Boolean(quoteDocumentPdfBase64)
@@ -399,14 +448,29 @@ Deno.serve(async (req) => {
     const savedQuote = await quoteResponse.json()
     const quoteRecord = savedQuote[0]
 
+    // The emailed copy links to the signed public page so the customer can
+    // respond without signing in; the stored document keeps the dashboard link.
+    const publicQuoteUrl = quoteLinkSecret
+      ? await buildQuoteLinkUrl(COMPANY_CONTACT.website, quoteRecord.id, quoteRecord.quote_expires_at, quoteLinkSecret)
+      : null
+    const emailDocumentHtml = publicQuoteUrl
+      ? generateQuoteHtml({ ...quoteDocumentPayload, callToActionUrl: publicQuoteUrl })
+      : quoteDocumentHtml
+
     const expirationLabel = expiresAt.toLocaleDateString('en-US', { dateStyle: 'medium' })
     const notificationContent = {
       title: `Quote ${quoteReference} Ready`,
       message: `Hi ${customerInfo.fullName}, your QCS Cargo quote ${quoteReference} is ready to review.`,
       actionText: 'View Quote Details',
-      actionUrl: `${COMPANY_CONTACT.website}/dashboard/quotes`,
+      actionUrl: publicQuoteUrl ?? `${COMPANY_CONTACT.website}/dashboard/quotes`,
       details: [
         { label: 'Total Cost', value: `$${computedRateBreakdown.totalCost.toFixed(2)}` },
+        ...(fxSnapshot
+          ? [{
+              label: `Approx. in ${fxSnapshot.currency}`,
+              value: convertFromUsd(computedRateBreakdown.totalCost, fxSnapshot).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })
+            }]
+          : []),
         { label: 'Transit Estimate', value: transitLabel },
         { label: 'Expires', value: expirationLabel }
       ],
@@ -422,7 +486,7 @@ Deno.serve(async (req) => {
           from: `${COMPANY_CONTACT.name} <${COMPANY_CONTACT.email}>`,
           to: [customerInfo.email],
           subject: `Your QCS Cargo Quote ${quoteReference}`,
-          html: quoteDocumentHtml,
+          html: emailDocumentHtml,
           reply_to: COMPANY_CONTACT.email,
           tags: [
             { name: "quote_reference", value: quoteReference },
@@ -509,7 +573,9 @@ Deno.serve(async (req) => {
         calculationFlagged: false, // No tampering since we reject on any discrepancy
         billableWeight: roundToTwo(billableWeight),
         dimensionalWeight: dimensionalWeight ? roundToTwo(dimensionalWeight) : null,
-        ratePerLb: computedRateBreakdown.ratePerLb
+        ratePerLb: computedRateBreakdown.ratePerLb,
+        measurements: quoteMetadata.measurements,
+        localCurrency: quoteMetadata.fx
       }
 
     return new Response(JSON.stringify({ data: result }), {
@@ -1,3 +1,16 @@
+import {
+    fetchEffectivePricingRules,
+    fetchRateSettings,
+    INSURANCE_SETTING_KEY,
+    parseInsuranceRules,
+    describeMeasurements,
+    parseUnits,
+    rateShipment,
+    resolvePieces,
+    roundToTwo
+} from '../_shared/rating-utils.ts';
+import { fetchAccessorialCatalog, parseAccessorialRequest } from '../_shared/accessorial-utils.ts';
+
 Deno.serve(async (req) => {
     const corsHeaders = {
         'Access-Control-Allow-Origin': '*',
@@ -12,9 +25,12 @@ Deno.serve(async (req) => {
     }
 
     try {
-        const { weight, dimensions, destinationId, serviceType = 'standard', declaredValue = 0 } = await req.json();
+        const { weight, dimensions, pieces, units, destinationId, serviceType = 'standard', declaredValue = 0, accessorials } = await req.json();
 
-        if (!weight || weight <= 0) {
+        // Either a pieces array or the legacy single weight/dimensions, in lb/in or kg/cm
+        const measurementUnits = parseUnits(units);
+        const shipmentPieces = resolvePieces(pieces, weight, dimensions, measurementUnits);
+        if (shipmentPieces.length === 0) {
             throw new Error('Valid weight is required');
         }
 
@@ -49,81 +65,54 @@ Deno.serve(async (req) => {
 
         const destination = destinations[0];
 
-        // Calculate dimensional weight if dimensions provided
-        let billableWeight = weight;
-        let dimensionalWeight = null;
-        
-        if (dimensions && dimensions.length && dimensions.width && dimensions.height) {
-            dimensionalWeight = (dimensions.length * dimensions.width * dimensions.height) / 166;
-            billableWeight = Math.max(weight, dimensionalWeight);
-        }
-
-        // Determine rate based on weight tiers
-        let ratePerLb;
-        if (billableWeight <= 50) {
-            ratePerLb = destination.rate_per_lb_1_50;
-        } else if (billableWeight <= 100) {
-            ratePerLb = destination.rate_per_lb_51_100;
-        } else if (billableWeight <= 200) {
-            ratePerLb = destination.rate_per_lb_101_200;
-        } else {
-            ratePerLb = destination.rate_per_lb_201_plus;
-        }
-
-        let baseShippingCost = billableWeight * ratePerLb;
-
-        // Apply express surcharge if needed
-        let expressSurcharge = 0;
-        if (serviceType === 'express') {
-            expressSurcharge = baseShippingCost * (destination.express_surcharge_percent / 100);
-            baseShippingCost += expressSurcharge;
-        }
-
-        // Calculate additional fees
-        const consolidationFee = 0; // Will be added manually by user
-        const handlingFee = billableWeight > 70 ? 20 : 0;
-        
-        // Calculate insurance
-        let insuranceCost = 0;
-        if (declaredValue > 100) {
-            insuranceCost = Math.max(15, ((declaredValue - 100) / 100) * 7.50);
-        }
-
-        const totalCost = baseShippingCost + consolidationFee + handlingFee + insuranceCost;
-
-        // Calculate transit time
-        let transitDaysMin = destination.transit_days_min;
-        let transitDaysMax = destination.transit_days_max;
-        
-        if (serviceType === 'express') {
-            transitDaysMin = Math.max(1, transitDaysMin - 1);
-            transitDaysMax = Math.max(2, transitDaysMax - 1);
-        }
+        // Rate through the shared engine so the calculator, quotes and the
+        // public rates page always agree.
+        const ratedAt = new Date();
+        const [pricingRules, settings, accessorialCatalog] = await Promise.all([
+            fetchEffectivePricingRules(supabaseUrl, serviceRoleKey, destination.id, ratedAt),
+            fetchRateSettings(supabaseUrl, serviceRoleKey, [INSURANCE_SETTING_KEY]),
+            fetchAccessorialCatalog(supabaseUrl, serviceRoleKey)
+        ]);
+
+        const rating = rateShipment({
+            destinationId: destination.id,
+            destination,
+            pricingRules,
+            serviceType,
+            pieces: shipmentPieces,
+            declaredValue,
+            accessorials: parseAccessorialRequest(accessorials),
+            accessorialCatalog,
+            insuranceRules: parseInsuranceRules(settings[INSURANCE_SETTING_KEY]),
+            at: ratedAt
+        });
 
         const result = {
             destination: {
                 country: destination.country_name,
                 city: destination.city_name
             },
-            weight: {
-                actual: weight,
-                dimensional: dimensionalWeight,
-                billable: billableWeight
-            },
+            weight: rating.weight,
+            pieces: rating.pieces.map(piece => ({
+                description: piece.description,
+                quantity: piece.quantity,
+                dimensions: piece.dimensions,
+                unitWeight: roundToTwo(piece.unitWeight),
+                unitDimensionalWeight: piece.unitDimensionalWeight === null ? null : roundToTwo(piece.unitDimensionalWeight),
+                unitBillableWeight: roundToTwo(piece.unitBillableWeight),
+                billableWeight: roundToTwo(piece.billableWeight)
+            })),
+            measurements: describeMeasurements(rating, measurementUnits),
             serviceType,
             rateBreakdown: {
-                ratePerLb,
-                baseShippingCost: parseFloat(baseShippingCost.toFixed(2)),
-                expressSurcharge: parseFloat(expressSurcharge.toFixed(2)),
-                consolidationFee,
-                handlingFee,
-                insuranceCost: parseFloat(insuranceCost.toFixed(2)),
-                totalCost: parseFloat(totalCost.toFixed(2))
+                ...rating.rateBreakdown,
+                rateSource: rating.tier.source,
+                pricingRuleId: rating.tier.ruleId
             },
             transitTime: {
-                min: transitDaysMin,
-                max: transitDaysMax,
-                estimate: `${transitDaysMin}-${transitDaysMax} business days`
+                min: rating.transit.min,
+                max: rating.transit.max,
+                estimate: `${rating.transit.min}-${rating.transit.max} business days`
             },
             declaredValue
         };
@@ -0,0 +1,65 @@
+-- Migration: 1760000000_pricing_rules_effective_dating.sql
+-- Purpose: Make pricing_rules usable by the shared rating engine
+--          (shipping-calculator and quote-request) with scheduled rate changes
+
+-- ============================================================================
+-- PART 1: Normalize effective dating
+-- ============================================================================
+
+UPDATE public.pricing_rules
+   SET effective_date = COALESCE(effective_date, created_at, NOW())
+ WHERE effective_date IS NULL;
+
+ALTER TABLE public.pricing_rules
+  ALTER COLUMN effective_date SET NOT NULL;
+
+ALTER TABLE public.pricing_rules
+  DROP CONSTRAINT IF EXISTS pricing_rules_effective_window_check;
+
+ALTER TABLE public.pricing_rules
+  ADD CONSTRAINT pricing_rules_effective_window_check
+  CHECK (expiry_date IS NULL OR expiry_date > effective_date);
+
+ALTER TABLE public.pricing_rules
+  DROP CONSTRAINT IF EXISTS pricing_rules_weight_band_check;
+
+ALTER TABLE public.pricing_rules
+  ADD CONSTRAINT pricing_rules_weight_band_check
+  CHECK (weight_min >= 0 AND (weight_max IS NULL OR weight_max > weight_min));
+
+ALTER TABLE public.pricing_rules
+  DROP CONSTRAINT IF EXISTS pricing_rules_service_type_check;
+
+ALTER TABLE public.pricing_rules
+  ADD CONSTRAINT pricing_rules_service_type_check
+  CHECK (service_type IN ('standard', 'express'));
+
+-- ============================================================================
+-- PART 2: Lookup index for (destination, service, date) resolution
+-- ============================================================================
+
+CREATE INDEX IF NOT EXISTS pricing_rules_destination_lookup_idx
+  ON public.pricing_rules (destination_id, service_type, effective_date DESC)
+  WHERE is_active = true;
+
+-- ============================================================================
+-- PART 3: RLS - rates are public to read, admin-managed
+-- ============================================================================
+
+ALTER TABLE public.pricing_rules ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS pricing_rules_public_select ON public.pricing_rules;
+CREATE POLICY pricing_rules_public_select
+  ON public.pricing_rules
+  FOR SELECT
+  USING (is_active = true);
+
+DROP POLICY IF EXISTS pricing_rules_admin_all ON public.pricing_rules;
+CREATE POLICY pricing_rules_admin_all
+  ON public.pricing_rules
+  FOR ALL
+  USING (public.is_admin())
+  WITH CHECK (public.is_admin());
+
+COMMENT ON COLUMN public.pricing_rules.effective_date IS 'Rule applies from this instant (inclusive)';
+COMMENT ON COLUMN public.pricing_rules.expiry_date IS 'Rule stops applying at this instant (exclusive); NULL means open-ended';
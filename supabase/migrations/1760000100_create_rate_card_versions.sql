@@ -0,0 +1,173 @@
+-- Migration: 1760000100_create_rate_card_versions.sql
+-- Purpose: Versioned rate cards for the admin rate editor (/admin/rates).
+--          Drafts are stored as a tier grid; publishing materializes the grid
+--          into pricing_rules and expires the rules it replaces.
+
+-- ============================================================================
+-- PART 1: rate_card_versions
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.rate_card_versions (
+  id SERIAL PRIMARY KEY,
+  destination_id INTEGER NOT NULL REFERENCES public.destinations(id) ON DELETE CASCADE,
+  version_number INTEGER NOT NULL,
+  status TEXT NOT NULL DEFAULT 'draft'
+    CHECK (status IN ('draft', 'published', 'superseded', 'discarded')),
+  tiers JSONB NOT NULL DEFAULT '[]'::jsonb,
+  notes TEXT,
+  effective_date TIMESTAMPTZ,
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  published_at TIMESTAMPTZ,
+  published_by UUID REFERENCES auth.users(id),
+  UNIQUE (destination_id, version_number)
+);
+
+CREATE INDEX IF NOT EXISTS rate_card_versions_destination_idx
+  ON public.rate_card_versions (destination_id, version_number DESC);
+
+ALTER TABLE public.rate_card_versions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS rate_card_versions_admin_all ON public.rate_card_versions;
+CREATE POLICY rate_card_versions_admin_all
+  ON public.rate_card_versions
+  FOR ALL
+  USING (public.is_admin())
+  WITH CHECK (public.is_admin());
+
+ALTER TABLE public.pricing_rules
+  ADD COLUMN IF NOT EXISTS rate_card_version_id INTEGER REFERENCES public.rate_card_versions(id);
+
+-- ============================================================================
+-- PART 2: Atomic publish
+-- ============================================================================
+
+-- A published version is superseded once a later published version has
+-- reached its effective date. Run on publish and whenever versions are listed,
+-- so a future-dated card takes over from the live one on its date.
+CREATE OR REPLACE FUNCTION public.settle_rate_card_versions(p_destination_id INTEGER)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE public.rate_card_versions v
+     SET status = 'superseded',
+         updated_at = NOW()
+   WHERE v.destination_id = p_destination_id
+     AND v.status = 'published'
+     AND EXISTS (
+       SELECT 1
+         FROM public.rate_card_versions later
+        WHERE later.destination_id = v.destination_id
+          AND later.status = 'published'
+          AND later.effective_date <= NOW()
+          AND later.effective_date > v.effective_date
+     );
+$$;
+
+REVOKE ALL ON FUNCTION public.settle_rate_card_versions(INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.settle_rate_card_versions(INTEGER) TO service_role;
+-- Each tier in rate_card_versions.tiers is an object:
+--   { service_type, weight_min, weight_max, rate_per_lb, express_surcharge_percent }
+
+CREATE OR REPLACE FUNCTION public.publish_rate_card_version(
+  p_version_id INTEGER,
+  p_effective_date TIMESTAMPTZ,
+  p_published_by UUID
+)
+RETURNS public.rate_card_versions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_version public.rate_card_versions;
+  v_effective TIMESTAMPTZ := COALESCE(p_effective_date, NOW());
+BEGIN
+  SELECT * INTO v_version
+    FROM public.rate_card_versions
+   WHERE id = p_version_id
+   FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Rate card version % not found', p_version_id;
+  END IF;
+
+  IF v_version.status <> 'draft' THEN
+    RAISE EXCEPTION 'Only draft rate cards can be published (version % is %)', p_version_id, v_version.status;
+  END IF;
+
+  IF jsonb_array_length(v_version.tiers) = 0 THEN
+    RAISE EXCEPTION 'Rate card version % has no tiers', p_version_id;
+  END IF;
+
+  -- Rules scheduled to start on or after the new effective date never take effect
+  UPDATE public.pricing_rules
+     SET is_active = false
+   WHERE destination_id = v_version.destination_id
+     AND is_active = true
+     AND effective_date >= v_effective;
+
+  -- Rules currently running stop the instant the new card starts
+  UPDATE public.pricing_rules
+     SET expiry_date = v_effective
+   WHERE destination_id = v_version.destination_id
+     AND is_active = true
+     AND effective_date < v_effective
+     AND (expiry_date IS NULL OR expiry_date > v_effective);
+
+  INSERT INTO public.pricing_rules (
+    destination_id,
+    service_type,
+    weight_min,
+    weight_max,
+    rate_per_lb,
+    express_surcharge_percent,
+    effective_date,
+    expiry_date,
+    is_active,
+    created_by,
+    rate_card_version_id
+  )
+  SELECT
+    v_version.destination_id,
+    COALESCE(tier->>'service_type', 'standard'),
+    (tier->>'weight_min')::DECIMAL,
+    NULLIF(tier->>'weight_max', '')::DECIMAL,
+    (tier->>'rate_per_lb')::DECIMAL,
+    COALESCE(NULLIF(tier->>'express_surcharge_percent', '')::DECIMAL, 25.00),
+    v_effective,
+    NULL,
+    true,
+    p_published_by,
+    v_version.id
+  FROM jsonb_array_elements(v_version.tiers) AS tier;
+
+  -- A version scheduled on or after the new date never takes effect. The
+  -- live version stays published until the new one starts.
+  UPDATE public.rate_card_versions
+     SET status = 'superseded',
+         updated_at = NOW()
+   WHERE destination_id = v_version.destination_id
+     AND status = 'published'
+     AND effective_date >= v_effective;
+
+  UPDATE public.rate_card_versions
+     SET status = 'published',
+         effective_date = v_effective,
+         published_at = NOW(),
+         published_by = p_published_by,
+         updated_at = NOW()
+   WHERE id = v_version.id
+  RETURNING * INTO v_version;
+
+  PERFORM public.settle_rate_card_versions(v_version.destination_id);
+
+  RETURN v_version;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.publish_rate_card_version(INTEGER, TIMESTAMPTZ, UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.publish_rate_card_version(INTEGER, TIMESTAMPTZ, UUID) TO service_role;
@@ -0,0 +1,67 @@
+-- Migration: 1760000200_seed_public_rate_settings.sql
+-- Purpose: Move the surcharge, insurance and service-fee figures that were
+--          hardcoded on the public rates page into system_settings so the
+--          public-rates function, the calculator and quotes share one source.
+
+-- ============================================================================
+-- PART 1: Allow system-seeded settings
+-- ============================================================================
+
+-- Seeded rows have no admin author; updates through admin-settings-update
+-- still record updated_by.
+ALTER TABLE public.system_settings ALTER COLUMN updated_by DROP NOT NULL;
+
+-- ============================================================================
+-- PART 2: Public rate settings
+-- ============================================================================
+
+INSERT INTO public.system_settings (setting_key, setting_value, description, is_public)
+VALUES
+  (
+    'rates.insurance',
+    '{"included_value": 100, "rate_per_hundred": 7.5, "minimum_premium": 15, "high_value_threshold": 2500}'::jsonb,
+    'Declared-value insurance: free coverage, premium per $100 above it, minimum premium and custom-quote threshold',
+    true
+  ),
+  (
+    'rates.additional_services',
+    '[
+      {"service": "Consolidation Service", "price": "$5.00 per additional shipment", "description": "Combine multiple packages into one shipment"},
+      {"service": "Pickup Service", "price": "$25.00 (within 25 miles)", "description": "Convenient pickup from your location"},
+      {"service": "Express Processing", "price": "$15.00", "description": "Same-day processing and priority handling"},
+      {"service": "Oversized Item Handling", "price": "$20.00", "description": "Special handling for items over 70 lbs or unusual dimensions"},
+      {"service": "Custom Packaging", "price": "$10.00 - $75.00", "description": "Professional packaging for fragile or valuable items"},
+      {"service": "Extended Storage", "price": "$0.75/lb/week", "description": "Storage beyond the 7-day free period"},
+      {"service": "Rush Documentation", "price": "$20.00", "description": "Expedited customs documentation processing"}
+    ]'::jsonb,
+    'Additional services and fees listed on the public rates page',
+    true
+  ),
+  (
+    'rates.volume_discounts',
+    '[
+      {"range": "100-250 lbs/month", "discount": "5%", "description": "Regular customer discount"},
+      {"range": "251-500 lbs/month", "discount": "10%", "description": "Frequent shipper discount"},
+      {"range": "501-1000 lbs/month", "discount": "15%", "description": "High volume discount"},
+      {"range": "1000+ lbs/month", "discount": "Custom", "description": "Enterprise pricing available"}
+    ]'::jsonb,
+    'Volume discount program shown on the public rates page',
+    true
+  ),
+  (
+    'rates.free_storage_days',
+    '7'::jsonb,
+    'Days of free warehouse storage before extended storage fees apply',
+    true
+  ),
+  (
+    'rates.examples',
+    '[
+      {"title": "Small Personal Package", "country_name": "Guyana", "weight": 5, "service_type": "standard", "declared_value": 200},
+      {"title": "Medium Consolidated Shipment", "country_name": "Jamaica", "weight": 35, "service_type": "standard", "consolidation_fee": 5, "note": "2 packages"},
+      {"title": "Large Business Shipment", "country_name": "Trinidad", "weight": 150, "service_type": "express"}
+    ]'::jsonb,
+    'Worked examples on the public rates page; totals are computed live by the rating engine',
+    true
+  )
+ON CONFLICT (setting_key) DO NOTHING;
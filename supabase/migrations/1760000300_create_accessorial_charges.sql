@@ -0,0 +1,81 @@
+-- Migration: 1760000300_create_accessorial_charges.sql
+-- Purpose: Configurable accessorial charge catalog applied by the rating
+--          engine (replaces the hardcoded handling fee and the manually
+--          entered consolidation fee).
+
+-- ============================================================================
+-- PART 1: accessorial_charges
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.accessorial_charges (
+  id SERIAL PRIMARY KEY,
+  code TEXT NOT NULL UNIQUE,
+  name TEXT NOT NULL,
+  description TEXT,
+  basis TEXT NOT NULL DEFAULT 'flat'
+    CHECK (basis IN ('flat', 'per_lb', 'per_additional_package', 'per_lb_per_week')),
+  amount NUMERIC(10,2) NOT NULL CHECK (amount >= 0),
+  minimum_charge NUMERIC(10,2) CHECK (minimum_charge IS NULL OR minimum_charge >= 0),
+  -- Any-of list of trigger objects; every field set on a trigger must hold.
+  -- Supported fields: flag, weight_over, longest_side_over, service_types,
+  -- min_packages, storage_days_over.
+  triggers JSONB NOT NULL DEFAULT '[]'::jsonb
+    CHECK (jsonb_typeof(triggers) = 'array'),
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_accessorial_charges_active
+  ON public.accessorial_charges (is_active, sort_order);
+
+-- ============================================================================
+-- PART 2: RLS
+-- ============================================================================
+
+ALTER TABLE public.accessorial_charges ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS accessorial_charges_public_read ON public.accessorial_charges;
+CREATE POLICY accessorial_charges_public_read ON public.accessorial_charges
+  FOR SELECT
+  USING (is_active = true);
+
+DROP POLICY IF EXISTS accessorial_charges_admin_all ON public.accessorial_charges;
+CREATE POLICY accessorial_charges_admin_all ON public.accessorial_charges
+  FOR ALL
+  USING (public.is_admin())
+  WITH CHECK (public.is_admin());
+
+-- ============================================================================
+-- PART 3: Seed catalog (matches DEFAULT_ACCESSORIAL_CATALOG)
+-- ============================================================================
+
+INSERT INTO public.accessorial_charges (code, name, description, basis, amount, triggers, sort_order)
+VALUES
+  ('pickup', 'Pickup Service', 'Pickup from your location within 25 miles', 'flat', 25.00,
+    '[{"flag": "pickup"}]'::jsonb, 10),
+  ('oversize', 'Oversized Item Handling', 'Items over 70 lbs or with a side longer than 60 inches', 'flat', 20.00,
+    '[{"weight_over": 70}, {"longest_side_over": 60}]'::jsonb, 20),
+  ('fragile_packaging', 'Fragile Packaging', 'Professional packaging for fragile or valuable items', 'flat', 10.00,
+    '[{"flag": "fragile_packaging"}]'::jsonb, 30),
+  ('extended_storage', 'Extended Storage', 'Per lb per week beyond the 7-day free period', 'per_lb_per_week', 0.75,
+    '[{"storage_days_over": 7}]'::jsonb, 40),
+  ('rush_documentation', 'Rush Documentation', 'Expedited customs documentation processing', 'flat', 20.00,
+    '[{"flag": "rush_documentation"}]'::jsonb, 50),
+  ('consolidation', 'Consolidation', 'Per additional package combined into one shipment', 'per_additional_package', 5.00,
+    '[{"min_packages": 2}]'::jsonb, 60)
+ON CONFLICT (code) DO NOTHING;
+
+-- ============================================================================
+-- PART 4: Rate page examples use package counts instead of a fixed fee
+-- ============================================================================
+
+UPDATE public.system_settings
+SET setting_value = '[
+      {"title": "Small Personal Package", "country_name": "Guyana", "weight": 5, "service_type": "standard", "declared_value": 200},
+      {"title": "Medium Consolidated Shipment", "country_name": "Jamaica", "weight": 35, "service_type": "standard", "package_count": 2, "note": "2 packages"},
+      {"title": "Large Business Shipment", "country_name": "Trinidad", "weight": 150, "service_type": "express", "flags": ["rush_documentation"]}
+    ]'::jsonb,
+    updated_at = NOW()
+WHERE setting_key = 'rates.examples';
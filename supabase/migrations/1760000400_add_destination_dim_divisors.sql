@@ -0,0 +1,32 @@
+-- Migration: 1760000400_add_destination_dim_divisors.sql
+-- Purpose: Store the dimensional-weight divisor per destination and service
+--          instead of the hardcoded 166 in³/lb, so a change by an airline
+--          partner is a data edit rather than a deploy.
+
+-- ============================================================================
+-- PART 1: Divisor columns
+-- ============================================================================
+
+ALTER TABLE public.destinations
+  ADD COLUMN IF NOT EXISTS dim_divisor_standard NUMERIC(8,2) NOT NULL DEFAULT 166,
+  ADD COLUMN IF NOT EXISTS dim_divisor_express NUMERIC(8,2);
+
+COMMENT ON COLUMN public.destinations.dim_divisor_standard IS
+  'Dimensional weight divisor (in³/lb) for standard service.';
+COMMENT ON COLUMN public.destinations.dim_divisor_express IS
+  'Dimensional weight divisor (in³/lb) for express service; NULL uses the standard divisor.';
+
+-- ============================================================================
+-- PART 2: Constraints
+-- ============================================================================
+
+ALTER TABLE public.destinations
+  DROP CONSTRAINT IF EXISTS destinations_dim_divisor_standard_positive;
+ALTER TABLE public.destinations
+  ADD CONSTRAINT destinations_dim_divisor_standard_positive CHECK (dim_divisor_standard > 0);
+
+ALTER TABLE public.destinations
+  DROP CONSTRAINT IF EXISTS destinations_dim_divisor_express_positive;
+ALTER TABLE public.destinations
+  ADD CONSTRAINT destinations_dim_divisor_express_positive
+  CHECK (dim_divisor_express IS NULL OR dim_divisor_express > 0);
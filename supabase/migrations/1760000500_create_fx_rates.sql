@@ -0,0 +1,91 @@
+-- Migration: 1760000500_create_fx_rates.sql
+-- Purpose: Admin-maintained exchange rates so quotes can show the local
+--          currency equivalent (JMD, GYD, TTD, BBD, XCD) of the USD total.
+--          Rates are effective-dated; quotes snapshot the rate they used
+--          into quote_metadata.fx.
+
+-- ============================================================================
+-- PART 1: fx_rates
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.fx_rates (
+  id SERIAL PRIMARY KEY,
+  currency_code TEXT NOT NULL
+    CHECK (currency_code IN ('JMD', 'GYD', 'TTD', 'BBD', 'XCD')),
+  -- Units of currency_code per 1 USD
+  rate_per_usd NUMERIC(14,6) NOT NULL CHECK (rate_per_usd > 0),
+  effective_from TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  notes TEXT,
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_fx_rates_currency_effective
+  ON public.fx_rates (currency_code, effective_from DESC);
+
+-- ============================================================================
+-- PART 2: Destination display currency
+-- ============================================================================
+
+ALTER TABLE public.destinations
+  ADD COLUMN IF NOT EXISTS local_currency TEXT;
+
+ALTER TABLE public.destinations
+  DROP CONSTRAINT IF EXISTS destinations_local_currency_check;
+ALTER TABLE public.destinations
+  ADD CONSTRAINT destinations_local_currency_check
+  CHECK (local_currency IS NULL OR local_currency IN ('JMD', 'GYD', 'TTD', 'BBD', 'XCD'));
+
+COMMENT ON COLUMN public.destinations.local_currency IS
+  'Currency quotes to this destination show next to the USD total; NULL shows USD only.';
+
+UPDATE public.destinations SET local_currency = 'JMD' WHERE local_currency IS NULL AND country_name ILIKE 'jamaica%';
+UPDATE public.destinations SET local_currency = 'GYD' WHERE local_currency IS NULL AND country_name ILIKE 'guyana%';
+UPDATE public.destinations SET local_currency = 'TTD' WHERE local_currency IS NULL AND country_name ILIKE 'trinidad%';
+UPDATE public.destinations SET local_currency = 'BBD' WHERE local_currency IS NULL AND country_name ILIKE 'barbados%';
+UPDATE public.destinations SET local_currency = 'XCD'
+WHERE local_currency IS NULL
+  AND (
+    country_name ILIKE 'antigua%'
+    OR country_name ILIKE 'dominica'
+    OR country_name ILIKE 'grenada%'
+    OR country_name ILIKE '%kitts%'
+    OR country_name ILIKE '%lucia%'
+    OR country_name ILIKE '%vincent%'
+    OR country_name ILIKE 'anguilla%'
+    OR country_name ILIKE 'montserrat%'
+  );
+
+-- ============================================================================
+-- PART 3: RLS
+-- ============================================================================
+
+ALTER TABLE public.fx_rates ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS fx_rates_public_read ON public.fx_rates;
+CREATE POLICY fx_rates_public_read ON public.fx_rates
+  FOR SELECT
+  USING (true);
+
+DROP POLICY IF EXISTS fx_rates_admin_all ON public.fx_rates;
+CREATE POLICY fx_rates_admin_all ON public.fx_rates
+  FOR ALL
+  USING (public.is_admin())
+  WITH CHECK (public.is_admin());
+
+-- ============================================================================
+-- PART 4: Seed starting rates (admins update these from /admin/exchange-rates)
+-- ============================================================================
+
+INSERT INTO public.fx_rates (currency_code, rate_per_usd, notes)
+SELECT seed.currency_code, seed.rate_per_usd, 'Initial rate'
+FROM (VALUES
+  ('JMD', 157.000000),
+  ('GYD', 209.000000),
+  ('TTD', 6.780000),
+  ('BBD', 2.000000),
+  ('XCD', 2.700000)
+) AS seed(currency_code, rate_per_usd)
+WHERE NOT EXISTS (
+  SELECT 1 FROM public.fx_rates existing WHERE existing.currency_code = seed.currency_code
+);
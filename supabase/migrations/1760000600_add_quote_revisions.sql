@@ -0,0 +1,43 @@
+-- Migration: 1760000600_add_quote_revisions.sql
+-- Purpose: Quote revisions. Editing a quote inserts a new shipping_quotes row
+--          that shares base_reference with the original and carries a
+--          revision suffix on quote_reference (QCS-...-R2). Earlier rows keep
+--          their document HTML and are flagged as no longer latest.
+
+-- ============================================================================
+-- PART 1: Revision columns
+-- ============================================================================
+
+ALTER TABLE public.shipping_quotes
+  ADD COLUMN IF NOT EXISTS base_reference TEXT,
+  ADD COLUMN IF NOT EXISTS revision_number INTEGER NOT NULL DEFAULT 1,
+  ADD COLUMN IF NOT EXISTS supersedes_quote_id INTEGER REFERENCES public.shipping_quotes(id),
+  ADD COLUMN IF NOT EXISTS is_latest_revision BOOLEAN NOT NULL DEFAULT true,
+  ADD COLUMN IF NOT EXISTS revised_by UUID REFERENCES auth.users(id),
+  ADD COLUMN IF NOT EXISTS revision_reason TEXT;
+
+UPDATE public.shipping_quotes
+SET base_reference = quote_reference
+WHERE base_reference IS NULL AND quote_reference IS NOT NULL;
+
+ALTER TABLE public.shipping_quotes
+  DROP CONSTRAINT IF EXISTS shipping_quotes_revision_number_positive;
+ALTER TABLE public.shipping_quotes
+  ADD CONSTRAINT shipping_quotes_revision_number_positive CHECK (revision_number >= 1);
+
+-- ============================================================================
+-- PART 2: Indexes
+-- ============================================================================
+
+CREATE UNIQUE INDEX IF NOT EXISTS shipping_quotes_base_reference_revision_idx
+  ON public.shipping_quotes (base_reference, revision_number)
+  WHERE base_reference IS NOT NULL;
+
+-- Only one latest row per reference
+CREATE UNIQUE INDEX IF NOT EXISTS shipping_quotes_latest_revision_idx
+  ON public.shipping_quotes (base_reference)
+  WHERE is_latest_revision AND base_reference IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_shipping_quotes_customer_latest
+  ON public.shipping_quotes (customer_id, created_at DESC)
+  WHERE is_latest_revision;
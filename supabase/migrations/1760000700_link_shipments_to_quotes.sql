@@ -0,0 +1,30 @@
+-- Migration: 1760000700_link_shipments_to_quotes.sql
+-- Purpose: Customers accept a pending quote from their dashboard. Acceptance
+--          marks the quote won and the shipment created from it records the
+--          quote in shipments.quote_id, so staff no longer re-key the details.
+
+-- ============================================================================
+-- PART 1: Acceptance timestamp on quotes
+-- ============================================================================
+
+ALTER TABLE public.shipping_quotes
+  ADD COLUMN IF NOT EXISTS accepted_at TIMESTAMPTZ;
+
+-- ============================================================================
+-- PART 2: Shipment to quote link
+-- ============================================================================
+
+ALTER TABLE public.shipments
+  ADD COLUMN IF NOT EXISTS quote_id INTEGER;
+
+-- Point the link at shipping_quotes; older rows are left unchecked
+ALTER TABLE public.shipments
+  DROP CONSTRAINT IF EXISTS shipments_quote_id_fkey;
+ALTER TABLE public.shipments
+  ADD CONSTRAINT shipments_quote_id_fkey
+  FOREIGN KEY (quote_id) REFERENCES public.shipping_quotes(id) NOT VALID;
+
+-- An accepted quote becomes at most one shipment
+CREATE UNIQUE INDEX IF NOT EXISTS shipments_quote_id_unique_idx
+  ON public.shipments (quote_id)
+  WHERE quote_id IS NOT NULL;
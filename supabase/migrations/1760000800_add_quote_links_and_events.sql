@@ -0,0 +1,80 @@
+-- Migration: 1760000800_add_quote_links_and_events.sql
+-- Purpose: Signed public quote links. Customers open a quote from the email
+--          without signing in and accept or decline it there. Every view and
+--          decision is written to quote_events; the view counters on
+--          shipping_quotes let quote-follow-up skip customers who have looked.
+
+-- ============================================================================
+-- PART 1: View and decline columns
+-- ============================================================================
+
+ALTER TABLE public.shipping_quotes
+  ADD COLUMN IF NOT EXISTS first_viewed_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS last_viewed_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS view_count INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS declined_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS decline_reason TEXT;
+
+-- ============================================================================
+-- PART 2: Event log
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.quote_events (
+  id BIGSERIAL PRIMARY KEY,
+  quote_id INTEGER NOT NULL REFERENCES public.shipping_quotes(id) ON DELETE CASCADE,
+  event_type TEXT NOT NULL CHECK (event_type IN ('viewed', 'accepted', 'declined')),
+  source TEXT NOT NULL DEFAULT 'public_link' CHECK (source IN ('public_link', 'dashboard')),
+  reason TEXT,
+  user_agent TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_quote_events_quote
+  ON public.quote_events (quote_id, created_at DESC);
+
+-- ============================================================================
+-- PART 3: Recording helper
+-- ============================================================================
+
+-- Inserts the event and bumps the view counters in one statement so
+-- concurrent opens of the same link are all counted.
+CREATE OR REPLACE FUNCTION public.record_quote_event(
+  p_quote_id INTEGER,
+  p_event_type TEXT,
+  p_source TEXT DEFAULT 'public_link',
+  p_reason TEXT DEFAULT NULL,
+  p_user_agent TEXT DEFAULT NULL
+)
+RETURNS BIGINT AS $$
+DECLARE
+  v_event_id BIGINT;
+BEGIN
+  INSERT INTO public.quote_events (quote_id, event_type, source, reason, user_agent)
+  VALUES (p_quote_id, p_event_type, p_source, p_reason, LEFT(p_user_agent, 500))
+  RETURNING id INTO v_event_id;
+
+  IF p_event_type = 'viewed' THEN
+    UPDATE public.shipping_quotes
+    SET view_count = view_count + 1,
+        first_viewed_at = COALESCE(first_viewed_at, NOW()),
+        last_viewed_at = NOW()
+    WHERE id = p_quote_id;
+  END IF;
+
+  RETURN v_event_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.record_quote_event(INTEGER, TEXT, TEXT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- ============================================================================
+-- PART 4: RLS
+-- ============================================================================
+
+ALTER TABLE public.quote_events ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS quote_events_admin_all ON public.quote_events;
+CREATE POLICY quote_events_admin_all ON public.quote_events
+  FOR ALL
+  USING (public.is_admin())
+  WITH CHECK (public.is_admin());
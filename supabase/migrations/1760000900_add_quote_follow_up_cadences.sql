@@ -0,0 +1,108 @@
+-- Migration: 1760000900_add_quote_follow_up_cadences.sql
+-- Purpose: Multi-step quote follow-ups. A cadence lists steps (day offset,
+--          channel, template) and is matched to a quote by destination or
+--          quote value. Each quote tracks its cadence and next step; every
+--          step attempt is written to quote_follow_up_history.
+
+-- ============================================================================
+-- PART 1: Cadence definitions
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.quote_follow_up_cadences (
+  id SERIAL PRIMARY KEY,
+  name TEXT NOT NULL,
+  description TEXT,
+  destination_id INTEGER REFERENCES public.destinations(id) ON DELETE CASCADE,
+  min_quote_value NUMERIC(10,2) CHECK (min_quote_value IS NULL OR min_quote_value >= 0),
+  max_quote_value NUMERIC(10,2) CHECK (max_quote_value IS NULL OR max_quote_value > 0),
+  priority INTEGER NOT NULL DEFAULT 0,
+  is_default BOOLEAN NOT NULL DEFAULT false,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  -- [{ "day": 1, "channel": "email", "template": "reminder" }, ...]
+  steps JSONB NOT NULL DEFAULT '[]'::jsonb CHECK (jsonb_typeof(steps) = 'array'),
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT quote_follow_up_cadences_value_range CHECK (
+    min_quote_value IS NULL OR max_quote_value IS NULL OR max_quote_value > min_quote_value
+  )
+);
+
+-- Only one fallback cadence
+CREATE UNIQUE INDEX IF NOT EXISTS quote_follow_up_cadences_default_idx
+  ON public.quote_follow_up_cadences (is_default)
+  WHERE is_default;
+
+-- ============================================================================
+-- PART 2: Per-quote cadence state
+-- ============================================================================
+
+ALTER TABLE public.shipping_quotes
+  ADD COLUMN IF NOT EXISTS follow_up_cadence_id INTEGER REFERENCES public.quote_follow_up_cadences(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS follow_up_step INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS follow_up_paused BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS follow_up_stopped_reason TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_shipping_quotes_follow_up_due
+  ON public.shipping_quotes (follow_up_due_at)
+  WHERE follow_up_status IN ('scheduled', 'pending') AND NOT follow_up_paused;
+
+-- ============================================================================
+-- PART 3: Step history
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.quote_follow_up_history (
+  id BIGSERIAL PRIMARY KEY,
+  quote_id INTEGER NOT NULL REFERENCES public.shipping_quotes(id) ON DELETE CASCADE,
+  cadence_id INTEGER REFERENCES public.quote_follow_up_cadences(id) ON DELETE SET NULL,
+  -- NULL for manual sends outside the cadence
+  step_index INTEGER,
+  channel TEXT NOT NULL CHECK (channel IN ('email', 'whatsapp')),
+  template TEXT NOT NULL CHECK (template IN ('reminder', 'expiring_soon', 'final_notice')),
+  status TEXT NOT NULL CHECK (status IN ('sent', 'failed', 'skipped')),
+  detail TEXT,
+  triggered_by TEXT NOT NULL DEFAULT 'automation' CHECK (triggered_by IN ('automation', 'manual')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_quote_follow_up_history_quote
+  ON public.quote_follow_up_history (quote_id, created_at DESC);
+
+-- ============================================================================
+-- PART 4: RLS
+-- ============================================================================
+
+ALTER TABLE public.quote_follow_up_cadences ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.quote_follow_up_history ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS quote_follow_up_cadences_admin_all ON public.quote_follow_up_cadences;
+CREATE POLICY quote_follow_up_cadences_admin_all ON public.quote_follow_up_cadences
+  FOR ALL
+  USING (public.is_admin())
+  WITH CHECK (public.is_admin());
+
+DROP POLICY IF EXISTS quote_follow_up_history_admin_all ON public.quote_follow_up_history;
+CREATE POLICY quote_follow_up_history_admin_all ON public.quote_follow_up_history
+  FOR ALL
+  USING (public.is_admin())
+  WITH CHECK (public.is_admin());
+
+-- ============================================================================
+-- PART 5: Starting cadences (quotes are valid for 7 days; steps on or after
+--         expiry never run)
+-- ============================================================================
+
+INSERT INTO public.quote_follow_up_cadences (name, description, is_default, priority, steps)
+SELECT 'Standard', 'Default for all quotes', true, 0,
+  '[{"day": 1, "channel": "email", "template": "reminder"},
+    {"day": 3, "channel": "whatsapp", "template": "reminder"},
+    {"day": 6, "channel": "email", "template": "expiring_soon"}]'::jsonb
+WHERE NOT EXISTS (SELECT 1 FROM public.quote_follow_up_cadences WHERE is_default);
+
+INSERT INTO public.quote_follow_up_cadences (name, description, min_quote_value, priority, steps)
+SELECT 'High value', 'Quotes of $500 or more get an extra WhatsApp touch and a final notice', 500, 10,
+  '[{"day": 1, "channel": "email", "template": "reminder"},
+    {"day": 3, "channel": "whatsapp", "template": "reminder"},
+    {"day": 5, "channel": "email", "template": "expiring_soon"},
+    {"day": 6, "channel": "whatsapp", "template": "final_notice"}]'::jsonb
+WHERE NOT EXISTS (SELECT 1 FROM public.quote_follow_up_cadences WHERE name = 'High value');
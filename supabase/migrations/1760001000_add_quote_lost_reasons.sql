@@ -0,0 +1,35 @@
+-- Migration: 1760001000_add_quote_lost_reasons.sql
+-- Purpose: Structured reasons for lost quotes, plus the time each quote was
+--          lost, so win/loss can be reported by lane and reason.
+
+-- ============================================================================
+-- PART 1: Lost reason columns
+-- ============================================================================
+
+ALTER TABLE public.shipping_quotes
+  ADD COLUMN IF NOT EXISTS lost_reason TEXT
+    CHECK (lost_reason IN ('price', 'transit_time', 'competitor', 'shipment_cancelled', 'other')),
+  ADD COLUMN IF NOT EXISTS lost_reason_detail TEXT,
+  ADD COLUMN IF NOT EXISTS lost_at TIMESTAMPTZ;
+
+-- Quotes lost before reasons existed are filed under "other", keeping any
+-- reason the customer typed on the public link
+UPDATE public.shipping_quotes
+SET lost_reason = 'other',
+    lost_reason_detail = COALESCE(lost_reason_detail, decline_reason),
+    lost_at = COALESCE(lost_at, declined_at)
+WHERE status = 'lost' AND lost_reason IS NULL;
+
+ALTER TABLE public.shipping_quotes
+  DROP CONSTRAINT IF EXISTS shipping_quotes_lost_reason_required;
+ALTER TABLE public.shipping_quotes
+  ADD CONSTRAINT shipping_quotes_lost_reason_required
+  CHECK (status <> 'lost' OR lost_reason IS NOT NULL);
+
+-- ============================================================================
+-- PART 2: Reporting index
+-- ============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_shipping_quotes_conversion
+  ON public.shipping_quotes (created_at, destination_id)
+  WHERE is_latest_revision;
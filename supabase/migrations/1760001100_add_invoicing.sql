@@ -0,0 +1,170 @@
+-- Migration: 1760001100_add_invoicing.sql
+-- Purpose: Invoices end to end. Issued invoices and credit notes get gapless
+--          numbers from a per-year counter, assigned in the same transaction
+--          that issues the document so a failed write never burns a number.
+--          Tax is computed from tax_rules by line category (NJ sales tax on
+--          packaging supplies only). Credit notes reference the invoice they
+--          credit; issued documents are voided, never deleted.
+
+-- ============================================================================
+-- PART 1: Invoice columns
+-- ============================================================================
+
+ALTER TABLE public.invoices
+  ADD COLUMN IF NOT EXISTS document_type TEXT NOT NULL DEFAULT 'invoice'
+    CHECK (document_type IN ('invoice', 'credit_note')),
+  ADD COLUMN IF NOT EXISTS original_invoice_id INTEGER REFERENCES public.invoices(id),
+  ADD COLUMN IF NOT EXISTS invoice_type TEXT NOT NULL DEFAULT 'final',
+  ADD COLUMN IF NOT EXISTS subtotal DECIMAL(10,2),
+  ADD COLUMN IF NOT EXISTS discount_amount DECIMAL(10,2) NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS taxable_amount DECIMAL(10,2) NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS tax_breakdown JSONB NOT NULL DEFAULT '[]'::jsonb,
+  ADD COLUMN IF NOT EXISTS currency TEXT NOT NULL DEFAULT 'USD',
+  ADD COLUMN IF NOT EXISTS issued_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS voided_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS voided_by UUID REFERENCES auth.users(id),
+  ADD COLUMN IF NOT EXISTS void_reason TEXT,
+  ADD COLUMN IF NOT EXISTS credit_reason TEXT;
+
+-- Drafts have no number until they are issued
+ALTER TABLE public.invoices ALTER COLUMN invoice_number DROP NOT NULL;
+ALTER TABLE public.invoices ALTER COLUMN amount DROP NOT NULL;
+
+-- create-invoice used to write 'pending' for issued invoices
+UPDATE public.invoices SET status = 'sent' WHERE status = 'pending';
+UPDATE public.invoices SET issued_at = created_at WHERE issued_at IS NULL AND status <> 'draft';
+UPDATE public.invoices SET subtotal = COALESCE(subtotal, amount, total_amount);
+
+ALTER TABLE public.invoices DROP CONSTRAINT IF EXISTS invoices_status_check;
+ALTER TABLE public.invoices
+  ADD CONSTRAINT invoices_status_check CHECK (status IN ('draft', 'sent', 'paid', 'void'));
+
+ALTER TABLE public.invoices DROP CONSTRAINT IF EXISTS invoices_credit_note_original;
+ALTER TABLE public.invoices
+  ADD CONSTRAINT invoices_credit_note_original CHECK (
+    (document_type = 'credit_note') = (original_invoice_id IS NOT NULL)
+  );
+
+CREATE INDEX IF NOT EXISTS idx_invoices_status ON public.invoices (status, document_type, issued_at DESC);
+CREATE INDEX IF NOT EXISTS idx_invoices_customer ON public.invoices (customer_id, issued_at DESC);
+CREATE INDEX IF NOT EXISTS idx_invoices_original ON public.invoices (original_invoice_id)
+  WHERE original_invoice_id IS NOT NULL;
+
+-- ============================================================================
+-- PART 2: Gapless numbering
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.invoice_number_sequences (
+  document_type TEXT NOT NULL CHECK (document_type IN ('invoice', 'credit_note')),
+  year INTEGER NOT NULL,
+  last_number INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (document_type, year)
+);
+
+-- INV-2025-000001 / CN-2025-000001. The counter row is locked until the
+-- issuing transaction commits, so numbers are strictly sequential per year.
+CREATE OR REPLACE FUNCTION public.assign_invoice_number()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_year INTEGER;
+  v_next INTEGER;
+BEGIN
+  IF NEW.status = 'draft' OR NEW.invoice_number IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+
+  NEW.issued_at := COALESCE(NEW.issued_at, NOW());
+  v_year := EXTRACT(YEAR FROM NEW.issued_at AT TIME ZONE 'America/New_York')::INTEGER;
+
+  INSERT INTO public.invoice_number_sequences (document_type, year, last_number)
+  VALUES (NEW.document_type, v_year, 1)
+  ON CONFLICT (document_type, year)
+  DO UPDATE SET last_number = public.invoice_number_sequences.last_number + 1
+  RETURNING last_number INTO v_next;
+
+  NEW.invoice_number := CASE WHEN NEW.document_type = 'credit_note' THEN 'CN' ELSE 'INV' END
+    || '-' || v_year || '-' || LPAD(v_next::TEXT, 6, '0');
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS invoices_assign_number ON public.invoices;
+CREATE TRIGGER invoices_assign_number
+  BEFORE INSERT OR UPDATE OF status ON public.invoices
+  FOR EACH ROW EXECUTE FUNCTION public.assign_invoice_number();
+
+-- Numbered documents stay in the ledger; they can be voided but not removed
+-- or renumbered
+CREATE OR REPLACE FUNCTION public.protect_issued_invoices()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    IF OLD.invoice_number IS NOT NULL THEN
+      RAISE EXCEPTION 'Issued invoice % cannot be deleted; void it instead', OLD.invoice_number;
+    END IF;
+    RETURN OLD;
+  END IF;
+
+  IF OLD.invoice_number IS NOT NULL AND NEW.invoice_number IS DISTINCT FROM OLD.invoice_number THEN
+    RAISE EXCEPTION 'Invoice numbers cannot be changed once issued';
+  END IF;
+  IF OLD.status <> 'draft' AND NEW.status = 'draft' THEN
+    RAISE EXCEPTION 'Issued invoice % cannot return to draft', OLD.invoice_number;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS invoices_protect_issued ON public.invoices;
+CREATE TRIGGER invoices_protect_issued
+  BEFORE UPDATE OR DELETE ON public.invoices
+  FOR EACH ROW EXECUTE FUNCTION public.protect_issued_invoices();
+
+-- ============================================================================
+-- PART 3: Tax rules
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.tax_rules (
+  id SERIAL PRIMARY KEY,
+  name TEXT NOT NULL,
+  jurisdiction TEXT NOT NULL,
+  rate NUMERIC(6,5) NOT NULL CHECK (rate >= 0 AND rate < 1),
+  -- Invoice line category the rule taxes, e.g. packaging_supplies
+  applies_to_category TEXT NOT NULL,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  effective_from DATE NOT NULL DEFAULT CURRENT_DATE,
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- International air freight is not taxable in NJ; supplies sold at the
+-- counter are
+INSERT INTO public.tax_rules (name, jurisdiction, rate, applies_to_category, effective_from)
+SELECT 'NJ Sales Tax', 'NJ', 0.06625, 'packaging_supplies', DATE '2018-01-01'
+WHERE NOT EXISTS (SELECT 1 FROM public.tax_rules WHERE jurisdiction = 'NJ');
+
+-- ============================================================================
+-- PART 4: RLS
+-- ============================================================================
+
+ALTER TABLE public.invoice_number_sequences ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.tax_rules ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS invoice_number_sequences_admin_all ON public.invoice_number_sequences;
+CREATE POLICY invoice_number_sequences_admin_all ON public.invoice_number_sequences
+  FOR ALL
+  USING (public.is_admin())
+  WITH CHECK (public.is_admin());
+
+DROP POLICY IF EXISTS tax_rules_admin_all ON public.tax_rules;
+CREATE POLICY tax_rules_admin_all ON public.tax_rules
+  FOR ALL
+  USING (public.is_admin())
+  WITH CHECK (public.is_admin());
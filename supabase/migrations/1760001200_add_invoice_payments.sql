@@ -0,0 +1,264 @@
+-- Migration: 1760001200_add_invoice_payments.sql
+-- Purpose: Payments ledger for invoices. Counter payments (cash, Zelle, card)
+--          are recorded against an invoice; an invoice can take several
+--          partial payments and moves sent -> partially_paid -> paid. Money
+--          beyond the balance, and credit notes against settled invoices,
+--          become credit on the customer's account, which can pay later
+--          invoices.
+
+-- ============================================================================
+-- PART 1: Invoice balances
+-- ============================================================================
+
+ALTER TABLE public.invoices
+  ADD COLUMN IF NOT EXISTS amount_paid DECIMAL(10,2) NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS amount_credited DECIMAL(10,2) NOT NULL DEFAULT 0;
+
+-- Invoices marked paid before the ledger existed
+UPDATE public.invoices
+SET amount_paid = total_amount
+WHERE status = 'paid' AND document_type = 'invoice' AND amount_paid = 0;
+
+ALTER TABLE public.invoices DROP CONSTRAINT IF EXISTS invoices_status_check;
+ALTER TABLE public.invoices
+  ADD CONSTRAINT invoices_status_check CHECK (status IN ('draft', 'sent', 'partially_paid', 'paid', 'void'));
+
+-- ============================================================================
+-- PART 2: Payments and account credit
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.invoice_payments (
+  id BIGSERIAL PRIMARY KEY,
+  receipt_number TEXT UNIQUE,
+  invoice_id INTEGER NOT NULL REFERENCES public.invoices(id),
+  customer_id UUID NOT NULL,
+  -- What the customer handed over; applied + overpayment = amount
+  amount DECIMAL(10,2) NOT NULL CHECK (amount > 0),
+  applied_amount DECIMAL(10,2) NOT NULL CHECK (applied_amount >= 0),
+  overpayment_amount DECIMAL(10,2) NOT NULL DEFAULT 0 CHECK (overpayment_amount >= 0),
+  method TEXT NOT NULL CHECK (method IN ('cash', 'zelle', 'card', 'account_credit')),
+  reference TEXT,
+  notes TEXT,
+  received_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  received_by UUID REFERENCES auth.users(id),
+  receipt_sent_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT invoice_payments_split CHECK (applied_amount + overpayment_amount = amount)
+);
+
+CREATE INDEX IF NOT EXISTS idx_invoice_payments_invoice ON public.invoice_payments (invoice_id, received_at);
+CREATE INDEX IF NOT EXISTS idx_invoice_payments_customer ON public.invoice_payments (customer_id, received_at DESC);
+
+-- Signed ledger: overpayments and credit notes add credit, paying an invoice
+-- from the account takes it away. The balance is the sum.
+CREATE TABLE IF NOT EXISTS public.customer_account_credits (
+  id BIGSERIAL PRIMARY KEY,
+  customer_id UUID NOT NULL,
+  amount DECIMAL(10,2) NOT NULL CHECK (amount <> 0),
+  entry_type TEXT NOT NULL CHECK (entry_type IN ('overpayment', 'credit_note', 'applied')),
+  invoice_id INTEGER REFERENCES public.invoices(id),
+  payment_id BIGINT REFERENCES public.invoice_payments(id),
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_customer_account_credits_customer ON public.customer_account_credits (customer_id);
+
+CREATE OR REPLACE FUNCTION public.customer_credit_balance(p_customer_id UUID)
+RETURNS DECIMAL AS $$
+  SELECT COALESCE(SUM(amount), 0)::DECIMAL(10,2)
+  FROM public.customer_account_credits
+  WHERE customer_id = p_customer_id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- ============================================================================
+-- PART 3: Keeping invoice balances and status in step
+-- ============================================================================
+
+-- Recompute what has been paid and credited on an invoice and set its status.
+-- Credit notes issued after an invoice was settled leave the customer in
+-- credit; that excess is moved onto their account once.
+CREATE OR REPLACE FUNCTION public.refresh_invoice_balance(p_invoice_id INTEGER)
+RETURNS public.invoices AS $$
+DECLARE
+  v_invoice public.invoices;
+  v_paid DECIMAL(10,2);
+  v_credited DECIMAL(10,2);
+  v_excess DECIMAL(10,2);
+  v_already DECIMAL(10,2);
+BEGIN
+  SELECT * INTO v_invoice FROM public.invoices WHERE id = p_invoice_id FOR UPDATE;
+  IF NOT FOUND OR v_invoice.document_type <> 'invoice' THEN
+    RETURN v_invoice;
+  END IF;
+
+  SELECT COALESCE(SUM(applied_amount), 0) INTO v_paid
+  FROM public.invoice_payments WHERE invoice_id = p_invoice_id;
+
+  SELECT COALESCE(SUM(total_amount), 0) INTO v_credited
+  FROM public.invoices
+  WHERE original_invoice_id = p_invoice_id AND status <> 'void';
+
+  v_excess := GREATEST(v_paid + v_credited - v_invoice.total_amount, 0);
+  SELECT COALESCE(SUM(amount), 0) INTO v_already
+  FROM public.customer_account_credits
+  WHERE invoice_id = p_invoice_id AND entry_type = 'credit_note';
+
+  IF v_excess > v_already THEN
+    INSERT INTO public.customer_account_credits (customer_id, amount, entry_type, invoice_id)
+    VALUES (v_invoice.customer_id, v_excess - v_already, 'credit_note', p_invoice_id);
+  END IF;
+
+  UPDATE public.invoices
+  SET amount_paid = v_paid,
+      amount_credited = v_credited,
+      status = CASE
+        WHEN status IN ('draft', 'void') THEN status
+        WHEN v_paid + v_credited >= total_amount THEN 'paid'
+        WHEN v_paid > 0 THEN 'partially_paid'
+        ELSE 'sent'
+      END,
+      paid_date = CASE
+        WHEN status NOT IN ('draft', 'void') AND v_paid + v_credited >= total_amount THEN COALESCE(paid_date, NOW())
+        ELSE NULL
+      END,
+      updated_at = NOW()
+  WHERE id = p_invoice_id
+  RETURNING * INTO v_invoice;
+
+  RETURN v_invoice;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Issuing or voiding a credit note changes what is left on the original
+CREATE OR REPLACE FUNCTION public.refresh_credited_invoice()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status <> 'draft' THEN
+    PERFORM public.refresh_invoice_balance(NEW.original_invoice_id);
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS invoices_refresh_credited ON public.invoices;
+CREATE TRIGGER invoices_refresh_credited
+  AFTER INSERT OR UPDATE OF status ON public.invoices
+  FOR EACH ROW
+  WHEN (NEW.document_type = 'credit_note')
+  EXECUTE FUNCTION public.refresh_credited_invoice();
+
+-- ============================================================================
+-- PART 4: Recording a payment
+-- ============================================================================
+
+-- One transaction: lock the invoice, split the payment into the part that
+-- settles the balance and any overpayment, write the ledger rows and refresh
+-- the invoice. Raises with a readable message when the payment is refused.
+CREATE OR REPLACE FUNCTION public.record_invoice_payment(
+  p_invoice_id INTEGER,
+  p_amount DECIMAL,
+  p_method TEXT,
+  p_reference TEXT DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL,
+  p_received_by UUID DEFAULT NULL
+)
+RETURNS public.invoice_payments AS $$
+DECLARE
+  v_invoice public.invoices;
+  v_balance DECIMAL(10,2);
+  v_applied DECIMAL(10,2);
+  v_payment public.invoice_payments;
+BEGIN
+  SELECT * INTO v_invoice FROM public.invoices WHERE id = p_invoice_id FOR UPDATE;
+  IF NOT FOUND OR v_invoice.document_type <> 'invoice' THEN
+    RAISE EXCEPTION 'Invoice not found';
+  END IF;
+  IF v_invoice.status NOT IN ('sent', 'partially_paid') THEN
+    RAISE EXCEPTION 'Invoice % is % and cannot take payments', v_invoice.invoice_number, v_invoice.status;
+  END IF;
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'Payment amount must be greater than zero';
+  END IF;
+
+  v_balance := v_invoice.total_amount - v_invoice.amount_credited - v_invoice.amount_paid;
+
+  IF p_method = 'account_credit' THEN
+    IF p_amount > v_balance THEN
+      RAISE EXCEPTION 'Account credit can only cover the % balance', v_balance;
+    END IF;
+    IF p_amount > public.customer_credit_balance(v_invoice.customer_id) THEN
+      RAISE EXCEPTION 'Customer does not have enough account credit';
+    END IF;
+  END IF;
+
+  v_applied := LEAST(p_amount, v_balance);
+
+  INSERT INTO public.invoice_payments (
+    invoice_id, customer_id, amount, applied_amount, overpayment_amount,
+    method, reference, notes, received_by
+  )
+  VALUES (
+    p_invoice_id, v_invoice.customer_id, p_amount, v_applied, p_amount - v_applied,
+    p_method, NULLIF(TRIM(p_reference), ''), NULLIF(TRIM(p_notes), ''), p_received_by
+  )
+  RETURNING * INTO v_payment;
+
+  UPDATE public.invoice_payments
+  SET receipt_number = 'RCT-' || LPAD(v_payment.id::TEXT, 6, '0')
+  WHERE id = v_payment.id
+  RETURNING * INTO v_payment;
+
+  IF v_payment.overpayment_amount > 0 THEN
+    INSERT INTO public.customer_account_credits (customer_id, amount, entry_type, invoice_id, payment_id, created_by)
+    VALUES (v_invoice.customer_id, v_payment.overpayment_amount, 'overpayment', p_invoice_id, v_payment.id, p_received_by);
+  END IF;
+  IF p_method = 'account_credit' THEN
+    INSERT INTO public.customer_account_credits (customer_id, amount, entry_type, invoice_id, payment_id, created_by)
+    VALUES (v_invoice.customer_id, -p_amount, 'applied', p_invoice_id, v_payment.id, p_received_by);
+  END IF;
+
+  UPDATE public.invoices
+  SET payment_method = p_method,
+      payment_reference = v_payment.receipt_number
+  WHERE id = p_invoice_id;
+
+  PERFORM public.refresh_invoice_balance(p_invoice_id);
+  RETURN v_payment;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.record_invoice_payment(INTEGER, DECIMAL, TEXT, TEXT, TEXT, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.refresh_invoice_balance(INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.customer_credit_balance(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Credit notes issued before this migration
+DO $$
+DECLARE
+  v_id INTEGER;
+BEGIN
+  FOR v_id IN
+    SELECT DISTINCT original_invoice_id FROM public.invoices WHERE original_invoice_id IS NOT NULL
+  LOOP
+    PERFORM public.refresh_invoice_balance(v_id);
+  END LOOP;
+END $$;
+
+-- ============================================================================
+-- PART 5: RLS
+-- ============================================================================
+
+ALTER TABLE public.invoice_payments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.customer_account_credits ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS invoice_payments_admin_all ON public.invoice_payments;
+CREATE POLICY invoice_payments_admin_all ON public.invoice_payments
+  FOR ALL
+  USING (public.is_admin())
+  WITH CHECK (public.is_admin());
+
+DROP POLICY IF EXISTS customer_account_credits_admin_all ON public.customer_account_credits;
+CREATE POLICY customer_account_credits_admin_all ON public.customer_account_credits
+  FOR ALL
+  USING (public.is_admin())
+  WITH CHECK (public.is_admin());
@@ -0,0 +1,148 @@
+-- Migration: 1760001300_add_online_payments.sql
+-- Purpose: Online card payments through a hosted checkout page. A payment
+--          session is opened for an invoice (accepted quotes are invoiced
+--          first); the provider's webhook then records the payment on the
+--          invoice. Webhook events are stored by id so a redelivered event is
+--          only applied once.
+
+-- ============================================================================
+-- PART 1: Online payment method
+-- ============================================================================
+
+ALTER TABLE public.invoice_payments DROP CONSTRAINT IF EXISTS invoice_payments_method_check;
+ALTER TABLE public.invoice_payments
+  ADD CONSTRAINT invoice_payments_method_check CHECK (method IN ('cash', 'zelle', 'card', 'account_credit', 'online'));
+
+-- ============================================================================
+-- PART 2: Payment sessions and webhook events
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.payment_sessions (
+  id BIGSERIAL PRIMARY KEY,
+  provider TEXT NOT NULL,
+  provider_session_id TEXT NOT NULL,
+  invoice_id INTEGER NOT NULL REFERENCES public.invoices(id),
+  quote_id INTEGER REFERENCES public.shipping_quotes(id),
+  customer_id UUID NOT NULL,
+  amount DECIMAL(10,2) NOT NULL CHECK (amount > 0),
+  currency TEXT NOT NULL DEFAULT 'USD',
+  checkout_url TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'completed', 'expired')),
+  expires_at TIMESTAMPTZ,
+  payment_id BIGINT REFERENCES public.invoice_payments(id),
+  provider_payment_id TEXT,
+  completed_at TIMESTAMPTZ,
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (provider, provider_session_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_payment_sessions_invoice ON public.payment_sessions (invoice_id, status);
+
+-- A quote is paid through a single invoice, so two checkouts opened at once
+-- cannot both invoice it. Voiding the invoice lets the quote be invoiced again.
+CREATE UNIQUE INDEX IF NOT EXISTS idx_invoices_open_quote
+  ON public.invoices (quote_id)
+  WHERE quote_id IS NOT NULL AND document_type = 'invoice' AND status <> 'void';
+
+CREATE TABLE IF NOT EXISTS public.payment_webhook_events (
+  event_id TEXT PRIMARY KEY,
+  provider TEXT NOT NULL,
+  event_type TEXT NOT NULL,
+  payload JSONB NOT NULL,
+  received_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  -- Set once the event has been applied; a redelivery of an unprocessed event is retried
+  processed_at TIMESTAMPTZ,
+  result TEXT
+);
+
+-- ============================================================================
+-- PART 3: Applying a completed checkout
+-- ============================================================================
+
+-- Record the money from a completed session against its invoice, once. The
+-- session row is locked so concurrent deliveries of the same checkout wait
+-- for each other. When the invoice was settled some other way in the
+-- meantime, the money goes to the customer's account credit instead.
+CREATE OR REPLACE FUNCTION public.complete_payment_session(
+  p_session_id BIGINT,
+  p_amount DECIMAL,
+  p_provider_payment_id TEXT
+)
+RETURNS public.invoice_payments AS $$
+DECLARE
+  v_session public.payment_sessions;
+  v_invoice public.invoices;
+  v_payment public.invoice_payments;
+BEGIN
+  SELECT * INTO v_session FROM public.payment_sessions WHERE id = p_session_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Payment session not found';
+  END IF;
+
+  IF v_session.status = 'completed' THEN
+    SELECT * INTO v_payment FROM public.invoice_payments WHERE id = v_session.payment_id;
+    RETURN v_payment;
+  END IF;
+
+  -- The checkout was opened for a fixed amount; anything else is not this session's money
+  IF p_amount IS DISTINCT FROM v_session.amount THEN
+    RAISE EXCEPTION 'Payment of % does not match the % payment session', p_amount, v_session.amount;
+  END IF;
+
+  SELECT * INTO v_invoice FROM public.invoices WHERE id = v_session.invoice_id FOR UPDATE;
+
+  IF v_invoice.status IN ('sent', 'partially_paid') THEN
+    v_payment := public.record_invoice_payment(
+      v_session.invoice_id, p_amount, 'online', p_provider_payment_id, 'Paid online', NULL
+    );
+  ELSE
+    INSERT INTO public.invoice_payments (
+      invoice_id, customer_id, amount, applied_amount, overpayment_amount, method, reference, notes
+    )
+    VALUES (
+      v_invoice.id, v_invoice.customer_id, p_amount, 0, p_amount, 'online', p_provider_payment_id,
+      'Paid online after the invoice was ' || v_invoice.status
+    )
+    RETURNING * INTO v_payment;
+
+    UPDATE public.invoice_payments
+    SET receipt_number = 'RCT-' || LPAD(v_payment.id::TEXT, 6, '0')
+    WHERE id = v_payment.id
+    RETURNING * INTO v_payment;
+
+    INSERT INTO public.customer_account_credits (customer_id, amount, entry_type, invoice_id, payment_id)
+    VALUES (v_invoice.customer_id, p_amount, 'overpayment', v_invoice.id, v_payment.id);
+  END IF;
+
+  UPDATE public.payment_sessions
+  SET status = 'completed',
+      payment_id = v_payment.id,
+      provider_payment_id = p_provider_payment_id,
+      completed_at = NOW()
+  WHERE id = p_session_id;
+
+  RETURN v_payment;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.complete_payment_session(BIGINT, DECIMAL, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- ============================================================================
+-- PART 4: RLS
+-- ============================================================================
+
+ALTER TABLE public.payment_sessions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.payment_webhook_events ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS payment_sessions_admin_all ON public.payment_sessions;
+CREATE POLICY payment_sessions_admin_all ON public.payment_sessions
+  FOR ALL
+  USING (public.is_admin())
+  WITH CHECK (public.is_admin());
+
+DROP POLICY IF EXISTS payment_webhook_events_admin_all ON public.payment_webhook_events;
+CREATE POLICY payment_webhook_events_admin_all ON public.payment_webhook_events
+  FOR ALL
+  USING (public.is_admin())
+  WITH CHECK (public.is_admin());
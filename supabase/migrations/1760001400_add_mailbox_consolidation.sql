@@ -0,0 +1,111 @@
+-- Migration: 1760001400_add_mailbox_consolidation.sql
+-- Purpose: Customers combine packages waiting in their virtual mailbox into
+--          one outbound shipment. The request creates the shipment with one
+--          item per package and marks the packages forwarded; staff then
+--          repack and re-weigh the box, and the quote is issued on that weight.
+
+-- ============================================================================
+-- PART 1: Package to shipment link and consolidation details
+-- ============================================================================
+
+ALTER TABLE public.received_packages
+  ADD COLUMN IF NOT EXISTS shipment_id INTEGER REFERENCES public.shipments(id);
+
+CREATE INDEX IF NOT EXISTS received_packages_shipment_id_idx
+  ON public.received_packages (shipment_id)
+  WHERE shipment_id IS NOT NULL;
+
+ALTER TABLE public.shipments
+  ADD COLUMN IF NOT EXISTS is_consolidation BOOLEAN NOT NULL DEFAULT FALSE,
+  ADD COLUMN IF NOT EXISTS consolidated_weight_lbs DECIMAL(8,2),
+  ADD COLUMN IF NOT EXISTS consolidated_dimensions JSONB,
+  ADD COLUMN IF NOT EXISTS reweighed_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS reweighed_by UUID REFERENCES auth.users(id);
+
+CREATE INDEX IF NOT EXISTS shipments_consolidation_queue_idx
+  ON public.shipments (created_at)
+  WHERE is_consolidation AND reweighed_at IS NULL;
+
+-- ============================================================================
+-- PART 2: Requesting a consolidation
+-- ============================================================================
+
+-- Create the shipment, its items and the package links in one transaction.
+-- The packages are locked first so two requests can't forward the same
+-- package; every one of them must belong to the customer and still be at
+-- the warehouse.
+CREATE OR REPLACE FUNCTION public.request_mailbox_consolidation(
+  p_customer_id UUID,
+  p_package_ids UUID[],
+  p_destination_id INTEGER,
+  p_service_type TEXT,
+  p_declared_value DECIMAL,
+  p_tracking_number TEXT,
+  p_notes TEXT
+)
+RETURNS public.shipments AS $$
+DECLARE
+  v_package_count INTEGER;
+  v_shipment public.shipments;
+BEGIN
+  SELECT COUNT(*) INTO v_package_count
+  FROM (
+    SELECT id FROM public.received_packages
+    WHERE id = ANY(p_package_ids)
+      AND user_id = p_customer_id
+      AND status = 'received_at_warehouse'
+    FOR UPDATE
+  ) locked;
+
+  IF v_package_count <> COALESCE(array_length(p_package_ids, 1), 0) THEN
+    RAISE EXCEPTION 'Some packages are no longer available to consolidate'
+      USING ERRCODE = 'P0001', HINT = 'PACKAGES_UNAVAILABLE';
+  END IF;
+
+  INSERT INTO public.shipments (
+    customer_id, tracking_number, status, service_type, origin_address, destination_id,
+    total_weight, total_declared_value, special_instructions, is_consolidation
+  )
+  SELECT
+    p_customer_id, p_tracking_number, 'awaiting_consolidation', p_service_type, 'QCS Cargo - New Jersey',
+    p_destination_id, SUM(COALESCE(weight, 0)), p_declared_value, p_notes, TRUE
+  FROM public.received_packages
+  WHERE id = ANY(p_package_ids)
+  RETURNING * INTO v_shipment;
+
+  INSERT INTO public.shipment_items (
+    shipment_id, description, weight_lbs, length_inches, width_inches, height_inches,
+    declared_value, quantity, category, notes
+  )
+  SELECT
+    v_shipment.id,
+    CONCAT_WS(' ', carrier, tracking_number),
+    COALESCE(weight, 0),
+    NULLIF(dimensions->>'length', '')::DECIMAL,
+    NULLIF(dimensions->>'width', '')::DECIMAL,
+    NULLIF(dimensions->>'height', '')::DECIMAL,
+    0,
+    1,
+    'mailbox_package',
+    'Received ' || TO_CHAR(created_at, 'YYYY-MM-DD')
+  FROM public.received_packages
+  WHERE id = ANY(p_package_ids)
+  ORDER BY created_at;
+
+  UPDATE public.received_packages
+  SET status = 'forwarded',
+      shipment_id = v_shipment.id
+  WHERE id = ANY(p_package_ids);
+
+  INSERT INTO public.shipment_tracking (shipment_id, status, location, notes, timestamp)
+  VALUES (
+    v_shipment.id, 'created', 'QCS Cargo - New Jersey',
+    'Consolidation of ' || v_package_count || ' mailbox packages requested', NOW()
+  );
+
+  RETURN v_shipment;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.request_mailbox_consolidation(UUID, UUID[], INTEGER, TEXT, DECIMAL, TEXT, TEXT)
+  FROM PUBLIC, anon, authenticated;
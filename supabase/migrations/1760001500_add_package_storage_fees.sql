@@ -0,0 +1,182 @@
+-- Migration: 1760001500_add_package_storage_fees.sql
+-- Purpose: Enforce the extended storage fee on mailbox packages. Storage runs
+--          from receipt until the package is forwarded, picked up or
+--          disposed; the daily package-storage sweep records each billable
+--          week in package_storage_charges, which the next invoice collects.
+--          Packages left past the abandonment threshold are disposed after a
+--          final notice.
+
+-- ============================================================================
+-- PART 1: Storage tracking on received packages
+-- ============================================================================
+
+ALTER TABLE public.received_packages
+  ADD COLUMN IF NOT EXISTS storage_ended_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS storage_weeks_charged INTEGER NOT NULL DEFAULT 0,
+  -- Set once the final accrual after the package left has been recorded
+  ADD COLUMN IF NOT EXISTS storage_settled BOOLEAN NOT NULL DEFAULT FALSE,
+  ADD COLUMN IF NOT EXISTS storage_warning_sent_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS abandonment_notice_sent_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS disposed_at TIMESTAMPTZ;
+
+-- Packages that already left are not billed retroactively
+UPDATE public.received_packages
+SET storage_ended_at = COALESCE(storage_ended_at, created_at),
+    storage_settled = TRUE
+WHERE status NOT IN ('received_at_warehouse', 'pending_pickup');
+
+CREATE INDEX IF NOT EXISTS received_packages_storage_open_idx
+  ON public.received_packages (created_at)
+  WHERE NOT storage_settled;
+
+-- The clock stops whenever a package leaves the shelf, whichever path moved it.
+-- A package forwarded into a consolidation is still on our shelves until the
+-- box ships, so its clock is stopped by the shipment instead (below).
+CREATE OR REPLACE FUNCTION public.stop_package_storage_clock()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.status IN ('picked_up', 'forwarded', 'disposed')
+     AND OLD.status IN ('received_at_warehouse', 'pending_pickup')
+     AND NOT (NEW.status = 'forwarded' AND NEW.shipment_id IS NOT NULL) THEN
+    NEW.storage_ended_at := COALESCE(NEW.storage_ended_at, NOW());
+  END IF;
+  IF NEW.status = 'disposed' THEN
+    NEW.disposed_at := COALESCE(NEW.disposed_at, NOW());
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS received_packages_stop_storage_clock ON public.received_packages;
+CREATE TRIGGER received_packages_stop_storage_clock
+  BEFORE UPDATE OF status ON public.received_packages
+  FOR EACH ROW EXECUTE FUNCTION public.stop_package_storage_clock();
+
+-- Consolidated packages wait while staff repack the box and the customer
+-- pays; their storage ends once the shipment moves past processing
+CREATE OR REPLACE FUNCTION public.stop_consolidated_storage_clock()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.received_packages
+  SET storage_ended_at = NOW()
+  WHERE shipment_id = NEW.id
+    AND status = 'forwarded'
+    AND storage_ended_at IS NULL;
+  RETURN NEW;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.stop_consolidated_storage_clock() FROM PUBLIC, anon, authenticated;
+
+DROP TRIGGER IF EXISTS shipments_stop_consolidated_storage_clock ON public.shipments;
+CREATE TRIGGER shipments_stop_consolidated_storage_clock
+  AFTER UPDATE OF status ON public.shipments
+  FOR EACH ROW
+  WHEN (NEW.is_consolidation AND NEW.status NOT IN ('awaiting_consolidation', 'processing'))
+  EXECUTE FUNCTION public.stop_consolidated_storage_clock();
+
+-- ============================================================================
+-- PART 2: Accrued storage charges
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.package_storage_charges (
+  id SERIAL PRIMARY KEY,
+  package_id UUID NOT NULL REFERENCES public.received_packages(id) ON DELETE CASCADE,
+  customer_id UUID NOT NULL REFERENCES auth.users(id),
+  description TEXT NOT NULL,
+  storage_days INTEGER NOT NULL,
+  -- Billable weeks covered up to and including this charge
+  weeks_through INTEGER NOT NULL CHECK (weeks_through > 0),
+  quantity DECIMAL(10,2) NOT NULL CHECK (quantity > 0),
+  unit_price DECIMAL(10,2) NOT NULL,
+  amount DECIMAL(10,2) NOT NULL,
+  -- Null until an invoice collects the charge; released again if that invoice is voided
+  invoice_id INTEGER REFERENCES public.invoices(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (package_id, weeks_through)
+);
+
+CREATE INDEX IF NOT EXISTS package_storage_charges_pending_idx
+  ON public.package_storage_charges (customer_id, created_at)
+  WHERE invoice_id IS NULL;
+
+CREATE INDEX IF NOT EXISTS package_storage_charges_invoice_idx
+  ON public.package_storage_charges (invoice_id)
+  WHERE invoice_id IS NOT NULL;
+
+-- Storage lines name the charge they bill. Inserting the invoice claims those
+-- charges in the same transaction; the row locks make a concurrent invoice
+-- wait, and it is refused if any of its charges were taken meanwhile.
+CREATE OR REPLACE FUNCTION public.claim_invoice_storage_charges()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_charge_ids INTEGER[];
+  v_claimed INTEGER;
+BEGIN
+  SELECT ARRAY_AGG(DISTINCT (line->>'storage_charge_id')::INTEGER) INTO v_charge_ids
+  FROM jsonb_array_elements(NEW.line_items) AS line
+  WHERE line ? 'storage_charge_id';
+
+  IF v_charge_ids IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  UPDATE public.package_storage_charges
+  SET invoice_id = NEW.id
+  WHERE id = ANY(v_charge_ids)
+    AND customer_id = NEW.customer_id
+    AND invoice_id IS NULL;
+  GET DIAGNOSTICS v_claimed = ROW_COUNT;
+
+  IF v_claimed <> array_length(v_charge_ids, 1) THEN
+    RAISE EXCEPTION 'Storage charges on this invoice were already collected by another invoice'
+      USING ERRCODE = 'P0001', HINT = 'STORAGE_CHARGES_CLAIMED';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.claim_invoice_storage_charges() FROM PUBLIC, anon, authenticated;
+
+DROP TRIGGER IF EXISTS invoices_claim_storage_charges ON public.invoices;
+CREATE TRIGGER invoices_claim_storage_charges
+  AFTER INSERT ON public.invoices
+  FOR EACH ROW
+  WHEN (NEW.document_type = 'invoice')
+  EXECUTE FUNCTION public.claim_invoice_storage_charges();
+
+ALTER TABLE public.package_storage_charges ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS package_storage_charges_admin_all ON public.package_storage_charges;
+CREATE POLICY package_storage_charges_admin_all ON public.package_storage_charges
+  FOR ALL
+  USING (public.is_admin())
+  WITH CHECK (public.is_admin());
+
+DROP POLICY IF EXISTS package_storage_charges_customer_select ON public.package_storage_charges;
+CREATE POLICY package_storage_charges_customer_select ON public.package_storage_charges
+  FOR SELECT
+  USING (auth.uid() = customer_id);
+
+-- ============================================================================
+-- PART 3: Storage policy
+-- ============================================================================
+
+INSERT INTO public.system_settings (setting_key, setting_value, description, is_public)
+VALUES (
+  'storage.policy',
+  '{"warning_days_before": 2, "abandonment_days": 90, "abandonment_notice_days": 14}'::jsonb,
+  'Mailbox storage: free-period warning lead time, days before an unclaimed package is disposed, and final notice period',
+  false
+)
+ON CONFLICT (setting_key) DO NOTHING;
@@ -0,0 +1,61 @@
+-- Migration: 1760001600_add_package_photos.sql
+-- Purpose: Receiving staff photograph each package on arrival as proof of
+--          condition. Photos are stored in the private package-photos bucket
+--          under <customer id>/<package id>/ and customers read their own
+--          through signed URLs. received_packages.package_photo_url keeps the
+--          object path of the first photo as the package's cover image.
+
+-- ============================================================================
+-- PART 1: Private bucket
+-- ============================================================================
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('package-photos', 'package-photos', false, 5242880, ARRAY['image/jpeg', 'image/png', 'image/webp'])
+ON CONFLICT (id) DO NOTHING;
+
+DROP POLICY IF EXISTS package_photos_admin_all ON storage.objects;
+CREATE POLICY package_photos_admin_all ON storage.objects
+  FOR ALL
+  USING (bucket_id = 'package-photos' AND public.is_admin())
+  WITH CHECK (bucket_id = 'package-photos' AND public.is_admin());
+
+DROP POLICY IF EXISTS package_photos_owner_select ON storage.objects;
+CREATE POLICY package_photos_owner_select ON storage.objects
+  FOR SELECT
+  USING (bucket_id = 'package-photos' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+-- ============================================================================
+-- PART 2: Photo records
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.received_package_photos (
+  id SERIAL PRIMARY KEY,
+  package_id UUID NOT NULL REFERENCES public.received_packages(id) ON DELETE CASCADE,
+  storage_path TEXT NOT NULL UNIQUE,
+  content_type TEXT NOT NULL,
+  size_bytes INTEGER NOT NULL,
+  captured_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS received_package_photos_package_idx
+  ON public.received_package_photos (package_id, created_at);
+
+ALTER TABLE public.received_package_photos ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS received_package_photos_admin_all ON public.received_package_photos;
+CREATE POLICY received_package_photos_admin_all ON public.received_package_photos
+  FOR ALL
+  USING (public.is_admin())
+  WITH CHECK (public.is_admin());
+
+DROP POLICY IF EXISTS received_package_photos_user_select ON public.received_package_photos;
+CREATE POLICY received_package_photos_user_select ON public.received_package_photos
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.received_packages
+      WHERE received_packages.id = received_package_photos.package_id
+        AND received_packages.user_id = auth.uid()
+    )
+  );
@@ -0,0 +1,21 @@
+-- Migration: 1760001700_add_package_label_codes.sql
+-- Purpose: Every received package gets a QCS label code, printed as the
+--          barcode on the internal 4x6 warehouse label at the receiving
+--          station. Existing packages are numbered too so they can be
+--          relabelled.
+
+-- ============================================================================
+-- PART 1: Label codes
+-- ============================================================================
+
+CREATE SEQUENCE IF NOT EXISTS public.received_package_label_seq START 1;
+
+-- QR00000001, QR00000002, ... Volatile defaults are evaluated per row, so
+-- existing packages get distinct codes
+ALTER TABLE public.received_packages
+  ADD COLUMN IF NOT EXISTS label_code TEXT NOT NULL
+    DEFAULT ('QR' || LPAD(nextval('public.received_package_label_seq')::TEXT, 8, '0')),
+  ADD COLUMN IF NOT EXISTS label_printed_at TIMESTAMPTZ;
+
+CREATE UNIQUE INDEX IF NOT EXISTS received_packages_label_code_idx
+  ON public.received_packages (label_code);
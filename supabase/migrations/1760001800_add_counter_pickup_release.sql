@@ -0,0 +1,213 @@
+-- Migration: 1760001800_add_counter_pickup_release.sql
+-- Purpose: Customers collect mailbox packages at the counter. Staff verify
+--          the recipient with a one-time code sent by SMS or email, or by
+--          checking a photo ID, capture a signature on screen and release
+--          the packages. Each release is recorded with who released what and
+--          when, and the customer is sent a receipt.
+
+-- ============================================================================
+-- PART 1: One-time pickup codes
+-- ============================================================================
+
+-- Only the SHA-256 of the code (salted with the row id) is stored
+CREATE TABLE IF NOT EXISTS public.package_pickup_codes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  mailbox_id INTEGER NOT NULL REFERENCES public.virtual_mailboxes(id) ON DELETE CASCADE,
+  code_hash TEXT NOT NULL,
+  channel TEXT NOT NULL CHECK (channel IN ('sms', 'email')),
+  expires_at TIMESTAMPTZ NOT NULL,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  consumed_at TIMESTAMPTZ,
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS package_pickup_codes_mailbox_idx
+  ON public.package_pickup_codes (mailbox_id, created_at DESC);
+
+ALTER TABLE public.package_pickup_codes ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS package_pickup_codes_admin_all ON public.package_pickup_codes;
+CREATE POLICY package_pickup_codes_admin_all ON public.package_pickup_codes
+  FOR ALL
+  USING (public.is_admin())
+  WITH CHECK (public.is_admin());
+
+-- ============================================================================
+-- PART 2: Signatures
+-- ============================================================================
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('pickup-signatures', 'pickup-signatures', false, 1048576, ARRAY['image/png'])
+ON CONFLICT (id) DO NOTHING;
+
+DROP POLICY IF EXISTS pickup_signatures_admin_all ON storage.objects;
+CREATE POLICY pickup_signatures_admin_all ON storage.objects
+  FOR ALL
+  USING (bucket_id = 'pickup-signatures' AND public.is_admin())
+  WITH CHECK (bucket_id = 'pickup-signatures' AND public.is_admin());
+
+DROP POLICY IF EXISTS pickup_signatures_owner_select ON storage.objects;
+CREATE POLICY pickup_signatures_owner_select ON storage.objects
+  FOR SELECT
+  USING (bucket_id = 'pickup-signatures' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+-- ============================================================================
+-- PART 3: Releases
+-- ============================================================================
+
+CREATE SEQUENCE IF NOT EXISTS public.package_release_receipt_seq START 1;
+
+CREATE TABLE IF NOT EXISTS public.package_releases (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  receipt_number TEXT NOT NULL UNIQUE
+    DEFAULT ('PR' || LPAD(nextval('public.package_release_receipt_seq')::TEXT, 8, '0')),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  mailbox_id INTEGER NOT NULL REFERENCES public.virtual_mailboxes(id) ON DELETE CASCADE,
+  recipient_name TEXT NOT NULL,
+  verification_method TEXT NOT NULL CHECK (verification_method IN ('otp', 'id_check')),
+  pickup_code_id UUID REFERENCES public.package_pickup_codes(id) ON DELETE SET NULL,
+  -- ID checks keep the document type and last four characters only
+  id_type TEXT,
+  id_last4 TEXT,
+  signature_path TEXT NOT NULL,
+  released_by UUID NOT NULL REFERENCES auth.users(id),
+  released_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  receipt_sent_at TIMESTAMPTZ,
+  CHECK (
+    (verification_method = 'otp' AND pickup_code_id IS NOT NULL)
+    OR (verification_method = 'id_check' AND id_type IS NOT NULL AND id_last4 IS NOT NULL)
+  )
+);
+
+CREATE INDEX IF NOT EXISTS package_releases_user_idx
+  ON public.package_releases (user_id, released_at DESC);
+
+ALTER TABLE public.package_releases ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS package_releases_admin_all ON public.package_releases;
+CREATE POLICY package_releases_admin_all ON public.package_releases
+  FOR ALL
+  USING (public.is_admin())
+  WITH CHECK (public.is_admin());
+
+DROP POLICY IF EXISTS package_releases_user_select ON public.package_releases;
+CREATE POLICY package_releases_user_select ON public.package_releases
+  FOR SELECT
+  USING (user_id = auth.uid());
+
+ALTER TABLE public.received_packages
+  ADD COLUMN IF NOT EXISTS release_id UUID REFERENCES public.package_releases(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS released_by UUID REFERENCES auth.users(id),
+  ADD COLUMN IF NOT EXISTS picked_up_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS received_packages_release_idx
+  ON public.received_packages (release_id)
+  WHERE release_id IS NOT NULL;
+
+-- ============================================================================
+-- PART 4: Checking codes and releasing packages
+-- ============================================================================
+
+-- Locks the code row so parallel guesses are counted one after another and
+-- the attempt limit holds. A wrong guess adds an attempt; the outcome is
+-- returned rather than raised so that attempt is kept.
+CREATE OR REPLACE FUNCTION public.record_pickup_code_attempt(
+  p_code_id UUID,
+  p_code_hash TEXT,
+  p_max_attempts INTEGER
+)
+RETURNS TEXT AS $$
+DECLARE
+  v_code public.package_pickup_codes;
+BEGIN
+  SELECT * INTO v_code FROM public.package_pickup_codes WHERE id = p_code_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN 'not_found';
+  END IF;
+  IF v_code.consumed_at IS NOT NULL THEN
+    RETURN 'consumed';
+  END IF;
+  IF v_code.expires_at <= NOW() THEN
+    RETURN 'expired';
+  END IF;
+  IF v_code.attempts >= p_max_attempts THEN
+    RETURN 'locked';
+  END IF;
+  IF v_code.code_hash <> p_code_hash THEN
+    UPDATE public.package_pickup_codes SET attempts = attempts + 1 WHERE id = p_code_id;
+    RETURN 'wrong';
+  END IF;
+  RETURN 'valid';
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- One transaction: claim the pickup code, record the release and mark every
+-- requested package picked up. Raises, leaving the code unused, when the
+-- code was already claimed or any package is no longer on the shelf.
+CREATE OR REPLACE FUNCTION public.release_pickup_packages(
+  p_release_id UUID,
+  p_mailbox_id INTEGER,
+  p_package_ids UUID[],
+  p_recipient_name TEXT,
+  p_verification_method TEXT,
+  p_pickup_code_id UUID,
+  p_id_type TEXT,
+  p_id_last4 TEXT,
+  p_signature_path TEXT,
+  p_released_by UUID
+)
+RETURNS public.package_releases AS $$
+DECLARE
+  v_user_id UUID;
+  v_release public.package_releases;
+  v_released INTEGER;
+BEGIN
+  SELECT user_id INTO v_user_id FROM public.virtual_mailboxes WHERE id = p_mailbox_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Mailbox not found';
+  END IF;
+
+  IF p_pickup_code_id IS NOT NULL THEN
+    UPDATE public.package_pickup_codes
+    SET consumed_at = NOW()
+    WHERE id = p_pickup_code_id
+      AND mailbox_id = p_mailbox_id
+      AND consumed_at IS NULL
+      AND expires_at > NOW();
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'This code has already been used. Send a new one.';
+    END IF;
+  END IF;
+
+  INSERT INTO public.package_releases (
+    id, user_id, mailbox_id, recipient_name, verification_method,
+    pickup_code_id, id_type, id_last4, signature_path, released_by
+  )
+  VALUES (
+    p_release_id, v_user_id, p_mailbox_id, p_recipient_name, p_verification_method,
+    p_pickup_code_id, p_id_type, p_id_last4, p_signature_path, p_released_by
+  )
+  RETURNING * INTO v_release;
+
+  UPDATE public.received_packages
+  SET status = 'picked_up',
+      release_id = v_release.id,
+      released_by = p_released_by,
+      picked_up_at = v_release.released_at
+  WHERE id = ANY(p_package_ids)
+    AND mailbox_id = p_mailbox_id
+    AND status IN ('received_at_warehouse', 'pending_pickup');
+  GET DIAGNOSTICS v_released = ROW_COUNT;
+
+  IF v_released <> COALESCE(array_length(p_package_ids, 1), 0) THEN
+    RAISE EXCEPTION 'Some packages are no longer available for pickup. Look the mailbox up again.';
+  END IF;
+
+  RETURN v_release;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.record_pickup_code_attempt(UUID, TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.release_pickup_packages(UUID, INTEGER, UUID[], TEXT, TEXT, UUID, TEXT, TEXT, TEXT, UUID) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,139 @@
+-- Migration: 1760001900_add_package_pre_alerts.sql
+-- Purpose: Customers pre-alert packages they have ordered online: retailer,
+--          expected tracking number, contents, declared value and the
+--          purchase invoice. When the package is received, the pre-alert is
+--          attached to it so customs paperwork is ready, and the customer is
+--          told it arrived as expected. Arrivals without a pre-alert are
+--          flagged for staff to chase the paperwork.
+
+-- ============================================================================
+-- PART 1: Invoice uploads
+-- ============================================================================
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('pre-alert-invoices', 'pre-alert-invoices', false, 10485760, ARRAY['application/pdf', 'image/jpeg', 'image/png'])
+ON CONFLICT (id) DO NOTHING;
+
+DROP POLICY IF EXISTS pre_alert_invoices_admin_all ON storage.objects;
+CREATE POLICY pre_alert_invoices_admin_all ON storage.objects
+  FOR ALL
+  USING (bucket_id = 'pre-alert-invoices' AND public.is_admin())
+  WITH CHECK (bucket_id = 'pre-alert-invoices' AND public.is_admin());
+
+-- Customers upload and read invoices under their own <user id>/ folder
+DROP POLICY IF EXISTS pre_alert_invoices_owner_insert ON storage.objects;
+CREATE POLICY pre_alert_invoices_owner_insert ON storage.objects
+  FOR INSERT
+  WITH CHECK (bucket_id = 'pre-alert-invoices' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+DROP POLICY IF EXISTS pre_alert_invoices_owner_select ON storage.objects;
+CREATE POLICY pre_alert_invoices_owner_select ON storage.objects
+  FOR SELECT
+  USING (bucket_id = 'pre-alert-invoices' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+-- ============================================================================
+-- PART 2: Pre-alerts
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.package_pre_alerts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+  mailbox_id INTEGER NOT NULL REFERENCES public.virtual_mailboxes(id) ON DELETE CASCADE,
+  retailer TEXT NOT NULL CHECK (char_length(retailer) BETWEEN 1 AND 120),
+  tracking_number TEXT NOT NULL CHECK (tracking_number ~ '^[A-Z0-9]{8,40}$'),
+  carrier TEXT,
+  contents TEXT NOT NULL CHECK (char_length(contents) BETWEEN 1 AND 500),
+  declared_value NUMERIC(12, 2) NOT NULL CHECK (declared_value >= 0),
+  invoice_path TEXT,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'received', 'cancelled')),
+  received_package_id UUID REFERENCES public.received_packages(id) ON DELETE SET NULL,
+  matched_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- One open pre-alert per tracking number per customer
+CREATE UNIQUE INDEX IF NOT EXISTS package_pre_alerts_open_tracking_idx
+  ON public.package_pre_alerts (user_id, tracking_number)
+  WHERE status <> 'cancelled';
+
+CREATE INDEX IF NOT EXISTS package_pre_alerts_user_idx
+  ON public.package_pre_alerts (user_id, created_at DESC);
+
+-- Tracking numbers are stored the way receiving records them (upper case,
+-- no spaces or dashes) and the mailbox always comes from the owner
+CREATE OR REPLACE FUNCTION public.prepare_package_pre_alert()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  NEW.tracking_number := UPPER(REGEXP_REPLACE(NEW.tracking_number, '[\s-]', '', 'g'));
+  NEW.updated_at := NOW();
+
+  IF TG_OP = 'INSERT' THEN
+    SELECT id INTO NEW.mailbox_id
+    FROM public.virtual_mailboxes
+    WHERE user_id = NEW.user_id;
+
+    IF NEW.mailbox_id IS NULL THEN
+      RAISE EXCEPTION 'A virtual mailbox is required before pre-alerting packages';
+    END IF;
+  ELSE
+    NEW.user_id := OLD.user_id;
+    NEW.mailbox_id := OLD.mailbox_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS prepare_package_pre_alert ON public.package_pre_alerts;
+CREATE TRIGGER prepare_package_pre_alert
+  BEFORE INSERT OR UPDATE ON public.package_pre_alerts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prepare_package_pre_alert();
+
+ALTER TABLE public.package_pre_alerts ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS package_pre_alerts_admin_all ON public.package_pre_alerts;
+CREATE POLICY package_pre_alerts_admin_all ON public.package_pre_alerts
+  FOR ALL
+  USING (public.is_admin())
+  WITH CHECK (public.is_admin());
+
+DROP POLICY IF EXISTS package_pre_alerts_user_select ON public.package_pre_alerts;
+CREATE POLICY package_pre_alerts_user_select ON public.package_pre_alerts
+  FOR SELECT
+  USING (user_id = auth.uid());
+
+DROP POLICY IF EXISTS package_pre_alerts_user_insert ON public.package_pre_alerts;
+CREATE POLICY package_pre_alerts_user_insert ON public.package_pre_alerts
+  FOR INSERT
+  WITH CHECK (user_id = auth.uid() AND status = 'pending' AND received_package_id IS NULL);
+
+-- Customers can edit or cancel a pre-alert until the package arrives
+DROP POLICY IF EXISTS package_pre_alerts_user_update ON public.package_pre_alerts;
+CREATE POLICY package_pre_alerts_user_update ON public.package_pre_alerts
+  FOR UPDATE
+  USING (user_id = auth.uid() AND status = 'pending')
+  WITH CHECK (user_id = auth.uid() AND status IN ('pending', 'cancelled') AND received_package_id IS NULL);
+
+-- ============================================================================
+-- PART 3: Matching on receipt
+-- ============================================================================
+
+ALTER TABLE public.received_packages
+  ADD COLUMN IF NOT EXISTS pre_alert_id UUID REFERENCES public.package_pre_alerts(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS retailer TEXT,
+  ADD COLUMN IF NOT EXISTS contents_description TEXT,
+  ADD COLUMN IF NOT EXISTS declared_value NUMERIC(12, 2),
+  -- Null for packages received before pre-alerts existed
+  ADD COLUMN IF NOT EXISTS pre_alert_match TEXT CHECK (pre_alert_match IN ('matched', 'unmatched')),
+  ADD COLUMN IF NOT EXISTS pre_alert_reviewed_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS pre_alert_reviewed_by UUID REFERENCES auth.users(id);
+
+CREATE INDEX IF NOT EXISTS received_packages_unmatched_idx
+  ON public.received_packages (created_at)
+  WHERE pre_alert_match = 'unmatched' AND pre_alert_reviewed_at IS NULL;
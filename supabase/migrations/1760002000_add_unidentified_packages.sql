@@ -0,0 +1,49 @@
+-- Migration: 1760002000_add_unidentified_packages.sql
+-- Purpose: Packages whose label has no suite number, or a wrong one, are
+--          held here instead of being turned away at receiving. Staff search
+--          the queue by shipper, recipient name on the label or partial
+--          tracking number and assign each package to a mailbox later, which
+--          records it as a normal received package and notifies the
+--          customer. created_at and assigned_at give the time spent
+--          unassigned.
+
+-- ============================================================================
+-- PART 1: Holding table
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.unidentified_packages (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tracking_number TEXT NOT NULL UNIQUE,
+  carrier TEXT,
+  shipper_name TEXT,
+  recipient_name TEXT,
+  -- Whatever else was legible on the label, including a wrong suite number
+  label_text TEXT,
+  weight NUMERIC(10, 2),
+  dimensions JSONB,
+  notes TEXT,
+  status TEXT NOT NULL DEFAULT 'unassigned' CHECK (status IN ('unassigned', 'assigned')),
+  received_by UUID NOT NULL REFERENCES auth.users(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  assigned_mailbox_id INTEGER REFERENCES public.virtual_mailboxes(id) ON DELETE SET NULL,
+  received_package_id UUID REFERENCES public.received_packages(id) ON DELETE SET NULL,
+  assigned_by UUID REFERENCES auth.users(id),
+  assigned_at TIMESTAMPTZ,
+  CHECK (status = 'unassigned' OR (assigned_at IS NOT NULL AND received_package_id IS NOT NULL))
+);
+
+CREATE INDEX IF NOT EXISTS unidentified_packages_open_idx
+  ON public.unidentified_packages (created_at)
+  WHERE status = 'unassigned';
+
+CREATE INDEX IF NOT EXISTS unidentified_packages_assigned_idx
+  ON public.unidentified_packages (assigned_at DESC)
+  WHERE status = 'assigned';
+
+ALTER TABLE public.unidentified_packages ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS unidentified_packages_admin_all ON public.unidentified_packages;
+CREATE POLICY unidentified_packages_admin_all ON public.unidentified_packages
+  FOR ALL
+  USING (public.is_admin())
+  WITH CHECK (public.is_admin());
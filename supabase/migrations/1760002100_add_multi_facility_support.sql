@@ -0,0 +1,343 @@
+-- Migration: 1760002100_add_multi_facility_support.sql
+-- Purpose: Run more than one warehouse. Each facility numbers its own
+--          mailboxes with its own prefix and counter, customers choose or
+--          transfer their facility, staff are assigned to the facilities they
+--          work at, and received and unidentified packages record the
+--          facility that holds them so receiving, inventory and reports can
+--          be scoped.
+
+-- ============================================================================
+-- PART 1: Facility numbering and status
+-- ============================================================================
+
+ALTER TABLE public.facilities
+  ADD COLUMN IF NOT EXISTS mailbox_prefix TEXT,
+  ADD COLUMN IF NOT EXISTS mailbox_next_number BIGINT NOT NULL DEFAULT 100001,
+  ADD COLUMN IF NOT EXISTS is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  ADD COLUMN IF NOT EXISTS created_at TIMESTAMPTZ NOT NULL DEFAULT NOW();
+
+-- New facilities are opened explicitly; only one facility is the default
+ALTER TABLE public.facilities ALTER COLUMN is_default SET DEFAULT FALSE;
+
+-- The seeded Kearny facility keeps the QCS numbers it has always issued and
+-- continues from where mailbox_seq left off
+UPDATE public.facilities
+SET
+  mailbox_prefix = 'QCS',
+  mailbox_next_number = GREATEST(
+    100001,
+    (SELECT last_value + CASE WHEN is_called THEN 1 ELSE 0 END FROM public.mailbox_seq),
+    COALESCE(
+      (
+        SELECT MAX(substring(vm.mailbox_number FROM '^QCS(\d+)$')::BIGINT) + 1
+        FROM public.virtual_mailboxes vm
+      ),
+      0
+    )
+  )
+WHERE mailbox_prefix IS NULL
+  AND id = (SELECT id FROM public.facilities WHERE is_default = TRUE ORDER BY id LIMIT 1);
+
+UPDATE public.facilities
+SET is_default = FALSE
+WHERE is_default = TRUE
+  AND id <> (SELECT id FROM public.facilities WHERE is_default = TRUE ORDER BY id LIMIT 1);
+
+ALTER TABLE public.facilities ALTER COLUMN mailbox_prefix SET NOT NULL;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'facilities_mailbox_prefix_format') THEN
+    ALTER TABLE public.facilities
+      ADD CONSTRAINT facilities_mailbox_prefix_format CHECK (mailbox_prefix ~ '^[A-Z]{2,5}$');
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'facilities_mailbox_prefix_key') THEN
+    ALTER TABLE public.facilities
+      ADD CONSTRAINT facilities_mailbox_prefix_key UNIQUE (mailbox_prefix);
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'facilities_default_is_active') THEN
+    ALTER TABLE public.facilities
+      ADD CONSTRAINT facilities_default_is_active CHECK (NOT is_default OR is_active);
+  END IF;
+END
+$$;
+
+CREATE UNIQUE INDEX IF NOT EXISTS facilities_single_default_idx
+  ON public.facilities (is_default)
+  WHERE is_default;
+
+-- Visitors pick a facility on the registration form before they have a session
+DROP POLICY IF EXISTS facilities_read_active_anon ON public.facilities;
+CREATE POLICY facilities_read_active_anon
+ON public.facilities
+FOR SELECT
+TO anon
+USING (is_active);
+
+GRANT SELECT ON public.facilities TO anon;
+
+-- ============================================================================
+-- PART 2: Per-facility mailbox numbers
+-- ============================================================================
+
+-- The row lock taken by UPDATE serialises concurrent signups per facility
+CREATE OR REPLACE FUNCTION public.generate_mailbox_number(p_facility_id INT)
+RETURNS TEXT
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  new_mailbox TEXT;
+BEGIN
+  UPDATE public.facilities
+  SET mailbox_next_number = mailbox_next_number + 1
+  WHERE id = p_facility_id
+  RETURNING mailbox_prefix || (mailbox_next_number - 1)::TEXT INTO new_mailbox;
+
+  IF new_mailbox IS NULL THEN
+    RAISE EXCEPTION 'Facility % does not exist.', p_facility_id;
+  END IF;
+
+  RETURN new_mailbox;
+END;
+$$;
+
+-- Kept for existing callers; numbers from the default facility
+CREATE OR REPLACE FUNCTION public.generate_mailbox_number()
+RETURNS TEXT
+LANGUAGE sql
+AS $$
+  SELECT public.generate_mailbox_number(id)
+  FROM public.facilities
+  WHERE is_default = TRUE
+  ORDER BY id
+  LIMIT 1;
+$$;
+
+-- Customers may pick a facility at signup through facility_code metadata
+CREATE OR REPLACE FUNCTION public.allocate_mailbox_on_signup()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, auth
+AS $$
+DECLARE
+  chosen_facility_id INT;
+BEGIN
+  SELECT id INTO chosen_facility_id
+  FROM public.facilities
+  WHERE is_active = TRUE
+    AND code = NEW.raw_user_meta_data ->> 'facility_code';
+
+  IF chosen_facility_id IS NULL THEN
+    SELECT id INTO chosen_facility_id
+    FROM public.facilities
+    WHERE is_default = TRUE
+    ORDER BY id
+    LIMIT 1;
+  END IF;
+
+  IF chosen_facility_id IS NULL THEN
+    RAISE EXCEPTION 'No default facility configured.';
+  END IF;
+
+  INSERT INTO public.virtual_mailboxes (user_id, facility_id, mailbox_number)
+  VALUES (NEW.id, chosen_facility_id, public.generate_mailbox_number(chosen_facility_id));
+
+  RETURN NEW;
+END;
+$$;
+
+ALTER FUNCTION public.allocate_mailbox_on_signup() OWNER TO postgres;
+
+-- ============================================================================
+-- PART 3: Staff assignment
+-- ============================================================================
+
+-- Admins with no rows here work across every facility
+CREATE TABLE IF NOT EXISTS public.facility_staff (
+  facility_id INT NOT NULL REFERENCES public.facilities(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  assigned_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (facility_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS facility_staff_user_idx
+  ON public.facility_staff (user_id);
+
+ALTER TABLE public.facility_staff ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS facility_staff_admin_all ON public.facility_staff;
+CREATE POLICY facility_staff_admin_all ON public.facility_staff
+  FOR ALL
+  USING (public.is_admin())
+  WITH CHECK (public.is_admin());
+
+-- ============================================================================
+-- PART 4: Facility on packages
+-- ============================================================================
+
+ALTER TABLE public.received_packages
+  ADD COLUMN IF NOT EXISTS facility_id INT REFERENCES public.facilities(id);
+
+UPDATE public.received_packages rp
+SET facility_id = vm.facility_id
+FROM public.virtual_mailboxes vm
+WHERE rp.mailbox_id = vm.id
+  AND rp.facility_id IS NULL;
+
+ALTER TABLE public.received_packages ALTER COLUMN facility_id SET NOT NULL;
+
+-- Packages are received where the mailbox lives unless the insert says otherwise
+CREATE OR REPLACE FUNCTION public.set_received_package_facility()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.facility_id IS NULL THEN
+    SELECT facility_id INTO NEW.facility_id
+    FROM public.virtual_mailboxes
+    WHERE id = NEW.mailbox_id;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_set_received_package_facility ON public.received_packages;
+CREATE TRIGGER trg_set_received_package_facility
+BEFORE INSERT ON public.received_packages
+FOR EACH ROW
+EXECUTE FUNCTION public.set_received_package_facility();
+
+CREATE INDEX IF NOT EXISTS received_packages_facility_status_idx
+  ON public.received_packages (facility_id, status);
+
+ALTER TABLE public.unidentified_packages
+  ADD COLUMN IF NOT EXISTS facility_id INT REFERENCES public.facilities(id);
+
+UPDATE public.unidentified_packages
+SET facility_id = (SELECT id FROM public.facilities WHERE is_default = TRUE ORDER BY id LIMIT 1)
+WHERE facility_id IS NULL;
+
+ALTER TABLE public.unidentified_packages ALTER COLUMN facility_id SET NOT NULL;
+
+CREATE INDEX IF NOT EXISTS unidentified_packages_facility_idx
+  ON public.unidentified_packages (facility_id, status);
+
+-- ============================================================================
+-- PART 5: Facility transfers
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.mailbox_facility_transfers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  mailbox_id INT NOT NULL REFERENCES public.virtual_mailboxes(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  from_facility_id INT NOT NULL REFERENCES public.facilities(id),
+  to_facility_id INT NOT NULL REFERENCES public.facilities(id),
+  previous_mailbox_number TEXT NOT NULL,
+  new_mailbox_number TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS mailbox_facility_transfers_mailbox_idx
+  ON public.mailbox_facility_transfers (mailbox_id, created_at DESC);
+
+ALTER TABLE public.mailbox_facility_transfers ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS mailbox_facility_transfers_admin_all ON public.mailbox_facility_transfers;
+CREATE POLICY mailbox_facility_transfers_admin_all ON public.mailbox_facility_transfers
+  FOR ALL
+  USING (public.is_admin())
+  WITH CHECK (public.is_admin());
+
+DROP POLICY IF EXISTS mailbox_facility_transfers_owner_select ON public.mailbox_facility_transfers;
+CREATE POLICY mailbox_facility_transfers_owner_select ON public.mailbox_facility_transfers
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- Moves the caller's mailbox to another facility with a number from that
+-- facility. Packages still on a shelf must be collected first, since they
+-- cannot follow the mailbox between warehouses.
+CREATE OR REPLACE FUNCTION public.transfer_virtual_mailbox(p_facility_id INT)
+RETURNS TABLE (mailbox_number TEXT, facility_id INT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  current_mailbox public.virtual_mailboxes%ROWTYPE;
+  new_mailbox TEXT;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Sign in to change your facility.';
+  END IF;
+
+  SELECT * INTO current_mailbox
+  FROM public.virtual_mailboxes vm
+  WHERE vm.user_id = auth.uid()
+  FOR UPDATE;
+
+  IF current_mailbox.id IS NULL THEN
+    RAISE EXCEPTION 'No virtual mailbox assigned to this user.';
+  END IF;
+
+  IF current_mailbox.facility_id = p_facility_id THEN
+    RAISE EXCEPTION 'Your mailbox is already at this facility.';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.facilities f WHERE f.id = p_facility_id AND f.is_active) THEN
+    RAISE EXCEPTION 'That facility is not accepting mailboxes.';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.received_packages rp
+    WHERE rp.mailbox_id = current_mailbox.id
+      AND rp.status IN ('received_at_warehouse', 'pending_pickup')
+  ) THEN
+    RAISE EXCEPTION 'Collect or forward the packages waiting in your mailbox before changing facility.';
+  END IF;
+
+  new_mailbox := public.generate_mailbox_number(p_facility_id);
+
+  UPDATE public.virtual_mailboxes vm
+  SET facility_id = p_facility_id, mailbox_number = new_mailbox
+  WHERE vm.id = current_mailbox.id;
+
+  INSERT INTO public.mailbox_facility_transfers (
+    mailbox_id, user_id, from_facility_id, to_facility_id, previous_mailbox_number, new_mailbox_number
+  )
+  VALUES (
+    current_mailbox.id, auth.uid(), current_mailbox.facility_id, p_facility_id, current_mailbox.mailbox_number, new_mailbox
+  );
+
+  RETURN QUERY SELECT new_mailbox, p_facility_id;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.transfer_virtual_mailbox(INT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.transfer_virtual_mailbox(INT) TO authenticated;
+
+-- ============================================================================
+-- PART 6: Mailbox details view
+-- ============================================================================
+
+CREATE OR REPLACE VIEW public.virtual_mailbox_details AS
+SELECT
+  vm.id,
+  vm.user_id,
+  vm.mailbox_number,
+  vm.created_at,
+  vm.facility_id,
+  f.code AS facility_code,
+  f.address_line1,
+  f.address_line2,
+  f.city,
+  f.state,
+  f.postal_code,
+  f.country,
+  p.full_name,
+  p.email,
+  f.name AS facility_name
+FROM public.virtual_mailboxes vm
+JOIN public.facilities f ON f.id = vm.facility_id
+LEFT JOIN public.profiles p ON p.id = vm.user_id;
@@ -0,0 +1,42 @@
+-- Migration: 1760002200_add_customer_billing_balances.sql
+-- Purpose: Account balances for the customer billing tab, summed in the
+--          database so they cover every document rather than the rows a
+--          single request returns. A voided document stays on the ledger on
+--          the day it was issued and is reversed on the day it was voided.
+
+-- What the customer still owes across all issued invoices
+CREATE OR REPLACE FUNCTION public.customer_outstanding_balance(p_customer_id UUID)
+RETURNS DECIMAL AS $$
+  SELECT COALESCE(SUM(total_amount - amount_credited - amount_paid), 0)::DECIMAL(10,2)
+  FROM public.invoices
+  WHERE customer_id = p_customer_id
+    AND document_type = 'invoice'
+    AND status NOT IN ('draft', 'void');
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Statement balance carried into a period: invoices add to it, credit notes
+-- and payments take it down, and account credit applied to an invoice does
+-- not move it. Documents issued and voided before p_before cancel out.
+CREATE OR REPLACE FUNCTION public.customer_statement_opening_balance(p_customer_id UUID, p_before TIMESTAMPTZ)
+RETURNS DECIMAL AS $$
+  SELECT (
+    COALESCE((
+      SELECT SUM(CASE WHEN document_type = 'credit_note' THEN -total_amount ELSE total_amount END)
+      FROM public.invoices
+      WHERE customer_id = p_customer_id
+        AND status <> 'draft'
+        AND issued_at < p_before
+        AND NOT (status = 'void' AND COALESCE(voided_at, issued_at) < p_before)
+    ), 0)
+    - COALESCE((
+      SELECT SUM(amount)
+      FROM public.invoice_payments
+      WHERE customer_id = p_customer_id
+        AND method <> 'account_credit'
+        AND received_at < p_before
+    ), 0)
+  )::DECIMAL(10,2);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.customer_outstanding_balance(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.customer_statement_opening_balance(UUID, TIMESTAMPTZ) FROM PUBLIC, anon, authenticated;